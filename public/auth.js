@@ -0,0 +1,66 @@
+// Authentification des pages statiques: ajoute le jeton de session aux appels /api
+// et demande les identifiants quand l'API répond 401.
+(function () {
+    const TOKEN_KEY = 'authToken';
+    const originalFetch = window.fetch.bind(window);
+    let pendingLogin = null;
+
+    function getToken() {
+        return localStorage.getItem(TOKEN_KEY);
+    }
+
+    async function login() {
+        const email = prompt('Email');
+        if (!email) throw new Error('Connexion annulée');
+        const password = prompt('Mot de passe');
+        if (!password) throw new Error('Connexion annulée');
+
+        const res = await originalFetch('/api/auth/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email, password }),
+        });
+        if (!res.ok) {
+            alert('Identifiants invalides');
+            throw new Error('Identifiants invalides');
+        }
+        const data = await res.json();
+        localStorage.setItem(TOKEN_KEY, data.token);
+    }
+
+    function withAuth(init) {
+        const token = getToken();
+        if (!token) return init;
+        const headers = new Headers((init && init.headers) || {});
+        headers.set('Authorization', `Bearer ${token}`);
+        return { ...(init || {}), headers };
+    }
+
+    window.fetch = async function (input, init) {
+        const url = typeof input === 'string' ? input : input.url;
+        if (!url.startsWith('/api/') || url.startsWith('/api/auth/login')) {
+            return originalFetch(input, init);
+        }
+
+        const res = await originalFetch(input, withAuth(init));
+        if (res.status !== 401) return res;
+
+        // Une seule invite de connexion pour les appels parallèles
+        localStorage.removeItem(TOKEN_KEY);
+        pendingLogin = pendingLogin || login().finally(() => { pendingLogin = null; });
+        await pendingLogin;
+        return originalFetch(input, withAuth(init));
+    };
+
+    // Liens sans en-têtes possibles (iframes, téléchargements)
+    window.withAccessToken = function (url) {
+        const token = getToken();
+        if (!token) return url;
+        return `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(token)}`;
+    };
+
+    window.logout = function () {
+        localStorage.removeItem(TOKEN_KEY);
+        location.reload();
+    };
+})();
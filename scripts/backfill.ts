@@ -0,0 +1,100 @@
+/**
+ * Retraitement des emails d'une plage de dates, ou d'une archive sur disque, via l'API (le serveur doit tourner)
+ *
+ * Usage:
+ *   npm run backfill -- --from 2026-01-01 --to 2026-01-12 [--folder INBOX]... [--mailbox adresse]
+ *                       [--sender texte] [--subject texte] [--unseen-only] [--no-draft] [--dry-run] [--json]
+ *   npm run backfill -- --path archives/2025.mbox [--from ...] [--to ...] [--mailbox adresse] [--dry-run]
+ *
+ * - API_URL: défaut http://localhost:3000/api
+ * - API_KEY: clé d'API admin (en-tête X-API-Key)
+ * - --path: fichier .eml/.mbox ou dossier (Thunderbird) relatif à MAIL_IMPORT_DIR sur le serveur
+ * - --dry-run: simulation, rien n'est écrit ni envoyé
+ * - --json: rapport complet en JSON (au lieu du rapport texte)
+ *
+ * Le retraitement s'exécute sur le serveur (file de tâches) et reprend après un redémarrage;
+ * le script suit son avancement puis affiche le rapport par email. Code de sortie 1 si un email échoue.
+ */
+
+import axios from 'axios';
+
+const POLL_INTERVAL_MS = 5000;
+
+function parseArgs(args: string[]) {
+  const values: Record<string, string[]> = {};
+  const flags = new Set<string>();
+  for (let i = 0; i < args.length; i++) {
+    const name = args[i].replace(/^--/, '');
+    if (['dry-run', 'unseen-only', 'no-draft', 'json'].includes(name)) {
+      flags.add(name);
+    } else if (args[i].startsWith('--') && i + 1 < args.length) {
+      (values[name] = values[name] || []).push(args[++i]);
+    } else {
+      throw new Error(`Argument inattendu: ${args[i]}`);
+    }
+  }
+  return { values, flags };
+}
+
+async function main() {
+  const { values, flags } = parseArgs(process.argv.slice(2));
+  if (!values.path && (!values.from || !values.to)) {
+    throw new Error('--from et --to requis (AAAA-MM-JJ ou date ISO), ou --path');
+  }
+
+  const api = axios.create({
+    baseURL: process.env.API_URL || 'http://localhost:3000/api',
+    headers: process.env.API_KEY ? { 'X-API-Key': process.env.API_KEY } : {},
+  });
+
+  const { data: started } = await api.post('/scheduler/backfill', {
+    from: values.from?.[0],
+    to: values.to?.[0],
+    folders: values.folder,
+    path: values.path?.[0],
+    mailbox: values.mailbox?.[0],
+    sender: values.sender?.[0],
+    subject: values.subject?.[0],
+    unseenOnly: flags.has('unseen-only'),
+    autoSendDraft: !flags.has('no-draft'),
+    dryRun: flags.has('dry-run'),
+  });
+  const runId = started.run.id;
+  console.log(`Retraitement ${runId}${flags.has('dry-run') ? ' (simulation)' : ''}: ${started.run.progress.sources.join(', ')}`);
+
+  let run = started.run;
+  while (['pending', 'running'].includes(run.status)) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    run = (await api.get(`/scheduler/backfill/${runId}`, { params: { limit: 1 } })).data.run;
+    console.log(`  ${run.status} - ${run.progress.emails} email(s)${run.progress.currentSource ? ` (${run.progress.currentSource})` : ''}${run.error ? ` - ${run.error}` : ''}`);
+  }
+
+  const items: any[] = [];
+  for (let offset = 0; ; offset += 500) {
+    const { data } = await api.get(`/scheduler/backfill/${runId}`, { params: { limit: 500, offset } });
+    items.push(...data.items);
+    if (data.count < 500) break;
+  }
+
+  if (flags.has('json')) {
+    console.log(JSON.stringify({ run, items }, null, 2));
+  } else {
+    console.log(`\n${run.status.toUpperCase()}: ${JSON.stringify(run.progress.outcomes)}\n`);
+    for (const item of items) {
+      const rfq = item.internalRfqNumber || item.clientRfqNumber || '';
+      const requests = item.requests
+        ? ` [${item.requests.map((r: any) => `${r.itemCount} article(s)${r.brand ? ` ${r.brand}` : ''}`).join(', ')}]`
+        : '';
+      console.log(`${item.receivedAt.substring(0, 10)}  ${item.outcome.padEnd(17)} ${rfq.padEnd(18)} ${item.subject}${requests}${item.reason ? ` - ${item.reason}` : ''}`);
+    }
+  }
+
+  if (run.status === 'failed' || run.progress.outcomes.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error.response?.data || error.message || error);
+  process.exit(1);
+});
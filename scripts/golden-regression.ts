@@ -0,0 +1,45 @@
+/**
+ * Non-régression du pipeline d'ingestion sur le corpus golden
+ *
+ * Usage:
+ *   npm run test:golden -- [dossier-corpus] [--update-baseline] [--json]
+ *
+ * - dossier-corpus: défaut test/golden
+ * - --update-baseline: enregistre le run courant comme nouvelle baseline
+ * - --json: rapport complet en JSON (au lieu du rapport texte)
+ *
+ * Code de sortie 1 si un score (précision / rappel) baisse par rapport à la baseline.
+ */
+
+import { Logger } from '@nestjs/common';
+import * as path from 'path';
+import { GoldenRegressionRunner } from '../src/ingestion/regression';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const flags = new Set(args.filter(arg => arg.startsWith('--')));
+  const corpusDir = path.resolve(args.find(arg => !arg.startsWith('--')) || path.join(__dirname, '..', 'test', 'golden'));
+
+  // Les logs du pipeline masqueraient le rapport
+  Logger.overrideLogger(['error']);
+
+  const runner = await GoldenRegressionRunner.create();
+  const report = await runner.run(corpusDir);
+
+  console.log(flags.has('--json') ? JSON.stringify(report, null, 2) : GoldenRegressionRunner.formatReport(report));
+
+  if (flags.has('--update-baseline')) {
+    const filePath = GoldenRegressionRunner.writeBaseline(report);
+    console.log(`\nBaseline mise à jour: ${filePath}`);
+    return;
+  }
+
+  if (report.baselineDiff && report.baselineDiff.regressions.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -6,6 +6,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { COMPANY_INFO } from '../common/company-info';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { createMailTransport } from '../mail/local-mail-sink';
 
 export interface EmailRecipients {
   from: string;
@@ -32,7 +34,10 @@ export class AcknowledgmentService {
   private transporter: nodemailer.Transporter;
   private signature: string = '';
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private templateService: EmailTemplateService,
+  ) {
     this.initializeTransporter();
     this.loadThunderbirdSignature();
   }
@@ -48,7 +53,7 @@ export class AcknowledgmentService {
       },
     };
 
-    this.transporter = nodemailer.createTransport(smtpConfig);
+    this.transporter = createMailTransport(this.configService, smtpConfig);
     this.logger.log('SMTP transporter initialisé pour les accusés de réception');
   }
 
@@ -318,7 +323,7 @@ Email: <a href="mailto:${c.primaryEmail}">${c.primaryEmail}</a>
       // ========================================
       // 3. GÉNÉRER LE CONTENU
       // ========================================
-      const { subject, htmlBody, textBody } = this.generateAcknowledgmentContent(data);
+      const { subject, html: htmlBody, text: textBody } = this.renderAcknowledgment(data);
 
       // ========================================
       // 4. PRÉPARER L'EMAIL COMME UNE RÉPONSE
@@ -365,118 +370,30 @@ Email: <a href="mailto:${c.primaryEmail}">${c.primaryEmail}</a>
   }
 
   /**
-   * Génère le contenu de l'accusé de réception
+   * Génère le contenu de l'accusé de réception (modèle client_acknowledgment)
    */
-  private generateAcknowledgmentContent(data: AcknowledgmentData): {
-    subject: string;
-    htmlBody: string;
-    textBody: string;
-  } {
-    // Sujet avec "Re:" pour indiquer une réponse
-    const originalSubject = data.subject.replace(/^(Re:\s*)+/i, '').trim();
-    const refText = data.rfqNumber ? ` [Réf: ${data.rfqNumber}]` : '';
-    const subject = `Re: ${originalSubject}${refText}`;
-
-    // Salutation personnalisée
-    const greeting = data.senderName 
-      ? `Bonjour ${this.extractFirstName(data.senderName)},`
-      : 'Bonjour,';
-
-    // Mention urgence si applicable
-    const urgentNote = data.isUrgent 
-      ? `<p style="color: #d9534f; font-weight: bold;">⚠️ Nous avons bien noté le caractère urgent de votre demande et la traiterons en priorité.</p>`
-      : '';
-
-    // Mention deadline si applicable
-    const deadlineNote = data.deadline
-      ? `<p>Nous avons pris note de votre délai de réponse souhaité : <strong>${data.deadline}</strong>.</p>`
-      : '';
-
-    // Corps HTML
-    const htmlBody = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <style>
-    body { font-family: Arial, sans-serif; font-size: 14px; color: #333; line-height: 1.6; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { border-bottom: 2px solid #2c5aa0; padding-bottom: 10px; margin-bottom: 20px; }
-    .content { margin-bottom: 20px; }
-    .highlight { background-color: #f5f5f5; padding: 15px; border-left: 4px solid #2c5aa0; margin: 15px 0; }
-    .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h2 style="color: #2c5aa0; margin: 0;">Accusé de Réception</h2>
-    </div>
-    
-    <div class="content">
-      <p>${greeting}</p>
-      
-      <p>Nous accusons bonne réception de votre demande de prix et vous en remercions.</p>
-      
-      <div class="highlight">
-        <strong>📋 Détails de votre demande :</strong><br>
-        • Objet : ${originalSubject}<br>
-        ${data.rfqNumber ? `• Référence : ${data.rfqNumber}<br>` : ''}
-        ${data.itemCount > 0 ? `• Nombre d'articles : ${data.itemCount}<br>` : ''}
-        • Date de réception : ${new Date().toLocaleDateString('fr-FR', { 
-          weekday: 'long', 
-          year: 'numeric', 
-          month: 'long', 
-          day: 'numeric',
-          hour: '2-digit',
-          minute: '2-digit'
-        })}
-      </div>
-      
-      ${urgentNote}
-      ${deadlineNote}
-      
-      <p>Votre demande est actuellement en cours de traitement par notre équipe. Nous reviendrons vers vous dans les meilleurs délais avec notre offre.</p>
-      
-      <p>Pour toute question concernant cette demande, n'hésitez pas à nous contacter en répondant à cet email.</p>
-      
-      <p>Cordialement,</p>
-    </div>
-    
-    <div class="signature">
-      ${this.signature}
-    </div>
-  </div>
-</body>
-</html>`;
-
-    // Corps texte (fallback)
-    const textBody = `
-ACCUSÉ DE RÉCEPTION
-
-${greeting}
-
-Nous accusons bonne réception de votre demande de prix et vous en remercions.
-
-DÉTAILS DE VOTRE DEMANDE :
-- Objet : ${originalSubject}
-${data.rfqNumber ? `- Référence : ${data.rfqNumber}` : ''}
-${data.itemCount > 0 ? `- Nombre d'articles : ${data.itemCount}` : ''}
-- Date de réception : ${new Date().toLocaleDateString('fr-FR')}
-
-${data.isUrgent ? '⚠️ Nous avons bien noté le caractère urgent de votre demande et la traiterons en priorité.\n' : ''}
-${data.deadline ? `Nous avons pris note de votre délai de réponse souhaité : ${data.deadline}.\n` : ''}
-
-Votre demande est actuellement en cours de traitement par notre équipe. Nous reviendrons vers vous dans les meilleurs délais avec notre offre.
-
-Pour toute question concernant cette demande, n'hésitez pas à nous contacter en répondant à cet email.
-
-Cordialement,
-
-${this.stripHtml(this.signature)}
-`;
-
-    return { subject, htmlBody, textBody };
+  private renderAcknowledgment(data: AcknowledgmentData) {
+    const now = new Date();
+    return this.templateService.render('client_acknowledgment', {
+      // Sujet sans "Re:" (le modèle ajoute le préfixe de réponse)
+      subject: data.subject.replace(/^(Re:\s*)+/i, '').trim(),
+      rfqNumber: data.rfqNumber,
+      firstName: data.senderName ? this.extractFirstName(data.senderName) : undefined,
+      itemCount: data.itemCount,
+      receivedAt: now.toLocaleDateString('fr-FR', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      }),
+      receivedDate: now.toLocaleDateString('fr-FR'),
+      isUrgent: data.isUrgent,
+      deadline: data.deadline,
+      signatureHtml: this.signature,
+      signatureText: this.stripHtml(this.signature),
+    });
   }
 
   /**
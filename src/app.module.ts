@@ -16,6 +16,11 @@ import { ReviewModule } from './review/review.module';
 import { AcknowledgmentModule } from './acknowledgment/acknowledgment.module';
 import { TrackingModule } from './tracking/tracking.module';
 import { WebhookModule } from './webhook/webhook.module';
+import { AuthModule } from './auth/auth.module';
+import { JobsModule } from './jobs/jobs.module';
+import { MailboxModule } from './mailbox/mailbox.module';
+import { TemplatesModule } from './templates/templates.module';
+import { CurrencyModule } from './currency/currency.module';
 import { RfqLifecycleModule } from './rfq-lifecycle/rfq-lifecycle.module';
 import { BrandIntelligenceModule } from './brand-intelligence/brand-intelligence.module';
 import { LlmModule } from './llm';
@@ -38,8 +43,13 @@ import { AppController } from './app.controller';
     // Modules globaux en premier
     WebhookModule,
     BrandIntelligenceModule,
+    CurrencyModule,
     // Autres modules
     DatabaseModule,
+    AuthModule,
+    JobsModule,
+    MailboxModule,
+    TemplatesModule,
     EmailModule,
     PdfModule,
     ExcelModule,
@@ -0,0 +1,112 @@
+import { Body, Controller, Delete, Get, NotFoundException, Param, Post, Put, UnauthorizedException } from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { CurrentUser, Public, Roles } from './auth.decorators';
+import { AuthenticatedUser, UserRole } from './auth.interfaces';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * POST /auth/login
+   * Connexion par email / mot de passe, retourne un jeton de session (Bearer)
+   */
+  @Public()
+  @Post('login')
+  async login(@Body() body: { email: string; password: string }) {
+    const result = await this.authService.login(body?.email, body?.password);
+    if (!result) {
+      throw new UnauthorizedException('Identifiants invalides');
+    }
+    return { success: true, ...result };
+  }
+
+  /**
+   * GET /auth/me
+   * Identité de l'appelant
+   */
+  @Get('me')
+  getMe(@CurrentUser() user?: AuthenticatedUser) {
+    return {
+      success: true,
+      authEnabled: this.authService.isEnabled(),
+      user: user || null,
+      account: user?.via === 'session' ? this.authService.getUser(user.id) : undefined,
+    };
+  }
+
+  /**
+   * PUT /auth/me/password
+   * Changer son mot de passe
+   */
+  @Roles('viewer')
+  @Put('me/password')
+  async changePassword(
+    @CurrentUser() user: AuthenticatedUser | undefined,
+    @Body() body: { currentPassword: string; newPassword: string },
+  ) {
+    if (!user || user.via !== 'session') {
+      throw new UnauthorizedException('Session utilisateur requise');
+    }
+    await this.authService.changePassword(user.id, body?.currentPassword, body?.newPassword);
+    return { success: true, message: 'Mot de passe modifié' };
+  }
+
+  // ============ UTILISATEURS ============
+
+  @Roles('admin')
+  @Get('users')
+  listUsers() {
+    const users = this.authService.listUsers();
+    return { success: true, count: users.length, users };
+  }
+
+  @Roles('admin')
+  @Post('users')
+  async createUser(@Body() body: { email: string; password: string; name?: string; role?: UserRole }) {
+    const user = await this.authService.createUser(body || ({} as any));
+    return { success: true, user };
+  }
+
+  @Roles('admin')
+  @Put('users/:id')
+  async updateUser(
+    @Param('id') id: string,
+    @Body() body: { name?: string; role?: UserRole; active?: boolean; password?: string },
+  ) {
+    const user = await this.authService.updateUser(id, body || {});
+    return { success: true, user };
+  }
+
+  // ============ CLÉS D'API ============
+
+  @Roles('admin')
+  @Get('api-keys')
+  listApiKeys() {
+    const apiKeys = this.authService.listApiKeys();
+    return { success: true, count: apiKeys.length, apiKeys };
+  }
+
+  /**
+   * POST /auth/api-keys
+   * La clé en clair n'est affichée qu'à la création
+   */
+  @Roles('admin')
+  @Post('api-keys')
+  createApiKey(
+    @Body() body: { name: string; role?: UserRole },
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    const { apiKey, record } = this.authService.createApiKey(body?.name, body?.role, user?.name);
+    return { success: true, apiKey, record };
+  }
+
+  @Roles('admin')
+  @Delete('api-keys/:id')
+  revokeApiKey(@Param('id') id: string) {
+    if (!this.authService.revokeApiKey(id)) {
+      throw new NotFoundException('Clé d\'API non trouvée');
+    }
+    return { success: true, message: 'Clé d\'API révoquée' };
+  }
+}
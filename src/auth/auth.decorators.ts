@@ -0,0 +1,25 @@
+import { createParamDecorator, ExecutionContext, SetMetadata } from '@nestjs/common';
+import { AuthenticatedUser, UserRole } from './auth.interfaces';
+
+export const IS_PUBLIC_KEY = 'auth:isPublic';
+export const ROLES_KEY = 'auth:minRole';
+
+/**
+ * Route accessible sans authentification
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * Rôle minimum requis (sur une méthode ou un contrôleur).
+ * Sans décorateur: viewer pour les lectures (GET), buyer pour les modifications.
+ */
+export const Roles = (role: UserRole) => SetMetadata(ROLES_KEY, role);
+
+/**
+ * Utilisateur authentifié de la requête (undefined si l'authentification est désactivée)
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthenticatedUser | undefined => {
+    return context.switchToHttp().getRequest().user;
+  },
+);
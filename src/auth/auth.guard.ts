@@ -0,0 +1,70 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { IS_PUBLIC_KEY, ROLES_KEY } from './auth.decorators';
+import { AuthenticatedUser, ROLE_LEVELS, UserRole } from './auth.interfaces';
+import { setRequestActor } from '../common/request-context';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Guard global: identifie l'appelant (jeton de session ou clé d'API)
+ * et vérifie le rôle minimum de la route.
+ *
+ * Identifiants acceptés:
+ * - Authorization: Bearer <jeton de session | clé d'API>
+ * - X-API-Key: <clé d'API>
+ * - ?access_token=<jeton> (lectures uniquement: liens de téléchargement, iframes)
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.authService.isEnabled() || context.getType() !== 'http') {
+      return true;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = this.authenticate(request);
+    if (!user) {
+      throw new UnauthorizedException('Authentification requise');
+    }
+    request.user = user;
+    setRequestActor(user.name);
+
+    const required = this.reflector.getAllAndOverride<UserRole>(ROLES_KEY, targets)
+      || (READ_METHODS.includes(request.method) ? 'viewer' : 'buyer');
+
+    if (ROLE_LEVELS[user.role] < ROLE_LEVELS[required]) {
+      throw new ForbiddenException(`Rôle ${required} requis`);
+    }
+    return true;
+  }
+
+  private authenticate(request: any): AuthenticatedUser | null {
+    const header: string = request.headers?.authorization || '';
+    const bearer = header.toLowerCase().startsWith('bearer ') ? header.substring(7).trim() : '';
+    const apiKey: string = request.headers?.['x-api-key'] || '';
+    const queryToken: string = READ_METHODS.includes(request.method) ? request.query?.access_token || '' : '';
+
+    if (apiKey) {
+      return this.authService.authenticateApiKey(apiKey);
+    }
+
+    const token = bearer || queryToken;
+    if (!token) return null;
+
+    return this.authService.isApiKey(token)
+      ? this.authService.authenticateApiKey(token)
+      : this.authService.verifySessionToken(token);
+  }
+}
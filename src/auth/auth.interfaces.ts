@@ -0,0 +1,59 @@
+/**
+ * Rôles applicatifs, du moins au plus privilégié
+ * - viewer: consultation
+ * - buyer: traitement des demandes (révision, envoi, comparatifs, attribution)
+ * - admin: configuration, comptes et actions destructrices
+ */
+export type UserRole = 'viewer' | 'buyer' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'buyer', 'admin'];
+
+export const ROLE_LEVELS: Record<UserRole, number> = {
+  viewer: 1,
+  buyer: 2,
+  admin: 3,
+};
+
+/**
+ * Compte utilisateur local (le hash du mot de passe n'est jamais exposé)
+ */
+export interface UserAccount {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  lastLoginAt?: Date;
+}
+
+/**
+ * Clé d'API pour les scripts (seule l'empreinte SHA-256 est stockée)
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  prefix: string;                 // Début de la clé, pour l'identifier dans la liste
+  role: UserRole;
+  active: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+/**
+ * Identité attachée à la requête par le guard
+ */
+export interface AuthenticatedUser {
+  id: string;
+  name: string;                   // Email du compte ou nom de la clé d'API
+  role: UserRole;
+  via: 'session' | 'api_key';
+}
+
+export interface LoginResult {
+  token: string;
+  expiresAt: Date;
+  user: UserAccount;
+}
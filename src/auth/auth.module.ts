@@ -0,0 +1,19 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { AuthController } from './auth.controller';
+
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    AuthService,
+    // Guard appliqué à toutes les routes (voir @Public / @Roles)
+    { provide: APP_GUARD, useClass: AuthGuard },
+  ],
+  controllers: [AuthController],
+  exports: [AuthService],
+})
+export class AuthModule {}
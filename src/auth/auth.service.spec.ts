@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import * as initSqlJs from 'sql.js';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { Public, Roles } from './auth.decorators';
+import { DatabaseService } from '../database/database.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let guard: AuthGuard;
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    const config: Record<string, any> = {
+      'auth.enabled': true,
+      'auth.secret': 'test-secret',
+      'auth.adminEmail': 'admin@multipartsci.com',
+      'auth.adminPassword': 'admin-password',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        AuthGuard,
+        Reflector,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) },
+        },
+        {
+          provide: DatabaseService,
+          useValue: { db: new SQL.Database(), saveToFile: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<AuthService>(AuthService);
+    guard = module.get<AuthGuard>(AuthGuard);
+  });
+
+  it('should hash passwords and issue session tokens for valid credentials', async () => {
+    const hash = await service.hashPassword('s3cret-pass');
+    expect(hash).not.toContain('s3cret-pass');
+    expect(await service.verifyPassword('s3cret-pass', hash)).toBe(true);
+    expect(await service.verifyPassword('wrong-pass', hash)).toBe(false);
+
+    expect(await service.login('admin@multipartsci.com', 'bad-password')).toBeNull();
+    const result = (await service.login('Admin@MultipartsCI.com', 'admin-password'))!;
+    expect(result.user).toMatchObject({ email: 'admin@multipartsci.com', role: 'admin' });
+    expect(result.user).not.toHaveProperty('passwordHash');
+
+    expect(service.verifySessionToken(result.token)).toMatchObject({ name: 'admin@multipartsci.com', role: 'admin', via: 'session' });
+    expect(service.verifySessionToken(`${result.token.split('.')[0]}.forged`)).toBeNull();
+  });
+
+  it('should revoke access as soon as an account is disabled', async () => {
+    const buyer = await service.createUser({ email: 'buyer@multipartsci.com', password: 'buyer-password', role: 'buyer' });
+    const { token } = (await service.login('buyer@multipartsci.com', 'buyer-password'))!;
+
+    await service.updateUser(buyer.id, { active: false });
+
+    expect(service.verifySessionToken(token)).toBeNull();
+    const [admin] = service.listUsers().filter(u => u.role === 'admin');
+    await expect(service.updateUser(admin.id, { role: 'viewer' })).rejects.toThrow('dernier administrateur');
+  });
+
+  it('should authenticate API keys by hash only', () => {
+    const { apiKey, record } = service.createApiKey('export-script', 'viewer', 'admin@multipartsci.com');
+
+    expect(apiKey.startsWith(record.prefix)).toBe(true);
+    expect(JSON.stringify(service.listApiKeys())).not.toContain(apiKey);
+    expect(service.authenticateApiKey(apiKey)).toMatchObject({ name: 'api-key:export-script', role: 'viewer' });
+
+    service.revokeApiKey(record.id);
+    expect(service.authenticateApiKey(apiKey)).toBeNull();
+  });
+
+  describe('AuthGuard', () => {
+    class TestController {
+      read() {}
+      write() {}
+      @Roles('admin') reset() {}
+      @Public() health() {}
+    }
+
+    const context = (handler: keyof TestController, method: string, headers: Record<string, string> = {}) => {
+      const request: any = { method, headers, query: {} };
+      return {
+        request,
+        ctx: {
+          getType: () => 'http',
+          getHandler: () => TestController.prototype[handler],
+          getClass: () => TestController,
+          switchToHttp: () => ({ getRequest: () => request }),
+        } as unknown as ExecutionContext,
+      };
+    };
+
+    it('should require viewer for reads, buyer for writes and admin where decorated', async () => {
+      const viewer = service.createApiKey('viewer-key', 'viewer').apiKey;
+      const buyer = service.createApiKey('buyer-key', 'buyer').apiKey;
+
+      expect(guard.canActivate(context('health', 'GET').ctx)).toBe(true);
+      expect(() => guard.canActivate(context('read', 'GET').ctx)).toThrow(UnauthorizedException);
+
+      const read = context('read', 'GET', { 'x-api-key': viewer });
+      expect(guard.canActivate(read.ctx)).toBe(true);
+      expect(read.request.user).toMatchObject({ role: 'viewer', via: 'api_key' });
+
+      expect(() => guard.canActivate(context('write', 'POST', { 'x-api-key': viewer }).ctx)).toThrow(ForbiddenException);
+      expect(guard.canActivate(context('write', 'POST', { authorization: `Bearer ${buyer}` }).ctx)).toBe(true);
+      expect(() => guard.canActivate(context('reset', 'POST', { 'x-api-key': buyer }).ctx)).toThrow(ForbiddenException);
+
+      const { token } = (await service.login('admin@multipartsci.com', 'admin-password'))!;
+      expect(guard.canActivate(context('reset', 'POST', { authorization: `Bearer ${token}` }).ctx)).toBe(true);
+    });
+  });
+});
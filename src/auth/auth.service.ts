@@ -0,0 +1,415 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/database.service';
+import {
+  ApiKeyRecord,
+  AuthenticatedUser,
+  LoginResult,
+  USER_ROLES,
+  UserAccount,
+  UserRole,
+} from './auth.interfaces';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const API_KEY_PREFIX = 'prk_';
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * AuthService
+ *
+ * Comptes locaux (mots de passe hachés avec scrypt), jetons de session signés
+ * (HMAC-SHA256) et clés d'API pour les scripts.
+ * Tables gérées:
+ * - users
+ * - api_keys
+ */
+@Injectable()
+export class AuthService implements OnModuleInit {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly enabled: boolean;
+  private readonly sessionTtlMs: number;
+  private readonly secret: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly databaseService: DatabaseService,
+  ) {
+    this.enabled = this.configService.get<boolean>('auth.enabled', true);
+    this.sessionTtlMs = this.configService.get<number>('auth.sessionTtlHours', 12) * 3600 * 1000;
+
+    const secret = this.configService.get<string>('auth.secret');
+    if (!secret && this.enabled) {
+      this.logger.warn('AUTH_SECRET non défini: clé de session aléatoire, les sessions expirent au redémarrage');
+    }
+    this.secret = secret || randomBytes(32).toString('hex');
+  }
+
+  async onModuleInit() {
+    this.createTables();
+    await this.seedAdmin();
+  }
+
+  private get db(): any {
+    return (this.databaseService as any).db;
+  }
+
+  private createTables() {
+    const db = this.db;
+    if (!db) {
+      this.logger.warn('Database not initialized, skipping table creation');
+      return;
+    }
+
+    try {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          email TEXT NOT NULL UNIQUE,
+          name TEXT,
+          role TEXT NOT NULL DEFAULT 'viewer',
+          password_hash TEXT NOT NULL,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          last_login_at TEXT
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          key_prefix TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          role TEXT NOT NULL DEFAULT 'viewer',
+          active INTEGER NOT NULL DEFAULT 1,
+          created_by TEXT,
+          created_at TEXT NOT NULL,
+          last_used_at TEXT
+        )
+      `);
+
+      this.databaseService.saveToFile();
+      this.logger.log('Auth tables created/verified');
+    } catch (error) {
+      this.logger.error(`Error creating auth tables: ${error.message}`);
+    }
+  }
+
+  /**
+   * Crée le compte administrateur initial (AUTH_ADMIN_EMAIL / AUTH_ADMIN_PASSWORD)
+   * tant qu'aucun administrateur n'existe
+   */
+  private async seedAdmin() {
+    const email = this.configService.get<string>('auth.adminEmail');
+    const password = this.configService.get<string>('auth.adminPassword');
+    if (!this.db || this.countAdmins() > 0) return;
+
+    if (!email || !password) {
+      if (this.enabled) {
+        this.logger.warn('Aucun administrateur: définir AUTH_ADMIN_EMAIL et AUTH_ADMIN_PASSWORD');
+      }
+      return;
+    }
+
+    try {
+      await this.createUser({ email, password, name: 'Administrateur', role: 'admin' });
+      this.logger.log(`Compte administrateur initial créé: ${email}`);
+    } catch (error) {
+      this.logger.error(`Création de l'administrateur initial impossible: ${error.message}`);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // ============ UTILISATEURS ============
+
+  async createUser(input: { email: string; password: string; name?: string; role?: UserRole }): Promise<UserAccount> {
+    const email = (input.email || '').trim().toLowerCase();
+    if (!email.includes('@')) {
+      throw new BadRequestException('Email invalide');
+    }
+    const role = this.validateRole(input.role || 'viewer');
+    this.validatePassword(input.password);
+
+    if (this.findUserRow(email)) {
+      throw new ConflictException(`Un compte existe déjà pour ${email}`);
+    }
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    this.db.run(
+      `INSERT INTO users (id, email, name, role, password_hash, active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, 1, ?, ?)`,
+      [id, email, input.name || null, role, await this.hashPassword(input.password), now, now],
+    );
+    this.databaseService.saveToFile();
+
+    return this.getUser(id)!;
+  }
+
+  getUser(id: string): UserAccount | undefined {
+    const result = this.db.exec(`SELECT * FROM users WHERE id = ?`, [id]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToUser(result[0].columns, result[0].values[0]);
+  }
+
+  listUsers(): UserAccount[] {
+    const result = this.db.exec(`SELECT * FROM users ORDER BY email ASC`);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToUser(result[0].columns, row));
+  }
+
+  async updateUser(id: string, updates: { name?: string; role?: UserRole; active?: boolean; password?: string }): Promise<UserAccount> {
+    const user = this.getUser(id);
+    if (!user) {
+      throw new NotFoundException('Utilisateur non trouvé');
+    }
+
+    const demoted = (updates.role !== undefined && updates.role !== 'admin') || updates.active === false;
+    if (user.role === 'admin' && user.active && demoted && this.countAdmins() <= 1) {
+      throw new BadRequestException('Impossible de retirer le dernier administrateur actif');
+    }
+
+    const setClauses: string[] = ['updated_at = ?'];
+    const params: any[] = [new Date().toISOString()];
+
+    if (updates.name !== undefined) {
+      setClauses.push('name = ?');
+      params.push(updates.name);
+    }
+    if (updates.role !== undefined) {
+      setClauses.push('role = ?');
+      params.push(this.validateRole(updates.role));
+    }
+    if (updates.active !== undefined) {
+      setClauses.push('active = ?');
+      params.push(updates.active ? 1 : 0);
+    }
+    if (updates.password !== undefined) {
+      this.validatePassword(updates.password);
+      setClauses.push('password_hash = ?');
+      params.push(await this.hashPassword(updates.password));
+    }
+
+    params.push(id);
+    this.db.run(`UPDATE users SET ${setClauses.join(', ')} WHERE id = ?`, params);
+    this.databaseService.saveToFile();
+
+    return this.getUser(id)!;
+  }
+
+  async changePassword(id: string, currentPassword: string, newPassword: string): Promise<void> {
+    const row = this.findUserRowById(id);
+    if (!row || !(await this.verifyPassword(currentPassword || '', row.password_hash))) {
+      throw new BadRequestException('Mot de passe actuel incorrect');
+    }
+    await this.updateUser(id, { password: newPassword });
+  }
+
+  // ============ SESSIONS ============
+
+  /**
+   * Vérifie les identifiants et retourne un jeton de session signé
+   */
+  async login(email: string, password: string): Promise<LoginResult | null> {
+    const row = this.findUserRow((email || '').trim().toLowerCase());
+    if (!row || row.active !== 1) return null;
+    if (!(await this.verifyPassword(password || '', row.password_hash))) return null;
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.sessionTtlMs);
+    this.db.run(`UPDATE users SET last_login_at = ? WHERE id = ?`, [now.toISOString(), row.id]);
+    this.databaseService.saveToFile();
+
+    return {
+      token: this.signSession(row.id, expiresAt),
+      expiresAt,
+      user: this.getUser(row.id)!,
+    };
+  }
+
+  /**
+   * Valide un jeton de session. Le rôle est relu en base: un compte désactivé
+   * ou rétrogradé perd ses droits immédiatement.
+   */
+  verifySessionToken(token: string): AuthenticatedUser | null {
+    const [payload, signature] = (token || '').split('.');
+    if (!payload || !signature || !this.safeEqual(signature, this.sign(payload))) return null;
+
+    let session: { sub: string; exp: number };
+    try {
+      session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    } catch {
+      return null;
+    }
+    if (!session.sub || !session.exp || session.exp < Date.now()) return null;
+
+    const user = this.getUser(session.sub);
+    if (!user || !user.active) return null;
+
+    return { id: user.id, name: user.email, role: user.role, via: 'session' };
+  }
+
+  private signSession(userId: string, expiresAt: Date): string {
+    const payload = Buffer.from(JSON.stringify({ sub: userId, exp: expiresAt.getTime() })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  // ============ CLÉS D'API ============
+
+  /**
+   * Crée une clé d'API. La clé en clair n'est retournée qu'une seule fois.
+   */
+  createApiKey(name: string, role: UserRole = 'viewer', createdBy?: string): { apiKey: string; record: ApiKeyRecord } {
+    if (!name || !name.trim()) {
+      throw new BadRequestException('Nom de la clé requis');
+    }
+
+    const apiKey = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const id = uuidv4();
+    this.db.run(
+      `INSERT INTO api_keys (id, name, key_prefix, key_hash, role, active, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, 1, ?, ?)`,
+      [id, name.trim(), apiKey.substring(0, 12), this.hashApiKey(apiKey), this.validateRole(role), createdBy || null, new Date().toISOString()],
+    );
+    this.databaseService.saveToFile();
+
+    return { apiKey, record: this.listApiKeys().find(k => k.id === id)! };
+  }
+
+  listApiKeys(): ApiKeyRecord[] {
+    const result = this.db.exec(`SELECT * FROM api_keys ORDER BY created_at DESC`);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToApiKey(result[0].columns, row));
+  }
+
+  revokeApiKey(id: string): boolean {
+    this.db.run(`UPDATE api_keys SET active = 0 WHERE id = ?`, [id]);
+    const changed = this.db.getRowsModified() > 0;
+    if (changed) this.databaseService.saveToFile();
+    return changed;
+  }
+
+  authenticateApiKey(apiKey: string): AuthenticatedUser | null {
+    if (!apiKey || !apiKey.startsWith(API_KEY_PREFIX)) return null;
+
+    const result = this.db.exec(`SELECT * FROM api_keys WHERE key_hash = ? AND active = 1`, [this.hashApiKey(apiKey)]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    const key = this.mapRowToApiKey(result[0].columns, result[0].values[0]);
+
+    // Date de dernière utilisation, persistée au plus une fois par heure
+    if (!key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() > 3600 * 1000) {
+      this.db.run(`UPDATE api_keys SET last_used_at = ? WHERE id = ?`, [new Date().toISOString(), key.id]);
+      this.databaseService.saveToFile();
+    }
+    return { id: key.id, name: `api-key:${key.name}`, role: key.role, via: 'api_key' };
+  }
+
+  isApiKey(value: string): boolean {
+    return (value || '').startsWith(API_KEY_PREFIX);
+  }
+
+  // ============ MOTS DE PASSE ============
+
+  async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, 64);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, saltHex, hashHex] = (stored || '').split('$');
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+
+  // ============ UTILITAIRES ============
+
+  private validateRole(role: string): UserRole {
+    if (!USER_ROLES.includes(role as UserRole)) {
+      throw new BadRequestException(`Rôle invalide: ${role} (${USER_ROLES.join(', ')})`);
+    }
+    return role as UserRole;
+  }
+
+  private validatePassword(password: string) {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new BadRequestException(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères`);
+    }
+  }
+
+  private countAdmins(): number {
+    const result = this.db.exec(`SELECT COUNT(*) FROM users WHERE role = 'admin' AND active = 1`);
+    return result.length > 0 ? (result[0].values[0][0] as number) : 0;
+  }
+
+  private findUserRow(email: string): any | undefined {
+    return this.findRow(`SELECT * FROM users WHERE email = ?`, [email]);
+  }
+
+  private findUserRowById(id: string): any | undefined {
+    return this.findRow(`SELECT * FROM users WHERE id = ?`, [id]);
+  }
+
+  private findRow(query: string, params: any[]): any | undefined {
+    const result = this.db.exec(query, params);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    const obj: any = {};
+    result[0].columns.forEach((col: string, i: number) => obj[col] = result[0].values[0][i]);
+    return obj;
+  }
+
+  private hashApiKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+  }
+
+  private mapRowToUser(columns: string[], row: any[]): UserAccount {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      email: obj.email,
+      name: obj.name || undefined,
+      role: obj.role,
+      active: obj.active === 1,
+      createdAt: new Date(obj.created_at),
+      updatedAt: new Date(obj.updated_at),
+      lastLoginAt: obj.last_login_at ? new Date(obj.last_login_at) : undefined,
+    };
+  }
+
+  private mapRowToApiKey(columns: string[], row: any[]): ApiKeyRecord {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      name: obj.name,
+      prefix: obj.key_prefix,
+      role: obj.role,
+      active: obj.active === 1,
+      createdBy: obj.created_by || undefined,
+      createdAt: new Date(obj.created_at),
+      lastUsedAt: obj.last_used_at ? new Date(obj.last_used_at) : undefined,
+    };
+  }
+}
@@ -0,0 +1,6 @@
+export * from './auth.interfaces';
+export * from './auth.decorators';
+export * from './auth.service';
+export * from './auth.guard';
+export * from './auth.module';
+export * from './auth.controller';
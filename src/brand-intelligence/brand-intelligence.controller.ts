@@ -1,6 +1,7 @@
 import { Controller, Get, Post, Put, Body, Param, Query } from '@nestjs/common';
 import { BrandIntelligenceService } from './brand-intelligence.service';
 import { AutoSendConfig } from './brand.interface';
+import { Roles } from '../auth/auth.decorators';
 
 @Controller('brand-intelligence')
 export class BrandIntelligenceController {
@@ -271,6 +272,7 @@ export class BrandIntelligenceController {
    * PUT /brand-intelligence/auto-send/config
    * Mettre à jour la configuration
    */
+  @Roles('admin')
   @Put('auto-send/config')
   async updateAutoSendConfig(@Body() config: Partial<AutoSendConfig>) {
     const updated = await this.brandService.updateAutoSendConfig(config);
@@ -8,10 +8,12 @@ import {
   BrandDatabase,
   SupplierBrandRelation,
   SupplierSuggestion,
+  SupplierPerformanceSource,
   BrandAnalysisResult,
   AutoSendConfig,
   DEFAULT_CATEGORIES,
 } from './brand.interface';
+import { DatabaseService } from '../database/database.service';
 
 @Injectable()
 export class BrandIntelligenceService implements OnModuleInit {
@@ -23,8 +25,12 @@ export class BrandIntelligenceService implements OnModuleInit {
   private brandAliasIndex: Map<string, string> = new Map();  // alias -> brandName
   private supplierBrandIndex: Map<string, SupplierBrandRelation[]> = new Map();  // email -> relations
   private brandSupplierIndex: Map<string, SupplierBrandRelation[]> = new Map();  // brandName -> relations
+  private performanceSource?: SupplierPerformanceSource;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private databaseService: DatabaseService,
+  ) {
     const dataDir = this.configService.get<string>('app.outputDir', './output');
     this.dataFilePath = path.join(dataDir, 'brand-intelligence.json');
   }
@@ -349,6 +355,13 @@ export class BrandIntelligenceService implements OnModuleInit {
   // GESTION DES RELATIONS FOURNISSEUR-MARQUE
   // ═══════════════════════════════════════════════════════════════════════════
 
+  /**
+   * Brancher une source de performances mesurées (scorecards fournisseurs)
+   */
+  setPerformanceSource(source: SupplierPerformanceSource): void {
+    this.performanceSource = source;
+  }
+
   /**
    * Obtenir les fournisseurs suggérés pour des marques
    */
@@ -365,12 +378,18 @@ export class BrandIntelligenceService implements OnModuleInit {
         if (seenEmails.has(rel.supplierEmail)) continue;
         seenEmails.add(rel.supplierEmail);
 
+        const performance = this.performanceSource?.getPerformance(rel.supplierEmail);
+
         // Calculer la raison de suggestion
         const reasons: string[] = [];
         if (rel.isPreferred) reasons.push('Fournisseur préféré');
         if (rel.quotesCount > 5) reasons.push(`${rel.quotesCount} devis reçus`);
         if (rel.reliability >= 80) reasons.push('Haute fiabilité');
         if (rel.successfulQuotes > 0) reasons.push('A déjà fourni cette marque');
+        if (performance?.responseRate !== undefined) {
+          reasons.push(`Répond à ${performance.responseRate}% des demandes (${performance.windowDays} j)`);
+        }
+        if (performance?.winRate) reasons.push(`Retenu dans ${performance.winRate}% des comparatifs`);
 
         suggestions.push({
           email: rel.supplierEmail,
@@ -381,13 +400,16 @@ export class BrandIntelligenceService implements OnModuleInit {
           quotesCount: rel.quotesCount,
           lastActivity: rel.lastQuoteAt || rel.lastDeclineAt,
           isPreferred: rel.isPreferred,
+          performanceScore: performance?.score,
           reason: reasons.length > 0 ? reasons.join(', ') : 'Connu pour cette marque',
         });
       }
     }
 
-    // Trier par fiabilité décroissante
-    return suggestions.sort((a, b) => b.reliability - a.reliability);
+    // Trier par fiabilité décroissante, pondérée par la performance mesurée
+    const rank = (s: SupplierSuggestion) =>
+      s.performanceScore !== undefined ? (s.reliability + 2 * s.performanceScore) / 3 : s.reliability;
+    return suggestions.sort((a, b) => rank(b) - rank(a));
   }
 
   /**
@@ -586,10 +608,18 @@ export class BrandIntelligenceService implements OnModuleInit {
     const brand = this.brandIndex.get(this.normalizeName(brandName));
     if (!brand) return false;
 
+    const previousCategory = brand.category;
     brand.category = newCategory;
     brand.updatedAt = new Date();
     
     await this.saveDatabase();
+    await this.databaseService.addAuditEvent({
+      entityType: 'brand',
+      entityId: brand.name,
+      action: 'brand.category_changed',
+      before: { category: previousCategory },
+      after: { category: newCategory },
+    });
     this.logger.log(`🏷️ Catégorie mise à jour: ${brandName} -> ${newCategory}`);
     
     return true;
@@ -674,11 +704,19 @@ export class BrandIntelligenceService implements OnModuleInit {
    * Mettre à jour la configuration d'envoi automatique
    */
   async updateAutoSendConfig(config: Partial<AutoSendConfig>): Promise<AutoSendConfig> {
+    const previous = { ...this.database.autoSendConfig };
     this.database.autoSendConfig = {
       ...this.database.autoSendConfig,
       ...config,
     };
     await this.saveDatabase();
+    await this.databaseService.addAuditEvent({
+      entityType: 'brand_config',
+      entityId: 'auto_send',
+      action: 'brand_config.auto_send_updated',
+      before: previous,
+      after: this.database.autoSendConfig,
+    });
     return this.database.autoSendConfig;
   }
 
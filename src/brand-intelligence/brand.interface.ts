@@ -64,9 +64,30 @@ export interface SupplierSuggestion {
   quotesCount: number;
   lastActivity?: Date;
   isPreferred: boolean;
+  performanceScore?: number;  // 0-100, scorecard mesurée (si disponible)
   reason: string;  // Pourquoi ce fournisseur est suggéré
 }
 
+/**
+ * Performance mesurée d'un fournisseur (scorecard)
+ */
+export interface SupplierPerformance {
+  score: number;                // 0-100
+  windowDays: number;           // Fenêtre de calcul
+  consultations: number;
+  responseRate?: number;        // %
+  winRate?: number;             // %
+  medianResponseDays?: number;
+}
+
+/**
+ * Source de performances branchée sur les suggestions
+ * (ex: SupplierScorecardService)
+ */
+export interface SupplierPerformanceSource {
+  getPerformance(email: string): SupplierPerformance | undefined;
+}
+
 /**
  * Configuration d'envoi automatique
  */
@@ -0,0 +1,64 @@
+/**
+ * Différences champ par champ entre deux états d'une entité, pour le journal d'audit.
+ *
+ * Les chemins sont aplatis (ex: "status", "items[<id>].quantity"); les tableaux
+ * d'objets portant un id sont comparés élément par élément, les autres en bloc.
+ */
+export function computeAuditChanges(
+  before: unknown,
+  after: unknown,
+): Record<string, { before: unknown; after: unknown }> {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  const b = normalize(before);
+  const a = normalize(after);
+
+  // Création ou envoi: pas d'état précédent, on liste les champs un à un
+  walk(
+    b === null && isPlainObject(a) ? {} : b,
+    a === null && isPlainObject(b) ? {} : a,
+    '',
+    changes,
+  );
+  return changes;
+}
+
+function walk(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: Record<string, { before: unknown; after: unknown }>,
+): void {
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      walk(before[key] ?? null, after[key] ?? null, path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  if (isIdentifiedList(before) && isIdentifiedList(after)) {
+    const previous = new Map(before.map(item => [String(item.id), item]));
+    const next = new Map(after.map(item => [String(item.id), item]));
+    for (const id of new Set([...previous.keys(), ...next.keys()])) {
+      walk(previous.get(id) ?? null, next.get(id) ?? null, `${path}[${id}]`, changes);
+    }
+    return;
+  }
+
+  changes[path || 'value'] = { before, after };
+}
+
+function normalize(value: unknown): any {
+  // Dates -> ISO, undefined -> null
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isIdentifiedList(value: unknown): value is Array<{ id: string | number }> {
+  return Array.isArray(value) && value.every(item => isPlainObject(item) && item.id !== undefined && item.id !== null);
+}
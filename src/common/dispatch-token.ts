@@ -0,0 +1,32 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Jetons de suivi des demandes envoyées individuellement à chaque fournisseur
+ * (ex: RFQT-7K2Q9XAB), ajoutés au sujet pour rattacher les réponses
+ */
+export const DISPATCH_TOKEN_PATTERN = /\bRFQT-[A-Z2-7]{8}\b/gi;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function generateDispatchToken(): string {
+  const bytes = randomBytes(8);
+  let code = '';
+  for (const byte of bytes) {
+    code += BASE32_ALPHABET[byte % 32];
+  }
+  return `RFQT-${code}`;
+}
+
+export function extractDispatchTokens(text: string): string[] {
+  if (!text) return [];
+  const matches = text.match(new RegExp(DISPATCH_TOKEN_PATTERN)) || [];
+  return [...new Set(matches.map(m => m.toUpperCase()))];
+}
+
+/**
+ * Message-ID d'un envoi fournisseur, enregistré pour rattacher les réponses (In-Reply-To)
+ */
+export function buildDispatchMessageId(token: string, fromEmail: string): string {
+  const domain = fromEmail.split('@')[1] || 'localhost';
+  return `<${token.toLowerCase()}.${Date.now().toString(36)}@${domain}>`;
+}
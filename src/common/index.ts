@@ -1,3 +1,8 @@
 export * from './interfaces';
 export * from './company-info';
 export * from './rfq-instructions';
+export * from './simple-pdf';
+export * from './dispatch-token';
+export * from './rfq-template';
+export * from './request-context';
+export * from './audit-diff';
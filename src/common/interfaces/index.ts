@@ -18,6 +18,7 @@ export interface ParsedEmail {
   date: Date;
   body: string;
   attachments: EmailAttachment[];
+  mailbox?: string;          // Boîte mail (compte du registre) d'où provient le message
 }
 
 export interface ExtractedPdfData {
@@ -89,6 +90,7 @@ export interface PriceRequest {
   needsManualReview?: boolean;   // true si au moins un item nécessite révision
   extractionMethod?: string;     // Méthode d'extraction utilisée
   clientRequirements?: ClientRequirements; // Exigences spécifiques du client
+  deliveryLocation?: string;     // Lieu de livraison (document ou profil client), usage interne
 }
 
 export interface GeneratedPriceRequest {
@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Contexte d'exécution courant (requête HTTP ou tâche planifiée),
+ * utilisé pour attribuer les événements d'audit à un acteur et les regrouper
+ */
+export interface RequestContext {
+  correlationId: string;
+  actor?: string;
+}
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Exécuter une tâche hors requête HTTP (cron, script) avec son propre identifiant de corrélation
+ */
+export function runWithContext<T>(context: Partial<RequestContext>, fn: () => T): T {
+  return storage.run({ correlationId: context.correlationId || uuidv4(), actor: context.actor }, fn);
+}
+
+/**
+ * Identifier l'acteur de la requête en cours (renseigné par le guard d'authentification)
+ */
+export function setRequestActor(actor: string): void {
+  const context = storage.getStore();
+  if (context) {
+    context.actor = actor;
+  }
+}
+
+/**
+ * Middleware Express: un contexte par requête, identifiant repris de X-Correlation-Id s'il est fourni
+ */
+export function requestContextMiddleware(req: any, res: any, next: () => void): void {
+  const provided = String(req.headers?.[CORRELATION_ID_HEADER] || '').trim().substring(0, 100);
+  const correlationId = provided || uuidv4();
+  res.setHeader('X-Correlation-Id', correlationId);
+  storage.run({ correlationId }, next);
+}
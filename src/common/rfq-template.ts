@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import { PriceRequestItem } from './interfaces';
+
+/**
+ * Métadonnées du modèle Excel de demande de prix
+ *
+ * Une feuille masquée du classeur envoyé aux fournisseurs décrit les lignes
+ * demandées (identifiant, position, désignation, quantité). Quand le fournisseur
+ * renvoie le fichier complété, les prix sont rattachés aux lignes exactes.
+ */
+
+export const RFQ_TEMPLATE_SHEET = '_rfq_meta';
+export const RFQ_TEMPLATE_VERSION = 1;
+
+/** Ligne d'en-tête du tableau des articles (1-indexée) */
+export const RFQ_TEMPLATE_HEADER_ROW = 8;
+
+/** Cellule où le fournisseur indique la devise de ses prix (intitulé à sa gauche) */
+export const RFQ_TEMPLATE_CURRENCY_CELL = 'H6';
+export const RFQ_TEMPLATE_CURRENCY_LABEL_CELL = 'G6';
+
+/** Intitulés des colonnes du tableau des articles */
+export const RFQ_TEMPLATE_COLUMNS = {
+  lineNumber: 'N°',
+  partNumber: 'Code Fournisseur',
+  brand: 'Marque',
+  description: 'Désignation',
+  quantity: 'Qté',
+  unit: 'Unité',
+  unitPrice: 'Prix Unit. HT',
+  totalPrice: 'Prix Total HT',
+  internalCode: 'Code Interne',
+  deliveryTime: 'Délai livraison',
+  remarks: 'Remarques',
+} as const;
+
+export interface RfqTemplateLine {
+  lineId: string;
+  lineNumber: number;
+  row: number;                    // Ligne Excel (1-indexée) dans la feuille de demande
+  description: string;
+  partNumber?: string;
+  quantity: number;
+  unit?: string;
+}
+
+export interface RfqTemplateMetadata {
+  version: number;
+  rfqNumber: string;
+  generatedAt: string;
+  currencyCell: string;
+  headerRow: number;
+  lines: RfqTemplateLine[];
+  checksum: string;
+}
+
+const LINE_FIELDS: (keyof RfqTemplateLine)[] = ['lineId', 'lineNumber', 'row', 'description', 'partNumber', 'quantity', 'unit'];
+
+export function buildRfqTemplateMetadata(
+  rfqNumber: string,
+  items: PriceRequestItem[],
+  firstRow = RFQ_TEMPLATE_HEADER_ROW + 1,
+): RfqTemplateMetadata {
+  const lines: RfqTemplateLine[] = items.map((item, index) => ({
+    lineId: `L${String(index + 1).padStart(3, '0')}`,
+    lineNumber: index + 1,
+    row: firstRow + index,
+    description: item.description,
+    partNumber: item.supplierCode || item.reference || undefined,
+    quantity: item.quantity,
+    unit: item.unit || 'pcs',
+  }));
+
+  return {
+    version: RFQ_TEMPLATE_VERSION,
+    rfqNumber,
+    generatedAt: new Date().toISOString(),
+    currencyCell: RFQ_TEMPLATE_CURRENCY_CELL,
+    headerRow: RFQ_TEMPLATE_HEADER_ROW,
+    lines,
+    checksum: computeTemplateChecksum(rfqNumber, lines),
+  };
+}
+
+/**
+ * Empreinte des lignes demandées (détecte une feuille de métadonnées altérée)
+ */
+export function computeTemplateChecksum(rfqNumber: string, lines: RfqTemplateLine[]): string {
+  const payload = JSON.stringify([rfqNumber, lines.map(line => LINE_FIELDS.map(field => line[field] ?? ''))]);
+  return createHash('sha256').update(payload).digest('hex').substring(0, 16);
+}
+
+/**
+ * Sérialiser les métadonnées en lignes de feuille (clé/valeur puis tableau des lignes)
+ */
+export function templateMetadataToRows(metadata: RfqTemplateMetadata): any[][] {
+  return [
+    ['version', metadata.version],
+    ['rfqNumber', metadata.rfqNumber],
+    ['generatedAt', metadata.generatedAt],
+    ['currencyCell', metadata.currencyCell],
+    ['headerRow', metadata.headerRow],
+    ['checksum', metadata.checksum],
+    [],
+    LINE_FIELDS,
+    ...metadata.lines.map(line => LINE_FIELDS.map(field => line[field] ?? '')),
+  ];
+}
+
+/**
+ * Relire les métadonnées depuis les lignes de la feuille masquée.
+ * Retourne null si la feuille est illisible, d'une version inconnue ou altérée.
+ */
+export function templateMetadataFromRows(rows: any[][]): RfqTemplateMetadata | null {
+  const values = new Map<string, any>();
+  let tableStart = -1;
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i] || [];
+    if (row[0] === 'lineId') {
+      tableStart = i + 1;
+      break;
+    }
+    if (row[0]) values.set(String(row[0]), row[1]);
+  }
+
+  const version = Number(values.get('version'));
+  if (tableStart < 0 || !version || version > RFQ_TEMPLATE_VERSION) return null;
+
+  const lines: RfqTemplateLine[] = rows.slice(tableStart)
+    .filter(row => row && row[0])
+    .map(row => ({
+      lineId: String(row[0]),
+      lineNumber: Number(row[1]),
+      row: Number(row[2]),
+      description: String(row[3] ?? ''),
+      partNumber: row[4] ? String(row[4]) : undefined,
+      quantity: Number(row[5]),
+      unit: row[6] ? String(row[6]) : undefined,
+    }));
+
+  const rfqNumber = String(values.get('rfqNumber') || '');
+  const checksum = String(values.get('checksum') || '');
+  if (!rfqNumber || checksum !== computeTemplateChecksum(rfqNumber, lines)) return null;
+
+  return {
+    version,
+    rfqNumber,
+    generatedAt: String(values.get('generatedAt') || ''),
+    currencyCell: String(values.get('currencyCell') || RFQ_TEMPLATE_CURRENCY_CELL),
+    headerRow: Number(values.get('headerRow')) || RFQ_TEMPLATE_HEADER_ROW,
+    lines,
+    checksum,
+  };
+}
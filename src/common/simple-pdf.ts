@@ -0,0 +1,175 @@
+/**
+ * Générateur PDF minimal (texte et traits, polices Helvetica standard)
+ *
+ * Suffisant pour des documents tabulaires simples (bons de commande) sans
+ * dépendance externe. Coordonnées en points, origine en haut à gauche, A4.
+ */
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+}
+
+// Caractères hors Latin-1 disponibles en WinAnsiEncoding
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+  'Œ': 0x8c, 'œ': 0x9c, 'Š': 0x8a, 'š': 0x9a, 'Ž': 0x8e, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Approximations de caractères non encodables
+const FALLBACKS: Record<string, string> = {
+  'ᵉ': 'e', 'ʳ': 'r', '\u202f': ' ', '\u2009': ' ', '\t': ' ',
+};
+
+// Largeurs Helvetica (1/1000 em) des caractères les plus fréquents
+const NARROW = ' .,;:!|il\'I[]()fjt/-';
+const WIDE = 'MWmw@%';
+
+export class SimplePdfDocument {
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  /**
+   * Écrire un texte (y = ligne de base)
+   */
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const size = options.size || 10;
+    const encoded = SimplePdfDocument.encode(value);
+    if (!encoded) return;
+
+    let left = x;
+    if (options.align === 'right') left = x - this.textWidth(value, size);
+    else if (options.align === 'center') left = x - this.textWidth(value, size) / 2;
+
+    const font = options.bold ? 'F2' : 'F1';
+    this.current.push(`BT /${font} ${size} Tf ${fmt(left)} ${fmt(PDF_PAGE_HEIGHT - y)} Td (${escapePdfString(encoded)}) Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.current.push(`${fmt(width)} w ${fmt(x1)} ${fmt(PDF_PAGE_HEIGHT - y1)} m ${fmt(x2)} ${fmt(PDF_PAGE_HEIGHT - y2)} l S`);
+  }
+
+  /**
+   * Rectangle plein (gris clair par défaut), ex: en-tête de tableau
+   */
+  fillRect(x: number, y: number, width: number, height: number, gray = 0.9): void {
+    this.current.push(`q ${fmt(gray)} g ${fmt(x)} ${fmt(PDF_PAGE_HEIGHT - y - height)} ${fmt(width)} ${fmt(height)} re f Q`);
+  }
+
+  /**
+   * Largeur approximative d'un texte en points
+   */
+  textWidth(value: string, size = 10): number {
+    let units = 0;
+    for (const ch of SimplePdfDocument.encode(value)) {
+      if (NARROW.includes(ch)) units += 278;
+      else if (WIDE.includes(ch)) units += 889;
+      else if (ch >= 'A' && ch <= 'Z') units += 667;
+      else units += 556;
+    }
+    return (units * size) / 1000;
+  }
+
+  /**
+   * Tronquer un texte pour qu'il tienne dans la largeur donnée
+   */
+  fit(value: string, maxWidth: number, size = 10): string {
+    if (this.textWidth(value, size) <= maxWidth) return value;
+
+    let truncated = value;
+    while (truncated.length > 1 && this.textWidth(`${truncated}...`, size) > maxWidth) {
+      truncated = truncated.slice(0, -1);
+    }
+    return `${truncated.trimEnd()}...`;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageRefs: number[] = [];
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    let next = 5;
+    for (const operations of this.pages) {
+      const content = operations.join('\n');
+      const pageId = next++;
+      const contentId = next++;
+      pageRefs.push(pageId);
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    }
+    objects[2] = `<< /Type /Pages /Kids [${pageRefs.map(id => `${id} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /**
+   * Convertir en chaîne WinAnsi (un caractère = un octet), '?' si non encodable
+   */
+  static encode(value: string): string {
+    let result = '';
+    for (const ch of (value || '').normalize('NFC')) {
+      const fallback = FALLBACKS[ch];
+      if (fallback !== undefined) {
+        result += fallback;
+        continue;
+      }
+      const code = ch.codePointAt(0)!;
+      if (WIN_ANSI_EXTRAS[ch] !== undefined) {
+        result += String.fromCharCode(WIN_ANSI_EXTRAS[ch]);
+      } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+        result += ch;
+      } else if (code === 0x0a || code === 0x0d) {
+        result += ' ';
+      } else {
+        result += '?';
+      }
+    }
+    return result;
+  }
+}
+
+function escapePdfString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function fmt(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
@@ -23,6 +23,11 @@ export default () => ({
     tlsOptions: {
       rejectUnauthorized: false,
     },
+    // poll: recherche périodique des non lus; idle: écoute IDLE par dossier, reprise au dernier UID traité
+    ingestionMode: process.env.IMAP_INGESTION_MODE === 'idle' ? 'idle' : 'poll',
+    reconnectMinSeconds: parseInt(process.env.IMAP_RECONNECT_MIN_SECONDS || '5', 10),
+    reconnectMaxSeconds: parseInt(process.env.IMAP_RECONNECT_MAX_SECONDS || '300', 10),
+    idleBatchSize: parseInt(process.env.IMAP_IDLE_BATCH_SIZE || '50', 10),
   },
   smtp: {
     host: process.env.SMTP_HOST || 'localhost',
@@ -36,6 +41,17 @@ export default () => ({
   drafts: {
     folder: process.env.DRAFTS_FOLDER || 'INBOX.Drafts',
     sentFolder: process.env.SENT_FOLDER || 'INBOX.Sent',
+    // bcc: un brouillon unique avec les fournisseurs en BCC
+    // per_supplier: un email par fournisseur avec jeton de suivi (RFQT-XXXXXXXX)
+    dispatchMode: process.env.RFQ_DISPATCH_MODE || 'bcc',
+    dispatchDelivery: process.env.RFQ_DISPATCH_DELIVERY || 'draft', // draft | send
+  },
+  localMail: {
+    // Archives importables par le retraitement (.eml, .mbox, dossiers Thunderbird)
+    importDir: process.env.MAIL_IMPORT_DIR || './imports',
+    // live: serveurs IMAP/SMTP; file: brouillons et envois écrits en .eml dans sinkDir
+    outboundSink: process.env.MAIL_OUTBOUND_SINK === 'file' ? 'file' : 'live',
+    sinkDir: process.env.MAIL_SINK_DIR || './output/mail-sink',
   },
   email: {
     // Signature Thunderbird
@@ -51,12 +67,93 @@ export default () => ({
     maxReminders: parseInt(process.env.REMINDER_MAX_COUNT || '3', 10), // Nombre max de relances
     daysBetweenReminders: parseInt(process.env.REMINDER_DAYS_BETWEEN || '2', 10), // Jours entre chaque relance
   },
+  deadlines: {
+    // Surveillance des échéances clients des demandes envoyées
+    enabled: process.env.DEADLINE_WATCH_ENABLED !== 'false',
+    // Seuils d'alerte avant échéance (heures), séparés par des virgules
+    thresholdsHours: (process.env.DEADLINE_THRESHOLDS_HOURS || '24,4').split(',').map(h => parseFloat(h)).filter(h => h > 0),
+    checkIntervalMinutes: parseInt(process.env.DEADLINE_CHECK_INTERVAL_MINUTES || '30', 10),
+    // Destinataire de l'alerte interne (vide = adresse procurement)
+    alertEmail: process.env.DEADLINE_ALERT_EMAIL || '',
+    // Résumé quotidien (webhook daily.summary)
+    dailySummaryCron: process.env.DAILY_SUMMARY_CRON || '0 18 * * *',
+  },
   lifecycle: {
     // Scan des emails
     scanIntervalMinutes: parseInt(process.env.LIFECYCLE_SCAN_INTERVAL || '10', 10),
-    // Adresses email à surveiller
+    // Nos adresses en plus des boîtes du registre (alias, anciennes adresses)
     monitoredEmails: (process.env.MONITORED_EMAILS || 'procurement@multipartsci.com,rafiou.oyeossi@multipartsci.com').split(','),
   },
+  detector: {
+    // Modèle appris: off | shadow (prédiction journalisée seulement) | assist (l'emporte sur les règles si confiant)
+    modelMode: process.env.DETECTOR_MODEL_MODE || 'shadow',
+    // Probabilité minimale pour qu'une prédiction contredise les règles (mode assist)
+    modelMinProbability: parseFloat(process.env.DETECTOR_MODEL_MIN_PROBABILITY || '0.8'),
+    // Emails étiquetés requis pour entraîner un modèle
+    minTrainingSamples: parseInt(process.env.DETECTOR_MIN_TRAINING_SAMPLES || '20', 10),
+    crossValidationFolds: parseInt(process.env.DETECTOR_CV_FOLDS || '5', 10),
+    // Jours de conservation des emails non étiquetés (0 = sans limite)
+    sampleRetentionDays: parseInt(process.env.DETECTOR_SAMPLE_RETENTION_DAYS || '30', 10),
+  },
+  currency: {
+    // Devise de base pour la comparaison des offres (XOF ou EUR)
+    baseCurrency: process.env.BASE_CURRENCY || 'XOF',
+    // Dossier des fichiers de taux importables par chemin (POST /currency/rates/import)
+    ratesDir: process.env.CURRENCY_RATES_DIR || './data/rates',
+  },
+  llm: {
+    // Fournisseur par défaut: anthropic | openai | local | fake
+    provider: process.env.LLM_PROVIDER || 'anthropic',
+    // Routes "cle=fournisseur[:modele]" séparées par des virgules
+    tenantProviders: process.env.LLM_TENANT_PROVIDERS || '',
+    documentTypeProviders: process.env.LLM_DOCUMENT_TYPE_PROVIDERS || '',
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '120000', 10),
+    // Dossier où capturer les réponses réelles (rejouées par le fournisseur fake)
+    recordDir: process.env.LLM_RECORD_DIR || '',
+    cache: {
+      // Cache des extractions par empreinte de pièce jointe + version de prompt + modèle
+      enabled: process.env.LLM_CACHE_ENABLED !== 'false',
+      ttlDays: parseInt(process.env.LLM_CACHE_TTL_DAYS || '30', 10),
+    },
+    anthropic: {
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      model: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514',
+    },
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY,
+      baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    },
+    local: {
+      baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434',
+      model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+      api: process.env.LOCAL_LLM_API || 'ollama', // ollama | llamacpp
+    },
+    fake: {
+      recordingsDir: process.env.LLM_FAKE_RECORDINGS_DIR || './data/llm-recordings',
+    },
+  },
+  auth: {
+    // Authentification de l'API (désactivable en développement uniquement)
+    enabled: process.env.AUTH_ENABLED !== 'false',
+    // Clé de signature des jetons de session (aléatoire à chaque démarrage si absente)
+    secret: process.env.AUTH_SECRET || '',
+    sessionTtlHours: parseInt(process.env.AUTH_SESSION_TTL_HOURS || '12', 10),
+    // Administrateur créé au démarrage tant qu'aucun n'existe
+    adminEmail: process.env.AUTH_ADMIN_EMAIL || '',
+    adminPassword: process.env.AUTH_ADMIN_PASSWORD || '',
+    // Origines autorisées (CORS), séparées par des virgules; vide = toutes
+    corsOrigins: (process.env.CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
+  },
+  jobs: {
+    // File de tâches persistante (SQLite): désactiver le worker sur les instances secondaires
+    workerEnabled: process.env.JOBS_WORKER_ENABLED !== 'false',
+    pollSeconds: parseInt(process.env.JOBS_POLL_SECONDS || '15', 10),
+    // Bail d'une tâche en cours (prolongé tant qu'elle tourne); expiré = exécution interrompue
+    leaseSeconds: parseInt(process.env.JOBS_LEASE_SECONDS || '300', 10),
+    maxAttempts: parseInt(process.env.JOBS_MAX_ATTEMPTS || '3', 10),
+    backoffSeconds: parseInt(process.env.JOBS_BACKOFF_SECONDS || '60', 10),
+  },
   webhook: {
     // URL webhook par défaut
     defaultUrl: process.env.WEBHOOK_URL || '',
@@ -64,5 +161,14 @@ export default () => ({
     secret: process.env.WEBHOOK_SECRET || '',
     // Activer les webhooks
     enabled: process.env.WEBHOOK_ENABLED !== 'false',
+    // Tentatives de livraison par endpoint avant lettre morte
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '10', 10),
+    // Backoff: backoffSeconds × 2^(essais - 1), plafonné à maxBackoffMinutes
+    backoffSeconds: parseInt(process.env.WEBHOOK_BACKOFF_SECONDS || '60', 10),
+    maxBackoffMinutes: parseInt(process.env.WEBHOOK_MAX_BACKOFF_MINUTES || '360', 10),
+    // Fréquence de la tâche de relivraison
+    retryIntervalMinutes: parseInt(process.env.WEBHOOK_RETRY_INTERVAL_MINUTES || '1', 10),
+    // Conservation des événements livrés (0 = illimitée, les lettres mortes sont conservées)
+    retentionDays: parseInt(process.env.WEBHOOK_RETENTION_DAYS || '30', 10),
   },
 });
@@ -0,0 +1,125 @@
+import { BadRequestException, Controller, Get, Post, Delete, Body, Param, Query } from '@nestjs/common';
+import { CurrencyService } from './currency.service';
+import { Roles } from '../auth/auth.decorators';
+
+@Controller('currency')
+export class CurrencyController {
+  constructor(private readonly currencyService: CurrencyService) {}
+
+  /**
+   * GET /currency/rates
+   * Liste des taux de change enregistrés
+   */
+  @Get('rates')
+  listRates(@Query('currency') currency?: string, @Query('limit') limit?: string) {
+    const rates = this.currencyService.listRates({
+      currency,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+    return {
+      success: true,
+      baseCurrency: this.currencyService.getBaseCurrency(),
+      count: rates.length,
+      data: rates,
+    };
+  }
+
+  /**
+   * POST /currency/rates
+   * Saisie manuelle d'un taux: 1 currency = rate quoteCurrency
+   */
+  @Post('rates')
+  addRate(@Body() body: {
+    currency: string;
+    quoteCurrency?: string;
+    rate: number;
+    rateDate?: string;
+  }) {
+    if (!body.currency || body.rate === undefined) {
+      return { success: false, error: 'currency et rate requis' };
+    }
+
+    try {
+      const rate = this.currencyService.addRate({
+        currency: body.currency,
+        quoteCurrency: body.quoteCurrency,
+        rate: Number(body.rate),
+        rateDate: body.rateDate ? new Date(body.rateDate) : undefined,
+        source: 'manual',
+      });
+      return { success: true, data: rate };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * POST /currency/rates/import
+   * Import CSV ou JSON (contenu dans le body ou chemin relatif à CURRENCY_RATES_DIR, 400 en dehors)
+   */
+  @Roles('admin')
+  @Post('rates/import')
+  importRates(@Body() body: {
+    format?: 'csv' | 'json';
+    content?: string;
+    filePath?: string;
+  }) {
+    try {
+      let result;
+      if (body.filePath) {
+        result = this.currencyService.importRatesFromFile(body.filePath);
+      } else if (body.content) {
+        result = this.currencyService.importRates(body.content, body.format || 'csv');
+      } else {
+        return { success: false, error: 'content ou filePath requis' };
+      }
+      return { success: true, data: result };
+    } catch (error) {
+      if (error instanceof BadRequestException) throw error;
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * DELETE /currency/rates/:id
+   * Supprimer un taux (la parité fixe EUR/XOF ne peut pas être supprimée)
+   */
+  @Roles('admin')
+  @Delete('rates/:id')
+  deleteRate(@Param('id') id: string) {
+    const deleted = this.currencyService.deleteRate(id);
+    return {
+      success: deleted,
+      message: deleted ? 'Taux supprimé' : 'Taux non trouvé ou non supprimable',
+    };
+  }
+
+  /**
+   * GET /currency/convert?amount=100&from=USD&to=XOF&date=2026-01-15
+   * Convertir un montant (devise de base par défaut)
+   */
+  @Get('convert')
+  convert(
+    @Query('amount') amountStr: string,
+    @Query('from') from: string,
+    @Query('to') to?: string,
+    @Query('date') dateStr?: string,
+  ) {
+    const amount = parseFloat(amountStr);
+    if (isNaN(amount) || !from) {
+      return { success: false, error: 'amount et from requis' };
+    }
+
+    const result = this.currencyService.convert(
+      amount,
+      from,
+      to || this.currencyService.getBaseCurrency(),
+      dateStr ? new Date(dateStr) : undefined,
+    );
+
+    if (!result) {
+      return { success: false, error: `Aucun taux disponible pour ${from} → ${to || this.currencyService.getBaseCurrency()}` };
+    }
+    return { success: true, data: result };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { CurrencyService } from './currency.service';
+import { CurrencyController } from './currency.controller';
+
+@Global()
+@Module({
+  imports: [ConfigModule, DatabaseModule],
+  providers: [CurrencyService],
+  controllers: [CurrencyController],
+  exports: [CurrencyService],
+})
+export class CurrencyModule {}
@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as initSqlJs from 'sql.js';
+import { CurrencyService, XOF_PER_EUR } from './currency.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('CurrencyService', () => {
+  let service: CurrencyService;
+  let ratesDir: string;
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    ratesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rates-'));
+    const config: Record<string, any> = { 'currency.baseCurrency': 'XOF', 'currency.ratesDir': ratesDir };
+    const databaseService = {
+      db: new SQL.Database(),
+      saveToFile: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CurrencyService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) => config[key]),
+          },
+        },
+        {
+          provide: DatabaseService,
+          useValue: databaseService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CurrencyService>(CurrencyService);
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    fs.rmSync(ratesDir, { recursive: true, force: true });
+  });
+
+  describe('convert', () => {
+    it('should use the EUR/XOF peg', () => {
+      const result = service.convert(100, 'EUR', 'XOF');
+      expect(result?.amount).toBe(65595.7);
+      expect(result?.source).toBe('peg');
+    });
+
+    it('should use the inverse rate', () => {
+      const result = service.convert(XOF_PER_EUR, 'FCFA', 'EUR');
+      expect(result?.amount).toBe(1);
+    });
+
+    it('should cross through a pivot currency', () => {
+      service.addRate({ currency: 'USD', quoteCurrency: 'EUR', rate: 0.9, rateDate: new Date('2026-01-01') });
+
+      const result = service.convert(100, 'USD', 'XOF', new Date('2026-02-01'));
+      expect(result?.via).toBe('EUR');
+      expect(result?.amount).toBeCloseTo(100 * 0.9 * XOF_PER_EUR, 0);
+    });
+
+    it('should pick the latest rate on or before the quote date', () => {
+      service.addRate({ currency: 'USD', quoteCurrency: 'XOF', rate: 600, rateDate: new Date('2026-01-01') });
+      service.addRate({ currency: 'USD', quoteCurrency: 'XOF', rate: 550, rateDate: new Date('2026-03-01') });
+
+      expect(service.convert(1, 'USD', 'XOF', new Date('2026-02-15'))?.rate).toBe(600);
+      expect(service.convert(1, 'USD', 'XOF', new Date('2026-04-01'))?.rate).toBe(550);
+    });
+
+    it('should return null when no rate is available', () => {
+      expect(service.convert(100, 'GBP', 'XOF')).toBeNull();
+    });
+  });
+
+  describe('importRates', () => {
+    it('should import CSV rates', () => {
+      const csv = 'currency;quoteCurrency;rate;date\nUSD;XOF;605,5;2026-01-10\nGBP;EUR;abc;2026-01-10';
+      const result = service.importRates(csv, 'csv');
+
+      expect(result.imported).toBe(1);
+      expect(result.errors).toHaveLength(1);
+      expect(service.normalize(10, 'USD', new Date('2026-01-10'))?.amount).toBe(6055);
+    });
+
+    it('should only read rate files inside the rates directory', () => {
+      fs.writeFileSync(path.join(ratesDir, 'bceao.json'), JSON.stringify([{ currency: 'USD', quoteCurrency: 'XOF', rate: 605.5, date: '2026-01-10' }]));
+
+      expect(service.importRatesFromFile('bceao.json').imported).toBe(1);
+      expect(() => service.importRatesFromFile('../bceao.json')).toThrow(BadRequestException);
+      expect(() => service.importRatesFromFile('/etc/passwd')).toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,429 @@
+import { BadRequestException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseService } from '../database/database.service';
+
+/**
+ * Devises de base supportées pour la normalisation
+ */
+export type BaseCurrency = 'XOF' | 'EUR';
+
+/**
+ * Taux de change: 1 `currency` = `rate` `quoteCurrency`
+ */
+export interface CurrencyRate {
+  id: string;
+  currency: string;
+  quoteCurrency: string;
+  rate: number;
+  rateDate: Date;
+  source: 'manual' | 'import' | 'peg' | string;
+  createdAt: Date;
+}
+
+/**
+ * Taux effectivement utilisé pour une conversion
+ */
+export interface AppliedRate {
+  from: string;
+  to: string;
+  rate: number;
+  rateDate?: Date;
+  source: string;
+  via?: string; // Devise pivot si conversion croisée
+}
+
+/**
+ * Résultat d'une conversion de montant
+ */
+export interface ConversionResult extends AppliedRate {
+  originalAmount: number;
+  amount: number;
+}
+
+/**
+ * Résultat d'un import de taux (CSV/JSON)
+ */
+export interface RateImportResult {
+  imported: number;
+  skipped: number;
+  errors: string[];
+}
+
+/**
+ * Parité fixe XOF/EUR (zone franc CFA)
+ */
+export const XOF_PER_EUR = 655.957;
+
+/**
+ * Devises pivot utilisées pour les conversions croisées
+ */
+const PIVOT_CURRENCIES = ['EUR', 'USD', 'XOF'];
+
+/**
+ * Alias courants rencontrés dans les offres fournisseurs
+ */
+const CURRENCY_ALIASES: Record<string, string> = {
+  FCFA: 'XOF',
+  CFA: 'XOF',
+  '€': 'EUR',
+  '$': 'USD',
+  '£': 'GBP',
+};
+
+@Injectable()
+export class CurrencyService implements OnModuleInit {
+  private readonly logger = new Logger(CurrencyService.name);
+  private readonly baseCurrency: BaseCurrency;
+  private readonly ratesDir: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly databaseService: DatabaseService,
+  ) {
+    const configured = (this.configService.get<string>('currency.baseCurrency') || 'XOF').toUpperCase();
+    this.baseCurrency = configured === 'EUR' ? 'EUR' : 'XOF';
+    this.ratesDir = path.resolve(this.configService.get<string>('currency.ratesDir') || './data/rates');
+  }
+
+  async onModuleInit() {
+    this.createTables();
+  }
+
+  private get db(): any {
+    return (this.databaseService as any).db;
+  }
+
+  private createTables() {
+    const db = this.db;
+    if (!db) {
+      this.logger.warn('Database not initialized, skipping table creation');
+      return;
+    }
+
+    try {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS currency_rates (
+          id TEXT PRIMARY KEY,
+          currency TEXT NOT NULL,
+          quote_currency TEXT NOT NULL,
+          rate REAL NOT NULL,
+          rate_date TEXT NOT NULL,
+          source TEXT NOT NULL DEFAULT 'manual',
+          created_at TEXT NOT NULL,
+          UNIQUE(currency, quote_currency, rate_date)
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_currency_rates_pair ON currency_rates(currency, quote_currency, rate_date)`);
+
+      // Parité fixe EUR/XOF toujours disponible
+      db.run(`
+        INSERT OR IGNORE INTO currency_rates (id, currency, quote_currency, rate, rate_date, source, created_at)
+        VALUES (?, 'EUR', 'XOF', ?, '1999-01-01T00:00:00.000Z', 'peg', ?)
+      `, [uuidv4(), XOF_PER_EUR, new Date().toISOString()]);
+
+      this.databaseService.saveToFile();
+      this.logger.log(`Currency tables created/verified (base: ${this.baseCurrency})`);
+    } catch (error) {
+      this.logger.error(`Error creating currency tables: ${error.message}`);
+    }
+  }
+
+  getBaseCurrency(): BaseCurrency {
+    return this.baseCurrency;
+  }
+
+  /**
+   * Normalise un code devise (FCFA → XOF, € → EUR...)
+   */
+  normalizeCode(currency: string | undefined): string | undefined {
+    if (!currency) return undefined;
+    const trimmed = currency.trim();
+    const upper = trimmed.toUpperCase();
+    return CURRENCY_ALIASES[upper] || CURRENCY_ALIASES[trimmed] || upper;
+  }
+
+  // ============ RATES CRUD ============
+
+  addRate(rate: {
+    currency: string;
+    quoteCurrency?: string;
+    rate: number;
+    rateDate?: Date;
+    source?: string;
+  }): CurrencyRate {
+    const currency = this.normalizeCode(rate.currency);
+    const quoteCurrency = this.normalizeCode(rate.quoteCurrency) || this.baseCurrency;
+
+    if (!currency || !/^[A-Z]{3}$/.test(currency) || !/^[A-Z]{3}$/.test(quoteCurrency)) {
+      throw new Error(`Code devise invalide: ${rate.currency}/${rate.quoteCurrency || this.baseCurrency}`);
+    }
+    if (currency === quoteCurrency) {
+      throw new Error('Les devises source et cible doivent être différentes');
+    }
+    if (!(rate.rate > 0)) {
+      throw new Error(`Taux invalide: ${rate.rate}`);
+    }
+
+    const rateDate = this.startOfDay(rate.rateDate || new Date());
+    const id = uuidv4();
+
+    // Une seule valeur par paire et par jour: la dernière saisie remplace la précédente
+    this.db.run(`
+      DELETE FROM currency_rates WHERE currency = ? AND quote_currency = ? AND rate_date = ?
+    `, [currency, quoteCurrency, rateDate.toISOString()]);
+    this.db.run(`
+      INSERT INTO currency_rates (id, currency, quote_currency, rate, rate_date, source, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [id, currency, quoteCurrency, rate.rate, rateDate.toISOString(), rate.source || 'manual', new Date().toISOString()]);
+
+    this.databaseService.saveToFile();
+    return this.getRateById(id)!;
+  }
+
+  getRateById(id: string): CurrencyRate | null {
+    const result = this.db.exec(`SELECT * FROM currency_rates WHERE id = ?`, [id]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.mapRowToRate(result[0].columns, result[0].values[0]);
+  }
+
+  listRates(filters?: { currency?: string; limit?: number }): CurrencyRate[] {
+    let query = `SELECT * FROM currency_rates WHERE 1=1`;
+    const params: any[] = [];
+
+    if (filters?.currency) {
+      const code = this.normalizeCode(filters.currency);
+      query += ` AND (currency = ? OR quote_currency = ?)`;
+      params.push(code, code);
+    }
+
+    query += ` ORDER BY rate_date DESC, currency ASC LIMIT ?`;
+    params.push(filters?.limit || 200);
+
+    const result = this.db.exec(query, params);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToRate(result[0].columns, row));
+  }
+
+  deleteRate(id: string): boolean {
+    const existing = this.getRateById(id);
+    if (!existing || existing.source === 'peg') return false;
+
+    this.db.run(`DELETE FROM currency_rates WHERE id = ?`, [id]);
+    this.databaseService.saveToFile();
+    return true;
+  }
+
+  private mapRowToRate(columns: string[], row: any[]): CurrencyRate {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      currency: obj.currency,
+      quoteCurrency: obj.quote_currency,
+      rate: obj.rate,
+      rateDate: new Date(obj.rate_date),
+      source: obj.source,
+      createdAt: new Date(obj.created_at),
+    };
+  }
+
+  // ============ IMPORT ============
+
+  /**
+   * Importe des taux depuis un contenu CSV ou JSON (fonctionne hors ligne).
+   *
+   * CSV: en-tête `currency,quoteCurrency,rate,date` (séparateur `,` ou `;`).
+   * JSON: tableau d'objets `{ currency, quoteCurrency?, rate, date? }`.
+   */
+  importRates(content: string, format: 'csv' | 'json'): RateImportResult {
+    const result: RateImportResult = { imported: 0, skipped: 0, errors: [] };
+    const entries = format === 'json' ? this.parseJsonRates(content) : this.parseCsvRates(content);
+
+    for (const [index, entry] of entries.entries()) {
+      try {
+        const rate = typeof entry.rate === 'string' ? parseFloat(entry.rate.replace(',', '.')) : entry.rate;
+        const rateDate = entry.date ? new Date(entry.date) : undefined;
+        if (rateDate && isNaN(rateDate.getTime())) {
+          throw new Error(`date invalide "${entry.date}"`);
+        }
+
+        this.addRate({
+          currency: entry.currency,
+          quoteCurrency: entry.quoteCurrency,
+          rate,
+          rateDate,
+          source: 'import',
+        });
+        result.imported++;
+      } catch (error) {
+        result.skipped++;
+        result.errors.push(`Ligne ${index + 1}: ${error.message}`);
+      }
+    }
+
+    this.logger.log(`Import taux de change: ${result.imported} importé(s), ${result.skipped} ignoré(s)`);
+    return result;
+  }
+
+  /**
+   * Import d'un fichier de taux, chemin relatif à currency.ratesDir (refusé en dehors)
+   */
+  importRatesFromFile(filePath: string): RateImportResult {
+    const resolved = path.resolve(this.ratesDir, filePath || '');
+    if (!resolved.startsWith(this.ratesDir + path.sep)) {
+      throw new BadRequestException(`Chemin hors du dossier des taux (${this.ratesDir}): ${filePath}`);
+    }
+
+    const content = fs.readFileSync(resolved, 'utf-8');
+    const format = resolved.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    return this.importRates(content, format);
+  }
+
+  private parseJsonRates(content: string): any[] {
+    const data = JSON.parse(content);
+    return Array.isArray(data) ? data : data.rates || [];
+  }
+
+  private parseCsvRates(content: string): any[] {
+    const lines = content.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+    if (lines.length === 0) return [];
+
+    const separator = lines[0].includes(';') ? ';' : ',';
+    const header = lines[0].split(separator).map(h => h.trim().toLowerCase());
+    const col = (names: string[]) => header.findIndex(h => names.includes(h));
+
+    const currencyCol = col(['currency', 'devise', 'from']);
+    const quoteCol = col(['quotecurrency', 'quote_currency', 'base', 'to']);
+    const rateCol = col(['rate', 'taux']);
+    const dateCol = col(['date', 'rate_date', 'ratedate']);
+
+    if (currencyCol < 0 || rateCol < 0) {
+      throw new Error('En-tête CSV invalide: colonnes "currency" et "rate" requises');
+    }
+
+    return lines.slice(1).map(line => {
+      const cells = line.split(separator).map(c => c.trim());
+      return {
+        currency: cells[currencyCol],
+        quoteCurrency: quoteCol >= 0 ? cells[quoteCol] || undefined : undefined,
+        rate: cells[rateCol],
+        date: dateCol >= 0 ? cells[dateCol] || undefined : undefined,
+      };
+    });
+  }
+
+  // ============ CONVERSION ============
+
+  /**
+   * Trouve le taux applicable à une date (taux le plus récent à cette date,
+   * sinon le plus ancien disponible). Essaie la paire directe, l'inverse,
+   * puis une conversion croisée via une devise pivot.
+   */
+  getRate(from: string, to: string, at: Date = new Date()): AppliedRate | null {
+    const source = this.normalizeCode(from);
+    const target = this.normalizeCode(to);
+    if (!source || !target) return null;
+
+    if (source === target) {
+      return { from: source, to: target, rate: 1, source: 'identity' };
+    }
+
+    const direct = this.findPairRate(source, target, at);
+    if (direct) return direct;
+
+    for (const pivot of PIVOT_CURRENCIES) {
+      if (pivot === source || pivot === target) continue;
+
+      const first = this.findPairRate(source, pivot, at);
+      const second = first ? this.findPairRate(pivot, target, at) : null;
+      if (first && second) {
+        return {
+          from: source,
+          to: target,
+          rate: first.rate * second.rate,
+          rateDate: this.combinedRateDate(first, second),
+          source: `${first.source}+${second.source}`,
+          via: pivot,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  convert(amount: number, from: string | undefined, to: string, at?: Date): ConversionResult | null {
+    if (amount === undefined || amount === null || isNaN(amount) || !from) return null;
+
+    const applied = this.getRate(from, to, at);
+    if (!applied) return null;
+
+    return {
+      ...applied,
+      originalAmount: amount,
+      amount: Math.round(amount * applied.rate * 100) / 100,
+    };
+  }
+
+  /**
+   * Convertit un montant dans la devise de base configurée
+   */
+  normalize(amount: number | undefined, currency: string | undefined, at?: Date): ConversionResult | null {
+    if (amount === undefined) return null;
+    return this.convert(amount, currency, this.baseCurrency, at);
+  }
+
+  private findPairRate(from: string, to: string, at: Date): AppliedRate | null {
+    const direct = this.findStoredRate(from, to, at);
+    if (direct) {
+      return { from, to, rate: direct.rate, rateDate: direct.rateDate, source: direct.source };
+    }
+
+    const inverse = this.findStoredRate(to, from, at);
+    if (inverse) {
+      return { from, to, rate: 1 / inverse.rate, rateDate: inverse.rateDate, source: inverse.source };
+    }
+
+    return null;
+  }
+
+  private findStoredRate(currency: string, quoteCurrency: string, at: Date): CurrencyRate | null {
+    const atIso = at.toISOString();
+
+    let result = this.db.exec(`
+      SELECT * FROM currency_rates
+      WHERE currency = ? AND quote_currency = ? AND rate_date <= ?
+      ORDER BY rate_date DESC LIMIT 1
+    `, [currency, quoteCurrency, atIso]);
+
+    if (result.length === 0 || result[0].values.length === 0) {
+      // Aucun taux antérieur: prendre le plus ancien postérieur
+      result = this.db.exec(`
+        SELECT * FROM currency_rates
+        WHERE currency = ? AND quote_currency = ?
+        ORDER BY rate_date ASC LIMIT 1
+      `, [currency, quoteCurrency]);
+    }
+
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.mapRowToRate(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * Date de référence d'un taux croisé: celle du taux flottant (une parité fixe
+   * n'a pas de date significative), sinon la plus ancienne des deux.
+   */
+  private combinedRateDate(first: AppliedRate, second: AppliedRate): Date | undefined {
+    if (first.source === 'peg') return second.rateDate;
+    if (second.source === 'peg') return first.rateDate;
+    if (!first.rateDate) return second.rateDate;
+    if (!second.rateDate) return first.rateDate;
+    return first.rateDate < second.rateDate ? first.rateDate : second.rateDate;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
@@ -0,0 +1,3 @@
+export * from './currency.service';
+export * from './currency.module';
+export * from './currency.controller';
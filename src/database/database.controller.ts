@@ -1,6 +1,8 @@
-import { Controller, Get, Post, Put, Delete, Body, Param, Query } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, BadRequestException } from '@nestjs/common';
 import { DatabaseService } from './database.service';
-import { Client } from './entities';
+import { Client, ClientProfile } from './entities';
+import { COLUMN_DICTIONARY } from '../ingestion/types';
+import { Roles } from '../auth/auth.decorators';
 
 @Controller('database')
 export class DatabaseController {
@@ -55,6 +57,75 @@ export class DatabaseController {
     return { success: true, client };
   }
 
+  // ============ PROFILS D'EXTRACTION ============
+
+  @Get('client-profiles')
+  async getAllClientProfiles() {
+    const profiles = await this.databaseService.getAllClientProfiles();
+    return { count: profiles.length, profiles };
+  }
+
+  @Get('clients/:id/profile')
+  async getClientProfile(@Param('id') id: string) {
+    const profile = await this.databaseService.getClientProfile(id);
+    if (!profile) {
+      return { error: 'Profil non trouvé' };
+    }
+    return profile;
+  }
+
+  @Roles('admin')
+  @Put('clients/:id/profile')
+  async updateClientProfile(
+    @Param('id') id: string,
+    @Body() body: Partial<Omit<ClientProfile, 'clientId' | 'createdAt' | 'updatedAt'>>,
+  ) {
+    const error = this.validateClientProfile(body);
+    if (error) {
+      return { success: false, error };
+    }
+
+    try {
+      const profile = await this.databaseService.upsertClientProfile(id, body);
+      if (!profile) {
+        return { error: 'Client non trouvé' };
+      }
+      return { success: true, profile };
+    } catch (e) {
+      // tenant_id unique
+      return { success: false, error: e.message };
+    }
+  }
+
+  @Roles('admin')
+  @Delete('clients/:id/profile')
+  async deleteClientProfile(@Param('id') id: string) {
+    return { success: await this.databaseService.deleteClientProfile(id) };
+  }
+
+  private validateClientProfile(body: Partial<ClientProfile>): string | null {
+    for (const [field, pattern] of [['itemCodePattern', body.itemCodePattern], ['glCodePattern', body.glCodePattern]]) {
+      if (!pattern) continue;
+      try {
+        new RegExp(pattern);
+      } catch {
+        return `${field} invalide: ${pattern}`;
+      }
+    }
+
+    if (body.preferredLanguage && !['fr', 'en'].includes(body.preferredLanguage)) {
+      return `preferredLanguage invalide: ${body.preferredLanguage} (fr ou en)`;
+    }
+
+    const unknownColumns = Object.keys(body.columnSynonyms || {})
+      .filter(type => !(type in COLUMN_DICTIONARY) || type === 'unknown');
+    if (unknownColumns.length > 0) {
+      return `Types de colonne inconnus: ${unknownColumns.join(', ')}`;
+    }
+
+    return null;
+  }
+
   // ============ RFQ MAPPINGS ============
 
   @Get('rfq-mappings')
@@ -104,6 +175,7 @@ export class DatabaseController {
     return config || { error: 'Configuration non trouvée' };
   }
 
+  @Roles('admin')
   @Put('config')
   async updateConfig(@Body() body: {
     startDate?: string;
@@ -133,6 +205,7 @@ export class DatabaseController {
     return { count: keywords.length, keywords };
   }
 
+  @Roles('admin')
   @Post('keywords')
   async addKeyword(@Body() body: {
     keyword: string;
@@ -152,6 +225,42 @@ export class DatabaseController {
     return { count: logs.length, logs };
   }
 
+  // ============ AUDIT ============
+
+  /**
+   * GET /database/audit?rfqNumber=&entityType=&entityId=&actor=&correlationId=&from=&to=&limit=
+   * Journal d'audit: changements d'état et emails envoyés, les plus récents d'abord
+   */
+  @Get('audit')
+  async getAuditEvents(
+    @Query('rfqNumber') rfqNumber?: string,
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
+    @Query('actor') actor?: string,
+    @Query('correlationId') correlationId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+  ) {
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value && isNaN(new Date(value).getTime())) {
+        throw new BadRequestException(`Date invalide pour ${name}: ${value}`);
+      }
+    }
+
+    const events = await this.databaseService.getAuditEvents({
+      rfqNumber,
+      entityType,
+      entityId,
+      actor,
+      correlationId,
+      from,
+      to,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+    return { count: events.length, events };
+  }
+
   // ============ RESET (MODE TEST) ============
 
   /**
@@ -160,6 +269,7 @@ export class DatabaseController {
    * Conserve: clients, detection_keywords, processing_config, known_suppliers
    * Vide: rfq_mappings, processing_logs, pending_drafts, output_logs
    */
+  @Roles('admin')
   @Post('reset')
   async resetProcessingData(@Body() body?: { confirm?: boolean }) {
     if (!body?.confirm) {
@@ -181,6 +291,7 @@ export class DatabaseController {
   /**
    * Supprime un mapping RFQ spécifique pour permettre le retraitement
    */
+  @Roles('admin')
   @Delete('rfq-mappings/:internalRfqNumber')
   async deleteRfqMapping(@Param('internalRfqNumber') internalRfqNumber: string) {
     const deleted = await this.databaseService.deleteRfqMapping(internalRfqNumber);
@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseService } from './database.service';
+import { runWithContext } from '../common/request-context';
+
+describe('DatabaseService client profiles', () => {
+  let service: DatabaseService;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'profiles-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => (key === 'app.dbPath' ? path.join(dataDir, 'test.db') : undefined)) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DatabaseService>(DatabaseService);
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const addClient = async (code: string, email: string, senderDomains: string[] = []) => {
+    const client = await service.createClient({ code, name: code, email, alternateEmails: [] });
+    await service.upsertClientProfile(client!.id, { senderDomains });
+    return client!;
+  };
+
+  it('should match declared sender domains first, then client email domains', async () => {
+    await addClient('SIFCA', 'achats@sifca.ci');
+    const declared = await addClient('GROUPE', 'contact@groupe.com', ['sifca.ci']);
+
+    expect((await service.findClientProfileByDomain('sifca.ci'))!.client.id).toBe(declared.id);
+    expect((await service.findClientProfileByDomain('achats.groupe.com'))!.client.code).toBe('GROUPE');
+    expect(await service.findClientProfileByDomain('autre.ci')).toBeNull();
+  });
+
+  it('should not let a client with a free-mail address capture every sender of that domain', async () => {
+    await addClient('ARTISAN', 'artisan.abidjan@gmail.com');
+    const declared = await addClient('PME', 'pme@yahoo.fr', ['yahoo.fr']);
+
+    expect(await service.findClientProfileByDomain('gmail.com')).toBeNull();
+    expect((await service.findClientProfileByDomain('yahoo.fr'))!.client.id).toBe(declared.id);
+  });
+});
+
+describe('DatabaseService audit trail', () => {
+  let service: DatabaseService;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DatabaseService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => (key === 'app.dbPath' ? path.join(dataDir, 'test.db') : undefined)) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DatabaseService>(DatabaseService);
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should record field-level changes, with line items diffed by id', async () => {
+    const event = await service.addAuditEvent({
+      entityType: 'draft',
+      entityId: 'draft-1',
+      action: 'draft.items_updated',
+      rfqNumber: 'DDP-20260114-001',
+      actor: 'buyer@multipartsci.com',
+      before: {
+        status: 'pending_review',
+        items: [{ id: 'a', description: 'Filtre', quantity: 2 }, { id: 'b', description: 'Joint', quantity: 1 }],
+      },
+      after: {
+        status: 'reviewed',
+        items: [{ id: 'a', description: 'Filtre', quantity: 5 }, { id: 'c', description: 'Courroie', quantity: 1 }],
+      },
+    });
+
+    expect(event!.changes).toEqual({
+      status: { before: 'pending_review', after: 'reviewed' },
+      'items[a].quantity': { before: 2, after: 5 },
+      'items[b]': { before: { id: 'b', description: 'Joint', quantity: 1 }, after: null },
+      'items[c]': { before: null, after: { id: 'c', description: 'Courroie', quantity: 1 } },
+    });
+    expect(event!.actor).toBe('buyer@multipartsci.com');
+  });
+
+  it('should take actor and correlation id from the running context', async () => {
+    const mapping = (await service.createRfqMapping({
+      clientRfqNumber: 'PR-9001',
+      internalRfqNumber: 'DDP-20260114-002',
+      emailId: 'uid-1',
+      emailSubject: 'RFQ PR-9001',
+      status: 'pending',
+    } as any))!;
+
+    await runWithContext({ actor: 'admin@multipartsci.com', correlationId: 'corr-1' }, () =>
+      service.updateRfqMappingStatus(mapping.id, 'sent'),
+    );
+    await service.addAuditEvent({ entityType: 'email', action: 'email.sent', after: { to: 'x@y.com' } });
+
+    const [event] = await service.getAuditEvents({ rfqNumber: 'PR-9001' });
+    expect(event).toMatchObject({
+      actor: 'admin@multipartsci.com',
+      correlationId: 'corr-1',
+      entityType: 'rfq_mapping',
+      rfqNumber: 'DDP-20260114-002',
+      changes: { status: { before: 'pending', after: 'sent' } },
+    });
+
+    const emails = await service.getAuditEvents({ entityType: 'email' });
+    expect(emails).toHaveLength(1);
+    expect(emails[0].actor).toBe('system');
+  });
+
+  it('should filter by date range', async () => {
+    await service.addAuditEvent({ entityType: 'brand', entityId: 'CAT', action: 'brand.category_changed' });
+
+    expect(await service.getAuditEvents({ from: '2000-01-01', to: '2000-12-31' })).toHaveLength(0);
+    const today = new Date().toISOString().substring(0, 10);
+    expect(await service.getAuditEvents({ from: today, to: today })).toHaveLength(1);
+  });
+});
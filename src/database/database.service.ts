@@ -6,11 +6,38 @@ import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import {
   Client,
+  ClientProfile,
   RfqMapping,
   ProcessingConfig,
   DetectionKeyword,
   ProcessingLog,
+  AuditEvent,
+  AuditEventInput,
+  AuditEventQuery,
+  ImapFolderState,
 } from './entities';
+import { computeAuditChanges } from '../common/audit-diff';
+import { getRequestContext } from '../common/request-context';
+
+/**
+ * Messageries grand public: partagées par des clients sans rapport entre eux, elles ne
+ * suffisent pas à identifier un client (seuls les domaines déclarés dans un profil comptent)
+ */
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.fr', 'ymail.com', 'outlook.com', 'outlook.fr',
+  'hotmail.com', 'hotmail.fr', 'live.com', 'live.fr', 'msn.com', 'icloud.com', 'me.com', 'aol.com',
+  'gmx.com', 'gmx.fr', 'orange.fr', 'wanadoo.fr', 'free.fr', 'laposte.net', 'sfr.fr', 'proton.me',
+  'protonmail.com', 'mail.com', 'zoho.com', 'yandex.com',
+]);
+
+/**
+ * Observateur des changements de statut d'une correspondance RFQ (webhooks)
+ */
+export type RfqMappingStatusListener = (
+  internalRfqNumber: string,
+  fromStatus: RfqMapping['status'],
+  toStatus: RfqMapping['status'],
+) => void | Promise<void>;
 
 @Injectable()
 export class DatabaseService implements OnModuleInit, OnModuleDestroy {
@@ -18,6 +45,7 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
   private db: any;
   private dbPath: string;
   private saveInterval: NodeJS.Timeout;
+  private readonly rfqMappingStatusListeners: RfqMappingStatusListener[] = [];
 
   constructor(private configService: ConfigService) {
     this.dbPath = this.configService.get<string>('app.dbPath') || './data/price-request.db';
@@ -85,6 +113,51 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
 
     // Migration: Supplier Collector tables
     this.createSupplierCollectorTables();
+
+    // Migration: journal d'audit
+    this.createAuditTables();
+
+    // Migration: curseurs IMAP
+    this.createImapStateTables();
+  }
+
+  /**
+   * Table du journal d'audit (jamais vidée par les remises à zéro)
+   */
+  private createAuditTables() {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id TEXT PRIMARY KEY,
+        actor TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT,
+        action TEXT NOT NULL,
+        rfq_number TEXT,
+        changes_json TEXT,
+        correlation_id TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_audit_rfq ON audit_events(rfq_number)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_audit_entity ON audit_events(entity_type, entity_id)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_audit_date ON audit_events(created_at)`);
+  }
+
+  /**
+   * Curseurs de synchronisation IMAP (dernier UID traité par dossier)
+   */
+  private createImapStateTables() {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS imap_folder_state (
+        mailbox TEXT NOT NULL,
+        folder TEXT NOT NULL,
+        uid_validity INTEGER NOT NULL,
+        last_uid INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (mailbox, folder)
+      )
+    `);
   }
 
   /**
@@ -214,6 +287,24 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
       this.db.run(`ALTER TABLE rfq_mappings ADD COLUMN mailbox TEXT`);
     } catch (e) { /* column exists */ }
 
+    // Table Profils d'extraction client
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS client_profiles (
+        client_id TEXT PRIMARY KEY,
+        tenant_id TEXT UNIQUE NOT NULL,
+        sender_domains TEXT,
+        item_code_pattern TEXT,
+        gl_code_pattern TEXT,
+        preferred_language TEXT,
+        default_delivery_location TEXT,
+        column_synonyms TEXT,
+        custom_fields TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (client_id) REFERENCES clients(id)
+      )
+    `);
+
     // Index pour recherche rapide
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_rfq_client ON rfq_mappings(client_id)`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_rfq_client_number ON rfq_mappings(client_rfq_number)`);
@@ -434,6 +525,9 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_supplier_sync_account ON supplier_sync_logs(account_email)`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_supplier_sync_status ON supplier_sync_logs(status)`);
 
+    this.createAuditTables();
+    this.createImapStateTables();
+
     this.logger.log('Tables créées');
   }
 
@@ -581,6 +675,139 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
     };
   }
 
+  // ============ CLIENT PROFILES ============
+
+  async getClientProfile(clientId: string): Promise<ClientProfile | null> {
+    const result = this.db.exec(`SELECT * FROM client_profiles WHERE client_id = ?`, [clientId]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.mapRowToClientProfile(result[0].columns, result[0].values[0]);
+  }
+
+  async getClientProfileByTenantId(tenantId: string): Promise<ClientProfile | null> {
+    const result = this.db.exec(`SELECT * FROM client_profiles WHERE tenant_id = ?`, [tenantId]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.mapRowToClientProfile(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * Trouve le profil correspondant au domaine expéditeur: domaines déclarés
+   * dans le profil, puis domaines des emails du client (sous-domaines inclus,
+   * hors messageries grand public)
+   */
+  async findClientProfileByDomain(domain: string): Promise<{ client: Client; profile: ClientProfile } | null> {
+    const target = domain.toLowerCase().trim();
+    if (!target) return null;
+
+    const result = this.db.exec(`
+      SELECT p.*, c.email AS client_email, c.alternate_emails AS client_alternate_emails
+      FROM client_profiles p
+      JOIN clients c ON c.id = p.client_id
+    `);
+    if (result.length === 0) return null;
+
+    const matches = (candidate: string) => target === candidate || target.endsWith(`.${candidate}`);
+    const domainOf = (email: string) => email.split('@')[1]?.toLowerCase().trim() || '';
+
+    const rows = result[0].values.map((row: any) => {
+      const obj: any = {};
+      result[0].columns.forEach((col: string, i: number) => obj[col] = row[i]);
+      return { row, obj };
+    });
+
+    // Domaines déclarés explicitement d'abord, puis emails du client
+    const declared = rows.find(({ obj }) =>
+      (obj.sender_domains ? JSON.parse(obj.sender_domains) as string[] : [])
+        .some(d => matches(d.toLowerCase().trim()))
+    );
+    const byEmail = declared || rows.find(({ obj }) =>
+      [obj.client_email, ...(obj.client_alternate_emails ? JSON.parse(obj.client_alternate_emails) : [])]
+        .filter(Boolean)
+        .map((email: string) => domainOf(email))
+        .some((candidate: string) => candidate && !FREE_MAIL_DOMAINS.has(candidate) && matches(candidate))
+    );
+    if (!byEmail) return null;
+
+    const profile = this.mapRowToClientProfile(result[0].columns, byEmail.row);
+    const client = await this.getClientById(profile.clientId);
+    return client ? { client, profile } : null;
+  }
+
+  async getAllClientProfiles(): Promise<ClientProfile[]> {
+    const result = this.db.exec(`SELECT * FROM client_profiles ORDER BY tenant_id`);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToClientProfile(result[0].columns, row));
+  }
+
+  async upsertClientProfile(
+    clientId: string,
+    profile: Partial<Omit<ClientProfile, 'clientId' | 'createdAt' | 'updatedAt'>>,
+  ): Promise<ClientProfile | null> {
+    const client = await this.getClientById(clientId);
+    if (!client) return null;
+
+    const existing = await this.getClientProfile(clientId);
+    const now = new Date().toISOString();
+    const merged = {
+      tenantId: profile.tenantId || existing?.tenantId || client.code.toLowerCase(),
+      senderDomains: profile.senderDomains ?? existing?.senderDomains ?? [],
+      itemCodePattern: profile.itemCodePattern !== undefined ? profile.itemCodePattern : existing?.itemCodePattern,
+      glCodePattern: profile.glCodePattern !== undefined ? profile.glCodePattern : existing?.glCodePattern,
+      preferredLanguage: profile.preferredLanguage !== undefined ? profile.preferredLanguage : existing?.preferredLanguage,
+      defaultDeliveryLocation: profile.defaultDeliveryLocation !== undefined
+        ? profile.defaultDeliveryLocation
+        : existing?.defaultDeliveryLocation,
+      columnSynonyms: profile.columnSynonyms ?? existing?.columnSynonyms ?? {},
+      customFields: profile.customFields ?? existing?.customFields ?? [],
+    };
+
+    this.db.run(`
+      INSERT OR REPLACE INTO client_profiles
+        (client_id, tenant_id, sender_domains, item_code_pattern, gl_code_pattern, preferred_language,
+         default_delivery_location, column_synonyms, custom_fields, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      clientId,
+      merged.tenantId,
+      JSON.stringify(merged.senderDomains.map(d => d.toLowerCase().trim()).filter(Boolean)),
+      merged.itemCodePattern || null,
+      merged.glCodePattern || null,
+      merged.preferredLanguage || null,
+      merged.defaultDeliveryLocation || null,
+      JSON.stringify(merged.columnSynonyms),
+      JSON.stringify(merged.customFields),
+      existing?.createdAt.toISOString() || now,
+      now,
+    ]);
+
+    this.saveToFile();
+    return this.getClientProfile(clientId);
+  }
+
+  async deleteClientProfile(clientId: string): Promise<boolean> {
+    this.db.run(`DELETE FROM client_profiles WHERE client_id = ?`, [clientId]);
+    const deleted = this.db.getRowsModified() > 0;
+    this.saveToFile();
+    return deleted;
+  }
+
+  private mapRowToClientProfile(columns: string[], row: any[]): ClientProfile {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      clientId: obj.client_id,
+      tenantId: obj.tenant_id,
+      senderDomains: obj.sender_domains ? JSON.parse(obj.sender_domains) : [],
+      itemCodePattern: obj.item_code_pattern || undefined,
+      glCodePattern: obj.gl_code_pattern || undefined,
+      preferredLanguage: obj.preferred_language || undefined,
+      defaultDeliveryLocation: obj.default_delivery_location || undefined,
+      columnSynonyms: obj.column_synonyms ? JSON.parse(obj.column_synonyms) : {},
+      customFields: obj.custom_fields ? JSON.parse(obj.custom_fields) : [],
+      createdAt: new Date(obj.created_at),
+      updatedAt: new Date(obj.updated_at),
+    };
+  }
+
   // ============ RFQ MAPPINGS ============
 
   async createRfqMapping(mapping: Omit<RfqMapping, 'id' | 'processedAt'>): Promise<RfqMapping | null> {
@@ -634,14 +861,50 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
     return result[0].values.map((row: any) => this.mapRowToRfqMapping(result[0].columns, row));
   }
 
+  addRfqMappingStatusListener(listener: RfqMappingStatusListener): void {
+    this.rfqMappingStatusListeners.push(listener);
+  }
+
   async updateRfqMappingStatus(id: string, status: RfqMapping['status'], notes?: string): Promise<void> {
+    const previous = await this.getRfqMappingById(id);
     const updates = notes 
       ? `status = ?, notes = ?`
       : `status = ?`;
     const values = notes ? [status, notes, id] : [status, id];
     
     this.db.run(`UPDATE rfq_mappings SET ${updates} WHERE id = ?`, values);
+
+    if (previous) {
+      await this.addAuditEvent({
+        entityType: 'rfq_mapping',
+        entityId: id,
+        action: 'rfq_mapping.status_changed',
+        rfqNumber: previous.internalRfqNumber,
+        before: { status: previous.status, notes: previous.notes },
+        after: { status, notes: notes ?? previous.notes },
+      });
+    }
     this.saveToFile();
+
+    if (previous && previous.status !== status) {
+      for (const listener of this.rfqMappingStatusListeners) {
+        try {
+          await listener(previous.internalRfqNumber, previous.status, status);
+        } catch (error) {
+          this.logger.warn(`Notification de statut ${previous.internalRfqNumber}: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Demandes clients reçues sur une période (date de réception, sinon de traitement)
+   */
+  async countRfqMappingsReceived(from: Date, to: Date): Promise<number> {
+    const result = this.db.exec(`
+      SELECT COUNT(*) FROM rfq_mappings WHERE COALESCE(received_at, processed_at) >= ? AND COALESCE(received_at, processed_at) < ?
+    `, [from.toISOString(), to.toISOString()]);
+    return result.length > 0 ? result[0].values[0][0] : 0;
   }
 
   async getAllRfqMappings(limit = 100): Promise<RfqMapping[]> {
@@ -749,24 +1012,146 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
   async getProcessingLogs(limit = 100): Promise<ProcessingLog[]> {
     const result = this.db.exec(`SELECT * FROM processing_logs ORDER BY timestamp DESC LIMIT ?`, [limit]);
     if (result.length === 0) return [];
-    return result[0].values.map((row: any) => {
-      const obj: any = {};
-      result[0].columns.forEach((col: string, i: number) => obj[col] = row[i]);
-      return {
-        id: obj.id,
-        rfqMappingId: obj.rfq_mapping_id,
-        emailId: obj.email_id,
-        action: obj.action,
-        status: obj.status,
-        message: obj.message,
-        timestamp: new Date(obj.timestamp),
-      } as ProcessingLog;
-    });
+    return result[0].values.map((row: any) => this.mapRowToProcessingLog(result[0].columns, row));
+  }
+
+  async getProcessingLogsForEmail(emailId: string): Promise<ProcessingLog[]> {
+    const result = this.db.exec(`SELECT * FROM processing_logs WHERE email_id = ? ORDER BY timestamp ASC`, [emailId]);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToProcessingLog(result[0].columns, row));
+  }
+
+  private mapRowToProcessingLog(columns: string[], row: any[]): ProcessingLog {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      rfqMappingId: obj.rfq_mapping_id,
+      emailId: obj.email_id,
+      action: obj.action,
+      status: obj.status,
+      message: obj.message,
+      timestamp: new Date(obj.timestamp),
+    };
+  }
+
+  // ============ AUDIT ============
+
+  /**
+   * Enregistrer un événement d'audit.
+   * L'acteur et l'identifiant de corrélation sont repris du contexte de la requête s'ils ne sont pas fournis.
+   * Un échec d'écriture est journalisé sans interrompre l'opération auditée.
+   */
+  async addAuditEvent(event: AuditEventInput): Promise<AuditEvent | null> {
+    try {
+      const context = getRequestContext();
+      const record: AuditEvent = {
+        id: uuidv4(),
+        actor: event.actor || context?.actor || 'system',
+        entityType: event.entityType,
+        entityId: event.entityId,
+        action: event.action,
+        rfqNumber: event.rfqNumber,
+        changes: computeAuditChanges(event.before, event.after),
+        correlationId: event.correlationId || context?.correlationId,
+        createdAt: new Date(),
+      };
+
+      this.db.run(`
+        INSERT INTO audit_events (id, actor, entity_type, entity_id, action, rfq_number, changes_json, correlation_id, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        record.id,
+        record.actor,
+        record.entityType,
+        record.entityId || null,
+        record.action,
+        record.rfqNumber || null,
+        JSON.stringify(record.changes),
+        record.correlationId || null,
+        record.createdAt.toISOString(),
+      ]);
+      this.saveToFile();
+      return record;
+    } catch (error) {
+      this.logger.error(`Erreur enregistrement audit ${event.action}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Rechercher les événements d'audit (RFQ interne ou client, entité, acteur, période), les plus récents d'abord
+   */
+  async getAuditEvents(query: AuditEventQuery = {}): Promise<AuditEvent[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.rfqNumber) {
+      const mapping = await this.getRfqMappingByClientRfq(query.rfqNumber);
+      const rfqNumbers = [...new Set([query.rfqNumber, mapping?.internalRfqNumber].filter(Boolean))];
+      conditions.push(`rfq_number IN (${rfqNumbers.map(() => '?').join(', ')})`);
+      params.push(...rfqNumbers);
+    }
+    if (query.entityType) {
+      conditions.push('entity_type = ?');
+      params.push(query.entityType);
+    }
+    if (query.entityId) {
+      conditions.push('entity_id = ?');
+      params.push(query.entityId);
+    }
+    if (query.actor) {
+      conditions.push('actor = ?');
+      params.push(query.actor);
+    }
+    if (query.correlationId) {
+      conditions.push('correlation_id = ?');
+      params.push(query.correlationId);
+    }
+    if (query.from) {
+      conditions.push('created_at >= ?');
+      params.push(new Date(query.from).toISOString());
+    }
+    if (query.to) {
+      // Date seule (AAAA-MM-JJ): journée incluse
+      const to = /^\d{4}-\d{2}-\d{2}$/.test(query.to) ? `${query.to}T23:59:59.999Z` : query.to;
+      conditions.push('created_at <= ?');
+      params.push(new Date(to).toISOString());
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(query.limit || 200);
+
+    const result = this.db.exec(`SELECT * FROM audit_events ${where} ORDER BY created_at DESC LIMIT ?`, params);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToAuditEvent(result[0].columns, row));
+  }
+
+  private mapRowToAuditEvent(columns: string[], row: any[]): AuditEvent {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      actor: obj.actor,
+      entityType: obj.entity_type,
+      entityId: obj.entity_id || undefined,
+      action: obj.action,
+      rfqNumber: obj.rfq_number || undefined,
+      changes: obj.changes_json ? JSON.parse(obj.changes_json) : {},
+      correlationId: obj.correlation_id || undefined,
+      createdAt: new Date(obj.created_at),
+    };
   }
 
   // Vérifier si un email a déjà été traité (par UID IMAP)
-  async isEmailProcessed(emailId: string): Promise<boolean> {
-    const result = this.db.exec(`SELECT COUNT(*) as count FROM rfq_mappings WHERE email_id = ?`, [emailId]);
+  // Les UID IMAP ne sont uniques que dans une boîte: filtrer par boîte quand elle est connue
+  async isEmailProcessed(emailId: string, mailbox?: string): Promise<boolean> {
+    const result = mailbox
+      ? this.db.exec(
+        `SELECT COUNT(*) as count FROM rfq_mappings WHERE email_id = ? AND (mailbox = ? OR mailbox IS NULL)`,
+        [emailId, mailbox],
+      )
+      : this.db.exec(`SELECT COUNT(*) as count FROM rfq_mappings WHERE email_id = ?`, [emailId]);
     if (result.length === 0) return false;
     return result[0].values[0][0] > 0;
   }
@@ -844,6 +1229,44 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
     return this.mapRowToRfqMapping(result[0].columns, result[0].values[0]);
   }
 
+  // ============ IMAP (curseurs de synchronisation) ============
+
+  async getImapFolderState(mailbox: string, folder: string): Promise<ImapFolderState | null> {
+    const result = this.db.exec(`SELECT * FROM imap_folder_state WHERE mailbox = ? AND folder = ?`, [mailbox, folder]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.mapRowToImapFolderState(result[0].columns, result[0].values[0]);
+  }
+
+  async getImapFolderStates(): Promise<ImapFolderState[]> {
+    const result = this.db.exec(`SELECT * FROM imap_folder_state ORDER BY mailbox, folder`);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToImapFolderState(result[0].columns, row));
+  }
+
+  async saveImapFolderState(state: Omit<ImapFolderState, 'updatedAt'>): Promise<void> {
+    this.db.run(`
+      INSERT INTO imap_folder_state (mailbox, folder, uid_validity, last_uid, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(mailbox, folder) DO UPDATE SET
+        uid_validity = excluded.uid_validity,
+        last_uid = excluded.last_uid,
+        updated_at = excluded.updated_at
+    `, [state.mailbox, state.folder, state.uidValidity, state.lastUid, new Date().toISOString()]);
+    this.saveToFile();
+  }
+
+  private mapRowToImapFolderState(columns: string[], row: any[]): ImapFolderState {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      mailbox: obj.mailbox,
+      folder: obj.folder,
+      uidValidity: obj.uid_validity,
+      lastUid: obj.last_uid,
+      updatedAt: new Date(obj.updated_at),
+    };
+  }
+
   // ============ PENDING DRAFTS (Brouillons en attente) ============
 
   async createPendingDraft(draft: {
@@ -967,6 +1390,17 @@ export class DatabaseService implements OnModuleInit, OnModuleDestroy {
     };
   }
 
+  /**
+   * Dernier brouillon créé pour une RFQ interne
+   */
+  async getLatestDraftForRfq(internalRfqNumber: string): Promise<any | null> {
+    const result = this.db.exec(`
+      SELECT id FROM pending_drafts WHERE internal_rfq_number = ? ORDER BY created_at DESC LIMIT 1
+    `, [internalRfqNumber]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.getDraftById(result[0].values[0][0] as string);
+  }
+
   async updateDraft(id: string, updates: {
     status?: string;
     itemsJson?: string;
@@ -12,6 +12,21 @@ export interface Client {
   updatedAt: Date;
 }
 
+// Profil d'extraction d'un client (tenant)
+export interface ClientProfile {
+  clientId: string;
+  tenantId: string; // Identifiant stable (en-tête x-tenant-id, routage LLM)
+  senderDomains: string[]; // Domaines expéditeurs en plus de ceux des emails du client
+  itemCodePattern?: string; // Regex des codes articles, ex: "\\d{6}"
+  glCodePattern?: string;
+  preferredLanguage?: 'fr' | 'en';
+  defaultDeliveryLocation?: string;
+  columnSynonyms: Record<string, string[]>; // Type de colonne → libellés d'en-tête du client
+  customFields: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Correspondance RFQ Client -> Interne
 export interface RfqMapping {
   id: string;
@@ -60,3 +75,54 @@ export interface ProcessingLog {
   message: string;
   timestamp: Date;
 }
+
+// Journal d'audit: qui a changé quoi, et pourquoi un email est parti
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  actor: string;
+  entityType: string; // 'draft', 'rfq_mapping', 'email', 'supplier_reminder', ...
+  entityId?: string;
+  action: string; // 'draft.items_updated', 'email.sent', ...
+  rfqNumber?: string;
+  changes: Record<string, AuditChange>; // chemin du champ -> valeurs avant/après
+  correlationId?: string;
+  createdAt: Date;
+}
+
+export interface AuditEventInput {
+  entityType: string;
+  entityId?: string;
+  action: string;
+  rfqNumber?: string;
+  before?: unknown;
+  after?: unknown;
+  actor?: string; // par défaut: utilisateur de la requête en cours, sinon 'system'
+  correlationId?: string;
+}
+
+export interface AuditEventQuery {
+  rfqNumber?: string;
+  entityType?: string;
+  entityId?: string;
+  actor?: string;
+  correlationId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * Curseur de synchronisation IMAP par dossier: dernier UID traité, valable pour un UIDVALIDITY donné
+ */
+export interface ImapFolderState {
+  mailbox: string;
+  folder: string;
+  uidValidity: number;
+  lastUid: number;
+  updatedAt: Date;
+}
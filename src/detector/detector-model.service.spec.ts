@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as initSqlJs from 'sql.js';
+import { DetectorModelService } from './detector-model.service';
+import { DetectorService } from './detector.service';
+import { DatabaseService } from '../database/database.service';
+import { ParsedEmail } from '../common/interfaces';
+
+describe('DetectorModelService', () => {
+  let service: DetectorModelService;
+  let detector: DetectorService;
+  let config: Record<string, any>;
+  let databaseService: {
+    db: any;
+    saveToFile: jest.Mock;
+    addAuditEvent: jest.Mock;
+    getProcessingLogsForEmail: jest.Mock;
+    getDetectionKeywords: jest.Mock;
+  };
+
+  const email = (id: string, subject: string, body: string, attachments: string[] = []): ParsedEmail => ({
+    id,
+    from: 'contact@client.com',
+    to: ['procurement@multipartsci.com'],
+    subject,
+    body,
+    date: new Date('2026-10-01T08:00:00Z'),
+    attachments: attachments.map(filename => ({ filename, contentType: 'application/pdf', content: Buffer.from(''), size: 10 })),
+  });
+
+  // Demandes formulées sans les expressions reconnues par les règles ("tarif", "besoin urgent")
+  const corpus: [string, string, string, string[]][] = [
+    ['rfq', 'Tarif pompes hydrauliques', 'Bonjour, pouvez-vous nous indiquer votre tarif et délai pour 2 pompes hydrauliques', ['liste.xlsx']],
+    ['rfq', 'Besoin urgent roulements', 'Bonjour, besoin urgent de votre tarif pour 10 roulements SKF 6205', ['besoin.pdf']],
+    ['rfq', 'Tarif filtres', 'Merci d\'indiquer tarif et disponibilité des filtres à huile ci-joints', ['filtres.pdf']],
+    ['rfq', 'Besoin vannes', 'Bonjour, besoin urgent de vannes papillon DN100, votre meilleur tarif svp', ['vannes.xlsx']],
+    ['rfq', 'Tarif courroies', 'Pouvez-vous nous faire un tarif pour les courroies listées en pièce jointe', ['courroies.pdf']],
+    ['rfq', 'Besoin joints', 'Besoin urgent joints toriques, indiquez tarif et délai de livraison', ['joints.pdf']],
+    ['supplier_quote', 'Re: DDP-001 offre', 'Veuillez trouver ci-joint notre offre commerciale, validité 30 jours', ['offre.pdf']],
+    ['supplier_quote', 'Notre offre DDP-002', 'Suite à votre demande, ci-joint notre offre avec conditions de paiement', ['offre-2.pdf']],
+    ['supplier_quote', 'Offre commerciale', 'Ci-joint notre offre, prix unitaires et délai de livraison', ['proforma.pdf']],
+    ['supplier_quote', 'Proforma pompes', 'Veuillez trouver notre proforma, validité de l\'offre 15 jours', ['proforma-3.pdf']],
+    ['chaser', 'Relance', 'Bonjour, avez-vous des nouvelles de notre demande de la semaine dernière ?', []],
+    ['chaser', 'Relance demande', 'Nous attendons toujours votre retour, merci de nous tenir informés', []],
+    ['chaser', 'Des nouvelles ?', 'Avez-vous des nouvelles, nous attendons votre retour rapidement', []],
+    ['chaser', 'Rappel', 'Petit rappel: nous attendons toujours des nouvelles de votre part', []],
+    ['not_rfq', 'Newsletter octobre', 'Découvrez nos nouveautés et promotions du mois', []],
+    ['not_rfq', 'Facture 2026-118', 'Veuillez trouver la facture du mois de septembre pour règlement', ['facture.pdf']],
+    ['not_rfq', 'Invitation salon', 'Nous avons le plaisir de vous inviter à notre salon annuel', []],
+    ['not_rfq', 'Newsletter novembre', 'Nos promotions et nouveautés du mois de novembre', []],
+    ['not_rfq', 'Facture 2026-131', 'Facture de septembre à régler sous 30 jours', ['facture-131.pdf']],
+    ['not_rfq', 'Invitation webinaire', 'Vous êtes invité à notre webinaire sur la maintenance', []],
+  ];
+
+  const labelCorpus = async () => {
+    for (const [i, [label, subject, body, attachments]] of corpus.entries()) {
+      service.recordSample(email(`uid-${i}`, subject, body, attachments));
+      await service.addFeedback({ emailId: `uid-${i}`, label: label as any }, 'Admin');
+    }
+  };
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    config = { 'detector.minTrainingSamples': 10, 'detector.modelMode': 'shadow' };
+    databaseService = {
+      db: new SQL.Database(),
+      saveToFile: jest.fn(),
+      addAuditEvent: jest.fn().mockResolvedValue(undefined),
+      getProcessingLogsForEmail: jest.fn().mockResolvedValue([{ action: 'analyze', status: 'skipped' }]),
+      getDetectionKeywords: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DetectorModelService,
+        DetectorService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+          },
+        },
+        { provide: DatabaseService, useValue: databaseService },
+      ],
+    }).compile();
+
+    service = module.get<DetectorModelService>(DetectorModelService);
+    detector = module.get<DetectorService>(DetectorService);
+  });
+
+  it('should store labels next to the processing logs and require the email content', async () => {
+    await expect(service.addFeedback({ emailId: 'uid-404', label: 'rfq' })).rejects.toBeInstanceOf(NotFoundException);
+    await expect(service.addFeedback({ emailId: 'uid-1', label: 'po' as any, subject: 'x' })).rejects.toBeInstanceOf(BadRequestException);
+
+    service.recordSample(email('uid-1', 'Tarif pompes', 'Votre tarif svp'));
+    await service.addFeedback({ emailId: 'uid-1', label: 'not_rfq' }, 'Admin');
+    await service.addFeedback({ emailId: 'uid-1', label: 'rfq', note: 'Demande manquée' }, 'Admin');
+
+    const [record] = await service.listFeedback();
+    expect(record).toMatchObject({ emailId: 'uid-1', label: 'rfq', note: 'Demande manquée', subject: 'Tarif pompes', labeledBy: 'Admin' });
+    expect(record.processingLogs).toHaveLength(1);
+    expect(databaseService.getProcessingLogsForEmail).toHaveBeenCalledWith('uid-1');
+    expect(databaseService.addAuditEvent).toHaveBeenLastCalledWith(expect.objectContaining({
+      action: 'detector.feedback',
+      before: { label: 'not_rfq' },
+      after: { label: 'rfq', note: 'Demande manquée' },
+    }));
+  });
+
+  it('should audit removed labels', async () => {
+    service.recordSample(email('uid-1', 'Tarif pompes', 'Votre tarif svp'));
+    await service.addFeedback({ emailId: 'uid-1', label: 'rfq', note: 'Demande manquée' }, 'Admin');
+
+    expect(await service.removeFeedback('uid-1', 'Superviseur')).toBe(true);
+    expect(await service.removeFeedback('uid-1', 'Superviseur')).toBe(false);
+    expect(service.getFeedback('uid-1')).toBeUndefined();
+    expect(databaseService.addAuditEvent).toHaveBeenCalledTimes(2);
+    expect(databaseService.addAuditEvent).toHaveBeenLastCalledWith(expect.objectContaining({
+      actor: 'Superviseur',
+      entityId: 'uid-1',
+      action: 'detector.feedback_removed',
+      before: { label: 'rfq', note: 'Demande manquée' },
+    }));
+  });
+
+  it('should prune unlabeled emails after the retention period and keep labeled ones', async () => {
+    service.recordSample(email('uid-1', 'Tarif pompes', 'Votre tarif svp'));
+    service.recordSample(email('uid-2', 'Newsletter', 'Nos promotions'));
+    await service.addFeedback({ emailId: 'uid-1', label: 'rfq' }, 'Admin');
+
+    const days = (n: number) => new Date(Date.now() + n * 24 * 60 * 60 * 1000);
+    expect(service.pruneSamples(days(29))).toBe(0);
+    expect(service.pruneSamples(days(31))).toBe(1);
+    expect(service.getSample('uid-1')).toBeDefined();
+    expect(service.getSample('uid-2')).toBeUndefined();
+
+    config['detector.sampleRetentionDays'] = 0;
+    service.recordSample(email('uid-3', 'Facture', 'Facture de septembre'));
+    expect(service.pruneSamples(days(365))).toBe(0);
+    expect(service.getSample('uid-3')).toBeDefined();
+  });
+
+  it('should refuse to train without enough labeled emails', async () => {
+    service.recordSample(email('uid-1', 'Tarif', 'tarif'));
+    await service.addFeedback({ emailId: 'uid-1', label: 'rfq' });
+
+    expect(() => service.train()).toThrow(BadRequestException);
+  });
+
+  it('should train a candidate with cross-validated metrics and compare it to the rules before activation', async () => {
+    await labelCorpus();
+
+    const candidate = service.train('Admin');
+
+    expect(candidate).toMatchObject({ version: 1, status: 'candidate', sampleCount: 20, labelCounts: { rfq: 6, chaser: 4 } });
+    expect(candidate.metrics.folds).toBe(5);
+    expect(candidate.metrics.labels.rfq.recall).toBeGreaterThan(0.5);
+    expect(service.getActiveVersion()).toBeUndefined();
+
+    const evaluation = await detector.evaluate(1);
+    expect(evaluation.crossValidation).toEqual(candidate.metrics);
+    expect(evaluation.rules.labels.rfq.support).toBe(6);
+    expect(evaluation.rules.labels.rfq.recall).toBeLessThan(candidate.metrics.labels.rfq.recall);
+    expect(evaluation.newLabels).toBeUndefined();
+
+    await service.activate(1, 'Admin');
+    service.train('Admin');
+    await service.activate(2, 'Admin');
+
+    expect(service.listModels().map(m => [m.version, m.status])).toEqual([[2, 'active'], [1, 'retired']]);
+    await expect(service.activate(2)).rejects.toBeInstanceOf(BadRequestException);
+    await expect(detector.evaluate(9)).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('should only override the rules in assist mode with a confident prediction', async () => {
+    await labelCorpus();
+    service.train();
+    await service.activate(1);
+    const missed = email('uid-new', 'Besoin urgent tarif', 'Bonjour, besoin urgent de votre tarif pour 4 pompes', ['besoin.pdf']);
+
+    const shadow = await detector.analyzeEmail(missed);
+    expect(shadow.isPriceRequest).toBe(false);
+    expect(shadow.model).toMatchObject({ label: 'rfq', version: 1, applied: false });
+
+    config['detector.modelMode'] = 'assist';
+    const assisted = await detector.analyzeEmail(missed);
+    expect(assisted.isPriceRequest).toBe(true);
+    expect(assisted.model?.applied).toBe(true);
+    expect(assisted.reason).toContain('Modèle v1: rfq');
+
+    config['detector.modelMinProbability'] = 1.01;
+    expect((await detector.analyzeEmail(missed)).isPriceRequest).toBe(false);
+
+    await service.deactivate();
+    expect((await detector.analyzeEmail(missed)).model).toBeUndefined();
+  });
+});
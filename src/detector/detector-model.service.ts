@@ -0,0 +1,554 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import { ParsedEmail } from '../common/interfaces';
+import { ProcessingLog } from '../database/entities';
+import {
+  DETECTION_LABELS,
+  DetectionLabel,
+  EvaluationMetrics,
+  LabeledSample,
+  NaiveBayesModel,
+  Prediction,
+  computeMetrics,
+  crossValidate,
+  predict,
+  trainNaiveBayes,
+} from './naive-bayes-classifier';
+
+const MAX_STORED_BODY_CHARS = 20000;
+// Purge des emails non étiquetés au plus une fois par heure
+const SAMPLE_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Mode du modèle appris:
+ * - off: règles seules
+ * - shadow: prédiction calculée et journalisée, décision des règles inchangée
+ * - assist: le modèle actif l'emporte sur les règles quand il est confiant et en désaccord
+ */
+export type DetectorModelMode = 'off' | 'shadow' | 'assist';
+
+/**
+ * Email vu par le détecteur (copie conservée pour l'étiquetage et l'entraînement)
+ */
+export interface DetectionSample {
+  emailId: string;
+  messageId?: string;
+  mailbox?: string;
+  from: string;
+  subject: string;
+  body: string;
+  attachments: string[];
+  receivedAt: Date;
+  recordedAt: Date;
+}
+
+export interface DetectionFeedback {
+  emailId: string;
+  label: DetectionLabel;
+  note?: string;
+  labeledBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DetectionFeedbackRecord extends DetectionFeedback {
+  subject: string;
+  from: string;
+  processingLogs: ProcessingLog[];
+}
+
+export type DetectorModelStatus = 'candidate' | 'active' | 'retired';
+
+export interface DetectorModelRecord {
+  version: number;
+  status: DetectorModelStatus;
+  sampleCount: number;
+  labelCounts: Record<string, number>;
+  metrics: EvaluationMetrics; // validation croisée sur les emails étiquetés au moment de l'entraînement
+  trainedBy: string;
+  createdAt: Date;
+  activatedAt?: Date;
+}
+
+export interface ModelPrediction extends Prediction {
+  version: number;
+}
+
+/**
+ * DetectorModelService
+ *
+ * Apprentissage du détecteur à partir des retours humains:
+ * - detection_samples: emails vus par le détecteur (sujet, corps, pièces jointes), purgés
+ *   après detector.sampleRetentionDays tant qu'ils ne sont pas étiquetés
+ * - detection_labels: étiquette posée sur un email traité (même email_id que processing_logs)
+ * - detector_models: modèles entraînés (candidat → actif → retiré) avec leurs métriques
+ */
+@Injectable()
+export class DetectorModelService {
+  private readonly logger = new Logger(DetectorModelService.name);
+  private tablesReady = false;
+  private activeModel: { version: number; model: NaiveBayesModel } | null | undefined;
+  private lastPruneAt = 0;
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private get db(): any {
+    if (!this.tablesReady) {
+      this.ensureTables();
+    }
+    return (this.databaseService as any).db;
+  }
+
+  /**
+   * Crée les tables si nécessaire (idempotent)
+   */
+  ensureTables(): boolean {
+    if (this.tablesReady) return true;
+
+    const db = (this.databaseService as any).db;
+    if (!db) {
+      this.logger.warn('Database not initialized, skipping table creation');
+      return false;
+    }
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS detection_samples (
+        email_id TEXT PRIMARY KEY,
+        message_id TEXT,
+        mailbox TEXT,
+        sender TEXT,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        attachments_json TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        recorded_at TEXT NOT NULL
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS detection_labels (
+        email_id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        note TEXT,
+        labeled_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS detector_models (
+        version INTEGER PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'candidate',
+        model_json TEXT NOT NULL,
+        metrics_json TEXT NOT NULL,
+        sample_count INTEGER NOT NULL,
+        label_counts_json TEXT NOT NULL,
+        trained_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        activated_at TEXT
+      )
+    `);
+
+    this.databaseService.saveToFile();
+    this.tablesReady = true;
+    return true;
+  }
+
+  get mode(): DetectorModelMode {
+    return this.configService.get<DetectorModelMode>('detector.modelMode', 'shadow');
+  }
+
+  get minProbability(): number {
+    return this.configService.get<number>('detector.modelMinProbability', 0.8);
+  }
+
+  // ============ ÉCHANTILLONS ============
+
+  /**
+   * Conserver l'email tel que vu par le détecteur (le dernier passage remplace le précédent)
+   */
+  recordSample(email: ParsedEmail): void {
+    try {
+      this.db.run(`
+        INSERT OR REPLACE INTO detection_samples
+          (email_id, message_id, mailbox, sender, subject, body, attachments_json, received_at, recorded_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        email.id,
+        email.messageId || null,
+        email.mailbox || null,
+        email.from,
+        email.subject || '',
+        (email.body || '').substring(0, MAX_STORED_BODY_CHARS),
+        JSON.stringify(email.attachments.map(att => att.filename)),
+        (email.date || new Date()).toISOString(),
+        new Date().toISOString(),
+      ]);
+      if (Date.now() - this.lastPruneAt >= SAMPLE_PRUNE_INTERVAL_MS) this.pruneSamples();
+    } catch (error) {
+      this.logger.debug(`Erreur enregistrement échantillon ${email.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Supprimer les emails non étiquetés enregistrés depuis plus de detector.sampleRetentionDays
+   */
+  pruneSamples(now: Date = new Date()): number {
+    this.lastPruneAt = now.getTime();
+    const retentionDays = this.configService.get<number>('detector.sampleRetentionDays', 30);
+    if (!(retentionDays > 0)) return 0;
+
+    this.db.run(`
+      DELETE FROM detection_samples
+      WHERE recorded_at < ? AND email_id NOT IN (SELECT email_id FROM detection_labels)
+    `, [new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString()]);
+    const pruned = this.db.getRowsModified();
+    if (pruned > 0) {
+      this.databaseService.saveToFile();
+      this.logger.log(`${pruned} email(s) non étiqueté(s) de plus de ${retentionDays} jours supprimé(s) du détecteur`);
+    }
+    return pruned;
+  }
+
+  getSample(emailId: string): DetectionSample | undefined {
+    const result = this.db.exec(`SELECT * FROM detection_samples WHERE email_id = ?`, [emailId]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToSample(result[0].columns, result[0].values[0]);
+  }
+
+  // ============ RETOURS ============
+
+  /**
+   * Étiqueter un email traité. Sans copie enregistrée, le sujet et le corps doivent être fournis.
+   */
+  async addFeedback(input: {
+    emailId: string;
+    label: DetectionLabel;
+    note?: string;
+    subject?: string;
+    body?: string;
+    attachments?: string[];
+    from?: string;
+  }, actor?: string): Promise<DetectionFeedback> {
+    if (!DETECTION_LABELS.includes(input.label)) {
+      throw new BadRequestException(`Étiquette invalide: ${input.label} (${DETECTION_LABELS.join(', ')})`);
+    }
+
+    if (input.subject !== undefined || input.body !== undefined) {
+      this.recordSample({
+        id: input.emailId,
+        from: input.from || '',
+        to: [],
+        subject: input.subject || '',
+        body: input.body || '',
+        date: new Date(),
+        attachments: (input.attachments || []).map(filename => ({ filename, contentType: 'application/octet-stream', content: Buffer.from(''), size: 0 })),
+      });
+    } else if (!this.getSample(input.emailId)) {
+      throw new NotFoundException(`Email ${input.emailId} inconnu du détecteur: fournir subject et body`);
+    }
+
+    const previous = this.getFeedback(input.emailId);
+    const now = new Date().toISOString();
+    this.db.run(`
+      INSERT INTO detection_labels (email_id, label, note, labeled_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(email_id) DO UPDATE SET
+        label = excluded.label, note = excluded.note, labeled_by = excluded.labeled_by, updated_at = excluded.updated_at
+    `, [input.emailId, input.label, input.note || null, actor || 'system', now, now]);
+    this.databaseService.saveToFile();
+
+    await this.databaseService.addAuditEvent({
+      actor,
+      entityType: 'email',
+      entityId: input.emailId,
+      action: 'detector.feedback',
+      before: previous ? { label: previous.label } : undefined,
+      after: { label: input.label, note: input.note },
+    });
+
+    return this.getFeedback(input.emailId)!;
+  }
+
+  getFeedback(emailId: string): DetectionFeedback | undefined {
+    const result = this.db.exec(`SELECT * FROM detection_labels WHERE email_id = ?`, [emailId]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToFeedback(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * Emails étiquetés avec les journaux de traitement correspondants
+   */
+  async listFeedback(filters: { label?: DetectionLabel; limit?: number } = {}): Promise<DetectionFeedbackRecord[]> {
+    let query = `
+      SELECT l.*, s.subject AS sample_subject, s.sender AS sample_sender
+      FROM detection_labels l LEFT JOIN detection_samples s ON s.email_id = l.email_id
+    `;
+    const params: any[] = [];
+    if (filters.label) {
+      query += ` WHERE l.label = ?`;
+      params.push(filters.label);
+    }
+    query += ` ORDER BY l.updated_at DESC LIMIT ?`;
+    params.push(filters.limit || 100);
+
+    const result = this.db.exec(query, params);
+    if (result.length === 0) return [];
+
+    const records: DetectionFeedbackRecord[] = [];
+    for (const row of result[0].values) {
+      const feedback = this.mapRowToFeedback(result[0].columns, row);
+      const obj: any = {};
+      result[0].columns.forEach((col: string, i: number) => obj[col] = row[i]);
+      records.push({
+        ...feedback,
+        subject: obj.sample_subject || '',
+        from: obj.sample_sender || '',
+        processingLogs: await this.databaseService.getProcessingLogsForEmail(feedback.emailId),
+      });
+    }
+    return records;
+  }
+
+  async removeFeedback(emailId: string, actor?: string): Promise<boolean> {
+    const previous = this.getFeedback(emailId);
+    if (!previous) return false;
+    this.db.run(`DELETE FROM detection_labels WHERE email_id = ?`, [emailId]);
+    this.databaseService.saveToFile();
+
+    await this.databaseService.addAuditEvent({
+      actor,
+      entityType: 'email',
+      entityId: emailId,
+      action: 'detector.feedback_removed',
+      before: { label: previous.label, note: previous.note },
+    });
+    return true;
+  }
+
+  /**
+   * Emails étiquetés dont le contenu est connu (ordre stable pour la validation croisée)
+   */
+  getLabeledSamples(): (LabeledSample & { emailId: string; labeledAt: Date })[] {
+    const result = this.db.exec(`
+      SELECT l.email_id, l.label, s.subject, s.body, s.attachments_json, l.updated_at
+      FROM detection_labels l JOIN detection_samples s ON s.email_id = l.email_id
+      ORDER BY l.created_at ASC, l.email_id ASC
+    `);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => ({
+      emailId: row[0],
+      label: row[1],
+      subject: row[2],
+      body: row[3],
+      attachments: JSON.parse(row[4]),
+      labeledAt: new Date(row[5]),
+    }));
+  }
+
+  // ============ MODÈLES ============
+
+  /**
+   * Entraîner un modèle candidat sur tous les emails étiquetés, évalué par validation croisée
+   */
+  train(actor?: string): DetectorModelRecord {
+    const samples = this.getLabeledSamples();
+    const minSamples = this.configService.get<number>('detector.minTrainingSamples', 20);
+    if (samples.length < minSamples) {
+      throw new BadRequestException(`${samples.length} email(s) étiqueté(s), ${minSamples} requis pour entraîner un modèle`);
+    }
+
+    const labelCounts: Record<string, number> = {};
+    samples.forEach(sample => labelCounts[sample.label] = (labelCounts[sample.label] || 0) + 1);
+    if (!labelCounts.rfq || Object.keys(labelCounts).length < 2) {
+      throw new BadRequestException('Il faut des emails étiquetés "rfq" et au moins une autre étiquette');
+    }
+
+    const metrics = crossValidate(samples, this.configService.get<number>('detector.crossValidationFolds', 5));
+    const model = trainNaiveBayes(samples);
+
+    const versionResult = this.db.exec(`SELECT COALESCE(MAX(version), 0) + 1 FROM detector_models`);
+    const version = versionResult[0].values[0][0];
+    this.db.run(`
+      INSERT INTO detector_models (version, status, model_json, metrics_json, sample_count, label_counts_json, trained_by, created_at)
+      VALUES (?, 'candidate', ?, ?, ?, ?, ?, ?)
+    `, [version, JSON.stringify(model), JSON.stringify(metrics), samples.length, JSON.stringify(labelCounts), actor || 'system', new Date().toISOString()]);
+    this.databaseService.saveToFile();
+
+    this.logger.log(`🧠 Modèle de détection v${version} entraîné sur ${samples.length} email(s): précision RFQ ${metrics.labels.rfq.precision}, rappel ${metrics.labels.rfq.recall}`);
+    return this.getModel(version)!;
+  }
+
+  listModels(): DetectorModelRecord[] {
+    const result = this.db.exec(`
+      SELECT version, status, metrics_json, sample_count, label_counts_json, trained_by, created_at, activated_at
+      FROM detector_models ORDER BY version DESC
+    `);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToModel(result[0].columns, row));
+  }
+
+  getModel(version: number): DetectorModelRecord | undefined {
+    const result = this.db.exec(`
+      SELECT version, status, metrics_json, sample_count, label_counts_json, trained_by, created_at, activated_at
+      FROM detector_models WHERE version = ?
+    `, [version]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToModel(result[0].columns, result[0].values[0]);
+  }
+
+  getActiveVersion(): number | undefined {
+    return this.loadActiveModel()?.version;
+  }
+
+  /**
+   * Activer un modèle: le modèle actif précédent est retiré
+   */
+  async activate(version: number, actor?: string): Promise<DetectorModelRecord> {
+    const model = this.getModel(version);
+    if (!model) {
+      throw new NotFoundException(`Modèle v${version} introuvable`);
+    }
+    if (model.status === 'active') {
+      throw new BadRequestException(`Le modèle v${version} est déjà actif`);
+    }
+
+    const previous = this.getActiveVersion();
+    const now = new Date().toISOString();
+    this.db.run(`UPDATE detector_models SET status = 'retired' WHERE status = 'active'`);
+    this.db.run(`UPDATE detector_models SET status = 'active', activated_at = ? WHERE version = ?`, [now, version]);
+    this.databaseService.saveToFile();
+    this.activeModel = undefined;
+
+    await this.databaseService.addAuditEvent({
+      actor,
+      entityType: 'detector_model',
+      entityId: String(version),
+      action: 'detector.model_activated',
+      before: previous ? { version: previous } : undefined,
+      after: { version, metrics: model.metrics.labels },
+    });
+
+    this.logger.log(`🧠 Modèle de détection v${version} activé`);
+    return this.getModel(version)!;
+  }
+
+  /**
+   * Désactiver le modèle actif (retour aux règles seules)
+   */
+  async deactivate(actor?: string): Promise<boolean> {
+    const previous = this.getActiveVersion();
+    if (!previous) return false;
+
+    this.db.run(`UPDATE detector_models SET status = 'retired' WHERE status = 'active'`);
+    this.databaseService.saveToFile();
+    this.activeModel = undefined;
+
+    await this.databaseService.addAuditEvent({
+      actor,
+      entityType: 'detector_model',
+      entityId: String(previous),
+      action: 'detector.model_deactivated',
+      before: { version: previous },
+    });
+    return true;
+  }
+
+  /**
+   * Prédiction du modèle actif (undefined si aucun modèle actif ou mode off)
+   */
+  predict(email: Pick<ParsedEmail, 'subject' | 'body' | 'attachments'>): ModelPrediction | undefined {
+    if (this.mode === 'off') return undefined;
+    const active = this.loadActiveModel();
+    if (!active) return undefined;
+
+    return {
+      ...predict(active.model, {
+        subject: email.subject || '',
+        body: email.body || '',
+        attachments: email.attachments.map(att => att.filename),
+      }),
+      version: active.version,
+    };
+  }
+
+  /**
+   * Modèle évalué sur les emails étiquetés (ou corrigés) après son entraînement
+   */
+  evaluateOnNewLabels(version: number): EvaluationMetrics | undefined {
+    const model = this.getModel(version);
+    const result = this.db.exec(`SELECT model_json FROM detector_models WHERE version = ?`, [version]);
+    if (!model || result.length === 0 || result[0].values.length === 0) return undefined;
+
+    const weights: NaiveBayesModel = JSON.parse(result[0].values[0][0]);
+    const samples = this.getLabeledSamples().filter(sample => sample.labeledAt > model.createdAt);
+    if (samples.length === 0) return undefined;
+
+    return computeMetrics(samples.map(sample => ({ expected: sample.label, predicted: predict(weights, sample).label })));
+  }
+
+  private loadActiveModel():{ version: number; model: NaiveBayesModel } | null {
+    if (this.activeModel !== undefined) return this.activeModel;
+    try {
+      const result = this.db.exec(`SELECT version, model_json FROM detector_models WHERE status = 'active' LIMIT 1`);
+      this.activeModel = result.length > 0 && result[0].values.length > 0
+        ? { version: result[0].values[0][0], model: JSON.parse(result[0].values[0][1]) }
+        : null;
+    } catch (error) {
+      this.logger.error(`Erreur chargement modèle de détection: ${error.message}`);
+      this.activeModel = null;
+    }
+    return this.activeModel;
+  }
+
+  // ============ MAPPERS ============
+
+  private mapRowToSample(columns: string[], row: any[]): DetectionSample {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      emailId: obj.email_id,
+      messageId: obj.message_id || undefined,
+      mailbox: obj.mailbox || undefined,
+      from: obj.sender || '',
+      subject: obj.subject,
+      body: obj.body,
+      attachments: JSON.parse(obj.attachments_json),
+      receivedAt: new Date(obj.received_at),
+      recordedAt: new Date(obj.recorded_at),
+    };
+  }
+
+  private mapRowToFeedback(columns: string[], row: any[]): DetectionFeedback {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      emailId: obj.email_id,
+      label: obj.label,
+      note: obj.note || undefined,
+      labeledBy: obj.labeled_by,
+      createdAt: new Date(obj.created_at),
+      updatedAt: new Date(obj.updated_at),
+    };
+  }
+
+  private mapRowToModel(columns: string[], row: any[]): DetectorModelRecord {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      version: obj.version,
+      status: obj.status,
+      sampleCount: obj.sample_count,
+      labelCounts: JSON.parse(obj.label_counts_json),
+      metrics: JSON.parse(obj.metrics_json),
+      trainedBy: obj.trained_by,
+      createdAt: new Date(obj.created_at),
+      activatedAt: obj.activated_at ? new Date(obj.activated_at) : undefined,
+    };
+  }
+}
@@ -1,10 +1,17 @@
-import { Controller, Post, Body, Get } from '@nestjs/common';
+import { Controller, Post, Body, Get, Delete, Param, Query, BadRequestException } from '@nestjs/common';
 import { DetectorService } from './detector.service';
+import { DetectorModelService } from './detector-model.service';
+import { DETECTION_LABELS, DetectionLabel } from './naive-bayes-classifier';
 import { ParsedEmail } from '../common/interfaces';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import { AuthenticatedUser } from '../auth/auth.interfaces';
 
 @Controller('detector')
 export class DetectorController {
-  constructor(private readonly detectorService: DetectorService) {}
+  constructor(
+    private readonly detectorService: DetectorService,
+    private readonly modelService: DetectorModelService,
+  ) {}
 
   @Post('analyze')
   async analyzeEmail(@Body() body: { subject: string; body: string; attachments?: Array<{ filename: string }> }) {
@@ -35,4 +42,107 @@ export class DetectorController {
       keywordsCount: this.detectorService.getKeywordsCount() 
     };
   }
+
+  // ============ RETOURS ============
+
+  /**
+   * POST /detector/feedback
+   * Étiqueter un email traité: rfq, not_rfq, supplier_quote ou chaser
+   */
+  @Post('feedback')
+  async addFeedback(
+    @Body() body: {
+      emailId: string;
+      label: DetectionLabel;
+      note?: string;
+      subject?: string;
+      body?: string;
+      from?: string;
+      attachments?: string[];
+    },
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    if (!body?.emailId) {
+      throw new BadRequestException('emailId requis');
+    }
+    const feedback = await this.modelService.addFeedback(body, user?.name);
+    return { success: true, data: feedback };
+  }
+
+  /**
+   * GET /detector/feedback?label=&limit=
+   * Emails étiquetés avec leurs journaux de traitement
+   */
+  @Get('feedback')
+  async listFeedback(@Query('label') label?: string, @Query('limit') limit?: string) {
+    if (label && !DETECTION_LABELS.includes(label as DetectionLabel)) {
+      throw new BadRequestException(`Étiquette invalide: ${label} (${DETECTION_LABELS.join(', ')})`);
+    }
+    const feedback = await this.modelService.listFeedback({
+      label: label as DetectionLabel,
+      limit: limit ? parseInt(limit, 10) : 100,
+    });
+    return { success: true, count: feedback.length, data: feedback };
+  }
+
+  @Delete('feedback/:emailId')
+  async removeFeedback(@Param('emailId') emailId: string, @CurrentUser() user?: AuthenticatedUser) {
+    const success = await this.modelService.removeFeedback(emailId, user?.name);
+    return { success, message: success ? 'Étiquette supprimée' : 'Étiquette non trouvée' };
+  }
+
+  // ============ MODÈLES ============
+
+  /**
+   * GET /detector/models
+   * Modèles entraînés et mode d'utilisation
+   */
+  @Get('models')
+  listModels() {
+    return {
+      success: true,
+      mode: this.modelService.mode,
+      activeVersion: this.modelService.getActiveVersion(),
+      data: this.modelService.listModels(),
+    };
+  }
+
+  /**
+   * POST /detector/models/train
+   * Entraîner un modèle candidat sur les emails étiquetés (non activé)
+   */
+  @Roles('admin')
+  @Post('models/train')
+  trainModel(@CurrentUser() user?: AuthenticatedUser) {
+    return { success: true, data: this.modelService.train(user?.name) };
+  }
+
+  /**
+   * GET /detector/models/:version/evaluation
+   * Précision / rappel du modèle et des règles sur les emails étiquetés
+   */
+  @Get('models/:version/evaluation')
+  async evaluateModel(@Param('version') version: string) {
+    return { success: true, data: await this.detectorService.evaluate(parseInt(version, 10)) };
+  }
+
+  @Roles('admin')
+  @Post('models/:version/activate')
+  async activateModel(
+    @Param('version') version: string,
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    return { success: true, data: await this.modelService.activate(parseInt(version, 10), user?.name) };
+  }
+
+  /**
+   * POST /detector/models/deactivate
+   * Revenir aux règles seules
+   */
+  @Roles('admin')
+  @Post('models/deactivate')
+  async deactivateModel(@CurrentUser() user?: AuthenticatedUser) {
+    const success = await this.modelService.deactivate(user?.name);
+    return { success, message: success ? 'Modèle désactivé' : 'Aucun modèle actif' };
+  }
 }
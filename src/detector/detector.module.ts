@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { DetectorService } from './detector.service';
+import { DetectorModelService } from './detector-model.service';
 import { DetectorController } from './detector.controller';
 
 @Module({
-  providers: [DetectorService],
+  providers: [DetectorService, DetectorModelService],
   controllers: [DetectorController],
-  exports: [DetectorService],
+  exports: [DetectorService, DetectorModelService],
 })
 export class DetectorModule {}
@@ -1,7 +1,9 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, OnModuleInit, Optional } from '@nestjs/common';
 import { DatabaseService } from '../database/database.service';
 import { ParsedEmail } from '../common/interfaces';
 import { DetectionKeyword } from '../database/entities';
+import { DetectorModelRecord, DetectorModelService, ModelPrediction } from './detector-model.service';
+import { EvaluationMetrics, computeMetrics } from './naive-bayes-classifier';
 
 export interface DetectionResult {
   isPriceRequest: boolean;
@@ -10,6 +12,18 @@ export interface DetectionResult {
   hasRelevantAttachments: boolean;
   attachmentTypes: string[];
   reason: string;
+  model?: ModelPrediction & { applied: boolean }; // prédiction du modèle appris (appliquée en mode assist)
+}
+
+/**
+ * Évaluation d'un modèle sur les emails étiquetés, comparée aux règles
+ */
+export interface DetectorEvaluation {
+  model: DetectorModelRecord;
+  activeVersion?: number;
+  crossValidation: EvaluationMetrics; // modèle: validation croisée à l'entraînement
+  newLabels?: EvaluationMetrics;      // modèle: emails étiquetés après l'entraînement
+  rules: EvaluationMetrics;           // règles seules (rfq / autre) sur tous les emails étiquetés
 }
 
 @Injectable()
@@ -19,7 +33,10 @@ export class DetectorService implements OnModuleInit {
   private readonly CONFIDENCE_THRESHOLD = 40; // Seuil minimum pour considérer comme demande de prix
   private readonly SCORE_FOR_100_PERCENT = 30; // Score nécessaire pour atteindre 100% de confiance
 
-  constructor(private readonly databaseService: DatabaseService) {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    @Optional() private readonly modelService?: DetectorModelService,
+  ) {
     // Keywords loaded in onModuleInit after database is ready
   }
 
@@ -47,6 +64,46 @@ export class DetectorService implements OnModuleInit {
       await this.loadKeywords();
     }
 
+    const result = this.analyzeWithRules(email);
+    return this.applyModel(email, result);
+  }
+
+  /**
+   * Modèle appris à côté des règles: en mode assist, une prédiction confiante qui contredit les règles l'emporte
+   */
+  private applyModel(email: ParsedEmail, result: DetectionResult): DetectionResult {
+    let prediction: ModelPrediction | undefined;
+    try {
+      prediction = this.modelService?.predict(email);
+    } catch (error) {
+      this.logger.warn(`Erreur modèle de détection: ${error.message}`);
+    }
+    if (!prediction) return result;
+
+    const modelSaysRfq = prediction.label === 'rfq';
+    const disagrees = modelSaysRfq !== result.isPriceRequest;
+    const applied = disagrees
+      && this.modelService!.mode === 'assist'
+      && prediction.probability >= this.modelService!.minProbability;
+
+    if (disagrees) {
+      this.logger.debug(`Modèle v${prediction.version} en désaccord (${prediction.label}, ${Math.round(prediction.probability * 100)}%): ${email.subject}`);
+    }
+    if (!applied) {
+      return { ...result, model: { ...prediction, applied: false } };
+    }
+
+    const confidence = Math.round(prediction.probability * 100);
+    return {
+      ...result,
+      isPriceRequest: modelSaysRfq,
+      confidence,
+      reason: `Modèle v${prediction.version}: ${prediction.label} (confiance: ${confidence}%). Règles: ${result.reason}`,
+      model: { ...prediction, applied: true },
+    };
+  }
+
+  private analyzeWithRules(email: ParsedEmail): DetectionResult {
     const matchedKeywords: DetectionResult['matchedKeywords'] = [];
     let totalScore = 0;
 
@@ -209,6 +266,56 @@ export class DetectorService implements OnModuleInit {
       .map(item => item.email);
   }
 
+  /**
+   * Conserver l'email vu par le détecteur pour pouvoir l'étiqueter ensuite
+   */
+  recordSample(email: ParsedEmail): void {
+    this.modelService?.recordSample(email);
+  }
+
+  /**
+   * Évaluer un modèle (par défaut le dernier entraîné) avant activation:
+   * précision / rappel du modèle et des règles sur les emails étiquetés
+   */
+  async evaluate(version?: number): Promise<DetectorEvaluation> {
+    if (!this.modelService) {
+      throw new NotFoundException('Apprentissage du détecteur non disponible');
+    }
+    if (this.keywords.length === 0) {
+      await this.loadKeywords();
+    }
+
+    const model = version !== undefined ? this.modelService.getModel(version) : this.modelService.listModels()[0];
+    if (!model) {
+      throw new NotFoundException(version !== undefined ? `Modèle v${version} introuvable` : 'Aucun modèle entraîné');
+    }
+
+    const samples = this.modelService.getLabeledSamples();
+    const rules = computeMetrics(samples.map(sample => {
+      const detection = this.analyzeWithRules({
+        id: sample.emailId,
+        from: '',
+        to: [],
+        subject: sample.subject,
+        body: sample.body,
+        date: sample.labeledAt,
+        attachments: sample.attachments.map(filename => ({ filename, contentType: 'application/octet-stream', content: Buffer.from(''), size: 0 })),
+      });
+      return {
+        expected: sample.label === 'rfq' ? 'rfq' : 'other',
+        predicted: detection.isPriceRequest ? 'rfq' : 'other',
+      };
+    }), ['rfq', 'other']);
+
+    return {
+      model,
+      activeVersion: this.modelService.getActiveVersion(),
+      crossValidation: model.metrics,
+      newLabels: this.modelService.evaluateOnNewLabels(model.version),
+      rules,
+    };
+  }
+
   private getDefaultKeywords(): DetectionKeyword[] {
     return [
       { id: '1', keyword: 'demande de prix', weight: 10, language: 'fr', type: 'both' },
@@ -0,0 +1,229 @@
+/**
+ * Classifieur bayésien naïf (multinomial binarisé) pour la détection des demandes de prix.
+ *
+ * Caractéristiques: unigrammes et bigrammes du sujet (s:) et du corps (b:), extensions
+ * et mots des noms de pièces jointes (a:). Chaque caractéristique compte une fois par email.
+ * Le modèle est un objet JSON (stocké en base) et l'entraînement est déterministe.
+ */
+
+export type DetectionLabel = 'rfq' | 'not_rfq' | 'supplier_quote' | 'chaser';
+
+export const DETECTION_LABELS: DetectionLabel[] = ['rfq', 'not_rfq', 'supplier_quote', 'chaser'];
+
+export interface ClassifierSample {
+  subject: string;
+  body: string;
+  attachments: string[]; // noms de fichiers
+}
+
+export interface LabeledSample extends ClassifierSample {
+  label: DetectionLabel;
+}
+
+export interface NaiveBayesModel {
+  labels: DetectionLabel[];
+  logPriors: Record<string, number>;
+  logLikelihoods: Record<string, Record<string, number>>;
+  unknownLogLikelihoods: Record<string, number>; // caractéristique connue mais absente de la classe
+  vocabularySize: number;
+}
+
+export interface Prediction {
+  label: DetectionLabel;
+  probability: number;
+  probabilities: Record<string, number>;
+}
+
+export interface LabelMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface EvaluationMetrics {
+  samples: number;
+  folds: number;
+  accuracy: number;
+  labels: Record<string, LabelMetrics>;
+  confusion: Record<string, Record<string, number>>; // attendu → prédit → nombre
+}
+
+const MAX_BODY_CHARS = 5000;
+const MAX_VOCABULARY = 20000;
+
+// ============ CARACTÉRISTIQUES ============
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\d+/g, ' # ')
+    .split(/[^a-z#]+/)
+    .filter(token => token.length >= 2 || token === '#');
+}
+
+function ngrams(prefix: string, tokens: string[]): string[] {
+  const features = tokens.map(token => `${prefix}:${token}`);
+  for (let i = 0; i < tokens.length - 1; i++) {
+    features.push(`${prefix}:${tokens[i]}_${tokens[i + 1]}`);
+  }
+  return features;
+}
+
+/**
+ * Caractéristiques d'un email (ensemble, sans doublon)
+ */
+export function extractFeatures(sample: ClassifierSample): string[] {
+  const features = new Set<string>([
+    ...ngrams('s', tokenize(sample.subject || '')),
+    ...ngrams('b', tokenize((sample.body || '').substring(0, MAX_BODY_CHARS))),
+  ]);
+
+  if (sample.attachments.length === 0) {
+    features.add('a:none');
+  }
+  for (const filename of sample.attachments) {
+    const dot = filename.lastIndexOf('.');
+    if (dot >= 0) features.add(`a:${filename.substring(dot).toLowerCase()}`);
+    tokenize(dot >= 0 ? filename.substring(0, dot) : filename).forEach(token => features.add(`a:${token}`));
+  }
+  return [...features];
+}
+
+// ============ ENTRAÎNEMENT / PRÉDICTION ============
+
+/**
+ * Entraîner un modèle (lissage de Laplace). Le vocabulaire est limité aux caractéristiques les plus fréquentes.
+ */
+export function trainNaiveBayes(samples: LabeledSample[], labels: DetectionLabel[] = DETECTION_LABELS): NaiveBayesModel {
+  const documentFeatures = samples.map(sample => extractFeatures(sample));
+
+  const frequency = new Map<string, number>();
+  documentFeatures.forEach(features => features.forEach(f => frequency.set(f, (frequency.get(f) || 0) + 1)));
+  const vocabulary = new Set(
+    [...frequency.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_VOCABULARY)
+      .map(([feature]) => feature),
+  );
+
+  const model: NaiveBayesModel = {
+    labels,
+    logPriors: {},
+    logLikelihoods: {},
+    unknownLogLikelihoods: {},
+    vocabularySize: vocabulary.size,
+  };
+
+  for (const label of labels) {
+    const counts = new Map<string, number>();
+    let total = 0;
+    let documents = 0;
+    samples.forEach((sample, i) => {
+      if (sample.label !== label) return;
+      documents++;
+      for (const feature of documentFeatures[i]) {
+        if (!vocabulary.has(feature)) continue;
+        counts.set(feature, (counts.get(feature) || 0) + 1);
+        total++;
+      }
+    });
+
+    const denominator = total + vocabulary.size + 1;
+    model.logPriors[label] = Math.log((documents + 1) / (samples.length + labels.length));
+    model.unknownLogLikelihoods[label] = Math.log(1 / denominator);
+    model.logLikelihoods[label] = {};
+    counts.forEach((count, feature) => {
+      model.logLikelihoods[label][feature] = Math.log((count + 1) / denominator);
+    });
+  }
+
+  return model;
+}
+
+export function predict(model: NaiveBayesModel, sample: ClassifierSample): Prediction {
+  const features = extractFeatures(sample);
+  const known = features.filter(f => model.labels.some(label => f in model.logLikelihoods[label]));
+
+  const scores = model.labels.map(label =>
+    known.reduce(
+      (score, feature) => score + (model.logLikelihoods[label][feature] ?? model.unknownLogLikelihoods[label]),
+      model.logPriors[label],
+    ),
+  );
+
+  // Softmax stable
+  const max = Math.max(...scores);
+  const exps = scores.map(score => Math.exp(score - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  const probabilities: Record<string, number> = {};
+  model.labels.forEach((label, i) => probabilities[label] = exps[i] / sum);
+
+  const best = model.labels.reduce((a, b) => (probabilities[b] > probabilities[a] ? b : a));
+  return { label: best, probability: probabilities[best], probabilities };
+}
+
+// ============ ÉVALUATION ============
+
+/**
+ * Précision / rappel par étiquette à partir de paires (attendu, prédit)
+ */
+export function computeMetrics(
+  pairs: { expected: string; predicted: string }[],
+  labels: string[] = DETECTION_LABELS,
+  folds = 1,
+): EvaluationMetrics {
+  const confusion: Record<string, Record<string, number>> = {};
+  labels.forEach(expected => {
+    confusion[expected] = {};
+    labels.forEach(predicted => confusion[expected][predicted] = 0);
+  });
+  pairs.forEach(({ expected, predicted }) => confusion[expected][predicted]++);
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const metrics: Record<string, LabelMetrics> = {};
+  for (const label of labels) {
+    const truePositives = confusion[label][label];
+    const predictedCount = labels.reduce((sum, expected) => sum + confusion[expected][label], 0);
+    const support = labels.reduce((sum, predicted) => sum + confusion[label][predicted], 0);
+    const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    metrics[label] = {
+      precision: round(precision),
+      recall: round(recall),
+      f1: round(precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0),
+      support,
+    };
+  }
+
+  const correct = pairs.filter(p => p.expected === p.predicted).length;
+  return {
+    samples: pairs.length,
+    folds,
+    accuracy: pairs.length > 0 ? round(correct / pairs.length) : 0,
+    labels: metrics,
+    confusion,
+  };
+}
+
+/**
+ * Validation croisée en k blocs: chaque email est prédit par un modèle entraîné sans lui
+ */
+export function crossValidate(samples: LabeledSample[], folds = 5): EvaluationMetrics {
+  const k = Math.max(2, Math.min(folds, samples.length));
+  const pairs: { expected: string; predicted: string }[] = [];
+
+  for (let fold = 0; fold < k; fold++) {
+    const training = samples.filter((_, i) => i % k !== fold);
+    const model = trainNaiveBayes(training);
+    samples.forEach((sample, i) => {
+      if (i % k === fold) {
+        pairs.push({ expected: sample.label, predicted: predict(model, sample).label });
+      }
+    });
+  }
+
+  return computeMetrics(pairs, DETECTION_LABELS, k);
+}
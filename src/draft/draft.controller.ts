@@ -1,11 +1,26 @@
 import { Controller, Post, Get, Body, Query } from '@nestjs/common';
 import { DraftService, PriceRequestDraftOptions } from './draft.service';
-import { RfqLanguage, getRfqInstructions, RFQ_INSTRUCTIONS_FR, RFQ_INSTRUCTIONS_EN } from '../common/rfq-instructions';
-import { COMPANY_INFO, getCompanyHeader, getAddressBlock } from '../common/company-info';
+import { RfqLanguage, RFQ_INSTRUCTIONS_FR, RFQ_INSTRUCTIONS_EN } from '../common/rfq-instructions';
+import { COMPANY_INFO, getAddressBlock } from '../common/company-info';
+import { EmailTemplateService } from '../templates/email-template.service';
 
 @Controller('drafts')
 export class DraftController {
-  constructor(private readonly draftService: DraftService) {}
+  constructor(
+    private readonly draftService: DraftService,
+    private readonly templateService: EmailTemplateService,
+  ) {}
+
+  /**
+   * Partiels company_header et rfq_instructions tels qu'ils sont envoyés aux fournisseurs
+   */
+  private renderHeader(): string {
+    return this.templateService.render('company_header').html;
+  }
+
+  private renderInstructions(language: RfqLanguage): string {
+    return this.templateService.render('rfq_instructions', {}, language).html;
+  }
 
   /**
    * GET /drafts
@@ -32,7 +47,7 @@ export class DraftController {
     return {
       success: true,
       language: language || 'both',
-      html: getRfqInstructions(language || 'both'),
+      html: this.renderInstructions(language || 'both'),
       availableLanguages: ['fr', 'en', 'both'],
     };
   }
@@ -44,8 +59,8 @@ export class DraftController {
   @Get('rfq-instructions/preview')
   previewRfqInstructions(@Query('language') language?: RfqLanguage) {
     const lang = language || 'both';
-    const header = getCompanyHeader();
-    const instructions = getRfqInstructions(lang);
+    const header = this.renderHeader();
+    const instructions = this.renderInstructions(lang);
     const address = getAddressBlock();
 
     return `<!DOCTYPE html>
@@ -77,7 +92,7 @@ export class DraftController {
       success: true,
       data: COMPANY_INFO,
       templates: {
-        header: getCompanyHeader(),
+        header: this.renderHeader(),
         addressBlock: getAddressBlock(),
       },
     };
@@ -129,9 +144,9 @@ export class DraftController {
 <html>
 <head><meta charset="UTF-8"></head>
 <body>
-${getCompanyHeader()}
+${this.renderHeader()}
 <p>Ceci est un email de test pour prévisualiser les instructions RFQ.</p>
-${getRfqInstructions(language)}
+${this.renderInstructions(language)}
 ${getAddressBlock()}
 </body>
 </html>
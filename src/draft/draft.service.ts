@@ -2,12 +2,18 @@ import { Injectable, Logger, Inject, forwardRef, Optional } from '@nestjs/common
 import { ConfigService } from '@nestjs/config';
 import * as imapSimple from 'imap-simple';
 import * as nodemailer from 'nodemailer';
-import { GeneratedPriceRequest } from '../common/interfaces';
-import { COMPANY_INFO, getCompanyHeader, getAddressBlock } from '../common/company-info';
-import { RfqLanguage, getRfqInstructions, detectLanguageFromEmail, detectLanguageFromText } from '../common/rfq-instructions';
+import { GeneratedPriceRequest, PriceRequest } from '../common/interfaces';
+import { COMPANY_INFO } from '../common/company-info';
+import { RfqLanguage, detectLanguageFromEmail, detectLanguageFromText } from '../common/rfq-instructions';
 import { BrandIntelligenceService } from '../brand-intelligence/brand-intelligence.service';
 import { BrandAnalysisResult, SupplierSuggestion } from '../brand-intelligence/brand.interface';
 import { SupplierDirectoryService } from '../supplier-collector/services/supplier-directory.service';
+import { generateDispatchToken, buildDispatchMessageId } from '../common/dispatch-token';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { MailboxAccount } from '../mailbox/mailbox.interfaces';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { formatDate, formatDateTime, responseDeadlineVariables, toTemplateItems } from '../templates/template-variables';
+import { createMailTransport, isLocalMailSink, writeToLocalMailSink } from '../mail/local-mail-sink';
 
 interface DraftEmailOptions {
   to: string;
@@ -16,6 +22,7 @@ interface DraftEmailOptions {
   subject: string;
   body: string;
   htmlBody?: string;
+  messageId?: string;
   attachments?: Array<{
     filename: string;
     content: Buffer;
@@ -30,6 +37,8 @@ export interface PriceRequestDraftOptions {
   language?: RfqLanguage;         // 'fr' | 'en' | 'both'
   autoDetectLanguage?: boolean;   // Détection auto basée sur l'email/contenu
   autoAddSuppliers?: boolean;     // Ajouter automatiquement les fournisseurs suggérés en BCC
+  dispatchMode?: 'bcc' | 'per_supplier';  // Un brouillon unique en BCC, ou un email par fournisseur (défaut: drafts.dispatchMode)
+  delivery?: 'draft' | 'send';    // Mode per_supplier: brouillons ou envoi direct (défaut: drafts.dispatchDelivery)
   additionalAttachments?: Array<{ 
     filename: string; 
     content: Buffer; 
@@ -43,37 +52,77 @@ export interface DraftResult {
   error?: string;
   brandAnalysis?: BrandAnalysisResult;
   bccSuppliers?: string[];
+  dispatches?: SupplierDispatch[];
+}
+
+/**
+ * Envoi individuel d'une demande de prix à un fournisseur
+ */
+export interface SupplierDispatch {
+  supplierEmail: string;
+  token: string;                  // Jeton de suivi ajouté au sujet (RFQT-XXXXXXXX)
+  messageId: string;
+  subject: string;
+  delivery: 'draft' | 'send';
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Enregistre les fournisseurs consultés au moment de l'envoi
+ * (implémenté par le cycle de vie RFQ)
+ */
+export interface SupplierDispatchRecorder {
+  recordSupplierDispatches(priceRequest: PriceRequest, dispatches: SupplierDispatch[]): void;
 }
 
 @Injectable()
 export class DraftService {
   private readonly logger = new Logger(DraftService.name);
+  private dispatchRecorder?: SupplierDispatchRecorder;
 
   constructor(
     private configService: ConfigService,
     @Inject(forwardRef(() => BrandIntelligenceService))
     private brandIntelligence: BrandIntelligenceService,
+    private mailboxRegistry: MailboxRegistryService,
+    private templateService: EmailTemplateService,
     @Optional()
     private supplierDirectory?: SupplierDirectoryService,
   ) {}
 
+  /**
+   * Brancher l'enregistrement des envois individuels (cycle de vie RFQ)
+   */
+  setDispatchRecorder(recorder: SupplierDispatchRecorder): void {
+    this.dispatchRecorder = recorder;
+  }
+
+  /**
+   * Boîte d'envoi des demandes fournisseurs (rôle procurement_sending);
+   * undefined = configuration IMAP/SMTP de l'environnement
+   */
+  private get sendingAccount(): MailboxAccount | undefined {
+    return this.mailboxRegistry.getPrimaryAccount('procurement_sending');
+  }
+
   private getImapConfig(): imapSimple.ImapSimpleOptions {
-    return {
-      imap: {
-        host: this.configService.get<string>('imap.host'),
-        port: this.configService.get<number>('imap.port'),
-        user: this.configService.get<string>('imap.user'),
-        password: this.configService.get<string>('imap.password'),
-        tls: this.configService.get<boolean>('imap.tls'),
-        authTimeout: this.configService.get<number>('imap.authTimeout'),
-        tlsOptions: this.configService.get('imap.tlsOptions'),
-      },
-    };
+    return { imap: this.mailboxRegistry.getImapConfig(this.sendingAccount) };
+  }
+
+  private getFromEmail(): string {
+    return this.mailboxRegistry.getSenderAddress(this.sendingAccount) || COMPANY_INFO.contact.primaryEmail;
+  }
+
+  /**
+   * Dossier Brouillons de la boîte d'envoi
+   */
+  getDraftsFolder(): string {
+    return this.mailboxRegistry.getFolder(this.sendingAccount, 'drafts');
   }
 
   async saveToDrafts(options: DraftEmailOptions): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    const draftsFolder = this.configService.get<string>('drafts.folder') || 'Drafts';
-    return this.saveToFolder(options, draftsFolder, ['\\Draft', '\\Seen']);
+    return this.saveToFolder(options, this.getDraftsFolder(), ['\\Draft', '\\Seen']);
   }
 
   /**
@@ -87,6 +136,11 @@ export class DraftService {
     folder: string,
     flags: string[] = ['\\Seen'],
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    if (isLocalMailSink(this.configService)) {
+      writeToLocalMailSink(this.configService, folder, await this.createMimeMessage(options));
+      return { success: true, messageId: options.messageId };
+    }
+
     const connection = await imapSimple.connect(this.getImapConfig());
 
     try {
@@ -122,7 +176,7 @@ export class DraftService {
       });
 
       this.logger.log(`📝 Email sauvegardé dans ${folder}: ${options.subject}`);
-      return { success: true };
+      return { success: true, messageId: options.messageId };
     } catch (error) {
       this.logger.error(`Erreur sauvegarde dans ${folder}: ${error.message}`);
       return { success: false, error: error.message };
@@ -154,7 +208,7 @@ export class DraftService {
     const notificationFolder = 'Notifications RFQ';
 
     // Générer le corps de la notification
-    const { htmlBody, textBody } = this.generateNotificationContent(options);
+    const { subject, html, text } = this.renderNotification(options);
 
     // Inclure l'email original et ses pièces jointes
     const attachments: Array<{ filename: string; content: Buffer; contentType?: string }> = [];
@@ -169,9 +223,9 @@ export class DraftService {
     return this.saveToFolder(
       {
         to: 'rafiou.oyeossi@multipartsci.com',
-        subject: `[NOTIFICATION RFQ] ${options.originalEmail.subject}`,
-        body: textBody,
-        htmlBody,
+        subject,
+        body: text,
+        htmlBody: html,
         attachments,
       },
       notificationFolder,
@@ -180,9 +234,9 @@ export class DraftService {
   }
 
   /**
-   * Générer le contenu de la notification RFQ
+   * Générer le contenu de la notification RFQ (modèle rfq_notification)
    */
-  private generateNotificationContent(options: {
+  private renderNotification(options: {
     originalEmail: {
       from: string;
       subject: string;
@@ -196,93 +250,20 @@ export class DraftService {
       replyToEmail?: string;
       urgent?: boolean;
     };
-  }): { htmlBody: string; textBody: string } {
+  }) {
     const { originalEmail, clientName, clientEmail, clientRequirements } = options;
     const hasRequirements = clientRequirements && (clientRequirements.responseDeadline || clientRequirements.replyToEmail);
 
-    const htmlBody = `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <style>
-    body { font-family: Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #333; }
-    .alert { color: #c0392b; font-weight: bold; }
-    .info-box { background: #f8f9fa; border-left: 4px solid #3498db; padding: 15px; margin: 15px 0; }
-    .requirements-box { background: #fef9e7; border-left: 4px solid #e74c3c; padding: 15px; margin: 15px 0; }
-    .original-email { background: #ecf0f1; padding: 15px; margin: 20px 0; border-radius: 5px; }
-  </style>
-</head>
-<body>
-
-<h2>📬 Nouvelle demande reçue sur procurement@</h2>
-
-<p>Une nouvelle demande de prix a été reçue <strong>uniquement</strong> sur l'adresse procurement@multipartsci.com.</p>
-
-<div class="info-box">
-  <h3>📋 Informations Client</h3>
-  <table>
-    <tr><td><strong>De:</strong></td><td>${originalEmail.from}</td></tr>
-    <tr><td><strong>Client:</strong></td><td>${clientName || 'Non identifié'}</td></tr>
-    <tr><td><strong>Email:</strong></td><td>${clientEmail}</td></tr>
-    <tr><td><strong>Date:</strong></td><td>${originalEmail.date.toLocaleDateString('fr-FR')} ${originalEmail.date.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}</td></tr>
-    <tr><td><strong>Sujet:</strong></td><td>${originalEmail.subject}</td></tr>
-  </table>
-</div>
-
-${hasRequirements ? `
-<div class="requirements-box">
-  <h3 class="alert">⚠️ EXIGENCES CLIENT</h3>
-  <table>
-    ${clientRequirements?.responseDeadline ? `<tr><td><strong class="alert">Délai de réponse exigé:</strong></td><td class="alert">${clientRequirements.responseDeadline}</td></tr>` : ''}
-    ${clientRequirements?.replyToEmail ? `<tr><td><strong class="alert">Adresse de réponse:</strong></td><td class="alert">${clientRequirements.replyToEmail}</td></tr>` : ''}
-    ${clientRequirements?.urgent ? `<tr><td colspan="2" class="alert">⚡ DEMANDE URGENTE</td></tr>` : ''}
-  </table>
-</div>
-` : ''}
-
-<div class="original-email">
-  <h3>📧 Message original</h3>
-  <pre style="white-space: pre-wrap; font-family: inherit;">${originalEmail.body.substring(0, 2000)}${originalEmail.body.length > 2000 ? '\n\n[...tronqué...]' : ''}</pre>
-</div>
-
-<p style="font-size: 12px; color: #666; margin-top: 30px;">
-  Les pièces jointes originales sont incluses avec cette notification.<br>
-  <em>Notification générée automatiquement par le système RFQ.</em>
-</p>
-
-</body>
-</html>`;
-
-    const textBody = `NOTIFICATION RFQ - Nouvelle demande sur procurement@
-========================================================
-
-Une nouvelle demande de prix a été reçue UNIQUEMENT sur procurement@multipartsci.com.
-
-INFORMATIONS CLIENT
--------------------
-De: ${originalEmail.from}
-Client: ${clientName || 'Non identifié'}
-Email: ${clientEmail}
-Date: ${originalEmail.date.toLocaleDateString('fr-FR')} ${originalEmail.date.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
-Sujet: ${originalEmail.subject}
-
-${hasRequirements ? `
-⚠️ EXIGENCES CLIENT ⚠️
-----------------------
-${clientRequirements?.responseDeadline ? `Délai de réponse exigé: ${clientRequirements.responseDeadline}` : ''}
-${clientRequirements?.replyToEmail ? `Adresse de réponse: ${clientRequirements.replyToEmail}` : ''}
-${clientRequirements?.urgent ? `⚡ DEMANDE URGENTE` : ''}
-` : ''}
-
-MESSAGE ORIGINAL
-----------------
-${originalEmail.body.substring(0, 2000)}${originalEmail.body.length > 2000 ? '\n\n[...tronqué...]' : ''}
-
----
-Les pièces jointes originales sont incluses avec cette notification.
-Notification générée automatiquement par le système RFQ.`;
-
-    return { htmlBody, textBody };
+    return this.templateService.render('rfq_notification', {
+      from: originalEmail.from,
+      clientName,
+      clientEmail,
+      receivedAt: formatDateTime(originalEmail.date),
+      subject: originalEmail.subject,
+      requirements: hasRequirements ? clientRequirements : undefined,
+      originalBody: originalEmail.body.substring(0, 2000),
+      truncated: originalEmail.body.length > 2000,
+    });
   }
 
   private async createMimeMessage(options: DraftEmailOptions): Promise<string> {
@@ -291,7 +272,7 @@ Notification générée automatiquement par le système RFQ.`;
       newline: 'windows',
     });
 
-    const fromEmail = this.configService.get<string>('smtp.user') || COMPANY_INFO.contact.primaryEmail;
+    const fromEmail = this.getFromEmail();
     const fromName = this.configService.get<string>('smtp.fromName') || `${COMPANY_INFO.contact.name} - ${COMPANY_INFO.name}`;
 
     const mailOptions: nodemailer.SendMailOptions = {
@@ -300,6 +281,7 @@ Notification générée automatiquement par le système RFQ.`;
       cc: options.cc?.join(', '),
       bcc: options.bcc?.join(', '),
       subject: options.subject,
+      messageId: options.messageId,
       text: options.body,
       html: options.htmlBody || this.textToHtml(options.body),
       attachments: options.attachments?.map(att => ({
@@ -353,7 +335,6 @@ Notification générée automatiquement par le système RFQ.`;
     const { priceRequest, excelBuffer } = generated;
 
     const to = options.recipientEmail || COMPANY_INFO.contact.primaryEmail;
-    const subject = `Demande de Prix N° ${priceRequest.requestNumber}${priceRequest.clientRfqNumber ? ` - Réf. Client: ${priceRequest.clientRfqNumber}` : ''}`;
 
     // ═══════════════════════════════════════════════════════════════════════
     // ANALYSE DES MARQUES ET SUGGESTIONS FOURNISSEURS
@@ -416,10 +397,13 @@ Notification générée automatiquement par le système RFQ.`;
     const language: RfqLanguage = 'both'; // Toujours bilingue
 
     // ═══════════════════════════════════════════════════════════════════════
-    // GÉNÉRER LE CONTENU
+    // GÉNÉRER LE CONTENU (modèle supplier_rfq)
     // ═══════════════════════════════════════════════════════════════════════
-    const htmlBody = this.generateHtmlEmailBody(priceRequest, language, brandAnalysis);
-    const textBody = this.generateTextEmailBody(priceRequest, language);
+    const { subject, html: htmlBody, text: textBody } = this.templateService.render(
+      'supplier_rfq',
+      this.buildSupplierRfqVariables(priceRequest, brandAnalysis),
+      language,
+    );
 
     // Préparer les pièces jointes
     const allAttachments: Array<{ filename: string; content: Buffer; contentType?: string }> = [
@@ -441,6 +425,38 @@ Notification générée automatiquement par le système RFQ.`;
       this.logger.log(`${options.additionalAttachments.length} pièce(s) jointe(s) supplémentaire(s) incluse(s)`);
     }
 
+    // ═══════════════════════════════════════════════════════════════════════
+    // ENVOI INDIVIDUEL PAR FOURNISSEUR (jeton de suivi + Message-ID)
+    // ═══════════════════════════════════════════════════════════════════════
+    const dispatchMode = options.dispatchMode || this.configService.get<string>('drafts.dispatchMode') || 'bcc';
+    if (dispatchMode === 'per_supplier' && bccSuppliers.length > 0) {
+      const delivery = options.delivery || (this.configService.get<string>('drafts.dispatchDelivery') === 'send' ? 'send' : 'draft');
+      const dispatches = await this.dispatchToSuppliers(bccSuppliers, {
+        cc: options.cc,
+        subject,
+        body: textBody,
+        htmlBody,
+        attachments: allAttachments,
+      }, delivery);
+
+      const succeeded = dispatches.filter(d => d.success);
+      if (succeeded.length > 0 && this.dispatchRecorder) {
+        try {
+          this.dispatchRecorder.recordSupplierDispatches(priceRequest, succeeded);
+        } catch (error) {
+          this.logger.warn(`Erreur enregistrement des fournisseurs consultés: ${error.message}`);
+        }
+      }
+
+      const failed = dispatches.filter(d => !d.success);
+      return {
+        success: succeeded.length > 0,
+        error: failed.length > 0 ? `${failed.length} envoi(s) en échec: ${failed.map(d => d.supplierEmail).join(', ')}` : undefined,
+        brandAnalysis,
+        dispatches,
+      };
+    }
+
     // ═══════════════════════════════════════════════════════════════════════
     // SAUVEGARDER LE BROUILLON
     // ═══════════════════════════════════════════════════════════════════════
@@ -462,277 +478,108 @@ Notification générée automatiquement par le système RFQ.`;
   }
 
   /**
-   * Générer le corps HTML de l'email avec en-tête société et instructions RFQ
+   * Un email par fournisseur: jeton de suivi dans le sujet et Message-ID
+   * connu d'avance, pour rattacher les réponses sans heuristique de sujet
    */
-  private generateHtmlEmailBody(priceRequest: any, language: RfqLanguage, brandAnalysis?: BrandAnalysisResult): string {
-    const responseHours = priceRequest.responseDeadlineHours || 24;
-    const deadlineDate = new Date();
-    deadlineDate.setHours(deadlineDate.getHours() + responseHours);
-
-    const c = COMPANY_INFO.contact;
-    const addr = COMPANY_INFO.address;
-
-    // Toujours bilingue maintenant
-    const greeting = 'Bonjour / Dear Sir or Madam,';
-    const intro = 'Veuillez trouver ci-joint une nouvelle demande de prix. / Please find attached a new Request for Quotation.';
-
-    // Informations client
-    const clientInfoRows = [
-      priceRequest.clientName ? `<tr><td><strong>Client:</strong></td><td>${priceRequest.clientName}</td></tr>` : '',
-      priceRequest.clientRfqNumber ? `<tr><td><strong>Réf. Client / Client Ref.:</strong></td><td>${priceRequest.clientRfqNumber}</td></tr>` : '',
-      priceRequest.clientEmail ? `<tr><td><strong>Contact Client / Client Contact:</strong></td><td>${priceRequest.clientEmail}</td></tr>` : '',
-      priceRequest.fleetNumber ? `<tr><td><strong>Fleet Number:</strong></td><td>${priceRequest.fleetNumber}</td></tr>` : '',
-      priceRequest.serialNumber ? `<tr><td><strong>Serial Number:</strong></td><td>${priceRequest.serialNumber}</td></tr>` : '',
-    ].filter(x => x).join('');
-
-    // Section marques détectées
-    let brandsSection = '';
-    if (brandAnalysis && brandAnalysis.detectedBrands.length > 0) {
-      brandsSection = `
-    <tr>
-      <td><strong>Marques / Brands:</strong></td>
-      <td>${brandAnalysis.detectedBrands.join(', ')}</td>
-    </tr>`;
-    }
-
-    // Section exigences client (EN ROUGE si présentes)
-    let clientRequirementsSection = '';
-    if (priceRequest.clientRequirements) {
-      const reqs = priceRequest.clientRequirements;
-      const hasRequirements = reqs.responseDeadline || reqs.replyToEmail || reqs.urgent;
-
-      if (hasRequirements) {
-        clientRequirementsSection = `
-<div style="background: #fef2f2; border-left: 4px solid #e74c3c; padding: 15px; margin: 15px 0;">
-  <h3 style="color: #c0392b; margin-top: 0;">⚠️ EXIGENCES CLIENT / CLIENT REQUIREMENTS</h3>
-  <table class="info-table">
-    ${reqs.urgent ? `<tr><td colspan="2" style="color: #c0392b; font-weight: bold; font-size: 16px;">⚡ DEMANDE URGENTE / URGENT REQUEST</td></tr>` : ''}
-    ${reqs.responseDeadline ? `<tr>
-      <td style="color: #c0392b; font-weight: bold;">Délai de réponse exigé / Required Response Time:</td>
-      <td style="color: #c0392b; font-weight: bold; font-size: 16px;">${reqs.responseDeadline}</td>
-    </tr>` : ''}
-    ${reqs.replyToEmail ? `<tr>
-      <td style="color: #c0392b; font-weight: bold;">Adresse de réponse / Reply To:</td>
-      <td style="color: #c0392b; font-weight: bold;">${reqs.replyToEmail}</td>
-    </tr>` : ''}
-    ${reqs.otherRequirements?.length ? `<tr>
-      <td style="color: #c0392b; font-weight: bold;">Autres exigences / Other Requirements:</td>
-      <td style="color: #c0392b;">${reqs.otherRequirements.join(', ')}</td>
-    </tr>` : ''}
-  </table>
-</div>`;
+  private async dispatchToSuppliers(
+    suppliers: string[],
+    email: Omit<DraftEmailOptions, 'to'>,
+    delivery: 'draft' | 'send',
+  ): Promise<SupplierDispatch[]> {
+    const fromEmail = this.getFromEmail();
+    const dispatches: SupplierDispatch[] = [];
+
+    for (const supplierEmail of suppliers) {
+      const token = generateDispatchToken();
+      const messageId = buildDispatchMessageId(token, fromEmail);
+      const subject = `${email.subject} [${token}]`;
+      const options: DraftEmailOptions = { ...email, to: supplierEmail, subject, messageId };
+
+      let result: { success: boolean; error?: string };
+      try {
+        result = delivery === 'send' ? await this.sendEmail(options) : await this.saveToDrafts(options);
+      } catch (error) {
+        result = { success: false, error: error.message };
       }
+
+      dispatches.push({ supplierEmail, token, messageId, subject, delivery, success: result.success, error: result.error });
     }
 
-    return `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <style>
-    body { font-family: Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #333; margin: 0; padding: 20px; }
-    .container { max-width: 800px; margin: 0 auto; }
-    h3 { color: #1a5276; }
-    .info-box { background: #f8f9fa; border-left: 4px solid #1a5276; padding: 15px; margin: 15px 0; }
-    .info-table { width: 100%; border-collapse: collapse; }
-    .info-table td { padding: 5px 10px; }
-    .signature { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ccc; color: #666; font-size: 12px; }
-  </style>
-</head>
-<body>
-<div class="container">
-
-<!-- EN-TÊTE SOCIÉTÉ -->
-${getCompanyHeader()}
-
-<!-- SALUTATION -->
-<p>${greeting}</p>
-<p>${intro}</p>
-
-<!-- EXIGENCES CLIENT (en rouge si présentes) -->
-${clientRequirementsSection}
-
-<!-- INFORMATIONS DEMANDE -->
-<div class="info-box">
-  <h3>📋 Informations Demande / Request Information</h3>
-  <table class="info-table">
-    <tr>
-      <td><strong>N° Demande / Internal Ref.:</strong></td>
-      <td>${priceRequest.requestNumber}</td>
-    </tr>
-    <tr>
-      <td><strong>Date:</strong></td>
-      <td>${priceRequest.date.toLocaleDateString('fr-FR')}</td>
-    </tr>
-    ${priceRequest.sourceEmail?.date ? `
-    <tr>
-      <td><strong>Réception demande client / Client Request Received:</strong></td>
-      <td>${new Date(priceRequest.sourceEmail.date).toLocaleDateString('fr-FR')} ${new Date(priceRequest.sourceEmail.date).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}</td>
-    </tr>` : ''}
-    <tr>
-      <td><strong>Nombre d'articles / Number of items:</strong></td>
-      <td>${priceRequest.items.length}</td>
-    </tr>
-    <tr>
-      <td><strong>Délai de réponse / Response deadline:</strong></td>
-      <td>${responseHours}h (avant le / before ${deadlineDate.toLocaleDateString('fr-FR')} ${deadlineDate.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })})</td>
-    </tr>
-    ${clientInfoRows}
-  </table>
-</div>
-
-<!-- INSTRUCTIONS RFQ -->
-${getRfqInstructions(language)}
-
-<!-- ADRESSE DE LIVRAISON -->
-<div style="margin: 20px 0; padding: 15px; background: #e8f6f3; border-left: 4px solid #1abc9c;">
-  <strong>📍 ${language === 'en' ? 'Delivery Address' : 'Adresse de livraison'}:</strong><br>
-  ${COMPANY_INFO.name}<br>
-  ${addr.line1}<br>
-  ${addr.line2}<br>
-  ${addr.city}, ${addr.country}
-</div>
-
-${priceRequest.notes ? `
-<div style="margin: 20px 0; padding: 15px; background: #fef9e7; border-left: 4px solid #f39c12;">
-  <strong>📝 Notes:</strong><br>
-  ${priceRequest.notes}
-</div>
-` : ''}
-
-<!-- SIGNATURE -->
-<div class="signature">
-  <p>${language === 'en' ? 'Best regards,' : language === 'fr' ? 'Cordialement,' : 'Cordialement / Best regards,'}</p>
-  <p>
-    <strong>${c.name}</strong><br>
-    ${c.title}<br>
-    <strong>${COMPANY_INFO.name}</strong><br><br>
-    ${addr.line1}<br>
-    ${addr.line2}<br>
-    ${addr.city}, ${addr.country}<br><br>
-    📞 ${c.phone}<br>
-    📱 ${c.mobile}<br>
-    ✉️ <a href="mailto:${c.primaryEmail}">${c.primaryEmail}</a>
-  </p>
-</div>
-
-<p style="font-size: 11px; color: #999; margin-top: 30px; text-align: center;">
-  ${language === 'en' 
-    ? 'This message was automatically generated by the MULTIPARTS price request management system.' 
-    : language === 'fr'
-      ? 'Ce message a été généré automatiquement par le système de gestion des demandes de prix MULTIPARTS.'
-      : 'Ce message a été généré automatiquement. / This message was automatically generated.'}
-</p>
-
-</div>
-</body>
-</html>`;
+    const label = delivery === 'send' ? 'envoyé(s)' : 'brouillon(s) créé(s)';
+    this.logger.log(`📧 ${dispatches.filter(d => d.success).length}/${suppliers.length} email(s) fournisseur ${label}`);
+    return dispatches;
   }
 
   /**
-   * Version texte brut pour compatibilité - toujours bilingue
+   * Envoyer un email via SMTP et en conserver une copie dans le dossier Envoyés
    */
-  private generateTextEmailBody(priceRequest: any, language: RfqLanguage): string {
-    const responseHours = priceRequest.responseDeadlineHours || 24;
-    const deadlineDate = new Date();
-    deadlineDate.setHours(deadlineDate.getHours() + responseHours);
-
-    const c = COMPANY_INFO.contact;
-    const addr = COMPANY_INFO.address;
-
-    const clientInfo = [
-      priceRequest.clientName ? `Client: ${priceRequest.clientName}` : '',
-      priceRequest.clientRfqNumber ? `Réf. Client / Client Ref.: ${priceRequest.clientRfqNumber}` : '',
-      priceRequest.clientEmail ? `Contact Client / Client Contact: ${priceRequest.clientEmail}` : '',
-      priceRequest.fleetNumber ? `Fleet Number: ${priceRequest.fleetNumber}` : '',
-      priceRequest.serialNumber ? `Serial Number: ${priceRequest.serialNumber}` : '',
-    ].filter(x => x).join('\n');
-
-    // Section exigences client (si présentes)
-    let clientRequirementsSection = '';
-    if (priceRequest.clientRequirements) {
-      const reqs = priceRequest.clientRequirements;
-      const hasReqs = reqs.responseDeadline || reqs.replyToEmail || reqs.urgent;
-
-      if (hasReqs) {
-        const parts: string[] = [];
-        if (reqs.urgent) parts.push('⚡ DEMANDE URGENTE / URGENT REQUEST');
-        if (reqs.responseDeadline) parts.push(`Délai de réponse exigé / Required Response Time: ${reqs.responseDeadline}`);
-        if (reqs.replyToEmail) parts.push(`Adresse de réponse / Reply To: ${reqs.replyToEmail}`);
-        if (reqs.otherRequirements?.length) parts.push(`Autres exigences / Other: ${reqs.otherRequirements.join(', ')}`);
-
-        clientRequirementsSection = `
-!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!
-⚠️ EXIGENCES CLIENT / CLIENT REQUIREMENTS ⚠️
-!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!
-${parts.join('\n')}
-!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!
-
-`;
-      }
+  private async sendEmail(options: DraftEmailOptions): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const account = this.sendingAccount;
+    const transporter = createMailTransport(this.configService, this.mailboxRegistry.getSmtpConfig(account));
+
+    const fromEmail = this.getFromEmail();
+    const fromName = this.configService.get<string>('smtp.fromName') || `${COMPANY_INFO.contact.name} - ${COMPANY_INFO.name}`;
+
+    await transporter.sendMail({
+      from: `"${fromName}" <${fromEmail}>`,
+      to: options.to,
+      cc: options.cc?.join(', '),
+      subject: options.subject,
+      messageId: options.messageId,
+      text: options.body,
+      html: options.htmlBody || this.textToHtml(options.body),
+      attachments: options.attachments,
+    });
+
+    // Copie dans Envoyés: le scan des envois retrouve ainsi la demande (sortie locale: déjà écrite)
+    if (isLocalMailSink(this.configService)) {
+      return { success: true, messageId: options.messageId };
+    }
+    const sentFolder = this.mailboxRegistry.getFolder(account, 'sent');
+    try {
+      await this.saveToFolder(options, sentFolder, ['\\Seen']);
+    } catch (error) {
+      this.logger.warn(`Impossible de copier dans ${sentFolder}: ${error.message}`);
     }
 
-    // Toujours bilingue (Français ET Anglais)
-    const body = `═══════════════════════════════════════════════════════
-MULTIPARTS CI - DEMANDE DE PRIX / PRICE REQUEST
-═══════════════════════════════════════════════════════
-
-Bonjour / Dear Sir or Madam,
-
-Veuillez trouver ci-joint une nouvelle demande de prix.
-Please find attached a new Request for Quotation.
-
-${clientRequirementsSection}INFORMATIONS DEMANDE / REQUEST INFORMATION
--------------------------------------------
-N° Demande / Internal Ref.: ${priceRequest.requestNumber}
-Date: ${priceRequest.date.toLocaleDateString('fr-FR')}
-${priceRequest.sourceEmail?.date ? `Réception demande client / Client Request Received: ${new Date(priceRequest.sourceEmail.date).toLocaleDateString('fr-FR')} ${new Date(priceRequest.sourceEmail.date).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}\n` : ''}Nombre d'articles / Number of items: ${priceRequest.items.length}
-Délai de réponse / Response deadline: ${responseHours}h (avant le / before ${deadlineDate.toLocaleDateString('fr-FR')})
-
-${clientInfo ? `INFORMATIONS CLIENT / CLIENT INFORMATION\n-----------------------------------------\n${clientInfo}\n` : ''}
-INSTRUCTIONS RFQ - MULTIPARTS
-=============================
-
-FRANÇAIS:
----------
-Merci de nous transmettre votre offre avec:
-1) PRIX - Prix unitaire, Prix total, Devise (EUR/USD)
-2) INCOTERM - Ex-Works (EXW) ou CIF Abidjan
-3) LOGISTIQUE - Poids total (kg), Dimensions et nombre de colis
-4) TECHNIQUE - Fiche technique, Références constructeur, Normes
-5) DÉLAIS - Délai de livraison, Validité de l'offre
-6) CONDITIONS - Conditions de paiement, Origine des produits
-
-ENGLISH:
---------
-Please provide your offer including:
-1) PRICING - Unit price, Total price, Currency (EUR/USD)
-2) INCOTERM - Ex-Works (EXW) or CIF Abidjan
-3) LOGISTICS - Total weight (kg), Dimensions and packages
-4) TECHNICAL - Data sheet, Manufacturer references, Standards
-5) LEAD TIMES - Delivery time, Offer validity
-6) TERMS - Payment terms, Country of origin
-
-ADRESSE DE LIVRAISON / DELIVERY ADDRESS
----------------------------------------
-${COMPANY_INFO.name}
-${addr.line1}
-${addr.line2}
-${addr.city}, ${addr.country}
-
----
-${c.name}
-${c.title}
-${COMPANY_INFO.name}
-Tel: ${c.phone} | Mobile: ${c.mobile}
-Email: ${c.primaryEmail}
-`;
-
-    return body;
+    return { success: true, messageId: options.messageId };
+  }
+
+  /**
+   * Variables du modèle supplier_rfq (en-tête société et instructions RFQ via les partiels)
+   */
+  private buildSupplierRfqVariables(priceRequest: any, brandAnalysis?: BrandAnalysisResult): Record<string, any> {
+    const reqs = priceRequest.clientRequirements;
+    const hasRequirements = reqs && (reqs.responseDeadline || reqs.replyToEmail || reqs.urgent);
+
+    return {
+      rfqNumber: priceRequest.requestNumber,
+      clientRfqNumber: priceRequest.clientRfqNumber,
+      date: formatDate(priceRequest.date),
+      clientReceivedAt: priceRequest.sourceEmail?.date ? formatDateTime(priceRequest.sourceEmail.date) : undefined,
+      itemCount: priceRequest.items.length,
+      items: toTemplateItems(priceRequest.items),
+      ...responseDeadlineVariables(priceRequest.responseDeadlineHours || 24),
+      clientName: priceRequest.clientName,
+      clientEmail: priceRequest.clientEmail,
+      fleetNumber: priceRequest.fleetNumber,
+      serialNumber: priceRequest.serialNumber,
+      hasClientInfo: !!(priceRequest.clientName || priceRequest.clientRfqNumber || priceRequest.clientEmail
+        || priceRequest.fleetNumber || priceRequest.serialNumber),
+      brands: brandAnalysis?.detectedBrands.join(', '),
+      notes: priceRequest.notes,
+      requirements: hasRequirements ? {
+        urgent: reqs.urgent,
+        responseDeadline: reqs.responseDeadline,
+        replyToEmail: reqs.replyToEmail,
+        otherRequirements: reqs.otherRequirements?.join(', '),
+      } : undefined,
+    };
   }
 
   async listDrafts(limit = 10): Promise<any[]> {
     const connection = await imapSimple.connect(this.getImapConfig());
-    const draftsFolder = this.configService.get<string>('drafts.folder') || 'Drafts';
+    const draftsFolder = this.getDraftsFolder();
 
     try {
       await connection.openBox(draftsFolder);
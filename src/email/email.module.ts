@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { EmailService } from './email.service';
+import { MailArchiveService } from './mail-archive.service';
 import { EmailController } from './email.controller';
 
 @Module({
-  providers: [EmailService],
+  providers: [EmailService, MailArchiveService],
   controllers: [EmailController],
-  exports: [EmailService],
+  exports: [EmailService, MailArchiveService],
 })
 export class EmailModule {}
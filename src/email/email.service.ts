@@ -2,33 +2,36 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as imapSimple from 'imap-simple';
 import { simpleParser, ParsedMail } from 'mailparser';
-import { ParsedEmail, EmailAttachment } from '../common/interfaces';
+import { ParsedEmail } from '../common/interfaces';
 import { EmailFilterDto } from '../common/dto';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { MailboxAccount } from '../mailbox/mailbox.interfaces';
+import { toParsedEmail } from './parsed-mail';
 
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
 
-  constructor(private configService: ConfigService) {}
-
-  private getImapConfig(): imapSimple.ImapSimpleOptions {
-    return {
-      imap: {
-        host: this.configService.get<string>('imap.host'),
-        port: this.configService.get<number>('imap.port'),
-        user: this.configService.get<string>('imap.user'),
-        password: this.configService.get<string>('imap.password'),
-        tls: this.configService.get<boolean>('imap.tls'),
-        authTimeout: this.configService.get<number>('imap.authTimeout'),
-        tlsOptions: this.configService.get('imap.tlsOptions'),
-      },
-    };
+  constructor(
+    private configService: ConfigService,
+    private mailboxRegistry: MailboxRegistryService,
+  ) {}
+
+  private getImapConfig(account?: MailboxAccount): imapSimple.ImapSimpleOptions {
+    return { imap: this.mailboxRegistry.getImapConfig(account) };
   }
 
-  async connect(): Promise<imapSimple.ImapSimple> {
+  /**
+   * Ouvrir une connexion IMAP (compte du registre, ou configuration de l'environnement);
+   * onmail est appelé à chaque nouveau message reçu pendant que la connexion est en IDLE sur un dossier
+   */
+  async connect(
+    events: { onmail?: (numNewMail: number) => void } = {},
+    account?: MailboxAccount,
+  ): Promise<imapSimple.ImapSimple> {
     try {
-      const connection = await imapSimple.connect(this.getImapConfig());
-      this.logger.log('Connexion IMAP établie');
+      const connection = await imapSimple.connect({ ...this.getImapConfig(account), ...events });
+      this.logger.log(`Connexion IMAP établie${account ? ` (${account.email})` : ''}`);
       return connection;
     } catch (error) {
       this.logger.error('Erreur de connexion IMAP:', error.message);
@@ -36,8 +39,8 @@ export class EmailService {
     }
   }
 
-  async listFolders(): Promise<string[]> {
-    const connection = await this.connect();
+  async listFolders(account?: MailboxAccount): Promise<string[]> {
+    const connection = await this.connect({}, account);
     try {
       const boxes = await connection.getBoxes();
       return this.extractFolderNames(boxes);
@@ -58,9 +61,9 @@ export class EmailService {
     return folders;
   }
 
-  async fetchEmails(filter: EmailFilterDto): Promise<ParsedEmail[]> {
-    const connection = await this.connect();
-    const folder = filter.folder || 'INBOX';
+  async fetchEmails(filter: EmailFilterDto, account?: MailboxAccount): Promise<ParsedEmail[]> {
+    const connection = await this.connect({}, account);
+    const folder = this.mailboxRegistry.resolveFolder(account, filter.folder);
     const timeout = filter.timeout || 60000; // Default 60s timeout
 
     try {
@@ -137,6 +140,7 @@ export class EmailService {
       for (const message of messages) {
         const parsed = await this.parseMessage(message);
         if (parsed) {
+          parsed.mailbox = account?.email;
           parsedEmails.push(parsed);
         }
       }
@@ -147,6 +151,51 @@ export class EmailService {
     }
   }
 
+  /**
+   * Messages dont l'UID est supérieur à afterUid, sur une connexion déjà ouverte sur le dossier
+   * (mode écoute IDLE). Au plus `limit` messages, par UID croissant; lastUid est le dernier UID
+   * parcouru, y compris un message illisible.
+   */
+  async fetchEmailsAfterUid(
+    connection: imapSimple.ImapSimple,
+    afterUid: number,
+    limit = 50,
+    timeout = 60000,
+  ): Promise<{ emails: ParsedEmail[]; lastUid: number; hasMore: boolean }> {
+    const found = await this.withTimeout<any[]>(
+      connection.search([['UID', `${afterUid + 1}:*`]], { bodies: [], struct: false, markSeen: false }),
+      timeout,
+      'IMAP search timeout',
+    );
+
+    // "n:*" renvoie toujours le dernier message du dossier, même si son UID est inférieur à n
+    const uids = found
+      .map((m: any) => m.attributes.uid as number)
+      .filter(uid => uid > afterUid)
+      .sort((a, b) => a - b);
+    if (uids.length === 0) {
+      return { emails: [], lastUid: afterUid, hasMore: false };
+    }
+
+    const batch = uids.slice(0, limit);
+    const messages = await this.withTimeout<any[]>(
+      connection.search([['UID', batch.join(',')]], { bodies: ['HEADER', 'TEXT', ''], struct: true, markSeen: false }),
+      timeout,
+      'IMAP fetch timeout',
+    );
+
+    const emails: ParsedEmail[] = [];
+    for (const message of messages) {
+      const parsed = await this.parseMessage(message);
+      if (parsed) {
+        emails.push(parsed);
+      }
+    }
+    emails.sort((a, b) => Number(a.id) - Number(b.id));
+
+    return { emails, lastUid: batch[batch.length - 1], hasMore: uids.length > batch.length };
+  }
+
   /**
    * Wrap a promise with a timeout
    */
@@ -177,11 +226,11 @@ export class EmailService {
     return `${day}-${month}-${year}`;
   }
 
-  async fetchEmailById(emailId: string, folder = 'INBOX'): Promise<ParsedEmail | null> {
-    const connection = await this.connect();
+  async fetchEmailById(emailId: string, folder = 'INBOX', account?: MailboxAccount): Promise<ParsedEmail | null> {
+    const connection = await this.connect({}, account);
 
     try {
-      await connection.openBox(folder);
+      await connection.openBox(this.mailboxRegistry.resolveFolder(account, folder));
 
       const fetchOptions = {
         bodies: ['HEADER', 'TEXT', ''],
@@ -195,7 +244,11 @@ export class EmailService {
         return null;
       }
 
-      return this.parseMessage(messages[0]);
+      const parsed = await this.parseMessage(messages[0]);
+      if (parsed) {
+        parsed.mailbox = account?.email;
+      }
+      return parsed;
     } finally {
       connection.end();
     }
@@ -207,53 +260,7 @@ export class EmailService {
       if (!all) return null;
 
       const parsed: ParsedMail = await simpleParser(all.body);
-
-      const attachments: EmailAttachment[] = (parsed.attachments || []).map((att) => ({
-        filename: att.filename || 'unknown',
-        contentType: att.contentType,
-        content: att.content,
-        size: att.size,
-      }));
-
-      // Extraire les destinataires CC
-      const ccAddresses: string[] = [];
-      if (parsed.cc) {
-        if (Array.isArray(parsed.cc)) {
-          parsed.cc.forEach(addr => {
-            if (addr.text) ccAddresses.push(addr.text);
-          });
-        } else if (parsed.cc.text) {
-          ccAddresses.push(parsed.cc.text);
-        }
-      }
-
-      // Extraire les destinataires To comme array
-      const toAddresses: string[] = [];
-      if (parsed.to) {
-        if (Array.isArray(parsed.to)) {
-          parsed.to.forEach(addr => {
-            if (addr.text) toAddresses.push(addr.text);
-          });
-        } else if (parsed.to.text) {
-          toAddresses.push(parsed.to.text);
-        }
-      }
-
-      return {
-        id: message.attributes.uid.toString(),
-        messageId: parsed.messageId || undefined,  // Ex: "<abc123@mail.example.com>"
-        from: parsed.from?.text || '',
-        to: toAddresses.length > 0 ? toAddresses : (parsed.to?.text || ''),
-        cc: ccAddresses.length > 0 ? ccAddresses : undefined,
-        replyTo: parsed.replyTo?.text || undefined,
-        references: parsed.references ? 
-          (Array.isArray(parsed.references) ? parsed.references.join(' ') : parsed.references) 
-          : undefined,
-        subject: parsed.subject || '',
-        date: parsed.date || new Date(),
-        body: parsed.text || parsed.html || '',
-        attachments,
-      };
+      return toParsedEmail(parsed, message.attributes.uid.toString());
     } catch (error) {
       this.logger.error('Erreur parsing email:', error.message);
       return null;
@@ -274,11 +281,11 @@ export class EmailService {
   /**
    * Marquer un email comme non lu (retirer le flag SEEN)
    */
-  async markAsUnread(emailId: string, folder = 'INBOX'): Promise<boolean> {
-    const connection = await this.connect();
+  async markAsUnread(emailId: string, folder = 'INBOX', account?: MailboxAccount): Promise<boolean> {
+    const connection = await this.connect({}, account);
 
     try {
-      await connection.openBox(folder);
+      await connection.openBox(this.mailboxRegistry.resolveFolder(account, folder));
       await connection.delFlags(emailId, ['\\Seen']);
       this.logger.log(`Email ${emailId} marqué comme non lu`);
       return true;
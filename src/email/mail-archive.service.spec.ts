@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MailArchiveService } from './mail-archive.service';
+import { ParsedEmail } from '../common/interfaces';
+
+describe('MailArchiveService', () => {
+  let service: MailArchiveService;
+  let importDir: string;
+
+  const message = (messageId: string, subject: string, body: string, extraHeaders = '') => [
+    'From: Achats <achats@client.com>',
+    'To: procurement@multipartsci.com',
+    `Subject: ${subject}`,
+    `Message-ID: ${messageId}`,
+    'Date: Mon, 05 Jan 2026 10:00:00 +0000',
+    ...(extraHeaders ? [extraHeaders] : []),
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    body,
+  ].join('\n');
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(importDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const readAll = async (source: string): Promise<ParsedEmail[]> => {
+    const emails: ParsedEmail[] = [];
+    for await (const email of service.readMessages(source)) emails.push(email);
+    return emails;
+  };
+
+  beforeEach(async () => {
+    importDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-archive-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailArchiveService,
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue(importDir) } },
+      ],
+    }).compile();
+
+    service = module.get<MailArchiveService>(MailArchiveService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(importDir, { recursive: true, force: true });
+  });
+
+  it('should list .eml, .mbox and Thunderbird folders inside the import directory only', () => {
+    write('clients/rfq.eml', message('<a@x>', 'Demande de prix', 'Bonjour'));
+    write('clients/2025.mbox', `From achats@client.com Mon Jan  5 10:00:00 2026\n${message('<b@x>', 'B', 'b')}\n`);
+    write('Thunderbird/Inbox', `From - Mon Jan  5 10:00:00 2026\n${message('<c@x>', 'C', 'c')}\n`);
+    write('Thunderbird/Inbox.msf', '// <!-- <mdb:mork:z v="1.4"/> -->');
+    write('Thunderbird/Inbox.sbd/Clients', `From - Mon Jan  5 10:00:00 2026\n${message('<d@x>', 'D', 'd')}\n`);
+    write('Thunderbird/prefs.js', 'user_pref("x", 1);');
+    write('notes', 'pas un email');
+
+    expect(service.listSources('.')).toEqual([
+      path.join('Thunderbird', 'Inbox'),
+      path.join('Thunderbird', 'Inbox.sbd', 'Clients'),
+      path.join('clients', '2025.mbox'),
+      path.join('clients', 'rfq.eml'),
+    ]);
+    expect(service.listSources('clients/rfq.eml')).toEqual([path.join('clients', 'rfq.eml')]);
+    expect(() => service.listSources('../')).toThrow(BadRequestException);
+    expect(() => service.listSources('absent')).toThrow(BadRequestException);
+  });
+
+  it('should convert an .eml file with its attachments', async () => {
+    write('rfq.eml', [
+      'From: Achats <achats@client.com>',
+      'To: procurement@multipartsci.com',
+      'Subject: Demande de prix pompes',
+      'Message-ID: <rfq-1@client.com>',
+      'Date: Mon, 05 Jan 2026 10:00:00 +0000',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      'Merci de coter la liste jointe.',
+      '--b1',
+      'Content-Type: text/csv; name="liste.csv"',
+      'Content-Disposition: attachment; filename="liste.csv"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('ref;qte\nP-100;2\n').toString('base64'),
+      '--b1--',
+    ].join('\r\n'));
+
+    const [email] = await readAll('rfq.eml');
+
+    expect(email).toMatchObject({
+      from: '"Achats" <achats@client.com>',
+      subject: 'Demande de prix pompes',
+      messageId: '<rfq-1@client.com>',
+      date: new Date('2026-01-05T10:00:00Z'),
+    });
+    expect(email.id).toMatch(/^file-[0-9a-f]{16}$/);
+    expect(email.body).toContain('Merci de coter');
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments[0]).toMatchObject({ filename: 'liste.csv' });
+    expect(email.attachments[0].content.toString()).toBe('ref;qte\nP-100;2\n');
+  });
+
+  it('should split an mbox, unescape From lines and skip expunged Thunderbird messages', async () => {
+    write('Inbox', [
+      'From - Mon Jan  5 10:00:00 2026',
+      message('<a@x>', 'Demande A', 'Ligne 1\n>From the catalogue', 'X-Mozilla-Status: 0001'),
+      '',
+      'From - Mon Jan  5 11:00:00 2026',
+      message('<b@x>', 'Supprimé', 'corps', 'X-Mozilla-Status: 0009'),
+      '',
+      'From - Mon Jan  5 12:00:00 2026',
+      message('<c@x>', 'Demande C', 'corps C'),
+      '',
+    ].join('\n'));
+
+    const emails = await readAll('Inbox');
+
+    expect(emails.map(e => e.subject)).toEqual(['Demande A', 'Demande C']);
+    expect(emails[0].body).toContain('From the catalogue');
+    expect(emails[0].body).not.toContain('>From');
+    expect(emails[1].body.trim()).toBe('corps C');
+
+    // Même Message-ID: même identifiant d'une lecture à l'autre
+    const again = await readAll('Inbox');
+    expect(again.map(e => e.id)).toEqual(emails.map(e => e.id));
+  });
+});
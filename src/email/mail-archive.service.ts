@@ -0,0 +1,156 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { simpleParser } from 'mailparser';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { ParsedEmail } from '../common/interfaces';
+import { toParsedEmail } from './parsed-mail';
+
+// Fichiers annexes de Thunderbird à côté des dossiers (index, filtres, préférences)
+const IGNORED_EXTENSIONS = ['.msf', '.dat', '.json', '.sqlite', '.html', '.js', '.txt', '.log'];
+
+// X-Mozilla-Status: message supprimé, encore présent dans le fichier jusqu'au compactage
+const MOZILLA_DELETED_FLAG = 0x0008;
+
+/**
+ * Lecture d'archives de messages sur disque (import historique, reproduction de cas clients):
+ * fichiers RFC 822 (.eml), archives mbox (.mbox) et dossiers Thunderbird (fichier mbox sans
+ * extension, sous-dossiers .sbd). Les chemins sont relatifs à localMail.importDir.
+ *
+ * L'identifiant d'un message est dérivé de son Message-ID (ou de son contenu): un même
+ * message importé deux fois est reconnu comme déjà traité.
+ */
+@Injectable()
+export class MailArchiveService {
+  private readonly logger = new Logger(MailArchiveService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  get importDir(): string {
+    return path.resolve(this.configService.get<string>('localMail.importDir') || './imports');
+  }
+
+  /**
+   * Chemin absolu d'un fichier ou dossier d'import (refusé hors de importDir)
+   */
+  resolvePath(relativePath: string): string {
+    const resolved = path.resolve(this.importDir, relativePath || '.');
+    if (resolved !== this.importDir && !resolved.startsWith(this.importDir + path.sep)) {
+      throw new BadRequestException(`Chemin hors du dossier d'import (${this.importDir}): ${relativePath}`);
+    }
+    if (!fs.existsSync(resolved)) {
+      throw new BadRequestException(`Chemin introuvable: ${relativePath}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Fichiers de messages sous un chemin (relatifs à importDir, par ordre alphabétique)
+   */
+  listSources(relativePath: string): string[] {
+    const root = this.resolvePath(relativePath);
+    const files: string[] = [];
+
+    const walk = (current: string) => {
+      const stat = fs.statSync(current);
+      if (stat.isDirectory()) {
+        fs.readdirSync(current)
+          .filter(name => !name.startsWith('.'))
+          .sort()
+          .forEach(name => walk(path.join(current, name)));
+      } else if (stat.isFile() && this.isMessageFile(current)) {
+        files.push(path.relative(this.importDir, current));
+      }
+    };
+    walk(root);
+
+    return files;
+  }
+
+  /**
+   * Messages d'un fichier, dans l'ordre du fichier; une archive mbox est lue en continu
+   */
+  async *readMessages(source: string): AsyncGenerator<ParsedEmail> {
+    const filePath = this.resolvePath(source);
+
+    if (path.extname(filePath).toLowerCase() === '.eml') {
+      const email = await this.parse(fs.readFileSync(filePath), source);
+      if (email) yield email;
+      return;
+    }
+
+    for await (const raw of this.splitMbox(filePath)) {
+      if (this.isDeleted(raw)) continue;
+      const email = await this.parse(raw, source);
+      if (email) yield email;
+    }
+  }
+
+  private isMessageFile(filePath: string): boolean {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.eml' || extension === '.mbox') return true;
+    if (IGNORED_EXTENSIONS.includes(extension)) return false;
+
+    // Dossier Thunderbird: fichier mbox sans extension commençant par une ligne "From "
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const header = Buffer.alloc(5);
+      const bytes = fs.readSync(fd, header, 0, 5, 0);
+      return bytes === 5 && header.toString('latin1') === 'From ';
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Découpage mbox: un message commence par une ligne "From " en début de fichier ou après une
+   * ligne vide; les lignes ">From " échappées (mboxrd) sont restaurées
+   */
+  private async *splitMbox(filePath: string): AsyncGenerator<Buffer> {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(filePath, { encoding: 'latin1' }),
+      crlfDelay: Infinity,
+    });
+
+    let current: string[] | null = null;
+    let previousBlank = true;
+
+    for await (const line of lines) {
+      if (previousBlank && line.startsWith('From ')) {
+        if (current) yield this.toBuffer(current);
+        current = [];
+      } else if (current) {
+        current.push(/^>+From /.test(line) ? line.substring(1) : line);
+      }
+      previousBlank = line === '';
+    }
+    if (current) yield this.toBuffer(current);
+  }
+
+  private toBuffer(lines: string[]): Buffer {
+    // La ligne vide qui précède le séparateur suivant n'appartient pas au message
+    const end = lines.length > 0 && lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+    return Buffer.from(lines.slice(0, end).join('\n'), 'latin1');
+  }
+
+  private isDeleted(raw: Buffer): boolean {
+    const headerEnd = raw.indexOf('\n\n');
+    const headers = raw.subarray(0, headerEnd >= 0 ? headerEnd : raw.length).toString('latin1');
+    const status = /^X-Mozilla-Status:\s*([0-9a-f]{4})/im.exec(headers);
+    return !!status && (parseInt(status[1], 16) & MOZILLA_DELETED_FLAG) !== 0;
+  }
+
+  private async parse(raw: Buffer, source: string): Promise<ParsedEmail | null> {
+    try {
+      const parsed = await simpleParser(raw);
+      const key = parsed.messageId || crypto.createHash('sha1').update(raw).digest('hex');
+      const id = `file-${crypto.createHash('sha1').update(key).digest('hex').substring(0, 16)}`;
+      return toParsedEmail(parsed, id);
+    } catch (error) {
+      this.logger.warn(`Message illisible dans ${source}: ${error.message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { ParsedMail } from 'mailparser';
+import { ParsedEmail, EmailAttachment } from '../common/interfaces';
+
+/**
+ * Conversion d'un message analysé par mailparser (IMAP ou fichier) en ParsedEmail
+ */
+export function toParsedEmail(parsed: ParsedMail, id: string): ParsedEmail {
+  const attachments: EmailAttachment[] = (parsed.attachments || []).map((att) => ({
+    filename: att.filename || 'unknown',
+    contentType: att.contentType,
+    content: att.content,
+    size: att.size,
+  }));
+
+  // Extraire les destinataires CC
+  const ccAddresses: string[] = [];
+  if (parsed.cc) {
+    if (Array.isArray(parsed.cc)) {
+      parsed.cc.forEach(addr => {
+        if (addr.text) ccAddresses.push(addr.text);
+      });
+    } else if (parsed.cc.text) {
+      ccAddresses.push(parsed.cc.text);
+    }
+  }
+
+  // Extraire les destinataires To comme array
+  const toAddresses: string[] = [];
+  if (parsed.to) {
+    if (Array.isArray(parsed.to)) {
+      parsed.to.forEach(addr => {
+        if (addr.text) toAddresses.push(addr.text);
+      });
+    } else if (parsed.to.text) {
+      toAddresses.push(parsed.to.text);
+    }
+  }
+
+  return {
+    id,
+    messageId: parsed.messageId || undefined,  // Ex: "<abc123@mail.example.com>"
+    from: parsed.from?.text || '',
+    to: toAddresses.length > 0 ? toAddresses : (parsed.to?.text || ''),
+    cc: ccAddresses.length > 0 ? ccAddresses : undefined,
+    replyTo: parsed.replyTo?.text || undefined,
+    references: parsed.references ? 
+      (Array.isArray(parsed.references) ? parsed.references.join(' ') : parsed.references) 
+      : undefined,
+    subject: parsed.subject || '',
+    date: parsed.date || new Date(),
+    body: parsed.text || parsed.html || '',
+    attachments,
+  };
+}
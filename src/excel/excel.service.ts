@@ -4,6 +4,15 @@ import * as ExcelJS from 'exceljs';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import { PriceRequest, GeneratedPriceRequest } from '../common/interfaces';
+import {
+  RFQ_TEMPLATE_SHEET,
+  RFQ_TEMPLATE_HEADER_ROW,
+  RFQ_TEMPLATE_COLUMNS,
+  RFQ_TEMPLATE_CURRENCY_CELL,
+  RFQ_TEMPLATE_CURRENCY_LABEL_CELL,
+  buildRfqTemplateMetadata,
+  templateMetadataToRows,
+} from '../common/rfq-template';
 
 @Injectable()
 export class ExcelService {
@@ -35,14 +44,16 @@ export class ExcelService {
       { header: 'Prix Unit. HT', key: 'prixUnitaire', width: 14 },
       { header: 'Prix Total HT', key: 'prixTotal', width: 14 },
       { header: 'Code Interne', key: 'internalCode', width: 12 },
+      { header: 'Délai livraison', key: 'deliveryTime', width: 16 },
+      { header: 'Remarques', key: 'remarks', width: 30 },
     ];
 
     // En-tête du document
     this.addHeader(sheet, priceRequest);
 
     // Ligne de séparation
-    const headerRow = sheet.getRow(8);
-    headerRow.values = ['N°', 'Code Fournisseur', 'Marque', 'Désignation', 'Qté', 'Unité', 'Prix Unit. HT', 'Prix Total HT', 'Code Interne'];
+    const headerRow = sheet.getRow(RFQ_TEMPLATE_HEADER_ROW);
+    headerRow.values = Object.values(RFQ_TEMPLATE_COLUMNS);
     headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
     headerRow.fill = {
       type: 'pattern',
@@ -63,7 +74,7 @@ export class ExcelService {
     });
 
     // Données des articles
-    let rowIndex = 9;
+    let rowIndex = RFQ_TEMPLATE_HEADER_ROW + 1;
     priceRequest.items.forEach((item, index) => {
       const row = sheet.getRow(rowIndex);
       row.values = [
@@ -76,6 +87,8 @@ export class ExcelService {
         '',                                          // Prix unitaire (à remplir)
         { formula: `E${rowIndex}*G${rowIndex}` },   // Prix total = Qté * Prix Unit
         item.internalCode || '',                     // Code interne client
+        '',                                          // Délai de livraison (à remplir)
+        '',                                          // Remarques (à remplir)
       ];
 
       // Style des cellules de données
@@ -87,8 +100,8 @@ export class ExcelService {
           right: { style: 'thin' },
         };
 
-        // Colonne prix unitaire en bleu (à remplir) - colonne 7
-        if (colNumber === 7) {
+        // Colonnes à remplir en bleu: prix unitaire (7), délai (10), remarques (11)
+        if (colNumber === 7 || colNumber >= 10) {
           cell.font = { color: { argb: 'FF0000FF' } };
           cell.fill = {
             type: 'pattern',
@@ -102,7 +115,7 @@ export class ExcelService {
           cell.numFmt = '#,##0';
         }
         if (colNumber === 7 || colNumber === 8) {
-          cell.numFmt = '#,##0.00 €';
+          cell.numFmt = '#,##0.00';
         }
       });
 
@@ -114,7 +127,7 @@ export class ExcelService {
     const totalRow = sheet.getRow(rowIndex + 1);
     totalRow.values = ['', '', '', '', '', '', 'TOTAL HT:', { formula: `SUM(H9:H${rowIndex - 1})` }, ''];
     totalRow.font = { bold: true };
-    totalRow.getCell(8).numFmt = '#,##0.00 €';
+    totalRow.getCell(8).numFmt = '#,##0.00';
     totalRow.getCell(8).fill = {
       type: 'pattern',
       pattern: 'solid',
@@ -124,12 +137,12 @@ export class ExcelService {
     // TVA et TTC
     const tvaRow = sheet.getRow(rowIndex + 2);
     tvaRow.values = ['', '', '', '', '', '', 'TVA (20%):', { formula: `H${rowIndex + 1}*0.2` }, ''];
-    tvaRow.getCell(8).numFmt = '#,##0.00 €';
+    tvaRow.getCell(8).numFmt = '#,##0.00';
 
     const ttcRow = sheet.getRow(rowIndex + 3);
     ttcRow.values = ['', '', '', '', '', '', 'TOTAL TTC:', { formula: `H${rowIndex + 1}+H${rowIndex + 2}` }, ''];
     ttcRow.font = { bold: true, size: 12 };
-    ttcRow.getCell(8).numFmt = '#,##0.00 €';
+    ttcRow.getCell(8).numFmt = '#,##0.00';
     ttcRow.getCell(8).fill = {
       type: 'pattern',
       pattern: 'solid',
@@ -146,11 +159,17 @@ export class ExcelService {
       formatCells: false,
     });
 
-    // Déprotéger les cellules de prix unitaire (colonne G)
-    for (let i = 9; i < rowIndex; i++) {
-      sheet.getCell(`G${i}`).protection = { locked: false };
+    // Déprotéger les cellules à remplir (devise, prix unitaire, délai, remarques)
+    sheet.getCell(RFQ_TEMPLATE_CURRENCY_CELL).protection = { locked: false };
+    for (let i = RFQ_TEMPLATE_HEADER_ROW + 1; i < rowIndex; i++) {
+      for (const col of ['G', 'J', 'K']) {
+        sheet.getCell(`${col}${i}`).protection = { locked: false };
+      }
     }
 
+    // Métadonnées masquées pour relire l'offre renvoyée ligne à ligne
+    this.addTemplateMetadata(workbook, priceRequest);
+
     // Générer le buffer
     const buffer = await workbook.xlsx.writeBuffer();
     const outputDir = this.configService.get<string>('app.outputDir') || './output';
@@ -169,9 +188,19 @@ export class ExcelService {
     };
   }
 
+  /**
+   * Feuille masquée: N° RFQ, identifiants et positions des lignes, empreinte
+   */
+  private addTemplateMetadata(workbook: ExcelJS.Workbook, priceRequest: PriceRequest): void {
+    const metadata = buildRfqTemplateMetadata(priceRequest.requestNumber, priceRequest.items);
+    const metaSheet = workbook.addWorksheet(RFQ_TEMPLATE_SHEET, { state: 'veryHidden' });
+    metaSheet.addRows(templateMetadataToRows(metadata));
+    metaSheet.protect('priceRequest2024', {});
+  }
+
   private addHeader(sheet: ExcelJS.Worksheet, priceRequest: PriceRequest): void {
     // Titre
-    sheet.mergeCells('A1:I1');
+    sheet.mergeCells('A1:K1');
     const titleCell = sheet.getCell('A1');
     titleCell.value = 'DEMANDE DE PRIX';
     titleCell.font = { bold: true, size: 18, color: { argb: 'FF2F5496' } };
@@ -205,6 +234,20 @@ export class ExcelService {
     //  sheet.getCell('F5').value = `Contact: ${priceRequest.clientEmail}`;
     //}
 
+    // Devise des prix, à remplir par le fournisseur (relue avec l'offre)
+    sheet.getCell(RFQ_TEMPLATE_CURRENCY_LABEL_CELL).value = 'Devise des prix:';
+    sheet.getCell(RFQ_TEMPLATE_CURRENCY_LABEL_CELL).font = { bold: true };
+    sheet.getCell(RFQ_TEMPLATE_CURRENCY_LABEL_CELL).alignment = { horizontal: 'right' };
+    const currencyCell = sheet.getCell(RFQ_TEMPLATE_CURRENCY_CELL);
+    currencyCell.font = { bold: true, color: { argb: 'FF0000FF' } };
+    currencyCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFF2CC' } };
+    currencyCell.border = {
+      top: { style: 'thin' },
+      bottom: { style: 'thin' },
+      left: { style: 'thin' },
+      right: { style: 'thin' },
+    };
+
     // Ligne vide
     sheet.getRow(7).height = 10;
   }
@@ -212,7 +255,7 @@ export class ExcelService {
   private addFooter(sheet: ExcelJS.Worksheet, startRow: number, priceRequest: PriceRequest): void {
     sheet.mergeCells(`A${startRow}:H${startRow}`);
     const instructionsCell = sheet.getCell(`A${startRow}`);
-    instructionsCell.value = 'INSTRUCTIONS: Veuillez remplir les cellules jaunes (Prix Unitaire HT) et retourner ce document complété.';
+    instructionsCell.value = 'INSTRUCTIONS: Veuillez remplir les cellules jaunes (devise, Prix Unitaire HT, délai, remarques) et retourner ce document complété sans modifier les lignes.';
     instructionsCell.font = { italic: true, color: { argb: 'FF666666' } };
 
     // Notes désactivées - contenaient des infos du demandeur non pertinentes
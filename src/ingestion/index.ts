@@ -3,10 +3,10 @@ export * from './types';
 
 // Services
 export { ImageFilterService, ImageMetadata, ImageClassification, ImageFilterConfig } from './image-filter.service';
-export { TableParserService, TableParserConfig, HeaderDetection, TableExtractionResult } from './table-parser.service';
+export { TableParserService, TableParserConfig, TableParseOptions, HeaderDetection, TableExtractionResult } from './table-parser.service';
 export { EmailExtractorService, EmailBodyParseResult, InlineImage } from './email-extractor.service';
 export { WordParserService, WordParseResult } from './word-parser.service';
-export { ParseLogService, ParseLogBuilder } from './parse-log.service';
+export { ParseLogService, ParseLogBuilder, ParseLogEntry } from './parse-log.service';
 export { UnifiedIngestionService, IngestionResult } from './unified-ingestion.service';
 
 // Module
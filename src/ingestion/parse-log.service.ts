@@ -298,6 +298,23 @@ export class ParseLogBuilder {
   }
 }
 
+/**
+ * Parse log overview used by the operations dashboard
+ */
+export interface ParseLogEntry {
+  requestId: string;
+  timestamp: Date;
+  failed: boolean;
+  lineCount: number;
+  errors: string[];
+  warningCount: number;
+  sources: string[];
+  extractionMethod?: string;
+  fallbackTriggered?: boolean;
+  fallbackReason?: string;
+  llmUsed?: boolean;
+}
+
 /**
  * Parse Log Service
  *
@@ -359,6 +376,52 @@ export class ParseLogService {
     }
   }
 
+  /**
+   * List saved parse logs, most recent first.
+   * A log counts as a failure when it has errors or extracted no line.
+   */
+  async listLogs(options: { failuresOnly?: boolean; limit?: number } = {}): Promise<ParseLogEntry[]> {
+    const limit = options.limit ?? 50;
+    let filenames: string[];
+
+    try {
+      filenames = (await fs.promises.readdir(this.outputDir)).filter((f) => f.endsWith('.parse-log.json'));
+    } catch (error) {
+      this.logger.error(`Failed to list parse logs: ${error.message}`);
+      return [];
+    }
+
+    const entries: ParseLogEntry[] = [];
+    for (const filename of filenames) {
+      try {
+        const json = await fs.promises.readFile(path.join(this.outputDir, filename), 'utf-8');
+        const log = JSON.parse(json) as ParseLog;
+        const failed = (log.errors?.length ?? 0) > 0 || !log.lineCount;
+        if (options.failuresOnly && !failed) continue;
+
+        entries.push({
+          requestId: log.requestId,
+          timestamp: log.timestamp,
+          failed,
+          lineCount: log.lineCount,
+          errors: log.errors ?? [],
+          warningCount: log.warnings?.length ?? 0,
+          sources: (log.sources ?? []).map((s) => s.name),
+          extractionMethod: log.extractionMethod,
+          fallbackTriggered: log.fallbackTriggered,
+          fallbackReason: log.fallbackReason,
+          llmUsed: log.llmComparison?.llmUsed,
+        });
+      } catch (error) {
+        this.logger.warn(`Skipping unreadable parse log ${filename}: ${error.message}`);
+      }
+    }
+
+    return entries
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, limit);
+  }
+
   /**
    * Generate a summary of the parse log
    */
@@ -0,0 +1,228 @@
+import { PriceRequestItem } from '../../common/interfaces';
+
+/**
+ * Champs mesurés par le harnais de non-régression
+ */
+export type GoldenField = 'qty' | 'partNumber' | 'description' | 'brand';
+
+export const GOLDEN_FIELDS: GoldenField[] = ['qty', 'partNumber', 'description', 'brand'];
+
+/**
+ * Vue réduite d'un item (ce qui est comparé et stocké dans la baseline)
+ */
+export interface GoldenItemSnapshot {
+  qty: number | null;
+  partNumber: string | null;
+  description: string | null;
+  brand: string | null;
+}
+
+export interface FieldScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number; // 0..1
+  recall: number; // 0..1
+}
+
+export interface FieldMismatch {
+  field: GoldenField;
+  expected: string | number | null;
+  actual: string | number | null;
+}
+
+export interface GoldenItemDiff {
+  expected?: GoldenItemSnapshot;
+  actual?: GoldenItemSnapshot;
+  mismatches: FieldMismatch[];
+}
+
+export interface GoldenComparison {
+  fields: Record<GoldenField, FieldScore>;
+  matchedItems: number;
+  missingItems: GoldenItemSnapshot[]; // attendus, non extraits
+  unexpectedItems: GoldenItemSnapshot[]; // extraits, non attendus
+  mismatchedItems: GoldenItemDiff[]; // appariés avec au moins un champ faux
+}
+
+// Similarité minimale (Jaccard sur les mots) pour considérer deux descriptions égales
+const DESCRIPTION_SIMILARITY = 0.8;
+// Score minimal pour apparier un item extrait à un item attendu
+const PAIRING_THRESHOLD = 0.5;
+
+/**
+ * Réduit un item aux champs mesurés.
+ * partNumber = code fabricant, sinon référence, sinon code interne client.
+ */
+export function toGoldenSnapshot(item: Partial<PriceRequestItem>): GoldenItemSnapshot {
+  const partNumber = item.supplierCode || item.reference || item.internalCode;
+  return {
+    qty: typeof item.quantity === 'number' && Number.isFinite(item.quantity) ? item.quantity : null,
+    partNumber: partNumber ? String(partNumber).trim() : null,
+    description: item.description ? item.description.trim() : null,
+    brand: item.brand ? item.brand.trim() : null,
+  };
+}
+
+function normalizeCode(value: string): string {
+  return value.toUpperCase().replace(/[\s\-_.\/]/g, '');
+}
+
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function descriptionSimilarity(a: string, b: string): number {
+  const tokensA = new Set(normalizeText(a).split(' ').filter(Boolean));
+  const tokensB = new Set(normalizeText(b).split(' ').filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let common = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) common++;
+  }
+  return common / (tokensA.size + tokensB.size - common);
+}
+
+/**
+ * Égalité d'un champ selon sa nature (numérique, code, texte libre)
+ */
+export function fieldMatches(field: GoldenField, expected: GoldenItemSnapshot, actual: GoldenItemSnapshot): boolean {
+  const a = expected[field];
+  const b = actual[field];
+  if (a === null || b === null) return false;
+
+  switch (field) {
+    case 'qty':
+      return Math.abs((a as number) - (b as number)) < 1e-9;
+    case 'partNumber':
+      return normalizeCode(a as string) === normalizeCode(b as string);
+    case 'brand':
+      return normalizeText(a as string) === normalizeText(b as string);
+    case 'description':
+      return descriptionSimilarity(a as string, b as string) >= DESCRIPTION_SIMILARITY;
+  }
+}
+
+function pairingScore(expected: GoldenItemSnapshot, actual: GoldenItemSnapshot): number {
+  let score = 0;
+  if (fieldMatches('partNumber', expected, actual)) score += 1;
+  if (expected.description && actual.description) {
+    score += descriptionSimilarity(expected.description, actual.description);
+  }
+  return score;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  // Aucun élément à trouver / proposer: score parfait par convention
+  return denominator === 0 ? 1 : numerator / denominator;
+}
+
+/**
+ * Compare les items extraits aux items attendus.
+ *
+ * Les items sont appariés de façon gloutonne (code puis description), puis
+ * chaque champ est compté: TP = apparié et égal, FP = valeur extraite fausse
+ * ou item non attendu, FN = valeur attendue absente ou fausse.
+ */
+export function compareItems(expectedItems: GoldenItemSnapshot[], actualItems: GoldenItemSnapshot[]): GoldenComparison {
+  const candidates: Array<{ e: number; a: number; score: number }> = [];
+  expectedItems.forEach((expected, e) => {
+    actualItems.forEach((actual, a) => {
+      const score = pairingScore(expected, actual);
+      if (score >= PAIRING_THRESHOLD) candidates.push({ e, a, score });
+    });
+  });
+  candidates.sort((x, y) => y.score - x.score || x.e - y.e || x.a - y.a);
+
+  const pairs = new Map<number, number>(); // index attendu -> index extrait
+  const usedActual = new Set<number>();
+  for (const { e, a } of candidates) {
+    if (pairs.has(e) || usedActual.has(a)) continue;
+    pairs.set(e, a);
+    usedActual.add(a);
+  }
+
+  const counts = Object.fromEntries(
+    GOLDEN_FIELDS.map(field => [field, { tp: 0, fp: 0, fn: 0 }]),
+  ) as Record<GoldenField, { tp: number; fp: number; fn: number }>;
+  const mismatchedItems: GoldenItemDiff[] = [];
+
+  expectedItems.forEach((expected, e) => {
+    const actualIndex = pairs.get(e);
+    const actual = actualIndex !== undefined ? actualItems[actualIndex] : undefined;
+    const mismatches: FieldMismatch[] = [];
+
+    for (const field of GOLDEN_FIELDS) {
+      const hasExpected = expected[field] !== null;
+      const hasActual = !!actual && actual[field] !== null;
+
+      if (actual && fieldMatches(field, expected, actual)) {
+        counts[field].tp++;
+        continue;
+      }
+      if (hasExpected) counts[field].fn++;
+      if (hasActual) counts[field].fp++;
+      if (actual && (hasExpected || hasActual)) {
+        mismatches.push({ field, expected: expected[field], actual: actual[field] });
+      }
+    }
+
+    if (actual && mismatches.length > 0) {
+      mismatchedItems.push({ expected, actual, mismatches });
+    }
+  });
+
+  const unexpectedItems = actualItems.filter((_, a) => !usedActual.has(a));
+  for (const actual of unexpectedItems) {
+    for (const field of GOLDEN_FIELDS) {
+      if (actual[field] !== null) counts[field].fp++;
+    }
+  }
+
+  const fields = Object.fromEntries(
+    GOLDEN_FIELDS.map(field => {
+      const { tp, fp, fn } = counts[field];
+      return [field, {
+        truePositives: tp,
+        falsePositives: fp,
+        falseNegatives: fn,
+        precision: ratio(tp, tp + fp),
+        recall: ratio(tp, tp + fn),
+      }];
+    }),
+  ) as Record<GoldenField, FieldScore>;
+
+  return {
+    fields,
+    matchedItems: pairs.size,
+    missingItems: expectedItems.filter((_, e) => !pairs.has(e)),
+    unexpectedItems,
+    mismatchedItems,
+  };
+}
+
+/**
+ * Agrège les compteurs de plusieurs comparaisons (score micro-moyenné)
+ */
+export function sumFieldScores(scores: Array<Record<GoldenField, FieldScore>>): Record<GoldenField, FieldScore> {
+  return Object.fromEntries(
+    GOLDEN_FIELDS.map(field => {
+      const tp = scores.reduce((sum, s) => sum + s[field].truePositives, 0);
+      const fp = scores.reduce((sum, s) => sum + s[field].falsePositives, 0);
+      const fn = scores.reduce((sum, s) => sum + s[field].falseNegatives, 0);
+      return [field, {
+        truePositives: tp,
+        falsePositives: fp,
+        falseNegatives: fn,
+        precision: ratio(tp, tp + fp),
+        recall: ratio(tp, tp + fn),
+      }];
+    }),
+  ) as Record<GoldenField, FieldScore>;
+}
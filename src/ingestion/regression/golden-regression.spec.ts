@@ -0,0 +1,83 @@
+import { Logger } from '@nestjs/common';
+import * as path from 'path';
+import { GoldenRegressionRunner, GoldenReport } from './golden-runner';
+import { compareItems } from './golden-metrics';
+
+const CORPUS_DIR = process.env.GOLDEN_CORPUS_DIR || path.resolve(__dirname, '../../../test/golden');
+
+describe('Golden corpus regression', () => {
+  let report: GoldenReport;
+
+  beforeAll(async () => {
+    Logger.overrideLogger(['error']);
+    const runner = await GoldenRegressionRunner.create();
+    report = await runner.run(CORPUS_DIR);
+  }, 120000);
+
+  afterAll(() => {
+    Logger.overrideLogger(['log', 'error', 'warn', 'debug', 'verbose']);
+  });
+
+  it('should run every case of the corpus', () => {
+    expect(report.cases.length).toBeGreaterThan(0);
+    expect(report.baselineDiff).toBeDefined();
+    expect(report.baselineDiff!.removedCases).toEqual([]);
+  });
+
+  it('should not lower any per-field precision or recall below the baseline', () => {
+    const regressions = report.baselineDiff!.regressions;
+    if (regressions.length > 0) {
+      // Rapport complet pour diagnostiquer (npm run test:golden pour le détail)
+      console.log(GoldenRegressionRunner.formatReport(report));
+    }
+    expect(regressions).toEqual([]);
+  });
+
+  it('should flag a score drop against a stored baseline', () => {
+    const [first] = report.cases;
+    const baseline = {
+      generatedAt: new Date().toISOString(),
+      totals: report.totals,
+      cases: {
+        [first.name]: {
+          fields: { ...first.fields, description: { ...first.fields.description, recall: 1 } },
+          items: first.actualItems,
+        },
+      },
+    };
+    const degraded: GoldenReport = {
+      ...report,
+      cases: [{
+        ...first,
+        actualItems: [],
+        fields: { ...first.fields, description: { ...first.fields.description, recall: 0.5 } },
+      }],
+    };
+
+    const diff = GoldenRegressionRunner.diffBaseline(baseline, degraded);
+    expect(diff.regressions).toContainEqual(expect.objectContaining({ caseName: first.name, field: 'description', metric: 'recall' }));
+    expect(diff.changedItems[0].removed).toEqual(first.actualItems);
+  });
+});
+
+describe('compareItems', () => {
+  it('should pair items by code and description and score each field', () => {
+    const result = compareItems(
+      [
+        { qty: 2, partNumber: 'LRD325', description: 'Thermal overload relay', brand: 'SCHNEIDER' },
+        { qty: 1, partNumber: '6205-2RS', description: 'Ball bearing', brand: null },
+      ],
+      [
+        { qty: 2, partNumber: 'lrd 325', description: 'THERMAL OVERLOAD RELAY', brand: null },
+        { qty: 4, partNumber: null, description: 'Délai souhaité', brand: null },
+      ],
+    );
+
+    expect(result.matchedItems).toBe(1);
+    expect(result.fields.qty).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1 });
+    expect(result.fields.partNumber).toMatchObject({ precision: 1, recall: 0.5 });
+    expect(result.fields.brand).toMatchObject({ precision: 1, recall: 0 });
+    expect(result.missingItems).toHaveLength(1);
+    expect(result.unexpectedItems).toHaveLength(1);
+  });
+});
@@ -0,0 +1,358 @@
+import { Logger } from '@nestjs/common';
+import { simpleParser } from 'mailparser';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EmailAttachment, ParsedEmail, PriceRequestItem } from '../../common/interfaces';
+import { TableParserService } from '../table-parser.service';
+import { UnifiedIngestionService } from '../unified-ingestion.service';
+import {
+  GOLDEN_FIELDS,
+  GoldenComparison,
+  GoldenField,
+  GoldenItemSnapshot,
+  FieldScore,
+  compareItems,
+  sumFieldScores,
+  toGoldenSnapshot,
+} from './golden-metrics';
+
+// ============================================================
+// HARNAIS DE NON-RÉGRESSION DU PIPELINE D'INGESTION
+//
+// Corpus: un sous-dossier par cas
+//   <cas>/email.json     { subject, from?, body }  (ou <cas>/email.eml)
+//   <cas>/expected.json  PriceRequestItem[] attendus
+//   <cas>/*.pdf|xlsx|docx|png  pièces jointes
+// Baseline: <corpus>/baseline.json (scores et items du dernier run validé)
+//
+// Le pipeline heuristique (UnifiedIngestionService) est exécuté hors
+// ligne: aucun appel LLM, aucun accès IMAP.
+// ============================================================
+
+export const GOLDEN_BASELINE_FILE = 'baseline.json';
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.xls': 'application/vnd.ms-excel',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.doc': 'application/msword',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+const CASE_FILES = ['email.json', 'email.eml', 'expected.json'];
+
+export interface GoldenCase {
+  name: string;
+  email: ParsedEmail;
+  expected: GoldenItemSnapshot[];
+}
+
+export interface GoldenCaseResult extends GoldenComparison {
+  name: string;
+  expectedCount: number;
+  actualCount: number;
+  actualItems: GoldenItemSnapshot[];
+  warnings: string[];
+}
+
+export interface GoldenBaselineCase {
+  fields: Record<GoldenField, FieldScore>;
+  items: GoldenItemSnapshot[];
+}
+
+export interface GoldenBaseline {
+  generatedAt: string;
+  totals: Record<GoldenField, FieldScore>;
+  cases: Record<string, GoldenBaselineCase>;
+}
+
+export interface GoldenScoreChange {
+  caseName: string; // '*' = total du corpus
+  field: GoldenField;
+  metric: 'precision' | 'recall';
+  baseline: number;
+  current: number;
+}
+
+export interface GoldenBaselineDiff {
+  regressions: GoldenScoreChange[];
+  improvements: GoldenScoreChange[];
+  newCases: string[];
+  removedCases: string[];
+  changedItems: Array<{ caseName: string; added: GoldenItemSnapshot[]; removed: GoldenItemSnapshot[] }>;
+}
+
+export interface GoldenReport {
+  corpusDir: string;
+  cases: GoldenCaseResult[];
+  totals: Record<GoldenField, FieldScore>;
+  baselineDiff?: GoldenBaselineDiff;
+}
+
+/**
+ * Exécute un corpus d'emails d'exemple à travers UnifiedIngestionService et
+ * mesure précision / rappel par champ (qty, partNumber, description, brand).
+ */
+export class GoldenRegressionRunner {
+  private readonly logger = new Logger(GoldenRegressionRunner.name);
+
+  constructor(private readonly ingestion: UnifiedIngestionService) {}
+
+  /**
+   * Instancie le pipeline sans contexte Nest (CLI, Jest).
+   * Les parse-logs sont écrits dans un dossier temporaire.
+   */
+  static async create(): Promise<GoldenRegressionRunner> {
+    if (!process.env.OUTPUT_DIR) {
+      process.env.OUTPUT_DIR = path.join(os.tmpdir(), 'golden-parse-logs');
+    }
+
+    const tableParser = new TableParserService();
+    await tableParser.onModuleInit();
+    return new GoldenRegressionRunner(new UnifiedIngestionService(tableParser));
+  }
+
+  async loadCorpus(corpusDir: string): Promise<GoldenCase[]> {
+    const cases: GoldenCase[] = [];
+    const entries = fs.readdirSync(corpusDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+
+    for (const name of entries) {
+      const caseDir = path.join(corpusDir, name);
+      if (!fs.existsSync(path.join(caseDir, 'expected.json'))) {
+        this.logger.warn(`Cas ignoré (expected.json manquant): ${name}`);
+        continue;
+      }
+      cases.push(await this.loadCase(caseDir));
+    }
+
+    return cases;
+  }
+
+  async loadCase(caseDir: string): Promise<GoldenCase> {
+    const name = path.basename(caseDir);
+    const email = await this.loadEmail(caseDir);
+
+    const expectedJson = JSON.parse(fs.readFileSync(path.join(caseDir, 'expected.json'), 'utf-8'));
+    const expectedItems: PriceRequestItem[] = Array.isArray(expectedJson) ? expectedJson : expectedJson.items || [];
+
+    return { name, email, expected: expectedItems.map(toGoldenSnapshot) };
+  }
+
+  async runCase(goldenCase: GoldenCase): Promise<GoldenCaseResult> {
+    const result = await this.ingestion.processEmail(goldenCase.email, `golden-${goldenCase.name}`);
+    const actualItems = result.items.map(toGoldenSnapshot);
+    const comparison = compareItems(goldenCase.expected, actualItems);
+
+    return {
+      name: goldenCase.name,
+      expectedCount: goldenCase.expected.length,
+      actualCount: actualItems.length,
+      actualItems,
+      warnings: result.warnings,
+      ...comparison,
+    };
+  }
+
+  /**
+   * Exécute tout le corpus et compare à la baseline si elle existe
+   */
+  async run(corpusDir: string): Promise<GoldenReport> {
+    const cases: GoldenCaseResult[] = [];
+    for (const goldenCase of await this.loadCorpus(corpusDir)) {
+      cases.push(await this.runCase(goldenCase));
+    }
+
+    const report: GoldenReport = {
+      corpusDir,
+      cases,
+      totals: sumFieldScores(cases.map(c => c.fields)),
+    };
+
+    const baseline = GoldenRegressionRunner.readBaseline(corpusDir);
+    if (baseline) {
+      report.baselineDiff = GoldenRegressionRunner.diffBaseline(baseline, report);
+    }
+
+    return report;
+  }
+
+  static readBaseline(corpusDir: string): GoldenBaseline | null {
+    const filePath = path.join(corpusDir, GOLDEN_BASELINE_FILE);
+    if (!fs.existsSync(filePath)) return null;
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  static writeBaseline(report: GoldenReport): string {
+    const baseline: GoldenBaseline = {
+      generatedAt: new Date().toISOString(),
+      totals: report.totals,
+      cases: Object.fromEntries(
+        report.cases.map(c => [c.name, { fields: c.fields, items: c.actualItems }]),
+      ),
+    };
+
+    const filePath = path.join(report.corpusDir, GOLDEN_BASELINE_FILE);
+    fs.writeFileSync(filePath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+    return filePath;
+  }
+
+  /**
+   * Compare un run à la baseline: baisse / hausse des scores par cas et
+   * items apparus / disparus depuis la baseline.
+   */
+  static diffBaseline(baseline: GoldenBaseline, report: GoldenReport, tolerance = 1e-6): GoldenBaselineDiff {
+    const diff: GoldenBaselineDiff = {
+      regressions: [],
+      improvements: [],
+      newCases: [],
+      removedCases: Object.keys(baseline.cases).filter(name => !report.cases.some(c => c.name === name)),
+      changedItems: [],
+    };
+
+    const compareScores = (caseName: string, before: Record<GoldenField, FieldScore>, after: Record<GoldenField, FieldScore>) => {
+      for (const field of GOLDEN_FIELDS) {
+        for (const metric of ['precision', 'recall'] as const) {
+          const change = { caseName, field, metric, baseline: before[field][metric], current: after[field][metric] };
+          if (change.current < change.baseline - tolerance) diff.regressions.push(change);
+          else if (change.current > change.baseline + tolerance) diff.improvements.push(change);
+        }
+      }
+    };
+
+    for (const result of report.cases) {
+      const before = baseline.cases[result.name];
+      if (!before) {
+        diff.newCases.push(result.name);
+        continue;
+      }
+
+      compareScores(result.name, before.fields, result.fields);
+
+      const key = (item: GoldenItemSnapshot) => JSON.stringify(item);
+      const beforeKeys = new Set(before.items.map(key));
+      const afterKeys = new Set(result.actualItems.map(key));
+      const added = result.actualItems.filter(item => !beforeKeys.has(key(item)));
+      const removed = before.items.filter(item => !afterKeys.has(key(item)));
+      if (added.length > 0 || removed.length > 0) {
+        diff.changedItems.push({ caseName: result.name, added, removed });
+      }
+    }
+
+    compareScores('*', baseline.totals, report.totals);
+    return diff;
+  }
+
+  /**
+   * Rapport texte (console / CI)
+   */
+  static formatReport(report: GoldenReport): string {
+    const pct = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+    const formatItem = (item?: GoldenItemSnapshot) => item
+      ? `${item.qty ?? '?'} x [${item.partNumber ?? '-'}] ${item.description ?? ''}${item.brand ? ` (${item.brand})` : ''}`
+      : '-';
+    const lines: string[] = [];
+
+    lines.push(`Corpus: ${report.corpusDir} (${report.cases.length} cas)`);
+    lines.push('');
+    lines.push(`${'Champ'.padEnd(12)} Précision   Rappel`);
+    for (const field of GOLDEN_FIELDS) {
+      lines.push(`${field.padEnd(12)} ${pct(report.totals[field].precision)}  ${pct(report.totals[field].recall)}`);
+    }
+
+    for (const result of report.cases) {
+      lines.push('');
+      lines.push(`■ ${result.name}: ${result.actualCount} extrait(s) / ${result.expectedCount} attendu(s), ${result.matchedItems} apparié(s)`);
+      for (const item of result.missingItems) lines.push(`  - manquant:   ${formatItem(item)}`);
+      for (const item of result.unexpectedItems) lines.push(`  + inattendu: ${formatItem(item)}`);
+      for (const mismatch of result.mismatchedItems) {
+        const details = mismatch.mismatches
+          .map(m => `${m.field}: ${JSON.stringify(m.expected)} → ${JSON.stringify(m.actual)}`)
+          .join(', ');
+        lines.push(`  ~ ${formatItem(mismatch.expected)}: ${details}`);
+      }
+    }
+
+    const diff = report.baselineDiff;
+    lines.push('');
+    if (!diff) {
+      lines.push('Aucune baseline (lancer avec --update-baseline pour la créer)');
+      return lines.join('\n');
+    }
+
+    const formatChange = (c: GoldenScoreChange) =>
+      `${c.caseName === '*' ? 'TOTAL' : c.caseName} ${c.field}.${c.metric}: ${pct(c.baseline).trim()} → ${pct(c.current).trim()}`;
+
+    lines.push(`Baseline: ${diff.regressions.length} régression(s), ${diff.improvements.length} amélioration(s)`);
+    for (const change of diff.regressions) lines.push(`  ✗ ${formatChange(change)}`);
+    for (const change of diff.improvements) lines.push(`  ✓ ${formatChange(change)}`);
+    for (const name of diff.newCases) lines.push(`  + nouveau cas: ${name}`);
+    for (const name of diff.removedCases) lines.push(`  - cas supprimé: ${name}`);
+    for (const changed of diff.changedItems) {
+      lines.push(`  ${changed.caseName}:`);
+      for (const item of changed.removed) lines.push(`    - ${formatItem(item)}`);
+      for (const item of changed.added) lines.push(`    + ${formatItem(item)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private async loadEmail(caseDir: string): Promise<ParsedEmail> {
+    const name = path.basename(caseDir);
+    const emlPath = path.join(caseDir, 'email.eml');
+
+    if (fs.existsSync(emlPath)) {
+      const parsed = await simpleParser(fs.readFileSync(emlPath));
+      return {
+        id: `golden-${name}`,
+        messageId: parsed.messageId,
+        from: parsed.from?.text || '',
+        to: '',
+        subject: parsed.subject || '',
+        date: parsed.date || new Date(0),
+        body: parsed.text || (typeof parsed.html === 'string' ? parsed.html : ''),
+        attachments: parsed.attachments.map(att => ({
+          filename: att.filename || 'attachment',
+          contentType: att.contentType,
+          content: att.content,
+          size: att.size,
+        })),
+      };
+    }
+
+    const meta = fs.existsSync(path.join(caseDir, 'email.json'))
+      ? JSON.parse(fs.readFileSync(path.join(caseDir, 'email.json'), 'utf-8'))
+      : {};
+
+    return {
+      id: `golden-${name}`,
+      from: meta.from || 'golden@example.com',
+      to: meta.to || 'procurement@multipartsci.com',
+      subject: meta.subject || name,
+      date: meta.date ? new Date(meta.date) : new Date(0),
+      body: meta.body || '',
+      attachments: this.loadAttachments(caseDir),
+    };
+  }
+
+  private loadAttachments(caseDir: string): EmailAttachment[] {
+    return fs.readdirSync(caseDir)
+      .filter(file => !CASE_FILES.includes(file) && fs.statSync(path.join(caseDir, file)).isFile())
+      .sort()
+      .map(file => {
+        const content = fs.readFileSync(path.join(caseDir, file));
+        return {
+          filename: file,
+          contentType: MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream',
+          content,
+          size: content.length,
+        };
+      });
+  }
+}
@@ -0,0 +1,2 @@
+export * from './golden-metrics';
+export * from './golden-runner';
@@ -315,6 +315,30 @@ describe('TableParserService', () => {
         expect(uniqueTypes.size).toBe(types.length); // No duplicates
       }
     });
+
+    it('should detect client-specific headers through column synonyms', () => {
+      const doc: NormalizedDocument = {
+        sourceType: 'attachment_excel',
+        sourceName: 'test.xlsx',
+        hasPositions: false,
+        tables: [[
+          ['Pos', 'Nbre', 'Cdt', 'Matricule SMI', 'Libellé article'],
+          ['1', '4', 'EA', '201368', 'Relais temporisé 24V'],
+          ['2', '2', 'EA', '201369', 'Filtre hydraulique'],
+        ]],
+        rawText: '',
+      };
+
+      expect(service.parseDocument(doc).headerDetection.found).toBe(false);
+
+      const result = service.parseDocument(doc, {
+        columnSynonyms: { qty: ['Nbre'], uom: ['Cdt'], itemCode: ['Matricule SMI'], description: ['Libellé article'] },
+      });
+
+      expect(result.headerDetection.found).toBe(true);
+      expect(result.headerDetection.columns.map(c => c.type)).toEqual(['lineNo', 'qty', 'uom', 'itemCode', 'description']);
+      expect(result.items[0]).toMatchObject({ internalCode: '201368', quantity: 4, description: 'Relais temporisé 24V' });
+    });
   });
 
   // ============================================================================
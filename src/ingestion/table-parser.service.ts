@@ -104,6 +104,14 @@ export interface TableParserConfig {
   maxHeaderSearchLines?: number;
 }
 
+/**
+ * Options par document (profil client)
+ */
+export interface TableParseOptions {
+  // Libellés d'en-tête propres au client, par type de colonne
+  columnSynonyms?: Partial<Record<ColumnType, string[]>>;
+}
+
 // ============================================================================
 // COLONNES ESSENTIELLES À EXTRAIRE (mapping vers PriceRequestItem)
 // ============================================================================
@@ -421,7 +429,7 @@ export class TableParserService implements OnModuleInit {
    * Parse un document normalisé et extrait les items
    * Implémente un mécanisme de fallback si le parsing header-based échoue
    */
-  parseDocument(doc: NormalizedDocument): TableExtractionResult {
+  parseDocument(doc: NormalizedDocument, options: TableParseOptions = {}): TableExtractionResult {
     const warnings: string[] = [];
     let fallbackTriggered = false;
     let fallbackReason: string | undefined;
@@ -429,7 +437,7 @@ export class TableParserService implements OnModuleInit {
     let continuationStats: TableExtractionResult['continuationStats'];
 
     // 1. Détecter l'en-tête
-    const headerDetection = this.detectHeader(doc);
+    const headerDetection = this.detectHeader(doc, options);
 
     if (!headerDetection.found) {
       if (headerDetection.rejectionReason) {
@@ -565,7 +573,8 @@ export class TableParserService implements OnModuleInit {
    * Détecte la ligne d'en-tête dans le document
    * Utilise COLUMN_DICTIONARY complet de types.ts
    */
-  detectHeader(doc: NormalizedDocument): HeaderDetection {
+  detectHeader(doc: NormalizedDocument, options: TableParseOptions = {}): HeaderDetection {
+    const dictionary = this.buildColumnDictionary(options.columnSynonyms);
     const noHeader: HeaderDetection = {
       found: false,
       score: 0,
@@ -577,14 +586,14 @@ export class TableParserService implements OnModuleInit {
     // Vérifier les tables d'abord (Excel)
     if (doc.tables && doc.tables.length > 0) {
       for (const table of doc.tables) {
-        const result = this.detectHeaderInTable(table);
+        const result = this.detectHeaderInTable(table, dictionary);
         if (result.found) return result;
       }
     }
 
     // Vérifier les rows (PDF/texte)
     if (doc.rows && doc.rows.length > 0) {
-      return this.detectHeaderInRows(doc.rows);
+      return this.detectHeaderInRows(doc.rows, dictionary);
     }
 
     // Fallback: texte brut
@@ -594,16 +603,32 @@ export class TableParserService implements OnModuleInit {
         cells: this.splitIntoCells(line),
         lineNumber: idx,
       }));
-      return this.detectHeaderInRows(rows);
+      return this.detectHeaderInRows(rows, dictionary);
     }
 
     return noHeader;
   }
 
+  /**
+   * COLUMN_DICTIONARY enrichi des synonymes d'en-tête du client
+   */
+  private buildColumnDictionary(
+    columnSynonyms?: Partial<Record<ColumnType, string[]>>,
+  ): Record<ColumnType, string[]> {
+    if (!columnSynonyms) return COLUMN_DICTIONARY;
+
+    const dictionary = { ...COLUMN_DICTIONARY };
+    for (const [colType, synonyms] of Object.entries(columnSynonyms)) {
+      if (!synonyms?.length || !(colType in dictionary) || colType === 'unknown') continue;
+      dictionary[colType as ColumnType] = [...synonyms, ...dictionary[colType as ColumnType]];
+    }
+    return dictionary;
+  }
+
   /**
    * Détecte l'en-tête dans un tableau 2D
    */
-  private detectHeaderInTable(table: string[][]): HeaderDetection {
+  private detectHeaderInTable(table: string[][], dictionary: Record<ColumnType, string[]>): HeaderDetection {
     const maxSearch = Math.min(table.length, MAX_HEADER_SEARCH_LINES);
     let bestResult: HeaderDetection = {
       found: false,
@@ -617,7 +642,7 @@ export class TableParserService implements OnModuleInit {
       const row = table[i];
       if (!row || row.length < 2) continue;
 
-      const detection = this.analyzeHeaderRow(row, i);
+      const detection = this.analyzeHeaderRow(row, i, dictionary);
 
       // Only update bestResult if detection is valid (found: true) and better than current
       if (detection.found && detection.score > bestResult.score) {
@@ -638,7 +663,7 @@ export class TableParserService implements OnModuleInit {
   /**
    * Détecte l'en-tête dans des lignes parsées
    */
-  private detectHeaderInRows(rows: ParsedRow[]): HeaderDetection {
+  private detectHeaderInRows(rows: ParsedRow[], dictionary: Record<ColumnType, string[]>): HeaderDetection {
     const maxSearch = Math.min(rows.length, MAX_HEADER_SEARCH_LINES);
     let bestResult: HeaderDetection = {
       found: false,
@@ -655,7 +680,7 @@ export class TableParserService implements OnModuleInit {
       const cells = row.cells.length > 1 ? row.cells : this.splitIntoCells(row.raw);
       if (cells.length < 2) continue;
 
-      const detection = this.analyzeHeaderRow(cells, i);
+      const detection = this.analyzeHeaderRow(cells, i, dictionary);
 
       // Only update bestResult if detection is valid (found: true) and better than current
       // Or if no valid header found yet and this has higher score
@@ -678,7 +703,11 @@ export class TableParserService implements OnModuleInit {
    * Analyse une ligne pour déterminer si c'est un en-tête
    * Utilise COLUMN_DICTIONARY complet et validation stricte
    */
-  private analyzeHeaderRow(cells: string[], lineIndex: number): HeaderDetection {
+  private analyzeHeaderRow(
+    cells: string[],
+    lineIndex: number,
+    dictionary: Record<ColumnType, string[]> = COLUMN_DICTIONARY,
+  ): HeaderDetection {
     const rawText = cells.join(' ').trim();
 
     // 1. Vérifier si c'est une ligne de métadonnées de formulaire
@@ -706,8 +735,8 @@ export class TableParserService implements OnModuleInit {
 
       let bestMatch: { type: ColumnType; score: number } | null = null;
 
-      // Chercher dans COLUMN_DICTIONARY complet
-      for (const [colType, keywords] of Object.entries(COLUMN_DICTIONARY)) {
+      // Chercher dans COLUMN_DICTIONARY complet (+ synonymes client)
+      for (const [colType, keywords] of Object.entries(dictionary)) {
         if (colType === 'unknown' || !keywords || keywords.length === 0) continue;
 
         for (const keyword of keywords) {
@@ -7,7 +7,7 @@ import {
   FilteredImage,
 } from './types';
 import { ImageFilterService, ImageMetadata } from './image-filter.service';
-import { TableParserService, TableExtractionResult } from './table-parser.service';
+import { TableParserService, TableExtractionResult, TableParseOptions } from './table-parser.service';
 import { EmailExtractorService } from './email-extractor.service';
 import { WordParserService } from './word-parser.service';
 import { ParseLogService, ParseLogBuilder } from './parse-log.service';
@@ -60,10 +60,13 @@ export class UnifiedIngestionService {
 
   /**
    * Process a complete email with all attachments
+   * (saveLog = false: the parse log is returned but not written, e.g. dry-run backfill)
    */
   async processEmail(
     email: ParsedEmail,
-    requestId: string
+    requestId: string,
+    parseOptions: TableParseOptions = {},
+    saveLog = true,
   ): Promise<IngestionResult> {
     const logBuilder = this.parseLogService.createBuilder(requestId);
     const allItems: PriceRequestItem[] = [];
@@ -89,7 +92,7 @@ export class UnifiedIngestionService {
 
     try {
       // 1. Process email body
-      const bodyResult = await this.processEmailBody(email, logBuilder);
+      const bodyResult = await this.processEmailBody(email, logBuilder, parseOptions);
       allItems.push(...bodyResult.items);
       if (bodyResult.rfqNumber) rfqNumber = bodyResult.rfqNumber;
       if (bodyResult.needsVerification) needsVerification = true;
@@ -98,7 +101,8 @@ export class UnifiedIngestionService {
       // 2. Process attachments
       const attachmentResult = await this.processAttachments(
         email.attachments,
-        logBuilder
+        logBuilder,
+        parseOptions,
       );
       allItems.push(...attachmentResult.items);
       if (!rfqNumber && attachmentResult.rfqNumber) {
@@ -125,10 +129,12 @@ export class UnifiedIngestionService {
       const parseLog = logBuilder.build();
 
       // Save log file
-      try {
-        await this.parseLogService.saveLog(parseLog);
-      } catch (error) {
-        this.logger.warn(`Failed to save parse log: ${error.message}`);
+      if (saveLog) {
+        try {
+          await this.parseLogService.saveLog(parseLog);
+        } catch (error) {
+          this.logger.warn(`Failed to save parse log: ${error.message}`);
+        }
       }
 
       return {
@@ -156,7 +162,8 @@ export class UnifiedIngestionService {
    */
   private async processEmailBody(
     email: ParsedEmail,
-    logBuilder: ParseLogBuilder
+    logBuilder: ParseLogBuilder,
+    parseOptions: TableParseOptions = {},
   ): Promise<{
     items: PriceRequestItem[];
     rfqNumber?: string;
@@ -218,7 +225,7 @@ export class UnifiedIngestionService {
     // Always parse if there's any content (rows or tables)
     this.logger.debug(`[DEBUG] bodyParsed.rows: ${bodyParsed.rows.length}, bodyParsed.tables: ${bodyParsed.tables.length}`);
     if (bodyParsed.rows.length > 0 || bodyParsed.tables.length > 0) {
-      const tableResult = this.tableParser.parseDocument(normalizedDoc);
+      const tableResult = this.tableParser.parseDocument(normalizedDoc, parseOptions);
       this.logger.debug(`[DEBUG] tableParser extracted ${tableResult.items.length} items`);
       items.push(...tableResult.items);
       logBuilder.applyExtractionResult(tableResult);
@@ -246,7 +253,8 @@ export class UnifiedIngestionService {
    */
   private async processAttachments(
     attachments: EmailAttachment[],
-    logBuilder: ParseLogBuilder
+    logBuilder: ParseLogBuilder,
+    parseOptions: TableParseOptions = {},
   ): Promise<{
     items: PriceRequestItem[];
     rfqNumber?: string;
@@ -300,7 +308,7 @@ export class UnifiedIngestionService {
           size: pdf.size,
         });
 
-        const result = await this.processPdf(pdf, logBuilder);
+        const result = await this.processPdf(pdf, logBuilder, parseOptions);
         items.push(...result.items);
         if (!rfqNumber && result.rfqNumber) rfqNumber = result.rfqNumber;
         if (result.needsVerification) needsVerification = true;
@@ -321,7 +329,7 @@ export class UnifiedIngestionService {
           size: excel.size,
         });
 
-        const result = await this.processExcel(excel, logBuilder);
+        const result = await this.processExcel(excel, logBuilder, parseOptions);
         items.push(...result.items);
         if (!rfqNumber && result.rfqNumber) rfqNumber = result.rfqNumber;
         warnings.push(...result.warnings);
@@ -343,7 +351,7 @@ export class UnifiedIngestionService {
           size: word.size,
         });
 
-        const result = await this.processWord(word, logBuilder);
+        const result = await this.processWord(word, logBuilder, parseOptions);
         items.push(...result.items);
         if (!rfqNumber && result.rfqNumber) rfqNumber = result.rfqNumber;
         warnings.push(...result.warnings);
@@ -398,7 +406,8 @@ export class UnifiedIngestionService {
    */
   private async processPdf(
     att: EmailAttachment,
-    logBuilder: ParseLogBuilder
+    logBuilder: ParseLogBuilder,
+    parseOptions: TableParseOptions = {},
   ): Promise<{
     items: PriceRequestItem[];
     rfqNumber?: string;
@@ -465,7 +474,7 @@ export class UnifiedIngestionService {
     };
 
     // Parse document
-    const result = this.tableParser.parseDocument(normalizedDoc);
+    const result = this.tableParser.parseDocument(normalizedDoc, parseOptions);
     logBuilder.applyExtractionResult(result);
 
     // Extract RFQ number
@@ -484,7 +493,8 @@ export class UnifiedIngestionService {
    */
   private async processExcel(
     att: EmailAttachment,
-    logBuilder: ParseLogBuilder
+    logBuilder: ParseLogBuilder,
+    parseOptions: TableParseOptions = {},
   ): Promise<{
     items: PriceRequestItem[];
     rfqNumber?: string;
@@ -519,7 +529,7 @@ export class UnifiedIngestionService {
     };
 
     // Parse document
-    const result = this.tableParser.parseDocument(normalizedDoc);
+    const result = this.tableParser.parseDocument(normalizedDoc, parseOptions);
     logBuilder.applyExtractionResult(result);
 
     // Extract RFQ number
@@ -537,7 +547,8 @@ export class UnifiedIngestionService {
    */
   private async processWord(
     att: EmailAttachment,
-    logBuilder: ParseLogBuilder
+    logBuilder: ParseLogBuilder,
+    parseOptions: TableParseOptions = {},
   ): Promise<{
     items: PriceRequestItem[];
     rfqNumber?: string;
@@ -547,7 +558,7 @@ export class UnifiedIngestionService {
     logBuilder.setExtractionMethod('word');
 
     // Parse document
-    const result = this.tableParser.parseDocument(normalizedDoc);
+    const result = this.tableParser.parseDocument(normalizedDoc, parseOptions);
     logBuilder.applyExtractionResult(result);
 
     // Extract RFQ number
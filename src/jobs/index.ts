@@ -0,0 +1,4 @@
+export * from './jobs.interfaces';
+export * from './job-queue.service';
+export * from './jobs.module';
+export * from './jobs.controller';
@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as initSqlJs from 'sql.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobQueueService } from './job-queue.service';
+import { DatabaseService } from '../database/database.service';
+import { getRequestContext } from '../common/request-context';
+
+describe('JobQueueService', () => {
+  let service: JobQueueService;
+  let db: any;
+
+  const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    db = new SQL.Database();
+    const config: Record<string, any> = {
+      'jobs.workerEnabled': false,
+      'jobs.maxAttempts': 3,
+      'jobs.backoffSeconds': 60,
+      'jobs.leaseSeconds': 300,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobQueueService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) },
+        },
+        {
+          provide: DatabaseService,
+          useValue: { db, saveToFile: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<JobQueueService>(JobQueueService);
+  });
+
+  it('should retry failed jobs with exponential backoff until max attempts', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('IMAP indisponible'));
+    service.registerHandler('test.flaky', handler, { maxAttempts: 2, backoffSeconds: 60 });
+    const job = service.enqueue('test.flaky', { folder: 'INBOX' });
+
+    await service.runDueJobs();
+    let current = service.getJob(job.id)!;
+    expect(current).toMatchObject({ status: 'pending', attempts: 1, lastError: 'IMAP indisponible' });
+    expect(current.runAt.getTime()).toBeGreaterThan(Date.now() + 55 * 1000);
+
+    // Pas encore dû
+    await service.runDueJobs();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await service.runDueJobs(minutesFromNow(2));
+    current = service.getJob(job.id)!;
+    expect(current).toMatchObject({ status: 'failed', attempts: 2 });
+    expect(current.finishedAt).toBeDefined();
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({ payload: { folder: 'INBOX' } }));
+
+    expect(service.retryJob(job.id)).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('should run handlers in a job context and store their result', async () => {
+    service.registerHandler('test.ok', async () => ({ sent: 2, actor: getRequestContext()?.actor }));
+    const job = service.enqueue('test.ok');
+
+    await service.runDueJobs();
+
+    expect(service.getJob(job.id)).toMatchObject({
+      status: 'completed',
+      attempts: 1,
+      result: { sent: 2, actor: 'job:test.ok' },
+    });
+  });
+
+  it('should enqueue scheduled occurrences and skip them while one is still active', async () => {
+    service.schedule('test.scheduled', { intervalMinutes: 10 });
+
+    await service.runDueJobs(minutesFromNow(11));
+    await service.runDueJobs(minutesFromNow(22));
+
+    // Aucun handler enregistré: la première occurrence reste en attente, la seconde est sautée
+    const jobs = service.listJobs({ type: 'test.scheduled' });
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0].status).toBe('pending');
+    expect(service.getSchedule('test.scheduled')!.nextRunAt!.getTime()).toBeGreaterThan(minutesFromNow(31).getTime());
+  });
+
+  it('should compute the next cron occurrence in the schedule time zone', () => {
+    service.schedule('test.cron', { cron: '0 0 9 * * *', timeZone: 'Africa/Abidjan' });
+
+    const nextRunAt = service.getSchedule('test.cron')!.nextRunAt!;
+    expect(nextRunAt.getUTCHours()).toBe(9);
+    expect(nextRunAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should not run jobs of a paused type until resumed', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    service.registerHandler('test.paused', handler);
+    const job = service.enqueue('test.paused');
+
+    service.setPaused('test.paused', true);
+    await service.runDueJobs();
+    expect(handler).not.toHaveBeenCalled();
+    expect(service.getJob(job.id)!.status).toBe('pending');
+
+    service.setPaused('test.paused', false);
+    await service.runDueJobs();
+    expect(service.getJob(job.id)!.status).toBe('completed');
+  });
+
+  it('should recover running jobs whose lease expired', async () => {
+    const job = service.enqueue('test.crashed');
+    db.run(
+      `UPDATE jobs SET status = 'running', attempts = 1, locked_by = 'old-worker', locked_until = ? WHERE id = ?`,
+      [minutesFromNow(-1).toISOString(), job.id],
+    );
+
+    await service.runDueJobs();
+
+    const recovered = service.getJob(job.id)!;
+    expect(recovered.status).toBe('pending');
+    expect(recovered.lockedBy).toBeUndefined();
+    expect(recovered.lastError).toContain('old-worker');
+  });
+
+  it('should reject cancelling a completed job', async () => {
+    service.registerHandler('test.done', async () => undefined);
+    const job = service.enqueue('test.done');
+    await service.runDueJobs();
+
+    expect(() => service.cancelJob(job.id)).toThrow('Tâche déjà terminée');
+    expect(() => service.retryJob('unknown')).toThrow('non trouvée');
+  });
+
+  describe('worker lock', () => {
+    let dataDir: string;
+    let lockPath: string;
+
+    // Deux instances partageant le dossier de la base
+    const instance = (workerId: string) => {
+      const config: Record<string, any> = { 'app.dbPath': path.join(dataDir, 'price-request.db'), 'jobs.pollSeconds': 15 };
+      const worker = new JobQueueService(
+        { get: (key: string, defaultValue?: any) => config[key] ?? defaultValue } as any,
+        { db, saveToFile: jest.fn() } as any,
+      );
+      (worker as any).workerId = workerId;
+      return { worker, acquire: () => (worker as any).acquireWorkerLock() as boolean };
+    };
+
+    const owner = () => JSON.parse(fs.readFileSync(lockPath, 'utf-8')).owner;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-lock-'));
+      lockPath = path.join(dataDir, 'jobs-worker.lock');
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should let only one of two instances starting together take the lock', () => {
+      const a = instance('host-a:1');
+      const b = instance('host-b:2');
+
+      expect([a.acquire(), b.acquire()]).toEqual([true, false]);
+      expect(a.acquire()).toBe(true); // renouvellement
+      expect(b.acquire()).toBe(false);
+      expect(owner()).toBe('host-a:1');
+
+      a.worker.onModuleDestroy();
+      expect(b.acquire()).toBe(true);
+      expect(owner()).toBe('host-b:2');
+    });
+
+    it('should hand a stale lock to a single instance when two compete for it', () => {
+      fs.writeFileSync(lockPath, JSON.stringify({ owner: 'host-old:9', expiresAt: new Date(Date.now() - 1000).toISOString() }));
+      const a = instance('host-a:1');
+      const b = instance('host-b:2');
+
+      // B lit le bail expiré, puis A le reprend avant que B ne le déplace
+      const readFileSync = fs.readFileSync;
+      let interleaved = false;
+      jest.spyOn(fs, 'readFileSync').mockImplementation(((file: any, options: any) => {
+        const content = readFileSync(file, options);
+        if (!interleaved && file === lockPath) {
+          interleaved = true;
+          expect(a.acquire()).toBe(true);
+        }
+        return content;
+      }) as any);
+
+      expect(b.acquire()).toBe(false);
+      expect(owner()).toBe('host-a:1');
+      expect(fs.readdirSync(dataDir)).toEqual(['jobs-worker.lock']);
+
+      jest.restoreAllMocks();
+      expect(b.acquire()).toBe(false);
+      expect(a.acquire()).toBe(true);
+    });
+
+    it('should not treat a lock being written as stale', () => {
+      fs.writeFileSync(lockPath, '');
+
+      expect(instance('host-b:2').acquire()).toBe(false);
+      expect(fs.readFileSync(lockPath, 'utf-8')).toBe('');
+    });
+  });
+});
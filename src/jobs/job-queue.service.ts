@@ -0,0 +1,648 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronTime } from 'cron';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/database.service';
+import { runWithContext } from '../common/request-context';
+import {
+  EnqueueJobOptions,
+  Job,
+  JobHandler,
+  JobHandlerOptions,
+  JobSchedule,
+  JobScheduleOptions,
+  JobStatus,
+} from './jobs.interfaces';
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  options: JobHandlerOptions;
+}
+
+const MAX_RESULT_LENGTH = 10000;
+
+/**
+ * File de tâches persistante (tables jobs / job_schedules).
+ *
+ * - Les modules enregistrent un handler par type de tâche et, le cas échéant, une planification
+ *   (cron ou intervalle); une seule occurrence d'un type est active à la fois.
+ * - Une tâche en cours détient un bail prolongé tant qu'elle tourne: un bail expiré signifie que
+ *   le processus s'est arrêté, la tâche est alors reprise.
+ * - Échec: nouvel essai après backoffSeconds × 2^(essais - 1), jusqu'à maxAttempts.
+ * - Plusieurs instances: seule celle qui détient le verrou de worker (fichier à côté de la base)
+ *   exécute les tâches.
+ */
+@Injectable()
+export class JobQueueService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private readonly handlers = new Map<string, RegisteredHandler>();
+  private readonly pendingSchedules = new Map<string, JobScheduleOptions>();
+  private readonly running = new Set<string>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private ready = false;
+  private tablesReady = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly databaseService: DatabaseService,
+  ) {}
+
+  private get db(): any {
+    const db = (this.databaseService as any).db;
+    // Tables créées au premier accès: les modules suspendent leurs tâches dès leur onModuleInit
+    if (!this.tablesReady) {
+      this.tablesReady = true;
+      this.initializeTables(db);
+    }
+    return db;
+  }
+
+  /**
+   * Après l'initialisation de tous les modules: les handlers et planifications sont enregistrés
+   */
+  async onApplicationBootstrap() {
+    this.ready = true;
+    for (const [type, options] of this.pendingSchedules) {
+      this.saveSchedule(type, options);
+    }
+    this.pendingSchedules.clear();
+
+    if (!this.configService.get<boolean>('jobs.workerEnabled', true)) {
+      this.logger.log('Worker de tâches désactivé sur cette instance (JOBS_WORKER_ENABLED=false)');
+      return;
+    }
+
+    const pollSeconds = this.configService.get<number>('jobs.pollSeconds') || 15;
+    this.pollTimer = setInterval(() => this.poll(), pollSeconds * 1000);
+    this.logger.log(`Worker de tâches ${this.workerId} démarré (${this.handlers.size} types, toutes les ${pollSeconds}s)`);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.releaseWorkerLock();
+  }
+
+  private initializeTables(db: any): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        payload_json TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        run_at TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        backoff_seconds INTEGER NOT NULL,
+        locked_by TEXT,
+        locked_until TEXT,
+        last_error TEXT,
+        result_json TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        finished_at TEXT
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_jobs_type ON jobs(type)`);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS job_schedules (
+        type TEXT PRIMARY KEY,
+        cron TEXT,
+        interval_minutes INTEGER,
+        time_zone TEXT,
+        paused INTEGER NOT NULL DEFAULT 0,
+        next_run_at TEXT,
+        last_enqueued_at TEXT,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  // ============ ENREGISTREMENT ============
+
+  registerHandler<TPayload = any>(type: string, handler: JobHandler<TPayload>, options: JobHandlerOptions = {}): void {
+    this.handlers.set(type, { handler, options });
+  }
+
+  /**
+   * Planification récurrente d'un type (cron ou intervalle en minutes).
+   * L'état de pause est conservé; la prochaine échéance est recalculée si la planification change.
+   */
+  schedule(type: string, options: JobScheduleOptions): void {
+    if (!options.cron && !options.intervalMinutes) {
+      throw new Error(`Planification invalide pour ${type}: cron ou intervalMinutes requis`);
+    }
+    if (this.ready) {
+      this.saveSchedule(type, options);
+    } else {
+      this.pendingSchedules.set(type, options);
+    }
+  }
+
+  private saveSchedule(type: string, options: JobScheduleOptions): void {
+    const existing = this.getSchedule(type);
+    const now = new Date();
+    const unchanged = existing
+      && existing.cron === options.cron
+      && existing.intervalMinutes === options.intervalMinutes
+      && existing.timeZone === options.timeZone;
+    const nextRunAt = unchanged && existing.nextRunAt ? existing.nextRunAt : this.computeNextRun(options, now);
+
+    this.db.run(`
+      INSERT INTO job_schedules (type, cron, interval_minutes, time_zone, paused, next_run_at, updated_at)
+      VALUES (?, ?, ?, ?, 0, ?, ?)
+      ON CONFLICT(type) DO UPDATE SET
+        cron = excluded.cron,
+        interval_minutes = excluded.interval_minutes,
+        time_zone = excluded.time_zone,
+        next_run_at = excluded.next_run_at,
+        updated_at = excluded.updated_at
+    `, [type, options.cron || null, options.intervalMinutes || null, options.timeZone || null, nextRunAt.toISOString(), now.toISOString()]);
+    this.databaseService.saveToFile();
+  }
+
+  private computeNextRun(options: JobScheduleOptions, from: Date): Date {
+    if (options.cron) {
+      return new CronTime(options.cron, options.timeZone).getNextDateFrom(from, options.timeZone).toJSDate();
+    }
+    return new Date(from.getTime() + (options.intervalMinutes || 1) * 60 * 1000);
+  }
+
+  // ============ FILE ============
+
+  enqueue<TPayload = any>(type: string, payload?: TPayload, options: EnqueueJobOptions = {}): Job<TPayload> {
+    const registration = this.handlers.get(type);
+    const now = new Date();
+    const id = uuidv4();
+
+    this.db.run(`
+      INSERT INTO jobs (id, type, payload_json, status, run_at, attempts, max_attempts, backoff_seconds, created_at, updated_at)
+      VALUES (?, ?, ?, 'pending', ?, 0, ?, ?, ?, ?)
+    `, [
+      id,
+      type,
+      payload === undefined ? null : JSON.stringify(payload),
+      (options.runAt || now).toISOString(),
+      options.maxAttempts ?? registration?.options.maxAttempts ?? this.configService.get<number>('jobs.maxAttempts') ?? 3,
+      options.backoffSeconds ?? registration?.options.backoffSeconds ?? this.configService.get<number>('jobs.backoffSeconds') ?? 60,
+      now.toISOString(),
+      now.toISOString(),
+    ]);
+    this.databaseService.saveToFile();
+
+    return this.getJob(id)!;
+  }
+
+  getJob(id: string): Job | null {
+    const result = this.db.exec(`SELECT * FROM jobs WHERE id = ?`, [id]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.mapRowToJob(result[0].columns, result[0].values[0]);
+  }
+
+  listJobs(filters: { status?: JobStatus; type?: string; limit?: number } = {}): Job[] {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.type) {
+      conditions.push('type = ?');
+      params.push(filters.type);
+    }
+    params.push(filters.limit || 100);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = this.db.exec(`SELECT * FROM jobs ${where} ORDER BY created_at DESC LIMIT ?`, params);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToJob(result[0].columns, row));
+  }
+
+  getSchedule(type: string): JobSchedule | null {
+    const result = this.db.exec(`SELECT * FROM job_schedules WHERE type = ?`, [type]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.mapRowToSchedule(result[0].columns, result[0].values[0]);
+  }
+
+  listSchedules(): JobSchedule[] {
+    const result = this.db.exec(`SELECT * FROM job_schedules ORDER BY type`);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToSchedule(result[0].columns, row));
+  }
+
+  getRegisteredTypes(): string[] {
+    return [...this.handlers.keys()].sort();
+  }
+
+  getWorkerStatus(): { workerId: string; enabled: boolean; polling: boolean; running: string[] } {
+    return {
+      workerId: this.workerId,
+      enabled: this.configService.get<boolean>('jobs.workerEnabled', true),
+      polling: this.pollTimer !== null,
+      running: [...this.running],
+    };
+  }
+
+  // ============ PILOTAGE ============
+
+  /**
+   * Relancer une tâche échouée ou annulée (compteur d'essais remis à zéro)
+   */
+  retryJob(id: string): Job {
+    const job = this.requireJob(id);
+    if (job.status === 'running') {
+      throw new BadRequestException('Tâche en cours d\'exécution');
+    }
+
+    const now = new Date().toISOString();
+    this.db.run(`
+      UPDATE jobs
+      SET status = 'pending', attempts = 0, run_at = ?, locked_by = NULL, locked_until = NULL, finished_at = NULL, updated_at = ?
+      WHERE id = ?
+    `, [now, now, id]);
+    this.databaseService.saveToFile();
+    return this.getJob(id)!;
+  }
+
+  cancelJob(id: string): Job {
+    const job = this.requireJob(id);
+    if (job.status === 'running') {
+      throw new BadRequestException('Tâche en cours d\'exécution: attendre la fin ou mettre le type en pause');
+    }
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      throw new BadRequestException(`Tâche déjà ${job.status === 'completed' ? 'terminée' : 'annulée'}`);
+    }
+
+    const now = new Date().toISOString();
+    this.db.run(`UPDATE jobs SET status = 'cancelled', finished_at = ?, updated_at = ? WHERE id = ?`, [now, now, id]);
+    this.databaseService.saveToFile();
+    return this.getJob(id)!;
+  }
+
+  /**
+   * Suspendre un type: ni planification ni exécution des tâches en attente
+   */
+  setPaused(type: string, paused: boolean): JobSchedule {
+    const now = new Date().toISOString();
+    this.db.run(`
+      INSERT INTO job_schedules (type, paused, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(type) DO UPDATE SET paused = excluded.paused, updated_at = excluded.updated_at
+    `, [type, paused ? 1 : 0, now]);
+    this.databaseService.saveToFile();
+    this.logger.log(`Tâches ${type} ${paused ? 'suspendues' : 'réactivées'}`);
+    return this.getSchedule(type)!;
+  }
+
+  private requireJob(id: string): Job {
+    const job = this.getJob(id);
+    if (!job) {
+      throw new NotFoundException(`Tâche ${id} non trouvée`);
+    }
+    return job;
+  }
+
+  // ============ EXÉCUTION ============
+
+  private poll(): void {
+    if (!this.acquireWorkerLock()) {
+      return;
+    }
+    this.runDueJobs().catch(error => this.logger.error(`Erreur file de tâches: ${error.message}`));
+  }
+
+  /**
+   * Reprendre les baux expirés, planifier les occurrences échues et lancer les tâches dues
+   * (une à la fois par type). Résout quand les tâches lancées sont terminées.
+   */
+  async runDueJobs(now: Date = new Date()): Promise<void> {
+    this.recoverExpiredLeases(now);
+    this.enqueueScheduledJobs(now);
+
+    const result = this.db.exec(`
+      SELECT j.* FROM jobs j
+      LEFT JOIN job_schedules s ON s.type = j.type
+      WHERE j.status = 'pending' AND j.run_at <= ? AND COALESCE(s.paused, 0) = 0
+        AND NOT EXISTS (SELECT 1 FROM jobs r WHERE r.type = j.type AND r.status = 'running')
+      ORDER BY j.run_at ASC
+    `, [now.toISOString()]);
+    if (result.length === 0) return;
+
+    const executions: Promise<void>[] = [];
+    const startedTypes = new Set<string>();
+
+    for (const row of result[0].values) {
+      const job = this.mapRowToJob(result[0].columns, row);
+      const registration = this.handlers.get(job.type);
+      if (!registration || startedTypes.has(job.type)) continue;
+
+      startedTypes.add(job.type);
+      this.claim(job, now);
+      executions.push(this.execute(job, registration));
+    }
+
+    await Promise.all(executions);
+  }
+
+  private claim(job: Job, now: Date): void {
+    job.attempts += 1;
+    job.status = 'running';
+    this.db.run(`
+      UPDATE jobs SET status = 'running', attempts = ?, locked_by = ?, locked_until = ?, updated_at = ?
+      WHERE id = ?
+    `, [job.attempts, this.workerId, this.leaseExpiry(now).toISOString(), now.toISOString(), job.id]);
+    this.databaseService.saveToFile();
+  }
+
+  private async execute(job: Job, registration: RegisteredHandler): Promise<void> {
+    this.running.add(job.id);
+    const leaseSeconds = this.configService.get<number>('jobs.leaseSeconds') || 300;
+    const heartbeat = setInterval(() => {
+      this.db.run(`UPDATE jobs SET locked_until = ? WHERE id = ? AND locked_by = ?`, [
+        this.leaseExpiry(new Date()).toISOString(), job.id, this.workerId,
+      ]);
+    }, (leaseSeconds * 1000) / 3);
+
+    try {
+      // Les événements d'audit produits par la tâche portent son identifiant
+      const result = await runWithContext({ actor: `job:${job.type}`, correlationId: job.id }, () =>
+        registration.handler(job),
+      );
+      this.complete(job, result);
+    } catch (error) {
+      this.fail(job, error?.message || String(error));
+    } finally {
+      clearInterval(heartbeat);
+      this.running.delete(job.id);
+    }
+  }
+
+  private complete(job: Job, result: any): void {
+    const now = new Date().toISOString();
+    let resultJson = result === undefined ? null : JSON.stringify(result);
+    if (resultJson && resultJson.length > MAX_RESULT_LENGTH) {
+      resultJson = JSON.stringify({ truncated: true, preview: resultJson.substring(0, MAX_RESULT_LENGTH) });
+    }
+
+    this.db.run(`
+      UPDATE jobs SET status = 'completed', result_json = ?, locked_by = NULL, locked_until = NULL, finished_at = ?, updated_at = ?
+      WHERE id = ?
+    `, [resultJson, now, now, job.id]);
+    this.databaseService.saveToFile();
+    this.logger.debug(`Tâche ${job.type} (${job.id}) terminée`);
+  }
+
+  private fail(job: Job, message: string): void {
+    const now = new Date();
+    const exhausted = job.attempts >= job.maxAttempts;
+    const retryAt = new Date(now.getTime() + job.backoffSeconds * 1000 * Math.pow(2, job.attempts - 1));
+
+    this.db.run(`
+      UPDATE jobs
+      SET status = ?, run_at = ?, last_error = ?, locked_by = NULL, locked_until = NULL, finished_at = ?, updated_at = ?
+      WHERE id = ?
+    `, [
+      exhausted ? 'failed' : 'pending',
+      exhausted ? job.runAt.toISOString() : retryAt.toISOString(),
+      message,
+      exhausted ? now.toISOString() : null,
+      now.toISOString(),
+      job.id,
+    ]);
+    this.databaseService.saveToFile();
+
+    if (exhausted) {
+      this.logger.error(`Tâche ${job.type} (${job.id}) en échec après ${job.attempts} essai(s): ${message}`);
+    } else {
+      this.logger.warn(`Tâche ${job.type} (${job.id}) essai ${job.attempts}/${job.maxAttempts} échoué, reprise à ${retryAt.toISOString()}: ${message}`);
+    }
+  }
+
+  /**
+   * Tâches "en cours" dont le bail a expiré: le processus qui les exécutait s'est arrêté
+   */
+  private recoverExpiredLeases(now: Date): void {
+    const result = this.db.exec(
+      `SELECT * FROM jobs WHERE status = 'running' AND (locked_until IS NULL OR locked_until < ?)`,
+      [now.toISOString()],
+    );
+    if (result.length === 0) return;
+
+    for (const row of result[0].values) {
+      const job = this.mapRowToJob(result[0].columns, row);
+      if (this.running.has(job.id)) continue;
+      this.fail(job, `Bail expiré (${job.lockedBy || 'worker inconnu'}): exécution interrompue`);
+    }
+  }
+
+  private enqueueScheduledJobs(now: Date): void {
+    for (const schedule of this.listSchedules()) {
+      if (schedule.paused || !schedule.nextRunAt || schedule.nextRunAt > now) continue;
+      if (!schedule.cron && !schedule.intervalMinutes) continue;
+
+      const active = this.db.exec(
+        `SELECT COUNT(*) FROM jobs WHERE type = ? AND status IN ('pending', 'running')`,
+        [schedule.type],
+      );
+      const nextRunAt = this.computeNextRun(schedule, now);
+
+      if ((active[0]?.values[0]?.[0] || 0) === 0) {
+        this.enqueue(schedule.type, undefined, { runAt: schedule.nextRunAt });
+        this.db.run(`UPDATE job_schedules SET last_enqueued_at = ? WHERE type = ?`, [now.toISOString(), schedule.type]);
+      }
+      // Occurrence précédente encore active: celle-ci est sautée
+      this.db.run(`UPDATE job_schedules SET next_run_at = ?, updated_at = ? WHERE type = ?`, [
+        nextRunAt.toISOString(), now.toISOString(), schedule.type,
+      ]);
+      this.databaseService.saveToFile();
+    }
+  }
+
+  private leaseExpiry(from: Date): Date {
+    const leaseSeconds = this.configService.get<number>('jobs.leaseSeconds') || 300;
+    return new Date(from.getTime() + leaseSeconds * 1000);
+  }
+
+  // ============ VERROU DE WORKER (MULTI-INSTANCES) ============
+
+  private get workerLockPath(): string {
+    const dbPath = this.configService.get<string>('app.dbPath') || './data/price-request.db';
+    return path.join(path.dirname(dbPath), 'jobs-worker.lock');
+  }
+
+  /**
+   * Une seule instance exécute les tâches: le verrou est renouvelé à chaque passage
+   * et repris par une autre instance s'il n'est plus renouvelé.
+   *
+   * Création exclusive (wx): deux instances qui démarrent ensemble ne peuvent pas créer le
+   * verrou toutes les deux. Un verrou expiré est d'abord déplacé (rename atomique: une seule
+   * instance y parvient) puis comparé au bail lu; s'il a changé entre-temps il est remis en place.
+   */
+  private acquireWorkerLock(): boolean {
+    const now = Date.now();
+    const current = this.readWorkerLock(this.workerLockPath);
+
+    if (!current) {
+      return this.createWorkerLock(now);
+    }
+
+    const expired = !(Date.parse(current.expiresAt || '') > now);
+    if (current.owner === this.workerId && !expired) {
+      return this.renewWorkerLock(now);
+    }
+    if (!expired) {
+      return false;
+    }
+
+    // Verrou expiré (ou illisible): reprise si personne ne l'a repris entre-temps
+    const stalePath = `${this.workerLockPath}.${process.pid}.${uuidv4()}`;
+    try {
+      fs.renameSync(this.workerLockPath, stalePath);
+    } catch {
+      return false; // Déjà repris par une autre instance
+    }
+
+    const moved = this.readWorkerLock(stalePath);
+    if (moved?.raw !== current.raw) {
+      // Bail renouvelé ou recréé après notre lecture: le remettre en place s'il n'a pas été remplacé
+      try {
+        fs.linkSync(stalePath, this.workerLockPath);
+      } catch {
+        // Un nouveau verrou existe déjà
+      }
+      fs.rmSync(stalePath, { force: true });
+      return false;
+    }
+
+    fs.rmSync(stalePath, { force: true });
+    this.logger.warn(`Verrou de worker expiré (${current.owner || 'illisible'}) repris par ${this.workerId}`);
+    return this.createWorkerLock(now);
+  }
+
+  private createWorkerLock(now: number): boolean {
+    try {
+      const fd = fs.openSync(this.workerLockPath, 'wx');
+      try {
+        fs.writeSync(fd, this.workerLockContent(now));
+      } finally {
+        fs.closeSync(fd);
+      }
+      return true;
+    } catch (error) {
+      if (error.code !== 'EEXIST') {
+        this.logger.error(`Verrou de worker impossible: ${error.message}`);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Prolonger notre bail: écriture dans un fichier temporaire puis rename (jamais de verrou partiel)
+   */
+  private renewWorkerLock(now: number): boolean {
+    const tempPath = `${this.workerLockPath}.${process.pid}.${uuidv4()}`;
+    try {
+      fs.writeFileSync(tempPath, this.workerLockContent(now));
+      fs.renameSync(tempPath, this.workerLockPath);
+      return true;
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true });
+      this.logger.error(`Renouvellement du verrou de worker impossible: ${error.message}`);
+      return false;
+    }
+  }
+
+  private workerLockContent(now: number): string {
+    return JSON.stringify({
+      owner: this.workerId,
+      expiresAt: new Date(now + this.workerLockSeconds * 1000).toISOString(),
+    });
+  }
+
+  private get workerLockSeconds(): number {
+    return (this.configService.get<number>('jobs.pollSeconds') || 15) * 3;
+  }
+
+  /**
+   * Contenu du verrou; null s'il est absent. Un verrou illisible (en cours d'écriture juste
+   * après sa création) expire une durée de bail après sa dernière modification.
+   */
+  private readWorkerLock(lockPath: string): { owner?: string; expiresAt?: string; raw: string } | null {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(lockPath, 'utf-8');
+    } catch {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      return { owner: parsed.owner, expiresAt: parsed.expiresAt, raw };
+    } catch {
+      try {
+        const modifiedAt = fs.statSync(lockPath).mtimeMs;
+        return { expiresAt: new Date(modifiedAt + this.workerLockSeconds * 1000).toISOString(), raw };
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  private releaseWorkerLock(): void {
+    if (this.readWorkerLock(this.workerLockPath)?.owner === this.workerId) {
+      fs.rmSync(this.workerLockPath, { force: true });
+    }
+  }
+
+  // ============ MAPPERS ============
+
+  private mapRowToJob(columns: string[], row: any[]): Job {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      type: obj.type,
+      payload: obj.payload_json ? JSON.parse(obj.payload_json) : undefined,
+      status: obj.status,
+      runAt: new Date(obj.run_at),
+      attempts: obj.attempts,
+      maxAttempts: obj.max_attempts,
+      backoffSeconds: obj.backoff_seconds,
+      lockedBy: obj.locked_by || undefined,
+      lockedUntil: obj.locked_until ? new Date(obj.locked_until) : undefined,
+      lastError: obj.last_error || undefined,
+      result: obj.result_json ? JSON.parse(obj.result_json) : undefined,
+      createdAt: new Date(obj.created_at),
+      updatedAt: new Date(obj.updated_at),
+      finishedAt: obj.finished_at ? new Date(obj.finished_at) : undefined,
+    };
+  }
+
+  private mapRowToSchedule(columns: string[], row: any[]): JobSchedule {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      type: obj.type,
+      cron: obj.cron || undefined,
+      intervalMinutes: obj.interval_minutes || undefined,
+      timeZone: obj.time_zone || undefined,
+      paused: obj.paused === 1,
+      nextRunAt: obj.next_run_at ? new Date(obj.next_run_at) : undefined,
+      lastEnqueuedAt: obj.last_enqueued_at ? new Date(obj.last_enqueued_at) : undefined,
+      updatedAt: new Date(obj.updated_at),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import { BadRequestException, Body, Controller, Get, NotFoundException, Param, Post, Query } from '@nestjs/common';
+import { JobQueueService } from './job-queue.service';
+import { JOB_STATUSES, JobStatus } from './jobs.interfaces';
+import { Roles } from '../auth/auth.decorators';
+
+@Controller('scheduler/jobs')
+export class JobsController {
+  constructor(private readonly jobQueue: JobQueueService) {}
+
+  /**
+   * GET /scheduler/jobs?status=&type=&limit=
+   * Tâches (les plus récentes d'abord), planifications et état du worker
+   */
+  @Get()
+  listJobs(
+    @Query('status') status?: string,
+    @Query('type') type?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      throw new BadRequestException(`Statut invalide: ${status} (${JOB_STATUSES.join(', ')})`);
+    }
+
+    const jobs = this.jobQueue.listJobs({
+      status: status as JobStatus,
+      type,
+      limit: limit ? parseInt(limit, 10) : 100,
+    });
+    return {
+      success: true,
+      worker: this.jobQueue.getWorkerStatus(),
+      types: this.jobQueue.getRegisteredTypes(),
+      schedules: this.jobQueue.listSchedules(),
+      count: jobs.length,
+      jobs,
+    };
+  }
+
+  @Get(':id')
+  getJob(@Param('id') id: string) {
+    const job = this.jobQueue.getJob(id);
+    if (!job) {
+      throw new NotFoundException(`Tâche ${id} non trouvée`);
+    }
+    return { success: true, job };
+  }
+
+  @Roles('admin')
+  @Post(':id/retry')
+  retryJob(@Param('id') id: string) {
+    return { success: true, job: this.jobQueue.retryJob(id) };
+  }
+
+  @Roles('admin')
+  @Post(':id/cancel')
+  cancelJob(@Param('id') id: string) {
+    return { success: true, job: this.jobQueue.cancelJob(id) };
+  }
+
+  /**
+   * POST /scheduler/jobs/types/:type/run
+   * Exécution immédiate d'un type de tâche (hors planification)
+   */
+  @Roles('admin')
+  @Post('types/:type/run')
+  runNow(@Param('type') type: string, @Body() body?: { payload?: any }) {
+    if (!this.jobQueue.getRegisteredTypes().includes(type)) {
+      throw new NotFoundException(`Type de tâche inconnu: ${type}`);
+    }
+    return { success: true, job: this.jobQueue.enqueue(type, body?.payload) };
+  }
+
+  @Roles('admin')
+  @Post('types/:type/pause')
+  pause(@Param('type') type: string) {
+    return { success: true, schedule: this.jobQueue.setPaused(type, true) };
+  }
+
+  @Roles('admin')
+  @Post('types/:type/resume')
+  resume(@Param('type') type: string) {
+    return { success: true, schedule: this.jobQueue.setPaused(type, false) };
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * File de tâches persistante: remplace les @Cron en mémoire par des tâches
+ * stockées en base, avec reprises, bail d'exécution et mise en pause.
+ */
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'completed', 'failed', 'cancelled'];
+
+export interface Job<TPayload = any> {
+  id: string;
+  type: string;
+  payload: TPayload;
+  status: JobStatus;
+  runAt: Date;
+  attempts: number;
+  maxAttempts: number;
+  backoffSeconds: number; // délai de base, doublé à chaque échec
+  lockedBy?: string; // worker titulaire du bail
+  lockedUntil?: Date;
+  lastError?: string;
+  result?: any;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+export type JobHandler<TPayload = any> = (job: Job<TPayload>) => Promise<any>;
+
+export interface JobHandlerOptions {
+  maxAttempts?: number;
+  backoffSeconds?: number;
+}
+
+/**
+ * Planification récurrente d'un type de tâche (une seule occurrence active à la fois)
+ */
+export interface JobSchedule {
+  type: string;
+  cron?: string;
+  intervalMinutes?: number;
+  timeZone?: string;
+  paused: boolean;
+  nextRunAt?: Date;
+  lastEnqueuedAt?: Date;
+  updatedAt: Date;
+}
+
+export interface JobScheduleOptions {
+  cron?: string;
+  intervalMinutes?: number;
+  timeZone?: string;
+}
+
+export interface EnqueueJobOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  backoffSeconds?: number;
+}
@@ -0,0 +1,14 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { JobQueueService } from './job-queue.service';
+import { JobsController } from './jobs.controller';
+
+@Global()
+@Module({
+  imports: [ConfigModule, DatabaseModule],
+  providers: [JobQueueService],
+  controllers: [JobsController],
+  exports: [JobQueueService],
+})
+export class JobsModule {}
@@ -1,9 +1,19 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { MailService } from '../mail/mail.service';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { LlmProvider, extractLlmErrorMessage } from './providers';
 
-interface CreditStatus {
+const PROVIDER_LABELS: Record<string, string> = {
+  anthropic: 'Anthropic',
+  openai: 'OpenAI (compatible)',
+  local: 'LLM local',
+  fake: 'Fake',
+};
+
+export interface CreditStatus {
   isLow: boolean;
+  provider: string | null;
   lastChecked: Date;
   lastNotificationSent: Date | null;
   errorMessage: string | null;
@@ -14,6 +24,7 @@ export class CreditMonitorService {
   private readonly logger = new Logger(CreditMonitorService.name);
   private status: CreditStatus = {
     isLow: false,
+    provider: null,
     lastChecked: new Date(),
     lastNotificationSent: null,
     errorMessage: null,
@@ -26,26 +37,33 @@ export class CreditMonitorService {
   constructor(
     private readonly mailService: MailService,
     private readonly configService: ConfigService,
+    private readonly templateService: EmailTemplateService,
   ) {}
 
   /**
-   * Analyse une erreur API pour détecter les problèmes de crédit
+   * Analyse une erreur API pour détecter les problèmes de crédit.
+   * Le fournisseur classe lui-même ses erreurs; sans fournisseur, on
+   * se rabat sur les motifs génériques.
    */
-  async checkApiError(error: any): Promise<void> {
-    const errorMessage = this.extractErrorMessage(error);
-
-    if (this.isCreditError(errorMessage)) {
-      this.logger.warn(`⚠️ Erreur de crédit API détectée: ${errorMessage}`);
+  async checkApiError(error: any, provider?: LlmProvider): Promise<void> {
+    const errorMessage = extractLlmErrorMessage(error);
+    const isCreditError = provider
+      ? provider.classifyError(error) === 'credit'
+      : this.isCreditError(errorMessage);
+
+    if (isCreditError) {
+      this.logger.warn(`⚠️ Erreur de crédit API détectée (${provider?.name || 'inconnu'}): ${errorMessage}`);
       this.status.isLow = true;
+      this.status.provider = provider?.name || null;
       this.status.errorMessage = errorMessage;
       this.status.lastChecked = new Date();
 
-      await this.sendNotificationIfNeeded();
+      await this.sendNotificationIfNeeded(provider);
     }
   }
 
   /**
-   * Vérifie si l'erreur est liée aux crédits API
+   * Vérifie si l'erreur est liée aux crédits API (motifs génériques)
    */
   private isCreditError(message: string): boolean {
     const creditErrorPatterns = [
@@ -61,20 +79,10 @@ export class CreditMonitorService {
     return creditErrorPatterns.some(pattern => lowerMessage.includes(pattern));
   }
 
-  /**
-   * Extrait le message d'erreur depuis différents formats
-   */
-  private extractErrorMessage(error: any): string {
-    if (typeof error === 'string') return error;
-    if (error?.message) return error.message;
-    if (error?.error?.message) return error.error.message;
-    return JSON.stringify(error);
-  }
-
   /**
    * Envoie une notification si le cooldown est passé
    */
-  private async sendNotificationIfNeeded(): Promise<void> {
+  private async sendNotificationIfNeeded(provider?: LlmProvider): Promise<void> {
     const now = new Date();
 
     // Vérifier le cooldown
@@ -87,11 +95,20 @@ export class CreditMonitorService {
     }
 
     try {
+      const label = this.providerLabel();
+      const { subject, html, text } = this.templateService.render('llm_credit_alert', {
+        providerLabel: label,
+        providerLabelUpper: label.toUpperCase(),
+        model: provider?.model,
+        errorMessage: this.status.errorMessage,
+        billingUrl: provider?.billingUrl,
+        date: new Date().toLocaleString('fr-FR'),
+      });
       const result = await this.mailService.sendMail({
         to: this.ALERT_EMAIL,
-        subject: '🚨 ALERTE: Crédits API Anthropic faibles',
-        body: this.buildAlertEmailBody(),
-        htmlBody: this.buildAlertEmailHtml(),
+        subject,
+        body: text,
+        htmlBody: html,
       });
 
       if (result.success) {
@@ -105,106 +122,20 @@ export class CreditMonitorService {
     }
   }
 
-  private buildAlertEmailBody(): string {
-    return `⚠️ ALERTE SYSTÈME - CRÉDITS API ANTHROPIC
-
-Le système de traitement des demandes de prix a détecté un problème avec les crédits API Anthropic.
-
-═══════════════════════════════════════════════════════
-DÉTAILS
-═══════════════════════════════════════════════════════
-Date/Heure: ${new Date().toLocaleString('fr-FR')}
-Message d'erreur: ${this.status.errorMessage || 'Non spécifié'}
-
-═══════════════════════════════════════════════════════
-IMPACT
-═══════════════════════════════════════════════════════
-- L'extraction LLM des articles est désactivée
-- Le système continue avec l'extraction regex (moins précise)
-- Les demandes de prix sont toujours traitées
-
-═══════════════════════════════════════════════════════
-ACTION REQUISE
-═══════════════════════════════════════════════════════
-1. Connectez-vous à https://console.anthropic.com
-2. Vérifiez votre solde de crédits
-3. Rechargez les crédits si nécessaire
-
----
-Ce message est envoyé automatiquement par le système de monitoring.
-Prochaine notification dans 6 heures si le problème persiste.`;
-  }
-
-  private buildAlertEmailHtml(): string {
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; }
-    .header { background: linear-gradient(135deg, #dc3545, #c82333); color: white; padding: 20px; text-align: center; }
-    .header h1 { margin: 0; font-size: 24px; }
-    .content { padding: 20px; }
-    .section { margin: 20px 0; padding: 15px; background: #f8f9fa; border-left: 4px solid #dc3545; }
-    .section h3 { margin-top: 0; color: #dc3545; }
-    .warning-box { background: #fff3cd; border: 1px solid #ffc107; padding: 15px; border-radius: 5px; margin: 20px 0; }
-    .action-btn { display: inline-block; background: #28a745; color: white; padding: 12px 25px; text-decoration: none; border-radius: 5px; margin-top: 10px; }
-    .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; border-top: 1px solid #ddd; }
-    ul { margin: 10px 0; padding-left: 20px; }
-    li { margin: 5px 0; }
-  </style>
-</head>
-<body>
-  <div class="header">
-    <h1>🚨 Alerte Crédits API</h1>
-  </div>
-
-  <div class="content">
-    <div class="warning-box">
-      <strong>⚠️ Les crédits API Anthropic sont insuffisants</strong><br>
-      L'extraction LLM est temporairement désactivée.
-    </div>
-
-    <div class="section">
-      <h3>📋 Détails</h3>
-      <ul>
-        <li><strong>Date/Heure:</strong> ${new Date().toLocaleString('fr-FR')}</li>
-        <li><strong>Erreur:</strong> ${this.status.errorMessage || 'Crédits insuffisants'}</li>
-      </ul>
-    </div>
-
-    <div class="section">
-      <h3>⚡ Impact</h3>
-      <ul>
-        <li>L'extraction LLM (intelligence artificielle) est désactivée</li>
-        <li>Le système continue avec l'extraction regex</li>
-        <li>Les demandes de prix sont toujours traitées</li>
-      </ul>
-    </div>
-
-    <div class="section">
-      <h3>✅ Action Requise</h3>
-      <p>Rechargez vos crédits API Anthropic pour restaurer l'extraction LLM.</p>
-      <a href="https://console.anthropic.com/settings/billing" class="action-btn">
-        Recharger les crédits →
-      </a>
-    </div>
-  </div>
-
-  <div class="footer">
-    Ce message est envoyé automatiquement par le système de monitoring.<br>
-    Prochaine notification dans 6 heures si le problème persiste.
-  </div>
-</body>
-</html>`;
+  private providerLabel(): string {
+    return PROVIDER_LABELS[this.status.provider || ''] || 'LLM';
   }
 
   /**
-   * Réinitialise le statut quand l'API fonctionne à nouveau
+   * Réinitialise le statut quand l'API fonctionne à nouveau.
+   * Un succès d'un autre fournisseur ne lève pas l'alerte en cours.
    */
-  resetStatus(): void {
+  resetStatus(providerName?: string): void {
+    if (providerName && this.status.provider && this.status.provider !== providerName) {
+      return;
+    }
     this.status.isLow = false;
+    this.status.provider = null;
     this.status.errorMessage = null;
     this.status.lastChecked = new Date();
   }
@@ -1,5 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { UniversalLlmParserService, CanonicalDocument, UniversalParserOptions } from './universal-llm-parser.service';
+import { UniversalLlmParserService, CanonicalDocument, UniversalParserOptions, UNIVERSAL_PROMPT_VERSION } from './universal-llm-parser.service';
+import { LlmProviderRegistryService } from './llm-provider-registry.service';
+import { LlmCacheService, LlmCacheKeyParts } from './llm-cache.service';
+import { Client, ClientProfile } from '../database/entities';
 import * as pdfParse from 'pdf-parse';
 import * as XLSX from 'xlsx';
 import * as mammoth from 'mammoth';
@@ -17,10 +20,29 @@ export interface TenantConfig {
   itemCodePattern?: string;
   glCodePattern?: string;
   preferredLanguage?: 'fr' | 'en';
+  defaultDeliveryLocation?: string;
+  // Libellés d'en-tête propres au client (TableParserService)
+  columnSynonyms?: Record<string, string[]>;
   // Champs custom du tenant
   customFields?: string[];
 }
 
+/**
+ * Construit la config tenant à partir du profil d'extraction d'un client
+ */
+export function tenantConfigFromProfile(profile: ClientProfile, client?: Client): TenantConfig {
+  return {
+    tenantId: profile.tenantId,
+    companyName: client?.name || profile.tenantId,
+    itemCodePattern: profile.itemCodePattern,
+    glCodePattern: profile.glCodePattern,
+    preferredLanguage: profile.preferredLanguage,
+    defaultDeliveryLocation: profile.defaultDeliveryLocation,
+    columnSynonyms: profile.columnSynonyms,
+    customFields: profile.customFields,
+  };
+}
+
 /**
  * Service orchestrateur qui:
  * 1. Détecte le format du document
@@ -32,7 +54,11 @@ export interface TenantConfig {
 export class DocumentExtractionService {
   private readonly logger = new Logger(DocumentExtractionService.name);
 
-  constructor(private llmParser: UniversalLlmParserService) {}
+  constructor(
+    private llmParser: UniversalLlmParserService,
+    private providerRegistry: LlmProviderRegistryService,
+    private llmCache: LlmCacheService,
+  ) {}
 
   /**
    * Point d'entrée principal - parse n'importe quel document
@@ -88,21 +114,47 @@ export class DocumentExtractionService {
     };
 
     if (tenantConfig) {
+      options.tenantId = tenantConfig.tenantId;
       options.tenantHints = {
         companyName: tenantConfig.companyName,
         knownItemCodePattern: tenantConfig.itemCodePattern,
         knownGlCodePattern: tenantConfig.glCodePattern,
         preferredLanguage: tenantConfig.preferredLanguage,
+        customFields: tenantConfig.customFields,
       };
     }
 
-    // 3. Parser avec LLM universel
+    // 3. Cache: même pièce jointe + même prompt + même modèle = même extraction
+    const cacheParts = this.buildCacheKey(input, options);
+    const cached = cacheParts ? this.llmCache.get(cacheParts) : null;
+    if (cached) {
+      this.logger.debug(`Extraction en cache: ${input.filename}`);
+      cached._meta.source_filename = input.filename;
+      return this.applyTenantDefaults(cached, tenantConfig);
+    }
+
+    // 4. Parser avec LLM universel
     const result = await this.llmParser.parseDocument(rawText, options);
 
-    // 4. Enrichir les métadonnées
+    // Les échecs (LLM indisponible, erreur de parsing) ne sont pas mis en cache
+    if (cacheParts && result._meta.confidence_score > 0) {
+      this.llmCache.set(cacheParts, result, input.filename);
+    }
+
+    // 5. Enrichir les métadonnées
     result._meta.source_filename = input.filename;
 
-    return result;
+    return this.applyTenantDefaults(result, tenantConfig);
+  }
+
+  /**
+   * Valeurs par défaut du profil client quand le document ne les précise pas
+   */
+  private applyTenantDefaults(document: CanonicalDocument, tenantConfig?: TenantConfig): CanonicalDocument {
+    if (tenantConfig?.defaultDeliveryLocation && !document.delivery_location && document.items.length > 0) {
+      document.delivery_location = tenantConfig.defaultDeliveryLocation;
+    }
+    return document;
   }
 
   /**
@@ -167,6 +219,9 @@ export class DocumentExtractionService {
       items: this.mergeItems(documents),
       total_amount: documents.find(d => d.total_amount)?.total_amount,
       currency: documents.find(d => d.currency)?.currency,
+      custom_fields: documents.some(d => d.custom_fields)
+        ? Object.assign({}, ...documents.map(d => d.custom_fields || {}))
+        : undefined,
     };
 
     merged._meta.warnings.push(`Fusion de ${documents.length} documents`);
@@ -259,6 +314,21 @@ export class DocumentExtractionService {
     return Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0] as any;
   }
 
+  /**
+   * Clé de cache de l'extraction, ou null si le cache est inactif
+   */
+  private buildCacheKey(input: DocumentInput, options: UniversalParserOptions): LlmCacheKeyParts | null {
+    if (!this.llmCache.isEnabled()) return null;
+
+    const { provider, model } = this.providerRegistry.resolve(options);
+    return {
+      contentHash: this.llmCache.hashContent(input.content),
+      promptVersion: UNIVERSAL_PROMPT_VERSION,
+      model: `${provider.name}:${model}`,
+      tenantId: options.tenantId,
+    };
+  }
+
   private errorDocument(filename: string, error: string): CanonicalDocument {
     return {
       _meta: {
@@ -1,6 +1,10 @@
 import { 
   Controller, 
   Post, 
+  Get,
+  Delete,
+  Param,
+  Query,
   UseInterceptors, 
   UploadedFile, 
   Body, 
@@ -9,11 +13,17 @@ import {
   Logger,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { DocumentExtractionService, TenantConfig } from './document-extraction.service';
+import { DocumentExtractionService, TenantConfig, tenantConfigFromProfile } from './document-extraction.service';
 import { CanonicalDocument } from './universal-llm-parser.service';
+import { LlmProviderRegistryService } from './llm-provider-registry.service';
+import { CreditMonitorService } from './credit-monitor.service';
+import { LlmCacheService } from './llm-cache.service';
+import { DatabaseService } from '../database/database.service';
+import { Roles } from '../auth/auth.decorators';
 
 // ============================================================
-// CONFIGURATION TENANTS (normalement en DB)
+// CONFIGURATION TENANTS PAR DÉFAUT
+// Les profils client en base (/database/clients/:id/profile) sont prioritaires
 // ============================================================
 
 const TENANT_CONFIGS: Record<string, TenantConfig> = {
@@ -45,7 +55,66 @@ const TENANT_CONFIGS: Record<string, TenantConfig> = {
 export class DocumentParserController {
   private readonly logger = new Logger(DocumentParserController.name);
 
-  constructor(private extractionService: DocumentExtractionService) {}
+  constructor(
+    private extractionService: DocumentExtractionService,
+    private providerRegistry: LlmProviderRegistryService,
+    private creditMonitor: CreditMonitorService,
+    private llmCache: LlmCacheService,
+    private databaseService: DatabaseService,
+  ) {}
+
+  /**
+   * Fournisseurs LLM configurés, routes tenant / type de document,
+   * état des crédits et hits / miss du cache d'extraction
+   */
+  @Get('llm/status')
+  getLlmStatus() {
+    return {
+      ...this.providerRegistry.getStatus(),
+      credit: this.creditMonitor.getStatus(),
+      cache: this.llmCache.getStats(),
+    };
+  }
+
+  /**
+   * Dernières extractions en cache
+   */
+  @Get('llm/cache')
+  getLlmCache(@Query('limit') limit?: string) {
+    const entries = this.llmCache.listEntries(limit ? parseInt(limit, 10) : 100);
+    return {
+      stats: this.llmCache.getStats(),
+      count: entries.length,
+      entries,
+    };
+  }
+
+  /**
+   * Invalide le cache (tout, ou filtré par contentHash / promptVersion / model / tenantId)
+   */
+  @Roles('admin')
+  @Delete('llm/cache')
+  invalidateLlmCache(
+    @Query('contentHash') contentHash?: string,
+    @Query('promptVersion') promptVersion?: string,
+    @Query('model') model?: string,
+    @Query('tenantId') tenantId?: string,
+  ) {
+    const deleted = this.llmCache.invalidate({ contentHash, promptVersion, model, tenantId });
+    return { success: true, deleted };
+  }
+
+  @Roles('admin')
+  @Delete('llm/cache/:cacheKey')
+  invalidateLlmCacheEntry(@Param('cacheKey') cacheKey: string) {
+    return { success: this.llmCache.invalidateKey(cacheKey) };
+  }
+
+  @Roles('admin')
+  @Post('llm/cache/purge-expired')
+  purgeExpiredLlmCache() {
+    return { success: true, deleted: this.llmCache.purgeExpired() };
+  }
 
   /**
    * Parse un document unique
@@ -68,8 +137,8 @@ export class DocumentParserController {
     this.logger.log(`Parsing: ${file.originalname} (tenant: ${tenantId || 'generic'})`);
 
     // Récupérer config tenant (ou generic par défaut)
-    const tenantConfig = tenantId 
-      ? TENANT_CONFIGS[tenantId] || TENANT_CONFIGS['generic']
+    const tenantConfig = tenantId
+      ? await this.resolveTenantConfig(tenantId) || TENANT_CONFIGS['generic']
       : undefined;
 
     const result = await this.extractionService.extractDocument(
@@ -99,8 +168,8 @@ export class DocumentParserController {
       throw new BadRequestException('Au moins un fichier requis');
     }
 
-    const tenantConfig = tenantId 
-      ? TENANT_CONFIGS[tenantId] 
+    const tenantConfig = tenantId
+      ? await this.resolveTenantConfig(tenantId)
       : undefined;
 
     const inputs = files.map(f => ({
@@ -115,6 +184,18 @@ export class DocumentParserController {
 
     return this.extractionService.extractDocuments(inputs, tenantConfig);
   }
+
+  /**
+   * Profil client en base, sinon configuration par défaut
+   */
+  private async resolveTenantConfig(tenantId: string): Promise<TenantConfig | undefined> {
+    const profile = await this.databaseService.getClientProfileByTenantId(tenantId);
+    if (profile) {
+      const client = await this.databaseService.getClientById(profile.clientId);
+      return tenantConfigFromProfile(profile, client || undefined);
+    }
+    return TENANT_CONFIGS[tenantId];
+  }
 }
 
 // ============================================================
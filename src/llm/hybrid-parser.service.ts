@@ -42,7 +42,7 @@ export class HybridParserService {
     const startTime = Date.now();
 
     // Mode forcé LLM
-    if (this.mode === 'llm_only' && this.llmParser.isAvailable()) {
+    if (this.mode === 'llm_only' && this.llmParser.isAvailable(options)) {
       this.logger.debug('Mode LLM forcé');
       return this.llmParser.parseDocument(rawText, options);
     }
@@ -57,7 +57,7 @@ export class HybridParserService {
     );
 
     // Mode regex only ou LLM non disponible
-    if (this.mode === 'regex_only' || !this.llmParser.isAvailable()) {
+    if (this.mode === 'regex_only' || !this.llmParser.isAvailable(options)) {
       if (regexResult.items.length === 0) {
         regexResult._meta.warnings.push('LLM non disponible ou désactivé');
       }
@@ -5,6 +5,11 @@
 // Module principal
 export * from './llm.module';
 
+// Fournisseurs LLM
+export * from './providers';
+export * from './llm-provider-registry.service';
+export * from './llm-cache.service';
+
 // Services
 export * from './universal-llm-parser.service';
 export * from './document-extraction.service';
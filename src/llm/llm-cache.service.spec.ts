@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as initSqlJs from 'sql.js';
+import { LlmCacheService, LlmCacheKeyParts } from './llm-cache.service';
+import { CanonicalDocument } from './universal-llm-parser.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('LlmCacheService', () => {
+  let service: LlmCacheService;
+  let db: any;
+
+  const document: CanonicalDocument = {
+    _meta: {
+      detected_language: 'fr',
+      detected_type: 'RFQ',
+      confidence_score: 85,
+      extraction_method: 'llm',
+      warnings: [],
+    },
+    document_number: 'PR-2001',
+    items: [{ line_number: 10, quantity: 2, unit_of_measure: 'pcs', description: 'Roulement' }],
+  };
+
+  let parts: LlmCacheKeyParts;
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    db = new SQL.Database();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LlmCacheService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+          },
+        },
+        {
+          provide: DatabaseService,
+          useValue: { db, saveToFile: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LlmCacheService>(LlmCacheService);
+    await service.onModuleInit();
+
+    parts = {
+      contentHash: service.hashContent(Buffer.from('%PDF-1.4 demande de prix')),
+      promptVersion: '1',
+      model: 'anthropic:claude-sonnet-4-20250514',
+    };
+  });
+
+  it('should return the stored document on the same content, prompt and model', () => {
+    expect(service.get(parts)).toBeNull();
+
+    service.set(parts, document, 'demande.pdf');
+    expect(service.get(parts)).toEqual(document);
+    expect(service.get({ ...parts, model: 'local:llama3.1' })).toBeNull();
+    expect(service.get({ ...parts, promptVersion: '2' })).toBeNull();
+
+    const stats = service.getStats();
+    expect(stats).toMatchObject({ entries: 1, hits: 1, misses: 3, hitRate: 25 });
+    expect(service.listEntries()[0]).toMatchObject({ sourceFilename: 'demande.pdf', itemCount: 1, hitCount: 1 });
+  });
+
+  it('should ignore and purge expired entries', () => {
+    const cacheKey = service.set(parts, document);
+    db.run(`UPDATE llm_extraction_cache SET expires_at = ? WHERE cache_key = ?`, ['2000-01-01T00:00:00.000Z', cacheKey]);
+
+    expect(service.get(parts)).toBeNull();
+    expect(service.purgeExpired()).toBe(1);
+    expect(service.getStats().entries).toBe(0);
+  });
+
+  it('should invalidate by content hash or by key', () => {
+    const cacheKey = service.set(parts, document);
+    service.set({ ...parts, contentHash: service.hashContent('autre fichier') }, document);
+
+    expect(service.invalidate({ contentHash: parts.contentHash })).toBe(1);
+    expect(service.invalidateKey(cacheKey)).toBe(false);
+    expect(service.invalidate()).toBe(1);
+  });
+});
@@ -0,0 +1,263 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { DatabaseService } from '../database/database.service';
+import { CanonicalDocument } from './universal-llm-parser.service';
+
+/**
+ * Composantes de la clé de cache d'une extraction LLM
+ */
+export interface LlmCacheKeyParts {
+  contentHash: string;
+  promptVersion: string;
+  model: string; // fournisseur:modèle
+  tenantId?: string; // Les indices tenant modifient le prompt
+}
+
+export interface LlmCacheEntry extends LlmCacheKeyParts {
+  cacheKey: string;
+  sourceFilename?: string;
+  itemCount: number;
+  hitCount: number;
+  createdAt: Date;
+  expiresAt: Date;
+  lastHitAt?: Date;
+}
+
+export interface LlmCacheFilter {
+  contentHash?: string;
+  promptVersion?: string;
+  model?: string;
+  tenantId?: string;
+}
+
+export interface LlmCacheStats {
+  enabled: boolean;
+  ttlDays: number;
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // % depuis le démarrage
+}
+
+/**
+ * Cache des extractions LLM adressé par le contenu des pièces jointes:
+ * un retraitement du même fichier avec le même prompt et le même modèle
+ * ne renvoie pas le document au fournisseur.
+ */
+@Injectable()
+export class LlmCacheService implements OnModuleInit {
+  private readonly logger = new Logger(LlmCacheService.name);
+  private readonly enabled: boolean;
+  private readonly ttlDays: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly databaseService: DatabaseService,
+  ) {
+    this.enabled = this.configService.get<boolean>('llm.cache.enabled', true) !== false;
+    this.ttlDays = this.configService.get<number>('llm.cache.ttlDays', 30);
+  }
+
+  async onModuleInit() {
+    this.createTables();
+    if (this.db) {
+      const purged = this.purgeExpired();
+      if (purged > 0) {
+        this.logger.log(`${purged} extraction(s) LLM expirée(s) supprimée(s) du cache`);
+      }
+    }
+  }
+
+  private get db(): any {
+    return (this.databaseService as any).db;
+  }
+
+  private createTables() {
+    const db = this.db;
+    if (!db) {
+      this.logger.warn('Database not initialized, skipping table creation');
+      return;
+    }
+
+    try {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS llm_extraction_cache (
+          cache_key TEXT PRIMARY KEY,
+          content_hash TEXT NOT NULL,
+          prompt_version TEXT NOT NULL,
+          model TEXT NOT NULL,
+          tenant_id TEXT,
+          source_filename TEXT,
+          item_count INTEGER NOT NULL DEFAULT 0,
+          document_json TEXT NOT NULL,
+          hit_count INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          last_hit_at TEXT
+        )
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_llm_cache_content ON llm_extraction_cache(content_hash)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_llm_cache_expires ON llm_extraction_cache(expires_at)`);
+
+      this.databaseService.saveToFile();
+      this.logger.log(`LLM cache table created/verified (TTL: ${this.ttlDays} j, ${this.enabled ? 'actif' : 'désactivé'})`);
+    } catch (error) {
+      this.logger.error(`Error creating LLM cache table: ${error.message}`);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled && this.ttlDays > 0 && !!this.db;
+  }
+
+  /**
+   * Empreinte SHA-256 du contenu brut d'une pièce jointe
+   */
+  hashContent(content: Buffer | string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  buildKey(parts: LlmCacheKeyParts): string {
+    return crypto
+      .createHash('sha256')
+      .update([parts.contentHash, parts.promptVersion, parts.model, parts.tenantId || ''].join('|'))
+      .digest('hex');
+  }
+
+  /**
+   * Retourne le document en cache (copie) ou null; compte les hits / miss
+   */
+  get(parts: LlmCacheKeyParts): CanonicalDocument | null {
+    const cacheKey = this.buildKey(parts);
+    const now = new Date().toISOString();
+    const result = this.db.exec(
+      `SELECT document_json FROM llm_extraction_cache WHERE cache_key = ? AND expires_at > ?`,
+      [cacheKey, now],
+    );
+
+    if (result.length === 0 || result[0].values.length === 0) {
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    this.db.run(
+      `UPDATE llm_extraction_cache SET hit_count = hit_count + 1, last_hit_at = ? WHERE cache_key = ?`,
+      [now, cacheKey],
+    );
+    this.databaseService.saveToFile();
+
+    return JSON.parse(result[0].values[0][0] as string) as CanonicalDocument;
+  }
+
+  set(parts: LlmCacheKeyParts, document: CanonicalDocument, sourceFilename?: string): string {
+    const cacheKey = this.buildKey(parts);
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + this.ttlDays * 24 * 60 * 60 * 1000);
+
+    this.db.run(`
+      INSERT OR REPLACE INTO llm_extraction_cache
+        (cache_key, content_hash, prompt_version, model, tenant_id, source_filename,
+         item_count, document_json, hit_count, created_at, expires_at, last_hit_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, NULL)
+    `, [
+      cacheKey,
+      parts.contentHash,
+      parts.promptVersion,
+      parts.model,
+      parts.tenantId || null,
+      sourceFilename || null,
+      document.items.length,
+      JSON.stringify(document),
+      createdAt.toISOString(),
+      expiresAt.toISOString(),
+    ]);
+    this.databaseService.saveToFile();
+
+    return cacheKey;
+  }
+
+  listEntries(limit = 100): LlmCacheEntry[] {
+    const result = this.db.exec(
+      `SELECT * FROM llm_extraction_cache ORDER BY created_at DESC LIMIT ?`,
+      [limit],
+    );
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToEntry(result[0].columns, row));
+  }
+
+  /**
+   * Invalide une entrée par sa clé
+   */
+  invalidateKey(cacheKey: string): boolean {
+    this.db.run(`DELETE FROM llm_extraction_cache WHERE cache_key = ?`, [cacheKey]);
+    const deleted = this.db.getRowsModified() > 0;
+    this.databaseService.saveToFile();
+    return deleted;
+  }
+
+  /**
+   * Invalide les entrées correspondant au filtre (tout le cache si filtre vide)
+   */
+  invalidate(filter: LlmCacheFilter = {}): number {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.contentHash) { conditions.push('content_hash = ?'); params.push(filter.contentHash); }
+    if (filter.promptVersion) { conditions.push('prompt_version = ?'); params.push(filter.promptVersion); }
+    if (filter.model) { conditions.push('model = ?'); params.push(filter.model); }
+    if (filter.tenantId) { conditions.push('tenant_id = ?'); params.push(filter.tenantId); }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    this.db.run(`DELETE FROM llm_extraction_cache${where}`, params);
+    const deleted = this.db.getRowsModified();
+    this.databaseService.saveToFile();
+
+    this.logger.log(`Cache LLM: ${deleted} entrée(s) invalidée(s)`);
+    return deleted;
+  }
+
+  purgeExpired(): number {
+    this.db.run(`DELETE FROM llm_extraction_cache WHERE expires_at <= ?`, [new Date().toISOString()]);
+    const deleted = this.db.getRowsModified();
+    if (deleted > 0) {
+      this.databaseService.saveToFile();
+    }
+    return deleted;
+  }
+
+  getStats(): LlmCacheStats {
+    const result = this.db ? this.db.exec(`SELECT COUNT(*) FROM llm_extraction_cache`) : [];
+    const lookups = this.hits + this.misses;
+
+    return {
+      enabled: this.isEnabled(),
+      ttlDays: this.ttlDays,
+      entries: result.length > 0 ? (result[0].values[0][0] as number) : 0,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 100) : 0,
+    };
+  }
+
+  private mapRowToEntry(columns: string[], row: any[]): LlmCacheEntry {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      cacheKey: obj.cache_key,
+      contentHash: obj.content_hash,
+      promptVersion: obj.prompt_version,
+      model: obj.model,
+      tenantId: obj.tenant_id || undefined,
+      sourceFilename: obj.source_filename || undefined,
+      itemCount: obj.item_count,
+      hitCount: obj.hit_count,
+      createdAt: new Date(obj.created_at),
+      expiresAt: new Date(obj.expires_at),
+      lastHitAt: obj.last_hit_at ? new Date(obj.last_hit_at) : undefined,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { LlmProviderRegistryService } from './llm-provider-registry.service';
+import { UniversalLlmParserService } from './universal-llm-parser.service';
+import { CreditMonitorService } from './credit-monitor.service';
+import { FakeLlmProvider, OpenAiCompatibleProvider } from './providers';
+
+describe('LlmProviderRegistryService', () => {
+  let registry: LlmProviderRegistryService;
+  let parser: UniversalLlmParserService;
+  let fake: FakeLlmProvider;
+  let creditMonitor: { checkApiError: jest.Mock; resetStatus: jest.Mock };
+
+  const config: Record<string, any> = {
+    'llm.provider': 'fake',
+    'llm.tenantProviders': 'endeavour-mining=anthropic:claude-test,caterpillar-dealer=openai',
+    'llm.documentTypeProviders': 'excel=local:qwen2.5:14b',
+    'llm.anthropic.apiKey': 'sk-test',
+  };
+
+  beforeEach(async () => {
+    creditMonitor = { checkApiError: jest.fn(), resetStatus: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LlmProviderRegistryService,
+        UniversalLlmParserService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+          },
+        },
+        {
+          provide: CreditMonitorService,
+          useValue: creditMonitor,
+        },
+      ],
+    }).compile();
+
+    registry = module.get<LlmProviderRegistryService>(LlmProviderRegistryService);
+    parser = module.get<UniversalLlmParserService>(UniversalLlmParserService);
+    fake = new FakeLlmProvider();
+    registry.registerProvider(fake);
+  });
+
+  describe('resolve', () => {
+    it('should prefer the tenant route, then the document type, then the default', () => {
+      const tenant = registry.resolve({ tenantId: 'endeavour-mining', documentType: 'excel' });
+      expect(tenant.provider.name).toBe('anthropic');
+      expect(tenant.model).toBe('claude-test');
+      expect(tenant.reason).toBe('tenant');
+
+      const docType = registry.resolve({ documentType: 'excel' });
+      expect(docType.provider.name).toBe('local');
+      expect(docType.model).toBe('qwen2.5:14b');
+
+      expect(registry.resolve({ documentType: 'pdf' }).provider.name).toBe('fake');
+    });
+
+    it('should fall back to the default provider when the routed one is not configured', () => {
+      const selection = registry.resolve({ tenantId: 'caterpillar-dealer' });
+      expect(selection.provider.name).toBe('fake');
+      expect(selection.reason).toBe('default');
+    });
+  });
+
+  describe('fake provider', () => {
+    it('should replay the recorded response for the same prompt only', async () => {
+      fake.addRecording({ system: 'sys', user: 'doc' }, '{"items":[]}');
+
+      const response = await fake.complete({ system: 'sys', user: 'doc', maxTokens: 10 });
+      expect(response.text).toBe('{"items":[]}');
+      await expect(fake.complete({ system: 'sys', user: 'autre', maxTokens: 10 })).rejects.toThrow();
+    });
+
+    it('should produce the same canonical document through the parser', async () => {
+      const completeSpy = jest.spyOn(fake, 'complete');
+
+      const missing = await parser.parseDocument('Demande de prix 10 x filtre à huile', { maxRetries: 1 });
+      expect(missing.items).toHaveLength(0);
+      expect(creditMonitor.checkApiError).toHaveBeenCalledWith(expect.any(Error), fake);
+
+      fake.addRecording(completeSpy.mock.calls[0][0], JSON.stringify({
+        _meta: { detected_language: 'fr', detected_type: 'RFQ', confidence_score: 90 },
+        document_number: 'PR-1001',
+        items: [{ quantity: 10, unit_of_measure: 'pcs', description: 'Filtre à huile' }],
+      }));
+
+      const result = await parser.parseDocument('Demande de prix 10 x filtre à huile', { maxRetries: 1 });
+      expect(result.document_number).toBe('PR-1001');
+      expect(result._meta.extraction_method).toBe('llm');
+      expect(result.items[0]).toMatchObject({ line_number: 10, quantity: 10, description: 'Filtre à huile' });
+      expect(creditMonitor.resetStatus).toHaveBeenCalledWith('fake');
+    });
+  });
+
+  it('should classify OpenAI quota errors as credit errors', () => {
+    const provider = new OpenAiCompatibleProvider({ apiKey: 'k', baseUrl: 'http://x', model: 'm', timeoutMs: 1000 });
+
+    expect(provider.classifyError({ response: { status: 429, data: { error: { code: 'insufficient_quota', message: 'quota' } } } })).toBe('credit');
+    expect(provider.classifyError({ response: { status: 429, data: { error: { message: 'slow down' } } } })).toBe('rate_limit');
+  });
+});
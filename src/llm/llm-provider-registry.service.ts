@@ -0,0 +1,209 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  LlmProvider,
+  LlmProviderName,
+  LlmCompletionRequest,
+  LlmCompletionResponse,
+  AnthropicProvider,
+  OpenAiCompatibleProvider,
+  LocalLlmProvider,
+  LocalLlmApi,
+  FakeLlmProvider,
+} from './providers';
+
+export interface LlmRoute {
+  provider: LlmProviderName;
+  model?: string;
+}
+
+export interface LlmProviderSelection {
+  provider: LlmProvider;
+  model: string;
+  reason: 'tenant' | 'document_type' | 'default';
+}
+
+export interface LlmRoutingContext {
+  tenantId?: string;
+  tenantHints?: { companyName?: string };
+  documentType?: string;
+}
+
+const PROVIDER_NAMES: LlmProviderName[] = ['anthropic', 'openai', 'local', 'fake'];
+
+/**
+ * Registre des fournisseurs LLM et routage par tenant / type de document.
+ *
+ * Priorité: tenant (LLM_TENANT_PROVIDERS) > type de document
+ * (LLM_DOCUMENT_TYPE_PROVIDERS) > fournisseur par défaut (LLM_PROVIDER).
+ * Une route s'écrit `cle=fournisseur[:modele]`, ex: `excel=local:qwen2.5`.
+ */
+@Injectable()
+export class LlmProviderRegistryService {
+  private readonly logger = new Logger(LlmProviderRegistryService.name);
+  private readonly providers = new Map<LlmProviderName, LlmProvider>();
+  private readonly defaultRoute: LlmRoute;
+  private readonly tenantRoutes: Map<string, LlmRoute>;
+  private readonly documentTypeRoutes: Map<string, LlmRoute>;
+  private readonly recordDir: string;
+
+  constructor(private readonly configService: ConfigService) {
+    const timeoutMs = this.configService.get<number>('llm.timeoutMs', 120000);
+
+    this.registerProvider(new AnthropicProvider({
+      apiKey: this.configService.get<string>('llm.anthropic.apiKey') || this.configService.get<string>('ANTHROPIC_API_KEY'),
+      model: this.configService.get<string>('llm.anthropic.model', 'claude-sonnet-4-20250514'),
+    }));
+    this.registerProvider(new OpenAiCompatibleProvider({
+      apiKey: this.configService.get<string>('llm.openai.apiKey'),
+      baseUrl: this.configService.get<string>('llm.openai.baseUrl', 'https://api.openai.com/v1'),
+      model: this.configService.get<string>('llm.openai.model', 'gpt-4o-mini'),
+      timeoutMs,
+    }));
+    this.registerProvider(new LocalLlmProvider({
+      baseUrl: this.configService.get<string>('llm.local.baseUrl', 'http://localhost:11434'),
+      model: this.configService.get<string>('llm.local.model', 'llama3.1'),
+      api: this.configService.get<LocalLlmApi>('llm.local.api', 'ollama'),
+      timeoutMs,
+    }));
+    this.registerProvider(new FakeLlmProvider(this.configService.get<string>('llm.fake.recordingsDir')));
+
+    this.defaultRoute = this.parseRoute(this.configService.get<string>('llm.provider', 'anthropic'))
+      || { provider: 'anthropic' };
+    this.tenantRoutes = this.parseRoutes(this.configService.get<string>('llm.tenantProviders', ''));
+    this.documentTypeRoutes = this.parseRoutes(this.configService.get<string>('llm.documentTypeProviders', ''));
+    this.recordDir = this.configService.get<string>('llm.recordDir', '');
+
+    this.logger.log(
+      `Fournisseur LLM par défaut: ${this.defaultRoute.provider}` +
+      ` (${this.tenantRoutes.size} route(s) tenant, ${this.documentTypeRoutes.size} route(s) type de document)`
+    );
+  }
+
+  /**
+   * Enregistre (ou remplace) un fournisseur, ex: un FakeLlmProvider dans les tests
+   */
+  registerProvider(provider: LlmProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name: LlmProviderName): LlmProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Sélectionne le fournisseur pour un document.
+   * Si le fournisseur routé n'est pas configuré, on retombe sur celui par défaut.
+   */
+  resolve(context: LlmRoutingContext = {}): LlmProviderSelection {
+    const tenantRoute = this.findTenantRoute(context);
+    const documentTypeRoute = context.documentType
+      ? this.documentTypeRoutes.get(context.documentType.toLowerCase())
+      : undefined;
+
+    const candidates: Array<[LlmRoute | undefined, LlmProviderSelection['reason']]> = [
+      [tenantRoute, 'tenant'],
+      [documentTypeRoute, 'document_type'],
+    ];
+
+    for (const [route, reason] of candidates) {
+      if (!route) continue;
+
+      const provider = this.providers.get(route.provider)!;
+      if (provider.isAvailable()) {
+        return { provider, model: route.model || provider.model, reason };
+      }
+      this.logger.warn(`Fournisseur ${route.provider} (${reason}) non configuré, utilisation de ${this.defaultRoute.provider}`);
+    }
+
+    const provider = this.providers.get(this.defaultRoute.provider)!;
+    return { provider, model: this.defaultRoute.model || provider.model, reason: 'default' };
+  }
+
+  /**
+   * Appelle le fournisseur sélectionné; en mode capture (LLM_RECORD_DIR),
+   * la réponse est enregistrée pour être rejouée par le fournisseur fake.
+   */
+  async complete(selection: LlmProviderSelection, request: LlmCompletionRequest): Promise<LlmCompletionResponse> {
+    const response = await selection.provider.complete({ ...request, model: request.model || selection.model });
+
+    if (this.recordDir && selection.provider.name !== 'fake') {
+      try {
+        const filePath = FakeLlmProvider.saveRecording(this.recordDir, request, response);
+        this.logger.debug(`Réponse LLM enregistrée: ${filePath}`);
+      } catch (error) {
+        this.logger.warn(`Enregistrement réponse LLM impossible: ${error.message}`);
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * État des fournisseurs et des routes (monitoring)
+   */
+  getStatus() {
+    const routes = (map: Map<string, LlmRoute>) =>
+      Object.fromEntries([...map.entries()].map(([key, route]) => [key, this.formatRoute(route)]));
+
+    return {
+      defaultProvider: this.formatRoute(this.defaultRoute),
+      tenantRoutes: routes(this.tenantRoutes),
+      documentTypeRoutes: routes(this.documentTypeRoutes),
+      providers: [...this.providers.values()].map(p => ({
+        name: p.name,
+        model: p.model,
+        available: p.isAvailable(),
+      })),
+      recording: !!this.recordDir,
+    };
+  }
+
+  private findTenantRoute(context: LlmRoutingContext): LlmRoute | undefined {
+    const keys = [context.tenantId, context.tenantHints?.companyName]
+      .filter((k): k is string => !!k)
+      .map(k => k.toLowerCase());
+
+    for (const key of keys) {
+      const route = this.tenantRoutes.get(key);
+      if (route) return route;
+    }
+    return undefined;
+  }
+
+  private parseRoutes(value: string): Map<string, LlmRoute> {
+    const routes = new Map<string, LlmRoute>();
+
+    for (const entry of (value || '').split(',').map(e => e.trim()).filter(Boolean)) {
+      const separator = entry.indexOf('=');
+      if (separator <= 0) {
+        this.logger.warn(`Route LLM ignorée (format cle=fournisseur): ${entry}`);
+        continue;
+      }
+
+      const route = this.parseRoute(entry.substring(separator + 1));
+      if (route) {
+        routes.set(entry.substring(0, separator).trim().toLowerCase(), route);
+      }
+    }
+
+    return routes;
+  }
+
+  private parseRoute(value: string): LlmRoute | null {
+    const [name, ...modelParts] = (value || '').trim().split(':');
+    const provider = name.trim().toLowerCase() as LlmProviderName;
+
+    if (!PROVIDER_NAMES.includes(provider)) {
+      this.logger.warn(`Fournisseur LLM inconnu: ${value}`);
+      return null;
+    }
+
+    const model = modelParts.join(':').trim();
+    return model ? { provider, model } : { provider };
+  }
+
+  private formatRoute(route: LlmRoute): string {
+    return route.model ? `${route.provider}:${route.model}` : route.provider;
+  }
+}
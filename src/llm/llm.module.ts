@@ -7,17 +7,26 @@ import { DocumentExtractionService } from './document-extraction.service';
 import { HybridParserService } from './hybrid-parser.service';
 import { CanonicalAdapterService } from './canonical-adapter.service';
 import { CreditMonitorService } from './credit-monitor.service';
+import { LlmProviderRegistryService } from './llm-provider-registry.service';
+import { LlmCacheService } from './llm-cache.service';
 
 // Controller
 import { DocumentParserController } from './document-parser.controller';
 
 // Mail module pour notifications
 import { MailModule } from '../mail/mail.module';
+import { DatabaseModule } from '../database/database.module';
 
 @Module({
-  imports: [ConfigModule, MailModule],
+  imports: [ConfigModule, MailModule, DatabaseModule],
   controllers: [DocumentParserController],
   providers: [
+    // Fournisseurs LLM (Anthropic, OpenAI compatible, local, fake)
+    LlmProviderRegistryService,
+
+    // Cache des extractions (SQLite)
+    LlmCacheService,
+
     // Parser LLM universel
     UniversalLlmParserService,
 
@@ -34,6 +43,8 @@ import { MailModule } from '../mail/mail.module';
     CreditMonitorService,
   ],
   exports: [
+    LlmProviderRegistryService,
+    LlmCacheService,
     UniversalLlmParserService,
     DocumentExtractionService,
     HybridParserService,
@@ -0,0 +1,80 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  LlmProvider,
+  LlmCompletionRequest,
+  LlmCompletionResponse,
+  LlmErrorKind,
+  extractLlmErrorMessage,
+  extractLlmErrorStatus,
+} from './llm-provider.interface';
+
+export interface AnthropicProviderConfig {
+  apiKey?: string;
+  model: string;
+}
+
+const CREDIT_ERROR_PATTERNS = [
+  'credit balance is too low',
+  'insufficient credits',
+  'billing',
+  'credits',
+];
+
+/**
+ * Fournisseur Anthropic (SDK officiel)
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  readonly billingUrl = 'https://console.anthropic.com/settings/billing';
+  private readonly client: Anthropic | null;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.model = config.model;
+    this.client = config.apiKey ? new Anthropic({ apiKey: config.apiKey }) : null;
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse> {
+    if (!this.client) {
+      throw new Error('ANTHROPIC_API_KEY non configurée');
+    }
+
+    const model = request.model || this.model;
+    const response = await this.client.messages.create({
+      model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: [{ role: 'user', content: request.user }],
+    });
+
+    const content = response.content[0];
+    if (!content || content.type !== 'text') {
+      throw new Error('Réponse inattendue');
+    }
+
+    return {
+      text: content.text,
+      model: response.model || model,
+      provider: this.name,
+      usage: {
+        inputTokens: response.usage?.input_tokens,
+        outputTokens: response.usage?.output_tokens,
+      },
+    };
+  }
+
+  classifyError(error: any): LlmErrorKind {
+    const message = extractLlmErrorMessage(error).toLowerCase();
+    const status = extractLlmErrorStatus(error);
+
+    if (CREDIT_ERROR_PATTERNS.some(pattern => message.includes(pattern))) return 'credit';
+    if (status === 429 || message.includes('rate_limit_error')) return 'rate_limit';
+    if (status === 401 || status === 403 || message.includes('authentication_error')) return 'auth';
+    if (status === 529 || message.includes('overloaded_error')) return 'unavailable';
+    return 'other';
+  }
+}
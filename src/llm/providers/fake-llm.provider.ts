@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  LlmProvider,
+  LlmCompletionRequest,
+  LlmCompletionResponse,
+  LlmErrorKind,
+} from './llm-provider.interface';
+
+export interface LlmRecording {
+  key: string;
+  text: string;
+  model?: string;
+  sourceProvider?: string;
+  recordedAt?: string;
+}
+
+/**
+ * Fournisseur déterministe pour les tests: rejoue des réponses enregistrées,
+ * indexées par l'empreinte SHA-256 du prompt (système + utilisateur).
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake' as const;
+  readonly model = 'fake-replay';
+  private readonly recordings = new Map<string, LlmRecording>();
+
+  constructor(recordingsDir?: string) {
+    if (recordingsDir) {
+      this.loadRecordings(recordingsDir);
+    }
+  }
+
+  /**
+   * Clé d'enregistrement d'une requête (indépendante du modèle et du fournisseur)
+   */
+  static recordingKey(request: Pick<LlmCompletionRequest, 'system' | 'user'>): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${request.system}\n\n${request.user}`)
+      .digest('hex');
+  }
+
+  /**
+   * Écrit une réponse réelle dans le dossier d'enregistrements (mode capture)
+   */
+  static saveRecording(dir: string, request: LlmCompletionRequest, response: LlmCompletionResponse): string {
+    const key = FakeLlmProvider.recordingKey(request);
+    const recording: LlmRecording = {
+      key,
+      text: response.text,
+      model: response.model,
+      sourceProvider: response.provider,
+      recordedAt: new Date().toISOString(),
+    };
+
+    fs.mkdirSync(dir, { recursive: true });
+    const filePath = path.join(dir, `${key}.json`);
+    fs.writeFileSync(filePath, JSON.stringify(recording, null, 2));
+    return filePath;
+  }
+
+  loadRecordings(dir: string): number {
+    if (!fs.existsSync(dir)) return 0;
+
+    let count = 0;
+    for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort()) {
+      const recording = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')) as LlmRecording;
+      if (recording.key && typeof recording.text === 'string') {
+        this.recordings.set(recording.key, recording);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  addRecording(request: Pick<LlmCompletionRequest, 'system' | 'user'>, text: string): string {
+    const key = FakeLlmProvider.recordingKey(request);
+    this.recordings.set(key, { key, text });
+    return key;
+  }
+
+  getRecordingCount(): number {
+    return this.recordings.size;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse> {
+    const key = FakeLlmProvider.recordingKey(request);
+    const recording = this.recordings.get(key);
+
+    if (!recording) {
+      throw new Error(`Aucune réponse enregistrée pour le prompt ${key.substring(0, 12)}`);
+    }
+
+    return {
+      text: recording.text,
+      model: recording.model || this.model,
+      provider: this.name,
+    };
+  }
+
+  classifyError(): LlmErrorKind {
+    return 'other';
+  }
+}
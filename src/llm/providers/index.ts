@@ -0,0 +1,5 @@
+export * from './llm-provider.interface';
+export * from './anthropic.provider';
+export * from './openai-compatible.provider';
+export * from './local-llm.provider';
+export * from './fake-llm.provider';
@@ -0,0 +1,62 @@
+// ============================================================
+// CONTRAT COMMUN DES FOURNISSEURS LLM
+// Anthropic, endpoint compatible OpenAI, serveur local, fake
+// ============================================================
+
+export type LlmProviderName = 'anthropic' | 'openai' | 'local' | 'fake';
+
+/**
+ * Catégorie d'erreur renvoyée par un fournisseur
+ * - credit: solde / quota épuisé (déclenche une alerte)
+ * - rate_limit: trop de requêtes, réessayer plus tard
+ * - auth: clé invalide ou absente
+ * - unavailable: serveur injoignable
+ */
+export type LlmErrorKind = 'credit' | 'rate_limit' | 'auth' | 'unavailable' | 'other';
+
+export interface LlmCompletionRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+  model?: string; // Surcharge du modèle configuré
+}
+
+export interface LlmCompletionResponse {
+  text: string;
+  model: string;
+  provider: LlmProviderName;
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+  };
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  /** Page de facturation citée dans les alertes de crédit */
+  readonly billingUrl?: string;
+
+  isAvailable(): boolean;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse>;
+  classifyError(error: any): LlmErrorKind;
+}
+
+/**
+ * Extrait le message d'erreur depuis les formats SDK / axios
+ */
+export function extractLlmErrorMessage(error: any): string {
+  if (typeof error === 'string') return error;
+  const apiMessage = error?.response?.data?.error?.message || error?.response?.data?.error;
+  if (typeof apiMessage === 'string') return apiMessage;
+  if (error?.message) return error.message;
+  if (error?.error?.message) return error.error.message;
+  return JSON.stringify(error);
+}
+
+/**
+ * Extrait le code HTTP depuis les formats SDK / axios
+ */
+export function extractLlmErrorStatus(error: any): number | undefined {
+  return error?.status ?? error?.response?.status;
+}
@@ -0,0 +1,105 @@
+import axios from 'axios';
+import {
+  LlmProvider,
+  LlmCompletionRequest,
+  LlmCompletionResponse,
+  LlmErrorKind,
+  extractLlmErrorStatus,
+} from './llm-provider.interface';
+
+export type LocalLlmApi = 'ollama' | 'llamacpp';
+
+export interface LocalLlmProviderConfig {
+  baseUrl: string; // ex: http://localhost:11434 (Ollama), http://localhost:8080 (llama.cpp)
+  model: string;
+  api: LocalLlmApi;
+  timeoutMs: number;
+}
+
+/**
+ * Fournisseur pour un serveur local (Ollama /api/chat ou llama.cpp /completion).
+ * Pas de facturation: jamais d'erreur de crédit.
+ */
+export class LocalLlmProvider implements LlmProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+
+  constructor(private readonly config: LocalLlmProviderConfig) {
+    this.model = config.model;
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.baseUrl;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse> {
+    const model = request.model || this.model;
+    const baseUrl = this.config.baseUrl.replace(/\/+$/, '');
+
+    if (this.config.api === 'llamacpp') {
+      // llama.cpp server: un seul prompt, le modèle est celui chargé au démarrage
+      const response = await axios.post(
+        `${baseUrl}/completion`,
+        {
+          prompt: `${request.system}\n\n${request.user}\n`,
+          n_predict: request.maxTokens,
+          temperature: 0,
+        },
+        { timeout: this.config.timeoutMs },
+      );
+
+      const text = response.data?.content;
+      if (typeof text !== 'string') {
+        throw new Error('Réponse inattendue');
+      }
+
+      return {
+        text,
+        model: response.data.model || model,
+        provider: this.name,
+        usage: {
+          inputTokens: response.data.tokens_evaluated,
+          outputTokens: response.data.tokens_predicted,
+        },
+      };
+    }
+
+    const response = await axios.post(
+      `${baseUrl}/api/chat`,
+      {
+        model,
+        stream: false,
+        options: { num_predict: request.maxTokens, temperature: 0 },
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.user },
+        ],
+      },
+      { timeout: this.config.timeoutMs },
+    );
+
+    const text = response.data?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('Réponse inattendue');
+    }
+
+    return {
+      text,
+      model: response.data.model || model,
+      provider: this.name,
+      usage: {
+        inputTokens: response.data.prompt_eval_count,
+        outputTokens: response.data.eval_count,
+      },
+    };
+  }
+
+  classifyError(error: any): LlmErrorKind {
+    const status = extractLlmErrorStatus(error);
+
+    if (!status && ['ECONNREFUSED', 'ENOTFOUND', 'ECONNABORTED', 'ETIMEDOUT'].includes(error?.code)) return 'unavailable';
+    if (status === 503) return 'unavailable';
+    if (status === 429) return 'rate_limit';
+    return 'other';
+  }
+}
@@ -0,0 +1,89 @@
+import axios from 'axios';
+import {
+  LlmProvider,
+  LlmCompletionRequest,
+  LlmCompletionResponse,
+  LlmErrorKind,
+  extractLlmErrorMessage,
+  extractLlmErrorStatus,
+} from './llm-provider.interface';
+
+export interface OpenAiCompatibleProviderConfig {
+  apiKey?: string;
+  baseUrl: string; // ex: https://api.openai.com/v1, Azure, Mistral, Groq...
+  model: string;
+  timeoutMs: number;
+}
+
+/**
+ * Fournisseur pour tout endpoint compatible OpenAI (/chat/completions)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly billingUrl = 'https://platform.openai.com/settings/organization/billing';
+
+  constructor(private readonly config: OpenAiCompatibleProviderConfig) {
+    this.model = config.model;
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.apiKey && !!this.config.baseUrl;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletionResponse> {
+    const model = request.model || this.model;
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const response = await axios.post(
+      url,
+      {
+        model,
+        max_tokens: request.maxTokens,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.user },
+        ],
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.config.apiKey}`,
+        },
+        timeout: this.config.timeoutMs,
+      },
+    );
+
+    const text = response.data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('Réponse inattendue');
+    }
+
+    return {
+      text,
+      model: response.data.model || model,
+      provider: this.name,
+      usage: {
+        inputTokens: response.data.usage?.prompt_tokens,
+        outputTokens: response.data.usage?.completion_tokens,
+      },
+    };
+  }
+
+  classifyError(error: any): LlmErrorKind {
+    const message = extractLlmErrorMessage(error).toLowerCase();
+    const code = String(error?.response?.data?.error?.code || error?.response?.data?.error?.type || '');
+    const status = extractLlmErrorStatus(error);
+
+    if (code === 'insufficient_quota' || message.includes('insufficient_quota') || message.includes('exceeded your current quota')) {
+      return 'credit';
+    }
+    if (status === 402 || message.includes('billing')) return 'credit';
+    if (status === 429) return 'rate_limit';
+    if (status === 401 || status === 403) return 'auth';
+    if (!status && ['ECONNREFUSED', 'ENOTFOUND', 'ECONNABORTED', 'ETIMEDOUT'].includes(error?.code)) return 'unavailable';
+    if (status && status >= 500) return 'unavailable';
+    return 'other';
+  }
+}
@@ -1,7 +1,6 @@
 import { Injectable, Logger, OnModuleInit, Inject, forwardRef } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import Anthropic from '@anthropic-ai/sdk';
 import { CreditMonitorService } from './credit-monitor.service';
+import { LlmProviderRegistryService } from './llm-provider-registry.service';
 
 // ============================================================
 // SCHÉMA CANONIQUE UNIVERSEL
@@ -72,6 +71,9 @@ export interface CanonicalDocument {
   tax_amount?: number;
   total_amount?: number;
   currency?: string;
+
+  // Champs spécifiques demandés par le profil client
+  custom_fields?: Record<string, string>;
 }
 
 export interface UniversalParserOptions {
@@ -81,39 +83,45 @@ export interface UniversalParserOptions {
     knownItemCodePattern?: string; // ex: "\\d{6}" pour codes 6 chiffres
     knownGlCodePattern?: string;
     preferredLanguage?: 'fr' | 'en';
+    customFields?: string[]; // Champs à extraire dans custom_fields
   };
+  tenantId?: string; // Sélection du fournisseur LLM par tenant
   documentType?: 'pdf' | 'excel' | 'word' | 'email';
   sourceFilename?: string;
   maxRetries?: number;
 }
 
+/**
+ * Version des prompts d'extraction: à incrémenter à chaque modification
+ * des prompts pour invalider les extractions en cache
+ */
+export const UNIVERSAL_PROMPT_VERSION = '2';
+
 @Injectable()
 export class UniversalLlmParserService implements OnModuleInit {
   private readonly logger = new Logger(UniversalLlmParserService.name);
-  private anthropic: Anthropic | null = null;
-  private isConfigured = false;
-  private readonly model = 'claude-sonnet-4-20250514';
 
   constructor(
-    private configService: ConfigService,
+    private providerRegistry: LlmProviderRegistryService,
     @Inject(forwardRef(() => CreditMonitorService))
     private creditMonitor: CreditMonitorService,
   ) {}
 
   async onModuleInit() {
-    const apiKey = this.configService.get<string>('ANTHROPIC_API_KEY');
-    
-    if (apiKey) {
-      this.anthropic = new Anthropic({ apiKey });
-      this.isConfigured = true;
-      this.logger.log('✅ Universal LLM Parser initialisé');
+    const { provider, model } = this.providerRegistry.resolve();
+
+    if (provider.isAvailable()) {
+      this.logger.log(`✅ Universal LLM Parser initialisé (${provider.name}, ${model})`);
     } else {
-      this.logger.warn('⚠️ ANTHROPIC_API_KEY non configurée');
+      this.logger.warn(`⚠️ Fournisseur LLM ${provider.name} non configuré`);
     }
   }
 
-  isAvailable(): boolean {
-    return this.isConfigured && this.anthropic !== null;
+  /**
+   * Disponibilité du fournisseur qui traiterait ce document
+   */
+  isAvailable(options: UniversalParserOptions = {}): boolean {
+    return this.providerRegistry.resolve(options).provider.isAvailable();
   }
 
   /**
@@ -123,7 +131,8 @@ export class UniversalLlmParserService implements OnModuleInit {
     content: string | Buffer,
     options: UniversalParserOptions = {}
   ): Promise<CanonicalDocument> {
-    if (!this.isAvailable()) {
+    const selection = this.providerRegistry.resolve(options);
+    if (!selection.provider.isAvailable()) {
       return this.emptyDocument('LLM non disponible');
     }
 
@@ -146,23 +155,17 @@ export class UniversalLlmParserService implements OnModuleInit {
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        this.logger.debug(`Tentative ${attempt}/${maxRetries}`);
+        this.logger.debug(`Tentative ${attempt}/${maxRetries} (${selection.provider.name}, ${selection.model})`);
 
-        const response = await this.anthropic!.messages.create({
-          model: this.model,
-          max_tokens: 4096,
+        const response = await this.providerRegistry.complete(selection, {
           system: systemPrompt,
-          messages: [{ role: 'user', content: userPrompt }],
+          user: userPrompt,
+          maxTokens: 4096,
         });
 
-        this.creditMonitor.resetStatus();
-
-        const content = response.content[0];
-        if (content.type !== 'text') {
-          throw new Error('Réponse inattendue');
-        }
+        this.creditMonitor.resetStatus(selection.provider.name);
 
-        const result = this.parseResponse(content.text, options);
+        const result = this.parseResponse(response.text, options);
         
         this.logger.log(
           `✅ Extraction: ${result.items.length} items, ` +
@@ -178,7 +181,7 @@ export class UniversalLlmParserService implements OnModuleInit {
         this.logger.warn(`Tentative ${attempt} échouée: ${lastError.message}`);
 
         // Vérifier erreur de crédit et notifier
-        await this.creditMonitor.checkApiError(error);
+        await this.creditMonitor.checkApiError(error, selection.provider);
 
         if (attempt < maxRetries) {
           await this.sleep(1000 * attempt);
@@ -204,6 +207,10 @@ CONTEXTE CLIENT (indices optionnels):
 - Pattern codes GL: ${hints.knownGlCodePattern || 'Variable'}
 - Langue préférée: ${hints.preferredLanguage || 'Auto-détection'}
 `;
+      if (hints.customFields?.length) {
+        contextHints += `- Champs spécifiques à extraire dans "custom_fields" (clé → valeur texte, null si absent): ${hints.customFields.join(', ')}
+`;
+      }
     }
 
     return `Tu es un expert en extraction de données de documents commerciaux et d'achats.
@@ -390,6 +397,7 @@ Réponds UNIQUEMENT avec le JSON, sans markdown ni commentaires.`;
         tax_amount: parsed.tax_amount,
         total_amount: parsed.total_amount,
         currency: parsed.currency,
+        custom_fields: this.normalizeCustomFields(parsed.custom_fields, options),
       };
 
     } catch (error) {
@@ -398,6 +406,26 @@ Réponds UNIQUEMENT avec le JSON, sans markdown ni commentaires.`;
     }
   }
 
+  /**
+   * Ne garde que les champs demandés par le profil, avec une valeur
+   */
+  private normalizeCustomFields(
+    raw: any,
+    options: UniversalParserOptions,
+  ): Record<string, string> | undefined {
+    const requested = options.tenantHints?.customFields;
+    if (!requested?.length || !raw || typeof raw !== 'object') return undefined;
+
+    const fields: Record<string, string> = {};
+    for (const key of requested) {
+      const value = raw[key];
+      if (value !== null && value !== undefined && String(value).trim()) {
+        fields[key] = String(value).trim();
+      }
+    }
+    return Object.keys(fields).length > 0 ? fields : undefined;
+  }
+
   private isValidItem(item: any): boolean {
     if (!item || typeof item !== 'object') return false;
     
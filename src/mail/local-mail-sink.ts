@@ -0,0 +1,64 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Sortie locale des emails (MAIL_OUTBOUND_SINK=file): les envois SMTP et les dépôts IMAP
+ * (brouillons, Envoyés, notifications) sont écrits en .eml dans localMail.sinkDir/<dossier>/
+ * au lieu de partir vers le serveur. Pour les imports d'archives et la reproduction de cas.
+ */
+
+const logger = new Logger('LocalMailSink');
+
+export const SINK_SENT_FOLDER = 'sent';
+
+export function isLocalMailSink(configService: ConfigService): boolean {
+  return configService.get<string>('localMail.outboundSink') === 'file';
+}
+
+/**
+ * Écrire un message MIME dans le dossier local; retourne le chemin du fichier
+ */
+export function writeToLocalMailSink(configService: ConfigService, folder: string, message: string | Buffer): string {
+  const baseDir = configService.get<string>('localMail.sinkDir') || './output/mail-sink';
+  const folderDir = path.join(baseDir, folder.replace(/[^a-zA-Z0-9._-]+/g, '_'));
+  fs.mkdirSync(folderDir, { recursive: true });
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filePath = path.join(folderDir, `${stamp}-${Math.random().toString(36).substring(2, 8)}.eml`);
+  fs.writeFileSync(filePath, message);
+  logger.log(`Email écrit dans ${filePath}`);
+  return filePath;
+}
+
+/**
+ * Transporteur nodemailer: SMTP, ou écriture dans le dossier local "sent" (destinataires BCC conservés)
+ */
+export function createMailTransport(configService: ConfigService, smtpOptions: any): nodemailer.Transporter {
+  if (!isLocalMailSink(configService)) {
+    return nodemailer.createTransport(smtpOptions);
+  }
+
+  return nodemailer.createTransport({
+    name: 'local-mail-sink',
+    version: '1.0.0',
+    send: (mail: any, callback: (error: Error | null, info?: any) => void) => {
+      mail.message.keepBcc = true;
+      mail.message.build((error: Error | null, message: Buffer) => {
+        if (error) return callback(error);
+        try {
+          const filePath = writeToLocalMailSink(configService, SINK_SENT_FOLDER, message);
+          callback(null, { envelope: mail.message.getEnvelope(), messageId: mail.message.messageId(), filePath });
+        } catch (writeError) {
+          callback(writeError);
+        }
+      });
+    },
+    verify: (callback?: (error: Error | null, success: boolean) => void) => {
+      callback?.(null, true);
+      return Promise.resolve(true);
+    },
+  } as any);
+}
@@ -4,6 +4,12 @@ import * as nodemailer from 'nodemailer';
 import * as imapSimple from 'imap-simple';
 import * as fs from 'fs';
 import * as path from 'path';
+import { DatabaseService } from '../database/database.service';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { MailboxAccount } from '../mailbox/mailbox.interfaces';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { formatDate, responseDeadlineVariables } from '../templates/template-variables';
+import { createMailTransport, isLocalMailSink } from './local-mail-sink';
 
 interface SendMailOptions {
   to: string;
@@ -16,6 +22,7 @@ interface SendMailOptions {
     content?: Buffer;
     contentType?: string;
   }>;
+  rfqNumber?: string; // Rattachement au journal d'audit
 }
 
 interface SendMailResult {
@@ -27,46 +34,45 @@ interface SendMailResult {
 @Injectable()
 export class MailService {
   private readonly logger = new Logger(MailService.name);
-  private transporter: nodemailer.Transporter;
+  // Transporteurs SMTP par compte, recréés si le compte est modifié
+  private readonly transporters = new Map<string, { version: number; transporter: nodemailer.Transporter }>();
 
-  constructor(private configService: ConfigService) {
-    this.initTransporter();
+  constructor(
+    private configService: ConfigService,
+    private databaseService: DatabaseService,
+    private mailboxRegistry: MailboxRegistryService,
+    private templateService: EmailTemplateService,
+  ) {}
+
+  /**
+   * Boîte d'envoi (rôle procurement_sending); undefined = configuration de l'environnement
+   */
+  private get sendingAccount(): MailboxAccount | undefined {
+    return this.mailboxRegistry.getPrimaryAccount('procurement_sending');
   }
 
-  private initTransporter() {
-    this.transporter = nodemailer.createTransport({
-      host: this.configService.get<string>('smtp.host'),
-      port: this.configService.get<number>('smtp.port'),
-      secure: this.configService.get<boolean>('smtp.secure'),
-      auth: {
-        user: this.configService.get<string>('smtp.user'),
-        pass: this.configService.get<string>('smtp.password'),
-      },
-      tls: {
-        rejectUnauthorized: false,
-      },
-    });
+  private getTransporter(account?: MailboxAccount): nodemailer.Transporter {
+    const key = account?.id || 'env';
+    const version = account?.updatedAt.getTime() || 0;
+    const cached = this.transporters.get(key);
+    if (cached && cached.version === version) {
+      return cached.transporter;
+    }
 
-    this.logger.log('Transporteur SMTP initialisé');
+    const transporter = createMailTransport(this.configService, this.mailboxRegistry.getSmtpConfig(account));
+    this.transporters.set(key, { version, transporter });
+    this.logger.log(`Transporteur SMTP initialisé${account ? ` (${account.email})` : ''}`);
+    return transporter;
   }
 
-  private getImapConfig(): imapSimple.ImapSimpleOptions {
-    return {
-      imap: {
-        host: this.configService.get<string>('imap.host'),
-        port: this.configService.get<number>('imap.port'),
-        user: this.configService.get<string>('imap.user'),
-        password: this.configService.get<string>('imap.password'),
-        tls: this.configService.get<boolean>('imap.tls'),
-        authTimeout: this.configService.get<number>('imap.authTimeout'),
-        tlsOptions: this.configService.get('imap.tlsOptions'),
-      },
-    };
+  private getImapConfig(account?: MailboxAccount): imapSimple.ImapSimpleOptions {
+    return { imap: this.mailboxRegistry.getImapConfig(account) };
   }
 
   async sendMail(options: SendMailOptions): Promise<SendMailResult> {
     try {
-      const fromEmail = this.configService.get<string>('smtp.user');
+      const account = this.sendingAccount;
+      const fromEmail = this.mailboxRegistry.getSenderAddress(account);
 
       // Préparer les pièces jointes
       const attachments = options.attachments?.map(att => {
@@ -93,25 +99,30 @@ export class MailService {
         attachments,
       };
 
-      const info = await this.transporter.sendMail(mailOptions);
+      const info = await this.getTransporter(account).sendMail(mailOptions);
 
       this.logger.log(`Email envoyé à ${options.to}: ${info.messageId}`);
 
-      // Copier l'email dans le dossier Sent via IMAP
-      try {
-        await this.copyToSentFolder(mailOptions);
-        this.logger.log(`Email copié dans le dossier Sent`);
-      } catch (imapError) {
-        this.logger.warn(`Impossible de copier dans Sent: ${imapError.message}`);
-        // Ne pas échouer l'envoi si la copie IMAP échoue
+      // Copier l'email dans le dossier Sent via IMAP (sortie locale: déjà écrit dans "sent")
+      if (!isLocalMailSink(this.configService)) {
+        try {
+          await this.copyToSentFolder(mailOptions, account);
+          this.logger.log(`Email copié dans le dossier Sent`);
+        } catch (imapError) {
+          this.logger.warn(`Impossible de copier dans Sent: ${imapError.message}`);
+          // Ne pas échouer l'envoi si la copie IMAP échoue
+        }
       }
 
+      await this.auditSendMail(options, { success: true, messageId: info.messageId });
+
       return {
         success: true,
         messageId: info.messageId,
       };
     } catch (error) {
       this.logger.error(`Erreur envoi email à ${options.to}:`, error.message);
+      await this.auditSendMail(options, { success: false, error: error.message });
       return {
         success: false,
         error: error.message,
@@ -119,18 +130,34 @@ export class MailService {
     }
   }
 
+  private async auditSendMail(options: SendMailOptions, result: SendMailResult): Promise<void> {
+    await this.databaseService.addAuditEvent({
+      entityType: 'email',
+      entityId: result.messageId,
+      action: result.success ? 'email.sent' : 'email.failed',
+      rfqNumber: options.rfqNumber,
+      after: {
+        to: options.to,
+        subject: options.subject,
+        attachments: options.attachments?.map(att => att.filename) || [],
+        messageId: result.messageId,
+        error: result.error,
+      },
+    });
+  }
+
   /**
    * Copie l'email envoyé dans le dossier Sent via IMAP
    */
-  private async copyToSentFolder(mailOptions: nodemailer.SendMailOptions): Promise<void> {
+  private async copyToSentFolder(mailOptions: nodemailer.SendMailOptions, account?: MailboxAccount): Promise<void> {
     let connection: imapSimple.ImapSimple | null = null;
     
     try {
-      connection = await imapSimple.connect(this.getImapConfig());
+      connection = await imapSimple.connect(this.getImapConfig(account));
       
-      // Dossier Sent configuré ou par défaut
+      // Dossier Sent du compte ou par défaut
       // Note: Certains serveurs utilisent "/" comme séparateur, d'autres "."
-      const configuredSentFolder = this.configService.get<string>('drafts.sentFolder');
+      const configuredSentFolder = this.mailboxRegistry.getFolder(account, 'sent');
       const sentFolderNames = configuredSentFolder 
         ? [configuredSentFolder]
         : [
@@ -243,12 +270,16 @@ export class MailService {
     attachmentPaths?: string[];
     responseDeadlineHours?: number;
   }): Promise<SendMailResult> {
-    const responseHours = draft.responseDeadlineHours || 24;
-    const deadlineDate = new Date();
-    deadlineDate.setHours(deadlineDate.getHours() + responseHours);
-
-    // Corps de l'email
-    const body = this.generateEmailBody(draft, responseHours, deadlineDate);
+    // Corps de l'email (modèle procurement_price_request)
+    const rendered = this.templateService.render('procurement_price_request', {
+      subject: draft.subject,
+      rfqNumber: draft.internalRfqNumber,
+      clientRfqNumber: draft.clientRfqNumber,
+      clientName: draft.clientName,
+      clientEmail: draft.clientEmail,
+      date: formatDate(new Date()),
+      ...responseDeadlineVariables(draft.responseDeadlineHours || 24),
+    });
 
     // Préparer les pièces jointes
     const attachments: SendMailOptions['attachments'] = [];
@@ -276,51 +307,14 @@ export class MailService {
 
     return this.sendMail({
       to: draft.recipient,
-      subject: draft.subject,
-      body,
+      subject: rendered.subject,
+      body: rendered.text,
+      htmlBody: rendered.html || undefined,
       attachments,
+      rfqNumber: draft.internalRfqNumber,
     });
   }
 
-  private generateEmailBody(
-    draft: any,
-    responseHours: number,
-    deadlineDate: Date,
-  ): string {
-    const clientInfo = [
-      draft.clientName ? `Client: ${draft.clientName}` : '',
-      draft.clientRfqNumber ? `Réf. Client: ${draft.clientRfqNumber}` : '',
-      draft.clientEmail ? `Contact Client: ${draft.clientEmail}` : '',
-    ].filter(x => x).join('\n');
-
-    return `Bonjour,
-
-Veuillez trouver ci-joint une nouvelle demande de prix à traiter.
-
-═══════════════════════════════════════════════════════
-INFORMATIONS DEMANDE
-═══════════════════════════════════════════════════════
-N° Demande interne: ${draft.internalRfqNumber}
-Date: ${new Date().toLocaleDateString('fr-FR')}
-Délai de réponse: ${responseHours}h (avant le ${deadlineDate.toLocaleDateString('fr-FR')} ${deadlineDate.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })})
-
-═══════════════════════════════════════════════════════
-INFORMATIONS CLIENT
-═══════════════════════════════════════════════════════
-${clientInfo || 'Non spécifié'}
-
-═══════════════════════════════════════════════════════
-INSTRUCTIONS
-═══════════════════════════════════════════════════════
-1. Ouvrir le fichier Excel joint
-2. Compléter les colonnes "Prix Unitaire HT"
-3. Retourner le fichier complété par email
-
----
-Ce message a été envoyé automatiquement par le système de gestion des demandes de prix.
-Cet email a été généré car le brouillon n'a pas été traité manuellement.`;
-  }
-
   private textToHtml(text: string): string {
     const escapedText = text
       .replace(/&/g, '&amp;')
@@ -353,7 +347,7 @@ Cet email a été généré car le brouillon n'a pas été traité manuellement.
 
   async verifyConnection(): Promise<boolean> {
     try {
-      await this.transporter.verify();
+      await this.getTransporter(this.sendingAccount).verify();
       this.logger.log('Connexion SMTP vérifiée avec succès');
       return true;
     } catch (error) {
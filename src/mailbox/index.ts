@@ -0,0 +1,4 @@
+export * from './mailbox.interfaces';
+export * from './mailbox-registry.service';
+export * from './mailbox.module';
+export * from './mailbox.controller';
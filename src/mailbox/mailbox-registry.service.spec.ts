@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as initSqlJs from 'sql.js';
+import { MailboxRegistryService } from './mailbox-registry.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('MailboxRegistryService', () => {
+  let service: MailboxRegistryService;
+  let config: Record<string, any>;
+  let db: any;
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailboxRegistryService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) },
+        },
+        {
+          provide: DatabaseService,
+          useValue: { db, saveToFile: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    await module.init();
+    return module.get<MailboxRegistryService>(MailboxRegistryService);
+  };
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    db = new SQL.Database();
+    config = {
+      'imap.host': 'mail.multipartsci.com',
+      'imap.port': 993,
+      'imap.tls': true,
+      'imap.user': 'procurement@multipartsci.com',
+      'imap.password': 'env-secret',
+      'auth.secret': 'test-auth-secret',
+      'drafts.folder': 'INBOX.Drafts',
+      'drafts.sentFolder': 'INBOX.Sent',
+      'lifecycle.monitoredEmails': ['Rafiou.Oyeossi@multipartsci.com'],
+    };
+    service = await createService();
+  });
+
+  it('should register the environment mailbox with every role on first start', async () => {
+    const [account] = service.listAccounts();
+    expect(account).toMatchObject({
+      email: 'procurement@multipartsci.com',
+      roles: ['rfq_intake', 'procurement_sending', 'supplier_replies'],
+      folders: { inbox: 'INBOX', sent: 'INBOX.Sent', drafts: 'INBOX.Drafts' },
+    });
+    expect(service.getImapConfig(account)).toMatchObject({ host: 'mail.multipartsci.com', password: 'env-secret' });
+
+    // Pas de second compte au redémarrage
+    await createService();
+    expect(service.listAccounts()).toHaveLength(1);
+  });
+
+  it('should route roles and folder names to the right account', () => {
+    const primary = service.listAccounts()[0];
+    service.updateAccount(primary.id, { roles: ['rfq_intake'] });
+    const sales = service.createAccount({
+      email: 'Sales@Multipartsci.com',
+      roles: ['procurement_sending', 'supplier_replies'],
+      imap: { host: 'outlook.office365.com', password: 'o365-secret' },
+      folders: { sent: 'Sent Items', drafts: 'Drafts' },
+    });
+
+    expect(service.getAccountsForRole('rfq_intake').map(a => a.email)).toEqual(['procurement@multipartsci.com']);
+    expect(service.getPrimaryAccount('procurement_sending')!.email).toBe('sales@multipartsci.com');
+    expect(service.getFolder(sales, 'sent')).toBe('Sent Items');
+    expect(service.resolveFolder(sales, 'INBOX')).toBe('INBOX');
+    expect(service.resolveFolder(sales, 'Archive/2025')).toBe('Archive/2025');
+    expect(service.getImapConfig(sales)).toMatchObject({ user: 'sales@multipartsci.com', password: 'o365-secret' });
+    expect(service.getOwnAddresses()).toEqual([
+      'procurement@multipartsci.com',
+      'sales@multipartsci.com',
+      'rafiou.oyeossi@multipartsci.com',
+    ]);
+
+    service.updateAccount(sales.id, { active: false });
+    expect(service.getPrimaryAccount('procurement_sending')).toBeUndefined();
+  });
+
+  it('should never expose passwords and reject invalid accounts', () => {
+    const account = service.createAccount({
+      email: 'achats@multipartsci.com',
+      imap: { host: 'mail.multipartsci.com', password: 'imap-secret' },
+      smtp: { host: 'smtp.multipartsci.com', password: 'smtp-secret' },
+    });
+
+    expect(JSON.stringify(service.listAccounts())).not.toContain('secret');
+    expect(account.smtp).toMatchObject({ host: 'smtp.multipartsci.com', port: 465, user: 'achats@multipartsci.com' });
+    expect(service.updateAccount(account.id, { smtp: null }).smtp).toBeUndefined();
+
+    expect(() => service.createAccount({ email: 'ACHATS@multipartsci.com', imap: { host: 'x' } })).toThrow('existe déjà');
+    expect(() => service.createAccount({ email: 'achats', imap: { host: 'x' } })).toThrow('Email invalide');
+    expect(() => service.updateAccount(account.id, { roles: ['archive' as any] })).toThrow('Rôles invalides');
+    expect(() => service.deleteAccount('unknown')).toThrow('non trouvée');
+  });
+
+  describe('passwords at rest', () => {
+    const storedPasswords = () => db.exec(`SELECT email, imap_password, smtp_password FROM mailbox_accounts ORDER BY email`)[0].values;
+
+    it('should encrypt passwords with a key derived from AUTH_SECRET', async () => {
+      const account = service.createAccount({
+        email: 'achats@multipartsci.com',
+        imap: { host: 'mail.multipartsci.com', password: 'imap-secret' },
+        smtp: { host: 'smtp.multipartsci.com', password: 'smtp-secret' },
+      });
+
+      const stored = storedPasswords();
+      expect(JSON.stringify(stored)).not.toContain('secret');
+      expect(stored).toEqual([
+        ['achats@multipartsci.com', expect.stringMatching(/^enc:v1:/), expect.stringMatching(/^enc:v1:/)],
+        ['procurement@multipartsci.com', expect.stringMatching(/^enc:v1:/), null],
+      ]);
+      expect(service.getImapConfig(account).password).toBe('imap-secret');
+      expect(service.getSmtpConfig(account).auth.pass).toBe('smtp-secret');
+
+      service.updateAccount(account.id, { imap: { password: 'rotated-secret' } });
+      expect(service.getImapConfig(account).password).toBe('rotated-secret');
+
+      // Autre AUTH_SECRET: mot de passe illisible, pas d'exception
+      config['auth.secret'] = 'another-secret';
+      const other = await createService();
+      expect(other.getImapConfig(account).password).toBe('');
+    });
+
+    it('should encrypt plaintext passwords left by a previous version at startup', async () => {
+      db.run(`UPDATE mailbox_accounts SET imap_password = 'legacy-secret'`);
+
+      const restarted = await createService();
+
+      expect(JSON.stringify(storedPasswords())).not.toContain('legacy-secret');
+      expect(restarted.getImapConfig(restarted.listAccounts()[0]).password).toBe('legacy-secret');
+    });
+
+    it('should store no password without AUTH_SECRET and keep the environment ones', async () => {
+      const SQL = await initSqlJs();
+      db = new SQL.Database();
+      delete config['auth.secret'];
+      const withoutSecret = await createService();
+
+      const [account] = withoutSecret.listAccounts();
+      expect(storedPasswords()).toEqual([['procurement@multipartsci.com', null, null]]);
+      expect(withoutSecret.getImapConfig(account).password).toBe('env-secret');
+      expect(() => withoutSecret.createAccount({
+        email: 'achats@multipartsci.com',
+        imap: { host: 'mail.multipartsci.com', password: 'imap-secret' },
+      })).toThrow('AUTH_SECRET requis');
+    });
+  });
+});
@@ -0,0 +1,491 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as imapSimple from 'imap-simple';
+import * as nodemailer from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/database.service';
+import {
+  MAILBOX_ROLES,
+  MailboxAccount,
+  MailboxAccountInput,
+  MailboxConnectionTest,
+  MailboxFolderKind,
+  MailboxFolders,
+  MailboxRole,
+} from './mailbox.interfaces';
+
+// Préfixe des mots de passe chiffrés en base (AES-256-GCM, clé dérivée de AUTH_SECRET)
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const PASSWORD_COLUMNS = ['imap_password', 'smtp_password'];
+
+/**
+ * Registre des boîtes mail (table mailbox_accounts).
+ *
+ * Chaque compte a ses identifiants IMAP/SMTP, ses noms de dossiers et ses rôles; les services
+ * de messagerie parcourent les comptes du rôle concerné. Sans compte enregistré, la configuration
+ * IMAP/SMTP de l'environnement est utilisée (et sert à créer le premier compte au démarrage).
+ *
+ * Les mots de passe sont chiffrés en base avec une clé dérivée de AUTH_SECRET. Sans AUTH_SECRET,
+ * aucun mot de passe n'est enregistré: le compte de l'environnement garde ceux du .env.
+ */
+@Injectable()
+export class MailboxRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(MailboxRegistryService.name);
+  private readonly encryptionKey?: Buffer;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly databaseService: DatabaseService,
+  ) {
+    const secret = this.configService.get<string>('auth.secret');
+    if (secret) {
+      this.encryptionKey = Buffer.from(crypto.hkdfSync('sha256', secret, '', 'mailbox-passwords', 32));
+    }
+  }
+
+  async onModuleInit() {
+    this.createTables();
+    this.encryptStoredPasswords();
+    this.seedFromEnvironment();
+  }
+
+  private get db(): any {
+    return (this.databaseService as any).db;
+  }
+
+  private createTables() {
+    const db = this.db;
+    if (!db) {
+      this.logger.warn('Database not initialized, skipping table creation');
+      return;
+    }
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS mailbox_accounts (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        display_name TEXT,
+        roles_json TEXT NOT NULL,
+        imap_host TEXT NOT NULL,
+        imap_port INTEGER NOT NULL,
+        imap_tls INTEGER NOT NULL DEFAULT 1,
+        imap_user TEXT NOT NULL,
+        imap_password TEXT,
+        smtp_host TEXT,
+        smtp_port INTEGER,
+        smtp_secure INTEGER,
+        smtp_user TEXT,
+        smtp_password TEXT,
+        folders_json TEXT NOT NULL,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.databaseService.saveToFile();
+  }
+
+  /**
+   * Premier démarrage: le compte IMAP/SMTP de l'environnement devient le compte par défaut (tous les rôles)
+   */
+  private seedFromEnvironment() {
+    const user = this.configService.get<string>('imap.user');
+    if (!this.db || !user || this.listAccounts().length > 0) return;
+
+    const smtpUser = this.configService.get<string>('smtp.user');
+    this.insertAccount({
+      email: user,
+      roles: [...MAILBOX_ROLES],
+      imap: {
+        host: this.configService.get<string>('imap.host'),
+        port: this.configService.get<number>('imap.port'),
+        tls: this.configService.get<boolean>('imap.tls'),
+        user,
+        password: this.encryptionKey ? this.configService.get<string>('imap.password') : undefined,
+      },
+      smtp: smtpUser ? {
+        host: this.configService.get<string>('smtp.host'),
+        port: this.configService.get<number>('smtp.port'),
+        secure: this.configService.get<boolean>('smtp.secure'),
+        user: smtpUser,
+        password: this.encryptionKey ? this.configService.get<string>('smtp.password') : undefined,
+      } : null,
+    });
+    this.logger.log(`Boîte mail initiale enregistrée depuis la configuration: ${user}`);
+  }
+
+  // ============ COMPTES ============
+
+  listAccounts(filters: { role?: MailboxRole; activeOnly?: boolean } = {}): MailboxAccount[] {
+    const result = this.db.exec(`SELECT * FROM mailbox_accounts ORDER BY created_at ASC, email ASC`);
+    if (result.length === 0) return [];
+    return result[0].values
+      .map((row: any[]) => this.mapRowToAccount(result[0].columns, row))
+      .filter((account: MailboxAccount) => !filters.activeOnly || account.active)
+      .filter((account: MailboxAccount) => !filters.role || account.roles.includes(filters.role));
+  }
+
+  getAccount(id: string): MailboxAccount | undefined {
+    const row = this.findRow('id', id);
+    return row ? this.mapRowToAccount(Object.keys(row), Object.values(row)) : undefined;
+  }
+
+  findAccountByEmail(email: string): MailboxAccount | undefined {
+    const row = this.findRow('email', (email || '').trim().toLowerCase());
+    return row ? this.mapRowToAccount(Object.keys(row), Object.values(row)) : undefined;
+  }
+
+  /**
+   * Comptes actifs d'un rôle, dans l'ordre d'enregistrement
+   */
+  getAccountsForRole(role: MailboxRole): MailboxAccount[] {
+    return this.listAccounts({ role, activeOnly: true });
+  }
+
+  /**
+   * Compte principal d'un rôle (le premier enregistré); undefined = configuration de l'environnement
+   */
+  getPrimaryAccount(role: MailboxRole): MailboxAccount | undefined {
+    return this.getAccountsForRole(role)[0];
+  }
+
+  createAccount(input: MailboxAccountInput): MailboxAccount {
+    const email = (input?.email || '').trim().toLowerCase();
+    if (!email.includes('@')) {
+      throw new BadRequestException('Email invalide');
+    }
+    if (!input.imap?.host) {
+      throw new BadRequestException('Serveur IMAP requis');
+    }
+    if (this.findRow('email', email)) {
+      throw new ConflictException(`Une boîte existe déjà pour ${email}`);
+    }
+
+    const id = this.insertAccount({ ...input, email, roles: this.validateRoles(input.roles || ['rfq_intake']) });
+    return this.getAccount(id)!;
+  }
+
+  updateAccount(id: string, updates: Partial<MailboxAccountInput>): MailboxAccount {
+    const row = this.findRow('id', id);
+    if (!row) {
+      throw new NotFoundException('Boîte mail non trouvée');
+    }
+
+    const setClauses: string[] = ['updated_at = ?'];
+    const params: any[] = [new Date().toISOString()];
+    const set = (column: string, value: any) => {
+      setClauses.push(`${column} = ?`);
+      params.push(value);
+    };
+
+    if (updates.displayName !== undefined) set('display_name', updates.displayName || null);
+    if (updates.roles !== undefined) set('roles_json', JSON.stringify(this.validateRoles(updates.roles)));
+    if (updates.active !== undefined) set('active', updates.active ? 1 : 0);
+    if (updates.folders !== undefined) {
+      set('folders_json', JSON.stringify({ ...JSON.parse(row.folders_json), ...updates.folders }));
+    }
+    if (updates.imap) {
+      if (updates.imap.host !== undefined) set('imap_host', updates.imap.host);
+      if (updates.imap.port !== undefined) set('imap_port', updates.imap.port);
+      if (updates.imap.tls !== undefined) set('imap_tls', updates.imap.tls ? 1 : 0);
+      if (updates.imap.user !== undefined) set('imap_user', updates.imap.user);
+      if (updates.imap.password !== undefined) set('imap_password', this.encryptPassword(updates.imap.password));
+    }
+    if (updates.smtp === null) {
+      ['smtp_host', 'smtp_port', 'smtp_secure', 'smtp_user', 'smtp_password'].forEach(column => set(column, null));
+    } else if (updates.smtp) {
+      if (updates.smtp.host !== undefined) set('smtp_host', updates.smtp.host);
+      if (updates.smtp.port !== undefined) set('smtp_port', updates.smtp.port);
+      if (updates.smtp.secure !== undefined) set('smtp_secure', updates.smtp.secure ? 1 : 0);
+      if (updates.smtp.user !== undefined) set('smtp_user', updates.smtp.user);
+      if (updates.smtp.password !== undefined) set('smtp_password', this.encryptPassword(updates.smtp.password));
+    }
+
+    params.push(id);
+    this.db.run(`UPDATE mailbox_accounts SET ${setClauses.join(', ')} WHERE id = ?`, params);
+    this.databaseService.saveToFile();
+    return this.getAccount(id)!;
+  }
+
+  deleteAccount(id: string): void {
+    if (!this.findRow('id', id)) {
+      throw new NotFoundException('Boîte mail non trouvée');
+    }
+    this.db.run(`DELETE FROM mailbox_accounts WHERE id = ?`, [id]);
+    this.databaseService.saveToFile();
+  }
+
+  /**
+   * Nos propres adresses: boîtes enregistrées + alias déclarés dans MONITORED_EMAILS
+   */
+  getOwnAddresses(): string[] {
+    const aliases = this.configService.get<string[]>('lifecycle.monitoredEmails') || [];
+    const addresses = [
+      ...this.listAccounts().map(account => account.email),
+      ...aliases.map(alias => alias.trim().toLowerCase()).filter(Boolean),
+    ];
+    if (addresses.length === 0 && this.configService.get<string>('imap.user')) {
+      addresses.push(this.configService.get<string>('imap.user')!.toLowerCase());
+    }
+    return [...new Set(addresses)];
+  }
+
+  // ============ CONNEXIONS ============
+
+  /**
+   * Configuration node-imap d'un compte (imap-simple: { imap: ... })
+   */
+  getImapConfig(account?: MailboxAccount): any {
+    const base = {
+      authTimeout: this.configService.get<number>('imap.authTimeout') || 10000,
+      tlsOptions: this.configService.get('imap.tlsOptions') || { rejectUnauthorized: false },
+    };
+    if (!account) {
+      return {
+        ...base,
+        host: this.configService.get<string>('imap.host'),
+        port: this.configService.get<number>('imap.port'),
+        user: this.configService.get<string>('imap.user'),
+        password: this.configService.get<string>('imap.password'),
+        tls: this.configService.get<boolean>('imap.tls'),
+      };
+    }
+
+    const row = this.findRow('id', account.id);
+    return {
+      ...base,
+      host: account.imap.host,
+      port: account.imap.port,
+      user: account.imap.user,
+      password: this.readPassword(row?.imap_password, account.imap.user, 'imap'),
+      tls: account.imap.tls,
+    };
+  }
+
+  /**
+   * Options de transport nodemailer d'un compte (SMTP de l'environnement si le compte n'en a pas)
+   */
+  getSmtpConfig(account?: MailboxAccount): any {
+    const tls = { rejectUnauthorized: false };
+    if (!account?.smtp) {
+      return {
+        host: this.configService.get<string>('smtp.host'),
+        port: this.configService.get<number>('smtp.port'),
+        secure: this.configService.get<boolean>('smtp.secure'),
+        auth: {
+          user: this.configService.get<string>('smtp.user'),
+          pass: this.configService.get<string>('smtp.password'),
+        },
+        tls,
+      };
+    }
+
+    const row = this.findRow('id', account.id);
+    return {
+      host: account.smtp.host,
+      port: account.smtp.port,
+      secure: account.smtp.secure,
+      auth: { user: account.smtp.user, pass: this.readPassword(row?.smtp_password, account.smtp.user, 'smtp') },
+      tls,
+    };
+  }
+
+  /**
+   * Adresse d'expédition d'un compte
+   */
+  getSenderAddress(account?: MailboxAccount): string | undefined {
+    return account?.email || this.configService.get<string>('smtp.user');
+  }
+
+  getFolder(account: MailboxAccount | undefined, kind: MailboxFolderKind): string {
+    return account?.folders[kind] || this.defaultFolders()[kind];
+  }
+
+  /**
+   * Nom réel d'un dossier: "INBOX" (ou vide) désigne la boîte de réception du compte
+   */
+  resolveFolder(account: MailboxAccount | undefined, folder?: string): string {
+    if (!folder || folder.toUpperCase() === 'INBOX') {
+      return this.getFolder(account, 'inbox');
+    }
+    return folder;
+  }
+
+  async testConnection(id: string): Promise<MailboxConnectionTest> {
+    const account = this.getAccount(id);
+    if (!account) {
+      throw new NotFoundException('Boîte mail non trouvée');
+    }
+
+    const result: MailboxConnectionTest = { imap: { ok: false }, smtp: { ok: false } };
+    try {
+      const connection = await imapSimple.connect({ imap: this.getImapConfig(account) });
+      try {
+        result.imap = { ok: true, folders: Object.keys(await connection.getBoxes()) };
+      } finally {
+        connection.end();
+      }
+    } catch (error) {
+      result.imap = { ok: false, error: error.message };
+    }
+
+    try {
+      await nodemailer.createTransport(this.getSmtpConfig(account)).verify();
+      result.smtp = { ok: true };
+    } catch (error) {
+      result.smtp = { ok: false, error: error.message };
+    }
+    return result;
+  }
+
+  // ============ INTERNE ============
+
+  private defaultFolders(): MailboxFolders {
+    return {
+      inbox: 'INBOX',
+      sent: this.configService.get<string>('drafts.sentFolder') || 'INBOX.Sent',
+      drafts: this.configService.get<string>('drafts.folder') || 'INBOX.Drafts',
+    };
+  }
+
+  private insertAccount(input: MailboxAccountInput): string {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const smtp = input.smtp?.host ? input.smtp : null;
+
+    this.db.run(`
+      INSERT INTO mailbox_accounts (
+        id, email, display_name, roles_json, imap_host, imap_port, imap_tls, imap_user, imap_password,
+        smtp_host, smtp_port, smtp_secure, smtp_user, smtp_password, folders_json, active, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      id,
+      input.email.trim().toLowerCase(),
+      input.displayName || null,
+      JSON.stringify(input.roles || []),
+      input.imap?.host || 'localhost',
+      input.imap?.port || 993,
+      input.imap?.tls === false ? 0 : 1,
+      input.imap?.user || input.email,
+      this.encryptPassword(input.imap?.password),
+      smtp?.host || null,
+      smtp ? smtp.port || 465 : null,
+      smtp ? (smtp.secure === false ? 0 : 1) : null,
+      smtp ? smtp.user || input.email : null,
+      this.encryptPassword(smtp?.password),
+      JSON.stringify({ ...this.defaultFolders(), ...input.folders }),
+      input.active === false ? 0 : 1,
+      now,
+      now,
+    ]);
+    this.databaseService.saveToFile();
+    return id;
+  }
+
+  /**
+   * Valeur chiffrée à enregistrer (null si vide); refusé sans AUTH_SECRET
+   */
+  private encryptPassword(password?: string | null): string | null {
+    if (!password) return null;
+    if (!this.encryptionKey) {
+      throw new BadRequestException('AUTH_SECRET requis pour enregistrer un mot de passe de boîte mail');
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(password, 'utf8'), cipher.final()]);
+    return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+  }
+
+  /**
+   * Mot de passe en clair d'un compte. Sans mot de passe enregistré, celui du .env
+   * s'applique au compte de l'environnement (même utilisateur).
+   */
+  private readPassword(stored: string | null | undefined, user: string, kind: 'imap' | 'smtp'): string {
+    if (!stored) {
+      return user === this.configService.get<string>(`${kind}.user`)
+        ? this.configService.get<string>(`${kind}.password`) || ''
+        : '';
+    }
+    if (!stored.startsWith(ENCRYPTED_PREFIX)) return stored;
+
+    try {
+      const [iv, tag, encrypted] = stored.slice(ENCRYPTED_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey!, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    } catch (error) {
+      this.logger.warn(`Mot de passe ${kind.toUpperCase()} illisible pour ${user} (AUTH_SECRET modifié ?)`);
+      return '';
+    }
+  }
+
+  /**
+   * Chiffre les mots de passe enregistrés en clair par les versions précédentes
+   */
+  private encryptStoredPasswords() {
+    if (!this.db) return;
+
+    const result = this.db.exec(`SELECT id, ${PASSWORD_COLUMNS.join(', ')} FROM mailbox_accounts`);
+    const rows: any[][] = result.length > 0 ? result[0].values : [];
+    const plaintext = rows.filter(row => row.slice(1).some(value => value && !value.startsWith(ENCRYPTED_PREFIX)));
+    if (plaintext.length === 0) return;
+
+    if (!this.encryptionKey) {
+      this.logger.warn(`AUTH_SECRET non défini: ${plaintext.length} boîte(s) mail gardent un mot de passe en clair`);
+      return;
+    }
+
+    for (const [id, ...passwords] of plaintext) {
+      const values = passwords.map(value => value && !value.startsWith(ENCRYPTED_PREFIX) ? this.encryptPassword(value) : value);
+      this.db.run(
+        `UPDATE mailbox_accounts SET ${PASSWORD_COLUMNS.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+        [...values, id],
+      );
+    }
+    this.databaseService.saveToFile();
+    this.logger.log(`Mots de passe chiffrés pour ${plaintext.length} boîte(s) mail`);
+  }
+
+  private validateRoles(roles: MailboxRole[]): MailboxRole[] {
+    if (!Array.isArray(roles) || roles.some(role => !MAILBOX_ROLES.includes(role))) {
+      throw new BadRequestException(`Rôles invalides (valeurs possibles: ${MAILBOX_ROLES.join(', ')})`);
+    }
+    return [...new Set(roles)];
+  }
+
+  private findRow(column: 'id' | 'email', value: string): Record<string, any> | undefined {
+    const result = this.db.exec(`SELECT * FROM mailbox_accounts WHERE ${column} = ?`, [value]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    const row: Record<string, any> = {};
+    result[0].columns.forEach((col: string, i: number) => row[col] = result[0].values[0][i]);
+    return row;
+  }
+
+  private mapRowToAccount(columns: string[], row: any[]): MailboxAccount {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      email: obj.email,
+      displayName: obj.display_name || undefined,
+      roles: JSON.parse(obj.roles_json || '[]'),
+      imap: { host: obj.imap_host, port: obj.imap_port, tls: obj.imap_tls === 1, user: obj.imap_user },
+      smtp: obj.smtp_host
+        ? { host: obj.smtp_host, port: obj.smtp_port, secure: obj.smtp_secure === 1, user: obj.smtp_user }
+        : undefined,
+      folders: { ...this.defaultFolders(), ...JSON.parse(obj.folders_json || '{}') },
+      active: obj.active === 1,
+      createdAt: new Date(obj.created_at),
+      updatedAt: new Date(obj.updated_at),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { Body, Controller, Delete, Get, NotFoundException, Param, Post, Put, Query } from '@nestjs/common';
+import { Roles } from '../auth/auth.decorators';
+import { MailboxRegistryService } from './mailbox-registry.service';
+import { MailboxAccountInput, MailboxRole } from './mailbox.interfaces';
+
+@Controller('mailboxes')
+export class MailboxController {
+  constructor(private readonly mailboxRegistry: MailboxRegistryService) {}
+
+  /**
+   * GET /mailboxes?role=
+   * Boîtes enregistrées (sans mots de passe)
+   */
+  @Get()
+  listMailboxes(@Query('role') role?: MailboxRole) {
+    const mailboxes = this.mailboxRegistry.listAccounts({ role });
+    return {
+      success: true,
+      count: mailboxes.length,
+      mailboxes,
+      ownAddresses: this.mailboxRegistry.getOwnAddresses(),
+    };
+  }
+
+  @Get(':id')
+  getMailbox(@Param('id') id: string) {
+    const mailbox = this.mailboxRegistry.getAccount(id);
+    if (!mailbox) {
+      throw new NotFoundException('Boîte mail non trouvée');
+    }
+    return { success: true, mailbox };
+  }
+
+  @Roles('admin')
+  @Post()
+  createMailbox(@Body() body: MailboxAccountInput) {
+    const mailbox = this.mailboxRegistry.createAccount(body || ({} as any));
+    return { success: true, mailbox };
+  }
+
+  @Roles('admin')
+  @Put(':id')
+  updateMailbox(@Param('id') id: string, @Body() body: Partial<MailboxAccountInput>) {
+    const mailbox = this.mailboxRegistry.updateAccount(id, body || {});
+    return { success: true, mailbox };
+  }
+
+  @Roles('admin')
+  @Delete(':id')
+  deleteMailbox(@Param('id') id: string) {
+    this.mailboxRegistry.deleteAccount(id);
+    return { success: true, message: 'Boîte mail supprimée' };
+  }
+
+  /**
+   * POST /mailboxes/:id/test
+   * Vérifier les connexions IMAP et SMTP du compte
+   */
+  @Roles('admin')
+  @Post(':id/test')
+  async testMailbox(@Param('id') id: string) {
+    const result = await this.mailboxRegistry.testConnection(id);
+    return { success: result.imap.ok && result.smtp.ok, ...result };
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Rôle d'une boîte mail dans le traitement
+ * - rfq_intake: réception des demandes de prix clients
+ * - procurement_sending: envoi des demandes aux fournisseurs (brouillons, SMTP, dossier Envoyés)
+ * - supplier_replies: réception des offres et réponses fournisseurs
+ */
+export type MailboxRole = 'rfq_intake' | 'procurement_sending' | 'supplier_replies';
+
+export const MAILBOX_ROLES: MailboxRole[] = ['rfq_intake', 'procurement_sending', 'supplier_replies'];
+
+/**
+ * Noms des dossiers sur le serveur (ex: "INBOX.Sent" ou "Sent Items" selon l'hébergeur)
+ */
+export interface MailboxFolders {
+  inbox: string;
+  sent: string;
+  drafts: string;
+}
+
+export type MailboxFolderKind = keyof MailboxFolders;
+
+/**
+ * Compte de messagerie enregistré (les mots de passe ne sont jamais exposés)
+ */
+export interface MailboxAccount {
+  id: string;
+  email: string;
+  displayName?: string;
+  roles: MailboxRole[];
+  imap: { host: string; port: number; tls: boolean; user: string };
+  smtp?: { host: string; port: number; secure: boolean; user: string };
+  folders: MailboxFolders;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MailboxAccountInput {
+  email: string;
+  displayName?: string;
+  roles?: MailboxRole[];
+  imap?: { host?: string; port?: number; tls?: boolean; user?: string; password?: string };
+  smtp?: { host?: string; port?: number; secure?: boolean; user?: string; password?: string } | null;
+  folders?: Partial<MailboxFolders>;
+  active?: boolean;
+}
+
+export interface MailboxConnectionTest {
+  imap: { ok: boolean; error?: string; folders?: string[] };
+  smtp: { ok: boolean; error?: string };
+}
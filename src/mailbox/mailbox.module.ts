@@ -0,0 +1,14 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
+import { MailboxRegistryService } from './mailbox-registry.service';
+import { MailboxController } from './mailbox.controller';
+
+@Global()
+@Module({
+  imports: [ConfigModule, DatabaseModule],
+  providers: [MailboxRegistryService],
+  controllers: [MailboxController],
+  exports: [MailboxRegistryService],
+})
+export class MailboxModule {}
@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
+import { requestContextMiddleware } from './common/request-context';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
@@ -19,13 +20,18 @@ async function bootstrap() {
     }),
   );
 
-  // CORS pour le développement
-  app.enableCors();
+  const configService = app.get(ConfigService);
+
+  // CORS: limité aux origines configurées (CORS_ORIGINS), ouvert sinon
+  const corsOrigins = configService.get<string[]>('auth.corsOrigins') || [];
+  app.enableCors(corsOrigins.length > 0 ? { origin: corsOrigins } : undefined);
+
+  // Identifiant de corrélation par requête (journal d'audit)
+  app.use(requestContextMiddleware);
 
   // Préfixe API
   app.setGlobalPrefix('api');
 
-  const configService = app.get(ConfigService);
   const port = configService.get<number>('app.port') || 3000;
 
   await app.listen(port);
@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as initSqlJs from 'sql.js';
+import { HolidayCalendarService, computeEasterSunday } from '../services/holiday-calendar.service';
+import { DatabaseService } from '../../database/database.service';
+
+describe('HolidayCalendarService', () => {
+  let service: HolidayCalendarService;
+  let filesDir: string;
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    filesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'holidays-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HolidayCalendarService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) => {
+              if (key === 'reminder.holidayHomeCountry') return 'CI';
+              if (key === 'reminder.holidayFilesDir') return filesDir;
+              return undefined;
+            }),
+          },
+        },
+        {
+          provide: DatabaseService,
+          useValue: { db: new SQL.Database(), saveToFile: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<HolidayCalendarService>(HolidayCalendarService);
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    fs.rmSync(filesDir, { recursive: true, force: true });
+  });
+
+  describe('computeEasterSunday', () => {
+    it('should compute known Easter dates', () => {
+      expect(computeEasterSunday(2026).toDateString()).toBe(new Date(2026, 3, 5).toDateString());
+      expect(computeEasterSunday(2027).toDateString()).toBe(new Date(2027, 2, 28).toDateString());
+    });
+  });
+
+  describe('findHoliday', () => {
+    it('should resolve fixed and Easter-based holidays from default calendars', () => {
+      expect(service.findHoliday(new Date(2026, 7, 7), ['CI'])?.name).toBe('Fête de l\'indépendance');
+      expect(service.findHoliday(new Date(2026, 3, 6), ['CI'])?.name).toBe('Lundi de Pâques');
+      expect(service.findHoliday(new Date(2026, 3, 7), ['CI'])).toBeUndefined();
+    });
+
+    it('should only match the requested calendars', () => {
+      const christmasEve = new Date(2026, 11, 24);
+      expect(service.findHoliday(christmasEve, ['CI'])).toBeUndefined();
+      expect(service.findHoliday(christmasEve, ['CI', 'DE'])?.countryCode).toBe('DE');
+    });
+  });
+
+  describe('importHolidayFile', () => {
+    it('should import dated holidays once', () => {
+      const file = path.join(filesDir, 'lunar.json');
+      fs.writeFileSync(file, JSON.stringify({
+        countryCode: 'CI',
+        holidays: [{ name: 'Tabaski', date: '2026-05-27' }, { name: 'Broken', date: '27/05/2026' }],
+      }));
+
+      const first = service.importHolidayFile(file);
+      const second = service.importHolidayFile(file);
+
+      expect(first.imported).toBe(1);
+      expect(first.errors).toHaveLength(1);
+      expect(second.imported).toBe(0);
+      expect(service.findHoliday(new Date(2026, 4, 27), ['CI'])?.name).toBe('Tabaski');
+    });
+
+    it('should only resolve files inside the holiday files directory', () => {
+      expect(service.resolveHolidayFile('lunar.json')).toBe(path.join(filesDir, 'lunar.json'));
+      expect(service.resolveHolidayFile(path.join(filesDir, 'cn', '2026.json'))).toBe(path.join(filesDir, 'cn', '2026.json'));
+      expect(() => service.resolveHolidayFile('../passwd')).toThrow(BadRequestException);
+      expect(() => service.resolveHolidayFile('/etc/passwd')).toThrow(BadRequestException);
+      expect(() => service.resolveHolidayFile('')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('getCountriesForSupplier', () => {
+    it('should add the supplier country, email assignment winning over domain', () => {
+      service.setSupplierCountry('acme.de', 'DE');
+      service.setSupplierCountry('sales@acme.de', 'CN');
+
+      expect(service.getCountriesForSupplier('info@acme.de')).toEqual(['CI', 'DE']);
+      expect(service.getCountriesForSupplier('sales@acme.de')).toEqual(['CI', 'CN']);
+      expect(service.getCountriesForSupplier('someone@unknown.com')).toEqual(['CI']);
+    });
+  });
+});
@@ -1,11 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { ReminderPolicyService } from '../services/reminder-policy.service';
+import { HolidayCalendarService } from '../services/holiday-calendar.service';
+import { HolidayMatch } from '../interfaces/reminder.interfaces';
 
 describe('ReminderPolicyService', () => {
   let service: ReminderPolicyService;
+  let holidays: HolidayMatch[];
 
   beforeEach(async () => {
+    holidays = [];
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ReminderPolicyService,
@@ -18,6 +23,16 @@ describe('ReminderPolicyService', () => {
             }),
           },
         },
+        {
+          provide: HolidayCalendarService,
+          useValue: {
+            getHomeCountry: jest.fn(() => 'CI'),
+            findHoliday: jest.fn((date: Date, countries: string[]) => {
+              const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+              return holidays.find(h => h.date === key && countries.includes(h.countryCode));
+            }),
+          },
+        },
       ],
     }).compile();
 
@@ -71,6 +86,31 @@ describe('ReminderPolicyService', () => {
       expect(result.originalDueDate.getDate()).toBe(expectedDate.getDate());
     });
 
+    it('should postpone a due date falling on a home country holiday', () => {
+      holidays = [{ date: '2026-05-01', countryCode: 'CI', name: 'Fête du travail' }];
+
+      // Tuesday April 28, 2026 + 3 days = Friday May 1 -> skip Fri, Sat, Sun -> Monday May 4
+      const sentAt = new Date(2026, 3, 28, 10, 0, 0);
+      const result = service.computeNextBusinessDueDate(sentAt, 3);
+
+      expect(result.wasPostponed).toBe(true);
+      expect(result.postponeReason).toBe('holiday');
+      expect(result.dueDate.getDate()).toBe(4);
+      expect(result.postponements!.map(p => p.reason)).toEqual(['holiday', 'saturday', 'sunday']);
+      expect(result.postponements![0].holidayName).toBe('Fête du travail');
+    });
+
+    it('should only apply supplier holidays when the supplier country is given', () => {
+      holidays = [{ date: '2026-01-15', countryCode: 'CN', name: 'Test holiday' }];
+      const sentAt = new Date(2026, 0, 12, 10, 0, 0); // Monday -> Thursday January 15
+
+      expect(service.computeNextBusinessDueDate(sentAt, 3).wasPostponed).toBe(false);
+
+      const result = service.computeNextBusinessDueDate(sentAt, 3, ['CN']);
+      expect(result.dueDate.getDate()).toBe(16);
+      expect(result.postponements![0].countryCode).toBe('CN');
+    });
+
     it('should set due time to 9 AM', () => {
       const sentAt = new Date('2026-01-13T15:30:00Z');
       const result = service.computeNextBusinessDueDate(sentAt, 1);
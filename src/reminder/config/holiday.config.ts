@@ -0,0 +1,104 @@
+import { HolidayType } from '../interfaces/reminder.interfaces';
+
+export interface DefaultHoliday {
+  name: string;
+  type: Exclude<HolidayType, 'date'>;
+  month?: number;
+  day?: number;
+  easterOffset?: number;
+}
+
+export interface DefaultCalendar {
+  countryCode: string;
+  name: string;
+  holidays: DefaultHoliday[];
+}
+
+const fixed = (month: number, day: number, name: string): DefaultHoliday => ({ name, type: 'fixed', month, day });
+const easter = (easterOffset: number, name: string): DefaultHoliday => ({ name, type: 'easter', easterOffset });
+
+/**
+ * Default calendars seeded on first start (fixed and Easter-based feasts only).
+ * Lunar feasts (Tabaski, Ramadan, Chinese New Year...) change every year and
+ * are loaded from files in HOLIDAY_FILES_DIR.
+ */
+export const DEFAULT_HOLIDAY_CALENDARS: DefaultCalendar[] = [
+  {
+    countryCode: 'CI',
+    name: 'Côte d\'Ivoire',
+    holidays: [
+      fixed(1, 1, 'Jour de l\'an'),
+      fixed(5, 1, 'Fête du travail'),
+      fixed(8, 7, 'Fête de l\'indépendance'),
+      fixed(8, 15, 'Assomption'),
+      fixed(11, 1, 'Toussaint'),
+      fixed(11, 15, 'Journée nationale de la paix'),
+      fixed(12, 25, 'Noël'),
+      easter(1, 'Lundi de Pâques'),
+      easter(39, 'Ascension'),
+      easter(50, 'Lundi de Pentecôte'),
+    ],
+  },
+  {
+    countryCode: 'FR',
+    name: 'France',
+    holidays: [
+      fixed(1, 1, 'Jour de l\'an'),
+      fixed(5, 1, 'Fête du travail'),
+      fixed(5, 8, 'Victoire 1945'),
+      fixed(7, 14, 'Fête nationale'),
+      fixed(8, 15, 'Assomption'),
+      fixed(11, 1, 'Toussaint'),
+      fixed(11, 11, 'Armistice'),
+      fixed(12, 25, 'Noël'),
+      easter(1, 'Lundi de Pâques'),
+      easter(39, 'Ascension'),
+      easter(50, 'Lundi de Pentecôte'),
+    ],
+  },
+  {
+    countryCode: 'DE',
+    name: 'Allemagne',
+    holidays: [
+      fixed(1, 1, 'Neujahr'),
+      fixed(5, 1, 'Tag der Arbeit'),
+      fixed(10, 3, 'Tag der Deutschen Einheit'),
+      fixed(12, 24, 'Heiligabend'),
+      fixed(12, 25, 'Weihnachtstag'),
+      fixed(12, 26, 'Zweiter Weihnachtstag'),
+      fixed(12, 31, 'Silvester'),
+      easter(-2, 'Karfreitag'),
+      easter(1, 'Ostermontag'),
+      easter(39, 'Christi Himmelfahrt'),
+      easter(50, 'Pfingstmontag'),
+    ],
+  },
+  {
+    countryCode: 'IT',
+    name: 'Italie',
+    holidays: [
+      fixed(1, 1, 'Capodanno'),
+      fixed(1, 6, 'Epifania'),
+      fixed(4, 25, 'Festa della Liberazione'),
+      fixed(5, 1, 'Festa del Lavoro'),
+      fixed(6, 2, 'Festa della Repubblica'),
+      fixed(8, 15, 'Ferragosto'),
+      fixed(11, 1, 'Ognissanti'),
+      fixed(12, 8, 'Immacolata Concezione'),
+      fixed(12, 25, 'Natale'),
+      fixed(12, 26, 'Santo Stefano'),
+      easter(1, 'Lunedì dell\'Angelo'),
+    ],
+  },
+  {
+    countryCode: 'CN',
+    name: 'Chine',
+    holidays: [
+      fixed(1, 1, 'New Year\'s Day'),
+      fixed(5, 1, 'Labour Day'),
+      fixed(10, 1, 'National Day'),
+      fixed(10, 2, 'National Day'),
+      fixed(10, 3, 'National Day'),
+    ],
+  },
+];
@@ -9,6 +9,8 @@ export const reminderConfig = registerAs('reminder', (): ReminderConfig => ({
   procurementSentMailbox: process.env.PROCUREMENT_SENT_MAILBOX || 'procurement@multipartsci.com',
   chaserScoreThreshold: parseInt(process.env.CHASER_SCORE_THRESHOLD || '60', 10),
   closedStatuses: (process.env.CLOSED_STATUSES || 'CLOSED,CANCELLED,LOST,WON').split(',') as RequestStatus[],
+  holidayHomeCountry: (process.env.HOLIDAY_HOME_COUNTRY || 'CI').toUpperCase(),
+  holidayFilesDir: process.env.HOLIDAY_FILES_DIR || './data/holidays',
 }));
 
 /**
@@ -7,9 +7,11 @@ export * from './interfaces/reminder.interfaces';
 
 // Config
 export * from './config/reminder.config';
+export * from './config/holiday.config';
 
 // Services
 export * from './services/reminder-policy.service';
+export * from './services/holiday-calendar.service';
 export * from './services/conversation-linker.service';
 export * from './services/classifier-client-chaser.service';
 export * from './services/customer-auto-response.service';
@@ -12,6 +12,8 @@ export interface ReminderConfig {
   procurementSentMailbox: string;
   chaserScoreThreshold: number;
   closedStatuses: RequestStatus[];
+  holidayHomeCountry: string;
+  holidayFilesDir: string;
 }
 
 // ============ REQUEST STATUS ============
@@ -156,11 +158,63 @@ export interface SupplierReminderDue {
   reminderCount: number;
 }
 
+export type PostponeReason = 'saturday' | 'sunday' | 'holiday';
+
+export interface PostponeStep {
+  date: Date;
+  reason: PostponeReason;
+  holidayName?: string;
+  countryCode?: string;
+}
+
 export interface ReminderScheduleResult {
   dueDate: Date;
   originalDueDate: Date;
   wasPostponed: boolean;
-  postponeReason?: 'saturday' | 'sunday';
+  postponeReason?: PostponeReason;
+  postponements?: PostponeStep[];  // Every skipped day, in order
+}
+
+// ============ HOLIDAY CALENDARS ============
+
+/**
+ * fixed: same month/day every year
+ * easter: offset in days from Easter Sunday (e.g. +1 = Easter Monday)
+ * date: one-off date (lunar feasts, exceptional closures), loaded from files or API
+ */
+export type HolidayType = 'fixed' | 'easter' | 'date';
+
+export interface HolidayCalendar {
+  countryCode: string;
+  name: string;
+  holidayCount?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface HolidayRule {
+  id: string;
+  countryCode: string;
+  name: string;
+  type: HolidayType;
+  month?: number;
+  day?: number;
+  easterOffset?: number;
+  date?: string;  // YYYY-MM-DD
+  source: 'default' | 'file' | 'manual';
+  createdAt: Date;
+}
+
+export interface HolidayMatch {
+  date: string;  // YYYY-MM-DD
+  countryCode: string;
+  name: string;
+}
+
+export interface SupplierCountry {
+  supplier: string;  // Email or domain
+  countryCode: string;
+  updatedAt: Date;
 }
 
 // ============ AUTO EMAIL LOG ============
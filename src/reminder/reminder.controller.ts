@@ -1,11 +1,13 @@
-import { Controller, Get, Post, Body, Param, Query } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Body, Param, Query } from '@nestjs/common';
 import { ReminderSchedulerService } from './services/reminder-scheduler.service';
 import { SupplierReminderService } from './services/supplier-reminder.service';
 import { ClassifierClientChaserService } from './services/classifier-client-chaser.service';
 import { ConversationLinkerService } from './services/conversation-linker.service';
 import { ReminderDatabaseService } from './services/reminder-database.service';
 import { ReminderPolicyService } from './services/reminder-policy.service';
-import { InboundEmail } from './interfaces/reminder.interfaces';
+import { HolidayCalendarService } from './services/holiday-calendar.service';
+import { InboundEmail, HolidayType } from './interfaces/reminder.interfaces';
+import { Roles } from '../auth/auth.decorators';
 
 @Controller('api/reminder')
 export class ReminderController {
@@ -16,6 +18,7 @@ export class ReminderController {
     private readonly linkerService: ConversationLinkerService,
     private readonly reminderDbService: ReminderDatabaseService,
     private readonly policyService: ReminderPolicyService,
+    private readonly holidayService: HolidayCalendarService,
   ) {}
 
   // ============ Status & Control ============
@@ -28,12 +31,14 @@ export class ReminderController {
     };
   }
 
+  @Roles('admin')
   @Post('enable')
   enable() {
     this.schedulerService.setEnabled(true);
     return { success: true, enabled: true };
   }
 
+  @Roles('admin')
   @Post('disable')
   disable() {
     this.schedulerService.setEnabled(false);
@@ -73,6 +78,17 @@ export class ReminderController {
     };
   }
 
+  @Get('supplier/scheduled')
+  async getScheduledSupplierReminders(@Query('limit') limitStr?: string) {
+    const reminders = await this.reminderDbService.getScheduledSupplierReminders(
+      limitStr ? parseInt(limitStr, 10) : 100,
+    );
+    return {
+      count: reminders.length,
+      reminders,
+    };
+  }
+
   @Post('supplier/schedule')
   async scheduleSupplierReminder(@Body() body: {
     rfqId: string;
@@ -135,19 +151,38 @@ export class ReminderController {
   // ============ Policy Testing ============
 
   @Get('policy/due-date')
-  calculateDueDate(@Query('sentAt') sentAtStr: string, @Query('slaDays') slaDaysStr?: string) {
+  calculateDueDate(
+    @Query('sentAt') sentAtStr: string,
+    @Query('slaDays') slaDaysStr?: string,
+    @Query('supplier') supplierEmail?: string,
+    @Query('countries') countriesStr?: string,
+  ) {
     const sentAt = new Date(sentAtStr);
     const slaDays = slaDaysStr ? parseInt(slaDaysStr, 10) : undefined;
+    const countries = countriesStr
+      ? countriesStr.split(',').map(c => c.trim().toUpperCase()).filter(Boolean)
+      : this.holidayService.getCountriesForSupplier(supplierEmail);
 
-    const result = this.policyService.computeNextBusinessDueDate(sentAt, slaDays);
+    const result = this.policyService.computeNextBusinessDueDate(sentAt, slaDays, countries);
 
     return {
-      input: { sentAt: sentAt.toISOString(), slaDays },
+      input: { sentAt: sentAt.toISOString(), slaDays, supplier: supplierEmail, countries },
       result: {
         dueDate: result.dueDate.toISOString(),
         originalDueDate: result.originalDueDate.toISOString(),
         wasPostponed: result.wasPostponed,
         postponeReason: result.postponeReason,
+        postponements: (result.postponements || []).map(p => ({
+          date: p.date.toISOString(),
+          reason: p.reason,
+          holidayName: p.holidayName,
+          countryCode: p.countryCode,
+        })),
+        explanation: result.postponements?.length
+          ? result.postponements
+              .map(p => `${p.date.toISOString().slice(0, 10)}: ${p.holidayName ? `${p.holidayName} (${p.countryCode})` : p.reason}`)
+              .join('; ')
+          : undefined,
         dayOfWeek: result.dueDate.toLocaleDateString('en-US', { weekday: 'long' }),
       },
     };
@@ -168,6 +203,101 @@ export class ReminderController {
     };
   }
 
+  // ============ Holiday Calendars ============
+
+  @Get('holidays/calendars')
+  listHolidayCalendars() {
+    const calendars = this.holidayService.listCalendars();
+    return {
+      homeCountry: this.holidayService.getHomeCountry(),
+      count: calendars.length,
+      calendars,
+    };
+  }
+
+  @Get('holidays/calendars/:countryCode')
+  getHolidayCalendar(@Param('countryCode') countryCode: string, @Query('year') yearStr?: string) {
+    const calendar = this.holidayService.getCalendar(countryCode);
+    if (!calendar) {
+      return { success: false, error: `Unknown calendar: ${countryCode}` };
+    }
+
+    const year = yearStr ? parseInt(yearStr, 10) : new Date().getFullYear();
+    return {
+      ...calendar,
+      year,
+      dates: this.holidayService.getHolidaysForYear(countryCode, year),
+    };
+  }
+
+  @Roles('admin')
+  @Post('holidays/calendars')
+  saveHolidayCalendar(@Body() body: { countryCode: string; name: string }) {
+    try {
+      const calendar = this.holidayService.upsertCalendar(body.countryCode || '', body.name || body.countryCode);
+      return { success: true, calendar };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  @Roles('admin')
+  @Delete('holidays/calendars/:countryCode')
+  deleteHolidayCalendar(@Param('countryCode') countryCode: string) {
+    return { success: this.holidayService.deleteCalendar(countryCode) };
+  }
+
+  @Roles('admin')
+  @Post('holidays/calendars/:countryCode/holidays')
+  addHoliday(
+    @Param('countryCode') countryCode: string,
+    @Body() body: { name: string; type: HolidayType; month?: number; day?: number; easterOffset?: number; date?: string },
+  ) {
+    try {
+      const holiday = this.holidayService.addHoliday(countryCode, body);
+      return { success: true, holiday };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  @Roles('admin')
+  @Delete('holidays/:id')
+  deleteHoliday(@Param('id') id: string) {
+    return { success: this.holidayService.deleteHoliday(id) };
+  }
+
+  @Roles('admin')
+  @Post('holidays/import')
+  importHolidays(@Body() body: { filePath?: string }) {
+    const result = body?.filePath
+      ? this.holidayService.importHolidayFile(this.holidayService.resolveHolidayFile(body.filePath))
+      : this.holidayService.importHolidayFiles();
+    return { success: result.errors.length === 0, result };
+  }
+
+  @Get('holidays/suppliers')
+  listSupplierCountries() {
+    const suppliers = this.holidayService.listSupplierCountries();
+    return { count: suppliers.length, suppliers };
+  }
+
+  @Roles('admin')
+  @Post('holidays/suppliers')
+  setSupplierCountry(@Body() body: { supplier: string; countryCode: string }) {
+    try {
+      return { success: true, assignment: this.holidayService.setSupplierCountry(body.supplier || '', body.countryCode || '') };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  @Roles('admin')
+  @Delete('holidays/suppliers/:supplier')
+  removeSupplierCountry(@Param('supplier') supplier: string) {
+    return { success: this.holidayService.removeSupplierCountry(supplier) };
+  }
+
   // ============ Logs ============
 
   @Get('logs/auto-emails')
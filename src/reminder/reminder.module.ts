@@ -1,12 +1,12 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
-import { ScheduleModule } from '@nestjs/schedule';
 
 // Config
 import { reminderConfig } from './config/reminder.config';
 
 // Services
 import { ReminderPolicyService } from './services/reminder-policy.service';
+import { HolidayCalendarService } from './services/holiday-calendar.service';
 import { ConversationLinkerService } from './services/conversation-linker.service';
 import { ClassifierClientChaserService } from './services/classifier-client-chaser.service';
 import { CustomerAutoResponseService } from './services/customer-auto-response.service';
@@ -25,13 +25,13 @@ import { EmailModule } from '../email/email.module';
 @Module({
   imports: [
     ConfigModule.forFeature(reminderConfig),
-    ScheduleModule.forRoot(),
     DatabaseModule,
     forwardRef(() => EmailModule),
   ],
   controllers: [ReminderController],
   providers: [
     // Core services
+    HolidayCalendarService,
     ReminderPolicyService,
     ReminderDatabaseService,
     ReminderMailService,
@@ -47,6 +47,7 @@ import { EmailModule } from '../email/email.module';
   ],
   exports: [
     // Export services that other modules might need
+    HolidayCalendarService,
     ReminderPolicyService,
     ConversationLinkerService,
     ClassifierClientChaserService,
@@ -12,6 +12,7 @@ import { ConversationLinkerService } from './conversation-linker.service';
 import { ClassifierClientChaserService } from './classifier-client-chaser.service';
 import { ReminderDatabaseService } from './reminder-database.service';
 import { ReminderMailService } from './reminder-mail.service';
+import { EmailTemplateService } from '../../templates/email-template.service';
 
 /**
  * CustomerAutoResponseService
@@ -33,6 +34,7 @@ export class CustomerAutoResponseService {
     private readonly classifierService: ClassifierClientChaserService,
     private readonly reminderDbService: ReminderDatabaseService,
     private readonly mailService: ReminderMailService,
+    private readonly templateService: EmailTemplateService,
   ) {
     this.throttleHours = this.configService.get<number>('reminder.autoReplyThrottleHours') || 12;
     this.ackFromEmail = this.configService.get<string>('reminder.multipartsAckFrom') || 'rafiou.oyeossi@multipartsci.com';
@@ -234,8 +236,13 @@ export class CustomerAutoResponseService {
   ): Promise<{ emailSent: boolean; sentMessageId?: string }> {
     const senderEmail = this.linkerService.extractEmail(email.from);
 
-    const subject = `Re: ${email.subject}`;
-    const body = this.buildAckBody(requestContext, email.subject);
+    const { subject, html, text } = this.templateService.render('customer_auto_ack', {
+      subject: email.subject,
+      // Objet nettoyé (Re:, Fwd:...) affiché si le client n'a pas donné de référence
+      cleanSubject: (email.subject || '').replace(/^(re|fwd|fw|tr):\s*/gi, '').trim(),
+      rfqNumber: requestContext.internalRfqNumber,
+      clientRfqNumber: requestContext.clientRfqNumber,
+    });
 
     try {
       const result = await this.mailService.sendAutoEmail({
@@ -243,7 +250,8 @@ export class CustomerAutoResponseService {
         from: this.ackFromEmail,
         to: senderEmail,
         subject,
-        body,
+        body: text,
+        htmlBody: html || undefined,
         inReplyTo: email.messageId,
         references: [email.messageId, ...(email.references || [])],
         requestId: requestContext.requestId,
@@ -273,13 +281,12 @@ export class CustomerAutoResponseService {
   ): Promise<{ emailSent: boolean; sentMessageId?: string }> {
     const senderEmail = this.linkerService.extractEmail(email.from);
 
-    // Clean subject (remove multiple Re:)
-    let subject = email.subject;
-    if (!subject.toLowerCase().startsWith('re:')) {
-      subject = `Re: ${subject}`;
-    }
-
-    const body = this.buildChaserReplyBody(requestContext);
+    // The template adds the "Re:" prefix
+    const { subject, html, text } = this.templateService.render('customer_chaser_reply', {
+      subject: email.subject.replace(/^re:\s*/i, ''),
+      rfqNumber: requestContext.internalRfqNumber,
+      clientRfqNumber: requestContext.clientRfqNumber,
+    });
 
     try {
       const result = await this.mailService.sendAutoEmail({
@@ -287,7 +294,8 @@ export class CustomerAutoResponseService {
         from: this.ackFromEmail,
         to: senderEmail,
         subject,
-        body,
+        body: text,
+        htmlBody: html || undefined,
         inReplyTo: email.messageId,
         references: [email.messageId, ...(email.references || [])],
         requestId: requestContext.requestId,
@@ -307,56 +315,4 @@ export class CustomerAutoResponseService {
       return { emailSent: false };
     }
   }
-
-  /**
-   * Build ACK email body
-   * Includes client RFQ number if available, otherwise uses email subject
-   */
-  private buildAckBody(requestContext: RequestContext, emailSubject?: string): string {
-    // Determine the client reference to display
-    let clientReference = '';
-    if (requestContext.clientRfqNumber) {
-      clientReference = `\nVotre référence : ${requestContext.clientRfqNumber}`;
-    } else if (emailSubject) {
-      // Clean subject: remove Re:, Fwd:, etc.
-      const cleanSubject = emailSubject
-        .replace(/^(re|fwd|fw|tr):\s*/gi, '')
-        .trim();
-      if (cleanSubject) {
-        clientReference = `\nObjet : ${cleanSubject}`;
-      }
-    }
-
-    return `Bonjour,
-
-Nous accusons bonne réception de votre demande.
-
-Réf. interne : ${requestContext.internalRfqNumber}${clientReference}
-
-Votre demande est en cours de traitement par nos équipes.
-Nous revenons vers vous dans les meilleurs délais avec une proposition.
-
-Cordialement,
-MULTIPARTS – Rafiou OYEOSSI`;
-  }
-
-  /**
-   * Build chaser auto-reply body
-   */
-  private buildChaserReplyBody(requestContext: RequestContext, emailSubject?: string): string {
-    // Determine the client reference to display
-    let clientReference = '';
-    if (requestContext.clientRfqNumber) {
-      clientReference = ` / Votre réf. : ${requestContext.clientRfqNumber}`;
-    }
-
-    return `Bonjour,
-
-Merci pour votre relance. Votre demande (Réf. ${requestContext.internalRfqNumber}${clientReference}) est toujours en cours de traitement par nos équipes.
-
-Nous revenons vers vous dès que possible avec une mise à jour.
-
-Cordialement,
-MULTIPARTS – Rafiou OYEOSSI`;
-  }
 }
@@ -0,0 +1,545 @@
+import { BadRequestException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../../database/database.service';
+import { DEFAULT_HOLIDAY_CALENDARS } from '../config/holiday.config';
+import {
+  HolidayCalendar,
+  HolidayMatch,
+  HolidayRule,
+  HolidayType,
+  SupplierCountry,
+} from '../interfaces/reminder.interfaces';
+
+/**
+ * Compute Easter Sunday (Gregorian calendar, anonymous algorithm)
+ */
+export function computeEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * HolidayCalendarService
+ *
+ * Per-country public holiday calendars used by ReminderPolicyService.
+ * Creates and manages tables for:
+ * - holiday_calendars
+ * - holidays (fixed, Easter-based and one-off dates)
+ * - supplier_countries (supplier email or domain -> country)
+ */
+@Injectable()
+export class HolidayCalendarService implements OnModuleInit {
+  private readonly logger = new Logger(HolidayCalendarService.name);
+  private readonly homeCountry: string;
+  private readonly filesDir: string;
+
+  // countryCode -> rules, and "countryCode:year" -> date -> holiday name
+  private rulesByCountry = new Map<string, HolidayRule[]>();
+  private resolvedCache = new Map<string, Map<string, string>>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly databaseService: DatabaseService,
+  ) {
+    this.homeCountry = (this.configService.get<string>('reminder.holidayHomeCountry') || 'CI').toUpperCase();
+    this.filesDir = this.configService.get<string>('reminder.holidayFilesDir') || './data/holidays';
+  }
+
+  async onModuleInit() {
+    this.createTables();
+    this.seedDefaultCalendars();
+    this.importHolidayFiles();
+    this.reload();
+  }
+
+  private get db(): any {
+    return (this.databaseService as any).db;
+  }
+
+  /**
+   * Create holiday tables
+   */
+  private createTables() {
+    const db = this.db;
+    if (!db) {
+      this.logger.warn('Database not initialized, skipping table creation');
+      return;
+    }
+
+    try {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS holiday_calendars (
+          country_code TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS holidays (
+          id TEXT PRIMARY KEY,
+          country_code TEXT NOT NULL,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          month INTEGER,
+          day INTEGER,
+          easter_offset INTEGER,
+          date TEXT,
+          source TEXT NOT NULL DEFAULT 'manual',
+          created_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS supplier_countries (
+          supplier TEXT PRIMARY KEY,
+          country_code TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`CREATE INDEX IF NOT EXISTS idx_holidays_country ON holidays(country_code)`);
+
+      this.databaseService.saveToFile();
+      this.logger.log('Holiday tables created/verified');
+    } catch (error) {
+      this.logger.error(`Error creating holiday tables: ${error.message}`);
+    }
+  }
+
+  /**
+   * Seed built-in calendars once (a calendar deleted by the user is not re-created
+   * as long as at least one calendar exists)
+   */
+  private seedDefaultCalendars() {
+    const db = this.db;
+    if (!db) return;
+
+    const result = db.exec(`SELECT COUNT(*) FROM holiday_calendars`);
+    if (result.length > 0 && result[0].values[0][0] > 0) return;
+
+    for (const calendar of DEFAULT_HOLIDAY_CALENDARS) {
+      this.upsertCalendar(calendar.countryCode, calendar.name, false);
+      for (const holiday of calendar.holidays) {
+        this.insertHoliday(calendar.countryCode, holiday, 'default');
+      }
+    }
+
+    this.databaseService.saveToFile();
+    this.logger.log(`Seeded ${DEFAULT_HOLIDAY_CALENDARS.length} default holiday calendars`);
+  }
+
+  // ============ FILE IMPORT ============
+
+  /**
+   * Import every *.json file from HOLIDAY_FILES_DIR
+   */
+  importHolidayFiles(): { files: number; imported: number; errors: string[] } {
+    const summary = { files: 0, imported: 0, errors: [] as string[] };
+    if (!this.db || !fs.existsSync(this.filesDir)) return summary;
+
+    for (const file of fs.readdirSync(this.filesDir).filter(f => f.endsWith('.json'))) {
+      const result = this.importHolidayFile(path.join(this.filesDir, file));
+      summary.files++;
+      summary.imported += result.imported;
+      summary.errors.push(...result.errors.map(e => `${file}: ${e}`));
+    }
+
+    if (summary.imported > 0) {
+      this.logger.log(`Imported ${summary.imported} holidays from ${summary.files} file(s) in ${this.filesDir}`);
+    }
+    return summary;
+  }
+
+  /**
+   * Absolute path of a holiday file given relative to HOLIDAY_FILES_DIR (rejected outside it)
+   */
+  resolveHolidayFile(filePath: string): string {
+    const filesDir = path.resolve(this.filesDir);
+    const resolved = path.resolve(filesDir, filePath || '');
+    if (!resolved.startsWith(filesDir + path.sep)) {
+      throw new BadRequestException(`Path outside the holiday files directory (${filesDir}): ${filePath}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Import a holiday file. Format (object or array of objects):
+   * { "countryCode": "CN", "name": "Chine", "holidays": [{ "name": "Spring Festival", "date": "2026-02-17" }] }
+   * Entries may also use "type": "fixed" (month/day) or "easter" (easterOffset).
+   * Already known holidays are skipped, so files can be re-imported safely.
+   */
+  importHolidayFile(filePath: string): { imported: number; skipped: number; errors: string[] } {
+    const result = { imported: 0, skipped: 0, errors: [] as string[] };
+
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      result.errors.push(`Cannot read file: ${error.message}`);
+      return result;
+    }
+
+    for (const calendar of Array.isArray(data) ? data : [data]) {
+      const countryCode = String(calendar.countryCode || '').toUpperCase();
+      if (!/^[A-Z]{2}$/.test(countryCode)) {
+        result.errors.push(`Invalid countryCode "${calendar.countryCode}"`);
+        continue;
+      }
+
+      if (!this.getCalendarRow(countryCode)) {
+        this.upsertCalendar(countryCode, calendar.name || countryCode, false);
+      }
+
+      for (const entry of calendar.holidays || []) {
+        try {
+          const holiday = this.validateHoliday({ ...entry, type: entry.type || 'date' });
+          if (this.findExistingHoliday(countryCode, holiday)) {
+            result.skipped++;
+            continue;
+          }
+          this.insertHoliday(countryCode, holiday, 'file');
+          result.imported++;
+        } catch (error) {
+          result.errors.push(`${countryCode} "${entry.name || '?'}": ${error.message}`);
+        }
+      }
+    }
+
+    this.databaseService.saveToFile();
+    this.reload();
+    return result;
+  }
+
+  // ============ CALENDARS ============
+
+  getHomeCountry(): string {
+    return this.homeCountry;
+  }
+
+  listCalendars(): HolidayCalendar[] {
+    const result = this.db.exec(`
+      SELECT c.*, (SELECT COUNT(*) FROM holidays h WHERE h.country_code = c.country_code) AS holiday_count
+      FROM holiday_calendars c ORDER BY c.country_code
+    `);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToCalendar(result[0].columns, row));
+  }
+
+  getCalendar(countryCode: string): { calendar: HolidayCalendar; holidays: HolidayRule[] } | null {
+    const calendar = this.getCalendarRow(countryCode.toUpperCase());
+    if (!calendar) return null;
+
+    const holidays = this.rulesByCountry.get(calendar.countryCode) || [];
+    return { calendar: { ...calendar, holidayCount: holidays.length }, holidays };
+  }
+
+  upsertCalendar(countryCode: string, name: string, persist = true): HolidayCalendar {
+    const code = countryCode.toUpperCase();
+    if (!/^[A-Z]{2}$/.test(code)) {
+      throw new Error(`Invalid country code: ${countryCode}`);
+    }
+
+    const now = new Date().toISOString();
+    this.db.run(`
+      INSERT INTO holiday_calendars (country_code, name, created_at, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(country_code) DO UPDATE SET name = excluded.name, updated_at = excluded.updated_at
+    `, [code, name, now, now]);
+
+    if (persist) this.databaseService.saveToFile();
+    return this.getCalendarRow(code)!;
+  }
+
+  deleteCalendar(countryCode: string): boolean {
+    const code = countryCode.toUpperCase();
+    if (!this.getCalendarRow(code)) return false;
+
+    this.db.run(`DELETE FROM holidays WHERE country_code = ?`, [code]);
+    this.db.run(`DELETE FROM holiday_calendars WHERE country_code = ?`, [code]);
+    this.databaseService.saveToFile();
+    this.reload();
+    return true;
+  }
+
+  // ============ HOLIDAYS ============
+
+  addHoliday(countryCode: string, holiday: {
+    name: string;
+    type: HolidayType;
+    month?: number;
+    day?: number;
+    easterOffset?: number;
+    date?: string;
+  }): HolidayRule {
+    const code = countryCode.toUpperCase();
+    if (!this.getCalendarRow(code)) {
+      throw new Error(`Unknown calendar: ${code}`);
+    }
+
+    const id = this.insertHoliday(code, this.validateHoliday(holiday), 'manual');
+    this.databaseService.saveToFile();
+    this.reload();
+    return this.rulesByCountry.get(code)!.find(h => h.id === id)!;
+  }
+
+  deleteHoliday(id: string): boolean {
+    this.db.run(`DELETE FROM holidays WHERE id = ?`, [id]);
+    const changed = this.db.exec(`SELECT changes()`)[0]?.values[0][0] || 0;
+    if (changed > 0) {
+      this.databaseService.saveToFile();
+      this.reload();
+    }
+    return changed > 0;
+  }
+
+  /**
+   * Holidays of a calendar resolved to actual dates for a year
+   */
+  getHolidaysForYear(countryCode: string, year: number): HolidayMatch[] {
+    const code = countryCode.toUpperCase();
+    return Array.from(this.resolveYear(code, year).entries())
+      .map(([date, name]) => ({ date, countryCode: code, name }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * First holiday falling on `date` in one of the given calendars
+   */
+  findHoliday(date: Date, countryCodes: string[]): HolidayMatch | undefined {
+    const key = this.toDateKey(date);
+    for (const code of countryCodes) {
+      const name = this.resolveYear(code.toUpperCase(), date.getFullYear()).get(key);
+      if (name) return { date: key, countryCode: code.toUpperCase(), name };
+    }
+    return undefined;
+  }
+
+  // ============ SUPPLIER COUNTRIES ============
+
+  listSupplierCountries(): SupplierCountry[] {
+    const result = this.db.exec(`SELECT * FROM supplier_countries ORDER BY supplier`);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToSupplierCountry(result[0].columns, row));
+  }
+
+  /**
+   * Assign a country to a supplier email, or to a whole domain ("acme.de")
+   */
+  setSupplierCountry(supplier: string, countryCode: string): SupplierCountry {
+    const key = supplier.trim().toLowerCase().replace(/^@/, '');
+    const code = countryCode.toUpperCase();
+    if (!key) throw new Error('Supplier email or domain required');
+    if (!/^[A-Z]{2}$/.test(code)) throw new Error(`Invalid country code: ${countryCode}`);
+
+    const now = new Date().toISOString();
+    this.db.run(`
+      INSERT INTO supplier_countries (supplier, country_code, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(supplier) DO UPDATE SET country_code = excluded.country_code, updated_at = excluded.updated_at
+    `, [key, code, now]);
+    this.databaseService.saveToFile();
+
+    return { supplier: key, countryCode: code, updatedAt: new Date(now) };
+  }
+
+  removeSupplierCountry(supplier: string): boolean {
+    this.db.run(`DELETE FROM supplier_countries WHERE supplier = ?`, [supplier.trim().toLowerCase().replace(/^@/, '')]);
+    const changed = this.db.exec(`SELECT changes()`)[0]?.values[0][0] || 0;
+    if (changed > 0) this.databaseService.saveToFile();
+    return changed > 0;
+  }
+
+  getSupplierCountry(supplierEmail: string): string | undefined {
+    if (!this.db || !supplierEmail) return undefined;
+
+    const email = supplierEmail.trim().toLowerCase();
+    const domain = email.split('@')[1];
+    const result = this.db.exec(
+      `SELECT supplier, country_code FROM supplier_countries WHERE supplier IN (?, ?)`,
+      [email, domain || email],
+    );
+    if (result.length === 0) return undefined;
+
+    // Email-level assignment wins over domain-level
+    const rows: any[][] = result[0].values;
+    return (rows.find(r => r[0] === email) || rows[0])[1];
+  }
+
+  /**
+   * Calendars that apply to a supplier reminder: ours, plus the supplier's country
+   */
+  getCountriesForSupplier(supplierEmail?: string): string[] {
+    const supplierCountry = supplierEmail ? this.getSupplierCountry(supplierEmail) : undefined;
+    return supplierCountry && supplierCountry !== this.homeCountry
+      ? [this.homeCountry, supplierCountry]
+      : [this.homeCountry];
+  }
+
+  // ============ INTERNALS ============
+
+  /**
+   * Reload rules from the database and clear resolved dates
+   */
+  reload() {
+    this.rulesByCountry.clear();
+    this.resolvedCache.clear();
+    if (!this.db) return;
+
+    const result = this.db.exec(`SELECT * FROM holidays ORDER BY country_code, type, month, day, date`);
+    if (result.length === 0) return;
+
+    for (const row of result[0].values) {
+      const rule = this.mapRowToHoliday(result[0].columns, row);
+      if (!this.rulesByCountry.has(rule.countryCode)) this.rulesByCountry.set(rule.countryCode, []);
+      this.rulesByCountry.get(rule.countryCode)!.push(rule);
+    }
+  }
+
+  private resolveYear(countryCode: string, year: number): Map<string, string> {
+    const cacheKey = `${countryCode}:${year}`;
+    const cached = this.resolvedCache.get(cacheKey);
+    if (cached) return cached;
+
+    const dates = new Map<string, string>();
+    const easterSunday = computeEasterSunday(year);
+
+    for (const rule of this.rulesByCountry.get(countryCode) || []) {
+      let key: string | undefined;
+      if (rule.type === 'fixed') {
+        key = this.toDateKey(new Date(year, rule.month! - 1, rule.day!));
+      } else if (rule.type === 'easter') {
+        const date = new Date(easterSunday);
+        date.setDate(date.getDate() + (rule.easterOffset || 0));
+        key = this.toDateKey(date);
+      } else if (rule.date?.startsWith(`${year}-`)) {
+        key = rule.date;
+      }
+
+      if (key && !dates.has(key)) dates.set(key, rule.name);
+    }
+
+    this.resolvedCache.set(cacheKey, dates);
+    return dates;
+  }
+
+  private validateHoliday(holiday: any): Omit<HolidayRule, 'id' | 'countryCode' | 'source' | 'createdAt'> {
+    if (!holiday.name) throw new Error('name is required');
+
+    switch (holiday.type as HolidayType) {
+      case 'fixed': {
+        const month = Number(holiday.month);
+        const day = Number(holiday.day);
+        if (!(month >= 1 && month <= 12) || !(day >= 1 && day <= 31)) {
+          throw new Error('fixed holidays require month (1-12) and day (1-31)');
+        }
+        return { name: holiday.name, type: 'fixed', month, day };
+      }
+      case 'easter': {
+        const easterOffset = Number(holiday.easterOffset);
+        if (!Number.isInteger(easterOffset)) throw new Error('easter holidays require an integer easterOffset');
+        return { name: holiday.name, type: 'easter', easterOffset };
+      }
+      case 'date': {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(holiday.date || '') || isNaN(new Date(holiday.date).getTime())) {
+          throw new Error(`invalid date "${holiday.date}" (expected YYYY-MM-DD)`);
+        }
+        return { name: holiday.name, type: 'date', date: holiday.date };
+      }
+      default:
+        throw new Error(`invalid type "${holiday.type}" (fixed, easter or date)`);
+    }
+  }
+
+  private insertHoliday(countryCode: string, holiday: Partial<HolidayRule>, source: HolidayRule['source']): string {
+    const id = uuidv4();
+    this.db.run(`
+      INSERT INTO holidays (id, country_code, name, type, month, day, easter_offset, date, source, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      id, countryCode, holiday.name, holiday.type,
+      holiday.month ?? null, holiday.day ?? null, holiday.easterOffset ?? null, holiday.date ?? null,
+      source, new Date().toISOString(),
+    ]);
+    return id;
+  }
+
+  private findExistingHoliday(countryCode: string, holiday: Partial<HolidayRule>): boolean {
+    const result = this.db.exec(`
+      SELECT id FROM holidays
+      WHERE country_code = ? AND type = ?
+        AND IFNULL(month, -1) = ? AND IFNULL(day, -1) = ?
+        AND IFNULL(easter_offset, -999) = ? AND IFNULL(date, '') = ?
+    `, [countryCode, holiday.type, holiday.month ?? -1, holiday.day ?? -1, holiday.easterOffset ?? -999, holiday.date ?? '']);
+    return result.length > 0 && result[0].values.length > 0;
+  }
+
+  private getCalendarRow(countryCode: string): HolidayCalendar | null {
+    const result = this.db.exec(`SELECT * FROM holiday_calendars WHERE country_code = ?`, [countryCode]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.mapRowToCalendar(result[0].columns, result[0].values[0]);
+  }
+
+  private toDateKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private mapRowToCalendar(columns: string[], row: any[]): HolidayCalendar {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+
+    return {
+      countryCode: obj.country_code,
+      name: obj.name,
+      holidayCount: obj.holiday_count ?? undefined,
+      createdAt: new Date(obj.created_at),
+      updatedAt: new Date(obj.updated_at),
+    };
+  }
+
+  private mapRowToHoliday(columns: string[], row: any[]): HolidayRule {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+
+    return {
+      id: obj.id,
+      countryCode: obj.country_code,
+      name: obj.name,
+      type: obj.type,
+      month: obj.month ?? undefined,
+      day: obj.day ?? undefined,
+      easterOffset: obj.easter_offset ?? undefined,
+      date: obj.date ?? undefined,
+      source: obj.source,
+      createdAt: new Date(obj.created_at),
+    };
+  }
+
+  private mapRowToSupplierCountry(columns: string[], row: any[]): SupplierCountry {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+
+    return {
+      supplier: obj.supplier,
+      countryCode: obj.country_code,
+      updatedAt: new Date(obj.updated_at),
+    };
+  }
+}
@@ -379,21 +379,41 @@ export class ReminderDatabaseService implements OnModuleInit {
 
     if (result.length === 0) return [];
 
-    return result[0].values.map((row: any) => {
-      const obj: any = {};
-      result[0].columns.forEach((col: string, i: number) => obj[col] = row[i]);
-
-      return {
-        rfqId: obj.rfq_id,
-        internalRfqNumber: obj.internal_rfq_number,
-        supplierEmail: obj.supplier_email,
-        sentAt: new Date(obj.sent_at),
-        dueDate: new Date(obj.due_date),
-        originalDueDate: new Date(obj.original_due_date),
-        wasPostponed: obj.was_postponed === 1,
-        reminderCount: obj.reminder_count || 0,
-      };
-    });
+    return result[0].values.map((row: any) => this.mapRowToSupplierReminder(result[0].columns, row));
+  }
+
+  /**
+   * All pending supplier reminders (due or upcoming), earliest first
+   */
+  async getScheduledSupplierReminders(limit = 100): Promise<SupplierReminderDue[]> {
+    const db = (this.databaseService as any).db;
+
+    const result = db.exec(`
+      SELECT * FROM supplier_reminders
+      WHERE status = 'pending'
+      ORDER BY due_date ASC
+      LIMIT ?
+    `, [limit]);
+
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row: any) => this.mapRowToSupplierReminder(result[0].columns, row));
+  }
+
+  private mapRowToSupplierReminder(columns: string[], row: any[]): SupplierReminderDue {
+    const obj: any = {};
+    columns.forEach((col: string, i: number) => obj[col] = row[i]);
+
+    return {
+      rfqId: obj.rfq_id,
+      internalRfqNumber: obj.internal_rfq_number,
+      supplierEmail: obj.supplier_email,
+      sentAt: new Date(obj.sent_at),
+      dueDate: new Date(obj.due_date),
+      originalDueDate: new Date(obj.original_due_date),
+      wasPostponed: obj.was_postponed === 1,
+      reminderCount: obj.reminder_count || 0,
+    };
   }
 
   async updateSupplierReminderSent(
@@ -3,6 +3,9 @@ import { ConfigService } from '@nestjs/config';
 import * as nodemailer from 'nodemailer';
 import { AutoEmailType } from '../interfaces/reminder.interfaces';
 import { ReminderDatabaseService } from './reminder-database.service';
+import { DatabaseService } from '../../database/database.service';
+import { EmailTemplateService } from '../../templates/email-template.service';
+import { createMailTransport } from '../../mail/local-mail-sink';
 
 export interface SendAutoEmailOptions {
   type: AutoEmailType;
@@ -10,6 +13,7 @@ export interface SendAutoEmailOptions {
   to: string;
   subject: string;
   body: string;
+  htmlBody?: string;
   inReplyTo?: string;
   references?: string[];
   requestId?: string;
@@ -38,6 +42,8 @@ export class ReminderMailService {
   constructor(
     private readonly configService: ConfigService,
     private readonly reminderDbService: ReminderDatabaseService,
+    private readonly databaseService: DatabaseService,
+    private readonly templateService: EmailTemplateService,
   ) {
     this.ackFromEmail = this.configService.get<string>('reminder.multipartsAckFrom') || 'rafiou.oyeossi@multipartsci.com';
     this.initTransporter();
@@ -52,7 +58,7 @@ export class ReminderMailService {
     }
 
     try {
-      this.transporter = nodemailer.createTransport({
+      this.transporter = createMailTransport(this.configService, {
         host: smtpConfig.host,
         port: smtpConfig.port || 587,
         secure: smtpConfig.secure || false,
@@ -90,6 +96,7 @@ export class ReminderMailService {
         status: 'failed',
         errorMessage: 'SMTP not configured',
       });
+      await this.auditAutoEmail(options, { success: false, error: 'SMTP not configured' });
 
       return { success: false, error: 'SMTP not configured' };
     }
@@ -115,7 +122,7 @@ export class ReminderMailService {
       to: options.to,
       subject: options.subject,
       text: options.body,
-      html: this.textToHtml(options.body),
+      html: options.htmlBody || this.textToHtml(options.body),
       headers,
     };
 
@@ -138,6 +145,7 @@ export class ReminderMailService {
         messageId: info.messageId,
         status: 'sent',
       });
+      await this.auditAutoEmail(options, { success: true, messageId: info.messageId });
 
       return {
         success: true,
@@ -160,6 +168,7 @@ export class ReminderMailService {
         status: 'failed',
         errorMessage: error.message,
       });
+      await this.auditAutoEmail(options, { success: false, error: error.message });
 
       return {
         success: false,
@@ -168,6 +177,28 @@ export class ReminderMailService {
     }
   }
 
+  /**
+   * Record the outbound email in the unified audit trail.
+   */
+  private async auditAutoEmail(options: SendAutoEmailOptions, result: SendResult): Promise<void> {
+    await this.databaseService.addAuditEvent({
+      entityType: 'email',
+      entityId: result.messageId,
+      action: result.success ? 'email.sent' : 'email.failed',
+      rfqNumber: options.internalRfqNumber,
+      after: {
+        type: options.type,
+        from: options.from,
+        to: options.to,
+        subject: options.subject,
+        inReplyTo: options.inReplyTo,
+        requestId: options.requestId,
+        messageId: result.messageId,
+        error: result.error,
+      },
+    });
+  }
+
   /**
    * Send supplier follow-up reminder.
    */
@@ -178,20 +209,24 @@ export class ReminderMailService {
     reminderCount: number;
     requestId?: string;
   }): Promise<SendResult> {
-    const urgency = this.getReminderUrgency(options.reminderCount);
-    const subject = `${urgency}Relance: ${options.originalSubject}`;
-
-    const body = this.buildSupplierReminderBody(
-      options.internalRfqNumber,
-      options.reminderCount,
-    );
+    const { subject, html, text } = this.templateService.render('supplier_reminder', {
+      rfqNumber: options.internalRfqNumber,
+      subject: options.originalSubject,
+      urgencyPrefix: this.getReminderUrgency(options.reminderCount),
+      reminderCount: options.reminderCount,
+      reminderNumber: options.reminderCount + 1,
+      firstReminder: options.reminderCount === 0,
+      secondReminder: options.reminderCount === 1,
+      finalReminder: options.reminderCount >= 2,
+    });
 
     return this.sendAutoEmail({
       type: 'SUPPLIER_FOLLOW_UP_REMINDER',
       from: this.ackFromEmail,
       to: options.supplierEmail,
       subject,
-      body,
+      body: text,
+      htmlBody: html || undefined,
       requestId: options.requestId,
       internalRfqNumber: options.internalRfqNumber,
     });
@@ -218,45 +253,6 @@ ${escaped}
 </html>`;
   }
 
-  /**
-   * Build supplier reminder body based on reminder count
-   */
-  private buildSupplierReminderBody(
-    internalRfqNumber: string,
-    reminderCount: number,
-  ): string {
-    if (reminderCount === 0) {
-      return `Bonjour,
-
-Nous vous relançons concernant notre demande de prix (Réf. ${internalRfqNumber}).
-
-Nous restons dans l'attente de votre proposition.
-
-Cordialement,
-MULTIPARTS – Rafiou OYEOSSI`;
-    }
-
-    if (reminderCount === 1) {
-      return `Bonjour,
-
-Ceci est notre ${reminderCount + 1}ème relance concernant notre demande de prix (Réf. ${internalRfqNumber}).
-
-Merci de nous faire parvenir votre meilleure offre dans les meilleurs délais.
-
-Cordialement,
-MULTIPARTS – Rafiou OYEOSSI`;
-    }
-
-    return `Bonjour,
-
-URGENT - ${reminderCount + 1}ème relance concernant notre demande de prix (Réf. ${internalRfqNumber}).
-
-Nous n'avons toujours pas reçu votre proposition. Merci de nous confirmer si vous êtes en mesure de répondre à cette demande.
-
-Cordialement,
-MULTIPARTS – Rafiou OYEOSSI`;
-  }
-
   /**
    * Get urgency prefix based on reminder count
    */
@@ -1,6 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { ReminderScheduleResult } from '../interfaces/reminder.interfaces';
+import { PostponeStep, ReminderScheduleResult } from '../interfaces/reminder.interfaces';
+import { HolidayCalendarService } from './holiday-calendar.service';
+
+// Safety net against a misconfigured calendar marking every day as a holiday
+const MAX_POSTPONED_DAYS = 60;
 
 /**
  * ReminderPolicyService
@@ -8,13 +12,18 @@ import { ReminderScheduleResult } from '../interfaces/reminder.interfaces';
  * Handles business day calculations and reminder scheduling policies.
  * Implements weekend rule: if due date falls on Saturday or Sunday,
  * postpone to the following Monday.
+ * Public holidays are skipped too: the home country calendar always applies,
+ * plus any calendar passed in `countries` (e.g. the supplier's country).
  */
 @Injectable()
 export class ReminderPolicyService {
   private readonly logger = new Logger(ReminderPolicyService.name);
   private readonly slaDays: number;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly holidayService: HolidayCalendarService,
+  ) {
     this.slaDays = this.configService.get<number>('reminder.reminderSlaDays') || 3;
   }
 
@@ -23,11 +32,13 @@ export class ReminderPolicyService {
    *
    * @param sentAt - The date the RFQ was sent to supplier
    * @param slaDays - Number of days to add (default from config)
+   * @param countries - Extra holiday calendars to honour (e.g. supplier country)
    * @returns ReminderScheduleResult with due date and postpone info
    */
   computeNextBusinessDueDate(
     sentAt: Date,
     slaDays?: number,
+    countries: string[] = [],
   ): ReminderScheduleResult {
     const days = slaDays ?? this.slaDays;
 
@@ -36,54 +47,64 @@ export class ReminderPolicyService {
     originalDueDate.setDate(originalDueDate.getDate() + days);
     originalDueDate.setHours(9, 0, 0, 0); // Set to 9 AM
 
-    // Check if it falls on weekend
-    const dayOfWeek = originalDueDate.getDay();
-    let dueDate = new Date(originalDueDate);
-    let wasPostponed = false;
-    let postponeReason: 'saturday' | 'sunday' | undefined;
-
-    if (dayOfWeek === 6) {
-      // Saturday -> Monday (+2 days)
-      dueDate.setDate(dueDate.getDate() + 2);
-      wasPostponed = true;
-      postponeReason = 'saturday';
-      this.logger.debug(`Due date ${originalDueDate.toISOString()} falls on Saturday, postponed to Monday ${dueDate.toISOString()}`);
-    } else if (dayOfWeek === 0) {
-      // Sunday -> Monday (+1 day)
+    // Skip weekends and holidays until a business day is reached
+    const dueDate = new Date(originalDueDate);
+    const postponements: PostponeStep[] = [];
+    let step = this.getNonBusinessDayReason(dueDate, countries);
+
+    while (step && postponements.length < MAX_POSTPONED_DAYS) {
+      postponements.push(step);
       dueDate.setDate(dueDate.getDate() + 1);
-      wasPostponed = true;
-      postponeReason = 'sunday';
-      this.logger.debug(`Due date ${originalDueDate.toISOString()} falls on Sunday, postponed to Monday ${dueDate.toISOString()}`);
+      step = this.getNonBusinessDayReason(dueDate, countries);
+    }
+
+    if (postponements.length > 0) {
+      this.logger.debug(
+        `Due date ${originalDueDate.toISOString()} postponed to ${dueDate.toISOString()} (${postponements
+          .map(p => p.holidayName ? `${p.holidayName} [${p.countryCode}]` : p.reason)
+          .join(', ')})`,
+      );
     }
 
     return {
       dueDate,
       originalDueDate,
-      wasPostponed,
-      postponeReason,
+      wasPostponed: postponements.length > 0,
+      postponeReason: postponements[0]?.reason,
+      postponements,
     };
   }
 
   /**
-   * Check if a date is a business day (Monday-Friday)
+   * Why a date is not a business day (weekend or holiday), undefined otherwise
    */
-  isBusinessDay(date: Date): boolean {
+  getNonBusinessDayReason(date: Date, countries: string[] = []): PostponeStep | undefined {
     const dayOfWeek = date.getDay();
-    return dayOfWeek !== 0 && dayOfWeek !== 6;
+    if (dayOfWeek === 6) return { date: new Date(date), reason: 'saturday' };
+    if (dayOfWeek === 0) return { date: new Date(date), reason: 'sunday' };
+
+    const holiday = this.holidayService.findHoliday(date, this.withHomeCountry(countries));
+    if (holiday) {
+      return { date: new Date(date), reason: 'holiday', holidayName: holiday.name, countryCode: holiday.countryCode };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check if a date is a business day (Monday-Friday, not a holiday)
+   */
+  isBusinessDay(date: Date, countries: string[] = []): boolean {
+    return !this.getNonBusinessDayReason(date, countries);
   }
 
   /**
    * Get the next business day from a given date
    */
-  getNextBusinessDay(date: Date): Date {
+  getNextBusinessDay(date: Date, countries: string[] = []): Date {
     const result = new Date(date);
-    const dayOfWeek = result.getDay();
 
-    if (dayOfWeek === 6) {
-      // Saturday -> Monday
-      result.setDate(result.getDate() + 2);
-    } else if (dayOfWeek === 0) {
-      // Sunday -> Monday
+    for (let i = 0; i < MAX_POSTPONED_DAYS && !this.isBusinessDay(result, countries); i++) {
       result.setDate(result.getDate() + 1);
     }
 
@@ -91,15 +112,15 @@ export class ReminderPolicyService {
   }
 
   /**
-   * Add business days to a date (skipping weekends)
+   * Add business days to a date (skipping weekends and holidays)
    */
-  addBusinessDays(startDate: Date, businessDays: number): Date {
+  addBusinessDays(startDate: Date, businessDays: number, countries: string[] = []): Date {
     const result = new Date(startDate);
     let daysAdded = 0;
 
     while (daysAdded < businessDays) {
       result.setDate(result.getDate() + 1);
-      if (this.isBusinessDay(result)) {
+      if (this.isBusinessDay(result, countries)) {
         daysAdded++;
       }
     }
@@ -118,13 +139,13 @@ export class ReminderPolicyService {
   /**
    * Get the number of business days between two dates
    */
-  getBusinessDaysBetween(startDate: Date, endDate: Date): number {
+  getBusinessDaysBetween(startDate: Date, endDate: Date, countries: string[] = []): number {
     let count = 0;
     const current = new Date(startDate);
 
     while (current < endDate) {
       current.setDate(current.getDate() + 1);
-      if (this.isBusinessDay(current)) {
+      if (this.isBusinessDay(current, countries)) {
         count++;
       }
     }
@@ -155,12 +176,18 @@ export class ReminderPolicyService {
   calculateNextReminderDate(
     lastReminderDate: Date,
     reminderCount: number,
+    countries: string[] = [],
   ): ReminderScheduleResult {
     // Exponential backoff: base + (count * 2)
     const baseDays = this.slaDays;
     const additionalDays = Math.min(reminderCount * 2, 7); // Cap at 7 additional days
     const totalDays = baseDays + additionalDays;
 
-    return this.computeNextBusinessDueDate(lastReminderDate, totalDays);
+    return this.computeNextBusinessDueDate(lastReminderDate, totalDays, countries);
+  }
+
+  private withHomeCountry(countries: string[]): string[] {
+    const home = this.holidayService.getHomeCountry();
+    return countries.includes(home) ? countries : [home, ...countries];
   }
 }
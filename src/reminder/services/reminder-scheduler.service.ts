@@ -1,19 +1,23 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { CronExpression } from '@nestjs/schedule';
 import { SupplierReminderService } from './supplier-reminder.service';
 import { CustomerAutoResponseService } from './customer-auto-response.service';
 import { ConversationLinkerService } from './conversation-linker.service';
 import { ReminderDatabaseService } from './reminder-database.service';
 import { EmailService } from '../../email/email.service';
 import { InboundEmail } from '../interfaces/reminder.interfaces';
+import { JobQueueService } from '../../jobs/job-queue.service';
+
+export const SUPPLIER_FOLLOW_UP_JOB = 'reminder.supplier-follow-up';
+export const CUSTOMER_INBOUND_JOB = 'reminder.customer-inbound';
 
 /**
  * ReminderSchedulerService
  *
- * Handles scheduled jobs for:
+ * Handles scheduled jobs (persistent job queue) for:
  * 1. Supplier follow-up reminders (daily at configured hour)
- * 2. Customer inbound processing for ACK and auto-replies (every 5-10 min)
+ * 2. Customer inbound processing for ACK and auto-replies (every 10 min)
  */
 @Injectable()
 export class ReminderSchedulerService implements OnModuleInit {
@@ -29,11 +33,21 @@ export class ReminderSchedulerService implements OnModuleInit {
     private readonly linkerService: ConversationLinkerService,
     private readonly reminderDbService: ReminderDatabaseService,
     private readonly emailService: EmailService,
+    private readonly jobQueue: JobQueueService,
   ) {
     this.reminderRunHour = this.configService.get<number>('reminder.reminderRunHour') || 9;
   }
 
   async onModuleInit() {
+    this.jobQueue.registerHandler(SUPPLIER_FOLLOW_UP_JOB, () => this.runSupplierReminders());
+    this.jobQueue.schedule(SUPPLIER_FOLLOW_UP_JOB, {
+      cron: `0 0 ${this.reminderRunHour} * * *`,
+      timeZone: 'Africa/Abidjan',
+    });
+
+    this.jobQueue.registerHandler(CUSTOMER_INBOUND_JOB, () => this.runCustomerInboundProcessing());
+    this.jobQueue.schedule(CUSTOMER_INBOUND_JOB, { cron: CronExpression.EVERY_10_MINUTES });
+
     this.logger.log('ReminderSchedulerService initialized');
     this.logger.log(`Supplier reminder run hour: ${this.reminderRunHour}:00 (Africa/Abidjan)`);
   }
@@ -42,19 +56,15 @@ export class ReminderSchedulerService implements OnModuleInit {
    * Daily job for supplier follow-up reminders.
    * Runs at configured hour (default 9 AM) Africa/Abidjan timezone.
    */
-  @Cron('0 0 9 * * *', {
-    name: 'supplier-follow-up',
-    timeZone: 'Africa/Abidjan',
-  })
   async runSupplierReminders() {
     if (!this.isEnabled) {
       this.logger.debug('Supplier reminder job disabled');
-      return;
+      return { skipped: true, reason: 'disabled' };
     }
 
     if (this.isProcessing) {
       this.logger.warn('Supplier reminder job already running, skipping');
-      return;
+      return { skipped: true, reason: 'already running' };
     }
 
     this.isProcessing = true;
@@ -66,8 +76,7 @@ export class ReminderSchedulerService implements OnModuleInit {
       this.logger.log(
         `Supplier reminder job completed: ${stats.sent}/${stats.processed} sent`,
       );
-    } catch (error) {
-      this.logger.error(`Supplier reminder job error: ${error.message}`);
+      return stats;
     } finally {
       this.isProcessing = false;
     }
@@ -77,18 +86,15 @@ export class ReminderSchedulerService implements OnModuleInit {
    * Frequent job for customer inbound processing.
    * Runs every 10 minutes to check for new customer emails.
    */
-  @Cron(CronExpression.EVERY_10_MINUTES, {
-    name: 'customer-inbound-processing',
-  })
   async runCustomerInboundProcessing() {
     if (!this.isEnabled) {
       this.logger.debug('Customer inbound processing disabled');
-      return;
+      return { skipped: true, reason: 'disabled' };
     }
 
     if (this.isProcessing) {
       this.logger.debug('Customer inbound processing already running, skipping');
-      return;
+      return { skipped: true, reason: 'already running' };
     }
 
     this.isProcessing = true;
@@ -102,8 +108,7 @@ export class ReminderSchedulerService implements OnModuleInit {
           `Customer inbound processing: ${stats.processed} emails, ${stats.ackSent} ACKs, ${stats.autoReplySent} auto-replies`,
         );
       }
-    } catch (error) {
-      this.logger.error(`Customer inbound processing error: ${error.message}`);
+      return stats;
     } finally {
       this.isProcessing = false;
     }
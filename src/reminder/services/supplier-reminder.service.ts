@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ReminderPolicyService } from './reminder-policy.service';
+import { HolidayCalendarService } from './holiday-calendar.service';
 import { ConversationLinkerService } from './conversation-linker.service';
 import { ReminderDatabaseService } from './reminder-database.service';
 import { ReminderMailService } from './reminder-mail.service';
@@ -14,6 +15,7 @@ import { EmailService } from '../../email/email.service';
  * Handles supplier follow-up reminders based on:
  * 1. Actual sent date from procurement@ Sent folder (NOT creation date)
  * 2. Weekend rule: reminders due on Sat/Sun are postponed to Monday
+ * 3. Holiday rule: reminders skip public holidays of our country and of the supplier's country
  */
 @Injectable()
 export class SupplierReminderService {
@@ -24,6 +26,7 @@ export class SupplierReminderService {
   constructor(
     private readonly configService: ConfigService,
     private readonly policyService: ReminderPolicyService,
+    private readonly holidayService: HolidayCalendarService,
     private readonly linkerService: ConversationLinkerService,
     private readonly reminderDbService: ReminderDatabaseService,
     private readonly mailService: ReminderMailService,
@@ -55,10 +58,14 @@ export class SupplierReminderService {
         stats.processed++;
 
         try {
-          // Check if today is a business day
+          // Check if today is a business day (for us and for the supplier)
           const today = new Date();
-          if (!this.policyService.isBusinessDay(today)) {
-            this.logger.debug(`Skipping reminder for ${reminder.internalRfqNumber} - not a business day`);
+          const countries = this.holidayService.getCountriesForSupplier(reminder.supplierEmail);
+          const nonBusinessDay = this.policyService.getNonBusinessDayReason(today, countries);
+          if (nonBusinessDay) {
+            this.logger.debug(
+              `Skipping reminder for ${reminder.internalRfqNumber} - not a business day (${nonBusinessDay.holidayName || nonBusinessDay.reason})`,
+            );
             stats.skipped++;
             continue;
           }
@@ -81,15 +88,37 @@ export class SupplierReminderService {
             const nextSchedule = this.policyService.calculateNextReminderDate(
               new Date(),
               reminder.reminderCount + 1,
+              countries,
             );
 
             // Update reminder status
+            const nextDueDate = reminder.reminderCount < 3 ? nextSchedule.dueDate : undefined; // Max 4 reminders
             await this.reminderDbService.updateSupplierReminderSent(
               reminder.rfqId,
               result.messageId,
-              reminder.reminderCount < 3 ? nextSchedule.dueDate : undefined, // Max 4 reminders
+              nextDueDate,
             );
 
+            // Audit: the reminder went out because it was due and still pending
+            await this.databaseService.addAuditEvent({
+              entityType: 'supplier_reminder',
+              entityId: reminder.rfqId,
+              action: 'supplier_reminder.sent',
+              rfqNumber: reminder.internalRfqNumber,
+              before: {
+                status: 'pending',
+                reminderCount: reminder.reminderCount,
+                dueDate: reminder.dueDate,
+                lastReminderMessageId: null,
+              },
+              after: {
+                status: nextDueDate ? 'pending' : 'completed',
+                reminderCount: reminder.reminderCount + 1,
+                dueDate: nextDueDate || null,
+                lastReminderMessageId: result.messageId,
+              },
+            });
+
             stats.sent++;
             this.logger.log(`Sent reminder #${reminder.reminderCount + 1} for ${reminder.internalRfqNumber}`);
           } else {
@@ -141,8 +170,9 @@ export class SupplierReminderService {
         actualSentAt = sentResult.sentAt;
       }
 
-      // Calculate due date with weekend rule
-      const schedule = this.policyService.computeNextBusinessDueDate(actualSentAt!, this.slaDays);
+      // Calculate due date with weekend and holiday rules
+      const countries = this.holidayService.getCountriesForSupplier(supplierEmail);
+      const schedule = this.policyService.computeNextBusinessDueDate(actualSentAt!, this.slaDays, countries);
 
       // Create reminder record
       await this.reminderDbService.createSupplierReminder({
@@ -155,9 +185,25 @@ export class SupplierReminderService {
         wasPostponed: schedule.wasPostponed,
       });
 
+      await this.databaseService.addAuditEvent({
+        entityType: 'supplier_reminder',
+        entityId: rfqId,
+        action: 'supplier_reminder.scheduled',
+        rfqNumber: internalRfqNumber,
+        after: {
+          supplierEmail,
+          sentAt: actualSentAt,
+          slaDays: this.slaDays,
+          countries,
+          originalDueDate: schedule.originalDueDate,
+          dueDate: schedule.dueDate,
+          postponements: (schedule.postponements || []).map(p => p.holidayName || p.reason),
+        },
+      });
+
       this.logger.log(
         `Scheduled reminder for ${internalRfqNumber}: due ${schedule.dueDate.toISOString()}${
-          schedule.wasPostponed ? ` (postponed from ${schedule.postponeReason})` : ''
+          schedule.wasPostponed ? ` (postponed: ${schedule.postponements!.map(p => p.holidayName || p.reason).join(', ')})` : ''
         }`,
       );
 
@@ -213,6 +259,12 @@ export class SupplierReminderService {
    */
   async markAsResponded(rfqId: string): Promise<void> {
     await this.reminderDbService.markSupplierReminderResponded(rfqId);
+    await this.databaseService.addAuditEvent({
+      entityType: 'supplier_reminder',
+      entityId: rfqId,
+      action: 'supplier_reminder.responded',
+      after: { status: 'responded' },
+    });
     this.logger.log(`Marked reminder for RFQ ${rfqId} as responded`);
   }
 
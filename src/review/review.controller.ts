@@ -14,6 +14,8 @@ import {
 import { Response } from 'express';
 import { ReviewService } from './review.service';
 import { PriceRequestItem, DraftUpdateRequest } from '../common/interfaces';
+import { CurrentUser } from '../auth/auth.decorators';
+import { AuthenticatedUser } from '../auth/auth.interfaces';
 
 @Controller('api/review')
 export class ReviewController {
@@ -95,9 +97,10 @@ export class ReviewController {
   async updateDraft(
     @Param('draftId') draftId: string,
     @Body() updateData: DraftUpdateRequest,
+    @CurrentUser() user?: AuthenticatedUser,
   ) {
     try {
-      const draft = await this.reviewService.updateDraftItems(draftId, updateData);
+      const draft = await this.reviewService.updateDraftItems(draftId, updateData, user?.name);
       return {
         success: true,
         message: 'Draft mis à jour avec succès',
@@ -119,12 +122,13 @@ export class ReviewController {
   async updateItems(
     @Param('draftId') draftId: string,
     @Body() body: { items: PriceRequestItem[] },
+    @CurrentUser() user?: AuthenticatedUser,
   ) {
     if (!body.items || !Array.isArray(body.items)) {
       throw new BadRequestException('Items invalides');
     }
 
-    const draft = await this.reviewService.updateDraftItems(draftId, { items: body.items });
+    const draft = await this.reviewService.updateDraftItems(draftId, { items: body.items }, user?.name);
     return {
       success: true,
       message: `${body.items.length} items mis à jour`,
@@ -140,6 +144,7 @@ export class ReviewController {
   async addItem(
     @Param('draftId') draftId: string,
     @Body() item: PriceRequestItem,
+    @CurrentUser() user?: AuthenticatedUser,
   ) {
     if (!item.description) {
       throw new BadRequestException('Description requise');
@@ -149,7 +154,7 @@ export class ReviewController {
       ...item,
       quantity: item.quantity || 1,
       unit: item.unit || 'pcs',
-    });
+    }, user?.name);
 
     return {
       success: true,
@@ -166,8 +171,9 @@ export class ReviewController {
   async removeItem(
     @Param('draftId') draftId: string,
     @Param('itemId') itemId: string,
+    @CurrentUser() user?: AuthenticatedUser,
   ) {
-    const draft = await this.reviewService.removeItemFromDraft(draftId, itemId);
+    const draft = await this.reviewService.removeItemFromDraft(draftId, itemId, user?.name);
     return {
       success: true,
       message: 'Item supprimé',
@@ -183,8 +189,9 @@ export class ReviewController {
   async approveDraft(
     @Param('draftId') draftId: string,
     @Body() body: { reviewNotes?: string },
+    @CurrentUser() user?: AuthenticatedUser,
   ) {
-    const draft = await this.reviewService.markAsReviewed(draftId, body.reviewNotes);
+    const draft = await this.reviewService.markAsReviewed(draftId, body.reviewNotes, user?.name);
     return {
       success: true,
       message: 'Draft approuvé et prêt à envoyer',
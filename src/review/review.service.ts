@@ -111,8 +111,18 @@ export class ReviewService {
 
   /**
    * Mettre à jour un draft avec les données révisées
+   * (reviewedBy: utilisateur authentifié, jamais le corps de la requête)
    */
-  async updateDraftItems(draftId: string, updateData: DraftUpdateRequest): Promise<DraftRecord> {
+  async updateDraftItems(draftId: string, updateData: DraftUpdateRequest, reviewedBy?: string): Promise<DraftRecord> {
+    return this.saveDraftReview(draftId, updateData, reviewedBy, 'draft.items_updated');
+  }
+
+  private async saveDraftReview(
+    draftId: string,
+    updateData: DraftUpdateRequest,
+    reviewedBy: string | undefined,
+    auditAction: string,
+  ): Promise<DraftRecord> {
     const draft = await this.databaseService.getDraftById(draftId);
     
     if (!draft) {
@@ -146,6 +156,7 @@ export class ReviewService {
       status: updateData.status || 'reviewed',
       needsManualReview: false,
       reviewedAt: new Date(),
+      reviewedBy,
     });
 
     // Régénérer le fichier Excel avec les items mis à jour
@@ -153,10 +164,37 @@ export class ReviewService {
       await this.regenerateExcel(updatedDraft, updateData.items);
     }
 
+    await this.databaseService.addAuditEvent({
+      entityType: 'draft',
+      entityId: draftId,
+      action: auditAction,
+      rfqNumber: draft.internalRfqNumber,
+      actor: reviewedBy,
+      before: this.toAuditSnapshot(draft),
+      after: this.toAuditSnapshot(updatedDraft),
+    });
+
     this.logger.log(`Draft ${draftId} mis à jour après révision`);
     return updatedDraft;
   }
 
+  /**
+   * État d'un draft tel que tracé dans le journal d'audit (items détaillés ligne par ligne)
+   */
+  private toAuditSnapshot(draft: DraftRecord): Record<string, unknown> {
+    let items: PriceRequestItem[] = [];
+    try {
+      items = draft.itemsJson ? JSON.parse(draft.itemsJson) : [];
+    } catch {
+      // Items illisibles: seuls les champs du draft sont tracés
+    }
+    return {
+      status: draft.status,
+      reviewNotes: draft.reviewNotes ?? null,
+      items,
+    };
+  }
+
   /**
    * Régénérer le fichier Excel après révision
    */
@@ -212,27 +250,27 @@ export class ReviewService {
   /**
    * Marquer un draft comme vérifié et prêt à envoyer
    */
-  async markAsReviewed(draftId: string, reviewNotes?: string): Promise<DraftRecord> {
-    return this.updateDraftItems(draftId, {
+  async markAsReviewed(draftId: string, reviewNotes?: string, reviewedBy?: string): Promise<DraftRecord> {
+    return this.saveDraftReview(draftId, {
       status: 'reviewed',
       reviewNotes,
-    });
+    }, reviewedBy, 'draft.approved');
   }
 
   /**
    * Ajouter un item à un draft existant
    */
-  async addItemToDraft(draftId: string, item: PriceRequestItem): Promise<DraftRecord> {
+  async addItemToDraft(draftId: string, item: PriceRequestItem, reviewedBy?: string): Promise<DraftRecord> {
     const reviewData = await this.getDraftForReview(draftId);
     const items = [...reviewData.items, { ...item, id: uuidv4() }];
     
-    return this.updateDraftItems(draftId, { items });
+    return this.updateDraftItems(draftId, { items }, reviewedBy);
   }
 
   /**
    * Supprimer un item d'un draft
    */
-  async removeItemFromDraft(draftId: string, itemId: string): Promise<DraftRecord> {
+  async removeItemFromDraft(draftId: string, itemId: string, reviewedBy?: string): Promise<DraftRecord> {
     const reviewData = await this.getDraftForReview(draftId);
     const items = reviewData.items.filter(i => i.id !== itemId);
     
@@ -240,7 +278,7 @@ export class ReviewService {
       throw new BadRequestException('Impossible de supprimer tous les items');
     }
     
-    return this.updateDraftItems(draftId, { items });
+    return this.updateDraftItems(draftId, { items }, reviewedBy);
   }
 
   /**
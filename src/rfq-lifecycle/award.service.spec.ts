@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as initSqlJs from 'sql.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AwardService } from './award.service';
+import { PurchaseOrderService } from './purchase-order.service';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { QuoteComparisonService } from './quote-comparison.service';
+import { LandedCostService } from './landed-cost.service';
+import { QuoteLineMatcherService } from './quote-line-matcher.service';
+import { SupplierQuote } from './rfq-lifecycle.service';
+import { DatabaseService } from '../database/database.service';
+import { CurrencyService } from '../currency/currency.service';
+import { DraftService } from '../draft/draft.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { EmailTemplateService } from '../templates/email-template.service';
+
+describe('AwardService', () => {
+  let service: AwardService;
+  let lifecycleDb: RfqLifecycleDatabaseService;
+  let draftService: { saveToFolder: jest.Mock; getDraftsFolder: jest.Mock };
+  let webhookService: { emitRfqStatusChanged: jest.Mock; emitRfqAwarded: jest.Mock };
+  let outputDir: string;
+
+  const quote = (supplierEmail: string, prices: number[], extra: Partial<SupplierQuote> = {}): SupplierQuote => ({
+    supplierEmail,
+    rfqNumber: 'DDP-A',
+    receivedAt: new Date(),
+    subject: `Offre ${supplierEmail}`,
+    currency: 'EUR',
+    totalAmount: prices.reduce((sum, p) => sum + p, 0),
+    items: ['Filtre à huile 1R-0739', 'Roulement 6205-2RS'].map((description, i) => ({
+      description,
+      quantity: 2,
+      unitPrice: prices[i],
+      totalPrice: prices[i] * 2,
+    })),
+    attachments: [],
+    needsManualReview: false,
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'award-'));
+    const config: Record<string, any> = { 'app.outputDir': outputDir };
+    draftService = {
+      saveToFolder: jest.fn().mockResolvedValue({ success: true }),
+      getDraftsFolder: jest.fn().mockReturnValue('Drafts'),
+    };
+    webhookService = { emitRfqStatusChanged: jest.fn(), emitRfqAwarded: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AwardService,
+        PurchaseOrderService,
+        RfqLifecycleDatabaseService,
+        QuoteComparisonService,
+        QuoteLineMatcherService,
+        CurrencyService,
+        EmailTemplateService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+          },
+        },
+        {
+          provide: DatabaseService,
+          useValue: { db: new SQL.Database(), saveToFile: jest.fn(), addRfqMappingStatusListener: jest.fn() },
+        },
+        {
+          provide: LandedCostService,
+          useValue: { estimate: jest.fn().mockReturnValue({ complete: false, notes: [] }) },
+        },
+        { provide: DraftService, useValue: draftService },
+        { provide: WebhookService, useValue: webhookService },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<AwardService>(AwardService);
+    lifecycleDb = module.get<RfqLifecycleDatabaseService>(RfqLifecycleDatabaseService);
+
+    lifecycleDb.insertSentRfq({
+      internalRfqNumber: 'DDP-A',
+      clientRfqNumber: 'CLI-42',
+      subject: 'Demande A',
+      sentAt: new Date(),
+      sentBy: 'procurement@multipartsci.com',
+      status: 'complet',
+      suppliers: [],
+    });
+    lifecycleDb.insertQuote(quote('alpha@supplier.com', [100, 200], { paymentTerms: '30 jours fin de mois', validity: '60 jours' }));
+    lifecycleDb.insertQuote(quote('beta@supplier.com', [120, 150], { rawText: 'Incoterm: FOB Shanghai' }));
+    lifecycleDb.insertQuote(quote('gamma@supplier.com', [130, 210]));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should split a per-line award into one purchase order per winning supplier', async () => {
+    const award = await service.award('DDP-A', {
+      lines: [
+        { lineNumber: 1, supplierEmail: 'ALPHA@supplier.com' },
+        { lineNumber: 2, supplierEmail: 'beta@supplier.com' },
+      ],
+      notifyLosers: true,
+    });
+
+    expect(award.mode).toBe('par_ligne');
+    expect(award.purchaseOrders.map(po => [po.poNumber, po.supplierEmail, po.totalAmount])).toEqual([
+      ['DDP-A-BC1', 'alpha@supplier.com', 200],
+      ['DDP-A-BC2', 'beta@supplier.com', 300],
+    ]);
+    expect(award.purchaseOrders[0]).toMatchObject({
+      incoterm: 'CIF Abidjan',
+      paymentTerms: '30 jours fin de mois',
+      validity: '60 jours',
+      draftSaved: true,
+    });
+    expect(award.purchaseOrders[1].incoterm).toBe('FOB');
+    expect(award.notifiedSuppliers).toEqual(['gamma@supplier.com']);
+
+    const pdf = fs.readFileSync(award.purchaseOrders[0].pdfPath!);
+    expect(pdf.subarray(0, 8).toString()).toBe('%PDF-1.4');
+    expect(pdf.toString('latin1')).toContain('BON DE COMMANDE / PURCHASE ORDER');
+    expect(fs.existsSync(award.purchaseOrders[0].excelPath!)).toBe(true);
+
+    // 2 bons de commande + 1 avis "non retenue", sans référence client
+    expect(draftService.saveToFolder).toHaveBeenCalledTimes(3);
+    const [poDraft, folder, flags] = draftService.saveToFolder.mock.calls[0];
+    expect(poDraft.attachments.map((a: any) => a.filename)).toEqual(['DDP-A-BC1.pdf', 'DDP-A-BC1.xlsx']);
+    expect([folder, flags]).toEqual(['Drafts', ['\\Draft', '\\Seen']]);
+    expect(draftService.saveToFolder.mock.calls[2][0].to).toBe('gamma@supplier.com');
+    expect(JSON.stringify(draftService.saveToFolder.mock.calls)).not.toContain('CLI-42');
+
+    expect(lifecycleDb.getSentRfq('DDP-A')!.status).toBe('clôturé');
+    expect(webhookService.emitRfqStatusChanged).toHaveBeenCalledWith('DDP-A', 'complet', 'clôturé');
+    expect(webhookService.emitRfqAwarded).toHaveBeenCalledWith('DDP-A', expect.any(Array), ['gamma@supplier.com']);
+    expect(service.getAward('DDP-A')!.purchaseOrders[1].lines[0].lineNumber).toBe(2);
+  });
+
+  it('should award the whole RFQ to one supplier and reject invalid or repeated awards', async () => {
+    await expect(service.award('DDP-A', { supplierEmail: 'unknown@supplier.com' })).rejects.toThrow('Aucune offre');
+    await expect(service.award('DDP-A', { lines: [{ lineNumber: 9, supplierEmail: 'alpha@supplier.com' }] }))
+      .rejects.toThrow('Ligne 9 non trouvée');
+
+    draftService.saveToFolder.mockRejectedValueOnce(new Error('IMAP indisponible'));
+    const award = await service.award('DDP-A', { supplierEmail: 'beta@supplier.com' }, 'acheteur');
+
+    expect(award.awardedBy).toBe('acheteur');
+    expect(award.purchaseOrders).toHaveLength(1);
+    expect(award.purchaseOrders[0]).toMatchObject({ totalAmount: 540, draftSaved: false, draftError: 'IMAP indisponible' });
+    expect(award.purchaseOrders[0].lines).toHaveLength(2);
+    expect(award.notifiedSuppliers).toEqual([]);
+
+    await expect(service.award('DDP-A', { supplierEmail: 'alpha@supplier.com' })).rejects.toThrow('déjà attribuée');
+  });
+});
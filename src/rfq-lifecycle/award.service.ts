@@ -0,0 +1,310 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { DraftService } from '../draft/draft.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { COMPANY_INFO } from '../common/company-info';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { QuoteComparisonService, ComparisonTable } from './quote-comparison.service';
+import { PurchaseOrderService, PurchaseOrder, PurchaseOrderLine } from './purchase-order.service';
+import { SentRfq, SupplierQuote, QuoteItem } from './rfq-lifecycle.service';
+
+/**
+ * Demande d'attribution: un fournisseur pour toute la demande,
+ * ou un fournisseur par ligne du comparatif
+ */
+export interface AwardRequest {
+  supplierEmail?: string;
+  lines?: { lineNumber: number; supplierEmail: string }[];
+  notifyLosers?: boolean;      // Brouillon "offre non retenue" aux autres fournisseurs
+  notes?: string;
+}
+
+/**
+ * Attribution enregistrée d'une demande
+ */
+export interface RfqAward {
+  id: string;
+  rfqNumber: string;
+  mode: 'global' | 'par_ligne';
+  awardedAt: Date;
+  awardedBy?: string;
+  notes?: string;
+  previousStatus?: SentRfq['status'];
+  purchaseOrders: PurchaseOrder[];
+  notifiedSuppliers: string[];
+}
+
+/**
+ * AwardService
+ *
+ * Attribution d'une demande après comparatif: génération des bons de commande
+ * (Excel + PDF) en brouillon, avis "offre non retenue" optionnels, clôture de
+ * la demande et événement webhook rfq.awarded.
+ */
+@Injectable()
+export class AwardService {
+  private readonly logger = new Logger(AwardService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly lifecycleDb: RfqLifecycleDatabaseService,
+    private readonly comparisonService: QuoteComparisonService,
+    private readonly purchaseOrderService: PurchaseOrderService,
+    private readonly draftService: DraftService,
+    private readonly webhookService: WebhookService,
+    private readonly templateService: EmailTemplateService,
+  ) {}
+
+  getAward(rfqNumber: string): RfqAward | undefined {
+    return this.lifecycleDb.getAward(rfqNumber);
+  }
+
+  /**
+   * Attribuer une demande et générer les bons de commande
+   */
+  async award(rfqNumber: string, request: AwardRequest, awardedBy?: string): Promise<RfqAward> {
+    const rfq = this.lifecycleDb.getSentRfq(rfqNumber);
+    if (!rfq) {
+      throw new Error(`Demande ${rfqNumber} non trouvée`);
+    }
+    if (this.lifecycleDb.getAward(rfqNumber)) {
+      throw new Error(`Demande ${rfqNumber} déjà attribuée`);
+    }
+    if (!request.supplierEmail && !request.lines?.length) {
+      throw new Error('Indiquer supplierEmail (attribution globale) ou lines (attribution par ligne)');
+    }
+
+    const quotes = this.lifecycleDb.getQuotesForRfq(rfqNumber);
+    if (quotes.length === 0) {
+      throw new Error('Aucune offre reçue pour ce RFQ');
+    }
+
+    // Le comparatif complète aussi la logistique des offres (Incoterm)
+    const comparison = this.comparisonService.compareQuotes(rfqNumber, quotes);
+    const linesBySupplier = request.supplierEmail
+      ? this.awardWholeRfq(quotes, request.supplierEmail)
+      : this.awardPerLine(comparison, quotes, request.lines!);
+
+    const awardedAt = new Date();
+    const purchaseOrders: PurchaseOrder[] = [];
+    let index = 1;
+    for (const [email, lines] of linesBySupplier) {
+      const quote = this.findQuote(quotes, email)!;
+      const po = this.buildPurchaseOrder(`${rfqNumber}-BC${index++}`, quote, lines, awardedAt);
+      await this.issuePurchaseOrder(po);
+      purchaseOrders.push(po);
+    }
+
+    const winners = new Set(purchaseOrders.map(po => po.supplierEmail));
+    const notifiedSuppliers: string[] = [];
+    if (request.notifyLosers) {
+      for (const quote of quotes) {
+        const email = quote.supplierEmail.toLowerCase();
+        if (winners.has(email) || notifiedSuppliers.includes(email)) continue;
+        if (await this.saveNotSelectedNotice(rfq, quote)) {
+          notifiedSuppliers.push(email);
+        }
+      }
+    }
+
+    const award: RfqAward = {
+      id: uuidv4(),
+      rfqNumber,
+      mode: request.supplierEmail ? 'global' : 'par_ligne',
+      awardedAt,
+      awardedBy,
+      notes: request.notes,
+      previousStatus: rfq.status,
+      purchaseOrders,
+      notifiedSuppliers,
+    };
+    this.lifecycleDb.insertAward(award);
+
+    this.lifecycleDb.updateRfqStatus(rfqNumber, 'clôturé', 'awarded');
+    await this.webhookService.emitRfqAwarded(
+      rfqNumber,
+      purchaseOrders.map(po => ({
+        poNumber: po.poNumber,
+        supplierEmail: po.supplierEmail,
+        totalAmount: po.totalAmount,
+        currency: po.currency,
+      })),
+      notifiedSuppliers,
+    );
+
+    this.logger.log(`Demande ${rfqNumber} attribuée: ${purchaseOrders.map(po => po.poNumber).join(', ')}`);
+    return award;
+  }
+
+  /**
+   * Attribution globale: tous les articles de l'offre du fournisseur retenu
+   */
+  private awardWholeRfq(quotes: SupplierQuote[], supplierEmail: string): Map<string, PurchaseOrderLine[]> {
+    const quote = this.findQuote(quotes, supplierEmail);
+    if (!quote) {
+      throw new Error(`Aucune offre de ${supplierEmail} pour cette demande`);
+    }
+    if (quote.items.length === 0) {
+      throw new Error(`L'offre de ${supplierEmail} ne contient aucun article`);
+    }
+
+    const lines = quote.items.map((item, i) => this.toPurchaseOrderLine(i + 1, item));
+    return new Map([[quote.supplierEmail.toLowerCase(), lines]]);
+  }
+
+  /**
+   * Attribution par ligne du comparatif: regroupe les lignes par fournisseur
+   */
+  private awardPerLine(
+    comparison: ComparisonTable,
+    quotes: SupplierQuote[],
+    selections: { lineNumber: number; supplierEmail: string }[],
+  ): Map<string, PurchaseOrderLine[]> {
+    const linesBySupplier = new Map<string, PurchaseOrderLine[]>();
+    const awardedLines = new Set<number>();
+
+    for (const selection of selections) {
+      const compItem = comparison.items.find(i => i.lineNumber === Number(selection.lineNumber));
+      if (!compItem) {
+        throw new Error(`Ligne ${selection.lineNumber} non trouvée dans le comparatif`);
+      }
+      if (awardedLines.has(compItem.lineNumber)) {
+        throw new Error(`Ligne ${compItem.lineNumber} attribuée plusieurs fois`);
+      }
+
+      const quote = this.findQuote(quotes, selection.supplierEmail);
+      const item = quote && this.comparisonService.findQuoteItem(quote, compItem);
+      if (!quote || !item) {
+        throw new Error(`Ligne ${compItem.lineNumber}: aucune offre de ${selection.supplierEmail}`);
+      }
+
+      awardedLines.add(compItem.lineNumber);
+      const email = quote.supplierEmail.toLowerCase();
+      const lines = linesBySupplier.get(email) || [];
+      lines.push(this.toPurchaseOrderLine(compItem.lineNumber, item));
+      linesBySupplier.set(email, lines);
+    }
+
+    return linesBySupplier;
+  }
+
+  private toPurchaseOrderLine(lineNumber: number, item: QuoteItem): PurchaseOrderLine {
+    const quantity = item.quantity || 1;
+    const unitPrice = item.unitPrice ?? (item.totalPrice !== undefined ? item.totalPrice / quantity : undefined);
+
+    return {
+      lineNumber,
+      description: item.description,
+      partNumber: item.partNumber,
+      quantity,
+      unit: item.unit,
+      unitPrice,
+      totalPrice: item.totalPrice ?? (unitPrice !== undefined ? unitPrice * quantity : undefined),
+      deliveryTime: item.deliveryTime,
+    };
+  }
+
+  private buildPurchaseOrder(
+    poNumber: string,
+    quote: SupplierQuote,
+    lines: PurchaseOrderLine[],
+    issuedAt: Date,
+  ): PurchaseOrder {
+    const priced = lines.filter(l => l.totalPrice !== undefined);
+
+    return {
+      poNumber,
+      rfqNumber: quote.rfqNumber,
+      supplierEmail: quote.supplierEmail.toLowerCase(),
+      supplierName: quote.supplierName,
+      issuedAt,
+      quoteReference: quote.subject || undefined,
+      currency: quote.currency,
+      totalAmount: priced.length > 0 ? priced.reduce((sum, l) => sum + l.totalPrice!, 0) : undefined,
+      incoterm: quote.logistics?.incoterm || COMPANY_INFO.defaultIncoterm,
+      paymentTerms: quote.paymentTerms,
+      validity: quote.validity,
+      deliveryTime: quote.deliveryTime,
+      lines,
+      draftSaved: false,
+    };
+  }
+
+  /**
+   * Générer les documents du bon de commande et l'enregistrer en brouillon
+   */
+  private async issuePurchaseOrder(po: PurchaseOrder): Promise<void> {
+    const documents = await this.purchaseOrderService.generateDocuments(po);
+    po.excelPath = documents.excelPath;
+    po.pdfPath = documents.pdfPath;
+
+    const { subject, html, text } = this.templateService.render('purchase_order', {
+      poNumber: po.poNumber,
+      rfqNumber: po.rfqNumber,
+      supplierName: po.supplierName,
+      supplierEmail: po.supplierEmail,
+      quoteReference: po.quoteReference,
+      incoterm: po.incoterm,
+      paymentTerms: po.paymentTerms || '-',
+      deliveryTime: po.deliveryTime || '-',
+    }, 'both');
+
+    const result = await this.saveDraft({
+      to: po.supplierEmail,
+      subject,
+      body: text,
+      htmlBody: html,
+      attachments: [
+        {
+          filename: `${po.poNumber}.pdf`,
+          content: documents.pdfBuffer,
+          contentType: 'application/pdf',
+        },
+        {
+          filename: `${po.poNumber}.xlsx`,
+          content: documents.excelBuffer,
+          contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        },
+      ],
+    });
+    po.draftSaved = result.success;
+    po.draftError = result.error;
+  }
+
+  /**
+   * Brouillon "offre non retenue" pour un fournisseur non attributaire
+   */
+  private async saveNotSelectedNotice(rfq: SentRfq, quote: SupplierQuote): Promise<boolean> {
+    const { subject, html, text } = this.templateService.render('quotation_not_selected', {
+      rfqNumber: rfq.internalRfqNumber,
+      supplierName: quote.supplierName,
+      supplierEmail: quote.supplierEmail,
+    }, 'both');
+
+    const result = await this.saveDraft({
+      to: quote.supplierEmail,
+      subject,
+      body: text,
+      htmlBody: html,
+    });
+    return result.success;
+  }
+
+  private async saveDraft(options: Parameters<DraftService['saveToFolder']>[0]): Promise<{ success: boolean; error?: string }> {
+    const draftsFolder = this.draftService.getDraftsFolder();
+    try {
+      return await this.draftService.saveToFolder(options, draftsFolder, ['\\Draft', '\\Seen']);
+    } catch (error) {
+      this.logger.error(`Erreur sauvegarde brouillon ${options.subject}: ${error.message}`);
+      return { success: false, error: error.message };
+    }
+  }
+
+  private findQuote(quotes: SupplierQuote[], supplierEmail: string): SupplierQuote | undefined {
+    const email = supplierEmail.toLowerCase();
+    // Dernière offre reçue du fournisseur
+    return [...quotes].reverse().find(q => q.supplierEmail.toLowerCase() === email);
+  }
+}
@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as initSqlJs from 'sql.js';
+import { DeadlineWatcherService } from './deadline-watcher.service';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { DatabaseService } from '../database/database.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { MailService } from '../mail/mail.service';
+import { EmailTemplateService } from '../templates/email-template.service';
+
+describe('DeadlineWatcherService', () => {
+  let service: DeadlineWatcherService;
+  let lifecycleDb: RfqLifecycleDatabaseService;
+  let webhookService: {
+    emitDeadlineApproaching: jest.Mock;
+    emitDeadlinePassed: jest.Mock;
+    emitDailySummary: jest.Mock;
+    emitRfqStatusChanged: jest.Mock;
+  };
+  let mailService: { sendMail: jest.Mock };
+  let statusListeners: ((rfqNumber: string, from: string, to: string) => Promise<void>)[];
+
+  const now = new Date('2026-10-19T10:00:00Z');
+  const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  const insertRfq = (rfqNumber: string, deadline?: Date, status: any = 'envoyé') => {
+    lifecycleDb.insertSentRfq({
+      internalRfqNumber: rfqNumber,
+      clientRfqNumber: `CLI-${rfqNumber}`,
+      subject: `Demande ${rfqNumber}`,
+      sentAt: hoursFromNow(-2),
+      sentBy: 'procurement@multipartsci.com',
+      status,
+      clientName: 'Endeavour Mining',
+      clientEmail: 'achats@endeavour.com',
+      deadline,
+      suppliers: [
+        { email: 'alpha@supplier.com', rfqNumber, consultedAt: hoursFromNow(-2), status: 'offre_reçue', reminderCount: 0 },
+        { email: 'beta@supplier.com', rfqNumber, consultedAt: hoursFromNow(-2), status: 'consulté', reminderCount: 0 },
+      ],
+    });
+  };
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    const config: Record<string, any> = { 'deadlines.thresholdsHours': [4, 24] };
+    statusListeners = [];
+    webhookService = {
+      emitDeadlineApproaching: jest.fn(),
+      emitDeadlinePassed: jest.fn(),
+      emitDailySummary: jest.fn(),
+      emitRfqStatusChanged: jest.fn(),
+    };
+    mailService = { sendMail: jest.fn().mockResolvedValue({ success: true }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeadlineWatcherService,
+        RfqLifecycleDatabaseService,
+        EmailTemplateService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+          },
+        },
+        {
+          provide: DatabaseService,
+          useValue: {
+            db: new SQL.Database(),
+            saveToFile: jest.fn(),
+            addRfqMappingStatusListener: jest.fn(listener => statusListeners.push(listener)),
+            countRfqMappingsReceived: jest.fn().mockResolvedValue(3),
+          },
+        },
+        { provide: WebhookService, useValue: webhookService },
+        { provide: JobQueueService, useValue: { registerHandler: jest.fn(), schedule: jest.fn() } },
+        { provide: MailService, useValue: mailService },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<DeadlineWatcherService>(DeadlineWatcherService);
+    lifecycleDb = module.get<RfqLifecycleDatabaseService>(RfqLifecycleDatabaseService);
+  });
+
+  it('should alert once per threshold as the deadline gets closer, then once when it passes', async () => {
+    insertRfq('DDP-1', hoursFromNow(20));
+
+    const first = await service.checkDeadlines(now);
+    expect(first.alerts.map(a => [a.rfqNumber, a.kind, a.thresholdHours])).toEqual([['DDP-1', 'approaching', 24]]);
+    expect(webhookService.emitDeadlineApproaching).toHaveBeenCalledWith(
+      'DDP-1',
+      hoursFromNow(20),
+      20,
+      expect.objectContaining({ thresholdHours: 24, supplierCount: 2, quotesReceived: 1, clientName: 'Endeavour Mining' }),
+    );
+
+    expect((await service.checkDeadlines(hoursFromNow(1))).alerts).toHaveLength(0);
+
+    const second = await service.checkDeadlines(hoursFromNow(17));
+    expect(second.alerts.map(a => [a.kind, a.thresholdHours])).toEqual([['approaching', 4]]);
+
+    const passed = await service.checkDeadlines(hoursFromNow(21));
+    expect(passed.alerts.map(a => [a.kind, a.hoursRemaining])).toEqual([['passed', -1]]);
+    expect(webhookService.emitDeadlinePassed).toHaveBeenCalledWith('DDP-1', hoursFromNow(20), 1, expect.any(Object));
+
+    expect((await service.checkDeadlines(hoursFromNow(30))).alerts).toHaveLength(0);
+    expect(webhookService.emitDeadlineApproaching).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only signal the tightest threshold crossed and ignore closed RFQs or RFQs without deadline', async () => {
+    insertRfq('DDP-2', hoursFromNow(3));
+    insertRfq('DDP-3', hoursFromNow(2), 'clôturé');
+    insertRfq('DDP-4');
+
+    const result = await service.checkDeadlines(now);
+
+    expect(result.checked).toBe(1);
+    expect(result.alerts.map(a => [a.rfqNumber, a.thresholdHours])).toEqual([['DDP-2', 4]]);
+    expect((await service.checkDeadlines(hoursFromNow(0.5))).alerts).toHaveLength(0);
+  });
+
+  it('should send one internal email listing the RFQs at risk', async () => {
+    insertRfq('DDP-5', hoursFromNow(-3));
+    insertRfq('DDP-6', hoursFromNow(10));
+
+    const result = await service.checkDeadlines(now);
+
+    expect(result.emailSent).toBe(true);
+    expect(mailService.sendMail).toHaveBeenCalledTimes(1);
+    const mail = mailService.sendMail.mock.calls[0][0];
+    expect(mail.to).toBe('procurement@multipartsci.com');
+    expect(mail.subject).toBe('⏰ Échéances RFQ: 1 proche(s), 1 dépassée(s)');
+    expect(mail.body).toContain('DDP-5 (Réf. CLI-DDP-5) - Endeavour Mining');
+    expect(mail.body).toContain('dépassée de 3 h');
+    expect(mail.body).toContain('Offres: 1/2');
+    expect(mail.htmlBody).toContain('DDP-6');
+
+    await service.checkDeadlines(now);
+    expect(mailService.sendMail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should build the daily summary with received, sent, quotes and overdue counts', async () => {
+    insertRfq('DDP-7', new Date(Date.now() - 60 * 60 * 1000));
+    lifecycleDb.insertQuote({
+      supplierEmail: 'alpha@supplier.com',
+      rfqNumber: 'DDP-7',
+      receivedAt: new Date(),
+      subject: 'Offre',
+      items: [],
+      attachments: [],
+      needsManualReview: false,
+    });
+
+    const summary = await service.scheduledDailySummary();
+
+    expect(summary).toMatchObject({ received: 3, quotes: 1, overdue: 1, dueSoon: 0 });
+    expect(summary.overdueRfqs[0].rfqNumber).toBe('DDP-7');
+    expect(webhookService.emitDailySummary).toHaveBeenCalledWith(summary);
+  });
+
+  it('should emit a status change for sent RFQs and received RFQs', async () => {
+    insertRfq('DDP-8', hoursFromNow(48));
+
+    lifecycleDb.updateRfqStatus('DDP-8', 'partiellement_répondu', 'quote_received');
+    lifecycleDb.updateRfqStatus('DDP-8', 'partiellement_répondu', 'quote_received');
+    await statusListeners[0]('DDP-8', 'processed', 'draft_pending');
+
+    expect(webhookService.emitRfqStatusChanged.mock.calls).toEqual([
+      ['DDP-8', 'envoyé', 'partiellement_répondu'],
+      ['DDP-8', 'processed', 'draft_pending'],
+    ]);
+  });
+});
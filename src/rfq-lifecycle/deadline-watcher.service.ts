@@ -0,0 +1,276 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { SentRfq } from './rfq-lifecycle.service';
+import { DatabaseService } from '../database/database.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { MailService } from '../mail/mail.service';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { formatDate, formatDateTime } from '../templates/template-variables';
+import { COMPANY_INFO } from '../common/company-info';
+
+export const DEADLINE_WATCH_JOB = 'rfq-lifecycle.deadline-watch';
+export const DAILY_SUMMARY_JOB = 'rfq-lifecycle.daily-summary';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Demande dont l'échéance client approche ou est dépassée
+ */
+export interface DeadlineAlert {
+  rfqNumber: string;
+  clientRfqNumber?: string;
+  clientName?: string;
+  clientEmail?: string;
+  status: SentRfq['status'];
+  deadline: Date;
+  kind: 'approaching' | 'passed';
+  hoursRemaining: number; // négatif une fois l'échéance dépassée
+  thresholdHours?: number; // seuil franchi (échéance proche)
+  supplierCount: number;
+  quotesReceived: number;
+}
+
+export interface DeadlineCheckResult {
+  checked: number;
+  alerts: DeadlineAlert[];
+  emailSent: boolean;
+}
+
+/**
+ * Résumé quotidien (webhook daily.summary)
+ */
+export interface DailySummary {
+  date: string;
+  received: number;
+  sent: number;
+  quotes: number;
+  overdue: number;
+  dueSoon: number;
+  overdueRfqs: { rfqNumber: string; clientName?: string; deadline: string; hoursOverdue: number }[];
+}
+
+/**
+ * DeadlineWatcherService
+ *
+ * Surveille les échéances clients des demandes envoyées: émet deadline.approaching
+ * à chaque seuil franchi (24h, 4h par défaut) puis deadline.passed, une seule fois par
+ * seuil et par échéance, et envoie une alerte interne listant les demandes à risque.
+ * Produit aussi le résumé quotidien (reçues, envoyées, offres, en retard).
+ */
+@Injectable()
+export class DeadlineWatcherService implements OnModuleInit {
+  private readonly logger = new Logger(DeadlineWatcherService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly lifecycleDb: RfqLifecycleDatabaseService,
+    private readonly databaseService: DatabaseService,
+    private readonly webhookService: WebhookService,
+    private readonly jobQueue: JobQueueService,
+    private readonly mailService: MailService,
+    private readonly templateService: EmailTemplateService,
+  ) {}
+
+  onModuleInit() {
+    this.jobQueue.registerHandler(DEADLINE_WATCH_JOB, () => this.scheduledDeadlineCheck());
+    this.jobQueue.schedule(DEADLINE_WATCH_JOB, {
+      intervalMinutes: this.configService.get<number>('deadlines.checkIntervalMinutes', 30),
+    });
+    this.jobQueue.registerHandler(DAILY_SUMMARY_JOB, () => this.scheduledDailySummary());
+    this.jobQueue.schedule(DAILY_SUMMARY_JOB, {
+      cron: this.configService.get<string>('deadlines.dailySummaryCron', '0 18 * * *'),
+    });
+  }
+
+  /**
+   * Seuils d'alerte en heures, du plus large au plus serré
+   */
+  get thresholds(): number[] {
+    const thresholds = this.configService.get<number[]>('deadlines.thresholdsHours') || [24, 4];
+    return [...new Set(thresholds)].sort((a, b) => b - a);
+  }
+
+  // ============ ÉCHÉANCES ============
+
+  async scheduledDeadlineCheck(): Promise<{ skipped?: boolean; alerts?: number; emailSent?: boolean }> {
+    if (!this.configService.get<boolean>('deadlines.enabled', true)) {
+      return { skipped: true };
+    }
+    const result = await this.checkDeadlines();
+    return { alerts: result.alerts.length, emailSent: result.emailSent };
+  }
+
+  /**
+   * Vérifier les échéances: nouvelles alertes seulement (les seuils déjà signalés sont ignorés)
+   */
+  async checkDeadlines(now: Date = new Date()): Promise<DeadlineCheckResult> {
+    const rfqs = this.lifecycleDb.getOpenRfqsWithDeadline();
+    const thresholds = this.thresholds;
+    const alerts: DeadlineAlert[] = [];
+
+    for (const rfq of rfqs) {
+      const deadline = rfq.deadline!;
+      const hoursRemaining = (deadline.getTime() - now.getTime()) / HOUR_MS;
+      const alreadySent = this.lifecycleDb.getDeadlineAlerts(rfq.internalRfqNumber, deadline)
+        .map(a => `${a.kind}:${a.thresholdHours}`);
+
+      if (hoursRemaining <= 0) {
+        if (alreadySent.includes('passed:0')) continue;
+        this.lifecycleDb.insertDeadlineAlert({ rfqNumber: rfq.internalRfqNumber, kind: 'passed', thresholdHours: 0, deadline }, false);
+        alerts.push(this.toAlert(rfq, 'passed', hoursRemaining));
+        continue;
+      }
+
+      // Seul le seuil le plus serré est signalé, les seuils plus larges sont marqués au passage
+      const crossed = thresholds.filter(t => hoursRemaining <= t);
+      if (crossed.length === 0) continue;
+      const tightest = crossed[crossed.length - 1];
+      if (alreadySent.includes(`approaching:${tightest}`)) continue;
+
+      for (const threshold of crossed) {
+        this.lifecycleDb.insertDeadlineAlert({ rfqNumber: rfq.internalRfqNumber, kind: 'approaching', thresholdHours: threshold, deadline }, false);
+      }
+      alerts.push(this.toAlert(rfq, 'approaching', hoursRemaining, tightest));
+    }
+
+    if (alerts.length === 0) {
+      return { checked: rfqs.length, alerts, emailSent: false };
+    }
+    this.lifecycleDb.persist();
+
+    for (const alert of alerts) {
+      const details = {
+        clientRfqNumber: alert.clientRfqNumber,
+        clientName: alert.clientName,
+        clientEmail: alert.clientEmail,
+        status: alert.status,
+        thresholdHours: alert.thresholdHours,
+        supplierCount: alert.supplierCount,
+        quotesReceived: alert.quotesReceived,
+      };
+      if (alert.kind === 'passed') {
+        await this.webhookService.emitDeadlinePassed(alert.rfqNumber, alert.deadline, this.roundHours(-alert.hoursRemaining), details);
+      } else {
+        await this.webhookService.emitDeadlineApproaching(alert.rfqNumber, alert.deadline, this.roundHours(alert.hoursRemaining), details);
+      }
+    }
+
+    const emailSent = await this.sendAlertEmail(alerts, now);
+    this.logger.log(`⏰ ${alerts.length} alerte(s) d'échéance (${rfqs.length} demande(s) surveillée(s))`);
+    return { checked: rfqs.length, alerts, emailSent };
+  }
+
+  /**
+   * Demandes à risque: échéance dépassée ou dans le seuil le plus large (sans tenir compte des alertes déjà émises)
+   */
+  getAtRiskRfqs(now: Date = new Date()): DeadlineAlert[] {
+    const horizon = this.thresholds[0] || 0;
+    return this.lifecycleDb.getOpenRfqsWithDeadline()
+      .map(rfq => {
+        const hoursRemaining = (rfq.deadline!.getTime() - now.getTime()) / HOUR_MS;
+        return hoursRemaining <= 0
+          ? this.toAlert(rfq, 'passed', hoursRemaining)
+          : this.toAlert(rfq, 'approaching', hoursRemaining, [...this.thresholds].reverse().find(t => hoursRemaining <= t));
+      })
+      .filter(alert => alert.kind === 'passed' || alert.hoursRemaining <= horizon);
+  }
+
+  private toAlert(rfq: SentRfq, kind: DeadlineAlert['kind'], hoursRemaining: number, thresholdHours?: number): DeadlineAlert {
+    return {
+      rfqNumber: rfq.internalRfqNumber,
+      clientRfqNumber: rfq.clientRfqNumber,
+      clientName: rfq.clientName,
+      clientEmail: rfq.clientEmail,
+      status: rfq.status,
+      deadline: rfq.deadline!,
+      kind,
+      hoursRemaining: this.roundHours(hoursRemaining),
+      thresholdHours,
+      supplierCount: rfq.suppliers.length,
+      quotesReceived: rfq.suppliers.filter(s => s.status === 'offre_reçue').length,
+    };
+  }
+
+  private async sendAlertEmail(alerts: DeadlineAlert[], now: Date): Promise<boolean> {
+    const recipient = this.configService.get<string>('deadlines.alertEmail') || COMPANY_INFO.contact.primaryEmail;
+    const sorted = [...alerts].sort((a, b) => a.hoursRemaining - b.hoursRemaining);
+
+    try {
+      const { subject, html, text } = this.templateService.render('deadline_alert', {
+        date: formatDateTime(now),
+        approachingCount: alerts.filter(a => a.kind === 'approaching').length,
+        passedCount: alerts.filter(a => a.kind === 'passed').length,
+        alerts: sorted.map(alert => ({
+          rfqNumber: alert.rfqNumber,
+          clientRfqNumber: alert.clientRfqNumber,
+          clientName: alert.clientName || alert.clientEmail || '',
+          deadline: formatDateTime(alert.deadline),
+          remaining: alert.kind === 'passed'
+            ? `dépassée de ${this.formatHours(-alert.hoursRemaining)}`
+            : this.formatHours(alert.hoursRemaining),
+          passed: alert.kind === 'passed',
+          status: alert.status.replace(/_/g, ' '),
+          quotesReceived: alert.quotesReceived,
+          supplierCount: alert.supplierCount,
+        })),
+      });
+      const result = await this.mailService.sendMail({ to: recipient, subject, body: text, htmlBody: html });
+      if (!result.success) {
+        this.logger.error(`Échec de l'alerte d'échéance: ${result.error}`);
+      }
+      return result.success;
+    } catch (error) {
+      this.logger.error(`Erreur envoi alerte d'échéance: ${error.message}`);
+      return false;
+    }
+  }
+
+  // ============ RÉSUMÉ QUOTIDIEN ============
+
+  async scheduledDailySummary(): Promise<DailySummary> {
+    const summary = await this.buildDailySummary();
+    await this.webhookService.emitDailySummary(summary);
+    return summary;
+  }
+
+  /**
+   * Activité de la journée (minuit à minuit) et demandes en retard à l'instant du calcul
+   */
+  async buildDailySummary(date: Date = new Date()): Promise<DailySummary> {
+    const from = new Date(date);
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(from.getTime() + 24 * HOUR_MS);
+
+    const activity = this.lifecycleDb.getActivityCounts(from, to);
+    const atRisk = this.getAtRiskRfqs(new Date());
+    const overdue = atRisk.filter(a => a.kind === 'passed');
+
+    return {
+      date: formatDate(from),
+      received: await this.databaseService.countRfqMappingsReceived(from, to),
+      sent: activity.sent,
+      quotes: activity.quotes,
+      overdue: overdue.length,
+      dueSoon: atRisk.length - overdue.length,
+      overdueRfqs: overdue.map(a => ({
+        rfqNumber: a.rfqNumber,
+        clientName: a.clientName,
+        deadline: a.deadline.toISOString(),
+        hoursOverdue: -a.hoursRemaining,
+      })),
+    };
+  }
+
+  // ============ UTILITAIRES ============
+
+  private roundHours(hours: number): number {
+    return Math.round(hours * 10) / 10;
+  }
+
+  private formatHours(hours: number): string {
+    if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+    return hours < 48 ? `${Math.round(hours)} h` : `${Math.round(hours / 24)} j`;
+  }
+}
@@ -1,23 +1,21 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Cron } from '@nestjs/schedule';
 import * as Imap from 'imap';
 import { simpleParser } from 'mailparser';
 import { RfqLifecycleService, SupplierQuote } from './rfq-lifecycle.service';
 import { QuoteComparisonService } from './quote-comparison.service';
 import { WebhookService } from '../webhook/webhook.service';
 import { BrandIntelligenceService } from '../brand-intelligence/brand-intelligence.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { MailboxAccount } from '../mailbox/mailbox.interfaces';
+
+export const INBOUND_SCAN_JOB = 'rfq-lifecycle.inbound-scan';
 
 @Injectable()
-export class InboundScannerService {
+export class InboundScannerService implements OnModuleInit {
   private readonly logger = new Logger(InboundScannerService.name);
 
-  // Adresses email à surveiller pour les réponses
-  private readonly monitoredInboxes = [
-    'procurement@multipartsci.com',
-    'rafiou.oyeossi@multipartsci.com',
-  ];
-
   // Mots-clés indiquant un refus
   private readonly declineKeywords = [
     'ne sommes pas en mesure',
@@ -42,34 +40,60 @@ export class InboundScannerService {
     private quoteComparisonService: QuoteComparisonService,
     private webhookService: WebhookService,
     private brandIntelligence: BrandIntelligenceService,
+    private jobQueue: JobQueueService,
+    private mailboxRegistry: MailboxRegistryService,
   ) {}
 
+  onModuleInit() {
+    this.jobQueue.registerHandler(INBOUND_SCAN_JOB, () => this.scheduledInboundScan());
+    this.jobQueue.schedule(INBOUND_SCAN_JOB, { cron: '*/10 * * * *' });
+  }
+
   /**
    * Tâche planifiée: Scanner les emails entrants
    * Exécutée toutes les 10 minutes
    */
-  @Cron('*/10 * * * *')
-  async scheduledInboundScan(): Promise<void> {
+  async scheduledInboundScan(): Promise<{ quotes: number; declines: number }> {
     this.logger.log('📥 Scan des emails entrants pour réponses fournisseurs...');
-    await this.scanInboundEmails();
+    return this.scanInboundEmails();
   }
 
   /**
    * Scanner les emails entrants pour détecter les réponses fournisseurs
+   * (boîtes du rôle supplier_replies, ou boîte de l'environnement)
    */
   async scanInboundEmails(): Promise<{ quotes: number; declines: number }> {
     let quotesCount = 0;
     let declinesCount = 0;
 
+    const accounts = this.mailboxRegistry.getAccountsForRole('supplier_replies');
+    for (const account of accounts.length > 0 ? accounts : [undefined]) {
+      const counts = await this.scanInbox(account);
+      quotesCount += counts.quotes;
+      declinesCount += counts.declines;
+    }
+
+    if (quotesCount > 0 || declinesCount > 0) {
+      this.logger.log(`📊 Résultat scan: ${quotesCount} offre(s), ${declinesCount} refus`);
+    }
+
+    return { quotes: quotesCount, declines: declinesCount };
+  }
+
+  private async scanInbox(account?: MailboxAccount): Promise<{ quotes: number; declines: number }> {
+    let quotesCount = 0;
+    let declinesCount = 0;
+
     try {
-      const imapConfig = this.getImapConfig();
+      const imapConfig = this.getImapConfig(account);
       const imap = new Imap(imapConfig);
+      const inbox = this.mailboxRegistry.getFolder(account, 'inbox');
 
       await new Promise<void>((resolve, reject) => {
         imap.once('ready', () => {
-          imap.openBox('INBOX', false, async (err, box) => {
+          imap.openBox(inbox, false, async (err, box) => {
             if (err) {
-              this.logger.error(`Erreur ouverture INBOX: ${err.message}`);
+              this.logger.error(`Erreur ouverture ${inbox}${account ? ` (${account.email})` : ''}: ${err.message}`);
               imap.end();
               resolve();
               return;
@@ -146,10 +170,6 @@ export class InboundScannerService {
       this.logger.error(`Erreur scan emails entrants: ${error.message}`);
     }
 
-    if (quotesCount > 0 || declinesCount > 0) {
-      this.logger.log(`📊 Résultat scan: ${quotesCount} offre(s), ${declinesCount} refus`);
-    }
-
     return { quotes: quotesCount, declines: declinesCount };
   }
 
@@ -169,8 +189,14 @@ export class InboundScannerService {
     const attachments = parsed.attachments || [];
 
     // Vérifier si c'est une réponse à une de nos demandes
-    // 1. Chercher le RFQ dans le sujet ou le corps
-    const rfqNumber = this.findRfqReference(subject, body);
+    // 1. Réponse à un envoi individuel (Message-ID ou jeton), sinon RFQ dans le sujet ou le corps
+    const dispatch = this.rfqLifecycleService.findSupplierDispatch({
+      subject,
+      body,
+      inReplyTo: parsed.inReplyTo,
+      references: parsed.references,
+    });
+    const rfqNumber = dispatch?.rfqNumber || this.findRfqReference(subject, body);
     if (!rfqNumber) {
       return 'ignored';
     }
@@ -181,7 +207,8 @@ export class InboundScannerService {
       return 'ignored';
     }
 
-    const supplierEmail = this.extractEmail(from);
+    // Envoi individuel: le fournisseur consulté fait foi, même si un collègue répond
+    const supplierEmail = dispatch?.email || this.extractEmail(from);
     const isKnownSupplier = rfq.suppliers.some(s => 
       s.email.toLowerCase() === supplierEmail ||
       supplierEmail.includes(s.email.split('@')[0])
@@ -458,17 +485,9 @@ export class InboundScannerService {
   }
 
   /**
-   * Configuration IMAP
+   * Configuration IMAP d'une boîte (environnement si aucun compte)
    */
-  private getImapConfig(): Imap.Config {
-    return {
-      user: this.configService.get<string>('imap.user')!,
-      password: this.configService.get<string>('imap.password')!,
-      host: this.configService.get<string>('imap.host')!,
-      port: this.configService.get<number>('imap.port')!,
-      tls: this.configService.get<boolean>('imap.tls', true),
-      tlsOptions: { rejectUnauthorized: false },
-      authTimeout: 10000,
-    };
+  private getImapConfig(account?: MailboxAccount): Imap.Config {
+    return this.mailboxRegistry.getImapConfig(account);
   }
 }
@@ -1,7 +1,16 @@
 export * from './rfq-lifecycle.service';
+export * from './rfq-lifecycle-database.service';
 export * from './quote-comparison.service';
+export * from './landed-cost.service';
+export * from './quote-line-matcher.service';
 export * from './reminder.service';
 export * from './inbound-scanner.service';
+export * from './supplier-scorecard.service';
+export * from './purchase-order.service';
+export * from './award.service';
+export * from './rfq-timeline.service';
+export * from './deadline-watcher.service';
 export * from './logistics.interface';
 export * from './rfq-lifecycle.module';
 export * from './rfq-lifecycle.controller';
+export * from './supplier-scorecard.controller';
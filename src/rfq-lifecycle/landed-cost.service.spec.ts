@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LandedCostService } from './landed-cost.service';
+import { CurrencyService } from '../currency/currency.service';
+import { ShippingMode } from '../common/company-info';
+
+describe('LandedCostService', () => {
+  let service: LandedCostService;
+  let outputDir: string;
+
+  // 10 000 EUR de marchandises, 1 t par bateau depuis la Chine (tarif 0,6 EUR/kg, minimum 200)
+  const offer = { goodsValue: 10000, weightKg: 1000, shippingMode: 'bateau', countryOfOrigin: 'Chine' };
+
+  beforeEach(async () => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'landed-cost-'));
+    const config: Record<string, any> = { 'app.outputDir': outputDir };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LandedCostService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) },
+        },
+        {
+          provide: CurrencyService,
+          useValue: {
+            getBaseCurrency: jest.fn().mockReturnValue('EUR'),
+            normalize: jest.fn((amount: number, currency: string) => currency === 'EUR' ? { amount } : null),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LandedCostService>(LandedCostService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  describe('incoterms', () => {
+    it('should add pre-carriage, freight, insurance and duties to an EXW price', () => {
+      expect(service.estimate({ ...offer, incoterm: 'exw', hsCode: '8481.80' })).toMatchObject({
+        currency: 'EUR',
+        incoterm: 'EXW',
+        incotermAssumed: false,
+        mode: ShippingMode.SEA,
+        chargeableWeightKg: 1000,
+        preCarriage: 200,       // 2 % enlèvement + export
+        freight: 600,
+        insurance: 54,          // 0,5 % de 10 800 (CFR)
+        cifValue: 10854,
+        dutyPercent: 10,        // 8481 prioritaire sur 84
+        duties: 1085.4,
+        landedCost: 11939.4,
+        complete: true,
+      });
+    });
+
+    it('should add freight, insurance and duties to a FOB price', () => {
+      expect(service.estimate({ ...offer, incoterm: 'FOB', hsCode: '8413.70' })).toMatchObject({
+        preCarriage: 0,
+        freight: 600,
+        insurance: 53,
+        cifValue: 10653,
+        dutyPercent: 5,
+        duties: 532.65,
+        landedCost: 11185.65,
+        complete: true,
+      });
+    });
+
+    it('should only add duties to a CIF price, without needing the weight', () => {
+      expect(service.estimate({ goodsValue: 10000, incoterm: 'CIF' })).toMatchObject({
+        preCarriage: 0,
+        freight: 0,
+        insurance: 0,
+        cifValue: 10000,
+        dutyPercent: 10,        // code HS inconnu: taux par défaut
+        duties: 1000,
+        landedCost: 11000,
+        complete: true,
+      });
+    });
+
+    it('should only add duties to a DAP price', () => {
+      expect(service.estimate({ goodsValue: 10000, incoterm: 'DAP', hsCode: '8544' })).toMatchObject({
+        freight: 0,
+        insurance: 0,
+        duties: 1000,
+        landedCost: 11000,
+        complete: true,
+      });
+    });
+
+    it('should keep a DDP price as the landed cost', () => {
+      expect(service.estimate({ goodsValue: 10000, incoterm: 'DDP', hsCode: '8481' })).toMatchObject({
+        preCarriage: 0,
+        freight: 0,
+        insurance: 0,
+        duties: 0,
+        landedCost: 10000,
+        complete: true,
+      });
+    });
+  });
+
+  describe('incomplete estimates', () => {
+    it('should assume EXW and stop before the freight when the weight is unknown', () => {
+      const estimate = service.estimate({ goodsValue: 10000 });
+
+      expect(estimate).toMatchObject({ incoterm: 'EXW', incotermAssumed: true, preCarriage: 200, complete: false });
+      expect(estimate.freight).toBeUndefined();
+      expect(estimate.landedCost).toBeUndefined();
+      expect(estimate.notes).toEqual(['Incoterm non précisé, EXW retenu', 'Poids inconnu, fret non estimable']);
+    });
+
+    it('should report a missing freight tariff or exchange rate', () => {
+      service.updateConfig({
+        freightTariffs: [{ mode: ShippingMode.SEA, origin: '*', ratePerKg: 1, minimumCharge: 0 }],
+      });
+      const byAir = service.estimate({ ...offer, incoterm: 'FCA', shippingMode: 'avion' });
+      expect(byAir.complete).toBe(false);
+      expect(byAir.notes).toContain('Aucun tarif de fret pour Avion depuis CN');
+
+      service.updateConfig({ tariffCurrency: 'USD' });
+      const bySea = service.estimate({ ...offer, incoterm: 'FOB' });
+      expect(bySea.complete).toBe(false);
+      expect(bySea.notes).toContain('Aucun taux USD/EUR pour convertir le fret');
+    });
+
+    it('should flag an unknown incoterm and fall back to the generic origin tariff', () => {
+      const estimate = service.estimate({ ...offer, incoterm: 'FRANCO', countryOfOrigin: 'Allemagne' });
+
+      expect(estimate).toMatchObject({ incoterm: 'EXW', incotermAssumed: true, freight: 800, complete: true });
+      expect(estimate.notes).toEqual(['Incoterm FRANCO inconnu, EXW retenu']);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject malformed updates without changing or saving the tariffs', () => {
+      const configFile = path.join(outputDir, 'landed-cost-config.json');
+
+      for (const update of [
+        { freightTariffs: { mode: 'Bateau' } },
+        { dutyRates: 'aucun' },
+        { dutyRates: [{ hsPrefix: '84', ratePercent: '5' }] },
+        { freightTariffs: [{ mode: 'Bateau', origin: '*', ratePerKg: -1, minimumCharge: 0 }] },
+        { insurancePercent: '0.5' },
+        { tariffCurrency: 12 },
+        { freightTarifs: [] },
+      ]) {
+        expect(() => service.updateConfig(update as any)).toThrow(BadRequestException);
+      }
+
+      expect(fs.existsSync(configFile)).toBe(false);
+      expect(service.estimate({ ...offer, incoterm: 'FOB' }).freight).toBe(600);
+    });
+
+    it('should save a valid partial update', () => {
+      service.updateConfig({ insurancePercent: 1, dutyRates: [{ hsPrefix: '8413', ratePercent: 7.5 }] });
+
+      const saved = JSON.parse(fs.readFileSync(path.join(outputDir, 'landed-cost-config.json'), 'utf-8'));
+      expect(saved).toMatchObject({ insurancePercent: 1, dutyRates: [{ hsPrefix: '8413', ratePercent: 7.5 }], exwHandlingPercent: 2 });
+      expect(service.estimate({ goodsValue: 1000, incoterm: 'CFR', hsCode: '8413' })).toMatchObject({
+        insurance: 10,
+        dutyPercent: 7.5,
+      });
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CurrencyService } from '../currency/currency.service';
+import { ShippingMode, recommendShippingMode } from '../common/company-info';
+import { COUNTRY_CODES } from './logistics.interface';
+
+/**
+ * Tarif de fret vers Abidjan pour un mode et une origine
+ * origin: code pays ISO (ex: 'CN') ou '*' pour toutes origines
+ */
+export interface FreightTariff {
+  mode: ShippingMode | string;
+  origin: string;
+  ratePerKg: number;
+  minimumCharge: number;
+}
+
+/**
+ * Taux de droits de douane par préfixe de code HS
+ */
+export interface DutyRate {
+  hsPrefix: string;
+  ratePercent: number;
+  label?: string;
+}
+
+/**
+ * Paramètres du calcul de coût rendu
+ */
+export interface LandedCostConfig {
+  tariffCurrency: string;        // Devise des tarifs de fret
+  freightTariffs: FreightTariff[];
+  insurancePercent: number;      // % de la valeur CFR
+  exwHandlingPercent: number;    // Enlèvement + dédouanement export (EXW uniquement)
+  dutyRates: DutyRate[];
+  defaultDutyPercent: number;    // Si code HS inconnu
+}
+
+/**
+ * Données d'une offre nécessaires à l'estimation
+ */
+export interface LandedCostInput {
+  goodsValue: number;            // En devise de base
+  incoterm?: string;
+  weightKg?: number;
+  volumetricWeightKg?: number;
+  shippingMode?: string;
+  countryOfOrigin?: string;
+  hsCode?: string;
+  at?: Date;                     // Date de référence pour les taux de change
+}
+
+/**
+ * Estimation du coût rendu CIF Abidjan (+ droits)
+ */
+export interface LandedCostEstimate {
+  currency: string;
+  incoterm: string;
+  incotermAssumed: boolean;
+  mode?: ShippingMode | string;
+  chargeableWeightKg?: number;
+  goodsValue: number;
+  preCarriage: number;
+  freight?: number;
+  insurance?: number;
+  cifValue?: number;
+  dutyPercent: number;
+  duties?: number;
+  landedCost?: number;
+  complete: boolean;
+  notes: string[];
+}
+
+/**
+ * Frais déjà inclus dans le prix selon l'Incoterm (destination Abidjan)
+ */
+const INCOTERM_COVERAGE: Record<string, { preCarriage: boolean; freight: boolean; insurance: boolean; duties: boolean }> = {
+  EXW: { preCarriage: false, freight: false, insurance: false, duties: false },
+  FCA: { preCarriage: true, freight: false, insurance: false, duties: false },
+  FAS: { preCarriage: true, freight: false, insurance: false, duties: false },
+  FOB: { preCarriage: true, freight: false, insurance: false, duties: false },
+  CFR: { preCarriage: true, freight: true, insurance: false, duties: false },
+  CPT: { preCarriage: true, freight: true, insurance: false, duties: false },
+  CIF: { preCarriage: true, freight: true, insurance: true, duties: false },
+  CIP: { preCarriage: true, freight: true, insurance: true, duties: false },
+  DAP: { preCarriage: true, freight: true, insurance: true, duties: false },
+  DPU: { preCarriage: true, freight: true, insurance: true, duties: false },
+  DDP: { preCarriage: true, freight: true, insurance: true, duties: true },
+};
+
+const NUMBER_FIELDS = ['insurancePercent', 'exwHandlingPercent', 'defaultDutyPercent'] as const;
+
+const DEFAULT_CONFIG: LandedCostConfig = {
+  tariffCurrency: 'EUR',
+  freightTariffs: [
+    { mode: ShippingMode.SEA, origin: '*', ratePerKg: 0.8, minimumCharge: 150 },
+    { mode: ShippingMode.SEA, origin: 'CN', ratePerKg: 0.6, minimumCharge: 200 },
+    { mode: ShippingMode.AIR, origin: '*', ratePerKg: 4.5, minimumCharge: 100 },
+    { mode: ShippingMode.AIR, origin: 'CN', ratePerKg: 5.5, minimumCharge: 120 },
+    { mode: ShippingMode.EXPRESS, origin: '*', ratePerKg: 9, minimumCharge: 60 },
+    { mode: ShippingMode.ROAD, origin: '*', ratePerKg: 0.5, minimumCharge: 100 },
+  ],
+  insurancePercent: 0.5,
+  exwHandlingPercent: 2,
+  dutyRates: [
+    { hsPrefix: '8481', ratePercent: 10, label: 'Robinetterie' },
+    { hsPrefix: '84', ratePercent: 5, label: 'Machines et pièces' },
+    { hsPrefix: '85', ratePercent: 10, label: 'Matériel électrique' },
+  ],
+  defaultDutyPercent: 10,
+};
+
+@Injectable()
+export class LandedCostService {
+  private readonly logger = new Logger(LandedCostService.name);
+  private readonly configFilePath: string;
+  private config: LandedCostConfig = { ...DEFAULT_CONFIG };
+
+  constructor(
+    private configService: ConfigService,
+    private currencyService: CurrencyService,
+  ) {
+    const dataDir = this.configService.get<string>('app.outputDir', './output');
+    this.configFilePath = path.join(dataDir, 'landed-cost-config.json');
+
+    this.loadConfig();
+  }
+
+  /**
+   * Charger les tarifs depuis le fichier de configuration
+   */
+  private loadConfig(): void {
+    try {
+      if (fs.existsSync(this.configFilePath)) {
+        const data = JSON.parse(fs.readFileSync(this.configFilePath, 'utf-8'));
+        this.config = { ...DEFAULT_CONFIG, ...this.validateConfig(data) };
+      }
+      this.logger.log(`${this.config.freightTariffs.length} tarif(s) de fret, ${this.config.dutyRates.length} taux de droits`);
+    } catch (error) {
+      this.logger.warn(`Erreur chargement config coût rendu: ${error.message}`);
+    }
+  }
+
+  getConfig(): LandedCostConfig {
+    return this.config;
+  }
+
+  /**
+   * Mettre à jour les tarifs (fusion avec la configuration existante, champs validés)
+   */
+  updateConfig(update: Partial<LandedCostConfig>): LandedCostConfig {
+    this.config = { ...this.config, ...this.validateConfig(update) };
+
+    try {
+      const dir = path.dirname(this.configFilePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(this.configFilePath, JSON.stringify(this.config, null, 2));
+    } catch (error) {
+      this.logger.error(`Erreur sauvegarde config coût rendu: ${error.message}`);
+    }
+
+    return this.config;
+  }
+
+  /**
+   * Vérifier une configuration partielle: champs connus, tableaux de tarifs et nombres positifs
+   */
+  private validateConfig(update: any): Partial<LandedCostConfig> {
+    if (!update || typeof update !== 'object' || Array.isArray(update)) {
+      throw new BadRequestException('Configuration invalide: objet attendu');
+    }
+
+    const known = ['tariffCurrency', 'freightTariffs', 'dutyRates', ...NUMBER_FIELDS];
+    const unknown = Object.keys(update).filter(key => !known.includes(key));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Champ(s) inconnu(s): ${unknown.join(', ')}`);
+    }
+
+    const isAmount = (value: any) => typeof value === 'number' && isFinite(value) && value >= 0;
+    const isText = (value: any) => typeof value === 'string' && value.trim().length > 0;
+
+    if (update.tariffCurrency !== undefined && !(isText(update.tariffCurrency) && /^[A-Za-z]{3}$/.test(update.tariffCurrency))) {
+      throw new BadRequestException('tariffCurrency: code devise à 3 lettres attendu');
+    }
+    for (const field of NUMBER_FIELDS) {
+      if (update[field] !== undefined && !isAmount(update[field])) {
+        throw new BadRequestException(`${field}: nombre positif attendu`);
+      }
+    }
+
+    if (update.freightTariffs !== undefined) {
+      if (!Array.isArray(update.freightTariffs)) {
+        throw new BadRequestException('freightTariffs: tableau attendu');
+      }
+      update.freightTariffs.forEach((tariff: any, i: number) => {
+        if (!tariff || !isText(tariff.mode) || !isText(tariff.origin) || !isAmount(tariff.ratePerKg) || !isAmount(tariff.minimumCharge)) {
+          throw new BadRequestException(`freightTariffs[${i}]: mode, origin, ratePerKg et minimumCharge (nombres positifs) requis`);
+        }
+      });
+    }
+
+    if (update.dutyRates !== undefined) {
+      if (!Array.isArray(update.dutyRates)) {
+        throw new BadRequestException('dutyRates: tableau attendu');
+      }
+      update.dutyRates.forEach((rate: any, i: number) => {
+        if (!rate || !isText(rate.hsPrefix) || !/\d/.test(rate.hsPrefix) || !isAmount(rate.ratePercent)
+          || (rate.label !== undefined && typeof rate.label !== 'string')) {
+          throw new BadRequestException(`dutyRates[${i}]: hsPrefix (chiffres) et ratePercent (nombre positif) requis`);
+        }
+      });
+    }
+
+    return update;
+  }
+
+  /**
+   * Estimer le coût rendu CIF Abidjan d'une offre, droits de douane inclus.
+   * Tous les montants sont exprimés dans la devise de base.
+   */
+  estimate(input: LandedCostInput): LandedCostEstimate {
+    const currency = this.currencyService.getBaseCurrency();
+    const notes: string[] = [];
+
+    let incoterm = (input.incoterm || '').toUpperCase();
+    const incotermAssumed = !INCOTERM_COVERAGE[incoterm];
+    if (incotermAssumed) {
+      notes.push(input.incoterm ? `Incoterm ${input.incoterm} inconnu, EXW retenu` : 'Incoterm non précisé, EXW retenu');
+      incoterm = 'EXW';
+    }
+    const covered = INCOTERM_COVERAGE[incoterm];
+
+    const dutyPercent = this.getDutyPercent(input.hsCode);
+    const estimate: LandedCostEstimate = {
+      currency,
+      incoterm,
+      incotermAssumed,
+      goodsValue: input.goodsValue,
+      preCarriage: covered.preCarriage ? 0 : this.round(input.goodsValue * this.config.exwHandlingPercent / 100),
+      dutyPercent,
+      complete: false,
+      notes,
+    };
+
+    // Fret principal
+    if (covered.freight) {
+      estimate.freight = 0;
+    } else {
+      const freight = this.estimateFreight(input, estimate);
+      if (freight === undefined) return estimate;
+      estimate.freight = freight;
+    }
+
+    // Assurance sur valeur CFR
+    const cfrValue = estimate.goodsValue + estimate.preCarriage + estimate.freight;
+    estimate.insurance = covered.insurance ? 0 : this.round(cfrValue * this.config.insurancePercent / 100);
+    estimate.cifValue = this.round(cfrValue + estimate.insurance);
+
+    // Droits et taxes de douane
+    estimate.duties = covered.duties ? 0 : this.round(estimate.cifValue * dutyPercent / 100);
+    estimate.landedCost = this.round(estimate.cifValue + estimate.duties);
+    estimate.complete = true;
+
+    return estimate;
+  }
+
+  /**
+   * Fret selon le mode, l'origine et le poids taxable
+   */
+  private estimateFreight(input: LandedCostInput, estimate: LandedCostEstimate): number | undefined {
+    const weight = Math.max(input.weightKg || 0, input.volumetricWeightKg || 0);
+    if (!weight) {
+      estimate.notes.push('Poids inconnu, fret non estimable');
+      return undefined;
+    }
+    estimate.chargeableWeightKg = weight;
+
+    const mode = this.resolveMode(input.shippingMode) || recommendShippingMode(input.weightKg || 0, input.volumetricWeightKg).recommended;
+    estimate.mode = mode;
+
+    const origin = this.resolveCountryCode(input.countryOfOrigin);
+    const tariff = this.config.freightTariffs.find(t => t.mode === mode && origin && t.origin === origin)
+      || this.config.freightTariffs.find(t => t.mode === mode && t.origin === '*');
+    if (!tariff) {
+      estimate.notes.push(`Aucun tarif de fret pour ${mode}${origin ? ` depuis ${origin}` : ''}`);
+      return undefined;
+    }
+
+    const amount = Math.max(weight * tariff.ratePerKg, tariff.minimumCharge);
+    const conversion = this.currencyService.normalize(amount, this.config.tariffCurrency, input.at);
+    if (!conversion) {
+      estimate.notes.push(`Aucun taux ${this.config.tariffCurrency}/${estimate.currency} pour convertir le fret`);
+      return undefined;
+    }
+
+    return conversion.amount;
+  }
+
+  private resolveMode(mode?: string): ShippingMode | undefined {
+    if (!mode) return undefined;
+    const value = mode.toLowerCase();
+    return (Object.values(ShippingMode) as string[]).find(m => m.toLowerCase() === value) as ShippingMode | undefined;
+  }
+
+  private resolveCountryCode(country?: string): string | undefined {
+    if (!country) return undefined;
+    const value = country.trim();
+    if (/^[A-Z]{2}$/.test(value)) return value;
+    return COUNTRY_CODES[value.toLowerCase()];
+  }
+
+  private getDutyPercent(hsCode?: string): number {
+    const code = (hsCode || '').replace(/\D/g, '');
+    if (!code) return this.config.defaultDutyPercent;
+
+    // Préfixe le plus long en priorité
+    const match = this.config.dutyRates
+      .filter(d => code.startsWith(d.hsPrefix.replace(/\D/g, '')))
+      .sort((a, b) => b.hsPrefix.length - a.hsPrefix.length)[0];
+
+    return match ? match.ratePercent : this.config.defaultDutyPercent;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
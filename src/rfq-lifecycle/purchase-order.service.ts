@@ -0,0 +1,323 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import * as path from 'path';
+import { COMPANY_INFO } from '../common/company-info';
+import { SimplePdfDocument, PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT } from '../common/simple-pdf';
+
+/**
+ * Ligne d'un bon de commande (issue de l'offre du fournisseur retenu)
+ */
+export interface PurchaseOrderLine {
+  lineNumber: number;          // N° de ligne du comparatif
+  description: string;
+  partNumber?: string;
+  quantity: number;
+  unit?: string;
+  unitPrice?: number;
+  totalPrice?: number;
+  deliveryTime?: string;
+}
+
+/**
+ * Bon de commande fournisseur
+ */
+export interface PurchaseOrder {
+  poNumber: string;
+  rfqNumber: string;
+  supplierEmail: string;
+  supplierName?: string;
+  issuedAt: Date;
+  quoteReference?: string;
+  currency?: string;
+  totalAmount?: number;
+  incoterm: string;
+  paymentTerms?: string;
+  validity?: string;
+  deliveryTime?: string;
+  lines: PurchaseOrderLine[];
+  excelPath?: string;
+  pdfPath?: string;
+  draftSaved: boolean;
+  draftError?: string;
+}
+
+export interface PurchaseOrderDocuments {
+  excelPath: string;
+  excelBuffer: Buffer;
+  pdfPath: string;
+  pdfBuffer: Buffer;
+}
+
+// Colonnes du tableau PDF: en-tête, largeur, alignement
+const PDF_COLUMNS = [
+  { header: 'N°', width: 28, align: 'left' as const },
+  { header: 'Référence', width: 85, align: 'left' as const },
+  { header: 'Désignation / Description', width: 192, align: 'left' as const },
+  { header: 'Qté', width: 40, align: 'right' as const },
+  { header: 'Unité', width: 40, align: 'left' as const },
+  { header: 'P.U. HT', width: 65, align: 'right' as const },
+  { header: 'Total HT', width: 65, align: 'right' as const },
+];
+const PDF_MARGIN = 40;
+const PDF_ROW_HEIGHT = 16;
+
+/**
+ * PurchaseOrderService
+ *
+ * Génère les bons de commande fournisseurs (Excel et PDF) dans
+ * <outputDir>/bons-de-commande
+ */
+@Injectable()
+export class PurchaseOrderService {
+  private readonly logger = new Logger(PurchaseOrderService.name);
+  private readonly purchaseOrdersDir: string;
+
+  constructor(private configService: ConfigService) {
+    const outputDir = this.configService.get<string>('app.outputDir', './output');
+    this.purchaseOrdersDir = path.join(outputDir, 'bons-de-commande');
+  }
+
+  /**
+   * Générer et enregistrer l'Excel et le PDF d'un bon de commande
+   */
+  async generateDocuments(po: PurchaseOrder): Promise<PurchaseOrderDocuments> {
+    if (!fs.existsSync(this.purchaseOrdersDir)) {
+      fs.mkdirSync(this.purchaseOrdersDir, { recursive: true });
+    }
+
+    const baseName = `bon-de-commande_${po.poNumber.replace(/[^a-zA-Z0-9-_]/g, '_')}`;
+    const excelPath = path.join(this.purchaseOrdersDir, `${baseName}.xlsx`);
+    const pdfPath = path.join(this.purchaseOrdersDir, `${baseName}.pdf`);
+
+    const excelBuffer = await this.buildExcel(po);
+    const pdfBuffer = this.buildPdf(po);
+    fs.writeFileSync(excelPath, excelBuffer);
+    fs.writeFileSync(pdfPath, pdfBuffer);
+
+    this.logger.log(`Bon de commande généré: ${po.poNumber} (${po.supplierEmail})`);
+    return { excelPath, excelBuffer, pdfPath, pdfBuffer };
+  }
+
+  async buildExcel(po: PurchaseOrder): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Price Request Generator';
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet('Bon de Commande', {
+      pageSetup: {
+        paperSize: 9, // A4
+        orientation: 'portrait',
+        fitToPage: true,
+      },
+    });
+
+    sheet.columns = [
+      { key: 'numero', width: 6 },
+      { key: 'partNumber', width: 18 },
+      { key: 'description', width: 42 },
+      { key: 'quantity', width: 8 },
+      { key: 'unit', width: 8 },
+      { key: 'unitPrice', width: 14 },
+      { key: 'totalPrice', width: 16 },
+    ];
+
+    // En-tête société
+    const addr = COMPANY_INFO.address;
+    const contact = COMPANY_INFO.contact;
+    sheet.getCell('A1').value = COMPANY_INFO.name;
+    sheet.getCell('A1').font = { bold: true, size: 16, color: { argb: 'FF1A5276' } };
+    sheet.getCell('A2').value = addr.line1;
+    sheet.getCell('A3').value = addr.line2;
+    sheet.getCell('A4').value = `${addr.city}, ${addr.country}`;
+    sheet.getCell('F1').value = `${contact.name} - ${contact.title}`;
+    sheet.getCell('F2').value = `Tél: ${contact.phone}`;
+    sheet.getCell('F3').value = `Mobile: ${contact.mobile}`;
+    sheet.getCell('F4').value = contact.primaryEmail;
+
+    sheet.mergeCells('A6:G6');
+    const titleCell = sheet.getCell('A6');
+    titleCell.value = 'BON DE COMMANDE / PURCHASE ORDER';
+    titleCell.font = { bold: true, size: 16, color: { argb: 'FF2F5496' } };
+    titleCell.alignment = { horizontal: 'center', vertical: 'middle' };
+    sheet.getRow(6).height = 30;
+
+    // Références et fournisseur
+    const infoRows: [string, string | undefined, string, string | undefined][] = [
+      ['N° BC / PO No:', po.poNumber, 'Fournisseur / Supplier:', po.supplierName || po.supplierEmail],
+      ['Date:', this.formatDate(po.issuedAt), 'Email:', po.supplierEmail],
+      ['Réf. demande / RFQ Ref:', po.rfqNumber, 'Réf. offre / Quote Ref:', po.quoteReference],
+      ['Incoterm:', po.incoterm, 'Devise / Currency:', po.currency],
+      ['Paiement / Payment terms:', po.paymentTerms, 'Validité offre / Validity:', po.validity],
+      ['Délai / Delivery time:', po.deliveryTime, '', undefined],
+    ];
+    infoRows.forEach(([label1, value1, label2, value2], i) => {
+      const row = sheet.getRow(8 + i);
+      row.getCell(1).value = label1;
+      row.getCell(1).font = { bold: true };
+      row.getCell(3).value = value1 || '-';
+      row.getCell(5).value = label2;
+      row.getCell(5).font = { bold: true };
+      row.getCell(7).value = label2 ? value2 || '-' : '';
+    });
+
+    // Tableau des articles
+    const headerRowIndex = 15;
+    const headerRow = sheet.getRow(headerRowIndex);
+    headerRow.values = ['N°', 'Référence', 'Désignation', 'Qté', 'Unité', 'P.U. HT', 'Total HT'];
+    headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    headerRow.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF2F5496' } };
+    headerRow.alignment = { horizontal: 'center', vertical: 'middle' };
+    headerRow.height = 22;
+
+    const priceFormat = `#,##0.00${po.currency ? ` "${po.currency}"` : ''}`;
+    let rowIndex = headerRowIndex + 1;
+    po.lines.forEach((line, index) => {
+      const row = sheet.getRow(rowIndex);
+      row.values = [
+        index + 1,
+        line.partNumber || '',
+        line.description,
+        line.quantity,
+        line.unit || 'pcs',
+        line.unitPrice ?? '',
+        line.unitPrice !== undefined ? { formula: `D${rowIndex}*F${rowIndex}` } as any : line.totalPrice ?? '',
+      ];
+      row.eachCell((cell, colNumber) => {
+        cell.border = {
+          top: { style: 'thin' },
+          bottom: { style: 'thin' },
+          left: { style: 'thin' },
+          right: { style: 'thin' },
+        };
+        if (colNumber === 6 || colNumber === 7) cell.numFmt = priceFormat;
+      });
+      row.alignment = { vertical: 'middle', wrapText: true };
+      rowIndex++;
+    });
+
+    const totalRow = sheet.getRow(rowIndex + 1);
+    totalRow.getCell(6).value = 'TOTAL HT:';
+    totalRow.getCell(7).value = { formula: `SUM(G${headerRowIndex + 1}:G${rowIndex - 1})` } as any;
+    totalRow.getCell(7).numFmt = priceFormat;
+    totalRow.font = { bold: true };
+
+    sheet.getCell(`A${rowIndex + 3}`).value = 'Merci de confirmer la réception de ce bon de commande et le délai de livraison.';
+    sheet.getCell(`A${rowIndex + 4}`).value = 'Please acknowledge receipt of this purchase order and confirm the delivery time.';
+    sheet.getCell(`A${rowIndex + 4}`).font = { italic: true };
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer as ArrayBuffer);
+  }
+
+  buildPdf(po: PurchaseOrder): Buffer {
+    const pdf = new SimplePdfDocument();
+    const right = PDF_PAGE_WIDTH - PDF_MARGIN;
+    const addr = COMPANY_INFO.address;
+    const contact = COMPANY_INFO.contact;
+
+    // En-tête société
+    pdf.text(PDF_MARGIN, 55, COMPANY_INFO.name, { size: 16, bold: true });
+    pdf.text(PDF_MARGIN, 70, addr.line1, { size: 9 });
+    pdf.text(PDF_MARGIN, 81, addr.line2, { size: 9 });
+    pdf.text(PDF_MARGIN, 92, `${addr.city}, ${addr.country}`, { size: 9 });
+    pdf.text(right, 55, contact.name, { size: 9, bold: true, align: 'right' });
+    pdf.text(right, 66, contact.title, { size: 9, align: 'right' });
+    pdf.text(right, 77, `Tél: ${contact.phone}`, { size: 9, align: 'right' });
+    pdf.text(right, 88, contact.primaryEmail, { size: 9, align: 'right' });
+    pdf.line(PDF_MARGIN, 102, right, 102, 1);
+
+    pdf.text(PDF_PAGE_WIDTH / 2, 130, 'BON DE COMMANDE / PURCHASE ORDER', { size: 14, bold: true, align: 'center' });
+
+    // Références et conditions
+    const leftInfo: [string, string | undefined][] = [
+      ['N° BC / PO No', po.poNumber],
+      ['Date', this.formatDate(po.issuedAt)],
+      ['Réf. demande / RFQ Ref', po.rfqNumber],
+      ['Réf. offre / Quote Ref', po.quoteReference],
+    ];
+    const rightInfo: [string, string | undefined][] = [
+      ['Fournisseur / Supplier', po.supplierName || po.supplierEmail],
+      ['Email', po.supplierEmail],
+      ['Incoterm', po.incoterm],
+      ['Paiement / Payment', po.paymentTerms],
+      ['Validité / Validity', po.validity],
+      ['Délai / Delivery', po.deliveryTime],
+    ];
+    let y = 160;
+    leftInfo.forEach(([label, value], i) => {
+      pdf.text(PDF_MARGIN, y + i * 14, `${label}:`, { size: 9, bold: true });
+      pdf.text(PDF_MARGIN + 125, y + i * 14, pdf.fit(value || '-', 135, 9), { size: 9 });
+    });
+    rightInfo.forEach(([label, value], i) => {
+      pdf.text(310, y + i * 14, `${label}:`, { size: 9, bold: true });
+      pdf.text(420, y + i * 14, pdf.fit(value || '-', right - 420, 9), { size: 9 });
+    });
+
+    // Tableau des articles
+    y += rightInfo.length * 14 + 16;
+    y = this.drawPdfTableHeader(pdf, y);
+
+    po.lines.forEach((line, index) => {
+      if (y > PDF_PAGE_HEIGHT - 90) {
+        pdf.addPage();
+        y = this.drawPdfTableHeader(pdf, 50);
+      }
+
+      const total = line.totalPrice ?? (line.unitPrice !== undefined ? line.unitPrice * line.quantity : undefined);
+      const values = [
+        String(index + 1),
+        line.partNumber || '',
+        line.description,
+        String(line.quantity),
+        line.unit || 'pcs',
+        this.formatAmount(line.unitPrice),
+        this.formatAmount(total),
+      ];
+      this.drawPdfRow(pdf, y, values, false);
+      y += PDF_ROW_HEIGHT;
+      pdf.line(PDF_MARGIN, y - 4, right, y - 4, 0.3);
+    });
+
+    y += 8;
+    pdf.text(right - 75, y, `Total HT${po.currency ? ` (${po.currency})` : ''}:`, { size: 10, bold: true, align: 'right' });
+    pdf.text(right, y, this.formatAmount(po.totalAmount), { size: 10, bold: true, align: 'right' });
+
+    if (y > PDF_PAGE_HEIGHT - 80) {
+      pdf.addPage();
+      y = 40;
+    }
+    y += 30;
+    pdf.text(PDF_MARGIN, y, 'Merci de confirmer la réception de ce bon de commande et le délai de livraison.', { size: 9 });
+    pdf.text(PDF_MARGIN, y + 12, 'Please acknowledge receipt of this purchase order and confirm the delivery time.', { size: 9 });
+    pdf.text(PDF_MARGIN, y + 36, `${contact.name} - ${contact.title}, ${COMPANY_INFO.name}`, { size: 9, bold: true });
+
+    return pdf.toBuffer();
+  }
+
+  private drawPdfTableHeader(pdf: SimplePdfDocument, y: number): number {
+    pdf.fillRect(PDF_MARGIN, y - 11, PDF_PAGE_WIDTH - 2 * PDF_MARGIN, PDF_ROW_HEIGHT);
+    this.drawPdfRow(pdf, y, PDF_COLUMNS.map(c => c.header), true);
+    return y + PDF_ROW_HEIGHT + 2;
+  }
+
+  private drawPdfRow(pdf: SimplePdfDocument, y: number, values: string[], bold: boolean): void {
+    let x = PDF_MARGIN;
+    PDF_COLUMNS.forEach((column, i) => {
+      const text = pdf.fit(values[i] || '', column.width - 6, 8);
+      const textX = column.align === 'right' ? x + column.width - 3 : x + 3;
+      pdf.text(textX, y, text, { size: 8, bold, align: column.align });
+      x += column.width;
+    });
+  }
+
+  private formatAmount(value: number | undefined): string {
+    if (value === undefined || value === null) return '-';
+    return value.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+
+  private formatDate(value: Date | string): string {
+    return new Date(value).toLocaleDateString('fr-FR');
+  }
+}
@@ -0,0 +1,262 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as ExcelJS from 'exceljs';
+import * as XLSX from 'xlsx';
+import * as initSqlJs from 'sql.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { QuoteComparisonService } from './quote-comparison.service';
+import { LandedCostService } from './landed-cost.service';
+import { QuoteLineMatcherService } from './quote-line-matcher.service';
+import { ExcelService } from '../excel/excel.service';
+import { DatabaseService } from '../database/database.service';
+import { CurrencyService } from '../currency/currency.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { PriceRequest } from '../common/interfaces';
+import { SupplierQuote } from './rfq-lifecycle.service';
+
+describe('QuoteComparisonService', () => {
+  let service: QuoteComparisonService;
+  let excelService: ExcelService;
+  let outputDir: string;
+
+  const priceRequest: PriceRequest = {
+    requestNumber: 'DDP-20260114-001',
+    date: new Date(),
+    items: [
+      { description: 'Filtre à huile', supplierCode: '1R-0739', brand: 'CAT', quantity: 4, unit: 'pcs' },
+      { description: 'Roulement', supplierCode: '6205-2RS', brand: 'SKF', quantity: 10 },
+      { description: 'Joint torique', quantity: 20 },
+    ],
+  } as PriceRequest;
+
+  /** Le fournisseur ouvre le modèle, le complète et le renvoie */
+  const fillTemplate = async (fill: (sheet: ExcelJS.Worksheet) => void): Promise<Buffer> => {
+    const generated = await excelService.generatePriceRequestExcel(priceRequest);
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(generated.excelBuffer as any);
+    fill(workbook.getWorksheet('Demande de Prix')!);
+    return Buffer.from(await workbook.xlsx.writeBuffer() as ArrayBuffer);
+  };
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-'));
+    const config: Record<string, any> = { 'app.outputDir': outputDir };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuoteComparisonService,
+        QuoteLineMatcherService,
+        ExcelService,
+        CurrencyService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+          },
+        },
+        {
+          provide: DatabaseService,
+          useValue: { db: new SQL.Database(), saveToFile: jest.fn() },
+        },
+        {
+          provide: LandedCostService,
+          useValue: { estimate: jest.fn().mockReturnValue({ complete: false, notes: [] }) },
+        },
+        { provide: WebhookService, useValue: { emitComparisonCreated: jest.fn(), emitComparisonUpdated: jest.fn() } },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<QuoteComparisonService>(QuoteComparisonService);
+    excelService = module.get<ExcelService>(ExcelService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  describe('offres sur notre modèle Excel', () => {
+    it('should map prices, lead times and remarks back to the requested lines', async () => {
+      const buffer = await fillTemplate(sheet => {
+        sheet.getCell('H6').value = 'fcfa';
+        sheet.getCell('G9').value = 12.5;
+        sheet.getCell('J9').value = '2 semaines';
+        sheet.getCell('K9').value = 'Origine UE';
+        sheet.getCell('G10').value = 8;
+        sheet.getCell('J10').value = '2 semaines';
+      });
+
+      const quote = await service.parseExcelQuote(buffer, 'sales@supplier.com', 'DDP-20260114-001');
+
+      expect(quote.needsManualReview).toBe(false);
+      expect(quote.items).toEqual([
+        expect.objectContaining({
+          lineId: 'L001', description: 'Filtre à huile', partNumber: '1R-0739', quantity: 4,
+          unitPrice: 12.5, totalPrice: 50, deliveryTime: '2 semaines', notes: 'Origine UE',
+        }),
+        expect.objectContaining({ lineId: 'L002', unitPrice: 8, totalPrice: 80 }),
+      ]);
+      expect(quote.items.every(i => !i.reviewFlag)).toBe(true);
+      expect(quote).toMatchObject({ currency: 'XOF', totalAmount: 130, deliveryTime: '2 semaines' });
+
+      const comparison = service.compareQuotes('DDP-20260114-001', [quote]);
+      expect(comparison.items.map(i => [i.lineId, i.supplierPrices[0].unitPrice])).toEqual([['L001', 12.5], ['L002', 8]]);
+      expect(comparison.items[0].supplierPrices[0].notes).toBe('Origine UE');
+    });
+
+    it('should take the currency from the remarks, or leave it unset for review', async () => {
+      const inRemarks = await service.parseExcelQuote(await fillTemplate(sheet => {
+        sheet.getCell('G9').value = 12.5;
+        sheet.getCell('K9').value = 'Prix en USD';
+      }), 'sales@supplier.com', 'DDP-20260114-001');
+      expect(inRemarks).toMatchObject({ currency: 'USD', needsManualReview: false });
+
+      const declared = await service.parseExcelQuote(await fillTemplate(sheet => {
+        sheet.getCell('H6').value = 'CNY';
+        sheet.getCell('G9').value = 12.5;
+      }), 'sales@supplier.com', 'DDP-20260114-001');
+      expect(declared).toMatchObject({ currency: 'CNY', needsManualReview: false });
+
+      const missing = await service.parseExcelQuote(await fillTemplate(sheet => {
+        sheet.getCell('G9').value = 12.5;
+      }), 'sales@supplier.com', 'DDP-20260114-001');
+      expect(missing.currency).toBeUndefined();
+      expect(missing.needsManualReview).toBe(true);
+    });
+
+    it('should flag reordered, modified and added rows for review', async () => {
+      const buffer = await fillTemplate(sheet => {
+        // Lignes 1 et 2 inversées, ligne 3 renommée, ligne supplémentaire
+        sheet.getRow(9).values = [2, '6205-2RS', 'SKF', 'Roulement', 10, 'pcs', 8];
+        sheet.getRow(10).values = [1, '1R-0739', 'CAT', 'Filtre à huile', 6, 'pcs', 12.5];
+        sheet.getCell('D11').value = 'Joint torique Viton';
+        sheet.getCell('G11').value = 1.2;
+        sheet.getRow(12).values = [4, 'XYZ', '', 'Kit joints', 1, 'pcs', 30];
+      });
+
+      const quote = await service.parseExcelQuote(buffer, 'sales@supplier.com', 'DDP-20260114-001');
+
+      expect(quote.needsManualReview).toBe(true);
+      expect(quote.items.map(i => [i.lineId, i.description, i.unitPrice])).toEqual([
+        ['L001', 'Filtre à huile', 12.5],
+        ['L002', 'Roulement', 8],
+        ['L003', 'Joint torique', 1.2],
+        [undefined, 'Kit joints', 30],
+      ]);
+      expect(quote.items[0].reviewFlag).toContain('déplacée');
+      expect(quote.items[0].reviewFlag).toContain('quantité modifiée (4 → 6)');
+      expect(quote.items[1].reviewFlag).toContain('déplacée');
+      expect(quote.items[2].reviewFlag).toContain('modifiée');
+      expect(quote.items[3].reviewFlag).toContain('ajoutée');
+    });
+
+    it('should fall back to generic parsing when the metadata sheet was tampered with', async () => {
+      const generated = await excelService.generatePriceRequestExcel(priceRequest);
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(generated.excelBuffer as any);
+      workbook.getWorksheet('_rfq_meta')!.getCell('D9').value = 'Autre article';
+      workbook.getWorksheet('Demande de Prix')!.getCell('G9').value = 12.5;
+
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer() as ArrayBuffer);
+      const quote = await service.parseExcelQuote(buffer, 'sales@supplier.com', 'DDP-20260114-001');
+
+      expect(quote.items.some(i => i.lineId)).toBe(false);
+    });
+  });
+
+  describe('rapprochement des lignes', () => {
+    const quote = (supplierEmail: string, items: [string, number][]): SupplierQuote => ({
+      supplierEmail,
+      rfqNumber: 'DDP-X',
+      receivedAt: new Date(),
+      subject: '',
+      currency: 'EUR',
+      items: items.map(([description, totalPrice]) => ({ description, quantity: 4, totalPrice })),
+      attachments: [],
+      needsManualReview: false,
+    });
+
+    it('should align reordered, superseded and alternative offers on the requested lines', () => {
+      const comparison = service.compareQuotes('DDP-X', [
+        quote('alpha@supplier.com', [['Filtre à huile CAT 1R-0739', 40], ['Roulement 6205-2RS', 50]]),
+        quote('beta@supplier.com', [
+          ['Roulement SKF 6205 2RS', 45],
+          ['Filtre à huile 1R-1808 (remplace 1R-0739)', 38],
+          ['Filtre Donaldson P551808, alternative à 1R-0739', 20],
+        ]),
+      ]);
+
+      expect(comparison.items).toHaveLength(2);
+      const [filter, bearing] = comparison.items;
+      expect(filter.supplierPrices.map(p => [p.supplierEmail, p.matchType, p.totalPrice])).toEqual([
+        ['alpha@supplier.com', 'exact', 40],
+        ['beta@supplier.com', 'equivalent', 38],
+      ]);
+      expect(filter.alternatives!.map(p => [p.supplierEmail, p.offeredDescription, p.totalPrice])).toEqual([
+        ['beta@supplier.com', 'Filtre Donaldson P551808, alternative à 1R-0739', 20],
+      ]);
+      expect(filter.lowestPriceSupplier).toBe('beta@supplier.com');
+      expect(filter.lowestPrice).toBe(38);
+      expect(bearing.supplierPrices.map(p => p.totalPrice)).toEqual([50, 45]);
+      expect(service.findQuoteItem(quote('beta@supplier.com', [['Filtre à huile 1R-1808 (remplace 1R-0739)', 38]]), filter)!.totalPrice)
+        .toBe(38);
+    });
+
+    it('should list alternatives under the requested line in the comparison workbook', async () => {
+      const comparison = await service.generateComparisonTable('DDP-X', [
+        quote('beta@supplier.com', [
+          ['Filtre à huile CAT 1R-0739', 38],
+          ['Filtre Donaldson P551808, alternative à 1R-0739', 20],
+        ]),
+      ]);
+
+      const workbook = XLSX.readFile(comparison.filePath);
+      const rows = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets['Comparaison Prix'], { header: 1 });
+      const lines = rows.filter(r => typeof r[0] === 'number');
+      expect(lines).toHaveLength(1);
+      expect(rows.some(r => String(r[1]).includes('↳ Alternative: Filtre Donaldson P551808'))).toBe(true);
+
+      const matching = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets['Rapprochement'], { header: 1 });
+      expect(matching.slice(3).map(r => r[4])).toEqual(['Exacte', 'Alternative']);
+    });
+  });
+
+  describe('offre retenue', () => {
+    const summary = (email: string, fields: Record<string, any>) => ({ email, ...fields }) as any;
+    const landed = (landedCost?: number) => ({ complete: landedCost !== undefined, landedCost, notes: [] });
+
+    it('should prefer the lowest complete landed cost over the lowest price', () => {
+      const best = service.selectBestOffer([
+        summary('cheap@supplier.com', { totalAmount: 900, currency: 'EUR', normalizedTotalAmount: 900, landedCost: landed(1400) }),
+        summary('cif@supplier.com', { totalAmount: 1100, currency: 'EUR', normalizedTotalAmount: 1100, landedCost: landed(1210) }),
+        summary('unknown@supplier.com', { totalAmount: 800, currency: 'EUR', normalizedTotalAmount: 800, landedCost: landed() }),
+      ]);
+
+      expect(best?.email).toBe('cif@supplier.com');
+    });
+
+    it('should fall back to the lowest normalized total when no landed cost is estimable', () => {
+      const best = service.selectBestOffer([
+        summary('usd@supplier.com', { totalAmount: 1000, currency: 'USD', normalizedTotalAmount: 920, landedCost: landed() }),
+        summary('eur@supplier.com', { totalAmount: 950, currency: 'EUR', normalizedTotalAmount: 950, landedCost: landed() }),
+        summary('nototal@supplier.com', { currency: 'EUR' }),
+      ]);
+
+      expect(best?.email).toBe('usd@supplier.com');
+    });
+
+    it('should only compare raw totals within a single currency', () => {
+      expect(service.selectBestOffer([
+        summary('a@supplier.com', { totalAmount: 1000, currency: 'EUR' }),
+        summary('b@supplier.com', { totalAmount: 900, currency: 'EUR' }),
+      ])?.email).toBe('b@supplier.com');
+      expect(service.selectBestOffer([
+        summary('a@supplier.com', { totalAmount: 1000, currency: 'EUR' }),
+        summary('b@supplier.com', { totalAmount: 900, currency: 'GNF' }),
+      ])).toBeUndefined();
+    });
+  });
+});
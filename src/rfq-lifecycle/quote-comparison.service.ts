@@ -9,6 +9,10 @@ import { WebhookService } from '../webhook/webhook.service';
 import { SupplierQuote, QuoteItem } from './rfq-lifecycle.service';
 import { LogisticsInfo, LogisticsSummary, extractLogisticsFromText, ShippingRecommendation } from './logistics.interface';
 import { COMPANY_INFO, ShippingMode, recommendShippingMode } from '../common/company-info';
+import { CurrencyService } from '../currency/currency.service';
+import { LandedCostService, LandedCostEstimate } from './landed-cost.service';
+import { QuoteLineMatcherService, QuoteLineMatch, RequestedItem, RequestLine, LineMatchType } from './quote-line-matcher.service';
+import { RFQ_TEMPLATE_SHEET, RFQ_TEMPLATE_COLUMNS, RfqTemplateLine, templateMetadataFromRows } from '../common/rfq-template';
 
 export interface ComparisonTable {
   rfqNumber: string;
@@ -22,16 +26,21 @@ export interface ComparisonTable {
   shippingRecommendation?: string;
   filePath: string;
   version: number;
+  baseCurrency?: string;
 }
 
 export interface ComparisonItem {
   lineNumber: number;
+  lineId?: string;                 // Ligne de notre modèle Excel (offres renvoyées sur le modèle)
   description: string;
   partNumber?: string;
   requestedQty: number;
   unit?: string;
   supplierPrices: SupplierPrice[];
+  alternatives?: SupplierPrice[];  // Articles de substitution proposés (hors meilleur prix)
   lowestPrice?: number;
+  lowestPriceCurrency?: string;
+  lowestPriceNormalized?: number;  // Meilleur prix converti en devise de base
   lowestPriceSupplier?: string;
 }
 
@@ -44,6 +53,17 @@ export interface SupplierPrice {
   deliveryTime?: string;
   availability?: string;
   notes?: string;
+
+  // Rapprochement avec la ligne demandée
+  matchType?: LineMatchType;
+  matchConfidence?: number;
+  matchReason?: string;
+  offeredDescription?: string;
+  offeredPartNumber?: string;
+
+  // Montants convertis en devise de base
+  normalizedUnitPrice?: number;
+  normalizedTotalPrice?: number;
 }
 
 export interface SupplierSummary {
@@ -56,14 +76,24 @@ export interface SupplierSummary {
   validity?: string;
   itemsQuoted: number;
   responseDate: Date;
+
+  // Conversion en devise de base
+  normalizedTotalAmount?: number;
+  exchangeRate?: number;
+  rateDate?: Date;
+  rateSource?: string;
   
   // Logistique
   totalWeightKg?: number;
+  volumetricWeightKg?: number;
   incoterm?: string;
   shippingMode?: string;
   hsCode?: string;
   countryOfOrigin?: string;
   shippingRecommendation?: ShippingRecommendation;
+
+  // Coût rendu CIF Abidjan estimé (devise de base)
+  landedCost?: LandedCostEstimate;
 }
 
 @Injectable()
@@ -76,6 +106,9 @@ export class QuoteComparisonService {
   constructor(
     private configService: ConfigService,
     private webhookService: WebhookService,
+    private currencyService: CurrencyService,
+    private landedCostService: LandedCostService,
+    private lineMatcher: QuoteLineMatcherService,
   ) {
     this.outputDir = this.configService.get<string>('app.outputDir', './output');
     this.comparisonsDir = path.join(this.outputDir, 'comparatifs');
@@ -180,6 +213,11 @@ export class QuoteComparisonService {
    */
   async parseExcelQuote(buffer: Buffer, supplierEmail: string, rfqNumber: string): Promise<SupplierQuote> {
     const workbook = XLSX.read(buffer, { type: 'buffer' });
+
+    // Notre propre modèle renvoyé complété: correspondance exacte des lignes
+    const templateQuote = this.parseTemplateQuote(workbook, supplierEmail, rfqNumber);
+    if (templateQuote) return templateQuote;
+
     const items: QuoteItem[] = [];
     let totalAmount: number | undefined;
     let currency: string | undefined;
@@ -278,6 +316,161 @@ export class QuoteComparisonService {
     };
   }
 
+  /**
+   * Offre renvoyée sur notre modèle de demande de prix: les prix, délais et
+   * remarques sont rattachés aux lignes décrites par la feuille de métadonnées.
+   * Les lignes déplacées, modifiées ou ajoutées sont signalées pour vérification.
+   */
+  private parseTemplateQuote(workbook: XLSX.WorkBook, supplierEmail: string, rfqNumber: string): SupplierQuote | null {
+    const metaSheet = workbook.Sheets[RFQ_TEMPLATE_SHEET];
+    if (!metaSheet) return null;
+
+    const metadata = templateMetadataFromRows(XLSX.utils.sheet_to_json<any[]>(metaSheet, { header: 1 }));
+    const sheetName = workbook.SheetNames.find(name => name !== RFQ_TEMPLATE_SHEET);
+    if (!metadata || !sheetName) {
+      this.logger.warn(`Métadonnées du modèle illisibles ou altérées (${supplierEmail}), analyse générique`);
+      return null;
+    }
+
+    const sheet = workbook.Sheets[sheetName];
+    const cell = (row: number, col?: number) =>
+      col === undefined ? undefined : sheet[XLSX.utils.encode_cell({ r: row - 1, c: col })]?.v;
+
+    // Colonnes repérées par leur intitulé (tolère l'ajout de colonnes)
+    const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1');
+    const columns: Partial<Record<keyof typeof RFQ_TEMPLATE_COLUMNS, number>> = {};
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const header = String(cell(metadata.headerRow, c) ?? '').trim();
+      const key = (Object.keys(RFQ_TEMPLATE_COLUMNS) as (keyof typeof RFQ_TEMPLATE_COLUMNS)[])
+        .find(k => RFQ_TEMPLATE_COLUMNS[k] === header);
+      if (key && columns[key] === undefined) columns[key] = c;
+    }
+    if (columns.description === undefined || columns.unitPrice === undefined) {
+      this.logger.warn(`En-tête du modèle introuvable ligne ${metadata.headerRow} (${supplierEmail}), analyse générique`);
+      return null;
+    }
+
+    const rows: Array<{ row: number; description: string; partNumber: string; quantity?: number }> = [];
+    for (let r = metadata.headerRow + 1; r <= range.e.r + 1; r++) {
+      const description = String(cell(r, columns.description) ?? '').trim();
+      if (!description) continue;
+      rows.push({
+        row: r,
+        description,
+        partNumber: String(cell(r, columns.partNumber) ?? '').trim(),
+        quantity: this.parseNumber(cell(r, columns.quantity)),
+      });
+    }
+
+    const normalize = (value?: string) => (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+    const sameLine = (row: typeof rows[number], line: RfqTemplateLine) =>
+      normalize(row.description) === normalize(line.description) &&
+      normalize(row.partNumber) === normalize(line.partNumber);
+
+    // 1. Lignes à leur place, 2. lignes déplacées, 3. lignes modifiées sur place
+    const assigned = new Map<string, { row: typeof rows[number]; flag?: string }>();
+    const used = new Set<number>();
+    for (const line of metadata.lines) {
+      const row = rows.find(r => r.row === line.row);
+      if (row && sameLine(row, line)) {
+        assigned.set(line.lineId, { row });
+        used.add(row.row);
+      }
+    }
+    for (const line of metadata.lines.filter(l => !assigned.has(l.lineId))) {
+      const row = rows.find(r => !used.has(r.row) && sameLine(r, line));
+      if (row) {
+        assigned.set(line.lineId, { row, flag: `Ligne ${line.lineNumber} déplacée (ligne Excel ${line.row} → ${row.row})` });
+        used.add(row.row);
+      }
+    }
+    for (const line of metadata.lines.filter(l => !assigned.has(l.lineId))) {
+      const row = rows.find(r => r.row === line.row && !used.has(r.row));
+      if (row) {
+        assigned.set(line.lineId, { row, flag: `Ligne ${line.lineNumber} modifiée: "${row.description}" au lieu de "${line.description}"` });
+        used.add(row.row);
+      }
+    }
+
+    const readItem = (row: typeof rows[number], quantity: number): QuoteItem => {
+      const unitPrice = this.parseNumber(cell(row.row, columns.unitPrice));
+      const totalPrice = this.parseNumber(cell(row.row, columns.totalPrice))
+        ?? (unitPrice !== undefined ? unitPrice * quantity : undefined);
+      return {
+        description: row.description,
+        quantity,
+        unitPrice,
+        totalPrice,
+        deliveryTime: this.cellValue(cell(row.row, columns.deliveryTime))?.trim() || undefined,
+        notes: this.cellValue(cell(row.row, columns.remarks))?.trim() || undefined,
+      };
+    };
+
+    const items: QuoteItem[] = [];
+    for (const line of metadata.lines) {
+      const match = assigned.get(line.lineId);
+      if (!match) continue;
+
+      const quantity = match.row.quantity ?? line.quantity;
+      const flags = [match.flag];
+      if (quantity !== line.quantity) flags.push(`Ligne ${line.lineNumber}: quantité modifiée (${line.quantity} → ${quantity})`);
+
+      const item = readItem(match.row, quantity);
+      if (item.unitPrice === undefined && item.totalPrice === undefined) continue;
+
+      items.push({
+        ...item,
+        description: line.description,
+        partNumber: line.partNumber,
+        unit: line.unit,
+        lineId: line.lineId,
+        reviewFlag: flags.filter(Boolean).join('; ') || undefined,
+      });
+    }
+
+    // Lignes ajoutées par le fournisseur
+    for (const row of rows.filter(r => !used.has(r.row))) {
+      const item = readItem(row, row.quantity || 1);
+      if (item.unitPrice === undefined && item.totalPrice === undefined) continue;
+      items.push({ ...item, partNumber: row.partNumber || undefined, reviewFlag: `Ligne ajoutée (ligne Excel ${row.row})` });
+    }
+
+    const flagged = items.filter(i => i.reviewFlag);
+    if (metadata.rfqNumber !== rfqNumber) {
+      this.logger.warn(`Modèle de la demande ${metadata.rfqNumber} renvoyé pour ${rfqNumber} (${supplierEmail})`);
+    }
+    this.logger.log(
+      `Offre sur modèle ${metadata.rfqNumber} v${metadata.version}: ${items.length}/${metadata.lines.length} ligne(s) chiffrée(s)` +
+      (flagged.length > 0 ? `, ${flagged.length} à vérifier` : '')
+    );
+
+    const remarks = items.map(i => [i.deliveryTime, i.notes].filter(Boolean).join(' ')).join('\n');
+    // Devise déclarée dans sa cellule, sinon citée en remarque; à défaut, à vérifier (pas de devise supposée)
+    const declared = this.cellValue(sheet[metadata.currencyCell]?.v)?.trim().toUpperCase() || '';
+    const currency = this.extractCurrency(declared)
+      || (/^[A-Z]{3}$/.test(declared) ? declared : undefined)
+      || this.extractCurrency(remarks);
+    if (!currency) {
+      this.logger.warn(`Devise non indiquée sur le modèle ${metadata.rfqNumber} (${supplierEmail}), offre à vérifier`);
+    }
+    const deliveryTimes = new Set(items.map(i => i.deliveryTime).filter(Boolean));
+    const totals = items.filter(i => i.totalPrice !== undefined);
+
+    return {
+      supplierEmail,
+      rfqNumber,
+      receivedAt: new Date(),
+      subject: '',
+      currency,
+      totalAmount: totals.length > 0 ? totals.reduce((sum, i) => sum + i.totalPrice!, 0) : undefined,
+      deliveryTime: deliveryTimes.size === 1 ? [...deliveryTimes][0] : undefined,
+      items,
+      attachments: [],
+      needsManualReview: items.length === 0 || flagged.length > 0 || !currency || metadata.rfqNumber !== rfqNumber,
+      logistics: extractLogisticsFromText(remarks),
+    };
+  }
+
   /**
    * Parser une offre PDF avec extraction logistique
    */
@@ -393,7 +586,7 @@ export class QuoteComparisonService {
     quote: SupplierQuote,
     rfqSubject?: string,
     clientRfqNumber?: string,
-    originalItems?: { description: string; quantity: number; unit?: string }[]
+    originalItems?: RequestedItem[]
   ): Promise<ComparisonTable> {
     
     const isNewComparison = !this.hasComparison(rfqNumber);
@@ -412,6 +605,7 @@ export class QuoteComparisonService {
         suppliers: [],
         filePath,
         version: 1,
+        baseCurrency: this.currencyService.getBaseCurrency(),
       };
       
       this.logger.log(`📊 Nouveau tableau comparatif créé: ${rfqNumber}`);
@@ -428,30 +622,9 @@ export class QuoteComparisonService {
       quote.logistics = this.extractLogistics(quote);
     }
 
-    // Calculer la recommandation d'expédition
-    const shippingRec = quote.logistics?.totalWeightKg 
-      ? recommendShippingMode(quote.logistics.totalWeightKg, quote.logistics.volumetricWeightKg)
-      : undefined;
-
     // Ajouter/mettre à jour le fournisseur
     const existingSupplier = comparison.suppliers.find(s => s.email === quote.supplierEmail);
-    const supplierData: SupplierSummary = {
-      email: quote.supplierEmail,
-      name: quote.supplierName,
-      totalAmount: quote.totalAmount,
-      currency: quote.currency,
-      deliveryTime: quote.deliveryTime,
-      paymentTerms: quote.paymentTerms,
-      validity: quote.validity,
-      itemsQuoted: quote.items.length,
-      responseDate: quote.receivedAt,
-      totalWeightKg: quote.logistics?.totalWeightKg,
-      incoterm: quote.logistics?.incoterm,
-      shippingMode: quote.logistics?.proposedShippingMode,
-      hsCode: quote.logistics?.hsCode,
-      countryOfOrigin: quote.logistics?.countryOfOrigin,
-      shippingRecommendation: shippingRec ? { mode: shippingRec.recommended, ...shippingRec } : undefined,
-    };
+    const supplierData = this.buildSupplierSummary(quote);
 
     if (!existingSupplier) {
       comparison.suppliers.push(supplierData);
@@ -459,6 +632,11 @@ export class QuoteComparisonService {
       Object.assign(existingSupplier, supplierData);
     }
 
+    // Convertir les totaux en devise de base
+    comparison.baseCurrency = this.currencyService.getBaseCurrency();
+    this.normalizeSupplierTotals(comparison.suppliers);
+    this.estimateLandedCosts(comparison.suppliers);
+
     // Reconstruire les items de comparaison
     comparison.items = this.buildComparisonItems(comparison.suppliers, [quote], originalItems);
 
@@ -503,26 +681,37 @@ export class QuoteComparisonService {
       if (metaData.length > 0) meta = metaData[0];
     }
 
+    // Infos logistiques par email (feuille Logistique)
+    const logisticsByEmail = new Map<string, any>();
+    const logisticsSheet = workbook.Sheets['Logistique'];
+    if (logisticsSheet) {
+      for (const row of XLSX.utils.sheet_to_json<any>(logisticsSheet, { range: 2 })) {
+        if (row.Email) logisticsByEmail.set(row.Email, row);
+      }
+    }
+
     const suppliersSheet = workbook.Sheets['Résumé Fournisseurs'];
     const suppliers: SupplierSummary[] = [];
     if (suppliersSheet) {
       const suppData = XLSX.utils.sheet_to_json<any>(suppliersSheet, { range: 2 });
       for (const row of suppData) {
         if (row.Email) {
+          const logistics = logisticsByEmail.get(row.Email) || {};
           suppliers.push({
             email: row.Email,
             name: row.Fournisseur || undefined,
-            totalAmount: row['Total'],
-            currency: row['Devise'],
+            totalAmount: this.parseNumber(row['Total']),
+            currency: row['Devise'] !== '-' ? row['Devise'] : undefined,
             deliveryTime: row['Délai'],
             paymentTerms: row['Conditions'],
             itemsQuoted: row['Nb Items'] || 0,
-            responseDate: row['Date Réponse'] ? new Date(row['Date Réponse']) : new Date(),
-            totalWeightKg: row['Poids (kg)'],
-            incoterm: row['Incoterm'],
-            shippingMode: row['Mode Expédition'],
-            hsCode: row['Code HS'],
-            countryOfOrigin: row['Pays Origine'],
+            responseDate: this.parseFrenchDate(row['Date Réponse']) || new Date(),
+            totalWeightKg: this.parseNumber(logistics['Poids Total (kg)']),
+            volumetricWeightKg: this.parseNumber(logistics['Poids Vol. (kg)']),
+            incoterm: this.cellValue(logistics['Incoterm']),
+            shippingMode: this.cellValue(logistics['Mode Expédition']),
+            hsCode: this.cellValue(logistics['Code HS/SH']),
+            countryOfOrigin: this.cellValue(logistics['Pays Origine']),
           });
         }
       }
@@ -538,85 +727,312 @@ export class QuoteComparisonService {
       suppliers,
       filePath,
       version: (meta.version || 0) + 1,
+      baseCurrency: meta.baseCurrency || undefined,
     };
   }
 
   private buildComparisonItems(
     suppliers: SupplierSummary[],
     quotes: SupplierQuote[],
-    originalItems?: { description: string; quantity: number; unit?: string }[]
+    originalItems?: RequestedItem[]
   ): ComparisonItem[] {
-    const itemDescriptions = new Set<string>();
-    
-    if (originalItems) {
-      for (const item of originalItems) {
-        itemDescriptions.add(item.description.toLowerCase().substring(0, 50));
-      }
-    }
-    
+    // Lignes demandées; à défaut, construites au fil des offres
+    const comparisonItems: ComparisonItem[] = (originalItems || []).map((item, index) => ({
+      lineNumber: index + 1,
+      description: item.description,
+      partNumber: item.partNumber,
+      requestedQty: item.quantity || 1,
+      unit: item.unit,
+      supplierPrices: [],
+    }));
+    const requestLines: RequestLine[] = (originalItems || []).map((item, index) => ({ ...item, lineNumber: index + 1 }));
+
     for (const quote of quotes) {
-      for (const item of quote.items) {
-        itemDescriptions.add(item.description.toLowerCase().substring(0, 50));
+      const matches = this.lineMatcher.matchQuoteLines(requestLines, quote.items);
+      const createdLines: RequestLine[] = [];
+
+      for (let match of matches) {
+        const item = quote.items[match.itemIndex];
+
+        // Rapprocher aussi des lignes créées par les articles précédents de la même offre
+        if (match.matchType === 'unmatched' && createdLines.length > 0) {
+          const [retry] = this.lineMatcher.matchQuoteLines(createdLines, [item]);
+          if (retry.matchType !== 'unmatched') match = { ...retry, itemIndex: match.itemIndex };
+        }
+
+        let compItem = comparisonItems.find(c => c.lineNumber === match.lineNumber);
+
+        // Article sans correspondance: nouvelle ligne (hors demande si les lignes demandées sont connues)
+        if (!compItem) {
+          const lineNumber = comparisonItems.length + 1;
+          match = originalItems?.length
+            ? { ...match, lineNumber, reason: 'Article hors demande' }
+            : { ...match, lineNumber, matchType: 'exact', confidence: 100 };
+          compItem = {
+            lineNumber,
+            description: item.description,
+            partNumber: item.partNumber,
+            requestedQty: item.quantity || 1,
+            unit: item.unit,
+            supplierPrices: [],
+          };
+          comparisonItems.push(compItem);
+          const line = { lineNumber, description: item.description, partNumber: item.partNumber, quantity: item.quantity || 1, unit: item.unit };
+          requestLines.push(line);
+          createdLines.push(line);
+        }
+
+        if (item.lineId && !compItem.lineId) compItem.lineId = item.lineId;
+
+        // Une seule offre principale par fournisseur et par ligne
+        if (match.matchType !== 'alternative' && compItem.supplierPrices.some(p => p.supplierEmail === quote.supplierEmail)) {
+          match = { ...match, matchType: 'alternative', reason: 'Offre supplémentaire sur une ligne déjà chiffrée' };
+        }
+
+        const price = this.buildSupplierPrice(quote, item, match);
+        if (match.matchType === 'alternative') {
+          compItem.alternatives = [...(compItem.alternatives || []), price];
+        } else {
+          compItem.supplierPrices.push(price);
+        }
       }
     }
 
-    const comparisonItems: ComparisonItem[] = [];
-    let lineNumber = 1;
+    for (const compItem of comparisonItems) {
+      this.computeLowestPrice(compItem);
+    }
 
-    for (const desc of itemDescriptions) {
-      const compItem: ComparisonItem = {
-        lineNumber: lineNumber++,
-        description: desc,
-        requestedQty: originalItems?.find(i => i.description.toLowerCase().startsWith(desc))?.quantity || 1,
-        supplierPrices: [],
-      };
+    return comparisonItems;
+  }
+
+  private buildSupplierPrice(quote: SupplierQuote, item: QuoteItem, match: QuoteLineMatch): SupplierPrice {
+    const currency = item.currency || quote.currency;
+    return {
+      supplierEmail: quote.supplierEmail,
+      supplierName: quote.supplierName,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      currency,
+      deliveryTime: item.deliveryTime || quote.deliveryTime,
+      notes: item.notes,
+      matchType: match.matchType,
+      matchConfidence: match.confidence,
+      matchReason: match.reason,
+      offeredDescription: item.description,
+      offeredPartNumber: item.partNumber,
+      normalizedUnitPrice: this.currencyService.normalize(item.unitPrice, currency, quote.receivedAt)?.amount,
+      normalizedTotalPrice: this.currencyService.normalize(item.totalPrice, currency, quote.receivedAt)?.amount,
+    };
+  }
 
-      for (const quote of quotes) {
-        const matchingItem = quote.items.find(i => 
-          i.description.toLowerCase().includes(desc) || 
-          desc.includes(i.description.toLowerCase().substring(0, 20))
-        );
-
-        compItem.supplierPrices.push({
-          supplierEmail: quote.supplierEmail,
-          supplierName: quote.supplierName,
-          unitPrice: matchingItem?.unitPrice,
-          totalPrice: matchingItem?.totalPrice,
-          currency: matchingItem?.currency || quote.currency,
-          deliveryTime: matchingItem?.deliveryTime || quote.deliveryTime,
-        });
+  /**
+   * Meilleur prix de la ligne (hors alternatives, non comparables à l'identique)
+   */
+  private computeLowestPrice(compItem: ComparisonItem): void {
+    const prices = compItem.supplierPrices
+      .filter(p => p.totalPrice || p.unitPrice)
+      .map(p => ({ 
+        price: p.totalPrice || (p.unitPrice! * compItem.requestedQty), 
+        normalized: p.normalizedTotalPrice ?? (p.normalizedUnitPrice !== undefined ? p.normalizedUnitPrice * compItem.requestedQty : undefined),
+        currency: p.currency,
+        supplier: p.supplierEmail 
+      }));
+
+    // Comparer en devise de base; à défaut, seulement si tous les prix sont dans la même devise
+    const convertible = prices.filter(p => p.normalized !== undefined);
+    const sameCurrency = new Set(prices.map(p => p.currency)).size <= 1;
+
+    if (convertible.length > 0) {
+      const lowest = convertible.reduce((min, p) => p.normalized! < min.normalized! ? p : min);
+      compItem.lowestPrice = lowest.price;
+      compItem.lowestPriceCurrency = lowest.currency;
+      compItem.lowestPriceNormalized = lowest.normalized;
+      compItem.lowestPriceSupplier = lowest.supplier;
+    } else if (prices.length > 0 && sameCurrency) {
+      const lowest = prices.reduce((min, p) => p.price < min.price ? p : min);
+      compItem.lowestPrice = lowest.price;
+      compItem.lowestPriceCurrency = lowest.currency;
+      compItem.lowestPriceSupplier = lowest.supplier;
+    }
+  }
+
+  /**
+   * Article de l'offre retenu pour une ligne du comparatif
+   * (correspondance établie par le rapprochement, sinon par identifiant ou désignation)
+   */
+  findQuoteItem(quote: SupplierQuote, compItem: ComparisonItem): QuoteItem | undefined {
+    const email = quote.supplierEmail.toLowerCase();
+    const price = [...compItem.supplierPrices, ...(compItem.alternatives || [])]
+      .find(p => p.supplierEmail.toLowerCase() === email);
+    const matched = price?.offeredDescription !== undefined
+      ? quote.items.find(i => i.description === price.offeredDescription)
+      : undefined;
+    if (matched) return matched;
+
+    const byLineId = compItem.lineId ? quote.items.find(i => i.lineId === compItem.lineId) : undefined;
+    if (byLineId) return byLineId;
+
+    const desc = compItem.description.toLowerCase();
+    return quote.items.find(i =>
+      i.description.toLowerCase().includes(desc) ||
+      desc.includes(i.description.toLowerCase().substring(0, 20))
+    );
+  }
+
+  /**
+   * Comparatif en mémoire (non sauvegardé) des offres d'une demande,
+   * ex: pour les scorecards fournisseurs
+   */
+  compareQuotes(rfqNumber: string, quotes: SupplierQuote[]): ComparisonTable {
+    const suppliers = quotes.map(quote => {
+      if (!quote.logistics) {
+        quote.logistics = this.extractLogistics(quote);
       }
+      return this.buildSupplierSummary(quote);
+    });
 
-      const prices = compItem.supplierPrices
-        .filter(p => p.totalPrice || p.unitPrice)
-        .map(p => ({ 
-          price: p.totalPrice || (p.unitPrice! * compItem.requestedQty), 
-          supplier: p.supplierEmail 
-        }));
-      
-      if (prices.length > 0) {
-        const lowest = prices.reduce((min, p) => p.price < min.price ? p : min);
-        compItem.lowestPrice = lowest.price;
-        compItem.lowestPriceSupplier = lowest.supplier;
+    const comparison: ComparisonTable = {
+      rfqNumber,
+      generatedAt: new Date(),
+      lastUpdatedAt: new Date(),
+      items: [],
+      suppliers,
+      filePath: '',
+      version: 1,
+      baseCurrency: this.currencyService.getBaseCurrency(),
+    };
+
+    this.normalizeSupplierTotals(comparison.suppliers);
+    this.estimateLandedCosts(comparison.suppliers);
+    comparison.items = this.buildComparisonItems(comparison.suppliers, quotes);
+    comparison.recommendation = this.calculateRecommendation(comparison);
+
+    return comparison;
+  }
+
+  /**
+   * Offre retenue par le comparatif: coût rendu Abidjan le plus bas quand il
+   * est estimable, sinon total converti le plus bas, sinon total brut si une
+   * seule devise
+   */
+  selectBestOffer(suppliers: SupplierSummary[]): SupplierSummary | undefined {
+    const suppliersWithTotal = suppliers.filter(s => s.totalAmount);
+    const convertible = suppliersWithTotal.filter(s => s.normalizedTotalAmount !== undefined);
+
+    if (convertible.length > 0) {
+      const estimated = convertible.filter(s => s.landedCost?.complete);
+      if (estimated.length > 0) {
+        return [...estimated].sort((a, b) => a.landedCost!.landedCost! - b.landedCost!.landedCost!)[0];
       }
+      return [...convertible].sort((a, b) => a.normalizedTotalAmount! - b.normalizedTotalAmount!)[0];
+    }
+
+    const currencies = new Set(suppliersWithTotal.map(s => s.currency));
+    if (currencies.size > 1) return undefined;
+
+    return [...suppliersWithTotal].sort((a, b) => (a.totalAmount || Infinity) - (b.totalAmount || Infinity))[0];
+  }
 
-      comparisonItems.push(compItem);
+  private buildSupplierSummary(quote: SupplierQuote): SupplierSummary {
+    // Calculer la recommandation d'expédition
+    const shippingRec = quote.logistics?.totalWeightKg
+      ? recommendShippingMode(quote.logistics.totalWeightKg, quote.logistics.volumetricWeightKg)
+      : undefined;
+
+    return {
+      email: quote.supplierEmail,
+      name: quote.supplierName,
+      totalAmount: quote.totalAmount,
+      currency: quote.currency,
+      deliveryTime: quote.deliveryTime,
+      paymentTerms: quote.paymentTerms,
+      validity: quote.validity,
+      itemsQuoted: quote.items.length,
+      responseDate: quote.receivedAt,
+      totalWeightKg: quote.logistics?.totalWeightKg,
+      volumetricWeightKg: quote.logistics?.volumetricWeightKg,
+      incoterm: quote.logistics?.incoterm,
+      shippingMode: quote.logistics?.proposedShippingMode,
+      hsCode: quote.logistics?.hsCode,
+      countryOfOrigin: quote.logistics?.countryOfOrigin,
+      shippingRecommendation: shippingRec ? { mode: shippingRec.recommended, ...shippingRec } : undefined,
+    };
+  }
+
+  /**
+   * Convertit le total de chaque fournisseur dans la devise de base,
+   * au taux en vigueur à la date de réponse
+   */
+  private normalizeSupplierTotals(suppliers: SupplierSummary[]): void {
+    for (const supplier of suppliers) {
+      const conversion = this.currencyService.normalize(supplier.totalAmount, supplier.currency, supplier.responseDate);
+      supplier.normalizedTotalAmount = conversion?.amount;
+      supplier.exchangeRate = conversion?.rate;
+      supplier.rateDate = conversion?.rateDate;
+      supplier.rateSource = conversion?.source;
     }
+  }
 
-    return comparisonItems;
+  /**
+   * Estimer le coût rendu CIF Abidjan de chaque offre convertie
+   */
+  private estimateLandedCosts(suppliers: SupplierSummary[]): void {
+    for (const supplier of suppliers) {
+      supplier.landedCost = supplier.normalizedTotalAmount !== undefined
+        ? this.landedCostService.estimate({
+            goodsValue: supplier.normalizedTotalAmount,
+            incoterm: supplier.incoterm,
+            weightKg: supplier.totalWeightKg,
+            volumetricWeightKg: supplier.volumetricWeightKg,
+            shippingMode: supplier.shippingMode,
+            countryOfOrigin: supplier.countryOfOrigin,
+            hsCode: supplier.hsCode,
+            at: supplier.responseDate,
+          })
+        : undefined;
+    }
   }
 
   private calculateRecommendation(comparison: ComparisonTable): string | undefined {
     if (comparison.suppliers.length === 0) return undefined;
 
+    const baseCurrency = comparison.baseCurrency || this.currencyService.getBaseCurrency();
     const suppliersWithTotal = comparison.suppliers.filter(s => s.totalAmount);
-    
-    if (suppliersWithTotal.length > 0) {
-      const best = suppliersWithTotal.sort((a, b) => (a.totalAmount || Infinity) - (b.totalAmount || Infinity))[0];
-      return `Meilleure offre globale: ${best.name || best.email} - ${best.totalAmount?.toLocaleString('fr-FR')} ${best.currency || ''}`;
+    if (suppliersWithTotal.length === 0) return undefined;
+
+    const convertible = suppliersWithTotal.filter(s => s.normalizedTotalAmount !== undefined);
+    const notConvertible = suppliersWithTotal.filter(s => s.normalizedTotalAmount === undefined);
+
+    if (convertible.length > 0) {
+      const excluded = notConvertible.length > 0
+        ? ` - hors comparaison (taux manquant): ${notConvertible.map(s => `${s.name || s.email} [${s.currency || '?'}]`).join(', ')}`
+        : '';
+
+      // Classement sur le coût rendu Abidjan quand il est estimable
+      const best = this.selectBestOffer(comparison.suppliers)!;
+      if (best.landedCost?.complete) {
+        const lc = best.landedCost;
+        const notEstimated = convertible.filter(s => !s.landedCost?.complete);
+        const pending = notEstimated.length > 0
+          ? ` - coût rendu non estimé: ${notEstimated.map(s => `${s.name || s.email} (${s.landedCost?.notes.join(', ') || '?'})`).join(', ')}`
+          : '';
+        return `Meilleure offre globale (coût rendu Abidjan): ${best.name || best.email} - ${best.totalAmount?.toLocaleString('fr-FR')} ${best.currency || ''} ${lc.incoterm}${lc.incotermAssumed ? ' (supposé)' : ''} → ≈ ${lc.landedCost!.toLocaleString('fr-FR')} ${lc.currency} rendu droits inclus${pending}${excluded}`;
+      }
+
+      const converted = best.currency && best.currency !== baseCurrency
+        ? ` (≈ ${best.normalizedTotalAmount!.toLocaleString('fr-FR')} ${baseCurrency}${best.rateDate ? `, taux du ${best.rateDate.toLocaleDateString('fr-FR')}` : ''})`
+        : '';
+      return `Meilleure offre globale: ${best.name || best.email} - ${best.totalAmount?.toLocaleString('fr-FR')} ${best.currency || ''}${converted} - coût rendu non estimé${excluded}`;
     }
 
-    return undefined;
+    // Aucun taux disponible: comparaison brute uniquement si une seule devise
+    const currencies = new Set(suppliersWithTotal.map(s => s.currency));
+    if (currencies.size > 1) {
+      return `Comparaison impossible: taux de change manquants pour ${Array.from(currencies).filter(Boolean).join(', ')}`;
+    }
+
+    const best = this.selectBestOffer(comparison.suppliers)!;
+    return `Meilleure offre globale: ${best.name || best.email} - ${best.totalAmount?.toLocaleString('fr-FR')} ${best.currency || ''}`;
   }
 
   private calculateShippingRecommendation(comparison: ComparisonTable): string | undefined {
@@ -675,13 +1091,15 @@ export class QuoteComparisonService {
     ];
 
     // En-têtes dynamiques
+    const baseCurrency = comparison.baseCurrency || this.currencyService.getBaseCurrency();
     const headers = ['N°', 'Description', 'Qté'];
     for (const supplier of comparison.suppliers) {
       const name = supplier.name || supplier.email.split('@')[0];
       headers.push(`${name} (Prix)`);
+      headers.push(`${name} (${baseCurrency})`);
       headers.push('Délai');
     }
-    headers.push('✓ Meilleur Prix', '✓ Meilleur Fournisseur');
+    headers.push('✓ Meilleur Prix', `✓ Meilleur Prix (${baseCurrency})`, '✓ Meilleur Fournisseur');
     compData.push(headers);
 
     // Données des items
@@ -691,13 +1109,27 @@ export class QuoteComparisonService {
       for (const supplier of comparison.suppliers) {
         const sp = item.supplierPrices.find(p => p.supplierEmail === supplier.email);
         row.push(sp?.totalPrice || sp?.unitPrice || '-');
+        row.push(sp?.normalizedTotalPrice ?? sp?.normalizedUnitPrice ?? '-');
         row.push(sp?.deliveryTime || '-');
       }
 
-      row.push(item.lowestPrice?.toLocaleString('fr-FR') || '-');
+      row.push(item.lowestPrice !== undefined ? `${item.lowestPrice.toLocaleString('fr-FR')} ${item.lowestPriceCurrency || ''}`.trim() : '-');
+      row.push(item.lowestPriceNormalized?.toLocaleString('fr-FR') || '-');
       row.push(item.lowestPriceSupplier ? item.lowestPriceSupplier.split('@')[0] : '-');
       
       compData.push(row);
+
+      // Alternatives proposées, affichées sous la ligne demandée
+      for (const alt of item.alternatives || []) {
+        const altRow: any[] = ['', `  ↳ Alternative: ${this.describeOffer(alt)} (${alt.matchConfidence ?? 0}%)`, ''];
+        for (const supplier of comparison.suppliers) {
+          const own = alt.supplierEmail === supplier.email;
+          altRow.push(own ? (alt.totalPrice || alt.unitPrice || '-') : '');
+          altRow.push(own ? (alt.normalizedTotalPrice ?? alt.normalizedUnitPrice ?? '-') : '');
+          altRow.push(own ? (alt.deliveryTime || '-') : '');
+        }
+        compData.push(altRow);
+      }
     }
 
     // Ligne de total
@@ -705,15 +1137,51 @@ export class QuoteComparisonService {
     const totalRow: any[] = ['', 'TOTAL', ''];
     for (const supplier of comparison.suppliers) {
       totalRow.push(supplier.totalAmount?.toLocaleString('fr-FR') || '-');
+      totalRow.push(supplier.normalizedTotalAmount?.toLocaleString('fr-FR') || '-');
       totalRow.push(supplier.currency || '');
     }
     compData.push(totalRow);
 
+    // Coût rendu CIF Abidjan (en devise de base)
+    const landedRows: [string, (lc: LandedCostEstimate) => any][] = [
+      ['Pré-acheminement (EXW)', lc => lc.preCarriage],
+      ['Fret estimé', lc => lc.freight],
+      ['Assurance', lc => lc.insurance],
+      ['CIF Abidjan', lc => lc.cifValue],
+      ['Droits de douane', lc => lc.duties],
+      ['COÛT RENDU', lc => lc.landedCost],
+    ];
+    const incotermRow: any[] = ['', 'Incoterm / Mode', ''];
+    for (const supplier of comparison.suppliers) {
+      const lc = supplier.landedCost;
+      incotermRow.push(lc ? `${lc.incoterm}${lc.incotermAssumed ? ' (supposé)' : ''}` : (supplier.incoterm || '-'));
+      incotermRow.push(lc?.mode || '-');
+      incotermRow.push('');
+    }
+    compData.push(incotermRow);
+    for (const [label, value] of landedRows) {
+      const row: any[] = ['', `${label} (${baseCurrency})`, ''];
+      for (const supplier of comparison.suppliers) {
+        const amount = supplier.landedCost ? value(supplier.landedCost) : undefined;
+        row.push('');
+        row.push(amount !== undefined ? amount.toLocaleString('fr-FR') : '-');
+        row.push('');
+      }
+      compData.push(row);
+    }
+
+    // Taux de change utilisés
+    compData.push([]);
+    compData.push([`Montants convertis en ${baseCurrency}:`]);
+    for (const supplier of comparison.suppliers) {
+      compData.push([`• ${this.describeRate(supplier, baseCurrency)}`]);
+    }
+
     const compSheet = XLSX.utils.aoa_to_sheet(compData);
     compSheet['!cols'] = [
       { wch: 5 }, { wch: 45 }, { wch: 6 },
-      ...comparison.suppliers.flatMap(() => [{ wch: 14 }, { wch: 12 }]),
-      { wch: 14 }, { wch: 18 },
+      ...comparison.suppliers.flatMap(() => [{ wch: 14 }, { wch: 14 }, { wch: 12 }]),
+      { wch: 16 }, { wch: 16 }, { wch: 18 },
     ];
     XLSX.utils.book_append_sheet(workbook, compSheet, 'Comparaison Prix');
 
@@ -723,7 +1191,7 @@ export class QuoteComparisonService {
     const summaryData: any[][] = [
       ['RÉSUMÉ DES OFFRES FOURNISSEURS'],
       [''],
-      ['Fournisseur', 'Email', 'Total', 'Devise', 'Délai Livraison', 'Conditions Paiement', 'Nb Items', 'Date Réponse'],
+      ['Fournisseur', 'Email', 'Total', 'Devise', `Total (${baseCurrency})`, 'Taux', 'Date Taux', 'Délai Livraison', 'Conditions Paiement', 'Nb Items', 'Date Réponse'],
     ];
 
     for (const s of comparison.suppliers) {
@@ -732,6 +1200,9 @@ export class QuoteComparisonService {
         s.email,
         s.totalAmount?.toLocaleString('fr-FR') || '-',
         s.currency || '-',
+        s.normalizedTotalAmount?.toLocaleString('fr-FR') || '-',
+        s.exchangeRate ?? '-',
+        s.rateDate?.toLocaleDateString('fr-FR') || '-',
         s.deliveryTime || '-',
         s.paymentTerms || '-',
         s.itemsQuoted,
@@ -747,6 +1218,7 @@ export class QuoteComparisonService {
     const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
     summarySheet['!cols'] = [
       { wch: 25 }, { wch: 35 }, { wch: 15 }, { wch: 8 },
+      { wch: 15 }, { wch: 12 }, { wch: 12 },
       { wch: 18 }, { wch: 20 }, { wch: 10 }, { wch: 14 },
     ];
     XLSX.utils.book_append_sheet(workbook, summarySheet, 'Résumé Fournisseurs');
@@ -757,19 +1229,23 @@ export class QuoteComparisonService {
     const logisticsData: any[][] = [
       ['INFORMATIONS LOGISTIQUES'],
       [''],
-      ['Fournisseur', 'Poids Total (kg)', 'Incoterm', 'Mode Expédition', 'Code HS/SH', 'Pays Origine', 'Recommandation Expédition'],
+      ['Fournisseur', 'Email', 'Poids Total (kg)', 'Poids Vol. (kg)', 'Incoterm', 'Mode Expédition', 'Code HS/SH', 'Pays Origine', 'Recommandation Expédition', `Coût Rendu (${baseCurrency})`, 'Hypothèses'],
     ];
 
     for (const s of comparison.suppliers) {
       const rec = s.shippingRecommendation;
       logisticsData.push([
         s.name || s.email.split('@')[0],
+        s.email,
         s.totalWeightKg?.toFixed(2) || '-',
+        s.volumetricWeightKg?.toFixed(2) || '-',
         s.incoterm || '-',
         s.shippingMode || '-',
         s.hsCode || '-',
         s.countryOfOrigin || '-',
         rec ? `${rec.mode} - ${rec.reason}` : '-',
+        s.landedCost?.landedCost?.toLocaleString('fr-FR') || '-',
+        s.landedCost?.notes.join('; ') || '-',
       ]);
     }
 
@@ -782,6 +1258,10 @@ export class QuoteComparisonService {
     logisticsData.push([]);
     logisticsData.push([`📍 Destination: ${COMPANY_INFO.defaultPort}`]);
     logisticsData.push([`📦 Incoterm préféré: ${COMPANY_INFO.defaultIncoterm}`]);
+    logisticsData.push([]);
+    logisticsData.push(['COÛT RENDU = Prix + pré-acheminement (EXW) + fret + assurance (CIF Abidjan) + droits de douane']);
+    logisticsData.push(['• Frais déjà inclus par l\'Incoterm non ajoutés (ex: CIF → fret et assurance inclus)']);
+    logisticsData.push(['• Incoterm non précisé → EXW retenu par prudence']);
 
     if (comparison.shippingRecommendation) {
       logisticsData.push([]);
@@ -790,16 +1270,49 @@ export class QuoteComparisonService {
 
     const logisticsSheet = XLSX.utils.aoa_to_sheet(logisticsData);
     logisticsSheet['!cols'] = [
-      { wch: 25 }, { wch: 15 }, { wch: 12 }, { wch: 18 },
-      { wch: 15 }, { wch: 18 }, { wch: 45 },
+      { wch: 25 }, { wch: 30 }, { wch: 15 }, { wch: 15 }, { wch: 12 }, { wch: 18 },
+      { wch: 15 }, { wch: 18 }, { wch: 45 }, { wch: 18 }, { wch: 40 },
     ];
     XLSX.utils.book_append_sheet(workbook, logisticsSheet, 'Logistique');
 
     // ========================================
-    // Feuille 4: Métadonnées
+    // Feuille 4: Rapprochement des lignes
+    // ========================================
+    const matchingData: any[][] = [
+      ['RAPPROCHEMENT DES LIGNES'],
+      [''],
+      ['N°', 'Ligne demandée', 'Fournisseur', 'Article proposé', 'Correspondance', 'Confiance (%)', 'Motif'],
+    ];
+    const matchLabels: Record<LineMatchType, string> = {
+      exact: 'Exacte',
+      equivalent: 'Équivalente',
+      alternative: 'Alternative',
+      unmatched: 'Non rapprochée',
+    };
+
+    for (const item of comparison.items) {
+      for (const price of [...item.supplierPrices, ...(item.alternatives || [])]) {
+        matchingData.push([
+          item.lineNumber,
+          item.description,
+          price.supplierName || price.supplierEmail,
+          this.describeOffer(price),
+          matchLabels[price.matchType || 'unmatched'],
+          price.matchConfidence ?? '-',
+          price.matchReason || '-',
+        ]);
+      }
+    }
+
+    const matchingSheet = XLSX.utils.aoa_to_sheet(matchingData);
+    matchingSheet['!cols'] = [{ wch: 5 }, { wch: 40 }, { wch: 25 }, { wch: 40 }, { wch: 15 }, { wch: 12 }, { wch: 40 }];
+    XLSX.utils.book_append_sheet(workbook, matchingSheet, 'Rapprochement');
+
+    // ========================================
+    // Feuille 5: Métadonnées
     // ========================================
     const metaData = [
-      ['rfqNumber', 'clientRfqNumber', 'rfqSubject', 'generatedAt', 'lastUpdatedAt', 'version', 'supplierCount'],
+      ['rfqNumber', 'clientRfqNumber', 'rfqSubject', 'generatedAt', 'lastUpdatedAt', 'version', 'supplierCount', 'baseCurrency'],
       [
         comparison.rfqNumber,
         comparison.clientRfqNumber || '',
@@ -808,6 +1321,7 @@ export class QuoteComparisonService {
         comparison.lastUpdatedAt.toISOString(),
         comparison.version,
         comparison.suppliers.length,
+        baseCurrency,
       ],
     ];
     const metaSheet = XLSX.utils.aoa_to_sheet(metaData);
@@ -821,7 +1335,7 @@ export class QuoteComparisonService {
   async generateComparisonTable(
     rfqNumber: string,
     quotes: SupplierQuote[],
-    originalItems?: { description: string; quantity: number; unit?: string }[],
+    originalItems?: RequestedItem[],
     rfqSubject?: string,
     clientRfqNumber?: string,
   ): Promise<ComparisonTable> {
@@ -838,6 +1352,33 @@ export class QuoteComparisonService {
   }
 
   // Utilitaires
+  private describeRate(supplier: SupplierSummary, baseCurrency: string): string {
+    const name = supplier.name || supplier.email.split('@')[0];
+    if (!supplier.currency) return `${name}: devise inconnue, non converti`;
+    if (supplier.currency === baseCurrency) return `${name}: ${baseCurrency}, aucune conversion`;
+    if (supplier.exchangeRate === undefined) return `${name}: aucun taux ${supplier.currency}/${baseCurrency} disponible`;
+    const date = supplier.rateDate ? ` du ${supplier.rateDate.toLocaleDateString('fr-FR')}` : '';
+    return `${name}: 1 ${supplier.currency} = ${supplier.exchangeRate} ${baseCurrency} (${supplier.rateSource || 'manuel'}${date})`;
+  }
+
+  private describeOffer(price: SupplierPrice): string {
+    const description = price.offeredDescription || '-';
+    return price.offeredPartNumber && !description.includes(price.offeredPartNumber)
+      ? `${description} [${price.offeredPartNumber}]`
+      : description;
+  }
+
+  private cellValue(value: any): string | undefined {
+    return value !== undefined && value !== '-' ? String(value) : undefined;
+  }
+
+  private parseFrenchDate(value: any): Date | undefined {
+    if (!value) return undefined;
+    const match = String(value).match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    const date = match ? new Date(+match[3], +match[2] - 1, +match[1]) : new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
   private parseNumber(value: any): number | undefined {
     if (typeof value === 'number') return value;
     if (!value) return undefined;
@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { QuoteLineMatcherService, RequestLine } from './quote-line-matcher.service';
+import { QuoteItem } from './rfq-lifecycle.service';
+
+describe('QuoteLineMatcherService', () => {
+  let service: QuoteLineMatcherService;
+
+  const requestLines: RequestLine[] = [
+    { lineNumber: 1, description: 'Filtre à huile', partNumber: '1R-0739', brand: 'CAT', quantity: 4 },
+    { lineNumber: 2, description: 'Roulement à billes', partNumber: '6205-2RS', brand: 'SKF', quantity: 10 },
+    { lineNumber: 3, description: 'Joint torique viton', quantity: 20 },
+  ];
+
+  const item = (description: string, extra: Partial<QuoteItem> = {}): QuoteItem => ({
+    description,
+    quantity: 1,
+    unitPrice: 10,
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [QuoteLineMatcherService],
+    }).compile();
+
+    service = module.get<QuoteLineMatcherService>(QuoteLineMatcherService);
+  });
+
+  it('should normalize part numbers without spaces, dashes or brand prefixes', () => {
+    expect(service.normalizePartNumber('CAT 1R-0739')).toBe('1R0739');
+    expect(service.normalizePartNumber(' 1r 0739 ')).toBe('1R0739');
+    expect(service.normalizePartNumber('skf-6205.2RS')).toBe('62052RS');
+    expect(service.normalizePartNumber('ACME/6205', ['Acme'])).toBe('6205');
+  });
+
+  it('should classify quote lines regardless of their order', () => {
+    const matches = service.matchQuoteLines(requestLines, [
+      item('Kit outillage'),
+      item('Joint torique Viton', { quantity: 20 }),
+      item('Bearing', { partNumber: 'SKF 6205 2RS', quantity: 10 }),
+      item('Filtre à huile Donaldson P551808, alternative à CAT 1R-0739', { quantity: 4 }),
+      item('Filtre huile CAT 1R-1808 (remplace 1R-0739)', { quantity: 4 }),
+    ]);
+
+    expect(matches.map(m => [m.itemIndex, m.lineNumber, m.matchType])).toEqual([
+      [0, undefined, 'unmatched'],
+      [1, 3, 'exact'],
+      [2, 2, 'exact'],
+      [3, 1, 'alternative'],
+      [4, 1, 'equivalent'],
+    ]);
+    expect(matches[4].reason).toContain('supersession');
+    expect(matches.every(m => m.confidence >= 0 && m.confidence <= 100)).toBe(true);
+  });
+
+  it('should keep one primary offer per line and report extra offers as alternatives', () => {
+    const matches = service.matchQuoteLines(requestLines, [
+      item('Roulement à billes 6205-2RS', { quantity: 10 }),
+      item('Roulement à billes 6205-2RS C3', { partNumber: '6205-2RS-C3', quantity: 10 }),
+    ]);
+
+    expect(matches.map(m => [m.lineNumber, m.matchType])).toEqual([[2, 'exact'], [2, 'alternative']]);
+  });
+});
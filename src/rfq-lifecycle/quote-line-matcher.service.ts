@@ -0,0 +1,246 @@
+import { Injectable } from '@nestjs/common';
+import { QuoteItem } from './rfq-lifecycle.service';
+
+/**
+ * Article demandé (ligne de la demande de prix)
+ */
+export interface RequestedItem {
+  description: string;
+  quantity: number;
+  unit?: string;
+  partNumber?: string;
+  brand?: string;
+}
+
+export interface RequestLine extends RequestedItem {
+  lineNumber: number;
+}
+
+/**
+ * exact: même référence (après normalisation)
+ * equivalent: référence remplacée / variante, ou même désignation sans référence
+ * alternative: article de substitution proposé par le fournisseur
+ * unmatched: aucune ligne demandée correspondante
+ */
+export type LineMatchType = 'exact' | 'equivalent' | 'alternative' | 'unmatched';
+
+export interface QuoteLineMatch {
+  itemIndex: number;              // Index de l'article dans l'offre
+  lineNumber?: number;            // Ligne demandée rattachée
+  matchType: LineMatchType;
+  confidence: number;             // 0-100
+  reason?: string;
+}
+
+const MATCH_RANK: Record<LineMatchType, number> = { exact: 3, equivalent: 2, alternative: 1, unmatched: 0 };
+
+// Mentions d'une référence remplacée (ex: "remplace 1R-0739", "superseded by 1R-1808")
+const SUPERSESSION_PATTERN = /(?:remplace|remplacée? par|replaces|replaced by|supersedes|superseded by|ancienne r[ée]f(?:[ée]rence)?|old (?:p\/n|part number|ref(?:erence)?)|\bex)[\s.:#-]+([A-Z0-9][A-Z0-9 ./-]{2,}[A-Z0-9])/gi;
+
+// Mentions d'un article de substitution (ex: "alternative à 1R-0739", "au lieu de 6205-2RS")
+const ALTERNATIVE_PATTERN = /(?:alternative (?:à|a|to|for)|alternatif (?:à|a)|[ée]quivalent (?:à|a|de|to)|au lieu de|instead of|substitut(?:e|ion)? (?:de|for|to)|compatible (?:avec|with))[\s.:#-]+([A-Z0-9][A-Z0-9 ./-]{2,}[A-Z0-9])/gi;
+
+const ALTERNATIVE_KEYWORDS = /\b(?:alternative|alternatif|substitut\w*|[ée]quivalent|compatible|adaptable)\b/i;
+
+const STOP_WORDS = new Set([
+  'de', 'du', 'des', 'la', 'le', 'les', 'et', 'en', 'pour', 'avec', 'sans', 'sur', 'un', 'une',
+  'the', 'of', 'for', 'and', 'with', 'to', 'a', 'pcs', 'pc', 'unit', 'ref', 'reference', 'réf',
+]);
+
+@Injectable()
+export class QuoteLineMatcherService {
+  // Préfixes de marque retirés des références (ex: "CAT 1R-0739" → 1R0739)
+  private readonly brandPrefixes = [
+    'CATERPILLAR', 'CAT', 'KOMATSU', 'VOLVO', 'TEREX', 'LIEBHERR', 'SANDVIK', 'EPIROC',
+    'SKF', 'FAG', 'NSK', 'NTN', 'TIMKEN', 'INA', 'KOYO',
+    'PARKER', 'REXROTH', 'BOSCH', 'EATON', 'CUMMINS', 'PERKINS', 'DEUTZ', 'SCANIA',
+    'DONALDSON', 'FLEETGUARD', 'MANN', 'HENGST', 'GATES', 'HTM',
+  ];
+
+  /**
+   * Rattacher les articles d'une offre aux lignes demandées.
+   * Chaque ligne reçoit au plus un article exact/équivalent par offre ;
+   * les autres articles proches sont rattachés comme alternatives.
+   */
+  matchQuoteLines(requestLines: RequestLine[], items: QuoteItem[]): QuoteLineMatch[] {
+    const candidates: QuoteLineMatch[] = [];
+    items.forEach((item, itemIndex) => {
+      for (const line of requestLines) {
+        const match = this.scoreLine(line, item);
+        if (match.matchType !== 'unmatched') candidates.push({ ...match, itemIndex });
+      }
+    });
+
+    candidates.sort((a, b) =>
+      (MATCH_RANK[b.matchType] - MATCH_RANK[a.matchType]) || (b.confidence - a.confidence)
+    );
+
+    const matches = new Map<number, QuoteLineMatch>();
+    const primaryLines = new Set<number>();
+
+    // 1. Correspondances exactes / équivalentes, une par ligne
+    for (const candidate of candidates) {
+      if (candidate.matchType === 'alternative') continue;
+      if (matches.has(candidate.itemIndex) || primaryLines.has(candidate.lineNumber!)) continue;
+      matches.set(candidate.itemIndex, candidate);
+      primaryLines.add(candidate.lineNumber!);
+    }
+
+    // 2. Articles restants: alternatives (ou offre supplémentaire sur une ligne déjà servie)
+    for (const candidate of candidates) {
+      if (matches.has(candidate.itemIndex)) continue;
+      if (candidate.matchType !== 'alternative' && !primaryLines.has(candidate.lineNumber!)) {
+        matches.set(candidate.itemIndex, candidate);
+        primaryLines.add(candidate.lineNumber!);
+        continue;
+      }
+      matches.set(candidate.itemIndex, {
+        ...candidate,
+        matchType: 'alternative',
+        reason: candidate.matchType === 'alternative' ? candidate.reason : 'Offre supplémentaire sur une ligne déjà chiffrée',
+      });
+    }
+
+    return items.map((_, itemIndex) =>
+      matches.get(itemIndex) || { itemIndex, matchType: 'unmatched' as const, confidence: 0 }
+    );
+  }
+
+  /**
+   * Évaluer la correspondance d'un article de l'offre avec une ligne demandée
+   */
+  scoreLine(line: RequestLine, item: QuoteItem): Omit<QuoteLineMatch, 'itemIndex'> {
+    const brands = line.brand ? [line.brand] : [];
+    const itemText = `${item.description} ${item.notes || ''}`;
+    const lineParts = this.extractPartNumbers(line.partNumber, line.description, brands);
+    const superseded = this.referencedParts(itemText, SUPERSESSION_PATTERN, brands);
+    const proposedAsAlternative = this.referencedParts(itemText, ALTERNATIVE_PATTERN, brands);
+
+    // Les références citées ("remplace X", "alternative à X") ne sont pas celles de l'article offert
+    const itemParts = this.extractPartNumbers(item.partNumber, item.description, brands);
+    for (const part of [...superseded, ...proposedAsAlternative]) itemParts.delete(part);
+
+    const similarity = this.descriptionSimilarity(line.description, item.description);
+    const sameQuantity = !item.quantity || item.quantity === line.quantity;
+    const brandMentioned = !line.brand || new RegExp(`\\b${this.escapeRegExp(line.brand)}\\b`, 'i').test(itemText);
+    const confidence = (base: number) => Math.min(100, Math.round(
+      100 * (base + (1 - base) * (0.6 * similarity + 0.25 * (sameQuantity ? 1 : 0) + 0.15 * (brandMentioned ? 1 : 0)))
+    ));
+
+    const lineNumber = line.lineNumber;
+    const shared = [...lineParts].some(p => itemParts.has(p));
+
+    if ([...lineParts].some(p => proposedAsAlternative.has(p))) {
+      return { lineNumber, matchType: 'alternative', confidence: confidence(0.7), reason: 'Proposé en remplacement de la référence demandée' };
+    }
+
+    if (shared) {
+      return { lineNumber, matchType: 'exact', confidence: confidence(0.7), reason: 'Même référence' };
+    }
+
+    if ([...lineParts].some(p => superseded.has(p))) {
+      return { lineNumber, matchType: 'equivalent', confidence: confidence(0.6), reason: 'Référence remplacée (supersession)' };
+    }
+
+    const variant = [...lineParts].some(lp => [...itemParts].some(ip =>
+      Math.min(lp.length, ip.length) >= 5 && (lp.startsWith(ip) || ip.startsWith(lp))
+    ));
+    if (variant) {
+      return { lineNumber, matchType: 'equivalent', confidence: confidence(0.4), reason: 'Variante de la référence demandée' };
+    }
+
+    // Références différentes des deux côtés: au mieux une alternative
+    if (lineParts.size > 0 && itemParts.size > 0) {
+      if (similarity >= 0.3 || (similarity >= 0.15 && ALTERNATIVE_KEYWORDS.test(itemText))) {
+        return { lineNumber, matchType: 'alternative', confidence: confidence(0.2), reason: 'Référence différente, désignation proche' };
+      }
+      return { lineNumber, matchType: 'unmatched', confidence: 0 };
+    }
+
+    // Au moins un côté sans référence: désignation seule
+    if (similarity >= 0.85 && lineParts.size === 0 && itemParts.size === 0) {
+      return { lineNumber, matchType: 'exact', confidence: confidence(0.3), reason: 'Même désignation' };
+    }
+    if (similarity >= 0.5) {
+      return { lineNumber, matchType: 'equivalent', confidence: confidence(0), reason: 'Désignation proche' };
+    }
+    if (similarity >= 0.3 && ALTERNATIVE_KEYWORDS.test(itemText)) {
+      return { lineNumber, matchType: 'alternative', confidence: confidence(0), reason: 'Article de substitution' };
+    }
+
+    return { lineNumber, matchType: 'unmatched', confidence: 0 };
+  }
+
+  /**
+   * Normaliser une référence: majuscules, sans espaces/tirets/points, sans préfixe de marque
+   */
+  normalizePartNumber(value: string, brands: string[] = []): string {
+    let normalized = (value || '').toUpperCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+
+    for (const brand of [...brands.map(b => b.toUpperCase()), ...this.brandPrefixes]) {
+      const prefix = new RegExp(`^${this.escapeRegExp(brand)}[\\s.:/_-]+(?=[A-Z0-9])`);
+      if (prefix.test(normalized)) {
+        normalized = normalized.replace(prefix, '');
+        break;
+      }
+    }
+
+    return normalized.replace(/[^A-Z0-9]/g, '');
+  }
+
+  /**
+   * Similarité des désignations (coefficient de Dice sur les mots significatifs)
+   */
+  descriptionSimilarity(a: string, b: string): number {
+    const tokensA = this.tokenize(a);
+    const tokensB = this.tokenize(b);
+    if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+    const common = [...tokensA].filter(t => tokensB.has(t)).length;
+    return (2 * common) / (tokensA.size + tokensB.size);
+  }
+
+  /**
+   * Références candidates: champ référence puis mots contenant chiffres et lettres de la désignation
+   */
+  private extractPartNumbers(partNumber: string | undefined, description: string, brands: string[]): Set<string> {
+    const parts = new Set<string>();
+    if (partNumber) {
+      const normalized = this.normalizePartNumber(partNumber, brands);
+      if (normalized.length >= 3) parts.add(normalized);
+    }
+
+    for (const token of (description || '').split(/[\s,;()]+/)) {
+      if (!/\d/.test(token) || token.replace(/[^A-Za-z0-9]/g, '').length < 4) continue;
+      if (/^\d+([.,]\d+)?$/.test(token)) continue; // Quantité ou dimension seule
+      parts.add(this.normalizePartNumber(token, brands));
+    }
+
+    return parts;
+  }
+
+  private referencedParts(text: string, pattern: RegExp, brands: string[]): Set<string> {
+    const parts = new Set<string>();
+    const brandNames = new Set([...brands.map(b => b.toUpperCase()), ...this.brandPrefixes]);
+    for (const match of text.matchAll(new RegExp(pattern))) {
+      // "CAT 1R-0739 origine" → 1R-0739
+      const reference = match[1].trim().split(/\s+/).find(t => !brandNames.has(t.toUpperCase()) && /\d/.test(t));
+      if (reference) parts.add(this.normalizePartNumber(reference, brands));
+    }
+    return parts;
+  }
+
+  private tokenize(text: string): Set<string> {
+    return new Set(
+      (text || '')
+        .toLowerCase()
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .split(/[^a-z0-9]+/)
+        .filter(t => t.length >= 2 && !STOP_WORDS.has(t) && !/\d/.test(t))
+    );
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,100 @@
+import * as initSqlJs from 'sql.js';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { SentRfq } from './rfq-lifecycle.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('RfqLifecycleDatabaseService', () => {
+  let service: RfqLifecycleDatabaseService;
+  let db: any;
+  let saveToFile: jest.Mock;
+
+  const rfq = (internalRfqNumber: string, sentAt: string, overrides: Partial<SentRfq> = {}): SentRfq => ({
+    internalRfqNumber,
+    subject: `Demande de Prix N° ${internalRfqNumber}`,
+    sentAt: new Date(sentAt),
+    sentBy: 'procurement@multipartsci.com',
+    status: 'envoyé',
+    suppliers: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    db = new SQL.Database();
+    saveToFile = jest.fn();
+    service = new RfqLifecycleDatabaseService({ db, saveToFile } as unknown as DatabaseService);
+    expect(service.ensureTables()).toBe(true);
+  });
+
+  it('should create the lifecycle tables idempotently', () => {
+    expect(service.ensureTables()).toBe(true);
+
+    const tables = db.exec(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`)[0].values.map((r: any[]) => r[0]);
+    expect(tables).toEqual(expect.arrayContaining([
+      'consulted_suppliers',
+      'rfq_awards',
+      'rfq_deadline_alerts',
+      'rfq_status_history',
+      'sent_rfqs',
+      'supplier_quotes',
+    ]));
+  });
+
+  it('should keep a single consulted supplier per RFQ and email', () => {
+    expect(service.insertSentRfq(rfq('DDP-1', '2026-01-05T10:00:00Z', {
+      suppliers: [{ email: 'Sales@Supplier.com', rfqNumber: 'DDP-1', consultedAt: new Date(), status: 'consulté', reminderCount: 0 }],
+    }))).toBe(true);
+    expect(service.insertSentRfq(rfq('DDP-1', '2026-01-05T10:00:00Z'))).toBe(false);
+
+    expect(service.insertConsultedSupplier({
+      email: 'sales@supplier.com', rfqNumber: 'DDP-1', consultedAt: new Date(), status: 'relancé', reminderCount: 1,
+    })).toBe(false);
+    expect(service.insertConsultedSupplier({
+      email: 'sales@supplier.com', rfqNumber: 'DDP-2', consultedAt: new Date(), status: 'consulté', reminderCount: 0,
+    })).toBe(true);
+
+    expect(() => db.run(`
+      INSERT INTO consulted_suppliers (id, rfq_number, email, consulted_at, status, created_at, updated_at)
+      VALUES ('x', 'DDP-1', 'sales@supplier.com', '2026-01-05', 'consulté', '2026-01-05', '2026-01-05')
+    `)).toThrow(/UNIQUE/);
+    expect(service.getSuppliersForRfq('DDP-1')).toEqual([expect.objectContaining({ email: 'sales@supplier.com', status: 'consulté' })]);
+  });
+
+  it('should filter and paginate sent RFQs, newest first', () => {
+    const supplier = (email: string, rfqNumber: string) =>
+      ({ email, rfqNumber, consultedAt: new Date(), status: 'consulté' as const, reminderCount: 0 });
+    service.insertSentRfq(rfq('DDP-1', '2026-01-02T10:00:00Z', { clientEmail: 'achats@client.com', suppliers: [supplier('alpha@supplier.com', 'DDP-1')] }));
+    service.insertSentRfq(rfq('DDP-2', '2026-01-03T10:00:00Z', { clientEmail: 'Achats@Client.com', clientRfqNumber: 'PR-POMPES-7', status: 'complet' }));
+    service.insertSentRfq(rfq('DDP-3', '2026-01-04T10:00:00Z', { clientEmail: 'autre@client.com', suppliers: [supplier('alpha@supplier.com', 'DDP-3')] }));
+    service.insertSentRfq(rfq('DDP-4', '2026-01-05T10:00:00Z', { suppliers: [supplier('beta@supplier.com', 'DDP-4')] }));
+
+    const numbers = (result: { data: SentRfq[] }) => result.data.map(r => r.internalRfqNumber);
+
+    expect(numbers(service.findSentRfqs())).toEqual(['DDP-4', 'DDP-3', 'DDP-2', 'DDP-1']);
+    expect(numbers(service.findSentRfqs({ status: 'complet' }))).toEqual(['DDP-2']);
+    expect(numbers(service.findSentRfqs({ clientEmail: 'ACHATS@client.com' }))).toEqual(['DDP-2', 'DDP-1']);
+    expect(numbers(service.findSentRfqs({ supplierEmail: 'Alpha@Supplier.com' }))).toEqual(['DDP-3', 'DDP-1']);
+    expect(numbers(service.findSentRfqs({ search: 'pompes' }))).toEqual(['DDP-2']);
+    expect(numbers(service.findSentRfqs({ from: new Date('2026-01-03T00:00:00Z'), to: new Date('2026-01-04T23:59:59Z') })))
+      .toEqual(['DDP-3', 'DDP-2']);
+
+    const page2 = service.findSentRfqs({ page: 2, limit: 3 });
+    expect(page2).toMatchObject({ total: 4, page: 2, limit: 3 });
+    expect(numbers(page2)).toEqual(['DDP-1']);
+    expect(page2.data[0].suppliers.map(s => s.email)).toEqual(['alpha@supplier.com']);
+    expect(service.findSentRfqs({ page: 0, limit: 1000 })).toMatchObject({ page: 1, limit: 500 });
+  });
+
+  it('should record status transitions in the history', () => {
+    service.insertSentRfq(rfq('DDP-1', '2026-01-02T10:00:00Z'));
+    service.updateRfqStatus('DDP-1', 'partiellement_répondu', 'quote_received');
+    service.updateRfqStatus('DDP-1', 'partiellement_répondu', 'quote_received');
+
+    expect(service.getSentRfq('DDP-1')!.status).toBe('partiellement_répondu');
+    expect(service.getStatusHistory('DDP-1').map(h => [h.fromStatus, h.toStatus, h.reason])).toEqual([
+      [undefined, 'envoyé', 'created'],
+      ['envoyé', 'partiellement_répondu', 'quote_received'],
+    ]);
+    expect(saveToFile).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,918 @@
+import { Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/database.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { ConsultedSupplier, SentRfq, SupplierQuote } from './rfq-lifecycle.service';
+import { RfqAward } from './award.service';
+
+/**
+ * Entrée de l'historique des transitions de statut (append-only)
+ */
+export interface RfqStatusTransition {
+  id: string;
+  rfqNumber: string;
+  entityType: 'rfq' | 'supplier';
+  supplierEmail?: string;
+  fromStatus?: string;
+  toStatus: string;
+  reason?: string;
+  changedAt: Date;
+}
+
+/**
+ * Alerte d'échéance déjà émise (une par seuil et par échéance)
+ */
+export interface RfqDeadlineAlertRecord {
+  rfqNumber: string;
+  kind: 'approaching' | 'passed';
+  thresholdHours: number; // 0 pour une échéance dépassée
+  deadline: Date;
+  alertedAt: Date;
+}
+
+/**
+ * Filtres pour la liste des demandes envoyées
+ */
+export interface SentRfqFilters {
+  status?: SentRfq['status'];
+  supplierEmail?: string;
+  clientEmail?: string;
+  search?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Statistiques agrégées du tableau de bord
+ */
+export interface LifecycleDashboardStats {
+  totalRfqs: number;
+  byStatus: Record<SentRfq['status'], number>;
+  totalSuppliers: number;
+  suppliersWithQuotes: number;
+  suppliersDeclined: number;
+  suppliersPending: number;
+  suppliersNoResponse: number;
+  totalQuotes: number;
+}
+
+/**
+ * RfqLifecycleDatabaseService
+ *
+ * Persistance SQL du cycle de vie des demandes envoyées aux fournisseurs.
+ * Tables gérées:
+ * - sent_rfqs
+ * - consulted_suppliers
+ * - supplier_quotes
+ * - rfq_status_history (append-only)
+ * - rfq_awards
+ * - rfq_deadline_alerts
+ */
+@Injectable()
+export class RfqLifecycleDatabaseService implements OnModuleInit {
+  private readonly logger = new Logger(RfqLifecycleDatabaseService.name);
+  private tablesReady = false;
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    @Optional() private readonly webhookService?: WebhookService,
+  ) {}
+
+  async onModuleInit() {
+    this.ensureTables();
+    // Les changements de statut des demandes reçues sont notifiés comme ceux des demandes envoyées
+    this.databaseService.addRfqMappingStatusListener((rfqNumber, fromStatus, toStatus) =>
+      this.notifyStatusChanged(rfqNumber, fromStatus, toStatus),
+    );
+  }
+
+  private get db(): any {
+    return (this.databaseService as any).db;
+  }
+
+  /**
+   * Crée les tables si nécessaire (idempotent)
+   */
+  ensureTables(): boolean {
+    if (this.tablesReady) return true;
+
+    const db = this.db;
+    if (!db) {
+      this.logger.warn('Database not initialized, skipping table creation');
+      return false;
+    }
+
+    try {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sent_rfqs (
+          internal_rfq_number TEXT PRIMARY KEY,
+          client_rfq_number TEXT,
+          subject TEXT NOT NULL,
+          sent_at TEXT NOT NULL,
+          sent_by TEXT,
+          status TEXT NOT NULL DEFAULT 'envoyé',
+          client_email TEXT,
+          client_name TEXT,
+          item_count INTEGER,
+          deadline TEXT,
+          client_received_at TEXT,
+          client_reassurance_sent_at TEXT,
+          client_reassurance_count INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS consulted_suppliers (
+          id TEXT PRIMARY KEY,
+          rfq_number TEXT NOT NULL,
+          email TEXT NOT NULL,
+          name TEXT,
+          consulted_at TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'consulté',
+          last_reminder_at TEXT,
+          reminder_count INTEGER DEFAULT 0,
+          response_at TEXT,
+          quote_reference TEXT,
+          dispatch_token TEXT,
+          message_id TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          UNIQUE(rfq_number, email)
+        )
+      `);
+
+      // Migration: jeton et Message-ID des envois individuels
+      for (const column of ['dispatch_token', 'message_id']) {
+        try {
+          db.run(`ALTER TABLE consulted_suppliers ADD COLUMN ${column} TEXT`);
+        } catch (e) { /* column exists */ }
+      }
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS supplier_quotes (
+          id TEXT PRIMARY KEY,
+          rfq_number TEXT NOT NULL,
+          supplier_email TEXT NOT NULL,
+          supplier_name TEXT,
+          received_at TEXT NOT NULL,
+          subject TEXT,
+          currency TEXT,
+          total_amount REAL,
+          delivery_time TEXT,
+          payment_terms TEXT,
+          validity TEXT,
+          items_json TEXT,
+          attachments_json TEXT,
+          raw_text TEXT,
+          needs_manual_review INTEGER DEFAULT 0,
+          logistics_json TEXT,
+          created_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS rfq_status_history (
+          id TEXT PRIMARY KEY,
+          rfq_number TEXT NOT NULL,
+          entity_type TEXT NOT NULL,
+          supplier_email TEXT,
+          from_status TEXT,
+          to_status TEXT NOT NULL,
+          reason TEXT,
+          changed_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS rfq_awards (
+          id TEXT PRIMARY KEY,
+          rfq_number TEXT NOT NULL UNIQUE,
+          mode TEXT NOT NULL,
+          awarded_at TEXT NOT NULL,
+          awarded_by TEXT,
+          notes TEXT,
+          previous_status TEXT,
+          purchase_orders_json TEXT NOT NULL,
+          notified_suppliers_json TEXT,
+          created_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS rfq_deadline_alerts (
+          rfq_number TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          threshold_hours INTEGER NOT NULL,
+          deadline TEXT NOT NULL,
+          alerted_at TEXT NOT NULL,
+          PRIMARY KEY (rfq_number, kind, threshold_hours, deadline)
+        )
+      `);
+
+      db.run(`CREATE INDEX IF NOT EXISTS idx_sent_rfqs_status ON sent_rfqs(status)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_sent_rfqs_sent_at ON sent_rfqs(sent_at)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_sent_rfqs_client ON sent_rfqs(client_email)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_consulted_rfq ON consulted_suppliers(rfq_number)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_consulted_email ON consulted_suppliers(email)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_consulted_status ON consulted_suppliers(status)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_consulted_dispatch_token ON consulted_suppliers(dispatch_token)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_consulted_message_id ON consulted_suppliers(message_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_quotes_rfq ON supplier_quotes(rfq_number)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_quotes_supplier ON supplier_quotes(supplier_email)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_status_history_rfq ON rfq_status_history(rfq_number)`);
+
+      this.databaseService.saveToFile();
+      this.tablesReady = true;
+      this.logger.log('RFQ lifecycle tables created/verified');
+    } catch (error) {
+      this.logger.error(`Error creating RFQ lifecycle tables: ${error.message}`);
+    }
+
+    return this.tablesReady;
+  }
+
+  // ============ SENT RFQS ============
+
+  hasSentRfq(rfqNumber: string): boolean {
+    const result = this.db.exec(`SELECT COUNT(*) FROM sent_rfqs WHERE internal_rfq_number = ?`, [rfqNumber]);
+    return result.length > 0 && result[0].values[0][0] > 0;
+  }
+
+  /**
+   * Insère une demande et ses fournisseurs consultés.
+   * Retourne false si la demande existe déjà.
+   */
+  insertSentRfq(rfq: SentRfq, persist = true): boolean {
+    if (this.hasSentRfq(rfq.internalRfqNumber)) return false;
+
+    const now = new Date().toISOString();
+    this.db.run(`
+      INSERT INTO sent_rfqs
+      (internal_rfq_number, client_rfq_number, subject, sent_at, sent_by, status, client_email, client_name, item_count, deadline, client_received_at, client_reassurance_sent_at, client_reassurance_count, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      rfq.internalRfqNumber,
+      rfq.clientRfqNumber || null,
+      rfq.subject || '',
+      this.toIso(rfq.sentAt) || now,
+      rfq.sentBy || null,
+      rfq.status,
+      rfq.clientEmail || null,
+      rfq.clientName || null,
+      rfq.itemCount ?? null,
+      this.toIso(rfq.deadline),
+      this.toIso(rfq.clientReceivedAt),
+      this.toIso(rfq.clientReassuranceSentAt),
+      rfq.clientReassuranceCount || 0,
+      now,
+      now,
+    ]);
+
+    this.appendHistory(rfq.internalRfqNumber, 'rfq', undefined, rfq.status, 'created');
+
+    for (const supplier of rfq.suppliers || []) {
+      this.insertConsultedSupplier(supplier, false);
+    }
+
+    if (persist) this.databaseService.saveToFile();
+    return true;
+  }
+
+  getSentRfq(rfqNumber: string): SentRfq | undefined {
+    const result = this.db.exec(`SELECT * FROM sent_rfqs WHERE internal_rfq_number = ?`, [rfqNumber]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+
+    const rfq = this.mapRowToSentRfq(result[0].columns, result[0].values[0]);
+    rfq.suppliers = this.getSuppliersForRfq(rfqNumber);
+    return rfq;
+  }
+
+  getAllSentRfqs(): SentRfq[] {
+    const result = this.db.exec(`SELECT * FROM sent_rfqs ORDER BY sent_at DESC`);
+    if (result.length === 0) return [];
+    return this.attachSuppliers(
+      result[0].values.map((row: any) => this.mapRowToSentRfq(result[0].columns, row)),
+    );
+  }
+
+  /**
+   * Liste filtrée et paginée des demandes envoyées
+   */
+  findSentRfqs(filters: SentRfqFilters = {}): { total: number; page: number; limit: number; data: SentRfq[] } {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(500, Math.max(1, filters.limit || 50));
+
+    let where = `WHERE 1=1`;
+    const params: any[] = [];
+
+    if (filters.status) {
+      where += ` AND r.status = ?`;
+      params.push(filters.status);
+    }
+    if (filters.clientEmail) {
+      where += ` AND LOWER(r.client_email) = ?`;
+      params.push(filters.clientEmail.toLowerCase());
+    }
+    if (filters.supplierEmail) {
+      where += ` AND EXISTS (SELECT 1 FROM consulted_suppliers cs WHERE cs.rfq_number = r.internal_rfq_number AND cs.email = ?)`;
+      params.push(filters.supplierEmail.toLowerCase());
+    }
+    if (filters.search) {
+      where += ` AND (LOWER(r.subject) LIKE ? OR LOWER(r.internal_rfq_number) LIKE ? OR LOWER(r.client_rfq_number) LIKE ?)`;
+      const pattern = `%${filters.search.toLowerCase()}%`;
+      params.push(pattern, pattern, pattern);
+    }
+    if (filters.from) {
+      where += ` AND r.sent_at >= ?`;
+      params.push(filters.from.toISOString());
+    }
+    if (filters.to) {
+      where += ` AND r.sent_at <= ?`;
+      params.push(filters.to.toISOString());
+    }
+
+    const countResult = this.db.exec(`SELECT COUNT(*) FROM sent_rfqs r ${where}`, params);
+    const total = countResult.length > 0 ? countResult[0].values[0][0] : 0;
+
+    const result = this.db.exec(
+      `SELECT r.* FROM sent_rfqs r ${where} ORDER BY r.sent_at DESC LIMIT ? OFFSET ?`,
+      [...params, limit, (page - 1) * limit],
+    );
+
+    const data = result.length === 0
+      ? []
+      : this.attachSuppliers(result[0].values.map((row: any) => this.mapRowToSentRfq(result[0].columns, row)));
+
+    return { total, page, limit, data };
+  }
+
+  updateRfqStatus(rfqNumber: string, status: SentRfq['status'], reason?: string): void {
+    const current = this.db.exec(`SELECT status FROM sent_rfqs WHERE internal_rfq_number = ?`, [rfqNumber]);
+    if (current.length === 0 || current[0].values.length === 0) return;
+
+    const fromStatus = current[0].values[0][0];
+    if (fromStatus === status) return;
+
+    this.db.run(`
+      UPDATE sent_rfqs SET status = ?, updated_at = ? WHERE internal_rfq_number = ?
+    `, [status, new Date().toISOString(), rfqNumber]);
+
+    this.appendHistory(rfqNumber, 'rfq', undefined, status, reason, fromStatus);
+    this.databaseService.saveToFile();
+    void this.notifyStatusChanged(rfqNumber, fromStatus, status);
+  }
+
+  private async notifyStatusChanged(rfqNumber: string, fromStatus: string, toStatus: string): Promise<void> {
+    try {
+      await this.webhookService?.emitRfqStatusChanged(rfqNumber, fromStatus, toStatus);
+    } catch (error) {
+      this.logger.warn(`Webhook changement de statut ${rfqNumber}: ${error.message}`);
+    }
+  }
+
+  updateClientReassurance(rfqNumber: string): number {
+    const now = new Date().toISOString();
+    this.db.run(`
+      UPDATE sent_rfqs
+      SET client_reassurance_sent_at = ?, client_reassurance_count = client_reassurance_count + 1, updated_at = ?
+      WHERE internal_rfq_number = ?
+    `, [now, now, rfqNumber]);
+    this.databaseService.saveToFile();
+
+    const result = this.db.exec(`SELECT client_reassurance_count FROM sent_rfqs WHERE internal_rfq_number = ?`, [rfqNumber]);
+    return result.length > 0 && result[0].values.length > 0 ? result[0].values[0][0] : 0;
+  }
+
+  private mapRowToSentRfq(columns: string[], row: any[]): SentRfq {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+
+    return {
+      internalRfqNumber: obj.internal_rfq_number,
+      clientRfqNumber: obj.client_rfq_number || undefined,
+      subject: obj.subject,
+      sentAt: new Date(obj.sent_at),
+      sentBy: obj.sent_by,
+      suppliers: [],
+      status: obj.status,
+      clientEmail: obj.client_email || undefined,
+      clientName: obj.client_name || undefined,
+      itemCount: obj.item_count ?? undefined,
+      deadline: obj.deadline ? new Date(obj.deadline) : undefined,
+      clientReceivedAt: obj.client_received_at ? new Date(obj.client_received_at) : undefined,
+      clientReassuranceSentAt: obj.client_reassurance_sent_at ? new Date(obj.client_reassurance_sent_at) : undefined,
+      clientReassuranceCount: obj.client_reassurance_count || 0,
+    };
+  }
+
+  private attachSuppliers(rfqs: SentRfq[]): SentRfq[] {
+    if (rfqs.length === 0) return rfqs;
+
+    const placeholders = rfqs.map(() => '?').join(', ');
+    const result = this.db.exec(
+      `SELECT * FROM consulted_suppliers WHERE rfq_number IN (${placeholders}) ORDER BY consulted_at ASC`,
+      rfqs.map(r => r.internalRfqNumber),
+    );
+
+    const byRfq = new Map<string, ConsultedSupplier[]>();
+    if (result.length > 0) {
+      for (const row of result[0].values) {
+        const supplier = this.mapRowToSupplier(result[0].columns, row);
+        const list = byRfq.get(supplier.rfqNumber) || [];
+        list.push(supplier);
+        byRfq.set(supplier.rfqNumber, list);
+      }
+    }
+
+    for (const rfq of rfqs) {
+      rfq.suppliers = byRfq.get(rfq.internalRfqNumber) || [];
+    }
+    return rfqs;
+  }
+
+  // ============ CONSULTED SUPPLIERS ============
+
+  /**
+   * Ajoute un fournisseur consulté. Retourne false s'il existe déjà pour ce RFQ.
+   */
+  insertConsultedSupplier(supplier: ConsultedSupplier, persist = true): boolean {
+    const now = new Date().toISOString();
+    const email = supplier.email.toLowerCase();
+
+    this.db.run(`
+      INSERT OR IGNORE INTO consulted_suppliers
+      (id, rfq_number, email, name, consulted_at, status, last_reminder_at, reminder_count, response_at, quote_reference, dispatch_token, message_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      uuidv4(),
+      supplier.rfqNumber,
+      email,
+      supplier.name || null,
+      this.toIso(supplier.consultedAt) || now,
+      supplier.status,
+      this.toIso(supplier.lastReminderAt),
+      supplier.reminderCount || 0,
+      this.toIso(supplier.responseAt),
+      supplier.quoteReference || null,
+      supplier.dispatchToken || null,
+      supplier.messageId || null,
+      now,
+      now,
+    ]);
+
+    const changed = this.db.exec(`SELECT changes()`);
+    const inserted = changed.length > 0 && changed[0].values[0][0] > 0;
+
+    if (inserted) {
+      this.appendHistory(supplier.rfqNumber, 'supplier', email, supplier.status, 'consulted');
+      if (persist) this.databaseService.saveToFile();
+    }
+    return inserted;
+  }
+
+  getSupplier(rfqNumber: string, supplierEmail: string): ConsultedSupplier | undefined {
+    const result = this.db.exec(`
+      SELECT * FROM consulted_suppliers WHERE rfq_number = ? AND email = ?
+    `, [rfqNumber, supplierEmail.toLowerCase()]);
+
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToSupplier(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * Fournisseur consulté par jeton de suivi (RFQT-XXXXXXXX) de son envoi individuel
+   */
+  findSupplierByDispatchToken(token: string): ConsultedSupplier | undefined {
+    const result = this.db.exec(`
+      SELECT * FROM consulted_suppliers WHERE dispatch_token = ?
+    `, [token.toUpperCase()]);
+
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToSupplier(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * Fournisseur consulté par Message-ID de son envoi individuel (In-Reply-To / References)
+   */
+  findSupplierByMessageId(messageId: string): ConsultedSupplier | undefined {
+    const result = this.db.exec(`
+      SELECT * FROM consulted_suppliers WHERE message_id = ?
+    `, [messageId.trim()]);
+
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToSupplier(result[0].columns, result[0].values[0]);
+  }
+
+  getSuppliersForRfq(rfqNumber: string): ConsultedSupplier[] {
+    const result = this.db.exec(`
+      SELECT * FROM consulted_suppliers WHERE rfq_number = ? ORDER BY consulted_at ASC
+    `, [rfqNumber]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToSupplier(result[0].columns, row));
+  }
+
+  /**
+   * Consultations depuis une date (tous fournisseurs ou un seul), hors brouillons non envoyés
+   */
+  getConsultationsSince(since: Date, supplierEmail?: string): ConsultedSupplier[] {
+    const params: any[] = [since.toISOString()];
+    let sql = `SELECT * FROM consulted_suppliers WHERE consulted_at >= ? AND status != 'en_attente_envoi'`;
+    if (supplierEmail) {
+      sql += ` AND email = ?`;
+      params.push(supplierEmail.toLowerCase());
+    }
+
+    const result = this.db.exec(`${sql} ORDER BY consulted_at ASC`, params);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToSupplier(result[0].columns, row));
+  }
+
+  /**
+   * Fournisseurs en attente dont le dernier contact est antérieur à la date limite
+   */
+  getSuppliersAwaitingResponse(lastContactBefore: Date, maxReminderCount: number): ConsultedSupplier[] {
+    const result = this.db.exec(`
+      SELECT * FROM consulted_suppliers
+      WHERE status IN ('consulté', 'relancé', 'sans_réponse')
+      AND COALESCE(last_reminder_at, consulted_at) < ?
+      AND reminder_count < ?
+      ORDER BY consulted_at ASC
+    `, [lastContactBefore.toISOString(), maxReminderCount]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToSupplier(result[0].columns, row));
+  }
+
+  /**
+   * Met à jour un fournisseur consulté et trace la transition de statut
+   */
+  updateSupplier(
+    rfqNumber: string,
+    supplierEmail: string,
+    updates: {
+      status?: ConsultedSupplier['status'];
+      consultedAt?: Date;
+      responseAt?: Date;
+      quoteReference?: string;
+      incrementReminder?: boolean;
+      dispatchToken?: string;
+      messageId?: string;
+    },
+    reason?: string,
+  ): boolean {
+    const existing = this.getSupplier(rfqNumber, supplierEmail);
+    if (!existing) return false;
+
+    const now = new Date().toISOString();
+    const fields: string[] = ['updated_at = ?'];
+    const values: any[] = [now];
+
+    if (updates.status) { fields.push('status = ?'); values.push(updates.status); }
+    if (updates.consultedAt) { fields.push('consulted_at = ?'); values.push(this.toIso(updates.consultedAt)); }
+    if (updates.responseAt) { fields.push('response_at = ?'); values.push(this.toIso(updates.responseAt)); }
+    if (updates.quoteReference !== undefined) { fields.push('quote_reference = ?'); values.push(updates.quoteReference); }
+    if (updates.dispatchToken) { fields.push('dispatch_token = ?'); values.push(updates.dispatchToken); }
+    if (updates.messageId) { fields.push('message_id = ?'); values.push(updates.messageId); }
+    if (updates.incrementReminder) {
+      fields.push('reminder_count = reminder_count + 1');
+      fields.push('last_reminder_at = ?');
+      values.push(now);
+    }
+
+    values.push(rfqNumber, existing.email);
+    this.db.run(`UPDATE consulted_suppliers SET ${fields.join(', ')} WHERE rfq_number = ? AND email = ?`, values);
+
+    if (updates.status && updates.status !== existing.status) {
+      this.appendHistory(rfqNumber, 'supplier', existing.email, updates.status, reason, existing.status);
+    }
+
+    this.databaseService.saveToFile();
+    return true;
+  }
+
+  private mapRowToSupplier(columns: string[], row: any[]): ConsultedSupplier {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+
+    return {
+      email: obj.email,
+      name: obj.name || undefined,
+      consultedAt: new Date(obj.consulted_at),
+      rfqNumber: obj.rfq_number,
+      status: obj.status,
+      lastReminderAt: obj.last_reminder_at ? new Date(obj.last_reminder_at) : undefined,
+      reminderCount: obj.reminder_count || 0,
+      responseAt: obj.response_at ? new Date(obj.response_at) : undefined,
+      quoteReference: obj.quote_reference || undefined,
+      dispatchToken: obj.dispatch_token || undefined,
+      messageId: obj.message_id || undefined,
+    };
+  }
+
+  // ============ SUPPLIER QUOTES ============
+
+  insertQuote(quote: SupplierQuote, persist = true): string {
+    const id = uuidv4();
+
+    this.db.run(`
+      INSERT INTO supplier_quotes
+      (id, rfq_number, supplier_email, supplier_name, received_at, subject, currency, total_amount, delivery_time, payment_terms, validity, items_json, attachments_json, raw_text, needs_manual_review, logistics_json, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      id,
+      quote.rfqNumber,
+      quote.supplierEmail.toLowerCase(),
+      quote.supplierName || null,
+      this.toIso(quote.receivedAt) || new Date().toISOString(),
+      quote.subject || null,
+      quote.currency || null,
+      quote.totalAmount ?? null,
+      quote.deliveryTime || null,
+      quote.paymentTerms || null,
+      quote.validity || null,
+      JSON.stringify(quote.items || []),
+      JSON.stringify(quote.attachments || []),
+      quote.rawText || null,
+      quote.needsManualReview ? 1 : 0,
+      quote.logistics ? JSON.stringify(quote.logistics) : null,
+      new Date().toISOString(),
+    ]);
+
+    if (persist) this.databaseService.saveToFile();
+    return id;
+  }
+
+  getQuotesForRfq(rfqNumber: string): SupplierQuote[] {
+    const result = this.db.exec(`
+      SELECT * FROM supplier_quotes WHERE rfq_number = ? ORDER BY received_at ASC
+    `, [rfqNumber]);
+
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToQuote(result[0].columns, row));
+  }
+
+  getQuotesForRfqs(rfqNumbers: string[]): SupplierQuote[] {
+    if (rfqNumbers.length === 0) return [];
+
+    const placeholders = rfqNumbers.map(() => '?').join(', ');
+    const result = this.db.exec(`
+      SELECT * FROM supplier_quotes WHERE rfq_number IN (${placeholders}) ORDER BY received_at ASC
+    `, rfqNumbers);
+
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any) => this.mapRowToQuote(result[0].columns, row));
+  }
+
+  countQuotes(): number {
+    const result = this.db.exec(`SELECT COUNT(*) FROM supplier_quotes`);
+    return result.length > 0 ? result[0].values[0][0] : 0;
+  }
+
+  private mapRowToQuote(columns: string[], row: any[]): SupplierQuote {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+
+    return {
+      supplierEmail: obj.supplier_email,
+      supplierName: obj.supplier_name || undefined,
+      rfqNumber: obj.rfq_number,
+      receivedAt: new Date(obj.received_at),
+      subject: obj.subject || '',
+      currency: obj.currency || undefined,
+      totalAmount: obj.total_amount ?? undefined,
+      deliveryTime: obj.delivery_time || undefined,
+      paymentTerms: obj.payment_terms || undefined,
+      validity: obj.validity || undefined,
+      items: obj.items_json ? JSON.parse(obj.items_json) : [],
+      attachments: obj.attachments_json ? JSON.parse(obj.attachments_json) : [],
+      rawText: obj.raw_text || undefined,
+      needsManualReview: obj.needs_manual_review === 1,
+      logistics: obj.logistics_json ? JSON.parse(obj.logistics_json) : undefined,
+    };
+  }
+
+  // ============ AWARDS ============
+
+  insertAward(award: RfqAward): void {
+    this.db.run(`
+      INSERT INTO rfq_awards
+      (id, rfq_number, mode, awarded_at, awarded_by, notes, previous_status, purchase_orders_json, notified_suppliers_json, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      award.id,
+      award.rfqNumber,
+      award.mode,
+      this.toIso(award.awardedAt) || new Date().toISOString(),
+      award.awardedBy || null,
+      award.notes || null,
+      award.previousStatus || null,
+      JSON.stringify(award.purchaseOrders),
+      JSON.stringify(award.notifiedSuppliers),
+      new Date().toISOString(),
+    ]);
+    this.databaseService.saveToFile();
+  }
+
+  getAward(rfqNumber: string): RfqAward | undefined {
+    const result = this.db.exec(`SELECT * FROM rfq_awards WHERE rfq_number = ?`, [rfqNumber]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToAward(result[0].columns, result[0].values[0]);
+  }
+
+  private mapRowToAward(columns: string[], row: any[]): RfqAward {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+
+    return {
+      id: obj.id,
+      rfqNumber: obj.rfq_number,
+      mode: obj.mode,
+      awardedAt: new Date(obj.awarded_at),
+      awardedBy: obj.awarded_by || undefined,
+      notes: obj.notes || undefined,
+      previousStatus: obj.previous_status || undefined,
+      purchaseOrders: JSON.parse(obj.purchase_orders_json).map((po: any) => ({ ...po, issuedAt: new Date(po.issuedAt) })),
+      notifiedSuppliers: obj.notified_suppliers_json ? JSON.parse(obj.notified_suppliers_json) : [],
+    };
+  }
+
+  // ============ STATUS HISTORY ============
+
+  private appendHistory(
+    rfqNumber: string,
+    entityType: RfqStatusTransition['entityType'],
+    supplierEmail: string | undefined,
+    toStatus: string,
+    reason?: string,
+    fromStatus?: string,
+  ): void {
+    this.db.run(`
+      INSERT INTO rfq_status_history (id, rfq_number, entity_type, supplier_email, from_status, to_status, reason, changed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      uuidv4(),
+      rfqNumber,
+      entityType,
+      supplierEmail || null,
+      fromStatus || null,
+      toStatus,
+      reason || null,
+      new Date().toISOString(),
+    ]);
+  }
+
+  getStatusHistory(rfqNumber: string): RfqStatusTransition[] {
+    const result = this.db.exec(`
+      SELECT * FROM rfq_status_history WHERE rfq_number = ? ORDER BY changed_at ASC
+    `, [rfqNumber]);
+
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row: any) => {
+      const obj: any = {};
+      result[0].columns.forEach((col: string, i: number) => obj[col] = row[i]);
+      return {
+        id: obj.id,
+        rfqNumber: obj.rfq_number,
+        entityType: obj.entity_type,
+        supplierEmail: obj.supplier_email || undefined,
+        fromStatus: obj.from_status || undefined,
+        toStatus: obj.to_status,
+        reason: obj.reason || undefined,
+        changedAt: new Date(obj.changed_at),
+      };
+    });
+  }
+
+  // ============ ÉCHÉANCES ============
+
+  /**
+   * Demandes non clôturées ayant une échéance client
+   */
+  getOpenRfqsWithDeadline(): SentRfq[] {
+    const result = this.db.exec(`
+      SELECT * FROM sent_rfqs WHERE deadline IS NOT NULL AND status != 'clôturé' ORDER BY deadline ASC
+    `);
+    if (result.length === 0) return [];
+    return this.attachSuppliers(result[0].values.map((row: any) => this.mapRowToSentRfq(result[0].columns, row)));
+  }
+
+  getDeadlineAlerts(rfqNumber: string, deadline: Date): RfqDeadlineAlertRecord[] {
+    const result = this.db.exec(`
+      SELECT * FROM rfq_deadline_alerts WHERE rfq_number = ? AND deadline = ? ORDER BY alerted_at ASC
+    `, [rfqNumber, deadline.toISOString()]);
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row: any) => {
+      const obj: any = {};
+      result[0].columns.forEach((col: string, i: number) => obj[col] = row[i]);
+      return {
+        rfqNumber: obj.rfq_number,
+        kind: obj.kind,
+        thresholdHours: obj.threshold_hours,
+        deadline: new Date(obj.deadline),
+        alertedAt: new Date(obj.alerted_at),
+      };
+    });
+  }
+
+  insertDeadlineAlert(alert: Omit<RfqDeadlineAlertRecord, 'alertedAt'>, persist = true): void {
+    this.db.run(`
+      INSERT OR IGNORE INTO rfq_deadline_alerts (rfq_number, kind, threshold_hours, deadline, alerted_at)
+      VALUES (?, ?, ?, ?, ?)
+    `, [alert.rfqNumber, alert.kind, alert.thresholdHours, alert.deadline.toISOString(), new Date().toISOString()]);
+    if (persist) this.databaseService.saveToFile();
+  }
+
+  /**
+   * Demandes envoyées et offres reçues sur une période (résumé quotidien)
+   */
+  getActivityCounts(from: Date, to: Date): { sent: number; quotes: number } {
+    const count = (sql: string) => {
+      const result = this.db.exec(sql, [from.toISOString(), to.toISOString()]);
+      return result.length > 0 ? result[0].values[0][0] : 0;
+    };
+    return {
+      sent: count(`SELECT COUNT(*) FROM sent_rfqs WHERE sent_at >= ? AND sent_at < ?`),
+      quotes: count(`SELECT COUNT(*) FROM supplier_quotes WHERE received_at >= ? AND received_at < ?`),
+    };
+  }
+
+  // ============ DASHBOARD ============
+
+  getDashboardStats(filters: { from?: Date; to?: Date; clientEmail?: string } = {}): LifecycleDashboardStats {
+    let where = `WHERE 1=1`;
+    const params: any[] = [];
+
+    if (filters.from) { where += ` AND r.sent_at >= ?`; params.push(filters.from.toISOString()); }
+    if (filters.to) { where += ` AND r.sent_at <= ?`; params.push(filters.to.toISOString()); }
+    if (filters.clientEmail) { where += ` AND LOWER(r.client_email) = ?`; params.push(filters.clientEmail.toLowerCase()); }
+
+    const byStatus: LifecycleDashboardStats['byStatus'] = {
+      envoyé: 0,
+      en_attente: 0,
+      partiellement_répondu: 0,
+      complet: 0,
+      clôturé: 0,
+    };
+
+    let totalRfqs = 0;
+    const rfqResult = this.db.exec(`SELECT r.status, COUNT(*) FROM sent_rfqs r ${where} GROUP BY r.status`, params);
+    if (rfqResult.length > 0) {
+      for (const [status, count] of rfqResult[0].values) {
+        byStatus[status as SentRfq['status']] = count;
+        totalRfqs += count;
+      }
+    }
+
+    const supplierResult = this.db.exec(`
+      SELECT cs.status, COUNT(*) FROM consulted_suppliers cs
+      JOIN sent_rfqs r ON r.internal_rfq_number = cs.rfq_number
+      ${where}
+      GROUP BY cs.status
+    `, params);
+
+    const supplierCounts: Record<string, number> = {};
+    let totalSuppliers = 0;
+    if (supplierResult.length > 0) {
+      for (const [status, count] of supplierResult[0].values) {
+        supplierCounts[status] = count;
+        totalSuppliers += count;
+      }
+    }
+
+    const quoteResult = this.db.exec(`
+      SELECT COUNT(*) FROM supplier_quotes q
+      JOIN sent_rfqs r ON r.internal_rfq_number = q.rfq_number
+      ${where}
+    `, params);
+
+    return {
+      totalRfqs,
+      byStatus,
+      totalSuppliers,
+      suppliersWithQuotes: supplierCounts['offre_reçue'] || 0,
+      suppliersDeclined: supplierCounts['refus'] || 0,
+      suppliersPending: (supplierCounts['consulté'] || 0) + (supplierCounts['relancé'] || 0),
+      suppliersNoResponse: supplierCounts['sans_réponse'] || 0,
+      totalQuotes: quoteResult.length > 0 ? quoteResult[0].values[0][0] : 0,
+    };
+  }
+
+  // ============ UTILITAIRES ============
+
+  persist(): void {
+    this.databaseService.saveToFile();
+  }
+
+  private toIso(value: Date | string | undefined | null): string | null {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+}
@@ -1,31 +1,64 @@
-import { Controller, Get, Post, Param, Query, Res } from '@nestjs/common';
+import { BadRequestException, Controller, Get, Post, Put, Param, Query, Body, Res } from '@nestjs/common';
 import { Response } from 'express';
 import * as fs from 'fs';
-import { RfqLifecycleService } from './rfq-lifecycle.service';
+import { RfqLifecycleService, SentRfq } from './rfq-lifecycle.service';
 import { QuoteComparisonService } from './quote-comparison.service';
+import { LandedCostService, LandedCostConfig, LandedCostInput } from './landed-cost.service';
 import { ReminderService } from './reminder.service';
 import { InboundScannerService } from './inbound-scanner.service';
+import { AwardService, AwardRequest } from './award.service';
+import { RfqTimelineService } from './rfq-timeline.service';
+import { DeadlineWatcherService } from './deadline-watcher.service';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import { AuthenticatedUser } from '../auth/auth.interfaces';
 
 @Controller('rfq-lifecycle')
 export class RfqLifecycleController {
   constructor(
     private readonly lifecycleService: RfqLifecycleService,
     private readonly comparisonService: QuoteComparisonService,
+    private readonly landedCostService: LandedCostService,
     private readonly reminderService: ReminderService,
     private readonly inboundService: InboundScannerService,
+    private readonly awardService: AwardService,
+    private readonly timelineService: RfqTimelineService,
+    private readonly deadlineWatcher: DeadlineWatcherService,
   ) {}
 
   /**
    * GET /rfq-lifecycle/sent
-   * Liste toutes les demandes envoyées aux fournisseurs
+   * Liste les demandes envoyées aux fournisseurs
+   * Filtres: status, supplier, client, search, from, to - Pagination: page, limit
    */
   @Get('sent')
-  getSentRfqs() {
-    const rfqs = this.lifecycleService.getSentRfqs();
+  getSentRfqs(
+    @Query('status') status?: SentRfq['status'],
+    @Query('supplier') supplierEmail?: string,
+    @Query('client') clientEmail?: string,
+    @Query('search') search?: string,
+    @Query('from') fromStr?: string,
+    @Query('to') toStr?: string,
+    @Query('page') pageStr?: string,
+    @Query('limit') limitStr?: string,
+  ) {
+    const result = this.lifecycleService.findSentRfqs({
+      status,
+      supplierEmail,
+      clientEmail,
+      search,
+      from: fromStr ? new Date(fromStr) : undefined,
+      to: toStr ? new Date(toStr) : undefined,
+      page: pageStr ? parseInt(pageStr, 10) : undefined,
+      limit: limitStr ? parseInt(limitStr, 10) : undefined,
+    });
+
     return {
       success: true,
-      count: rfqs.length,
-      data: rfqs.map(rfq => ({
+      count: result.data.length,
+      total: result.total,
+      page: result.page,
+      limit: result.limit,
+      data: result.data.map(rfq => ({
         ...rfq,
         supplierCount: rfq.suppliers.length,
         respondedCount: rfq.suppliers.filter(s => s.status === 'offre_reçue').length,
@@ -65,6 +98,108 @@ export class RfqLifecycleController {
     };
   }
 
+  /**
+   * GET /rfq-lifecycle/sent/:rfqNumber/history
+   * Historique des transitions de statut (demande et fournisseurs)
+   */
+  @Get('sent/:rfqNumber/history')
+  getRfqHistory(@Param('rfqNumber') rfqNumber: string) {
+    const history = this.lifecycleService.getStatusHistory(rfqNumber);
+    return {
+      success: true,
+      count: history.length,
+      data: history,
+    };
+  }
+
+  /**
+   * GET /rfq-lifecycle/timeline/:rfqNumber
+   * Chronologie complète: réception, accusé, envoi fournisseurs, offres, comparatif, attribution
+   */
+  @Get('timeline/:rfqNumber')
+  async getRfqTimeline(@Param('rfqNumber') rfqNumber: string) {
+    const timeline = await this.timelineService.getTimeline(rfqNumber);
+    if (!timeline) {
+      return { success: false, error: 'RFQ non trouvé' };
+    }
+    return { success: true, data: timeline };
+  }
+
+  /**
+   * POST /rfq-lifecycle/sent/:rfqNumber/award
+   * Attribuer la demande (fournisseur unique ou par ligne du comparatif),
+   * générer les bons de commande en brouillon et clôturer la demande
+   */
+  @Post('sent/:rfqNumber/award')
+  async awardRfq(
+    @Param('rfqNumber') rfqNumber: string,
+    @Body() body: AwardRequest,
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    try {
+      const award = await this.awardService.award(rfqNumber, body || {}, user?.name);
+      return { success: true, data: award };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * GET /rfq-lifecycle/sent/:rfqNumber/award
+   * Attribution et bons de commande d'une demande
+   */
+  @Get('sent/:rfqNumber/award')
+  getAward(@Param('rfqNumber') rfqNumber: string) {
+    const award = this.awardService.getAward(rfqNumber);
+    if (!award) {
+      return { success: false, error: 'Attribution non trouvée' };
+    }
+    return { success: true, data: award };
+  }
+
+  /**
+   * GET /rfq-lifecycle/sent/:rfqNumber/award/:poNumber/download?format=pdf|xlsx
+   * Télécharger un bon de commande
+   */
+  @Get('sent/:rfqNumber/award/:poNumber/download')
+  downloadPurchaseOrder(
+    @Param('rfqNumber') rfqNumber: string,
+    @Param('poNumber') poNumber: string,
+    @Query('format') format: string = 'pdf',
+    @Res() res: Response,
+  ) {
+    const po = this.awardService.getAward(rfqNumber)?.purchaseOrders.find(p => p.poNumber === poNumber);
+    const filePath = format === 'xlsx' ? po?.excelPath : po?.pdfPath;
+
+    if (!filePath || !fs.existsSync(filePath)) {
+      return res.status(404).json({ success: false, error: 'Bon de commande non trouvé' });
+    }
+
+    res.setHeader('Content-Type', format === 'xlsx'
+      ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      : 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${poNumber}.${format === 'xlsx' ? 'xlsx' : 'pdf'}"`);
+
+    fs.createReadStream(filePath).pipe(res);
+  }
+
+  /**
+   * POST /rfq-lifecycle/import-json
+   * Importer un ancien fichier rfq-lifecycle-data.json dans la base
+   * (chemin relatif au dossier de sortie, 400 en dehors)
+   */
+  @Roles('admin')
+  @Post('import-json')
+  importLegacyJson(@Body() body: { filePath?: string }) {
+    try {
+      const result = this.lifecycleService.importLegacyJson(body?.filePath || undefined);
+      return { success: true, data: result };
+    } catch (error) {
+      if (error instanceof BadRequestException) throw error;
+      return { success: false, error: error.message };
+    }
+  }
+
   /**
    * POST /rfq-lifecycle/scan-sent
    * Scanner manuellement les emails envoyés
@@ -166,6 +301,45 @@ export class RfqLifecycleController {
     fs.createReadStream(comparison.filePath).pipe(res);
   }
 
+  /**
+   * GET /rfq-lifecycle/landed-cost/config
+   * Tarifs de fret, assurance et droits utilisés pour le coût rendu
+   */
+  @Get('landed-cost/config')
+  getLandedCostConfig() {
+    return { success: true, data: this.landedCostService.getConfig() };
+  }
+
+  /**
+   * PUT /rfq-lifecycle/landed-cost/config
+   * Mettre à jour les tarifs (champs fournis uniquement, 400 si invalides)
+   */
+  @Roles('admin')
+  @Put('landed-cost/config')
+  updateLandedCostConfig(@Body() body: Partial<LandedCostConfig>) {
+    return { success: true, data: this.landedCostService.updateConfig(body) };
+  }
+
+  /**
+   * POST /rfq-lifecycle/landed-cost/estimate
+   * Simuler le coût rendu CIF Abidjan d'une offre (montant en devise de base)
+   */
+  @Post('landed-cost/estimate')
+  estimateLandedCost(@Body() body: LandedCostInput) {
+    if (body.goodsValue === undefined || isNaN(Number(body.goodsValue))) {
+      return { success: false, error: 'goodsValue requis' };
+    }
+
+    return {
+      success: true,
+      data: this.landedCostService.estimate({
+        ...body,
+        goodsValue: Number(body.goodsValue),
+        at: body.at ? new Date(body.at) : undefined,
+      }),
+    };
+  }
+
   /**
    * GET /rfq-lifecycle/reminders/status
    * Statut des relances
@@ -217,6 +391,45 @@ export class RfqLifecycleController {
     };
   }
 
+  /**
+   * GET /rfq-lifecycle/deadlines
+   * Demandes dont l'échéance client est proche ou dépassée
+   */
+  @Get('deadlines')
+  getDeadlines() {
+    const alerts = this.deadlineWatcher.getAtRiskRfqs();
+    return {
+      success: true,
+      thresholds: this.deadlineWatcher.thresholds,
+      count: alerts.length,
+      data: alerts,
+    };
+  }
+
+  /**
+   * POST /rfq-lifecycle/deadlines/check
+   * Vérifier les échéances maintenant (alertes et webhooks des seuils non encore signalés)
+   */
+  @Post('deadlines/check')
+  async checkDeadlines() {
+    const result = await this.deadlineWatcher.checkDeadlines();
+    return { success: true, data: result };
+  }
+
+  /**
+   * GET /rfq-lifecycle/daily-summary?date=
+   * Résumé quotidien: demandes reçues, envoyées, offres reçues et demandes en retard
+   */
+  @Get('daily-summary')
+  async getDailySummary(@Query('date') dateStr?: string) {
+    const date = dateStr ? new Date(dateStr) : new Date();
+    if (isNaN(date.getTime())) {
+      return { success: false, error: 'Date invalide' };
+    }
+    const summary = await this.deadlineWatcher.buildDailySummary(date);
+    return { success: true, data: summary };
+  }
+
   /**
    * GET /rfq-lifecycle/suppliers
    * Liste tous les fournisseurs consultés
@@ -255,42 +468,28 @@ export class RfqLifecycleController {
 
   /**
    * GET /rfq-lifecycle/dashboard
-   * Tableau de bord global
+   * Tableau de bord global (filtres optionnels: from, to, client)
    */
   @Get('dashboard')
-  getDashboard() {
-    const rfqs = this.lifecycleService.getSentRfqs();
+  getDashboard(
+    @Query('from') fromStr?: string,
+    @Query('to') toStr?: string,
+    @Query('client') clientEmail?: string,
+  ) {
     const reminderStatus = this.reminderService.getReminderStatus();
-
-    const stats = {
-      totalRfqs: rfqs.length,
-      byStatus: {
-        envoyé: rfqs.filter(r => r.status === 'envoyé').length,
-        en_attente: rfqs.filter(r => r.status === 'en_attente').length,
-        partiellement_répondu: rfqs.filter(r => r.status === 'partiellement_répondu').length,
-        complet: rfqs.filter(r => r.status === 'complet').length,
-        clôturé: rfqs.filter(r => r.status === 'clôturé').length,
-      },
-      totalSuppliers: 0,
-      suppliersWithQuotes: 0,
-      suppliersDeclined: 0,
-      suppliersPending: 0,
-      pendingReminders: reminderStatus.pendingReminders,
-      remindersSentToday: reminderStatus.sentToday,
-    };
-
-    for (const rfq of rfqs) {
-      stats.totalSuppliers += rfq.suppliers.length;
-      for (const s of rfq.suppliers) {
-        if (s.status === 'offre_reçue') stats.suppliersWithQuotes++;
-        if (s.status === 'refus') stats.suppliersDeclined++;
-        if (s.status === 'consulté' || s.status === 'relancé') stats.suppliersPending++;
-      }
-    }
+    const stats = this.lifecycleService.getDashboardStats({
+      from: fromStr ? new Date(fromStr) : undefined,
+      to: toStr ? new Date(toStr) : undefined,
+      clientEmail,
+    });
 
     return {
       success: true,
-      data: stats,
+      data: {
+        ...stats,
+        pendingReminders: reminderStatus.pendingReminders,
+        remindersSentToday: reminderStatus.sentToday,
+      },
     };
   }
 }
@@ -1,26 +1,53 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
-import { ScheduleModule } from '@nestjs/schedule';
+import { DatabaseModule } from '../database/database.module';
+import { DraftModule } from '../draft/draft.module';
+import { MailModule } from '../mail/mail.module';
 import { RfqLifecycleService } from './rfq-lifecycle.service';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
 import { QuoteComparisonService } from './quote-comparison.service';
+import { LandedCostService } from './landed-cost.service';
+import { QuoteLineMatcherService } from './quote-line-matcher.service';
 import { ReminderService } from './reminder.service';
 import { InboundScannerService } from './inbound-scanner.service';
+import { SupplierScorecardService } from './supplier-scorecard.service';
+import { PurchaseOrderService } from './purchase-order.service';
+import { AwardService } from './award.service';
+import { RfqTimelineService } from './rfq-timeline.service';
+import { DeadlineWatcherService } from './deadline-watcher.service';
 import { RfqLifecycleController } from './rfq-lifecycle.controller';
+import { SupplierScorecardController } from './supplier-scorecard.controller';
 
 @Module({
-  imports: [ConfigModule, ScheduleModule.forRoot()],
+  imports: [ConfigModule, DatabaseModule, DraftModule, MailModule],
   providers: [
+    RfqLifecycleDatabaseService,
     RfqLifecycleService,
     QuoteComparisonService,
+    LandedCostService,
+    QuoteLineMatcherService,
     ReminderService,
     InboundScannerService,
+    SupplierScorecardService,
+    PurchaseOrderService,
+    AwardService,
+    RfqTimelineService,
+    DeadlineWatcherService,
   ],
-  controllers: [RfqLifecycleController],
+  controllers: [RfqLifecycleController, SupplierScorecardController],
   exports: [
+    RfqLifecycleDatabaseService,
     RfqLifecycleService,
     QuoteComparisonService,
+    LandedCostService,
+    QuoteLineMatcherService,
     ReminderService,
     InboundScannerService,
+    SupplierScorecardService,
+    PurchaseOrderService,
+    AwardService,
+    RfqTimelineService,
+    DeadlineWatcherService,
   ],
 })
 export class RfqLifecycleModule {}
@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as initSqlJs from 'sql.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RfqLifecycleService } from './rfq-lifecycle.service';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { DatabaseService } from '../database/database.service';
+import { DraftService, SupplierDispatch } from '../draft/draft.service';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { PriceRequest } from '../common/interfaces';
+
+describe('RfqLifecycleService', () => {
+  let service: RfqLifecycleService;
+  let lifecycleDb: RfqLifecycleDatabaseService;
+  let outputDir: string;
+
+  const priceRequest = {
+    requestNumber: 'DDP-20260105-001',
+    clientRfqNumber: 'PR-88',
+    clientEmail: 'achats@client.com',
+    items: [{ description: 'Pompe hydraulique', quantity: 2 }],
+  } as unknown as PriceRequest;
+
+  const dispatch = (supplierEmail: string, token: string, delivery: 'draft' | 'send'): SupplierDispatch => ({
+    supplierEmail,
+    token,
+    messageId: `<${token}@multipartsci.com>`,
+    subject: `Demande de Prix N° DDP-20260105-001 [${token}]`,
+    delivery,
+    success: true,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rfq-lifecycle-'));
+    const config: Record<string, any> = { 'app.outputDir': outputDir };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RfqLifecycleService,
+        RfqLifecycleDatabaseService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) },
+        },
+        {
+          provide: DatabaseService,
+          useValue: { db: new SQL.Database(), saveToFile: jest.fn(), addRfqMappingStatusListener: jest.fn() },
+        },
+        { provide: DraftService, useValue: { setDispatchRecorder: jest.fn() } },
+        {
+          provide: MailboxRegistryService,
+          useValue: {
+            getPrimaryAccount: jest.fn(),
+            getSenderAddress: jest.fn().mockReturnValue('procurement@multipartsci.com'),
+            getOwnAddresses: jest.fn().mockReturnValue(['procurement@multipartsci.com']),
+          },
+        },
+        { provide: EmailTemplateService, useValue: { addPreviewContributor: jest.fn() } },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<RfqLifecycleService>(RfqLifecycleService);
+    lifecycleDb = module.get<RfqLifecycleDatabaseService>(RfqLifecycleDatabaseService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  describe('supplier dispatches', () => {
+    it('should keep draft dispatches out of reminders until the Sent scan sees them', () => {
+      service.recordSupplierDispatches(priceRequest, [
+        dispatch('alpha@supplier.com', 'RFQT-AAAAAAAA', 'draft'),
+        dispatch('beta@supplier.com', 'RFQT-BBBBBBBB', 'draft'),
+      ]);
+
+      expect(lifecycleDb.getSuppliersForRfq('DDP-20260105-001').map(s => s.status))
+        .toEqual(['en_attente_envoi', 'en_attente_envoi']);
+      expect(service.getSuppliersNeedingReminder(3, -1)).toEqual([]);
+
+      // Envoyé depuis Thunderbird: Message-ID conservé pour l'un, jeton du sujet pour l'autre
+      const sentAt = new Date('2026-01-06T08:30:00Z');
+      expect(service.confirmSupplierDispatch({
+        subject: 'Demande de Prix N° DDP-20260105-001 [RFQT-AAAAAAAA]',
+        body: '',
+        messageId: '<RFQT-AAAAAAAA@multipartsci.com>',
+        sentAt,
+      })).toBe(true);
+      expect(service.confirmSupplierDispatch({
+        subject: 'Demande de Prix N° DDP-20260105-001 [RFQT-BBBBBBBB]',
+        body: '',
+        messageId: '<renouvele@thunderbird>',
+        sentAt,
+      })).toBe(true);
+      expect(service.confirmSupplierDispatch({ subject: 'Autre sujet', body: '', messageId: '<x@y>' })).toBe(false);
+
+      const alpha = lifecycleDb.getSupplier('DDP-20260105-001', 'alpha@supplier.com')!;
+      expect(alpha).toMatchObject({ status: 'consulté', consultedAt: sentAt });
+      expect(lifecycleDb.getSupplier('DDP-20260105-001', 'beta@supplier.com')!.status).toBe('consulté');
+      expect(service.getSuppliersNeedingReminder(3, -1).map(s => s.email).sort())
+        .toEqual(['alpha@supplier.com', 'beta@supplier.com']);
+      expect(lifecycleDb.getStatusHistory('DDP-20260105-001')).toEqual(expect.arrayContaining([
+        expect.objectContaining({ supplierEmail: 'alpha@supplier.com', fromStatus: 'en_attente_envoi', toStatus: 'consulté', reason: 'sent' }),
+      ]));
+    });
+
+    it('should record direct sends as consulted and promote a pending draft sent again directly', () => {
+      service.recordSupplierDispatches(priceRequest, [dispatch('alpha@supplier.com', 'RFQT-AAAAAAAA', 'draft')]);
+      service.recordSupplierDispatches(priceRequest, [
+        dispatch('alpha@supplier.com', 'RFQT-CCCCCCCC', 'send'),
+        dispatch('gamma@supplier.com', 'RFQT-DDDDDDDD', 'send'),
+      ]);
+
+      expect(lifecycleDb.getSupplier('DDP-20260105-001', 'alpha@supplier.com')).toMatchObject({
+        status: 'consulté',
+        dispatchToken: 'RFQT-CCCCCCCC',
+      });
+      expect(lifecycleDb.getSupplier('DDP-20260105-001', 'gamma@supplier.com')!.status).toBe('consulté');
+    });
+
+    it('should link a supplier reply to its dispatch by In-Reply-To, References, then token', () => {
+      service.recordSupplierDispatches(priceRequest, [
+        dispatch('alpha@supplier.com', 'RFQT-AAAAAAAA', 'send'),
+        dispatch('beta@supplier.com', 'RFQT-BBBBBBBB', 'send'),
+      ]);
+      const reply = { subject: 'RE: Demande de Prix N° DDP-20260105-001', body: 'Please find our offer attached' };
+
+      expect(service.findSupplierDispatch({ ...reply, inReplyTo: '<RFQT-AAAAAAAA@multipartsci.com>' })?.email)
+        .toBe('alpha@supplier.com');
+      expect(service.findSupplierDispatch({ ...reply, references: '<a@x> <RFQT-BBBBBBBB@multipartsci.com>' })?.email)
+        .toBe('beta@supplier.com');
+      expect(service.findSupplierDispatch({ ...reply, subject: 'TR: Demande de Prix [rfqt-bbbbbbbb]' })?.email)
+        .toBe('beta@supplier.com');
+      expect(service.findSupplierDispatch(reply)).toBeUndefined();
+    });
+  });
+
+  describe('legacy JSON import', () => {
+    // Format de l'ancien rfq-lifecycle-data.json (dates sérialisées en chaînes)
+    const legacyData = {
+      sentRfqs: {
+        'DDP-20250910-004': {
+          internalRfqNumber: 'DDP-20250910-004',
+          subject: 'Demande de Prix N° DDP-20250910-004',
+          sentAt: '2025-09-10T09:00:00.000Z',
+          sentBy: 'procurement@multipartsci.com',
+          status: 'partiellement_répondu',
+          suppliers: [
+            { email: 'Alpha@Supplier.com', consultedAt: '2025-09-10T09:00:00.000Z', status: 'offre_reçue', reminderCount: 0 },
+            { email: 'beta@supplier.com', rfqNumber: 'DDP-20250910-004', consultedAt: '2025-09-10T09:00:00.000Z', status: 'relancé', reminderCount: 1 },
+          ],
+        },
+        'DDP-20250911-001': {
+          internalRfqNumber: 'DDP-20250911-001',
+          subject: 'Demande de Prix N° DDP-20250911-001',
+          sentAt: '2025-09-11T09:00:00.000Z',
+          sentBy: 'procurement@multipartsci.com',
+          status: 'envoyé',
+          suppliers: [],
+        },
+      },
+      supplierQuotes: {
+        'DDP-20250910-004': [
+          {
+            supplierEmail: 'Alpha@Supplier.com',
+            receivedAt: '2025-09-12T14:00:00.000Z',
+            subject: 'RE: Demande de Prix N° DDP-20250910-004',
+            currency: 'EUR',
+            totalAmount: 1250,
+            items: [{ description: 'Pompe hydraulique', quantity: 2, unitPrice: 625 }],
+            attachments: [],
+            needsManualReview: false,
+          },
+          { receivedAt: '2025-09-12T15:00:00.000Z', subject: 'Sans expéditeur', items: [], attachments: [], needsManualReview: true },
+        ],
+      },
+    };
+
+    const writeLegacyFile = (fileName = 'rfq-lifecycle-data.json') => {
+      const filePath = path.join(outputDir, fileName);
+      fs.writeFileSync(filePath, JSON.stringify(legacyData));
+      return filePath;
+    };
+
+    it('should import RFQs, suppliers and quotes, and skip everything when replayed', () => {
+      const filePath = writeLegacyFile('export.json');
+
+      expect(service.importLegacyJson(filePath)).toEqual({
+        filePath,
+        rfqsImported: 2,
+        rfqsSkipped: 0,
+        suppliersImported: 2,
+        quotesImported: 1,
+      });
+
+      const rfq = lifecycleDb.getSentRfq('DDP-20250910-004')!;
+      expect(rfq).toMatchObject({ status: 'partiellement_répondu', sentAt: new Date('2025-09-10T09:00:00Z') });
+      expect(rfq.suppliers.map(s => [s.email, s.status])).toEqual([
+        ['alpha@supplier.com', 'offre_reçue'],
+        ['beta@supplier.com', 'relancé'],
+      ]);
+      expect(lifecycleDb.getQuotesForRfq('DDP-20250910-004')).toEqual([
+        expect.objectContaining({ supplierEmail: 'alpha@supplier.com', totalAmount: 1250, rfqNumber: 'DDP-20250910-004' }),
+      ]);
+
+      expect(service.importLegacyJson(filePath)).toEqual({
+        filePath,
+        rfqsImported: 0,
+        rfqsSkipped: 2,
+        suppliersImported: 0,
+        quotesImported: 0,
+      });
+      expect(lifecycleDb.findSentRfqs().total).toBe(2);
+      expect(lifecycleDb.getSuppliersForRfq('DDP-20250910-004')).toHaveLength(2);
+      expect(lifecycleDb.getQuotesForRfq('DDP-20250910-004')).toHaveLength(1);
+    });
+
+    it('should resolve the file against the output directory and refuse paths outside it', () => {
+      writeLegacyFile('export.json');
+
+      expect(service.importLegacyJson('export.json')).toMatchObject({
+        filePath: path.join(outputDir, 'export.json'),
+        rfqsImported: 2,
+      });
+      expect(() => service.importLegacyJson('../export.json')).toThrow(BadRequestException);
+      expect(() => service.importLegacyJson('/etc/passwd')).toThrow(BadRequestException);
+    });
+
+    it('should import the old data file once at startup and rename it', async () => {
+      const filePath = writeLegacyFile();
+
+      await service.onModuleInit();
+
+      expect(fs.existsSync(filePath)).toBe(false);
+      expect(fs.existsSync(`${filePath}.imported`)).toBe(true);
+      expect(lifecycleDb.findSentRfqs().total).toBe(2);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as Imap from 'imap';
 import { simpleParser } from 'mailparser';
@@ -6,6 +6,15 @@ import * as XLSX from 'xlsx';
 import * as fs from 'fs';
 import * as path from 'path';
 import { LogisticsInfo } from './logistics.interface';
+import { RfqLifecycleDatabaseService, SentRfqFilters } from './rfq-lifecycle-database.service';
+import { DraftService, SupplierDispatch, SupplierDispatchRecorder } from '../draft/draft.service';
+import { PriceRequest } from '../common/interfaces';
+import { extractDispatchTokens } from '../common/dispatch-token';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { MailboxAccount } from '../mailbox/mailbox.interfaces';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { TemplatePreviewContributor } from '../templates/email-template.interfaces';
+import { formatDate } from '../templates/template-variables';
 
 /**
  * Structure d'un fournisseur consulté
@@ -15,11 +24,13 @@ export interface ConsultedSupplier {
   name?: string;
   consultedAt: Date;
   rfqNumber: string;
-  status: 'consulté' | 'offre_reçue' | 'refus' | 'relancé' | 'sans_réponse';
+  status: 'en_attente_envoi' | 'consulté' | 'offre_reçue' | 'refus' | 'relancé' | 'sans_réponse'; // en_attente_envoi: brouillon pas encore envoyé
   lastReminderAt?: Date;
   reminderCount: number;
   responseAt?: Date;
   quoteReference?: string;
+  dispatchToken?: string;       // Jeton de l'envoi individuel (RFQT-XXXXXXXX)
+  messageId?: string;           // Message-ID de l'envoi individuel
 }
 
 /**
@@ -75,6 +86,10 @@ export interface QuoteItem {
   currency?: string;
   deliveryTime?: string;
   notes?: string;
+
+  // Offre renvoyée sur notre modèle Excel
+  lineId?: string;                // Identifiant de la ligne demandée (ex: L001)
+  reviewFlag?: string;            // Ligne déplacée, modifiée ou ajoutée par le fournisseur
   
   // Logistique par article
   weightKg?: number;
@@ -82,88 +97,142 @@ export interface QuoteItem {
   countryOfOrigin?: string;
 }
 
+/**
+ * Résultat de l'import des anciennes données JSON
+ */
+export interface LegacyImportResult {
+  filePath: string;
+  rfqsImported: number;
+  rfqsSkipped: number;
+  suppliersImported: number;
+  quotesImported: number;
+}
+
 @Injectable()
-export class RfqLifecycleService {
+export class RfqLifecycleService implements OnModuleInit, SupplierDispatchRecorder, TemplatePreviewContributor {
   private readonly logger = new Logger(RfqLifecycleService.name);
-  private readonly dataFilePath: string;
-  private sentRfqs: Map<string, SentRfq> = new Map();
-  private supplierQuotes: Map<string, SupplierQuote[]> = new Map();
-
-  // Adresses email à surveiller
-  private readonly monitoredEmails = [
-    'procurement@multipartsci.com',
-    'rafiou.oyeossi@multipartsci.com',
-  ];
-
-  constructor(private configService: ConfigService) {
-    const dataDir = this.configService.get<string>('app.outputDir', './output');
-    this.dataFilePath = path.join(dataDir, 'rfq-lifecycle-data.json');
-    this.loadData();
+  private readonly dataDir: string;
+  private readonly legacyDataFilePath: string;
+
+  constructor(
+    private configService: ConfigService,
+    private lifecycleDb: RfqLifecycleDatabaseService,
+    private draftService: DraftService,
+    private mailboxRegistry: MailboxRegistryService,
+    private templateService: EmailTemplateService,
+  ) {
+    this.dataDir = path.resolve(this.configService.get<string>('app.outputDir', './output'));
+    this.legacyDataFilePath = path.join(this.dataDir, 'rfq-lifecycle-data.json');
   }
 
-  /**
-   * Charge les données persistées
-   */
-  private loadData(): void {
-    try {
-      if (fs.existsSync(this.dataFilePath)) {
-        const data = JSON.parse(fs.readFileSync(this.dataFilePath, 'utf-8'));
-        
-        // Reconstruire les Maps
-        if (data.sentRfqs) {
-          this.sentRfqs = new Map(Object.entries(data.sentRfqs));
-        }
-        if (data.supplierQuotes) {
-          this.supplierQuotes = new Map(Object.entries(data.supplierQuotes));
-        }
-        
-        this.logger.log(`Données RFQ lifecycle chargées: ${this.sentRfqs.size} RFQs`);
+  async onModuleInit() {
+    if (!this.lifecycleDb.ensureTables()) return;
+
+    // Les envois individuels créent les fournisseurs consultés dès l'envoi
+    this.draftService.setDispatchRecorder(this);
+    // Prévisualisation des modèles d'email avec les données d'une demande envoyée
+    this.templateService.addPreviewContributor(this);
+
+    // Import unique de l'ancien fichier rfq-lifecycle-data.json
+    if (fs.existsSync(this.legacyDataFilePath)) {
+      try {
+        const result = this.importLegacyJson(this.legacyDataFilePath);
+        fs.renameSync(this.legacyDataFilePath, `${this.legacyDataFilePath}.imported`);
+        this.logger.log(`Données RFQ lifecycle importées depuis JSON: ${result.rfqsImported} RFQs, ${result.quotesImported} offres`);
+      } catch (error) {
+        this.logger.warn(`Erreur import données JSON: ${error.message}`);
       }
-    } catch (error) {
-      this.logger.warn(`Erreur chargement données: ${error.message}`);
     }
   }
 
   /**
-   * Sauvegarde les données
+   * Importe un fichier rfq-lifecycle-data.json (ancien format) dans la base.
+   * Le chemin est relatif au dossier de sortie (app.outputDir), refusé en dehors.
+   * Les RFQs déjà présents sont ignorés, l'import peut donc être rejoué sans doublon.
    */
-  private saveData(): void {
-    try {
-      const dir = path.dirname(this.dataFilePath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
+  importLegacyJson(filePath: string = this.legacyDataFilePath): LegacyImportResult {
+    const resolved = path.resolve(this.dataDir, filePath);
+    if (!resolved.startsWith(this.dataDir + path.sep)) {
+      throw new BadRequestException(`Chemin hors du dossier de sortie (${this.dataDir}): ${filePath}`);
+    }
+
+    const data = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+    const result: LegacyImportResult = {
+      filePath: resolved,
+      rfqsImported: 0,
+      rfqsSkipped: 0,
+      suppliersImported: 0,
+      quotesImported: 0,
+    };
+
+    const sentRfqs: Record<string, SentRfq> = data.sentRfqs || {};
+    for (const rfq of Object.values(sentRfqs)) {
+      if (!rfq?.internalRfqNumber) continue;
+
+      if (this.lifecycleDb.insertSentRfq({ ...rfq, suppliers: [] }, false)) {
+        result.rfqsImported++;
+      } else {
+        result.rfqsSkipped++;
+      }
+
+      for (const supplier of rfq.suppliers || []) {
+        const imported = this.lifecycleDb.insertConsultedSupplier(
+          { ...supplier, rfqNumber: supplier.rfqNumber || rfq.internalRfqNumber },
+          false,
+        );
+        if (imported) result.suppliersImported++;
       }
+    }
 
-      const data = {
-        sentRfqs: Object.fromEntries(this.sentRfqs),
-        supplierQuotes: Object.fromEntries(this.supplierQuotes),
-        lastUpdate: new Date().toISOString(),
-      };
+    const existingQuoteKeys = new Set<string>();
+    const supplierQuotes: Record<string, SupplierQuote[]> = data.supplierQuotes || {};
+    for (const [rfqNumber, quotes] of Object.entries(supplierQuotes)) {
+      for (const existing of this.lifecycleDb.getQuotesForRfq(rfqNumber)) {
+        existingQuoteKeys.add(`${rfqNumber}|${existing.supplierEmail}|${new Date(existing.receivedAt).toISOString()}`);
+      }
 
-      fs.writeFileSync(this.dataFilePath, JSON.stringify(data, null, 2));
-    } catch (error) {
-      this.logger.error(`Erreur sauvegarde données: ${error.message}`);
+      for (const quote of quotes || []) {
+        const key = `${rfqNumber}|${quote.supplierEmail?.toLowerCase()}|${new Date(quote.receivedAt).toISOString()}`;
+        if (!quote.supplierEmail || existingQuoteKeys.has(key)) continue;
+
+        this.lifecycleDb.insertQuote({ ...quote, rfqNumber: quote.rfqNumber || rfqNumber }, false);
+        existingQuoteKeys.add(key);
+        result.quotesImported++;
+      }
     }
+
+    this.lifecycleDb.persist();
+    return result;
   }
 
   /**
-   * Scanner le dossier Sent pour détecter les demandes envoyées aux fournisseurs
+   * Scanner le dossier Sent de chaque boîte d'envoi (rôle procurement_sending)
+   * pour détecter les demandes envoyées aux fournisseurs
    */
   async scanSentEmails(): Promise<SentRfq[]> {
     const newRfqs: SentRfq[] = [];
+    const accounts = this.mailboxRegistry.getAccountsForRole('procurement_sending');
+    for (const account of accounts.length > 0 ? accounts : [undefined]) {
+      newRfqs.push(...await this.scanSentFolder(account));
+    }
+    return newRfqs;
+  }
+
+  private async scanSentFolder(account?: MailboxAccount): Promise<SentRfq[]> {
+    const newRfqs: SentRfq[] = [];
 
     try {
-      const imapConfig = this.getImapConfig();
+      const imapConfig = this.getImapConfig(account);
       const imap = new Imap(imapConfig);
 
       await new Promise<void>((resolve, reject) => {
         imap.once('ready', async () => {
           try {
-            const sentFolder = this.configService.get<string>('drafts.sentFolder', 'INBOX.Sent');
+            const sentFolder = this.mailboxRegistry.getFolder(account, 'sent');
             
             imap.openBox(sentFolder, true, async (err, box) => {
               if (err) {
-                this.logger.error(`Erreur ouverture dossier Sent: ${err.message}`);
+                this.logger.error(`Erreur ouverture dossier ${sentFolder}${account ? ` (${account.email})` : ''}: ${err.message}`);
                 imap.end();
                 resolve();
                 return;
@@ -222,7 +291,6 @@ export class RfqLifecycleService {
         imap.connect();
       });
 
-      this.saveData();
       return newRfqs;
 
     } catch (error) {
@@ -243,7 +311,12 @@ export class RfqLifecycleService {
     const messageId = parsed.messageId;
 
     // Vérifier si c'est un email envoyé par nous
-    if (!this.monitoredEmails.some(email => from.includes(email.toLowerCase()))) {
+    if (!this.mailboxRegistry.getOwnAddresses().some(email => from.includes(email))) {
+      return null;
+    }
+
+    // Brouillon d'envoi individuel parti depuis le client mail: le fournisseur devient consulté
+    if (this.confirmSupplierDispatch({ subject, body, messageId, sentAt: parsed.date })) {
       return null;
     }
 
@@ -260,21 +333,18 @@ export class RfqLifecycleService {
     }
 
     // Vérifier si déjà enregistré
-    if (this.sentRfqs.has(rfqNumber)) {
+    if (this.lifecycleDb.hasSentRfq(rfqNumber)) {
       // Mettre à jour les fournisseurs consultés
-      const existing = this.sentRfqs.get(rfqNumber)!;
       const newSuppliers = this.extractSupplierEmails(to, cc);
       
       for (const supplierEmail of newSuppliers) {
-        if (!existing.suppliers.find(s => s.email === supplierEmail)) {
-          existing.suppliers.push({
-            email: supplierEmail,
-            consultedAt: parsed.date || new Date(),
-            rfqNumber,
-            status: 'consulté',
-            reminderCount: 0,
-          });
-        }
+        this.lifecycleDb.insertConsultedSupplier({
+          email: supplierEmail,
+          consultedAt: parsed.date || new Date(),
+          rfqNumber,
+          status: 'consulté',
+          reminderCount: 0,
+        });
       }
       
       return null; // Déjà existant, mis à jour
@@ -311,12 +381,115 @@ export class RfqLifecycleService {
       sentRfq.deadline = new Date(deadlineMatch[1]);
     }
 
-    this.sentRfqs.set(rfqNumber, sentRfq);
+    if (!this.lifecycleDb.insertSentRfq(sentRfq)) {
+      return null; // Enregistré entre-temps par un scan concurrent
+    }
     this.logger.log(`Nouvelle demande détectée: ${rfqNumber} → ${suppliers.length} fournisseur(s)`);
 
     return sentRfq;
   }
 
+  /**
+   * Enregistrer les envois individuels d'une demande (un par fournisseur):
+   * crée la demande si besoin et un fournisseur avec jeton et Message-ID. Un envoi direct est
+   * consulté; un brouillon reste en attente d'envoi (pas de relance) jusqu'à ce que le scan
+   * des Envoyés le retrouve.
+   */
+  recordSupplierDispatches(priceRequest: PriceRequest, dispatches: SupplierDispatch[]): void {
+    const rfqNumber = priceRequest.requestNumber;
+    const now = new Date();
+
+    const suppliers: ConsultedSupplier[] = dispatches.map(d => ({
+      email: d.supplierEmail.toLowerCase(),
+      rfqNumber,
+      consultedAt: now,
+      status: d.delivery === 'send' ? 'consulté' : 'en_attente_envoi',
+      reminderCount: 0,
+      dispatchToken: d.token,
+      messageId: d.messageId,
+    }));
+
+    const created = this.lifecycleDb.insertSentRfq({
+      internalRfqNumber: rfqNumber,
+      clientRfqNumber: priceRequest.clientRfqNumber,
+      subject: dispatches.length > 0 ? dispatches[0].subject.replace(` [${dispatches[0].token}]`, '') : rfqNumber,
+      sentAt: now,
+      sentBy: this.mailboxRegistry.getSenderAddress(this.mailboxRegistry.getPrimaryAccount('procurement_sending'))
+        || this.mailboxRegistry.getOwnAddresses()[0],
+      suppliers,
+      status: 'envoyé',
+      clientEmail: priceRequest.clientEmail,
+      clientName: priceRequest.clientName,
+      itemCount: priceRequest.items.length,
+      deadline: priceRequest.deadline,
+    });
+
+    if (!created) {
+      for (const supplier of suppliers) {
+        if (!this.lifecycleDb.insertConsultedSupplier(supplier)) {
+          // Fournisseur déjà enregistré: le dernier envoi fait foi pour rattacher les réponses
+          const existing = this.lifecycleDb.getSupplier(rfqNumber, supplier.email);
+          const sentNow = existing?.status === 'en_attente_envoi' && supplier.status === 'consulté';
+          this.lifecycleDb.updateSupplier(rfqNumber, supplier.email, {
+            dispatchToken: supplier.dispatchToken,
+            messageId: supplier.messageId,
+            ...(sentNow ? { status: 'consulté' as const, consultedAt: now } : {}),
+          }, sentNow ? 'sent' : undefined);
+        }
+      }
+    }
+
+    const drafts = suppliers.filter(supplier => supplier.status === 'en_attente_envoi').length;
+    this.logger.log(
+      `Envois individuels enregistrés: ${rfqNumber} → ${suppliers.length} fournisseur(s)${drafts > 0 ? ` dont ${drafts} brouillon(s) en attente d'envoi` : ''}`,
+    );
+  }
+
+  /**
+   * Email trouvé dans les Envoyés: si c'est un brouillon d'envoi individuel (Message-ID, ou jeton
+   * RFQT- si le client mail a renouvelé le Message-ID), le fournisseur passe en consulté à la date
+   * d'envoi. Retourne true si l'email correspond à un envoi individuel.
+   */
+  confirmSupplierDispatch(outbound: { subject: string; body: string; messageId?: string; sentAt?: Date }): boolean {
+    const supplier = (outbound.messageId && this.lifecycleDb.findSupplierByMessageId(outbound.messageId))
+      || extractDispatchTokens(outbound.subject)
+        .map(token => this.lifecycleDb.findSupplierByDispatchToken(token))
+        .find((found): found is ConsultedSupplier => !!found);
+    if (!supplier) return false;
+
+    if (supplier.status === 'en_attente_envoi') {
+      this.lifecycleDb.updateSupplier(supplier.rfqNumber, supplier.email, {
+        status: 'consulté',
+        consultedAt: outbound.sentAt || new Date(),
+      }, 'sent');
+      this.logger.log(`Brouillon envoyé: ${supplier.rfqNumber} → ${supplier.email}`);
+    }
+    return true;
+  }
+
+  /**
+   * Retrouver l'envoi individuel auquel répond un email:
+   * In-Reply-To, puis References, puis jeton RFQT- dans le sujet ou le corps
+   */
+  findSupplierDispatch(reply: { subject: string; body: string; inReplyTo?: string; references?: string | string[] }): ConsultedSupplier | undefined {
+    const messageIds = [
+      reply.inReplyTo,
+      ...(Array.isArray(reply.references) ? reply.references : (reply.references || '').split(/\s+/)),
+    ].filter((id): id is string => !!id);
+
+    for (const messageId of messageIds) {
+      const supplier = this.lifecycleDb.findSupplierByMessageId(messageId);
+      if (supplier) return supplier;
+    }
+
+    for (const token of extractDispatchTokens(`${reply.subject} ${reply.body}`)) {
+      const supplier = this.lifecycleDb.findSupplierByDispatchToken(token);
+      if (supplier) return supplier;
+    }
+
+    return undefined;
+  }
+
   /**
    * Détecter si c'est un email de demande de prix
    */
@@ -375,9 +548,10 @@ export class RfqLifecycleService {
     const emails = combined.match(emailPattern) || [];
     
     // Filtrer nos propres adresses
+    const ownAddresses = this.mailboxRegistry.getOwnAddresses();
     return emails
       .map(e => e.toLowerCase())
-      .filter(e => !this.monitoredEmails.some(m => e.includes(m.toLowerCase())))
+      .filter(e => !ownAddresses.some(m => e.includes(m)))
       .filter(e => !e.includes('multipartsci.com')); // Exclure notre domaine
   }
 
@@ -396,77 +570,117 @@ export class RfqLifecycleService {
   }
 
   /**
-   * Obtenir la configuration IMAP
+   * Obtenir la configuration IMAP d'une boîte (environnement si aucun compte)
    */
-  private getImapConfig(): Imap.Config {
-    return {
-      user: this.configService.get<string>('imap.user')!,
-      password: this.configService.get<string>('imap.password')!,
-      host: this.configService.get<string>('imap.host')!,
-      port: this.configService.get<number>('imap.port')!,
-      tls: this.configService.get<boolean>('imap.tls', true),
-      tlsOptions: { rejectUnauthorized: false },
-      authTimeout: 10000,
-    };
+  private getImapConfig(account?: MailboxAccount): Imap.Config {
+    return this.mailboxRegistry.getImapConfig(account);
   }
 
   /**
    * Obtenir toutes les demandes envoyées
    */
   getSentRfqs(): SentRfq[] {
-    return Array.from(this.sentRfqs.values());
+    return this.lifecycleDb.getAllSentRfqs();
+  }
+
+  /**
+   * Rechercher les demandes envoyées (filtres + pagination)
+   */
+  findSentRfqs(filters: SentRfqFilters): { total: number; page: number; limit: number; data: SentRfq[] } {
+    return this.lifecycleDb.findSentRfqs(filters);
   }
 
   /**
    * Obtenir une demande par numéro
    */
   getRfqByNumber(rfqNumber: string): SentRfq | undefined {
-    return this.sentRfqs.get(rfqNumber);
+    return this.lifecycleDb.getSentRfq(rfqNumber);
+  }
+
+  /**
+   * Variables de modèle d'email d'une demande envoyée (référence, échéance, avancement des consultations)
+   */
+  getTemplateVariables(rfq: SentRfq): Record<string, any> {
+    const countStatus = (...statuses: ConsultedSupplier['status'][]) =>
+      rfq.suppliers.filter(s => statuses.includes(s.status)).length;
+
+    return {
+      rfqNumber: rfq.internalRfqNumber,
+      clientRfqNumber: rfq.clientRfqNumber,
+      subject: rfq.subject,
+      clientName: rfq.clientName,
+      clientEmail: rfq.clientEmail,
+      itemCount: rfq.itemCount,
+      deadline: rfq.deadline ? formatDate(rfq.deadline) : undefined,
+      receivedDate: formatDate(rfq.clientReceivedAt || rfq.sentAt),
+      totalSuppliers: rfq.suppliers.length,
+      quotesReceived: countStatus('offre_reçue'),
+      declined: countStatus('refus'),
+      pending: countStatus('consulté', 'relancé'),
+      noResponse: countStatus('sans_réponse'),
+    };
+  }
+
+  /**
+   * Variables propres à un fournisseur consulté
+   */
+  getSupplierTemplateVariables(supplier: ConsultedSupplier): Record<string, any> {
+    return {
+      supplierEmail: supplier.email,
+      supplierName: supplier.name,
+      consultedDate: formatDate(supplier.consultedAt),
+      daysSince: Math.floor((Date.now() - new Date(supplier.consultedAt).getTime()) / (1000 * 60 * 60 * 24)),
+      reminderNumber: supplier.reminderCount + 1,
+      firstReminder: supplier.reminderCount === 0,
+    };
+  }
+
+  /**
+   * Prévisualisation des modèles: la demande et son premier fournisseur consulté
+   */
+  getPreviewVariables(rfqNumber: string): Record<string, any> | undefined {
+    const rfq = this.lifecycleDb.getSentRfq(rfqNumber);
+    if (!rfq) return undefined;
+    return {
+      ...this.getTemplateVariables(rfq),
+      ...(rfq.suppliers[0] ? this.getSupplierTemplateVariables(rfq.suppliers[0]) : {}),
+    };
+  }
+
+  /**
+   * Historique des transitions de statut d'une demande et de ses fournisseurs
+   */
+  getStatusHistory(rfqNumber: string) {
+    return this.lifecycleDb.getStatusHistory(rfqNumber);
+  }
+
+  /**
+   * Statistiques du tableau de bord calculées en SQL
+   */
+  getDashboardStats(filters: { from?: Date; to?: Date; clientEmail?: string } = {}) {
+    return this.lifecycleDb.getDashboardStats(filters);
   }
 
   /**
    * Obtenir les fournisseurs sans réponse pour les relances
    */
   getSuppliersNeedingReminder(maxReminderCount = 3, minDaysSinceLastContact = 2): ConsultedSupplier[] {
-    const suppliers: ConsultedSupplier[] = [];
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - minDaysSinceLastContact);
 
-    for (const rfq of this.sentRfqs.values()) {
-      for (const supplier of rfq.suppliers) {
-        if (
-          supplier.status === 'consulté' || 
-          supplier.status === 'relancé' ||
-          supplier.status === 'sans_réponse'
-        ) {
-          const lastContact = supplier.lastReminderAt || supplier.consultedAt;
-          if (
-            lastContact < cutoffDate && 
-            supplier.reminderCount < maxReminderCount
-          ) {
-            suppliers.push(supplier);
-          }
-        }
-      }
-    }
-
-    return suppliers;
+    return this.lifecycleDb.getSuppliersAwaitingResponse(cutoffDate, maxReminderCount);
   }
 
   /**
    * Marquer un fournisseur comme relancé
    */
   markSupplierReminded(rfqNumber: string, supplierEmail: string): void {
-    const rfq = this.sentRfqs.get(rfqNumber);
-    if (rfq) {
-      const supplier = rfq.suppliers.find(s => s.email === supplierEmail);
-      if (supplier) {
-        supplier.status = 'relancé';
-        supplier.lastReminderAt = new Date();
-        supplier.reminderCount++;
-        this.saveData();
-      }
-    }
+    this.lifecycleDb.updateSupplier(
+      rfqNumber,
+      supplierEmail,
+      { status: 'relancé', incrementReminder: true },
+      'reminder_sent',
+    );
   }
 
   /**
@@ -474,30 +688,19 @@ export class RfqLifecycleService {
    */
   registerSupplierQuote(quote: SupplierQuote): void {
     // Mettre à jour le statut du fournisseur
-    const rfq = this.sentRfqs.get(quote.rfqNumber);
-    if (rfq) {
-      const supplier = rfq.suppliers.find(s => s.email === quote.supplierEmail);
-      if (supplier) {
-        supplier.status = 'offre_reçue';
-        supplier.responseAt = quote.receivedAt;
-        supplier.quoteReference = quote.subject;
-      }
-
-      // Mettre à jour le statut de la demande
-      const respondedCount = rfq.suppliers.filter(s => s.status === 'offre_reçue').length;
-      if (respondedCount === rfq.suppliers.length) {
-        rfq.status = 'complet';
-      } else if (respondedCount > 0) {
-        rfq.status = 'partiellement_répondu';
-      }
-    }
+    this.lifecycleDb.updateSupplier(
+      quote.rfqNumber,
+      quote.supplierEmail,
+      { status: 'offre_reçue', responseAt: quote.receivedAt, quoteReference: quote.subject },
+      'quote_received',
+    );
 
     // Stocker l'offre
-    const quotes = this.supplierQuotes.get(quote.rfqNumber) || [];
-    quotes.push(quote);
-    this.supplierQuotes.set(quote.rfqNumber, quotes);
+    this.lifecycleDb.insertQuote(quote);
+
+    // Mettre à jour le statut de la demande
+    this.refreshRfqStatus(quote.rfqNumber);
 
-    this.saveData();
     this.logger.log(`Offre enregistrée: ${quote.supplierEmail} pour ${quote.rfqNumber}`);
   }
 
@@ -505,15 +708,32 @@ export class RfqLifecycleService {
    * Enregistrer un refus de fournisseur
    */
   registerSupplierDecline(rfqNumber: string, supplierEmail: string): void {
-    const rfq = this.sentRfqs.get(rfqNumber);
-    if (rfq) {
-      const supplier = rfq.suppliers.find(s => s.email === supplierEmail);
-      if (supplier) {
-        supplier.status = 'refus';
-        supplier.responseAt = new Date();
-        this.saveData();
-        this.logger.log(`Refus enregistré: ${supplierEmail} pour ${rfqNumber}`);
-      }
+    const updated = this.lifecycleDb.updateSupplier(
+      rfqNumber,
+      supplierEmail,
+      { status: 'refus', responseAt: new Date() },
+      'declined',
+    );
+    if (updated) {
+      this.logger.log(`Refus enregistré: ${supplierEmail} pour ${rfqNumber}`);
+    }
+  }
+
+  /**
+   * Recalcule le statut de la demande à partir des réponses fournisseurs
+   */
+  private refreshRfqStatus(rfqNumber: string): void {
+    // Une demande attribuée reste clôturée, même si une offre arrive après coup
+    if (this.lifecycleDb.getSentRfq(rfqNumber)?.status === 'clôturé') return;
+
+    const suppliers = this.lifecycleDb.getSuppliersForRfq(rfqNumber);
+    if (suppliers.length === 0) return;
+
+    const respondedCount = suppliers.filter(s => s.status === 'offre_reçue').length;
+    if (respondedCount === suppliers.length) {
+      this.lifecycleDb.updateRfqStatus(rfqNumber, 'complet', 'all_quotes_received');
+    } else if (respondedCount > 0) {
+      this.lifecycleDb.updateRfqStatus(rfqNumber, 'partiellement_répondu', 'quote_received');
     }
   }
 
@@ -521,20 +741,17 @@ export class RfqLifecycleService {
    * Obtenir les offres pour un RFQ
    */
   getQuotesForRfq(rfqNumber: string): SupplierQuote[] {
-    return this.supplierQuotes.get(rfqNumber) || [];
+    return this.lifecycleDb.getQuotesForRfq(rfqNumber);
   }
 
   /**
    * Marquer un email de suivi client comme envoyé
    */
   markClientReassuranceSent(rfqNumber: string): void {
-    const rfq = this.sentRfqs.get(rfqNumber);
-    if (rfq) {
-      rfq.clientReassuranceSentAt = new Date();
-      rfq.clientReassuranceCount = (rfq.clientReassuranceCount || 0) + 1;
-      this.saveData();
-      this.logger.log(`Email de suivi client envoyé pour ${rfqNumber} (count: ${rfq.clientReassuranceCount})`);
-    }
+    if (!this.lifecycleDb.hasSentRfq(rfqNumber)) return;
+
+    const count = this.lifecycleDb.updateClientReassurance(rfqNumber);
+    this.logger.log(`Email de suivi client envoyé pour ${rfqNumber} (count: ${count})`);
   }
 
   /**
@@ -542,8 +759,12 @@ export class RfqLifecycleService {
    * Envoyer un email de suivi si des relances ont été faites et qu'on n'a pas encore informé le client
    */
   needsClientReassurance(rfqNumber: string, minDaysSinceLastReassurance = 3): boolean {
-    const rfq = this.sentRfqs.get(rfqNumber);
-    if (!rfq || !rfq.clientEmail) return false;
+    const rfq = this.lifecycleDb.getSentRfq(rfqNumber);
+    return rfq ? this.rfqNeedsClientReassurance(rfq, minDaysSinceLastReassurance) : false;
+  }
+
+  private rfqNeedsClientReassurance(rfq: SentRfq, minDaysSinceLastReassurance: number): boolean {
+    if (!rfq.clientEmail) return false;
 
     // Vérifier si au moins un fournisseur a été relancé
     const hasRemindedSuppliers = rfq.suppliers.some(s => s.reminderCount > 0);
@@ -562,27 +783,22 @@ export class RfqLifecycleService {
    * Obtenir les RFQs qui nécessitent un email de suivi client
    */
   getRfqsNeedingClientReassurance(minDaysSinceLastReassurance = 3): SentRfq[] {
-    const rfqs: SentRfq[] = [];
-    for (const rfq of this.sentRfqs.values()) {
-      if (this.needsClientReassurance(rfq.internalRfqNumber, minDaysSinceLastReassurance)) {
-        rfqs.push(rfq);
-      }
-    }
-    return rfqs;
+    return this.lifecycleDb.getAllSentRfqs()
+      .filter(rfq => this.rfqNeedsClientReassurance(rfq, minDaysSinceLastReassurance));
   }
 
   /**
    * Marquer un fournisseur comme sans réponse (après max relances)
    */
   markSupplierNoResponse(rfqNumber: string, supplierEmail: string): void {
-    const rfq = this.sentRfqs.get(rfqNumber);
-    if (rfq) {
-      const supplier = rfq.suppliers.find(s => s.email === supplierEmail);
-      if (supplier) {
-        supplier.status = 'sans_réponse';
-        this.saveData();
-        this.logger.log(`Fournisseur ${supplierEmail} marqué sans réponse pour ${rfqNumber}`);
-      }
+    const updated = this.lifecycleDb.updateSupplier(
+      rfqNumber,
+      supplierEmail,
+      { status: 'sans_réponse' },
+      'max_reminders_reached',
+    );
+    if (updated) {
+      this.logger.log(`Fournisseur ${supplierEmail} marqué sans réponse pour ${rfqNumber}`);
     }
   }
 }
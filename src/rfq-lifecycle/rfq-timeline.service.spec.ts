@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as initSqlJs from 'sql.js';
+import { RfqTimelineService } from './rfq-timeline.service';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { QuoteComparisonService } from './quote-comparison.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('RfqTimelineService', () => {
+  let service: RfqTimelineService;
+  let lifecycleDb: RfqLifecycleDatabaseService;
+  let db: any;
+
+  const rfqNumber = 'DDP-20260114-001';
+  const day = (d: number, h = 9) => new Date(Date.UTC(2026, 0, d, h));
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    db = new SQL.Database();
+    db.run(`CREATE TABLE output_logs (internal_rfq_number TEXT, recipient TEXT, action TEXT, error_message TEXT, sent_at TEXT)`);
+    db.run(`CREATE TABLE customer_conversations (internal_rfq_number TEXT, customer_email TEXT, first_inbound_at TEXT, ack_sent_at TEXT, created_at TEXT)`);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RfqTimelineService,
+        RfqLifecycleDatabaseService,
+        {
+          provide: DatabaseService,
+          useValue: {
+            db,
+            saveToFile: jest.fn(),
+            addRfqMappingStatusListener: jest.fn(),
+            getRfqMappingByInternalRfq: jest.fn(async (n: string) => n === rfqNumber ? {
+              id: 'm1',
+              internalRfqNumber: rfqNumber,
+              clientRfqNumber: 'PR-4711',
+              emailSubject: 'RFQ PR-4711',
+              receivedAt: day(14, 8),
+              processedAt: day(14, 8),
+              status: 'sent',
+            } : null),
+          },
+        },
+        {
+          provide: QuoteComparisonService,
+          useValue: {
+            getExistingComparison: jest.fn().mockReturnValue({ generatedAt: day(17), lastUpdatedAt: day(17), version: 1 }),
+          },
+        },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<RfqTimelineService>(RfqTimelineService);
+    lifecycleDb = module.get<RfqLifecycleDatabaseService>(RfqLifecycleDatabaseService);
+  });
+
+  it('should assemble the stages of an RFQ in chronological order', async () => {
+    db.run(`INSERT INTO customer_conversations VALUES (?, 'buyer@client.com', ?, ?, ?)`,
+      [rfqNumber, day(14, 8).toISOString(), day(14, 10).toISOString(), day(14, 8).toISOString()]);
+    db.run(`INSERT INTO output_logs VALUES (?, 'procurement@multipartsci.com', 'send_failed', 'SMTP timeout', ?)`,
+      [rfqNumber, day(15, 8).toISOString()]);
+    lifecycleDb.insertSentRfq({
+      internalRfqNumber: rfqNumber,
+      subject: `Demande de Prix N° ${rfqNumber}`,
+      sentAt: day(15),
+      sentBy: 'procurement@multipartsci.com',
+      status: 'partiellement_répondu',
+      suppliers: [
+        { email: 'alpha@supplier.com', rfqNumber, consultedAt: day(15), status: 'offre_reçue', reminderCount: 0 },
+        { email: 'beta@supplier.com', rfqNumber, consultedAt: day(15), status: 'refus', reminderCount: 0, responseAt: day(16, 11) },
+      ],
+    });
+    lifecycleDb.insertQuote({
+      supplierEmail: 'alpha@supplier.com',
+      rfqNumber,
+      receivedAt: day(16),
+      subject: 'Offre',
+      currency: 'EUR',
+      totalAmount: 130,
+      items: [],
+      attachments: [],
+      needsManualReview: false,
+    });
+
+    const timeline = (await service.getTimeline(rfqNumber))!;
+
+    expect(timeline).toMatchObject({ clientRfqNumber: 'PR-4711', clientEmail: 'buyer@client.com', status: 'partiellement_répondu' });
+    expect(timeline.steps.map(s => [s.stage, s.reached])).toEqual([
+      ['reçue', true],
+      ['accusée', true],
+      ['envoyée', true],
+      ['offres', true],
+      ['comparatif', true],
+      ['attribuée', false],
+    ]);
+    expect(timeline.steps[2].at).toEqual(day(15));
+    expect(timeline.events.map(e => e.label)).toEqual([
+      'Demande client reçue',
+      'Demande traitée',
+      'Accusé de réception envoyé',
+      'Échec d\'envoi',
+      'Fournisseurs consultés',
+      'Offre reçue',
+      'Refus fournisseur',
+      'Comparatif généré',
+    ]);
+    expect(timeline.events.find(e => e.label === 'Offre reçue')).toMatchObject({ supplierEmail: 'alpha@supplier.com', detail: '130 EUR' });
+  });
+
+  it('should return undefined for an unknown RFQ', async () => {
+    (service as any).quoteComparisonService.getExistingComparison.mockReturnValue(undefined);
+    expect(await service.getTimeline('DDP-00000000-000')).toBeUndefined();
+  });
+});
@@ -0,0 +1,225 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { QuoteComparisonService } from './quote-comparison.service';
+
+/**
+ * Étapes du parcours d'une demande, dans l'ordre
+ */
+export type RfqTimelineStage = 'reçue' | 'accusée' | 'envoyée' | 'offres' | 'comparatif' | 'attribuée';
+
+export interface RfqTimelineEvent {
+  stage: RfqTimelineStage;
+  at: Date;
+  label: string;
+  detail?: string;
+  supplierEmail?: string;
+  failed?: boolean;
+}
+
+export interface RfqTimelineStep {
+  stage: RfqTimelineStage;
+  label: string;
+  reached: boolean;
+  at?: Date;                      // Première date à laquelle l'étape a été atteinte
+}
+
+export interface RfqTimeline {
+  rfqNumber: string;
+  clientRfqNumber?: string;
+  clientEmail?: string;
+  subject?: string;
+  status?: string;                // Statut de la demande envoyée, sinon de la correspondance RFQ
+  steps: RfqTimelineStep[];
+  events: RfqTimelineEvent[];
+}
+
+const STAGE_LABELS: Record<RfqTimelineStage, string> = {
+  'reçue': 'Demande reçue',
+  'accusée': 'Accusé de réception',
+  'envoyée': 'Envoyée aux fournisseurs',
+  'offres': 'Offres fournisseurs',
+  'comparatif': 'Comparatif',
+  'attribuée': 'Attribuée',
+};
+
+/**
+ * RfqTimelineService
+ *
+ * Reconstitue la chronologie d'une demande à partir des tables existantes
+ * (correspondances RFQ, conversations client, historique d'envoi, demandes
+ * envoyées, offres, comparatif, attribution) pour le tableau de bord.
+ */
+@Injectable()
+export class RfqTimelineService {
+  private readonly logger = new Logger(RfqTimelineService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly lifecycleDb: RfqLifecycleDatabaseService,
+    private readonly quoteComparisonService: QuoteComparisonService,
+  ) {}
+
+  private get db(): any {
+    return (this.databaseService as any).db;
+  }
+
+  /**
+   * Chronologie d'une demande (numéro interne). Undefined si la demande est inconnue.
+   */
+  async getTimeline(rfqNumber: string): Promise<RfqTimeline | undefined> {
+    const events: RfqTimelineEvent[] = [];
+    const milestones = new Map<RfqTimelineStage, Date>();
+    const reach = (stage: RfqTimelineStage, at: Date | undefined) => {
+      if (!at || isNaN(at.getTime())) return;
+      const current = milestones.get(stage);
+      if (!current || at < current) milestones.set(stage, at);
+    };
+
+    const mapping = await this.databaseService.getRfqMappingByInternalRfq(rfqNumber);
+    if (mapping) {
+      const receivedAt = mapping.receivedAt || mapping.processedAt;
+      events.push({ stage: 'reçue', at: receivedAt, label: 'Demande client reçue', detail: mapping.emailSubject });
+      if (mapping.receivedAt) {
+        events.push({ stage: 'reçue', at: mapping.processedAt, label: 'Demande traitée', detail: `Statut: ${mapping.status}` });
+      }
+      reach('reçue', receivedAt);
+    }
+
+    const conversation = this.getConversation(rfqNumber);
+    if (conversation) {
+      reach('reçue', this.toDate(conversation.first_inbound_at));
+      if (conversation.ack_sent_at) {
+        const at = this.toDate(conversation.ack_sent_at)!;
+        events.push({ stage: 'accusée', at, label: 'Accusé de réception envoyé', detail: conversation.customer_email });
+        reach('accusée', at);
+      }
+    }
+
+    for (const log of this.getOutputLogs(rfqNumber)) {
+      const at = this.toDate(log.sent_at)!;
+      if (log.action === 'draft_created') {
+        events.push({ stage: 'reçue', at, label: 'Brouillon de demande préparé', detail: log.recipient });
+      } else if (log.action === 'send_failed') {
+        events.push({ stage: 'envoyée', at, label: 'Échec d\'envoi', detail: log.error_message || log.recipient, failed: true });
+      } else {
+        events.push({ stage: 'envoyée', at, label: 'Demande envoyée', detail: log.recipient });
+        reach('envoyée', at);
+      }
+    }
+
+    const rfq = this.lifecycleDb.getSentRfq(rfqNumber);
+    if (rfq) {
+      events.push({
+        stage: 'envoyée',
+        at: rfq.sentAt,
+        label: 'Fournisseurs consultés',
+        detail: `${rfq.suppliers.length} fournisseur(s)`,
+      });
+      reach('envoyée', rfq.sentAt);
+
+      for (const supplier of rfq.suppliers) {
+        if (supplier.lastReminderAt) {
+          events.push({
+            stage: 'envoyée',
+            at: supplier.lastReminderAt,
+            label: `Relance fournisseur (${supplier.reminderCount})`,
+            supplierEmail: supplier.email,
+          });
+        }
+        if (supplier.status === 'refus' && supplier.responseAt) {
+          events.push({ stage: 'offres', at: supplier.responseAt, label: 'Refus fournisseur', supplierEmail: supplier.email });
+        }
+      }
+    }
+
+    for (const quote of this.lifecycleDb.getQuotesForRfq(rfqNumber)) {
+      const amount = quote.totalAmount !== undefined ? `${quote.totalAmount} ${quote.currency || ''}`.trim() : undefined;
+      events.push({
+        stage: 'offres',
+        at: quote.receivedAt,
+        label: quote.needsManualReview ? 'Offre reçue (à vérifier)' : 'Offre reçue',
+        detail: amount,
+        supplierEmail: quote.supplierEmail,
+      });
+      reach('offres', quote.receivedAt);
+    }
+
+    const comparison = this.quoteComparisonService.getExistingComparison(rfqNumber);
+    if (comparison) {
+      events.push({ stage: 'comparatif', at: comparison.generatedAt, label: 'Comparatif généré', detail: comparison.recommendation });
+      if (comparison.version > 1) {
+        events.push({ stage: 'comparatif', at: comparison.lastUpdatedAt, label: `Comparatif mis à jour (v${comparison.version})` });
+      }
+      reach('comparatif', comparison.generatedAt);
+    }
+
+    const award = this.lifecycleDb.getAward(rfqNumber);
+    if (award) {
+      events.push({
+        stage: 'attribuée',
+        at: award.awardedAt,
+        label: award.mode === 'global' ? 'Attribution globale' : 'Attribution par ligne',
+        detail: `${award.purchaseOrders.length} bon(s) de commande`,
+      });
+      reach('attribuée', award.awardedAt);
+    }
+
+    if (events.length === 0 && !conversation) {
+      return undefined;
+    }
+
+    const steps: RfqTimelineStep[] = (Object.keys(STAGE_LABELS) as RfqTimelineStage[]).map(stage => ({
+      stage,
+      label: STAGE_LABELS[stage],
+      reached: milestones.has(stage),
+      at: milestones.get(stage),
+    }));
+
+    return {
+      rfqNumber,
+      clientRfqNumber: rfq?.clientRfqNumber || mapping?.clientRfqNumber,
+      clientEmail: rfq?.clientEmail || conversation?.customer_email,
+      subject: rfq?.subject || mapping?.emailSubject,
+      status: rfq?.status || mapping?.status,
+      steps,
+      events: events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime()),
+    };
+  }
+
+  /**
+   * Conversation client (table du module de relance, absente si le module est désactivé)
+   */
+  private getConversation(rfqNumber: string): any | undefined {
+    try {
+      const result = this.db.exec(
+        `SELECT * FROM customer_conversations WHERE internal_rfq_number = ? ORDER BY created_at ASC LIMIT 1`,
+        [rfqNumber],
+      );
+      if (result.length === 0 || result[0].values.length === 0) return undefined;
+      return this.rowToObject(result[0].columns, result[0].values[0]);
+    } catch (error) {
+      this.logger.debug(`Conversations client indisponibles: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private getOutputLogs(rfqNumber: string): any[] {
+    const result = this.db.exec(
+      `SELECT * FROM output_logs WHERE internal_rfq_number = ? ORDER BY sent_at ASC`,
+      [rfqNumber],
+    );
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.rowToObject(result[0].columns, row));
+  }
+
+  private rowToObject(columns: string[], row: any[]): any {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return obj;
+  }
+
+  private toDate(value?: string): Date | undefined {
+    return value ? new Date(value) : undefined;
+  }
+}
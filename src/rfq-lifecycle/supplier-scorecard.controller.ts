@@ -0,0 +1,53 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { SupplierScorecardService } from './supplier-scorecard.service';
+
+@Controller('suppliers')
+export class SupplierScorecardController {
+  constructor(private readonly scorecardService: SupplierScorecardService) {}
+
+  /**
+   * GET /suppliers/scorecards
+   * Classement des fournisseurs par score
+   * Filtres: window (30, 90, 365 - défaut 90), minConsultations, limit, refresh
+   */
+  @Get('scorecards')
+  getRanking(
+    @Query('window') windowStr?: string,
+    @Query('minConsultations') minConsultationsStr?: string,
+    @Query('limit') limitStr?: string,
+    @Query('refresh') refresh?: string,
+  ) {
+    const ranking = this.scorecardService.getRanking({
+      windowDays: windowStr ? parseInt(windowStr, 10) : undefined,
+      minConsultations: minConsultationsStr ? parseInt(minConsultationsStr, 10) : undefined,
+      limit: limitStr ? parseInt(limitStr, 10) : undefined,
+      refresh: refresh === 'true',
+    });
+
+    return {
+      success: true,
+      count: ranking.length,
+      data: ranking.map((entry, index) => ({
+        rank: index + 1,
+        email: entry.email,
+        name: entry.name,
+        brands: entry.brands,
+        ...entry.window,
+      })),
+    };
+  }
+
+  /**
+   * GET /suppliers/:email/scorecard
+   * Scorecard d'un fournisseur sur 30 / 90 / 365 jours
+   */
+  @Get(':email/scorecard')
+  getScorecard(@Param('email') email: string, @Query('refresh') refresh?: string) {
+    const scorecard = this.scorecardService.getScorecard(email, refresh === 'true');
+    if (!scorecard) {
+      return { success: false, error: 'Fournisseur non trouvé (aucune consultation sur 365 jours)' };
+    }
+
+    return { success: true, data: scorecard };
+  }
+}
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as initSqlJs from 'sql.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SupplierScorecardService } from './supplier-scorecard.service';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { QuoteComparisonService } from './quote-comparison.service';
+import { LandedCostService } from './landed-cost.service';
+import { QuoteLineMatcherService } from './quote-line-matcher.service';
+import { SupplierQuote } from './rfq-lifecycle.service';
+import { DatabaseService } from '../database/database.service';
+import { CurrencyService } from '../currency/currency.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { BrandIntelligenceService } from '../brand-intelligence/brand-intelligence.service';
+
+describe('SupplierScorecardService', () => {
+  let service: SupplierScorecardService;
+  let lifecycleDb: RfqLifecycleDatabaseService;
+  let outputDir: string;
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const quote = (supplierEmail: string, rfqNumber: string, receivedAt: Date, prices: number[]): SupplierQuote => ({
+    supplierEmail,
+    rfqNumber,
+    receivedAt,
+    subject: `Offre ${rfqNumber}`,
+    currency: 'EUR',
+    totalAmount: prices.reduce((sum, p) => sum + p, 0),
+    items: ['Filtre à huile 1R-0739', 'Roulement 6205-2RS'].slice(0, prices.length).map((description, i) => ({
+      description,
+      quantity: 1,
+      unitPrice: prices[i],
+      totalPrice: prices[i],
+    })),
+    attachments: [],
+    needsManualReview: false,
+  });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scorecard-'));
+    const config: Record<string, any> = { 'app.outputDir': outputDir };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SupplierScorecardService,
+        RfqLifecycleDatabaseService,
+        QuoteComparisonService,
+        QuoteLineMatcherService,
+        CurrencyService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+          },
+        },
+        {
+          provide: DatabaseService,
+          useValue: { db: new SQL.Database(), saveToFile: jest.fn(), addRfqMappingStatusListener: jest.fn() },
+        },
+        {
+          provide: LandedCostService,
+          useValue: { estimate: jest.fn().mockReturnValue({ complete: false, notes: [] }) },
+        },
+        {
+          provide: WebhookService,
+          useValue: {},
+        },
+        {
+          provide: BrandIntelligenceService,
+          useValue: { setPerformanceSource: jest.fn(), getBrandsBySupplier: jest.fn().mockReturnValue([]) },
+        },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<SupplierScorecardService>(SupplierScorecardService);
+    lifecycleDb = module.get<RfqLifecycleDatabaseService>(RfqLifecycleDatabaseService);
+
+    lifecycleDb.insertSentRfq({
+      internalRfqNumber: 'DDP-A',
+      subject: 'Demande A',
+      sentAt: daysAgo(5),
+      sentBy: 'procurement@multipartsci.com',
+      status: 'partiellement_répondu',
+      itemCount: 2,
+      suppliers: [
+        { email: 'alpha@supplier.com', rfqNumber: 'DDP-A', consultedAt: daysAgo(5), status: 'offre_reçue', reminderCount: 0, responseAt: daysAgo(4) },
+        { email: 'beta@supplier.com', rfqNumber: 'DDP-A', consultedAt: daysAgo(5), status: 'offre_reçue', reminderCount: 1, responseAt: daysAgo(2) },
+        { email: 'gamma@supplier.com', rfqNumber: 'DDP-A', consultedAt: daysAgo(5), status: 'relancé', reminderCount: 2 },
+      ],
+    });
+    lifecycleDb.insertSentRfq({
+      internalRfqNumber: 'DDP-B',
+      subject: 'Demande B',
+      sentAt: daysAgo(200),
+      sentBy: 'procurement@multipartsci.com',
+      status: 'complet',
+      suppliers: [
+        { email: 'alpha@supplier.com', rfqNumber: 'DDP-B', consultedAt: daysAgo(200), status: 'refus', reminderCount: 0, responseAt: daysAgo(199) },
+      ],
+    });
+    lifecycleDb.insertQuote(quote('alpha@supplier.com', 'DDP-A', daysAgo(4), [100, 200]));
+    lifecycleDb.insertQuote(quote('beta@supplier.com', 'DDP-A', daysAgo(2), [120, 210]));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should compute response, win, price and completeness indicators per window', () => {
+    const alpha = service.getScorecard('ALPHA@supplier.com')!;
+    const [last30, , last365] = alpha.windows;
+
+    expect(last30).toMatchObject({
+      days: 30,
+      consultations: 1,
+      responseRate: 100,
+      medianResponseDays: 1,
+      wins: 1,
+      winRate: 100,
+      priceCompetitiveness: 100,
+      cheapestLines: 2,
+      completeness: 100,
+    });
+    expect(last365).toMatchObject({ consultations: 2, responses: 2, declines: 1, comparisons: 1 });
+
+    const beta = service.getScorecard('beta@supplier.com')!.windows[0];
+    expect(beta).toMatchObject({ winRate: 0, priceCompetitiveness: 89, averageReminders: 1, remindedRate: 100 });
+  });
+
+  it('should rank suppliers and expose the performance used by suggestions', () => {
+    const ranking = service.getRanking({ windowDays: 30 });
+    expect(ranking.map(r => r.email)).toEqual(['alpha@supplier.com', 'beta@supplier.com', 'gamma@supplier.com']);
+
+    expect(service.getPerformance('gamma@supplier.com')).toMatchObject({ windowDays: 90, responseRate: 0 });
+    expect(service.getPerformance('unknown@supplier.com')).toBeUndefined();
+  });
+});
@@ -0,0 +1,316 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { RfqLifecycleDatabaseService } from './rfq-lifecycle-database.service';
+import { QuoteComparisonService } from './quote-comparison.service';
+import { ConsultedSupplier, SupplierQuote } from './rfq-lifecycle.service';
+import { BrandIntelligenceService } from '../brand-intelligence/brand-intelligence.service';
+import { SupplierPerformance, SupplierPerformanceSource } from '../brand-intelligence/brand.interface';
+
+/**
+ * Indicateurs d'un fournisseur sur une fenêtre glissante
+ */
+export interface SupplierScorecardWindow {
+  days: number;
+  consultations: number;
+  responses: number;              // Offres + refus
+  quotes: number;
+  declines: number;
+  responseRate?: number;          // %
+  medianResponseDays?: number;
+  averageReminders?: number;      // Relances par consultation
+  remindedRate?: number;          // % des consultations relancées au moins une fois
+  comparisons: number;            // Demandes où le fournisseur a chiffré
+  wins: number;                   // Offre retenue par le comparatif
+  winRate?: number;               // %
+  pricedLines: number;
+  cheapestLines: number;
+  priceCompetitiveness?: number;  // % moyen du meilleur prix par ligne (100 = toujours le moins cher)
+  completeness?: number;          // % moyen des lignes demandées chiffrées
+  score?: number;                 // 0-100
+}
+
+export interface SupplierScorecard {
+  email: string;
+  name?: string;
+  brands: string[];
+  computedAt: Date;
+  score?: number;                 // Score de la fenêtre principale (90 j)
+  windows: SupplierScorecardWindow[];
+}
+
+export interface ScorecardRankingOptions {
+  windowDays?: number;
+  minConsultations?: number;
+  limit?: number;
+  refresh?: boolean;
+}
+
+/**
+ * Résultat d'un fournisseur sur une demande chiffrée
+ */
+interface RfqOutcome {
+  won: boolean;
+  pricedLines: number;
+  cheapestLines: number;
+  priceRatios: number[];          // meilleur prix / prix du fournisseur, par ligne
+  completeness?: number;          // 0..1
+}
+
+export const SCORECARD_WINDOWS = [30, 90, 365];
+const PRIMARY_WINDOW = 90;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pondération du score global (composantes absentes ignorées)
+const SCORE_WEIGHTS = {
+  responseRate: 0.3,
+  speed: 0.1,
+  reminders: 0.1,
+  winRate: 0.2,
+  priceCompetitiveness: 0.2,
+  completeness: 0.1,
+};
+
+/**
+ * Scorecards fournisseurs calculées à partir des consultations, offres
+ * et comparatifs: réactivité, relances, taux de succès, compétitivité
+ * prix et complétude, sur 30 / 90 / 365 jours.
+ *
+ * Alimente les suggestions de BrandIntelligenceService.
+ */
+@Injectable()
+export class SupplierScorecardService implements OnModuleInit, SupplierPerformanceSource {
+  private readonly logger = new Logger(SupplierScorecardService.name);
+  private cache?: { computedAt: Date; scorecards: Map<string, SupplierScorecard> };
+
+  constructor(
+    private readonly lifecycleDb: RfqLifecycleDatabaseService,
+    private readonly comparisonService: QuoteComparisonService,
+    private readonly brandIntelligence: BrandIntelligenceService,
+  ) {}
+
+  onModuleInit() {
+    this.brandIntelligence.setPerformanceSource(this);
+  }
+
+  getScorecard(email: string, refresh = false): SupplierScorecard | undefined {
+    return this.getScorecards(refresh).get(email.toLowerCase());
+  }
+
+  /**
+   * Classement des fournisseurs par score sur une fenêtre
+   */
+  getRanking(options: ScorecardRankingOptions = {}): Array<SupplierScorecard & { window: SupplierScorecardWindow }> {
+    const windowDays = options.windowDays ?? PRIMARY_WINDOW;
+    const minConsultations = options.minConsultations ?? 1;
+
+    const ranked = [...this.getScorecards(options.refresh).values()]
+      .map(scorecard => ({ ...scorecard, window: scorecard.windows.find(w => w.days === windowDays)! }))
+      .filter(entry => entry.window && entry.window.consultations >= minConsultations)
+      .sort((a, b) => (b.window.score ?? -1) - (a.window.score ?? -1) || b.window.consultations - a.window.consultations);
+
+    return options.limit ? ranked.slice(0, options.limit) : ranked;
+  }
+
+  /**
+   * Performance sur la fenêtre principale (SupplierPerformanceSource)
+   */
+  getPerformance(email: string): SupplierPerformance | undefined {
+    const window = this.getScorecard(email)?.windows.find(w => w.days === PRIMARY_WINDOW);
+    if (!window || window.consultations === 0 || window.score === undefined) return undefined;
+
+    return {
+      score: window.score,
+      windowDays: window.days,
+      consultations: window.consultations,
+      responseRate: window.responseRate,
+      winRate: window.winRate,
+      medianResponseDays: window.medianResponseDays,
+    };
+  }
+
+  /**
+   * Scorecards de tous les fournisseurs consultés (cache de 10 min)
+   */
+  getScorecards(refresh = false): Map<string, SupplierScorecard> {
+    if (!refresh && this.cache && Date.now() - this.cache.computedAt.getTime() < CACHE_TTL_MS) {
+      return this.cache.scorecards;
+    }
+
+    const scorecards = this.computeScorecards(new Date());
+    this.cache = { computedAt: new Date(), scorecards };
+    return scorecards;
+  }
+
+  computeScorecards(now: Date): Map<string, SupplierScorecard> {
+    const maxWindow = Math.max(...SCORECARD_WINDOWS);
+    const consultations = this.lifecycleDb.getConsultationsSince(new Date(now.getTime() - maxWindow * DAY_MS));
+    const rfqNumbers = [...new Set(consultations.map(c => c.rfqNumber))];
+    const outcomes = this.computeOutcomes(rfqNumbers);
+
+    const bySupplier = new Map<string, ConsultedSupplier[]>();
+    for (const consultation of consultations) {
+      const list = bySupplier.get(consultation.email) || [];
+      list.push(consultation);
+      bySupplier.set(consultation.email, list);
+    }
+
+    const scorecards = new Map<string, SupplierScorecard>();
+    for (const [email, supplierConsultations] of bySupplier) {
+      const windows = SCORECARD_WINDOWS.map(days => this.computeWindow(
+        days,
+        supplierConsultations.filter(c => c.consultedAt.getTime() >= now.getTime() - days * DAY_MS),
+        outcomes,
+      ));
+
+      scorecards.set(email, {
+        email,
+        name: supplierConsultations.map(c => c.name).reverse().find(Boolean),
+        brands: this.brandIntelligence.getBrandsBySupplier(email).map(r => r.brandName),
+        computedAt: now,
+        score: windows.find(w => w.days === PRIMARY_WINDOW)?.score,
+        windows,
+      });
+    }
+
+    this.logger.debug(`Scorecards calculées: ${scorecards.size} fournisseur(s), ${rfqNumbers.length} demande(s)`);
+    return scorecards;
+  }
+
+  /**
+   * Rejoue le comparatif de chaque demande: offre retenue, meilleur prix
+   * par ligne et lignes chiffrées de chaque fournisseur
+   */
+  private computeOutcomes(rfqNumbers: string[]): Map<string, Map<string, RfqOutcome>> {
+    const quotesByRfq = new Map<string, Map<string, SupplierQuote>>();
+    for (const quote of this.lifecycleDb.getQuotesForRfqs(rfqNumbers)) {
+      const latest = quotesByRfq.get(quote.rfqNumber) || new Map<string, SupplierQuote>();
+      latest.set(quote.supplierEmail, quote); // Triées par date: la dernière offre l'emporte
+      quotesByRfq.set(quote.rfqNumber, latest);
+    }
+
+    const outcomes = new Map<string, Map<string, RfqOutcome>>();
+    for (const [rfqNumber, latest] of quotesByRfq) {
+      const comparison = this.comparisonService.compareQuotes(rfqNumber, [...latest.values()]);
+      const winner = this.comparisonService.selectBestOffer(comparison.suppliers)?.email;
+      const requestedLines = this.lifecycleDb.getSentRfq(rfqNumber)?.itemCount || comparison.items.length;
+
+      const rfqOutcomes = new Map<string, RfqOutcome>();
+      for (const supplier of comparison.suppliers) {
+        const outcome: RfqOutcome = {
+          won: supplier.email === winner,
+          pricedLines: 0,
+          cheapestLines: 0,
+          priceRatios: [],
+        };
+
+        for (const item of comparison.items) {
+          const price = item.supplierPrices.find(p => p.supplierEmail === supplier.email);
+          if (!price) continue;
+
+          // Même base que le meilleur prix de la ligne (devise de base, sinon brut)
+          const normalized = item.lowestPriceNormalized !== undefined;
+          const value = normalized
+            ? price.normalizedTotalPrice ?? (price.normalizedUnitPrice !== undefined ? price.normalizedUnitPrice * item.requestedQty : undefined)
+            : price.totalPrice || (price.unitPrice !== undefined ? price.unitPrice * item.requestedQty : undefined);
+          if (!value) continue;
+
+          outcome.pricedLines++;
+          const lowest = normalized ? item.lowestPriceNormalized : item.lowestPrice;
+          if (lowest !== undefined) {
+            outcome.priceRatios.push(Math.min(1, lowest / value));
+          }
+          if (item.lowestPriceSupplier === supplier.email) outcome.cheapestLines++;
+        }
+
+        if (requestedLines > 0) {
+          outcome.completeness = Math.min(1, outcome.pricedLines / requestedLines);
+        }
+        rfqOutcomes.set(supplier.email, outcome);
+      }
+      outcomes.set(rfqNumber, rfqOutcomes);
+    }
+
+    return outcomes;
+  }
+
+  private computeWindow(
+    days: number,
+    consultations: ConsultedSupplier[],
+    outcomes: Map<string, Map<string, RfqOutcome>>,
+  ): SupplierScorecardWindow {
+    const quotes = consultations.filter(c => c.status === 'offre_reçue').length;
+    const declines = consultations.filter(c => c.status === 'refus').length;
+    const responses = quotes + declines;
+    const responseDays = consultations
+      .filter(c => c.responseAt)
+      .map(c => Math.max(0, (c.responseAt!.getTime() - c.consultedAt.getTime()) / DAY_MS));
+    const reminders = consultations.map(c => c.reminderCount || 0);
+
+    const supplierOutcomes = consultations
+      .map(c => outcomes.get(c.rfqNumber)?.get(c.email))
+      .filter((o): o is RfqOutcome => !!o);
+    const priceRatios = supplierOutcomes.flatMap(o => o.priceRatios);
+    const completeness = supplierOutcomes.filter(o => o.completeness !== undefined).map(o => o.completeness!);
+    const wins = supplierOutcomes.filter(o => o.won).length;
+
+    const window: SupplierScorecardWindow = {
+      days,
+      consultations: consultations.length,
+      responses,
+      quotes,
+      declines,
+      responseRate: this.percent(responses, consultations.length),
+      medianResponseDays: responseDays.length > 0 ? Math.round(this.median(responseDays) * 10) / 10 : undefined,
+      averageReminders: reminders.length > 0
+        ? Math.round((reminders.reduce((sum, r) => sum + r, 0) / reminders.length) * 10) / 10
+        : undefined,
+      remindedRate: this.percent(reminders.filter(r => r > 0).length, reminders.length),
+      comparisons: supplierOutcomes.length,
+      wins,
+      winRate: this.percent(wins, supplierOutcomes.length),
+      pricedLines: supplierOutcomes.reduce((sum, o) => sum + o.pricedLines, 0),
+      cheapestLines: supplierOutcomes.reduce((sum, o) => sum + o.cheapestLines, 0),
+      priceCompetitiveness: priceRatios.length > 0
+        ? Math.round((priceRatios.reduce((sum, r) => sum + r, 0) / priceRatios.length) * 100)
+        : undefined,
+      completeness: completeness.length > 0
+        ? Math.round((completeness.reduce((sum, c) => sum + c, 0) / completeness.length) * 100)
+        : undefined,
+    };
+
+    window.score = this.computeScore(window);
+    return window;
+  }
+
+  /**
+   * Moyenne pondérée des composantes disponibles, 0-100
+   */
+  private computeScore(window: SupplierScorecardWindow): number | undefined {
+    if (window.consultations === 0) return undefined;
+
+    const components: Array<[number | undefined, number]> = [
+      [window.responseRate !== undefined ? window.responseRate / 100 : undefined, SCORE_WEIGHTS.responseRate],
+      [window.medianResponseDays !== undefined ? Math.max(0, 1 - window.medianResponseDays / 10) : undefined, SCORE_WEIGHTS.speed],
+      [window.averageReminders !== undefined ? Math.max(0, 1 - window.averageReminders / 3) : undefined, SCORE_WEIGHTS.reminders],
+      [window.winRate !== undefined ? window.winRate / 100 : undefined, SCORE_WEIGHTS.winRate],
+      [window.priceCompetitiveness !== undefined ? window.priceCompetitiveness / 100 : undefined, SCORE_WEIGHTS.priceCompetitiveness],
+      [window.completeness !== undefined ? window.completeness / 100 : undefined, SCORE_WEIGHTS.completeness],
+    ];
+
+    const available = components.filter(([value]) => value !== undefined) as Array<[number, number]>;
+    const totalWeight = available.reduce((sum, [, weight]) => sum + weight, 0);
+    if (totalWeight === 0) return undefined;
+
+    return Math.round((available.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight) * 100);
+  }
+
+  private percent(count: number, total: number): number | undefined {
+    return total > 0 ? Math.round((count / total) * 100) : undefined;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
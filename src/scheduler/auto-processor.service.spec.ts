@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AutoProcessorService } from './auto-processor.service';
+import { DatabaseService } from '../database/database.service';
+import { EmailService } from '../email/email.service';
+import { DetectorService } from '../detector/detector.service';
+import { DocumentParserService } from '../parser/document-parser.service';
+import { AttachmentClassifierService } from '../parser/attachment-classifier.service';
+import { ExcelService } from '../excel/excel.service';
+import { DraftService } from '../draft/draft.service';
+import { TrackingService } from '../tracking/tracking.service';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { ParsedEmail } from '../common/interfaces';
+
+describe('AutoProcessorService', () => {
+  let service: AutoProcessorService;
+  let databaseService: DatabaseService;
+  let dataDir: string;
+  let detectorService: { recordSample: jest.Mock; analyzeEmail: jest.Mock };
+  let excelService: { generateRequestNumber: jest.Mock; generatePriceRequestExcel: jest.Mock };
+  let draftService: { saveToDrafts: jest.Mock };
+  let trackingService: { addEntry: jest.Mock };
+
+  const email: ParsedEmail = {
+    id: '42',
+    messageId: '<pompes@client.com>',
+    from: 'Achats <achats@client.com>',
+    to: ['procurement@multipartsci.com'],
+    subject: 'Demande de prix pompes',
+    body: 'Merci de nous transmettre votre offre pour 2 pompes centrifuges.',
+    date: new Date('2026-01-05T10:00:00Z'),
+    attachments: [],
+  };
+
+  const count = (table: string): number =>
+    (databaseService as any).db.exec(`SELECT COUNT(*) FROM ${table}`)[0].values[0][0];
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-processor-'));
+    detectorService = {
+      recordSample: jest.fn(),
+      analyzeEmail: jest.fn().mockResolvedValue({ isPriceRequest: true, reason: 'Demande de prix' }),
+    };
+    excelService = { generateRequestNumber: jest.fn(), generatePriceRequestExcel: jest.fn() };
+    draftService = { saveToDrafts: jest.fn() };
+    trackingService = { addEntry: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AutoProcessorService,
+        DatabaseService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) =>
+              key === 'app.dbPath' ? path.join(dataDir, 'test.db') : defaultValue),
+          },
+        },
+        { provide: EmailService, useValue: { fetchEmails: jest.fn() } },
+        { provide: DetectorService, useValue: detectorService },
+        {
+          provide: DocumentParserService,
+          useValue: {
+            parseAllAttachments: jest.fn().mockResolvedValue([]),
+            parseEmailBody: jest.fn().mockReturnValue({
+              items: [{ description: 'Pompe centrifuge', quantity: 2 }],
+              needsVerification: false,
+            }),
+          },
+        },
+        { provide: AttachmentClassifierService, useValue: { classifyAttachments: jest.fn().mockReturnValue([]) } },
+        { provide: ExcelService, useValue: excelService },
+        { provide: DraftService, useValue: draftService },
+        { provide: TrackingService, useValue: trackingService },
+        { provide: EmailTemplateService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AutoProcessorService>(AutoProcessorService);
+    databaseService = module.get<DatabaseService>(DatabaseService);
+    await databaseService.onModuleInit();
+  });
+
+  afterEach(() => {
+    databaseService.onModuleDestroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should preview a new request without writing or sending anything', async () => {
+    const preview = await service.previewEmail(email);
+
+    expect(preview).toMatchObject({
+      outcome: 'new_rfq',
+      requests: [{ itemCount: 1, needsManualReview: false, attachments: [] }],
+    });
+    expect(count('clients')).toBe(0);
+    expect(count('rfq_mappings')).toBe(0);
+    expect(count('processing_logs')).toBe(0);
+    expect(count('pending_drafts')).toBe(0);
+    expect(detectorService.recordSample).not.toHaveBeenCalled();
+    expect(excelService.generateRequestNumber).not.toHaveBeenCalled();
+    expect(excelService.generatePriceRequestExcel).not.toHaveBeenCalled();
+    expect(draftService.saveToDrafts).not.toHaveBeenCalled();
+    expect(trackingService.addEntry).not.toHaveBeenCalled();
+  });
+
+  it('should process the same email only once when two batches overlap', async () => {
+    const processEmail = jest.spyOn(service, 'processEmail').mockImplementation(async (e: ParsedEmail) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await databaseService.createRfqMapping({
+        internalRfqNumber: 'DDP-20260105-001',
+        emailId: e.id,
+        messageId: e.messageId,
+        status: 'pending',
+      });
+      return { internalRfqNumber: 'DDP-20260105-001' } as any;
+    });
+
+    const [cycle, backfill] = await Promise.all([
+      service.processEmailBatch([email], { autoSendDraft: false }),
+      service.processEmailBatch([{ ...email }], { autoSendDraft: true }),
+    ]);
+
+    expect(processEmail).toHaveBeenCalledTimes(1);
+    expect(cycle.details[0]).toMatchObject({ status: 'success', internalRfqNumber: 'DDP-20260105-001' });
+    expect(backfill.details[0]).toMatchObject({ status: 'skipped', error: expect.stringMatching(/^Déjà traité/) });
+    expect(detectorService.recordSample).toHaveBeenCalledTimes(1);
+    expect(count('rfq_mappings')).toBe(1);
+  });
+});
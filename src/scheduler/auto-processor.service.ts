@@ -12,7 +12,8 @@ import { DraftService } from '../draft/draft.service';
 import { TrackingService } from '../tracking/tracking.service';
 import { UnifiedIngestionService } from '../ingestion/unified-ingestion.service';
 import { ParseLogService } from '../ingestion/parse-log.service';
-import { DocumentExtractionService, CanonicalAdapterService } from '../llm';
+import { TableParseOptions } from '../ingestion/table-parser.service';
+import { DocumentExtractionService, CanonicalAdapterService, TenantConfig, tenantConfigFromProfile } from '../llm';
 import { ParsedEmail, PriceRequest, PriceRequestItem, ClientRequirements, EmailAttachment } from '../common/interfaces';
 import { Client } from '../database/entities';
 import {
@@ -20,6 +21,9 @@ import {
   calculateDeadlineWithBusinessHours,
   hasImportantRequirements,
 } from '../common/client-requirements';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { EmailTemplateService } from '../templates/email-template.service';
+import { formatDate, responseDeadlineVariables } from '../templates/template-variables';
 
 interface ProcessOptions {
   startDate?: Date;
@@ -49,6 +53,39 @@ interface AttachmentGroup {
   brand?: string;
 }
 
+/**
+ * Issue d'un email après les filtres: nouvelle demande, relance, offre fournisseur,
+ * email hors demande de prix ou ignoré (dates, expéditeur interne, déjà traité)
+ */
+export type EmailOutcome = 'new_rfq' | 'relance' | 'supplier_quote' | 'not_price_request' | 'skipped';
+
+export const EMAIL_OUTCOMES: EmailOutcome[] = ['new_rfq', 'relance', 'supplier_quote', 'not_price_request', 'skipped'];
+
+interface EmailTriage {
+  outcome: EmailOutcome;
+  reason?: string;
+  existingRfqNumber?: string; // relance: demande d'origine
+  log?: { action: string; message: string }; // journal de traitement (hors simulation)
+}
+
+/**
+ * Ce que produirait le traitement d'un email (simulation, sans écriture)
+ */
+export interface EmailPreview {
+  outcome: EmailOutcome;
+  reason?: string;
+  existingRfqNumber?: string;
+  requests?: Array<{
+    brand?: string;
+    clientRfqNumber?: string;
+    itemCount: number;
+    needsManualReview: boolean;
+    llmFallback: boolean; // le fallback LLM serait déclenché
+    attachments: string[];
+    technicalSheets: string[];
+  }>;
+}
+
 export interface ProcessResult {
   processed: number;
   successful: number;
@@ -58,6 +95,7 @@ export interface ProcessResult {
     emailId: string;
     subject: string;
     status: 'success' | 'failed' | 'skipped' | 'not_price_request';
+    outcome?: EmailOutcome;
     internalRfqNumber?: string;
     clientRfqNumber?: string;
     error?: string;
@@ -76,9 +114,12 @@ export class AutoProcessorService {
   private readonly llmMinItemsThreshold: number;
   private readonly llmMinConfidenceThreshold: number;
 
-  // Adresse email courante du mailbox en cours de traitement
+  // Boîte par défaut quand l'email ne vient pas d'un compte du registre
   private currentMailbox: string = 'procurement@multipartsci.com';
 
+  // File d'attente des traitements réels (voir runExclusive)
+  private processingLock: Promise<unknown> = Promise.resolve();
+
   constructor(
     private readonly configService: ConfigService,
     private readonly databaseService: DatabaseService,
@@ -89,11 +130,14 @@ export class AutoProcessorService {
     private readonly excelService: ExcelService,
     private readonly draftService: DraftService,
     private readonly trackingService: TrackingService,
+    private readonly templateService: EmailTemplateService,
     @Optional() private readonly unifiedIngestion?: UnifiedIngestionService,
     @Optional() private readonly parseLogService?: ParseLogService,
     @Optional() private readonly llmExtraction?: DocumentExtractionService,
     @Optional() private readonly canonicalAdapter?: CanonicalAdapterService,
+    @Optional() private readonly mailboxRegistry?: MailboxRegistryService,
   ) {
+    this.currentMailbox = this.configService.get<string>('imap.user') || this.currentMailbox;
     this.llmMode = this.configService.get<string>('LLM_MODE', 'off');
     this.llmMinItemsThreshold = this.configService.get<number>('LLM_MIN_ITEMS_THRESHOLD', 3);
     this.llmMinConfidenceThreshold = this.configService.get<number>('LLM_MIN_CONFIDENCE_THRESHOLD', 60);
@@ -109,189 +153,305 @@ export class AutoProcessorService {
       details: [],
     };
 
-    for (const folder of options.folders) {
-      try {
-        // Récupérer les emails non lus
-        const emails = await this.emailService.fetchEmails({
-          folder,
-          unseen: true,
-          limit: 500, // Augmenté pour traiter tous les emails en attente
-        });
+    // Boîtes de réception des demandes clients (configuration de l'environnement si aucun compte)
+    const accounts = this.mailboxRegistry?.getAccountsForRole('rfq_intake') || [];
+    for (const account of accounts.length > 0 ? accounts : [undefined]) {
+      for (const folder of options.folders) {
+        try {
+          // Récupérer les emails non lus
+          const emails = await this.emailService.fetchEmails({
+            folder,
+            unseen: true,
+            limit: 500, // Augmenté pour traiter tous les emails en attente
+          }, account);
+
+          // IMPORTANT: Trier par date croissante (les plus anciens d'abord)
+          // Cela garantit que les relances sont détectées correctement
+          emails.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+          this.logger.log(`${emails.length} emails non lus trouvés dans ${folder}${account ? ` (${account.email})` : ''} (triés par date)`);
+
+          await this.processEmailBatch(emails, options, result);
+        } catch (error) {
+          this.logger.error(`Erreur lecture dossier ${folder}${account ? ` (${account.email})` : ''}:`, error.message);
+        }
+      }
+    }
 
-        // IMPORTANT: Trier par date croissante (les plus anciens d'abord)
-        // Cela garantit que les relances sont détectées correctement
-        emails.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-        this.logger.log(`${emails.length} emails non lus trouvés dans ${folder} (triés par date)`);
-
-        for (const email of emails) {
-          // Vérifier les limites de date
-          if (options.startDate && email.date < options.startDate) {
-            result.skipped++;
-            result.details.push({
-              emailId: email.id,
-              subject: email.subject,
-              status: 'skipped',
-              error: 'Email avant la date de début',
-            });
-            continue;
-          }
-          if (options.endDate && email.date > options.endDate) {
-            result.skipped++;
-            result.details.push({
-              emailId: email.id,
-              subject: email.subject,
-              status: 'skipped',
-              error: 'Email après la date limite',
-            });
-            continue;
-          }
+    return result;
+  }
 
-          // NOUVEAU: Vérifier si expéditeur interne (emails @multipartsci.com)
-          const senderEmail = this.extractEmail(email.from).toLowerCase();
-          const internalDomains = ['multipartsci.com', 'multiparts.ci'];
-          const isInternalSender = internalDomains.some(domain => senderEmail.endsWith(`@${domain}`));
-
-          if (isInternalSender) {
-            result.skipped++;
-            result.details.push({
-              emailId: email.id,
-              subject: email.subject,
-              status: 'skipped',
-              error: `Expéditeur interne ignoré: ${senderEmail}`,
-            });
+  /**
+   * Traiter une liste d'emails déjà récupérés (relève périodique, écoute IDLE ou retraitement),
+   * dans l'ordre fourni et un email à la fois avec les autres appels. Les compteurs sont ajoutés à `result`.
+   */
+  async processEmailBatch(
+    emails: ParsedEmail[],
+    options: Pick<ProcessOptions, 'startDate' | 'endDate' | 'autoSendDraft'>,
+    result: ProcessResult = { processed: 0, successful: 0, failed: 0, skipped: 0, details: [] },
+  ): Promise<ProcessResult> {
+    for (const email of emails) {
+      await this.runExclusive(() => this.processBatchEmail(email, options, result));
+    }
 
-            await this.databaseService.addProcessingLog({
-              emailId: email.id,
-              action: 'filter',
-              status: 'skipped',
-              message: `Expéditeur interne: ${senderEmail}`,
-            });
-            continue;
-          }
+    return result;
+  }
 
-          // Vérifier si déjà traité (par UID IMAP ou Message-ID pour cross-mailbox)
-          const isProcessedByUid = await this.databaseService.isEmailProcessed(email.id);
-          const isProcessedByMessageId = email.messageId
-            ? await this.databaseService.isMessageIdProcessed(email.messageId)
-            : false;
-
-          if (isProcessedByUid || isProcessedByMessageId) {
-            result.skipped++;
-            result.details.push({
-              emailId: email.id,
-              subject: email.subject,
-              status: 'skipped',
-              error: isProcessedByMessageId
-                ? 'Déjà traité (même email reçu sur autre boîte)'
-                : 'Déjà traité',
-            });
-            continue;
-          }
+  /**
+   * Exécuter un traitement réel sans chevauchement avec les autres (relève périodique, écoute IDLE,
+   * retraitement d'une période): sinon deux appels peuvent passer le contrôle "déjà traité" sur le
+   * même email avant que l'un d'eux n'ait créé la demande, et produire un doublon.
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.processingLock.then(task);
+    this.processingLock = run.catch(() => undefined);
+    return run;
+  }
 
-          // NOUVEAU: Vérifier si c'est une offre fournisseur (réponse à une RFQ)
-          const supplierCheck = await this.isSupplierQuote(email);
-          if (supplierCheck.isSupplierQuote) {
-            result.skipped++;
-            result.details.push({
-              emailId: email.id,
-              subject: email.subject,
-              status: 'skipped',
-              error: `Offre fournisseur détectée: ${supplierCheck.reason}`,
-            });
+  private async processBatchEmail(
+    email: ParsedEmail,
+    options: Pick<ProcessOptions, 'startDate' | 'endDate' | 'autoSendDraft'>,
+    result: ProcessResult,
+  ): Promise<void> {
+    const triage = await this.triageEmail(email, options);
+
+    if (triage.log) {
+      await this.databaseService.addProcessingLog({
+        emailId: email.id,
+        action: triage.log.action,
+        status: 'skipped',
+        message: triage.log.message,
+      });
+    }
 
-            await this.databaseService.addProcessingLog({
-              emailId: email.id,
-              action: 'filter',
-              status: 'skipped',
-              message: `Offre fournisseur: ${supplierCheck.reason}`,
-            });
-            continue;
-          }
+    if (triage.outcome !== 'new_rfq') {
+      result.skipped++;
+      result.details.push({
+        emailId: email.id,
+        subject: email.subject,
+        status: triage.outcome === 'not_price_request' ? 'not_price_request' : 'skipped',
+        outcome: triage.outcome,
+        internalRfqNumber: triage.existingRfqNumber,
+        error: triage.reason,
+      });
 
-          // NOUVEAU: Vérifier si c'est une relance d'une demande existante
-          const relanceCheck = await this.detectRelance(email);
-          if (relanceCheck.isRelance) {
-            result.skipped++;
-            result.details.push({
-              emailId: email.id,
-              subject: email.subject,
-              status: 'skipped',
-              internalRfqNumber: relanceCheck.existingRfqNumber,
-              error: relanceCheck.reason,
-            });
+      if (triage.outcome === 'relance') {
+        this.logger.log(`Relance ignorée: ${email.subject} -> ${triage.existingRfqNumber}`);
+      }
+      return;
+    }
 
-            await this.databaseService.addProcessingLog({
-              emailId: email.id,
-              action: 'filter',
-              status: 'skipped',
-              message: relanceCheck.reason || 'Relance détectée',
-            });
+    result.processed++;
 
-            this.logger.log(`Relance ignorée: ${email.subject} -> ${relanceCheck.existingRfqNumber}`);
-            continue;
-          }
+    try {
+      // Traiter l'email
+      const processResult = await this.processEmail(email, options.autoSendDraft);
+      
+      result.successful++;
+      result.details.push({
+        emailId: email.id,
+        subject: email.subject,
+        status: 'success',
+        outcome: 'new_rfq',
+        internalRfqNumber: processResult.internalRfqNumber,
+        clientRfqNumber: processResult.clientRfqNumber,
+      });
 
-          // Analyser si c'est une demande de prix
-          const detection = await this.detectorService.analyzeEmail(email);
-          
-          if (!detection.isPriceRequest) {
-            result.skipped++;
-            result.details.push({
-              emailId: email.id,
-              subject: email.subject,
-              status: 'not_price_request',
-              error: detection.reason,
-            });
-            
-            // Logger mais ne pas créer de mapping
-            await this.databaseService.addProcessingLog({
-              emailId: email.id,
-              action: 'analyze',
-              status: 'skipped',
-              message: detection.reason,
-            });
-            continue;
-          }
+    } catch (error) {
+      result.failed++;
+      result.details.push({
+        emailId: email.id,
+        subject: email.subject,
+        status: 'failed',
+        outcome: 'new_rfq',
+        error: error.message,
+      });
 
-          result.processed++;
-
-          try {
-            // Traiter l'email
-            const processResult = await this.processEmail(email, options.autoSendDraft);
-            
-            result.successful++;
-            result.details.push({
-              emailId: email.id,
-              subject: email.subject,
-              status: 'success',
-              internalRfqNumber: processResult.internalRfqNumber,
-              clientRfqNumber: processResult.clientRfqNumber,
-            });
+      await this.databaseService.addProcessingLog({
+        emailId: email.id,
+        action: 'process',
+        status: 'error',
+        message: error.message,
+      });
+    }
+  }
 
-          } catch (error) {
-            result.failed++;
-            result.details.push({
-              emailId: email.id,
-              subject: email.subject,
-              status: 'failed',
-              error: error.message,
-            });
+  /**
+   * Filtres appliqués avant la génération d'une demande (dates, expéditeur interne, déjà traité,
+   * offre fournisseur, relance, détection). Seule écriture: la copie pour l'étiquetage du
+   * détecteur, sauf en simulation; le journal de traitement est écrit par l'appelant.
+   */
+  private async triageEmail(
+    email: ParsedEmail,
+    options: Pick<ProcessOptions, 'startDate' | 'endDate'>,
+    dryRun = false,
+  ): Promise<EmailTriage> {
+    // Vérifier les limites de date
+    if (options.startDate && email.date < options.startDate) {
+      return { outcome: 'skipped', reason: 'Email avant la date de début' };
+    }
+    if (options.endDate && email.date > options.endDate) {
+      return { outcome: 'skipped', reason: 'Email après la date limite' };
+    }
 
-            await this.databaseService.addProcessingLog({
-              emailId: email.id,
-              action: 'process',
-              status: 'error',
-              message: error.message,
-            });
-          }
-        }
-      } catch (error) {
-        this.logger.error(`Erreur lecture dossier ${folder}:`, error.message);
-      }
+    // NOUVEAU: Vérifier si expéditeur interne (emails @multipartsci.com)
+    const senderEmail = this.extractEmail(email.from).toLowerCase();
+    const internalDomains = ['multipartsci.com', 'multiparts.ci'];
+    const isInternalSender = internalDomains.some(domain => senderEmail.endsWith(`@${domain}`));
+
+    if (isInternalSender) {
+      return {
+        outcome: 'skipped',
+        reason: `Expéditeur interne ignoré: ${senderEmail}`,
+        log: { action: 'filter', message: `Expéditeur interne: ${senderEmail}` },
+      };
     }
 
-    return result;
+    // Vérifier si déjà traité (par UID IMAP ou Message-ID pour cross-mailbox)
+    const isProcessedByUid = await this.databaseService.isEmailProcessed(email.id, email.mailbox);
+    const isProcessedByMessageId = email.messageId
+      ? await this.databaseService.isMessageIdProcessed(email.messageId)
+      : false;
+
+    if (isProcessedByUid || isProcessedByMessageId) {
+      return {
+        outcome: 'skipped',
+        reason: isProcessedByMessageId
+          ? 'Déjà traité (même email reçu sur autre boîte)'
+          : 'Déjà traité',
+      };
+    }
+
+    // Copie pour l'étiquetage du détecteur (offres, relances et demandes comprises)
+    if (!dryRun) {
+      this.detectorService.recordSample(email);
+    }
+
+    // NOUVEAU: Vérifier si c'est une offre fournisseur (réponse à une RFQ)
+    const supplierCheck = await this.isSupplierQuote(email);
+    if (supplierCheck.isSupplierQuote) {
+      return {
+        outcome: 'supplier_quote',
+        reason: `Offre fournisseur détectée: ${supplierCheck.reason}`,
+        log: { action: 'filter', message: `Offre fournisseur: ${supplierCheck.reason}` },
+      };
+    }
+
+    // NOUVEAU: Vérifier si c'est une relance d'une demande existante
+    const relanceCheck = await this.detectRelance(email);
+    if (relanceCheck.isRelance) {
+      return {
+        outcome: 'relance',
+        reason: relanceCheck.reason,
+        existingRfqNumber: relanceCheck.existingRfqNumber,
+        log: { action: 'filter', message: relanceCheck.reason || 'Relance détectée' },
+      };
+    }
+
+    // Analyser si c'est une demande de prix
+    const detection = await this.detectorService.analyzeEmail(email);
+    if (!detection.isPriceRequest) {
+      // Logger mais ne pas créer de mapping
+      return {
+        outcome: 'not_price_request',
+        reason: detection.reason,
+        log: { action: 'analyze', message: detection.reason },
+      };
+    }
+
+    return { outcome: 'new_rfq', reason: detection.reason };
+  }
+
+  /**
+   * Simulation du traitement d'un email: mêmes filtres et même extraction que le traitement réel,
+   * sans rien écrire ni envoyer (ni client, ni numéro interne, ni Excel, ni brouillon, ni journal).
+   * Le fallback LLM n'est pas appelé: la simulation indique seulement s'il serait déclenché.
+   */
+  async previewEmail(
+    email: ParsedEmail,
+    options: Pick<ProcessOptions, 'startDate' | 'endDate'> = {},
+  ): Promise<EmailPreview> {
+    const triage = await this.triageEmail(email, options, true);
+    const preview: EmailPreview = {
+      outcome: triage.outcome,
+      reason: triage.reason,
+      existingRfqNumber: triage.existingRfqNumber,
+    };
+    if (triage.outcome !== 'new_rfq') {
+      return preview;
+    }
+
+    const tenantConfig = await this.resolveTenantConfig(email);
+    const classifiedAttachments = this.attachmentClassifier.classifyAttachments(email.attachments);
+    const groups = this.groupRfqAttachments(
+      classifiedAttachments.filter(c => c.category === 'rfq'),
+      classifiedAttachments.filter(c => c.category === 'technical_sheet'),
+    );
+
+    preview.requests = [];
+    for (const group of groups) {
+      const attachments = group.rfqAttachments.map(c => c.attachment);
+      const extraction = await this.extractItemsPreview({ ...email, attachments }, tenantConfig, false);
+      preview.requests.push({
+        brand: group.brand,
+        clientRfqNumber: extraction.rfqNumber || group.rfqAttachments[0]?.rfqNumber,
+        itemCount: extraction.items.length,
+        needsManualReview: extraction.needsVerification,
+        llmFallback: this.wouldTriggerLlm(extraction.items, extraction.needsVerification),
+        attachments: attachments.map(a => a.filename),
+        technicalSheets: group.technicalSheets.map(ts => ts.attachment.filename),
+      });
+    }
+
+    // Sans pièce jointe classée RFQ: traitement classique (corps + toutes les pièces jointes)
+    if (preview.requests.length === 0) {
+      const extraction = await this.extractItemsPreview(email, tenantConfig, true);
+      preview.requests.push({
+        clientRfqNumber: extraction.rfqNumber,
+        itemCount: extraction.items.length,
+        needsManualReview: extraction.needsVerification,
+        llmFallback: this.wouldTriggerLlm(extraction.items, extraction.needsVerification),
+        attachments: email.attachments.map(a => a.filename),
+        technicalSheets: [],
+      });
+    }
+
+    return preview;
+  }
+
+  private async extractItemsPreview(
+    email: ParsedEmail,
+    tenantConfig: TenantConfig | undefined,
+    includeBody: boolean,
+  ): Promise<{ items: PriceRequestItem[]; rfqNumber?: string; needsVerification: boolean }> {
+    if (this.useUnifiedIngestion && this.unifiedIngestion) {
+      const ingestionResult = await this.unifiedIngestion.processEmail(
+        email,
+        `SIMULATION-${email.id}`,
+        this.tableParseOptions(tenantConfig),
+        false,
+      );
+      return {
+        items: ingestionResult.items,
+        rfqNumber: ingestionResult.rfqNumber,
+        needsVerification: ingestionResult.needsVerification,
+      };
+    }
+
+    const parsedDocs = await this.documentParser.parseAllAttachments(email.attachments);
+    if (includeBody) {
+      parsedDocs.push(this.documentParser.parseEmailBody(email.body, email.subject));
+    }
+    return {
+      items: parsedDocs.flatMap(doc => doc.items),
+      rfqNumber: parsedDocs.find(doc => doc.rfqNumber)?.rfqNumber,
+      needsVerification: parsedDocs.some(doc => doc.needsVerification),
+    };
+  }
+
+  private wouldTriggerLlm(items: PriceRequestItem[], needsManualReview: boolean): boolean {
+    return !!(this.llmExtraction && this.canonicalAdapter)
+      && this.shouldTriggerLlmFallback(items.length, needsManualReview, items);
   }
 
   async processEmail(email: ParsedEmail, autoSendDraft: boolean): Promise<{
@@ -303,6 +463,9 @@ export class AutoProcessorService {
     // NOUVEAU: Traitement multi-demandes
     // ═══════════════════════════════════════════════════════════════════════
 
+    // 0. Profil d'extraction du client (domaine expéditeur)
+    const tenantConfig = await this.resolveTenantConfig(email);
+
     // 1. Classifier toutes les pièces jointes
     const classifiedAttachments = this.attachmentClassifier.classifyAttachments(email.attachments);
 
@@ -325,7 +488,7 @@ export class AutoProcessorService {
 
     for (const group of groups) {
       try {
-        const result = await this.processAttachmentGroup(email, group, autoSendDraft, images);
+        const result = await this.processAttachmentGroup(email, group, autoSendDraft, images, tenantConfig);
         results.push(result);
       } catch (error) {
         this.logger.error(`Erreur traitement groupe ${group.brand || 'unknown'}: ${error.message}`);
@@ -334,7 +497,7 @@ export class AutoProcessorService {
 
     // 4. Si aucun résultat, traiter l'email de manière classique (fallback)
     if (results.length === 0) {
-      return this.processEmailClassic(email, autoSendDraft);
+      return this.processEmailClassic(email, autoSendDraft, tenantConfig);
     }
 
     // Retourner le premier résultat (pour compatibilité avec l'interface existante)
@@ -414,6 +577,7 @@ export class AutoProcessorService {
     group: AttachmentGroup,
     autoSendDraft: boolean,
     images: ClassifiedAttachment[],
+    tenantConfig?: TenantConfig,
   ): Promise<SingleRequestResult> {
     // 1. Identifier ou créer le client
     const client = await this.findOrCreateClient(email);
@@ -424,6 +588,7 @@ export class AutoProcessorService {
     let allItems: PriceRequestItem[] = [];
     let clientRfqNumber: string | undefined;
     let needsManualReview = false;
+    let deliveryLocation = tenantConfig?.defaultDeliveryLocation;
 
     // 3. Parser uniquement les pièces jointes de ce groupe
     const groupAttachments = group.rfqAttachments.map(c => c.attachment);
@@ -440,7 +605,8 @@ export class AutoProcessorService {
 
       const ingestionResult = await this.unifiedIngestion.processEmail(
         virtualEmail,
-        internalRfqNumber
+        internalRfqNumber,
+        this.tableParseOptions(tenantConfig),
       );
 
       allItems = ingestionResult.items;
@@ -488,7 +654,7 @@ export class AutoProcessorService {
           mimeType: att.contentType,
         }));
 
-        const llmResult = await this.llmExtraction.extractAndMerge(llmInputs);
+        const llmResult = await this.llmExtraction.extractAndMerge(llmInputs, tenantConfig);
         const llmItems = this.canonicalAdapter.toPriceRequestItems(llmResult);
 
         // En mode 'always', utiliser LLM si résultats valides
@@ -520,6 +686,7 @@ export class AutoProcessorService {
             ...item,
             brand: item.brand || group.brand,
           }));
+          deliveryLocation = llmResult.delivery_location || deliveryLocation;
 
           if (!clientRfqNumber && llmResult.document_number !== 'UNKNOWN') {
             clientRfqNumber = llmResult.document_number;
@@ -587,6 +754,7 @@ export class AutoProcessorService {
         : defaultDeadlineHours,
       needsManualReview,
       clientRequirements,
+      deliveryLocation,
       sourceEmail: email,
       // Ajouter les fiches techniques et images comme pièces jointes supplémentaires
       additionalAttachments: [
@@ -609,7 +777,7 @@ export class AutoProcessorService {
       receivedAt: email.date,
       status: 'processed',
       excelPath: generated.excelPath,
-      mailbox: this.currentMailbox,
+      mailbox: email.mailbox || this.currentMailbox,
     });
 
     // 9. Créer un brouillon
@@ -676,17 +844,20 @@ export class AutoProcessorService {
           })),
         ];
 
+        const { subject, html, text } = this.renderProcurementDraft({
+          rfqNumber: internalRfqNumber,
+          clientRfqNumber,
+          clientName,
+          clientEmail: senderEmail,
+          brand: group.brand,
+          itemCount: allItems.length,
+          technicalSheetCount: group.technicalSheets.length,
+        });
         await this.draftService.saveToDrafts({
           to: 'procurement@multipartsci.com',
-          subject: `Demande de Prix N° ${internalRfqNumber}${group.brand ? ` - ${group.brand}` : ''}${clientRfqNumber ? ` - Réf. Client: ${clientRfqNumber}` : ''}`,
-          body: this.generateEmailBodyForProcurement(
-            internalRfqNumber,
-            clientRfqNumber,
-            clientName,
-            senderEmail,
-            allItems.length,
-            group.technicalSheets.length,
-          ),
+          subject,
+          body: text,
+          htmlBody: html || undefined,
           attachments: draftAttachments,
         });
       } catch (error) {
@@ -723,7 +894,7 @@ export class AutoProcessorService {
         itemCount: allItems.length,
         status: 'traité',
         acknowledgmentSent: false,
-        notes: `${allItems.length} article(s)${group.brand ? `, marque: ${group.brand}` : ''}${group.technicalSheets.length > 0 ? `, ${group.technicalSheets.length} fiche(s) tech.` : ''}`,
+        notes: `${allItems.length} article(s)${group.brand ? `, marque: ${group.brand}` : ''}${group.technicalSheets.length > 0 ? `, ${group.technicalSheets.length} fiche(s) tech.` : ''}${deliveryLocation ? `, livraison: ${deliveryLocation}` : ''}`,
       });
     } catch (trackError) {
       this.logger.warn('Erreur tracking: ' + trackError.message);
@@ -742,7 +913,7 @@ export class AutoProcessorService {
   /**
    * Traitement classique d'un email (fallback quand pas de classification)
    */
-  private async processEmailClassic(email: ParsedEmail, autoSendDraft: boolean): Promise<{
+  private async processEmailClassic(email: ParsedEmail, autoSendDraft: boolean, tenantConfig?: TenantConfig): Promise<{
     internalRfqNumber: string;
     clientRfqNumber?: string;
     excelPath: string;
@@ -756,6 +927,7 @@ export class AutoProcessorService {
     let allItems: PriceRequestItem[] = [];
     let clientRfqNumber: string | undefined;
     let needsManualReview = false;
+    let deliveryLocation = tenantConfig?.defaultDeliveryLocation;
 
     // Use unified ingestion pipeline if available and enabled
     if (this.useUnifiedIngestion && this.unifiedIngestion) {
@@ -763,7 +935,8 @@ export class AutoProcessorService {
 
       const ingestionResult = await this.unifiedIngestion.processEmail(
         email,
-        internalRfqNumber
+        internalRfqNumber,
+        this.tableParseOptions(tenantConfig),
       );
 
       allItems = ingestionResult.items;
@@ -833,7 +1006,7 @@ export class AutoProcessorService {
           mimeType: att.contentType,
         }));
 
-        const llmResult = await this.llmExtraction.extractAndMerge(llmInputs);
+        const llmResult = await this.llmExtraction.extractAndMerge(llmInputs, tenantConfig);
         const llmItems = this.canonicalAdapter.toPriceRequestItems(llmResult);
 
         const shouldUseLlmResults =
@@ -860,6 +1033,7 @@ export class AutoProcessorService {
         if (shouldUseLlmResults) {
           this.logger.log(`[Classic] LLM extracted ${llmItems.length} items (vs ${allItems.length} from regex), mode=${this.llmMode}`);
           allItems = llmItems;
+          deliveryLocation = llmResult.delivery_location || deliveryLocation;
 
           if (!clientRfqNumber && llmResult.document_number !== 'UNKNOWN') {
             clientRfqNumber = llmResult.document_number;
@@ -928,6 +1102,7 @@ export class AutoProcessorService {
         : defaultDeadlineHours,
       needsManualReview,
       clientRequirements, // Ajouter les exigences client pour affichage en ROUGE
+      deliveryLocation,
       sourceEmail: email, // Pour la date de réception
     };
 
@@ -945,7 +1120,7 @@ export class AutoProcessorService {
       receivedAt: email.date,
       status: 'processed',
       excelPath: generated.excelPath,
-      mailbox: this.currentMailbox, // Adresse email qui a traité le message
+      mailbox: email.mailbox || this.currentMailbox, // Adresse email qui a traité le message
     });
 
     // 9. Créer un brouillon en attente (envoi automatique au prochain cycle)
@@ -1007,10 +1182,18 @@ export class AutoProcessorService {
           })),
         ];
 
+        const { subject, html, text } = this.renderProcurementDraft({
+          rfqNumber: internalRfqNumber,
+          clientRfqNumber,
+          clientName,
+          clientEmail: senderEmail,
+          itemCount: allItems.length,
+        });
         await this.draftService.saveToDrafts({
           to: 'procurement@multipartsci.com',
-          subject: `Demande de Prix N° ${internalRfqNumber}${clientRfqNumber ? ` - Réf. Client: ${clientRfqNumber}` : ''}`,
-          body: this.generateEmailBodyForProcurement(internalRfqNumber, clientRfqNumber, clientName, senderEmail, allItems.length),
+          subject,
+          body: text,
+          htmlBody: html || undefined,
           attachments: draftAttachments,
         });
       } catch (error) {
@@ -1060,6 +1243,24 @@ export class AutoProcessorService {
     };
   }
 
+  /**
+   * Profil d'extraction du client, choisi d'après le domaine de l'expéditeur
+   */
+  private async resolveTenantConfig(email: ParsedEmail): Promise<TenantConfig | undefined> {
+    const domain = this.extractEmail(email.from).split('@')[1];
+    if (!domain) return undefined;
+
+    const match = await this.databaseService.findClientProfileByDomain(domain);
+    if (!match) return undefined;
+
+    this.logger.debug(`Profil d'extraction: ${match.profile.tenantId} (${domain})`);
+    return tenantConfigFromProfile(match.profile, match.client);
+  }
+
+  private tableParseOptions(tenantConfig?: TenantConfig): TableParseOptions {
+    return { columnSynonyms: tenantConfig?.columnSynonyms as TableParseOptions['columnSynonyms'] };
+  }
+
   private async findOrCreateClient(email: ParsedEmail): Promise<Client | null> {
     const senderEmail = this.extractEmail(email.from);
     
@@ -1128,53 +1329,23 @@ export class AutoProcessorService {
     return 'CLIENT';
   }
 
-  private generateEmailBodyForProcurement(
-    internalRfqNumber: string,
-    clientRfqNumber: string | undefined,
-    clientName: string | undefined,
-    clientEmail: string,
-    itemsCount: number,
-    technicalSheetsCount: number = 0,
-  ): string {
-    const responseHours = 24;
-    const deadlineDate = new Date();
-    deadlineDate.setHours(deadlineDate.getHours() + responseHours);
-
-    let techSheetsInfo = '';
-    if (technicalSheetsCount > 0) {
-      techSheetsInfo = `\nFiches techniques jointes: ${technicalSheetsCount}`;
-    }
-
-    return `Bonjour,
-
-Veuillez trouver ci-joint une nouvelle demande de prix à traiter.
-
-═══════════════════════════════════════════════════════
-INFORMATIONS DEMANDE
-═══════════════════════════════════════════════════════
-N° Demande interne: ${internalRfqNumber}
-Date: ${new Date().toLocaleDateString('fr-FR')}
-Nombre d'articles: ${itemsCount}${techSheetsInfo}
-Délai de réponse: ${responseHours}h (avant le ${deadlineDate.toLocaleDateString('fr-FR')} ${deadlineDate.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })})
-
-═══════════════════════════════════════════════════════
-INFORMATIONS CLIENT
-═══════════════════════════════════════════════════════
-Client: ${clientName || 'Non spécifié'}
-Réf. Client: ${clientRfqNumber || 'Non spécifié'}
-Contact: ${clientEmail}
-
-═══════════════════════════════════════════════════════
-INSTRUCTIONS
-═══════════════════════════════════════════════════════
-1. Ouvrir le fichier Excel joint
-2. Rechercher les prix fournisseurs
-3. Compléter les colonnes "Prix Unitaire HT"
-4. Retourner le fichier complété${technicalSheetsCount > 0 ? '\n5. Consulter les fiches techniques jointes pour les spécifications' : ''}
-
----
-Ce message a été généré automatiquement par le système de gestion des demandes de prix.
-Ce brouillon sera envoyé automatiquement s'il n'est pas traité manuellement.`;
+  /**
+   * Brouillon interne à destination du procurement (modèle procurement_draft)
+   */
+  private renderProcurementDraft(variables: {
+    rfqNumber: string;
+    clientRfqNumber?: string;
+    clientName?: string;
+    clientEmail: string;
+    brand?: string;
+    itemCount: number;
+    technicalSheetCount?: number;
+  }) {
+    return this.templateService.render('procurement_draft', {
+      ...variables,
+      date: formatDate(new Date()),
+      ...responseDeadlineVariables(24),
+    });
   }
 
   private generateAnonymizedEmailBody(rfqNumber: string, itemsCount: number): string {
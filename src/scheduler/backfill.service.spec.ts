@@ -0,0 +1,207 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import * as initSqlJs from 'sql.js';
+import { BackfillService, BACKFILL_JOB } from './backfill.service';
+import { AutoProcessorService } from './auto-processor.service';
+import { DatabaseService } from '../database/database.service';
+import { EmailService } from '../email/email.service';
+import { MailArchiveService } from '../email/mail-archive.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { ParsedEmail } from '../common/interfaces';
+
+describe('BackfillService', () => {
+  let service: BackfillService;
+  let handler: (job: any) => Promise<any>;
+  let jobs: Record<string, any>;
+  let emailService: { fetchEmails: jest.Mock };
+  let mailArchive: { listSources: jest.Mock; readMessages: jest.Mock };
+  let autoProcessor: { previewEmail: jest.Mock; processEmailBatch: jest.Mock };
+
+  const email = (id: string, date: string, subject: string, messageId?: string): ParsedEmail => ({
+    id,
+    messageId,
+    from: 'achats@client.com',
+    to: ['procurement@multipartsci.com'],
+    subject,
+    body: '',
+    date: new Date(date),
+    attachments: [],
+  });
+
+  const runJob = (runId: string) => {
+    const job = Object.values(jobs).find(j => j.payload.runId === runId);
+    job.attempts++;
+    return handler(job);
+  };
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    jobs = {};
+    emailService = { fetchEmails: jest.fn() };
+    mailArchive = { listSources: jest.fn(), readMessages: jest.fn() };
+    autoProcessor = { previewEmail: jest.fn(), processEmailBatch: jest.fn() };
+
+    const jobQueue = {
+      registerHandler: jest.fn((type: string, fn: any) => { if (type === BACKFILL_JOB) handler = fn; }),
+      enqueue: jest.fn((type: string, payload: any) => {
+        const id = `job-${Object.keys(jobs).length + 1}`;
+        jobs[id] = { id, type, payload, status: 'pending', attempts: 0, maxAttempts: 5 };
+        return jobs[id];
+      }),
+      getJob: jest.fn((id: string) => jobs[id] || null),
+      cancelJob: jest.fn((id: string) => { jobs[id].status = 'cancelled'; }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BackfillService,
+        { provide: DatabaseService, useValue: { db: new SQL.Database(), saveToFile: jest.fn() } },
+        { provide: EmailService, useValue: emailService },
+        { provide: MailArchiveService, useValue: mailArchive },
+        { provide: AutoProcessorService, useValue: autoProcessor },
+        { provide: JobQueueService, useValue: jobQueue },
+        {
+          provide: MailboxRegistryService,
+          useValue: {
+            getAccountsForRole: jest.fn().mockReturnValue([]),
+            findAccountByEmail: jest.fn((address: string) =>
+              address === 'ventes@multipartsci.com' ? { id: 'm2', email: address } : undefined),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BackfillService>(BackfillService);
+    service.onModuleInit();
+  });
+
+  it('should validate the range and the mailbox', () => {
+    expect(() => service.start({ from: '2026-01-12', to: '2026-01-01' })).toThrow(BadRequestException);
+    expect(() => service.start({ from: 'hier', to: '2026-01-01' })).toThrow(BadRequestException);
+    expect(() => service.start({ from: '2026-01-01', to: '2026-01-12', mailbox: 'inconnue@x.com' })).toThrow(BadRequestException);
+
+    const run = service.start({ from: '2026-01-01', to: '2026-01-12', mailbox: 'ventes@multipartsci.com', folders: ['INBOX', 'Archives'] });
+    expect(run.options).toMatchObject({
+      from: new Date('2026-01-01T00:00:00.000Z'),
+      to: new Date('2026-01-12T23:59:59.999Z'),
+      dryRun: false,
+      autoSendDraft: true,
+    });
+    expect(run.progress.sources).toEqual(['ventes@multipartsci.com:INBOX', 'ventes@multipartsci.com:Archives']);
+    expect(run.jobId).toBe('job-1');
+  });
+
+  it('should report what a dry run would do without processing anything', async () => {
+    emailService.fetchEmails.mockResolvedValue([
+      email('3', '2026-01-05T10:00:00Z', 'Relance DDP', '<c@x>'),
+      email('1', '2026-01-02T10:00:00Z', 'Demande de prix pompes', '<a@x>'),
+      email('2', '2026-01-13T08:00:00Z', 'Hors plage', '<b@x>'),
+      email('4', '2026-01-06T10:00:00Z', 'Demande de prix pompes', '<a@x>'),
+    ]);
+    autoProcessor.previewEmail
+      .mockResolvedValueOnce({ outcome: 'new_rfq', requests: [{ clientRfqNumber: 'PR-88', itemCount: 3, needsManualReview: false, llmFallback: false, attachments: ['rfq.pdf'], technicalSheets: [] }] })
+      .mockResolvedValueOnce({ outcome: 'relance', reason: 'Relance de DDP-20251220-001', existingRfqNumber: 'DDP-20251220-001' });
+
+    const run = service.start({ from: '2026-01-01', to: '2026-01-12', sender: 'client.com', dryRun: true });
+    await runJob(run.id);
+
+    expect(emailService.fetchEmails).toHaveBeenCalledWith(expect.objectContaining({
+      folder: 'INBOX',
+      unseen: false,
+      from: 'client.com',
+      since: new Date('2026-01-01T00:00:00.000Z'),
+    }), undefined);
+    expect(autoProcessor.processEmailBatch).not.toHaveBeenCalled();
+
+    const items = service.getItems(run.id);
+    expect(items.map(i => [i.emailId, i.outcome, i.internalRfqNumber || i.clientRfqNumber])).toEqual([
+      ['1', 'new_rfq', 'PR-88'],
+      ['3', 'relance', 'DDP-20251220-001'],
+      ['4', 'skipped', undefined],
+    ]);
+    expect(items[0].requests?.[0].itemCount).toBe(3);
+    expect(service.getItems(run.id, { outcome: 'relance' })).toHaveLength(1);
+    expect(service.getRun(run.id)).toMatchObject({
+      status: 'completed',
+      progress: { emails: 3, completedSources: ['default:INBOX'], outcomes: { new_rfq: 1, relance: 1, skipped: 1 } },
+    });
+  });
+
+  it('should resume after a failure without re-reading finished folders or emails', async () => {
+    emailService.fetchEmails
+      .mockResolvedValueOnce([email('1', '2026-01-02T10:00:00Z', 'A')])
+      .mockRejectedValueOnce(new Error('IMAP search timeout'))
+      .mockResolvedValueOnce([email('7', '2026-01-03T10:00:00Z', 'B'), email('8', '2026-01-04T10:00:00Z', 'C')]);
+    autoProcessor.processEmailBatch.mockImplementation(async ([e]: ParsedEmail[]) => ({
+      details: [e.id === '8'
+        ? { emailId: e.id, status: 'failed', outcome: 'new_rfq', error: 'Excel' }
+        : { emailId: e.id, status: 'success', outcome: 'new_rfq', internalRfqNumber: `DDP-${e.id}` }],
+    }));
+
+    const run = service.start({ from: '2026-01-01', to: '2026-01-12', folders: ['INBOX', 'Archives'], autoSendDraft: false });
+
+    await expect(runJob(run.id)).rejects.toThrow('IMAP search timeout');
+    expect(service.getRun(run.id)).toMatchObject({
+      status: 'pending',
+      error: 'IMAP search timeout',
+      progress: { emails: 1, completedSources: ['default:INBOX'], currentSource: 'default:Archives' },
+    });
+
+    await runJob(run.id);
+
+    expect(emailService.fetchEmails).toHaveBeenCalledTimes(3);
+    expect(emailService.fetchEmails.mock.calls[2][0].folder).toBe('Archives');
+    expect(autoProcessor.processEmailBatch).toHaveBeenLastCalledWith([expect.objectContaining({ id: '8' })], expect.objectContaining({ autoSendDraft: false }));
+    expect(service.getItems(run.id).map(i => [i.emailId, i.outcome, i.internalRfqNumber])).toEqual([
+      ['1', 'new_rfq', 'DDP-1'],
+      ['7', 'new_rfq', 'DDP-7'],
+      ['8', 'failed', undefined],
+    ]);
+    expect(service.getRun(run.id)).toMatchObject({ status: 'completed', progress: { emails: 3, outcomes: { new_rfq: 2, failed: 1 } } });
+  });
+
+  it('should process archive files in file order with the IMAP filters applied locally', async () => {
+    mailArchive.listSources.mockReturnValue(['Thunderbird/Inbox', 'rfq.eml']);
+    mailArchive.readMessages.mockImplementation(async function* (file: string) {
+      if (file === 'rfq.eml') {
+        yield email('file-c', '2026-01-03T10:00:00Z', 'Demande de prix vannes');
+        return;
+      }
+      yield email('file-b', '2026-01-05T10:00:00Z', 'Demande de prix pompes');
+      yield { ...email('file-x', '2026-01-04T10:00:00Z', 'Demande de prix'), from: 'newsletter@autre.com' };
+      yield email('file-a', '2025-12-20T10:00:00Z', 'Trop ancien');
+    });
+    autoProcessor.processEmailBatch.mockImplementation(async ([e]: ParsedEmail[]) => ({
+      details: [{ emailId: e.id, status: 'success', outcome: 'new_rfq', internalRfqNumber: `DDP-${e.id}` }],
+    }));
+
+    expect(() => service.start({ to: '2026-01-12' })).toThrow(BadRequestException);
+    const run = service.start({ path: 'archives', from: '2026-01-01', sender: 'CLIENT.COM', mailbox: 'ventes@multipartsci.com' });
+    expect(run.options.to).toBeUndefined();
+    expect(run.progress.sources).toEqual(['file:Thunderbird/Inbox', 'file:rfq.eml']);
+
+    await runJob(run.id);
+
+    expect(emailService.fetchEmails).not.toHaveBeenCalled();
+    expect(autoProcessor.processEmailBatch).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'file-b', mailbox: 'ventes@multipartsci.com' })],
+      expect.objectContaining({ startDate: new Date('2026-01-01T00:00:00.000Z'), endDate: undefined }),
+    );
+    expect(service.getItems(run.id).map(i => [i.source, i.emailId])).toEqual([
+      ['file:Thunderbird/Inbox', 'file-b'],
+      ['file:rfq.eml', 'file-c'],
+    ]);
+    expect(service.getRun(run.id)).toMatchObject({ status: 'completed', progress: { emails: 2, outcomes: { new_rfq: 2 } } });
+  });
+
+  it('should cancel a pending run and its job', async () => {
+    const run = service.start({ from: '2026-01-01', to: '2026-01-12' });
+
+    expect(service.cancel(run.id).status).toBe('cancelled');
+    expect(jobs[run.jobId!].status).toBe('cancelled');
+    expect(() => service.cancel(run.id)).toThrow(BadRequestException);
+    expect(await runJob(run.id)).toMatchObject({ skipped: true });
+    expect(emailService.fetchEmails).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,605 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/database.service';
+import { EmailService } from '../email/email.service';
+import { MailArchiveService } from '../email/mail-archive.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { Job } from '../jobs/jobs.interfaces';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { MailboxAccount } from '../mailbox/mailbox.interfaces';
+import { ParsedEmail } from '../common/interfaces';
+import { AutoProcessorService, EmailOutcome, EmailPreview, EMAIL_OUTCOMES } from './auto-processor.service';
+
+/** Exécution d'un retraitement en arrière-plan (file de tâches) */
+export const BACKFILL_JOB = 'scheduler.backfill';
+
+export type BackfillStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** Issue d'un email dans un retraitement: celle des filtres, ou échec de la génération */
+export type BackfillOutcome = EmailOutcome | 'failed';
+
+export interface BackfillOptions {
+  from?: Date; // requis pour IMAP, facultatif pour une archive
+  to?: Date;
+  folders: string[];
+  path?: string; // archive sur disque (.eml, .mbox, dossier Thunderbird) relative à localMail.importDir, au lieu d'IMAP
+  mailbox?: string; // adresse d'une boîte du registre (défaut: boîtes rfq_intake); boîte attribuée aux emails d'une archive
+  sender?: string; // recherche IMAP FROM (sous-chaîne)
+  subject?: string; // recherche IMAP SUBJECT (sous-chaîne)
+  unseenOnly: boolean; // IMAP uniquement
+  dryRun: boolean;
+  autoSendDraft: boolean;
+}
+
+export interface BackfillRequest {
+  from?: string;
+  to?: string;
+  folders?: string[];
+  path?: string;
+  mailbox?: string;
+  sender?: string;
+  subject?: string;
+  unseenOnly?: boolean;
+  dryRun?: boolean;
+  autoSendDraft?: boolean;
+}
+
+export interface BackfillProgress {
+  sources: string[]; // boîte:dossier, ou file:fichier d'archive, à parcourir
+  completedSources: string[];
+  currentSource?: string;
+  emails: number; // emails examinés
+  outcomes: Record<BackfillOutcome, number>;
+}
+
+export interface BackfillRun {
+  id: string;
+  status: BackfillStatus;
+  options: BackfillOptions;
+  progress: BackfillProgress;
+  jobId?: string;
+  error?: string;
+  createdBy?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Ligne du rapport: ce qui a été fait (ou serait fait en simulation) pour un email
+ */
+export interface BackfillItem {
+  runId: string;
+  source: string;
+  emailId: string;
+  messageId?: string;
+  from: string;
+  subject: string;
+  receivedAt: Date;
+  outcome: BackfillOutcome;
+  reason?: string;
+  internalRfqNumber?: string; // demande créée, ou demande d'origine d'une relance
+  clientRfqNumber?: string;
+  requests?: EmailPreview['requests'];
+  processedAt: Date;
+}
+
+const FETCH_TIMEOUT_MS = 5 * 60 * 1000;
+
+const FILE_SOURCE_PREFIX = 'file:';
+
+/**
+ * Retraitement des emails d'une plage de dates (dossiers, boîte, expéditeur, sujet).
+ *
+ * - Contrairement au cycle périodique, les emails déjà lus sont repris; les emails déjà traités
+ *   (UID ou Message-ID) restent ignorés, un retraitement peut donc être relancé sans doublon.
+ * - Simulation (dryRun): mêmes filtres et même extraction, sans rien écrire ni envoyer; le rapport
+ *   par email indique nouvelle demande, relance, offre fournisseur ou motif d'exclusion. Les
+ *   demandes qui seraient créées pendant la simulation ne sont pas vues par la détection des relances.
+ * - Exécution par la file de tâches: chaque email examiné est enregistré (backfill_items) et un
+ *   dossier terminé n'est plus relu; après un redémarrage ou un échec, la tâche reprend où elle
+ *   s'est arrêtée.
+ * - Archive sur disque (path): les fichiers .eml/.mbox/Thunderbird remplacent les dossiers IMAP et
+ *   suivent le même chemin (détection, extraction, brouillon); les messages sont pris dans l'ordre
+ *   des fichiers. Avec MAIL_OUTBOUND_SINK=file, brouillons et envois restent en local.
+ */
+@Injectable()
+export class BackfillService implements OnModuleInit {
+  private readonly logger = new Logger(BackfillService.name);
+  private tablesReady = false;
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly emailService: EmailService,
+    private readonly mailArchive: MailArchiveService,
+    private readonly autoProcessor: AutoProcessorService,
+    private readonly jobQueue: JobQueueService,
+    private readonly mailboxRegistry: MailboxRegistryService,
+  ) {}
+
+  onModuleInit() {
+    this.jobQueue.registerHandler<{ runId: string }>(BACKFILL_JOB, job => this.runJob(job), { maxAttempts: 5 });
+  }
+
+  private get db(): any {
+    const db = (this.databaseService as any).db;
+    if (!this.tablesReady) {
+      this.tablesReady = true;
+      this.createTables(db);
+    }
+    return db;
+  }
+
+  private createTables(db: any): void {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS backfill_runs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'pending',
+        options_json TEXT NOT NULL,
+        progress_json TEXT NOT NULL,
+        job_id TEXT,
+        error TEXT,
+        created_by TEXT,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        finished_at TEXT,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS backfill_items (
+        run_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        email_id TEXT NOT NULL,
+        message_id TEXT,
+        from_address TEXT,
+        subject TEXT,
+        received_at TEXT,
+        outcome TEXT NOT NULL,
+        reason TEXT,
+        internal_rfq_number TEXT,
+        client_rfq_number TEXT,
+        requests_json TEXT,
+        processed_at TEXT NOT NULL,
+        PRIMARY KEY (run_id, source, email_id)
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_backfill_items_outcome ON backfill_items(run_id, outcome)`);
+  }
+
+  // ============ RETRAITEMENTS ============
+
+  /**
+   * Créer un retraitement et le placer dans la file de tâches
+   */
+  start(request: BackfillRequest, actor?: string): BackfillRun {
+    const options = this.validateRequest(request);
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const progress: BackfillProgress = {
+      sources: this.resolveSources(options),
+      completedSources: [],
+      emails: 0,
+      outcomes: this.emptyOutcomes(),
+    };
+
+    this.db.run(`
+      INSERT INTO backfill_runs (id, status, options_json, progress_json, created_by, created_at, updated_at)
+      VALUES (?, 'pending', ?, ?, ?, ?, ?)
+    `, [id, JSON.stringify(options), JSON.stringify(progress), actor || null, now, now]);
+
+    const job = this.jobQueue.enqueue(BACKFILL_JOB, { runId: id });
+    this.db.run(`UPDATE backfill_runs SET job_id = ? WHERE id = ?`, [job.id, id]);
+    this.databaseService.saveToFile();
+
+    this.logger.log(
+      `Retraitement ${id}${options.dryRun ? ' (simulation)' : ''}: ${options.from?.toISOString() || '...'} - ${options.to?.toISOString() || '...'}, ${progress.sources.join(', ')}`,
+    );
+    return this.getRun(id)!;
+  }
+
+  getRun(id: string): BackfillRun | null {
+    const result = this.db.exec(`SELECT * FROM backfill_runs WHERE id = ?`, [id]);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.mapRowToRun(result[0].columns, result[0].values[0]);
+  }
+
+  listRuns(limit = 20): BackfillRun[] {
+    const result = this.db.exec(`SELECT * FROM backfill_runs ORDER BY created_at DESC LIMIT ?`, [limit]);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToRun(result[0].columns, row));
+  }
+
+  /**
+   * Rapport par email, dans l'ordre de traitement
+   */
+  getItems(runId: string, filters: { outcome?: BackfillOutcome; limit?: number; offset?: number } = {}): BackfillItem[] {
+    let query = `SELECT * FROM backfill_items WHERE run_id = ?`;
+    const params: any[] = [runId];
+    if (filters.outcome) {
+      query += ` AND outcome = ?`;
+      params.push(filters.outcome);
+    }
+    query += ` ORDER BY processed_at ASC, rowid ASC LIMIT ? OFFSET ?`;
+    params.push(filters.limit || 500, filters.offset || 0);
+
+    const result = this.db.exec(query, params);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToItem(result[0].columns, row));
+  }
+
+  /**
+   * Arrêter un retraitement: la tâche s'interrompt avant l'email suivant
+   */
+  cancel(id: string): BackfillRun {
+    const run = this.getRun(id);
+    if (!run) {
+      throw new NotFoundException(`Retraitement non trouvé: ${id}`);
+    }
+    if (run.status === 'completed' || run.status === 'failed' || run.status === 'cancelled') {
+      throw new BadRequestException(`Retraitement déjà terminé (${run.status})`);
+    }
+
+    const job = run.jobId ? this.jobQueue.getJob(run.jobId) : null;
+    if (job?.status === 'pending') {
+      this.jobQueue.cancelJob(job.id);
+    }
+    this.updateRun(id, { status: 'cancelled', finished_at: new Date().toISOString() });
+    return this.getRun(id)!;
+  }
+
+  // ============ EXÉCUTION ============
+
+  private async runJob(job: Job<{ runId: string }>): Promise<any> {
+    const run = this.getRun(job.payload?.runId);
+    if (!run || run.status === 'completed' || run.status === 'cancelled') {
+      return { skipped: true, reason: run ? `Retraitement ${run.status}` : 'Retraitement supprimé' };
+    }
+
+    try {
+      const progress = await this.execute(run);
+      return { runId: run.id, emails: progress.emails, outcomes: progress.outcomes };
+    } catch (error) {
+      if (this.isCancelled(run.id)) {
+        return { runId: run.id, cancelled: true, error: error.message };
+      }
+      // Dernier essai: le retraitement est en échec; sinon la tâche reprendra plus tard
+      const exhausted = job.attempts >= job.maxAttempts;
+      this.updateRun(run.id, {
+        status: exhausted ? 'failed' : 'pending',
+        error: error.message,
+        finished_at: exhausted ? new Date().toISOString() : null,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Parcourir les sources restantes; les emails déjà présents dans le rapport sont sautés
+   */
+  private async execute(run: BackfillRun): Promise<BackfillProgress> {
+    const { options, progress } = run;
+    this.updateRun(run.id, {
+      status: 'running',
+      error: null,
+      started_at: (run.startedAt || new Date()).toISOString(),
+    });
+
+    const accounts = options.path ? [] : this.resolveAccounts(options.mailbox);
+
+    for (const source of progress.sources) {
+      if (progress.completedSources.includes(source)) continue;
+
+      progress.currentSource = source;
+      this.saveProgress(run.id, progress);
+
+      let emails: Iterable<ParsedEmail> | AsyncIterable<ParsedEmail>;
+      if (source.startsWith(FILE_SOURCE_PREFIX)) {
+        emails = this.readArchive(options, source.substring(FILE_SOURCE_PREFIX.length));
+      } else {
+        const separator = source.indexOf(':');
+        const address = source.substring(0, separator);
+        const account = accounts.find(candidate => (candidate?.email || 'default') === address);
+        if (!account && address !== 'default') {
+          throw new Error(`Boîte retirée du registre: ${address}`);
+        }
+        const fetched = await this.fetchEmails(options, source.substring(separator + 1), account);
+        this.logger.log(`Retraitement ${run.id}: ${fetched.length} email(s) dans ${source}`);
+        emails = fetched;
+      }
+
+      for await (const email of emails) {
+        if (this.isCancelled(run.id)) {
+          this.logger.log(`Retraitement ${run.id} annulé`);
+          return progress;
+        }
+        if (this.hasItem(run.id, source, email.id)) continue;
+
+        const item = await this.processEmail(run, source, email);
+        this.insertItem(item);
+        progress.emails++;
+        progress.outcomes[item.outcome]++;
+        this.saveProgress(run.id, progress);
+      }
+
+      progress.completedSources.push(source);
+      progress.currentSource = undefined;
+      this.saveProgress(run.id, progress);
+    }
+
+    this.updateRun(run.id, { status: 'completed', finished_at: new Date().toISOString() });
+    this.logger.log(`Retraitement ${run.id} terminé: ${progress.emails} email(s) ${JSON.stringify(progress.outcomes)}`);
+    return progress;
+  }
+
+  private async fetchEmails(options: BackfillOptions, folder: string, account?: MailboxAccount): Promise<ParsedEmail[]> {
+    const emails = await this.emailService.fetchEmails({
+      folder,
+      unseen: options.unseenOnly,
+      from: options.sender,
+      subject: options.subject,
+      since: options.from,
+      // BEFORE est exclusif et à la journée près: le filtre exact est appliqué ensuite
+      before: new Date(options.to!.getTime() + 24 * 60 * 60 * 1000),
+      limit: 0,
+      timeout: FETCH_TIMEOUT_MS,
+    }, account);
+
+    // Les plus anciens d'abord, pour que les relances suivent leur demande
+    return emails
+      .filter(email => this.matchesRange(options, email))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  /**
+   * Messages d'un fichier d'archive, avec les filtres qu'IMAP applique côté serveur
+   */
+  private async *readArchive(options: BackfillOptions, file: string): AsyncGenerator<ParsedEmail> {
+    const sender = options.sender?.toLowerCase();
+    const subject = options.subject?.toLowerCase();
+
+    for await (const email of this.mailArchive.readMessages(file)) {
+      if (!this.matchesRange(options, email)) continue;
+      if (sender && !email.from.toLowerCase().includes(sender)) continue;
+      if (subject && !email.subject.toLowerCase().includes(subject)) continue;
+
+      email.mailbox = options.mailbox;
+      yield email;
+    }
+  }
+
+  private matchesRange(options: BackfillOptions, email: ParsedEmail): boolean {
+    return (!options.from || email.date >= options.from) && (!options.to || email.date <= options.to);
+  }
+
+  private async processEmail(run: BackfillRun, source: string, email: ParsedEmail): Promise<BackfillItem> {
+    const item: BackfillItem = {
+      runId: run.id,
+      source,
+      emailId: email.id,
+      messageId: email.messageId,
+      from: email.from,
+      subject: email.subject,
+      receivedAt: email.date,
+      outcome: 'skipped',
+      processedAt: new Date(),
+    };
+    const range = { startDate: run.options.from, endDate: run.options.to };
+
+    if (run.options.dryRun) {
+      // Même email reçu sur plusieurs boîtes: seul le premier serait traité
+      if (email.messageId && this.hasMessageId(run.id, email.messageId)) {
+        return { ...item, reason: 'Déjà traité (même email reçu sur autre boîte)' };
+      }
+      try {
+        const preview = await this.autoProcessor.previewEmail(email, range);
+        return {
+          ...item,
+          outcome: preview.outcome,
+          reason: preview.reason,
+          internalRfqNumber: preview.existingRfqNumber,
+          clientRfqNumber: preview.requests?.find(request => request.clientRfqNumber)?.clientRfqNumber,
+          requests: preview.requests,
+        };
+      } catch (error) {
+        return { ...item, outcome: 'failed', reason: error.message };
+      }
+    }
+
+    // Attend la fin de l'email en cours de traitement par la relève ou l'écoute IDLE
+    const result = await this.autoProcessor.processEmailBatch([email], {
+      ...range,
+      autoSendDraft: run.options.autoSendDraft,
+    });
+    const detail = result.details[0];
+    return {
+      ...item,
+      outcome: detail.status === 'failed' ? 'failed' : detail.outcome || 'skipped',
+      reason: detail.error,
+      internalRfqNumber: detail.internalRfqNumber,
+      clientRfqNumber: detail.clientRfqNumber,
+    };
+  }
+
+  // ============ VALIDATION ============
+
+  private validateRequest(request: BackfillRequest): BackfillOptions {
+    const path = request?.path?.trim() || undefined;
+    if (!path && (!request?.from || !request?.to)) {
+      throw new BadRequestException('from et to requis (ou path pour une archive)');
+    }
+    const from = request.from ? this.parseDate(request.from, false) : undefined;
+    const to = request.to ? this.parseDate(request.to, true) : undefined;
+    if (from && to && from > to) {
+      throw new BadRequestException('from doit précéder to');
+    }
+
+    const folders = (request.folders || []).map(folder => folder.trim()).filter(Boolean);
+    return {
+      from,
+      to,
+      folders: folders.length > 0 ? folders : ['INBOX'],
+      path,
+      mailbox: request.mailbox?.trim() || undefined,
+      sender: request.sender?.trim() || undefined,
+      subject: request.subject?.trim() || undefined,
+      unseenOnly: request.unseenOnly === true,
+      dryRun: request.dryRun === true,
+      autoSendDraft: request.autoSendDraft !== false,
+    };
+  }
+
+  /**
+   * Date ISO; une date seule (AAAA-MM-JJ) couvre la journée entière (UTC)
+   */
+  private parseDate(value: string, endOfDay: boolean): Date {
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const date = new Date(dateOnly ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Date invalide: ${value}`);
+    }
+    return date;
+  }
+
+  private resolveSources(options: BackfillOptions): string[] {
+    if (options.path) {
+      const files = this.mailArchive.listSources(options.path);
+      if (files.length === 0) {
+        throw new BadRequestException(`Aucun fichier .eml, .mbox ou dossier Thunderbird dans ${options.path}`);
+      }
+      return files.map(file => `${FILE_SOURCE_PREFIX}${file}`);
+    }
+    return this.resolveAccounts(options.mailbox)
+      .flatMap(account => options.folders.map(folder => this.sourceKey(account, folder)));
+  }
+
+  private resolveAccounts(mailbox?: string): (MailboxAccount | undefined)[] {
+    if (mailbox) {
+      const account = this.mailboxRegistry.findAccountByEmail(mailbox);
+      if (!account) {
+        throw new BadRequestException(`Boîte non enregistrée: ${mailbox}`);
+      }
+      return [account];
+    }
+    // Boîtes de réception des demandes clients (configuration de l'environnement si aucun compte)
+    const accounts = this.mailboxRegistry.getAccountsForRole('rfq_intake');
+    return accounts.length > 0 ? accounts : [undefined];
+  }
+
+  private sourceKey(account: MailboxAccount | undefined, folder: string): string {
+    return `${account?.email || 'default'}:${folder}`;
+  }
+
+  private emptyOutcomes(): Record<BackfillOutcome, number> {
+    const outcomes = {} as Record<BackfillOutcome, number>;
+    [...EMAIL_OUTCOMES, 'failed' as const].forEach(outcome => outcomes[outcome] = 0);
+    return outcomes;
+  }
+
+  // ============ PERSISTANCE ============
+
+  private isCancelled(runId: string): boolean {
+    return this.getRun(runId)?.status === 'cancelled';
+  }
+
+  private hasItem(runId: string, source: string, emailId: string): boolean {
+    const result = this.db.exec(
+      `SELECT 1 FROM backfill_items WHERE run_id = ? AND source = ? AND email_id = ?`,
+      [runId, source, emailId],
+    );
+    return result.length > 0 && result[0].values.length > 0;
+  }
+
+  private hasMessageId(runId: string, messageId: string): boolean {
+    const result = this.db.exec(
+      `SELECT 1 FROM backfill_items WHERE run_id = ? AND message_id = ? LIMIT 1`,
+      [runId, messageId],
+    );
+    return result.length > 0 && result[0].values.length > 0;
+  }
+
+  private insertItem(item: BackfillItem): void {
+    this.db.run(`
+      INSERT OR REPLACE INTO backfill_items (
+        run_id, source, email_id, message_id, from_address, subject, received_at, outcome, reason,
+        internal_rfq_number, client_rfq_number, requests_json, processed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      item.runId,
+      item.source,
+      item.emailId,
+      item.messageId || null,
+      item.from || null,
+      item.subject || null,
+      item.receivedAt ? new Date(item.receivedAt).toISOString() : null,
+      item.outcome,
+      item.reason || null,
+      item.internalRfqNumber || null,
+      item.clientRfqNumber || null,
+      item.requests ? JSON.stringify(item.requests) : null,
+      item.processedAt.toISOString(),
+    ]);
+  }
+
+  private saveProgress(runId: string, progress: BackfillProgress): void {
+    this.updateRun(runId, { progress_json: JSON.stringify(progress) });
+  }
+
+  private updateRun(id: string, fields: Record<string, string | null>): void {
+    const columns = Object.keys(fields);
+    this.db.run(
+      `UPDATE backfill_runs SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = ? WHERE id = ?`,
+      [...columns.map(column => fields[column]), new Date().toISOString(), id],
+    );
+    this.databaseService.saveToFile();
+  }
+
+  private mapRowToRun(columns: string[], row: any[]): BackfillRun {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+
+    const options = JSON.parse(obj.options_json);
+    return {
+      id: obj.id,
+      status: obj.status,
+      options: {
+        ...options,
+        from: options.from ? new Date(options.from) : undefined,
+        to: options.to ? new Date(options.to) : undefined,
+      },
+      progress: JSON.parse(obj.progress_json),
+      jobId: obj.job_id || undefined,
+      error: obj.error || undefined,
+      createdBy: obj.created_by || undefined,
+      createdAt: new Date(obj.created_at),
+      startedAt: obj.started_at ? new Date(obj.started_at) : undefined,
+      finishedAt: obj.finished_at ? new Date(obj.finished_at) : undefined,
+      updatedAt: new Date(obj.updated_at),
+    };
+  }
+
+  private mapRowToItem(columns: string[], row: any[]): BackfillItem {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+
+    return {
+      runId: obj.run_id,
+      source: obj.source,
+      emailId: obj.email_id,
+      messageId: obj.message_id || undefined,
+      from: obj.from_address || '',
+      subject: obj.subject || '',
+      receivedAt: new Date(obj.received_at),
+      outcome: obj.outcome,
+      reason: obj.reason || undefined,
+      internalRfqNumber: obj.internal_rfq_number || undefined,
+      clientRfqNumber: obj.client_rfq_number || undefined,
+      requests: obj.requests_json ? JSON.parse(obj.requests_json) : undefined,
+      processedAt: new Date(obj.processed_at),
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ImapListenerService } from './imap-listener.service';
+import { AutoProcessorService } from './auto-processor.service';
+import { DatabaseService } from '../database/database.service';
+import { EmailService } from '../email/email.service';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+
+/**
+ * Serveur IMAP local simulé au niveau d'imap-simple: un dossier, des UID croissants,
+ * notification "mail" des connexions ouvertes (IDLE)
+ */
+class ImapStandIn {
+  uidValidity = 1;
+  available = true;
+  private nextUid = 1;
+  private messages: Array<{ uid: number; raw: string }> = [];
+  private connections: Array<{ connection: EventEmitter; onmail?: (n: number) => void }> = [];
+
+  deliver(subject: string): number {
+    const uid = this.nextUid++;
+    this.messages.push({
+      uid,
+      raw: `From: client@example.com\r\nTo: procurement@multipartsci.com\r\nSubject: ${subject}\r\n`
+        + `Message-ID: <${uid}.${this.uidValidity}@example.com>\r\n\r\nMerci de nous coter.\r\n`,
+    });
+    this.connections.forEach(c => c.onmail?.(1));
+    return uid;
+  }
+
+  recreateFolder(): void {
+    this.uidValidity++;
+    this.messages = [];
+  }
+
+  dropConnections(): void {
+    this.connections.forEach(c => c.connection.emit('close'));
+    this.connections = [];
+  }
+
+  async connect(events: { onmail?: (n: number) => void }): Promise<any> {
+    if (!this.available) {
+      throw new Error('connect ECONNREFUSED 127.0.0.1:1143');
+    }
+    const connection: any = new EventEmitter();
+    connection.openBox = async () => ({ uidvalidity: this.uidValidity, uidnext: this.nextUid });
+    connection.search = async (criteria: any[], options: { bodies: string[] }) =>
+      this.messages
+        .filter(m => this.matchesUid(m.uid, criteria[0][1]))
+        .map(m => ({
+          attributes: { uid: m.uid },
+          parts: options.bodies.includes('') ? [{ which: '', body: m.raw }] : [],
+        }));
+    connection.end = () => {
+      this.connections = this.connections.filter(c => c.connection !== connection);
+    };
+    this.connections.push({ connection, onmail: events.onmail });
+    return connection;
+  }
+
+  private matchesUid(uid: number, set: string): boolean {
+    const last = this.messages.length > 0 ? this.messages[this.messages.length - 1].uid : 0;
+    return set.split(',').some(range => {
+      const [from, to] = range.split(':');
+      const start = Number(from);
+      const end = to === '*' ? Math.max(last, start) : Number(to ?? from);
+      return (uid >= start && uid <= end) || (to === '*' && uid === last);
+    });
+  }
+}
+
+describe('ImapListenerService', () => {
+  let service: ImapListenerService;
+  let databaseService: DatabaseService;
+  let server: ImapStandIn;
+  let dataDir: string;
+  const processedSubjects: string[] = [];
+
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'imap-idle-'));
+    server = new ImapStandIn();
+    processedSubjects.length = 0;
+
+    const config: Record<string, any> = {
+      'app.dbPath': path.join(dataDir, 'test.db'),
+      'imap.ingestionMode': 'idle',
+      'imap.user': 'procurement@multipartsci.com',
+      'imap.reconnectMinSeconds': 0.01,
+      'imap.reconnectMaxSeconds': 0.05,
+      'imap.idleBatchSize': 2,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImapListenerService,
+        DatabaseService,
+        EmailService,
+        MailboxRegistryService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) },
+        },
+        {
+          provide: AutoProcessorService,
+          useValue: {
+            processEmailBatch: jest.fn(async (emails: any[], _options: any, result?: any) => {
+              processedSubjects.push(...emails.map(email => email.subject));
+              return result || { processed: 0, successful: 0, failed: 0, skipped: 0, details: [] };
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    databaseService = module.get<DatabaseService>(DatabaseService);
+    await databaseService.onModuleInit();
+    await module.get<MailboxRegistryService>(MailboxRegistryService).onModuleInit();
+    jest.spyOn(module.get<EmailService>(EmailService), 'connect').mockImplementation(events => server.connect(events!));
+    service = module.get<ImapListenerService>(ImapListenerService);
+  });
+
+  afterEach(() => {
+    service.stop();
+    databaseService.onModuleDestroy();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should process messages by UID as they arrive, whatever their \\Seen flag', async () => {
+    server.deliver('Ancien message');
+    await service.start();
+    await service.catchUp();
+    expect(processedSubjects).toEqual([]);
+
+    server.deliver('RFQ PR-1001');
+    server.deliver('RFQ PR-1002');
+    server.deliver('RFQ PR-1003');
+    await service.catchUp();
+
+    expect(processedSubjects).toEqual(['RFQ PR-1001', 'RFQ PR-1002', 'RFQ PR-1003']);
+    const [folder] = service.getStatus().folders;
+    expect(folder).toMatchObject({ folder: 'INBOX', state: 'listening', lastUid: 4, processedCount: 3 });
+    expect(await databaseService.getImapFolderState('procurement@multipartsci.com', 'INBOX'))
+      .toMatchObject({ uidValidity: 1, lastUid: 4 });
+  });
+
+  it('should resume from the persisted UID after a restart', async () => {
+    await service.start();
+    server.deliver('RFQ PR-2001');
+    await service.catchUp();
+
+    service.stop();
+    server.deliver('RFQ PR-2002');
+    server.deliver('RFQ PR-2003');
+    await service.start();
+    await service.catchUp();
+
+    expect(processedSubjects).toEqual(['RFQ PR-2001', 'RFQ PR-2002', 'RFQ PR-2003']);
+  });
+
+  it('should reset the cursor when UIDVALIDITY changes', async () => {
+    await service.start();
+    server.deliver('RFQ PR-3001');
+    await service.catchUp();
+    service.stop();
+
+    server.recreateFolder();
+    server.deliver('Message du dossier recréé');
+    await service.start();
+    await service.catchUp();
+
+    expect(processedSubjects).toEqual(['RFQ PR-3001']);
+    expect(service.getStatus().folders[0]).toMatchObject({ uidValidity: 2, lastUid: 2 });
+  });
+
+  it('should reconnect with backoff after a connection loss', async () => {
+    await service.start();
+    server.available = false;
+    server.dropConnections();
+
+    let [folder] = service.getStatus().folders;
+    expect(folder.state).toBe('reconnecting');
+    expect(folder.lastError).toBe('Connexion fermée par le serveur');
+
+    await wait(100);
+    [folder] = service.getStatus().folders;
+    expect(folder.reconnectAttempts).toBeGreaterThan(1);
+    expect(folder.lastError).toContain('ECONNREFUSED');
+
+    server.available = true;
+    server.deliver('RFQ PR-4001');
+    await wait(100);
+    await service.catchUp();
+
+    expect(service.getStatus().folders[0]).toMatchObject({ state: 'listening', reconnectAttempts: 0 });
+    expect(processedSubjects).toEqual(['RFQ PR-4001']);
+  });
+});
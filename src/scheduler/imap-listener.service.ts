@@ -0,0 +1,369 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as imapSimple from 'imap-simple';
+import { DatabaseService } from '../database/database.service';
+import { EmailService } from '../email/email.service';
+import { MailboxRegistryService } from '../mailbox/mailbox-registry.service';
+import { MailboxAccount } from '../mailbox/mailbox.interfaces';
+import { AutoProcessorService, ProcessResult } from './auto-processor.service';
+
+export type ImapListenerState = 'connecting' | 'listening' | 'processing' | 'reconnecting' | 'stopped';
+
+/**
+ * État d'écoute d'un dossier, exposé par GET /scheduler/imap-listener
+ */
+export interface ImapFolderListenerStatus {
+  mailbox: string;
+  folder: string;
+  state: ImapListenerState;
+  uidValidity?: number;
+  lastUid?: number;
+  connectedAt?: Date;
+  lastMailAt?: Date;
+  lastProcessedAt?: Date;
+  processedCount: number;
+  reconnectAttempts: number;
+  nextReconnectAt?: Date;
+  lastError?: string;
+}
+
+interface FolderListener extends ImapFolderListenerStatus {
+  account?: MailboxAccount; // undefined = configuration IMAP de l'environnement
+  connection?: imapSimple.ImapSimple;
+  reconnectTimer?: NodeJS.Timeout;
+  running?: Promise<void>;
+  pending: boolean; // nouveau courrier signalé pendant un traitement
+}
+
+/**
+ * Écoute IMAP IDLE (IMAP_INGESTION_MODE=idle).
+ *
+ * Une connexion par boîte de réception des demandes (rôle rfq_intake) et par dossier surveillé reste ouverte en IDLE; chaque nouveau message est traité
+ * par UID, indépendamment du flag \Seen (un email déjà ouvert dans Thunderbird n'est plus ignoré).
+ * Le dernier UID traité est enregistré par dossier avec l'UIDVALIDITY: après un redémarrage,
+ * l'écoute reprend là où elle s'était arrêtée. Reconnexion avec délai croissant en cas de coupure.
+ */
+@Injectable()
+export class ImapListenerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ImapListenerService.name);
+  private readonly listeners = new Map<string, FolderListener>();
+  private stopping = false;
+  private started = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly databaseService: DatabaseService,
+    private readonly emailService: EmailService,
+    private readonly autoProcessor: AutoProcessorService,
+    private readonly mailboxRegistry: MailboxRegistryService,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.configService.get<string>('imap.ingestionMode') === 'idle';
+  }
+
+  async onApplicationBootstrap() {
+    if (!this.isEnabled()) return;
+
+    // Une seule instance traite les emails (même règle que la file de tâches)
+    if (!this.configService.get<boolean>('jobs.workerEnabled', true)) {
+      this.logger.log('Écoute IMAP désactivée sur cette instance (JOBS_WORKER_ENABLED=false)');
+      return;
+    }
+
+    await this.start();
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  async start(): Promise<void> {
+    this.stopping = false;
+    this.started = true;
+    const config = await this.databaseService.getProcessingConfig();
+    const folders = config?.folders?.length ? config.folders : ['INBOX'];
+    const registered = this.mailboxRegistry.getAccountsForRole('rfq_intake');
+    const accounts = registered.length > 0 ? registered : [undefined];
+
+    const wanted = new Map<string, { account?: MailboxAccount; folder: string }>();
+    for (const account of accounts) {
+      for (const configured of folders) {
+        const folder = this.mailboxRegistry.resolveFolder(account, configured);
+        wanted.set(this.listenerKey(account, folder), { account, folder });
+      }
+    }
+
+    // Boîtes ou dossiers retirés de la configuration
+    for (const [key, listener] of this.listeners) {
+      if (wanted.has(key)) continue;
+      if (listener.reconnectTimer) clearTimeout(listener.reconnectTimer);
+      listener.state = 'stopped';
+      this.closeConnection(listener);
+      this.listeners.delete(key);
+    }
+
+    for (const [key, { account, folder }] of wanted) {
+      if (this.listeners.has(key)) continue;
+      const listener: FolderListener = {
+        account,
+        mailbox: this.mailboxName(account),
+        folder,
+        state: 'connecting',
+        processedCount: 0,
+        reconnectAttempts: 0,
+        pending: false,
+      };
+      this.listeners.set(key, listener);
+      await this.connect(listener);
+    }
+
+    this.logger.log(`Écoute IMAP IDLE démarrée sur ${[...wanted.keys()].join(', ')}`);
+  }
+
+  stop(): void {
+    this.stopping = true;
+    this.started = false;
+    for (const listener of this.listeners.values()) {
+      if (listener.reconnectTimer) clearTimeout(listener.reconnectTimer);
+      listener.reconnectTimer = undefined;
+      listener.nextReconnectAt = undefined;
+      listener.state = 'stopped';
+      this.closeConnection(listener);
+    }
+    this.listeners.clear();
+  }
+
+  /**
+   * Appliquer une modification des dossiers ou des boîtes surveillés (si l'écoute tourne sur cette instance)
+   */
+  async refreshFolders(): Promise<void> {
+    if (this.started) {
+      await this.start();
+    }
+  }
+
+  /**
+   * Reconnexion immédiate des dossiers déconnectés (délai de reprise remis à zéro);
+   * prend aussi en compte les boîtes ajoutées ou retirées du registre
+   */
+  async reconnect(): Promise<ImapFolderListenerStatus[]> {
+    await this.refreshFolders();
+    for (const listener of this.listeners.values()) {
+      if (listener.state !== 'reconnecting') continue;
+      if (listener.reconnectTimer) clearTimeout(listener.reconnectTimer);
+      listener.reconnectTimer = undefined;
+      listener.reconnectAttempts = 0;
+      await this.connect(listener);
+    }
+    return this.getStatus().folders;
+  }
+
+  /**
+   * Rattrapage de tous les dossiers depuis leur dernier UID (cycle périodique en mode IDLE:
+   * filet de sécurité si une notification a été perdue)
+   */
+  async catchUp(): Promise<ProcessResult> {
+    const result: ProcessResult = { processed: 0, successful: 0, failed: 0, skipped: 0, details: [] };
+    for (const listener of this.listeners.values()) {
+      await this.drain(listener, result);
+    }
+    return result;
+  }
+
+  getStatus(): { enabled: boolean; mode: string; folders: ImapFolderListenerStatus[] } {
+    return {
+      enabled: this.isEnabled(),
+      mode: this.configService.get<string>('imap.ingestionMode') || 'poll',
+      folders: [...this.listeners.values()]
+        .map(({ account, connection, reconnectTimer, running, pending, ...status }) => status),
+    };
+  }
+
+  private mailboxName(account?: MailboxAccount): string {
+    return account?.email
+      || this.configService.get<string>('imap.user')
+      || this.configService.get<string>('imap.host')
+      || 'default';
+  }
+
+  private listenerKey(account: MailboxAccount | undefined, folder: string): string {
+    return `${this.mailboxName(account)}|${folder}`;
+  }
+
+  // ============ CONNEXION ============
+
+  private async connect(listener: FolderListener): Promise<void> {
+    if (this.stopping) return;
+    listener.state = 'connecting';
+    listener.nextReconnectAt = undefined;
+
+    let connection: imapSimple.ImapSimple | undefined;
+    try {
+      connection = await this.emailService.connect({ onmail: () => this.onNewMail(listener) }, listener.account);
+      listener.connection = connection;
+
+      const conn = connection;
+      conn.on('error', (error: Error) => this.handleDisconnect(listener, conn, error?.message || 'Erreur IMAP'));
+      conn.on('close', () => this.handleDisconnect(listener, conn, 'Connexion fermée par le serveur'));
+      conn.on('end', () => this.handleDisconnect(listener, conn, 'Connexion terminée'));
+      // Dossier recréé pendant l'écoute: la reconnexion relit UIDVALIDITY et UIDNEXT
+      conn.on('uidvalidity', () => this.handleDisconnect(listener, conn, 'UIDVALIDITY modifié'));
+
+      const box = await conn.openBox(listener.folder);
+      await this.initCursor(listener, Number(box.uidvalidity), Number(box.uidnext));
+
+      listener.state = 'listening';
+      listener.connectedAt = new Date();
+      listener.reconnectAttempts = 0;
+      listener.lastError = undefined;
+      this.logger.log(`IDLE ${listener.mailbox}/${listener.folder}: en écoute à partir de l'UID ${listener.lastUid! + 1}`);
+
+      // Messages arrivés pendant l'arrêt ou la coupure
+      this.drain(listener).catch(error => this.logger.error(`IDLE ${listener.mailbox}/${listener.folder}: ${error.message}`));
+    } catch (error) {
+      this.handleDisconnect(listener, connection, error?.message || String(error));
+    }
+  }
+
+  private handleDisconnect(listener: FolderListener, connection: imapSimple.ImapSimple | undefined, reason: string): void {
+    // Événement d'une connexion déjà remplacée, ou arrêt volontaire
+    if (connection && listener.connection !== connection) return;
+    if (this.stopping || listener.state === 'reconnecting' || listener.state === 'stopped') return;
+
+    this.closeConnection(listener);
+
+    const minSeconds = this.configService.get<number>('imap.reconnectMinSeconds') || 5;
+    const maxSeconds = this.configService.get<number>('imap.reconnectMaxSeconds') || 300;
+    const delaySeconds = Math.min(minSeconds * Math.pow(2, listener.reconnectAttempts), maxSeconds);
+    listener.reconnectAttempts++;
+    listener.state = 'reconnecting';
+    listener.lastError = reason;
+    listener.nextReconnectAt = new Date(Date.now() + delaySeconds * 1000);
+    listener.reconnectTimer = setTimeout(() => {
+      listener.reconnectTimer = undefined;
+      void this.connect(listener);
+    }, delaySeconds * 1000);
+
+    this.logger.warn(`IDLE ${listener.mailbox}/${listener.folder}: ${reason}, reconnexion dans ${delaySeconds}s (tentative ${listener.reconnectAttempts})`);
+  }
+
+  private closeConnection(listener: FolderListener): void {
+    const connection = listener.connection;
+    listener.connection = undefined;
+    if (!connection) return;
+    try {
+      connection.end();
+    } catch {
+      // Connexion déjà fermée
+    }
+  }
+
+  // ============ CURSEUR UID ============
+
+  private async initCursor(listener: FolderListener, uidValidity: number, uidNext: number): Promise<void> {
+    const state = await this.databaseService.getImapFolderState(listener.mailbox, listener.folder);
+
+    if (state && state.uidValidity === uidValidity) {
+      listener.uidValidity = uidValidity;
+      listener.lastUid = state.lastUid;
+      return;
+    }
+
+    // Premier démarrage ou dossier recréé: les UID précédents ne sont plus valables,
+    // l'écoute repart des messages à venir
+    if (state) {
+      this.logger.warn(`IDLE ${listener.mailbox}/${listener.folder}: UIDVALIDITY modifié (${state.uidValidity} -> ${uidValidity}), curseur réinitialisé`);
+    }
+    listener.uidValidity = uidValidity;
+    listener.lastUid = uidNext > 0 ? uidNext - 1 : 0;
+    await this.databaseService.saveImapFolderState({
+      mailbox: listener.mailbox,
+      folder: listener.folder,
+      uidValidity,
+      lastUid: listener.lastUid,
+    });
+  }
+
+  // ============ TRAITEMENT ============
+
+  private onNewMail(listener: FolderListener): void {
+    listener.lastMailAt = new Date();
+    this.drain(listener).catch(error => this.logger.error(`IDLE ${listener.mailbox}/${listener.folder}: ${error.message}`));
+  }
+
+  /**
+   * Traiter les messages au-delà du dernier UID; un seul traitement par dossier à la fois,
+   * une notification reçue pendant le traitement le relance à la fin
+   */
+  private drain(listener: FolderListener, result?: ProcessResult): Promise<void> {
+    if (listener.running) {
+      listener.pending = true;
+      return listener.running;
+    }
+
+    listener.running = (async () => {
+      try {
+        do {
+          listener.pending = false;
+          await this.processNewMessages(listener, result);
+        } while (listener.pending);
+      } finally {
+        listener.running = undefined;
+      }
+    })();
+    return listener.running;
+  }
+
+  private async processNewMessages(listener: FolderListener, result?: ProcessResult): Promise<void> {
+    const connection = listener.connection;
+    if (!connection || listener.lastUid === undefined) return;
+
+    const config = await this.databaseService.getProcessingConfig();
+    if (!config?.isActive) {
+      // Le curseur n'avance pas: les messages seront traités à la réactivation
+      this.logger.debug(`IDLE ${listener.mailbox}/${listener.folder}: traitement désactivé dans la configuration`);
+      return;
+    }
+
+    const batchSize = this.configService.get<number>('imap.idleBatchSize') || 50;
+    listener.state = 'processing';
+
+    try {
+      let hasMore = true;
+      while (hasMore && listener.connection === connection) {
+        const batch = await this.emailService.fetchEmailsAfterUid(connection, listener.lastUid, batchSize);
+        batch.emails.forEach(email => email.mailbox = listener.account?.email);
+
+        if (batch.emails.length > 0) {
+          await this.autoProcessor.processEmailBatch(batch.emails, {
+            endDate: config.endDate,
+            autoSendDraft: config.autoSendDraft,
+          }, result);
+          listener.processedCount += batch.emails.length;
+          listener.lastProcessedAt = new Date();
+          this.logger.log(`IDLE ${listener.mailbox}/${listener.folder}: ${batch.emails.length} message(s) traité(s) jusqu'à l'UID ${batch.lastUid}`);
+        }
+
+        if (batch.lastUid > listener.lastUid) {
+          listener.lastUid = batch.lastUid;
+          await this.databaseService.saveImapFolderState({
+            mailbox: listener.mailbox,
+            folder: listener.folder,
+            uidValidity: listener.uidValidity!,
+            lastUid: batch.lastUid,
+          });
+        }
+        hasMore = batch.hasMore;
+      }
+    } catch (error) {
+      // Une coupure est gérée par les événements de la connexion; le curseur n'a pas avancé
+      listener.lastError = error.message;
+      this.logger.error(`IDLE ${listener.mailbox}/${listener.folder}: erreur de traitement: ${error.message}`);
+    } finally {
+      if (listener.state === 'processing') {
+        listener.state = 'listening';
+      }
+    }
+  }
+}
@@ -1,7 +1,13 @@
-import { Controller, Post, Get, Body, Put, Query, Param, Delete } from '@nestjs/common';
+import { Controller, Post, Get, Body, Put, Query, Param, Delete, BadRequestException, NotFoundException } from '@nestjs/common';
 import { SchedulerService } from './scheduler.service';
 import { AutoProcessorService, ProcessResult } from './auto-processor.service';
+import { ImapListenerService } from './imap-listener.service';
+import { BackfillOutcome, BackfillRequest, BackfillService } from './backfill.service';
+import { EMAIL_OUTCOMES } from './auto-processor.service';
 import { DatabaseService } from '../database/database.service';
+import { ParseLogService } from '../ingestion/parse-log.service';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import { AuthenticatedUser } from '../auth/auth.interfaces';
 
 @Controller('scheduler')
 export class SchedulerController {
@@ -9,6 +15,9 @@ export class SchedulerController {
     private readonly schedulerService: SchedulerService,
     private readonly autoProcessor: AutoProcessorService,
     private readonly databaseService: DatabaseService,
+    private readonly parseLogService: ParseLogService,
+    private readonly imapListener: ImapListenerService,
+    private readonly backfillService: BackfillService,
   ) {}
 
   @Get('status')
@@ -29,6 +38,7 @@ export class SchedulerController {
     };
   }
 
+  @Roles('admin')
   @Post('start')
   async start() {
     await this.databaseService.updateProcessingConfig({ isActive: true });
@@ -36,6 +46,7 @@ export class SchedulerController {
     return { success, message: success ? 'Scheduler démarré' : 'Erreur démarrage' };
   }
 
+  @Roles('admin')
   @Post('stop')
   async stop() {
     await this.databaseService.updateProcessingConfig({ isActive: false });
@@ -49,28 +60,7 @@ export class SchedulerController {
     return result;
   }
 
-  /**
-   * Retraitement exceptionnel des emails janvier 2026 (1-12)
-   * POST /scheduler/reprocess-january
-   */
-  @Post('reprocess-january')
-  async reprocessJanuary() {
-    const startDate = new Date('2026-01-01T00:00:00Z');
-    const endDate = new Date('2026-01-12T23:59:59Z');
-
-    const result = await this.schedulerService.reprocessDateRange(
-      startDate,
-      endDate,
-      ['INBOX'],
-    );
-
-    return {
-      success: !('error' in result),
-      period: { start: startDate, end: endDate },
-      result,
-    };
-  }
-
+  @Roles('admin')
   @Put('config')
   async updateConfig(@Body() body: {
     endDate?: string;
@@ -89,11 +79,15 @@ export class SchedulerController {
     if (body.checkIntervalMinutes) {
       this.schedulerService.updateScheduleInterval(body.checkIntervalMinutes);
     }
+    if (body.folders) {
+      await this.imapListener.refreshFolders();
+    }
 
     const config = await this.databaseService.getProcessingConfig();
     return { success: true, config };
   }
 
+  @Roles('admin')
   @Post('configure')
   async configure(@Body() body: {
     endDate: string;
@@ -112,6 +106,7 @@ export class SchedulerController {
     });
 
     const config = await this.databaseService.getProcessingConfig();
+    await this.imapListener.refreshFolders();
 
     // Démarrer si demandé
     if (body.startImmediately !== false && config) {
@@ -128,6 +123,58 @@ export class SchedulerController {
     };
   }
 
+  // ============ RETRAITEMENT ============
+
+  /**
+   * POST /scheduler/backfill
+   * Retraiter les emails d'une plage de dates en arrière-plan (dryRun: simulation sans écriture ni envoi)
+   * path: archive .eml/.mbox/Thunderbird sous MAIL_IMPORT_DIR au lieu des dossiers IMAP
+   */
+  @Roles('admin')
+  @Post('backfill')
+  startBackfill(@Body() body: BackfillRequest, @CurrentUser() user?: AuthenticatedUser) {
+    const run = this.backfillService.start(body, user?.name);
+    return { success: true, run };
+  }
+
+  @Get('backfill')
+  listBackfills(@Query('limit') limit?: string) {
+    const runs = this.backfillService.listRuns(limit ? parseInt(limit, 10) : 20);
+    return { count: runs.length, runs };
+  }
+
+  /**
+   * GET /scheduler/backfill/:id?outcome=&limit=&offset=
+   * Avancement et rapport par email (nouvelle demande, relance, offre fournisseur, motif d'exclusion)
+   */
+  @Get('backfill/:id')
+  getBackfill(
+    @Param('id') id: string,
+    @Query('outcome') outcome?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const run = this.backfillService.getRun(id);
+    if (!run) {
+      throw new NotFoundException(`Retraitement non trouvé: ${id}`);
+    }
+    if (outcome && ![...EMAIL_OUTCOMES, 'failed'].includes(outcome)) {
+      throw new BadRequestException(`Issue invalide: ${outcome} (${[...EMAIL_OUTCOMES, 'failed'].join(', ')})`);
+    }
+    const items = this.backfillService.getItems(id, {
+      outcome: outcome as BackfillOutcome,
+      limit: limit ? parseInt(limit, 10) : 500,
+      offset: offset ? parseInt(offset, 10) : 0,
+    });
+    return { run, count: items.length, items };
+  }
+
+  @Roles('admin')
+  @Post('backfill/:id/cancel')
+  cancelBackfill(@Param('id') id: string) {
+    return { success: true, run: this.backfillService.cancel(id) };
+  }
+
   // ============ LOGS D'OUTPUT ============
 
   @Get('output-logs')
@@ -200,12 +247,14 @@ export class SchedulerController {
     return { count: suppliers.length, suppliers };
   }
 
+  @Roles('admin')
   @Post('suppliers')
   async addKnownSupplier(@Body() body: { name: string; email: string }) {
     await this.databaseService.addKnownSupplier(body.name, body.email);
     return { success: true, message: `Fournisseur ${body.name} ajouté` };
   }
 
+  @Roles('admin')
   @Delete('suppliers/:id')
   async removeKnownSupplier(@Param('id') id: string) {
     await this.databaseService.removeKnownSupplier(id);
@@ -221,4 +270,32 @@ export class SchedulerController {
     );
     return { count: logs.length, logs };
   }
+
+  // ============ PARSE LOGS ============
+
+  @Get('parse-logs')
+  async getParseLogs(@Query('failures') failures?: string, @Query('limit') limit?: string) {
+    const logs = await this.parseLogService.listLogs({
+      failuresOnly: failures === 'true',
+      limit: limit ? parseInt(limit, 10) : 50,
+    });
+    return { count: logs.length, logs };
+  }
+
+  // ============ ÉCOUTE IMAP IDLE ============
+
+  @Get('imap-listener')
+  getImapListenerStatus() {
+    return this.imapListener.getStatus();
+  }
+
+  @Roles('admin')
+  @Post('imap-listener/reconnect')
+  async reconnectImapListener() {
+    if (!this.imapListener.isEnabled()) {
+      throw new BadRequestException('Écoute IMAP inactive (IMAP_INGESTION_MODE=idle requis)');
+    }
+    const folders = await this.imapListener.reconnect();
+    return { success: true, folders };
+  }
 }
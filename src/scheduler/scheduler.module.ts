@@ -1,7 +1,8 @@
 import { Module } from '@nestjs/common';
-import { ScheduleModule } from '@nestjs/schedule';
 import { SchedulerService } from './scheduler.service';
 import { AutoProcessorService } from './auto-processor.service';
+import { ImapListenerService } from './imap-listener.service';
+import { BackfillService } from './backfill.service';
 import { SchedulerController } from './scheduler.controller';
 import { EmailModule } from '../email/email.module';
 import { DetectorModule } from '../detector/detector.module';
@@ -15,7 +16,6 @@ import { LlmModule } from '../llm/llm.module';
 
 @Module({
   imports: [
-    ScheduleModule.forRoot(),
     EmailModule,
     DetectorModule,
     ParserModule,
@@ -26,8 +26,8 @@ import { LlmModule } from '../llm/llm.module';
     IngestionModule,
     LlmModule,
   ],
-  providers: [SchedulerService, AutoProcessorService],
+  providers: [SchedulerService, AutoProcessorService, ImapListenerService, BackfillService],
   controllers: [SchedulerController],
-  exports: [SchedulerService, AutoProcessorService],
+  exports: [SchedulerService, AutoProcessorService, ImapListenerService, BackfillService],
 })
 export class SchedulerModule {}
@@ -1,18 +1,20 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { SchedulerRegistry } from '@nestjs/schedule';
 import { ConfigService } from '@nestjs/config';
 import { DatabaseService } from '../database/database.service';
 import { EmailService } from '../email/email.service';
 import { DetectorService } from '../detector/detector.service';
 import { AutoProcessorService, ProcessResult } from './auto-processor.service';
 import { MailService } from '../mail/mail.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import { ImapListenerService } from './imap-listener.service';
+
+/** Cycle de traitement des emails entrants et d'envoi des brouillons (file de tâches) */
+export const EMAIL_CYCLE_JOB = 'scheduler.email-cycle';
 
 @Injectable()
 export class SchedulerService implements OnModuleInit {
   private readonly logger = new Logger(SchedulerService.name);
   private isProcessing = false;
-  private isActive = false;
-  private intervalId: NodeJS.Timeout | null = null;
   private intervalMinutes = 5; // Défaut: 5 minutes
 
   constructor(
@@ -21,8 +23,9 @@ export class SchedulerService implements OnModuleInit {
     private readonly emailService: EmailService,
     private readonly detectorService: DetectorService,
     private readonly autoProcessor: AutoProcessorService,
-    private readonly schedulerRegistry: SchedulerRegistry,
     private readonly mailService: MailService,
+    private readonly jobQueue: JobQueueService,
+    private readonly imapListener: ImapListenerService,
   ) {}
 
   async onModuleInit() {
@@ -31,62 +34,48 @@ export class SchedulerService implements OnModuleInit {
 
   private async initializeScheduler() {
     const config = await this.databaseService.getProcessingConfig();
-    
-    if (config?.isActive) {
-      this.intervalMinutes = config.checkIntervalMinutes || 5;
-      this.startInterval();
-      this.logger.log(`Scheduler initialisé avec intervalle de ${this.intervalMinutes} minutes`);
-    } else {
-      this.logger.log('Scheduler désactivé dans la configuration');
-    }
-  }
+    this.intervalMinutes = config?.checkIntervalMinutes || 5;
 
-  private startInterval() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-    }
-    
-    this.isActive = true;
-    const intervalMs = this.intervalMinutes * 60 * 1000;
-    
-    this.intervalId = setInterval(async () => {
-      if (this.isActive) {
-        await this.runFullCycle();
-      }
-    }, intervalMs);
-    
-    this.logger.log(`Scheduler configuré pour s'exécuter toutes les ${this.intervalMinutes} minutes`);
+    this.jobQueue.registerHandler(EMAIL_CYCLE_JOB, () => this.runFullCycle());
+    this.jobQueue.schedule(EMAIL_CYCLE_JOB, { intervalMinutes: this.intervalMinutes });
+
+    // L'activation suit la configuration de traitement (POST /scheduler/start|stop)
+    this.jobQueue.setPaused(EMAIL_CYCLE_JOB, !config?.isActive);
+    this.logger.log(config?.isActive
+      ? `Scheduler initialisé avec intervalle de ${this.intervalMinutes} minutes`
+      : 'Scheduler désactivé dans la configuration');
   }
 
   /**
-   * Cycle complet: traiter les nouveaux emails ET envoyer les brouillons en attente
+   * Cycle complet: traiter les nouveaux emails ET envoyer les brouillons en attente.
+   * Une erreur de traitement est remontée à la file pour un nouvel essai.
    */
-  private async runFullCycle(): Promise<void> {
+  private async runFullCycle(): Promise<any> {
     // 1. Traiter les nouveaux emails
-    await this.processEmails();
+    const emailResult = await this.processEmails();
     
     // 2. Envoyer les brouillons en attente (après le délai)
-    await this.sendPendingDrafts();
+    const draftResult = await this.sendPendingDrafts();
+
+    if ('error' in emailResult) {
+      throw new Error(emailResult.error);
+    }
+    return { emails: emailResult, drafts: draftResult };
   }
 
   updateScheduleInterval(minutes: number) {
     this.intervalMinutes = minutes;
-    if (this.isActive) {
-      this.startInterval();
-    }
+    this.jobQueue.schedule(EMAIL_CYCLE_JOB, { intervalMinutes: minutes });
   }
 
   async startScheduler(): Promise<boolean> {
-    this.startInterval();
+    this.jobQueue.setPaused(EMAIL_CYCLE_JOB, false);
+    this.logger.log(`Scheduler démarré (toutes les ${this.intervalMinutes} minutes)`);
     return true;
   }
 
   async stopScheduler(): Promise<boolean> {
-    this.isActive = false;
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
+    this.jobQueue.setPaused(EMAIL_CYCLE_JOB, true);
     this.logger.log('Scheduler arrêté');
     return true;
   }
@@ -108,11 +97,14 @@ export class SchedulerService implements OnModuleInit {
         return { skipped: true, reason: 'Traitement désactivé' };
       }
 
-      const result = await this.autoProcessor.processNewEmails({
-        endDate: config.endDate,
-        folders: config.folders,
-        autoSendDraft: config.autoSendDraft,
-      });
+      // Mode IDLE: les emails sont traités à leur arrivée, le cycle rattrape une notification perdue
+      const result = this.imapListener.isEnabled()
+        ? await this.imapListener.catchUp()
+        : await this.autoProcessor.processNewEmails({
+          endDate: config.endDate,
+          folders: config.folders,
+          autoSendDraft: config.autoSendDraft,
+        });
 
       await this.databaseService.updateProcessingConfig({
         lastProcessedAt: new Date(),
@@ -231,51 +223,13 @@ export class SchedulerService implements OnModuleInit {
   }
 
   getStatus() {
+    const schedule = this.jobQueue.getSchedule(EMAIL_CYCLE_JOB);
+    const isActive = !!schedule && !schedule.paused;
     return {
-      isRunning: this.isActive,
+      isRunning: isActive,
       isProcessing: this.isProcessing,
       intervalMinutes: this.intervalMinutes,
-      nextExecution: this.isActive ? new Date(Date.now() + this.intervalMinutes * 60 * 1000) : null,
+      nextExecution: isActive ? schedule!.nextRunAt || null : null,
     };
   }
-
-  /**
-   * Retraitement exceptionnel des emails sur une plage de dates
-   * Utilisé pour le retraitement janvier 2026
-   */
-  async reprocessDateRange(
-    startDate: Date,
-    endDate: Date,
-    folders: string[] = ['INBOX'],
-  ): Promise<ProcessResult | { error: string }> {
-    if (this.isProcessing) {
-      this.logger.warn('Traitement déjà en cours, retraitement ignoré');
-      return { error: 'Traitement en cours' };
-    }
-
-    this.isProcessing = true;
-    this.logger.log(`=== RETRAITEMENT EXCEPTIONNEL ===`);
-    this.logger.log(`Période: ${startDate.toISOString()} - ${endDate.toISOString()}`);
-    this.logger.log(`Dossiers: ${folders.join(', ')}`);
-
-    try {
-      const result = await this.autoProcessor.processNewEmails({
-        startDate,
-        endDate,
-        folders,
-        autoSendDraft: true,
-      });
-
-      this.logger.log(`=== RETRAITEMENT TERMINE ===`);
-      this.logger.log(`Traités: ${result.processed}, Réussis: ${result.successful}, Échecs: ${result.failed}, Ignorés: ${result.skipped}`);
-
-      return result;
-
-    } catch (error) {
-      this.logger.error('Erreur retraitement:', error.message);
-      return { error: error.message };
-    } finally {
-      this.isProcessing = false;
-    }
-  }
 }
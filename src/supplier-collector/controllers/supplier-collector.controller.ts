@@ -2,6 +2,7 @@ import { Controller, Get, Post, Query, Logger } from '@nestjs/common';
 import { MailSyncService } from '../services/mail-sync.service';
 import { SupplierDirectoryService } from '../services/supplier-directory.service';
 import { BrandMatcherService } from '../services/brand-matcher.service';
+import { Roles } from '../../auth/auth.decorators';
 
 /**
  * SupplierCollectorController
@@ -49,9 +50,9 @@ export class SupplierCollectorController {
    * Déclenche une synchronisation pour un dossier spécifique
    */
   @Post('sync/trigger/:folder')
-  async triggerFolderSync(@Query('folder') folder: 'INBOX' | 'SENT') {
+  async triggerFolderSync(@Query('folder') folder: 'INBOX' | 'SENT', @Query('mailbox') mailbox?: string) {
     this.logger.log(`Manual sync triggered for folder: ${folder}`);
-    const result = await this.mailSyncService.syncFolder(folder);
+    const result = await this.mailSyncService.syncFolder(folder, mailbox);
     return {
       success: true,
       result,
@@ -62,6 +63,7 @@ export class SupplierCollectorController {
    * POST /api/supplier-collector/sync/reprocess
    * Retraite les emails non classifiés
    */
+  @Roles('admin')
   @Post('sync/reprocess')
   async reprocessUnclassified() {
     const count = await this.mailSyncService.reprocessUnclassified();
@@ -74,10 +76,11 @@ export class SupplierCollectorController {
   /**
    * GET /api/supplier-collector/sync/folders
    * Liste tous les dossiers IMAP disponibles
+   * @query mailbox - Boîte mail du registre (défaut: boîte principale des réponses fournisseurs)
    */
   @Get('sync/folders')
-  async listFolders() {
-    const folders = await this.mailSyncService.listAvailableFolders();
+  async listFolders(@Query('mailbox') mailbox?: string) {
+    const folders = await this.mailSyncService.listAvailableFolders(mailbox);
     return {
       folders,
       count: folders.length,
@@ -90,12 +93,15 @@ export class SupplierCollectorController {
    * @query since - Date de début (défaut: 2024-01-01)
    * @query folders - Dossiers à synchroniser (optionnel, défaut: auto-détecté)
    * @query batchSize - Nombre max d'emails par dossier (défaut: 0 = pas de limite)
+   * @query mailbox - Boîte mail du registre (défaut: boîte principale des réponses fournisseurs)
    */
+  @Roles('admin')
   @Post('sync/historical')
   async triggerHistoricalSync(
     @Query('since') sinceStr?: string,
     @Query('folders') foldersStr?: string,
     @Query('batchSize') batchSizeStr?: string,
+    @Query('mailbox') mailbox?: string,
   ) {
     const since = sinceStr ? new Date(sinceStr) : new Date('2024-01-01');
     const folders = foldersStr ? foldersStr.split(',').map(f => f.trim()) : undefined;
@@ -108,6 +114,7 @@ export class SupplierCollectorController {
       since,
       folders,
       batchSize,
+      mailbox,
     });
 
     return {
@@ -246,11 +253,13 @@ export class SupplierCollectorController {
    *
    * @query since - Date de début (défaut: 2024-01-01)
    * @query minScore - Score minimum pour être considéré positif (défaut: 3)
+   * @query mailbox - Boîte mail du registre (défaut: boîte principale des réponses fournisseurs)
    */
   @Post('collect-positive-emails')
   async collectPositiveEmails(
     @Query('since') sinceStr?: string,
     @Query('minScore') minScoreStr?: string,
+    @Query('mailbox') mailbox?: string,
   ) {
     const since = sinceStr ? new Date(sinceStr) : new Date('2024-01-01');
     const minScore = minScoreStr ? parseInt(minScoreStr, 10) : 3;
@@ -260,6 +269,7 @@ export class SupplierCollectorController {
     const result = await this.mailSyncService.collectPositiveSupplierEmails({
       since,
       minScore,
+      mailbox,
     });
 
     return {
@@ -1,6 +1,6 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { CronExpression } from '@nestjs/schedule';
 import { EmailService } from '../../email/email.service';
 import { DatabaseService } from '../../database/database.service';
 import { OfferClassifierService } from './offer-classifier.service';
@@ -16,6 +16,11 @@ import {
   SupplierSyncLogRecord,
 } from '../interfaces/supplier-collector.interfaces';
 import { ParsedEmail } from '../../common/interfaces';
+import { JobQueueService } from '../../jobs/job-queue.service';
+import { MailboxRegistryService } from '../../mailbox/mailbox-registry.service';
+import { MailboxAccount } from '../../mailbox/mailbox.interfaces';
+
+export const MAIL_SYNC_JOB = 'supplier-collector.mail-sync';
 
 /**
  * MailSyncService
@@ -28,11 +33,14 @@ import { ParsedEmail } from '../../common/interfaces';
  * Les emails SENT sont nos RFQ sortantes et ne représentent PAS des offres fournisseurs.
  */
 @Injectable()
-export class MailSyncService {
+export class MailSyncService implements OnModuleInit {
   private readonly logger = new Logger(MailSyncService.name);
   private isRunning = false;
   private lastSyncResult: SyncResult | null = null;
   private accountEmail: string;
+  private readonly defaultAccountEmail: string;
+  // Boîte en cours de synchronisation (undefined = configuration IMAP de l'environnement)
+  private account?: MailboxAccount;
 
   // CORRECTION: Sync UNIQUEMENT INBOX - les emails SENT sont nos demandes sortantes
   private readonly folders: string[] = ['INBOX'];
@@ -47,21 +55,33 @@ export class MailSyncService {
     private classifierService: OfferClassifierService,
     private brandMatcherService: BrandMatcherService,
     private directoryService: SupplierDirectoryService,
+    private jobQueue: JobQueueService,
+    private mailboxRegistry: MailboxRegistryService,
   ) {
-    this.accountEmail = this.configService.get<string>('imap.user') || 'rafiou.oyeossi@multipartsci.com';
+    this.defaultAccountEmail = this.configService.get<string>('imap.user') || 'rafiou.oyeossi@multipartsci.com';
+    this.accountEmail = this.defaultAccountEmail;
+  }
+
+  onModuleInit() {
+    this.jobQueue.registerHandler(MAIL_SYNC_JOB, () => this.scheduledSync());
+    this.jobQueue.schedule(MAIL_SYNC_JOB, { cron: CronExpression.EVERY_HOUR });
   }
 
   /**
-   * Job CRON: Sync toutes les heures
+   * Tâche planifiée: sync toutes les heures (échec si aucun dossier n'a pu être lu)
    */
-  @Cron(CronExpression.EVERY_HOUR)
-  async scheduledSync(): Promise<void> {
+  async scheduledSync(): Promise<SyncResult[]> {
     this.logger.log('Scheduled sync triggered');
-    await this.syncAllFolders();
+    const results = await this.syncAllFolders();
+
+    if (results.length > 0 && results.every(r => r.errors.length > 0 && r.messagesFound === 0)) {
+      throw new Error(results.map(r => `${r.folder}: ${r.errors.join(', ')}`).join('; '));
+    }
+    return results;
   }
 
   /**
-   * Sync manuelle de tous les dossiers
+   * Sync manuelle de tous les dossiers, pour chaque boîte de réception des réponses fournisseurs
    */
   async syncAllFolders(): Promise<SyncResult[]> {
     if (this.isRunning) {
@@ -73,9 +93,12 @@ export class MailSyncService {
     const results: SyncResult[] = [];
 
     try {
-      for (const folder of this.folders) {
-        const result = await this.syncFolder(folder);
-        results.push(result);
+      const accounts = this.mailboxRegistry.getAccountsForRole('supplier_replies');
+      for (const account of accounts.length > 0 ? accounts : [undefined]) {
+        for (const folder of this.folders) {
+          const result = await this.syncFolder(folder, account?.email);
+          results.push(result);
+        }
       }
 
       // Sauvegarder le résultat combiné
@@ -91,9 +114,10 @@ export class MailSyncService {
   }
 
   /**
-   * Sync un dossier spécifique
+   * Sync un dossier spécifique (boîte principale des réponses fournisseurs par défaut)
    */
-  async syncFolder(folder: string): Promise<SyncResult> {
+  async syncFolder(folder: string, mailbox?: string): Promise<SyncResult> {
+    this.useAccount(this.findAccount(mailbox));
     const startTime = Date.now();
     const logId = await this.createSyncLog(folder, 'incremental');
 
@@ -119,7 +143,7 @@ export class MailSyncService {
         since: thirtyDaysAgo,
         limit: 100, // Limit to prevent memory exhaustion
         timeout: 120000, // 2 minute timeout for IMAP operations
-      });
+      }, this.account);
 
       result.messagesFound = emails.length;
 
@@ -231,8 +255,27 @@ export class MailSyncService {
   /**
    * Liste tous les dossiers IMAP disponibles
    */
-  async listAvailableFolders(): Promise<string[]> {
-    return this.emailService.listFolders();
+  async listAvailableFolders(mailbox?: string): Promise<string[]> {
+    return this.emailService.listFolders(this.findAccount(mailbox));
+  }
+
+  /**
+   * Compte du registre désigné par son email, ou boîte principale des réponses fournisseurs
+   */
+  private findAccount(mailbox?: string): MailboxAccount | undefined {
+    if (!mailbox) {
+      return this.mailboxRegistry.getPrimaryAccount('supplier_replies');
+    }
+    const account = this.mailboxRegistry.findAccountByEmail(mailbox);
+    if (!account) {
+      throw new NotFoundException(`Boîte mail non trouvée: ${mailbox}`);
+    }
+    return account;
+  }
+
+  private useAccount(account?: MailboxAccount): void {
+    this.account = account;
+    this.accountEmail = account?.email || this.defaultAccountEmail;
   }
 
   /**
@@ -244,7 +287,9 @@ export class MailSyncService {
     since?: Date;
     folders?: string[];
     batchSize?: number;
+    mailbox?: string;
   } = {}): Promise<SyncResult> {
+    const account = this.findAccount(options.mailbox);
     if (this.isRunning) {
       this.logger.warn('Sync already running, skipping historical sync');
       return {
@@ -261,6 +306,7 @@ export class MailSyncService {
     }
 
     this.isRunning = true;
+    this.useAccount(account);
     const startTime = Date.now();
     const since = options.since || new Date('2024-01-01');
     // No limit by default - fetch ALL emails for historical sync
@@ -287,7 +333,7 @@ export class MailSyncService {
         foldersToSync = options.folders;
       } else {
         // Récupérer tous les dossiers disponibles via IMAP
-        const allFolders = await this.emailService.listFolders();
+        const allFolders = await this.emailService.listFolders(this.account);
         this.logger.log(`All IMAP folders: ${allFolders.join(', ')}`);
 
         // CORRECTION: Filtrer pour inclure UNIQUEMENT INBOX et archives d'INBOX
@@ -448,7 +494,7 @@ export class MailSyncService {
       fetchOptions.limit = limit;
     }
 
-    const emails = await this.emailService.fetchEmails(fetchOptions);
+    const emails = await this.emailService.fetchEmails(fetchOptions, this.account);
 
     result.messagesFound = emails.length;
 
@@ -799,6 +845,7 @@ export class MailSyncService {
   async collectPositiveSupplierEmails(options: {
     since?: Date;
     minScore?: number;
+    mailbox?: string;
   } = {}): Promise<{
     emails: string[];
     count: number;
@@ -817,13 +864,14 @@ export class MailSyncService {
       this.logger.log('Starting full historical sync for all folders...');
 
       // Récupérer TOUS les dossiers IMAP (sans filtre)
-      const allFolders = await this.emailService.listFolders();
+      const allFolders = await this.emailService.listFolders(this.findAccount(options.mailbox));
       this.logger.log(`Found ${allFolders.length} folders: ${allFolders.join(', ')}`);
 
       syncResult = await this.historicalSync({
         since,
         folders: allFolders, // TOUS les dossiers, pas de filtre
         batchSize: 0, // Pas de limite
+        mailbox: options.mailbox,
       });
     } else {
       this.logger.warn('Sync already running, querying existing data only');
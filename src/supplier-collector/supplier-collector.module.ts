@@ -1,5 +1,4 @@
 import { Module } from '@nestjs/common';
-import { ScheduleModule } from '@nestjs/schedule';
 import { DatabaseModule } from '../database/database.module';
 import { EmailModule } from '../email/email.module';
 
@@ -29,7 +28,6 @@ import { SupplierCollectorController } from './controllers/supplier-collector.co
  */
 @Module({
   imports: [
-    ScheduleModule.forRoot(),
     DatabaseModule,
     EmailModule,
   ],
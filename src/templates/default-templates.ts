@@ -0,0 +1,1247 @@
+import { RFQ_INSTRUCTIONS_EN, RFQ_INSTRUCTIONS_FR, getRfqInstructions } from '../common/rfq-instructions';
+import { TemplateDefinition } from './email-template.interfaces';
+
+/**
+ * Modèles intégrés: reprennent les textes historiquement codés en dur.
+ * Ils sont enregistrés en version 1 au premier démarrage puis modifiables via /templates.
+ *
+ * Variables communes à tous les modèles: company.* (nom, adresse, contact) et today.
+ */
+
+const RFQ_INSTRUCTIONS_TEXT_FR = `FRANÇAIS:
+---------
+Merci de nous transmettre votre offre avec:
+1) PRIX - Prix unitaire, Prix total, Devise (EUR/USD)
+2) INCOTERM - Ex-Works (EXW) ou CIF Abidjan
+3) LOGISTIQUE - Poids total (kg), Dimensions et nombre de colis
+4) TECHNIQUE - Fiche technique, Références constructeur, Normes
+5) DÉLAIS - Délai de livraison, Validité de l'offre
+6) CONDITIONS - Conditions de paiement, Origine des produits`;
+
+const RFQ_INSTRUCTIONS_TEXT_EN = `ENGLISH:
+--------
+Please provide your offer including:
+1) PRICING - Unit price, Total price, Currency (EUR/USD)
+2) INCOTERM - Ex-Works (EXW) or CIF Abidjan
+3) LOGISTICS - Total weight (kg), Dimensions and packages
+4) TECHNICAL - Data sheet, Manufacturer references, Standards
+5) LEAD TIMES - Delivery time, Offer validity
+6) TERMS - Payment terms, Country of origin`;
+
+const RFQ_INSTRUCTIONS_TITLE = `INSTRUCTIONS RFQ - MULTIPARTS
+=============================`;
+
+// ============ BLOCS PARTAGÉS ============
+
+const PARTIALS: TemplateDefinition[] = [
+  {
+    name: 'company_header',
+    language: 'both',
+    description: 'En-tête société (bandeau bleu) des emails HTML',
+    partial: true,
+    variables: [],
+    subject: '',
+    html: `
+<div style="font-family: Arial, sans-serif; padding: 15px; background: linear-gradient(135deg, #1a5276 0%, #2980b9 100%); color: white; border-radius: 8px; margin-bottom: 20px;">
+  <table style="width: 100%;">
+    <tr>
+      <td style="vertical-align: middle;">
+        <h2 style="margin: 0; font-size: 24px;">{{company.name}}</h2>
+        <p style="margin: 5px 0 0 0; font-size: 12px; opacity: 0.9;">
+          {{company.address.line1}}<br>
+          {{company.address.line2}}<br>
+          {{company.address.city}}, {{company.address.country}}
+        </p>
+      </td>
+      <td style="text-align: right; vertical-align: middle; font-size: 12px;">
+        <p style="margin: 0;">
+          <strong>{{company.contact.name}}</strong><br>
+          {{company.contact.title}}<br>
+          📞 {{company.contact.phone}}<br>
+          📱 {{company.contact.mobile}}<br>
+          ✉️ {{company.contact.primaryEmail}}
+        </p>
+      </td>
+    </tr>
+  </table>
+</div>
+`,
+    text: '',
+  },
+  {
+    name: 'signature',
+    language: 'both',
+    description: 'Signature complète (nom, société, adresse, téléphones)',
+    partial: true,
+    variables: [],
+    subject: '',
+    html: `
+  <p>
+    <strong>{{company.contact.name}}</strong><br>
+    {{company.contact.title}}<br>
+    <strong>{{company.name}}</strong><br><br>
+    {{company.address.line1}}<br>
+    {{company.address.line2}}<br>
+    {{company.address.city}}, {{company.address.country}}<br><br>
+    📞 {{company.contact.phone}}<br>
+    📱 {{company.contact.mobile}}<br>
+    ✉️ <a href="mailto:{{company.contact.primaryEmail}}">{{company.contact.primaryEmail}}</a>
+  </p>
+`,
+    text: `---
+{{company.contact.name}}
+{{company.contact.title}}
+{{company.name}}
+Tel: {{company.contact.phone}} | Mobile: {{company.contact.mobile}}
+Email: {{company.contact.primaryEmail}}`,
+  },
+  {
+    name: 'items_table',
+    language: 'both',
+    description: 'Tableau des articles de la demande',
+    partial: true,
+    variables: ['items[].index', 'items[].description', 'items[].partNumber', 'items[].brand', 'items[].quantity', 'items[].unit'],
+    subject: '',
+    html: `
+<table style="width: 100%; border-collapse: collapse; margin: 15px 0; font-size: 13px;">
+  <tr style="background: #1a5276; color: white;">
+    <th style="padding: 6px; text-align: left;">#</th>
+    <th style="padding: 6px; text-align: left;">Désignation / Description</th>
+    <th style="padding: 6px; text-align: left;">Réf. / Part Number</th>
+    <th style="padding: 6px; text-align: left;">Marque / Brand</th>
+    <th style="padding: 6px; text-align: right;">Qté / Qty</th>
+  </tr>
+{{#items}}
+  <tr>
+    <td style="padding: 6px; border-bottom: 1px solid #ddd;">{{index}}</td>
+    <td style="padding: 6px; border-bottom: 1px solid #ddd;">{{description}}</td>
+    <td style="padding: 6px; border-bottom: 1px solid #ddd;">{{partNumber}}</td>
+    <td style="padding: 6px; border-bottom: 1px solid #ddd;">{{brand}}</td>
+    <td style="padding: 6px; border-bottom: 1px solid #ddd; text-align: right;">{{quantity}} {{unit}}</td>
+  </tr>
+{{/items}}
+</table>
+`,
+    text: `{{#items}}
+{{index}}. {{description}}{{#partNumber}} - Réf: {{partNumber}}{{/partNumber}}{{#brand}} ({{brand}}){{/brand}} - Qté: {{quantity}} {{unit}}
+{{/items}}`,
+  },
+  {
+    name: 'rfq_instructions',
+    language: 'fr',
+    description: 'Instructions RFQ fournisseurs (français)',
+    partial: true,
+    variables: [],
+    subject: '',
+    html: RFQ_INSTRUCTIONS_FR,
+    text: `${RFQ_INSTRUCTIONS_TITLE}
+
+${RFQ_INSTRUCTIONS_TEXT_FR}`,
+  },
+  {
+    name: 'rfq_instructions',
+    language: 'en',
+    description: 'Instructions RFQ fournisseurs (anglais)',
+    partial: true,
+    variables: [],
+    subject: '',
+    html: RFQ_INSTRUCTIONS_EN,
+    text: `RFQ INSTRUCTIONS - MULTIPARTS
+=============================
+
+${RFQ_INSTRUCTIONS_TEXT_EN}`,
+  },
+  {
+    name: 'rfq_instructions',
+    language: 'both',
+    description: 'Instructions RFQ fournisseurs (bilingue)',
+    partial: true,
+    variables: [],
+    subject: '',
+    html: getRfqInstructions('both'),
+    text: `${RFQ_INSTRUCTIONS_TITLE}
+
+${RFQ_INSTRUCTIONS_TEXT_FR}
+
+${RFQ_INSTRUCTIONS_TEXT_EN}`,
+  },
+];
+
+// ============ DEMANDES DE PRIX ============
+
+const PRICE_REQUESTS: TemplateDefinition[] = [
+  {
+    name: 'supplier_rfq',
+    language: 'both',
+    description: 'Demande de prix aux fournisseurs (brouillon ou envoi individuel)',
+    variables: [
+      'rfqNumber', 'clientRfqNumber', 'date', 'clientReceivedAt', 'itemCount', 'items', 'responseHours', 'deadline',
+      'clientName', 'clientEmail', 'fleetNumber', 'serialNumber', 'hasClientInfo', 'brands', 'notes',
+      'requirements.urgent', 'requirements.responseDeadline', 'requirements.replyToEmail', 'requirements.otherRequirements',
+    ],
+    subject: 'Demande de Prix N° {{rfqNumber}}{{#clientRfqNumber}} - Réf. Client: {{clientRfqNumber}}{{/clientRfqNumber}}',
+    html: `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #333; margin: 0; padding: 20px; }
+    .container { max-width: 800px; margin: 0 auto; }
+    h3 { color: #1a5276; }
+    .info-box { background: #f8f9fa; border-left: 4px solid #1a5276; padding: 15px; margin: 15px 0; }
+    .info-table { width: 100%; border-collapse: collapse; }
+    .info-table td { padding: 5px 10px; }
+    .signature { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ccc; color: #666; font-size: 12px; }
+  </style>
+</head>
+<body>
+<div class="container">
+
+<!-- EN-TÊTE SOCIÉTÉ -->
+{{> company_header}}
+
+<!-- SALUTATION -->
+<p>Bonjour / Dear Sir or Madam,</p>
+<p>Veuillez trouver ci-joint une nouvelle demande de prix. / Please find attached a new Request for Quotation.</p>
+
+<!-- EXIGENCES CLIENT (en rouge si présentes) -->
+{{#requirements}}
+<div style="background: #fef2f2; border-left: 4px solid #e74c3c; padding: 15px; margin: 15px 0;">
+  <h3 style="color: #c0392b; margin-top: 0;">⚠️ EXIGENCES CLIENT / CLIENT REQUIREMENTS</h3>
+  <table class="info-table">
+    {{#urgent}}
+    <tr><td colspan="2" style="color: #c0392b; font-weight: bold; font-size: 16px;">⚡ DEMANDE URGENTE / URGENT REQUEST</td></tr>
+    {{/urgent}}
+    {{#responseDeadline}}
+    <tr>
+      <td style="color: #c0392b; font-weight: bold;">Délai de réponse exigé / Required Response Time:</td>
+      <td style="color: #c0392b; font-weight: bold; font-size: 16px;">{{responseDeadline}}</td>
+    </tr>
+    {{/responseDeadline}}
+    {{#replyToEmail}}
+    <tr>
+      <td style="color: #c0392b; font-weight: bold;">Adresse de réponse / Reply To:</td>
+      <td style="color: #c0392b; font-weight: bold;">{{replyToEmail}}</td>
+    </tr>
+    {{/replyToEmail}}
+    {{#otherRequirements}}
+    <tr>
+      <td style="color: #c0392b; font-weight: bold;">Autres exigences / Other Requirements:</td>
+      <td style="color: #c0392b;">{{otherRequirements}}</td>
+    </tr>
+    {{/otherRequirements}}
+  </table>
+</div>
+{{/requirements}}
+
+<!-- INFORMATIONS DEMANDE -->
+<div class="info-box">
+  <h3>📋 Informations Demande / Request Information</h3>
+  <table class="info-table">
+    <tr>
+      <td><strong>N° Demande / Internal Ref.:</strong></td>
+      <td>{{rfqNumber}}</td>
+    </tr>
+    <tr>
+      <td><strong>Date:</strong></td>
+      <td>{{date}}</td>
+    </tr>
+    {{#clientReceivedAt}}
+    <tr>
+      <td><strong>Réception demande client / Client Request Received:</strong></td>
+      <td>{{clientReceivedAt}}</td>
+    </tr>
+    {{/clientReceivedAt}}
+    <tr>
+      <td><strong>Nombre d'articles / Number of items:</strong></td>
+      <td>{{itemCount}}</td>
+    </tr>
+    <tr>
+      <td><strong>Délai de réponse / Response deadline:</strong></td>
+      <td>{{responseHours}}h (avant le / before {{deadline}})</td>
+    </tr>
+    {{#clientName}}
+    <tr><td><strong>Client:</strong></td><td>{{clientName}}</td></tr>
+    {{/clientName}}
+    {{#clientRfqNumber}}
+    <tr><td><strong>Réf. Client / Client Ref.:</strong></td><td>{{clientRfqNumber}}</td></tr>
+    {{/clientRfqNumber}}
+    {{#clientEmail}}
+    <tr><td><strong>Contact Client / Client Contact:</strong></td><td>{{clientEmail}}</td></tr>
+    {{/clientEmail}}
+    {{#fleetNumber}}
+    <tr><td><strong>Fleet Number:</strong></td><td>{{fleetNumber}}</td></tr>
+    {{/fleetNumber}}
+    {{#serialNumber}}
+    <tr><td><strong>Serial Number:</strong></td><td>{{serialNumber}}</td></tr>
+    {{/serialNumber}}
+    {{#brands}}
+    <tr>
+      <td><strong>Marques / Brands:</strong></td>
+      <td>{{brands}}</td>
+    </tr>
+    {{/brands}}
+  </table>
+</div>
+
+<!-- INSTRUCTIONS RFQ -->
+{{> rfq_instructions}}
+
+<!-- ADRESSE DE LIVRAISON -->
+<div style="margin: 20px 0; padding: 15px; background: #e8f6f3; border-left: 4px solid #1abc9c;">
+  <strong>📍 Adresse de livraison / Delivery Address:</strong><br>
+  {{company.name}}<br>
+  {{company.address.line1}}<br>
+  {{company.address.line2}}<br>
+  {{company.address.city}}, {{company.address.country}}
+</div>
+
+{{#notes}}
+<div style="margin: 20px 0; padding: 15px; background: #fef9e7; border-left: 4px solid #f39c12;">
+  <strong>📝 Notes:</strong><br>
+  {{notes}}
+</div>
+{{/notes}}
+
+<!-- SIGNATURE -->
+<div class="signature">
+  <p>Cordialement / Best regards,</p>
+{{> signature}}
+</div>
+
+<p style="font-size: 11px; color: #999; margin-top: 30px; text-align: center;">
+  Ce message a été généré automatiquement. / This message was automatically generated.
+</p>
+
+</div>
+</body>
+</html>`,
+    text: `═══════════════════════════════════════════════════════
+{{company.name}} - DEMANDE DE PRIX / PRICE REQUEST
+═══════════════════════════════════════════════════════
+
+Bonjour / Dear Sir or Madam,
+
+Veuillez trouver ci-joint une nouvelle demande de prix.
+Please find attached a new Request for Quotation.
+
+{{#requirements}}
+!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!
+⚠️ EXIGENCES CLIENT / CLIENT REQUIREMENTS ⚠️
+!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!
+{{#urgent}}
+⚡ DEMANDE URGENTE / URGENT REQUEST
+{{/urgent}}
+{{#responseDeadline}}
+Délai de réponse exigé / Required Response Time: {{responseDeadline}}
+{{/responseDeadline}}
+{{#replyToEmail}}
+Adresse de réponse / Reply To: {{replyToEmail}}
+{{/replyToEmail}}
+{{#otherRequirements}}
+Autres exigences / Other: {{otherRequirements}}
+{{/otherRequirements}}
+!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!
+
+{{/requirements}}
+INFORMATIONS DEMANDE / REQUEST INFORMATION
+-------------------------------------------
+N° Demande / Internal Ref.: {{rfqNumber}}
+Date: {{date}}
+{{#clientReceivedAt}}
+Réception demande client / Client Request Received: {{clientReceivedAt}}
+{{/clientReceivedAt}}
+Nombre d'articles / Number of items: {{itemCount}}
+Délai de réponse / Response deadline: {{responseHours}}h (avant le / before {{deadline}})
+
+{{#hasClientInfo}}
+INFORMATIONS CLIENT / CLIENT INFORMATION
+-----------------------------------------
+{{#clientName}}
+Client: {{clientName}}
+{{/clientName}}
+{{#clientRfqNumber}}
+Réf. Client / Client Ref.: {{clientRfqNumber}}
+{{/clientRfqNumber}}
+{{#clientEmail}}
+Contact Client / Client Contact: {{clientEmail}}
+{{/clientEmail}}
+{{#fleetNumber}}
+Fleet Number: {{fleetNumber}}
+{{/fleetNumber}}
+{{#serialNumber}}
+Serial Number: {{serialNumber}}
+{{/serialNumber}}
+
+{{/hasClientInfo}}
+{{> rfq_instructions}}
+
+ADRESSE DE LIVRAISON / DELIVERY ADDRESS
+---------------------------------------
+{{company.name}}
+{{company.address.line1}}
+{{company.address.line2}}
+{{company.address.city}}, {{company.address.country}}
+
+{{> signature}}
+`,
+  },
+  {
+    name: 'rfq_notification',
+    language: 'fr',
+    description: 'Notification interne: demande reçue uniquement sur procurement@ (dossier "Notifications RFQ")',
+    variables: [
+      'from', 'clientName', 'clientEmail', 'receivedAt', 'subject', 'originalBody', 'truncated',
+      'requirements.responseDeadline', 'requirements.replyToEmail', 'requirements.urgent',
+    ],
+    subject: '[NOTIFICATION RFQ] {{subject}}',
+    html: `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #333; }
+    .alert { color: #c0392b; font-weight: bold; }
+    .info-box { background: #f8f9fa; border-left: 4px solid #3498db; padding: 15px; margin: 15px 0; }
+    .requirements-box { background: #fef9e7; border-left: 4px solid #e74c3c; padding: 15px; margin: 15px 0; }
+    .original-email { background: #ecf0f1; padding: 15px; margin: 20px 0; border-radius: 5px; }
+  </style>
+</head>
+<body>
+
+<h2>📬 Nouvelle demande reçue sur procurement@</h2>
+
+<p>Une nouvelle demande de prix a été reçue <strong>uniquement</strong> sur l'adresse {{company.contact.primaryEmail}}.</p>
+
+<div class="info-box">
+  <h3>📋 Informations Client</h3>
+  <table>
+    <tr><td><strong>De:</strong></td><td>{{from}}</td></tr>
+    <tr><td><strong>Client:</strong></td><td>{{#clientName}}{{clientName}}{{/clientName}}{{^clientName}}Non identifié{{/clientName}}</td></tr>
+    <tr><td><strong>Email:</strong></td><td>{{clientEmail}}</td></tr>
+    <tr><td><strong>Date:</strong></td><td>{{receivedAt}}</td></tr>
+    <tr><td><strong>Sujet:</strong></td><td>{{subject}}</td></tr>
+  </table>
+</div>
+
+{{#requirements}}
+<div class="requirements-box">
+  <h3 class="alert">⚠️ EXIGENCES CLIENT</h3>
+  <table>
+    {{#responseDeadline}}
+    <tr><td><strong class="alert">Délai de réponse exigé:</strong></td><td class="alert">{{responseDeadline}}</td></tr>
+    {{/responseDeadline}}
+    {{#replyToEmail}}
+    <tr><td><strong class="alert">Adresse de réponse:</strong></td><td class="alert">{{replyToEmail}}</td></tr>
+    {{/replyToEmail}}
+    {{#urgent}}
+    <tr><td colspan="2" class="alert">⚡ DEMANDE URGENTE</td></tr>
+    {{/urgent}}
+  </table>
+</div>
+{{/requirements}}
+
+<div class="original-email">
+  <h3>📧 Message original</h3>
+  <pre style="white-space: pre-wrap; font-family: inherit;">{{originalBody}}{{#truncated}}
+
+[...tronqué...]{{/truncated}}</pre>
+</div>
+
+<p style="font-size: 12px; color: #666; margin-top: 30px;">
+  Les pièces jointes originales sont incluses avec cette notification.<br>
+  <em>Notification générée automatiquement par le système RFQ.</em>
+</p>
+
+</body>
+</html>`,
+    text: `NOTIFICATION RFQ - Nouvelle demande sur procurement@
+========================================================
+
+Une nouvelle demande de prix a été reçue UNIQUEMENT sur {{company.contact.primaryEmail}}.
+
+INFORMATIONS CLIENT
+-------------------
+De: {{from}}
+Client: {{#clientName}}{{clientName}}{{/clientName}}{{^clientName}}Non identifié{{/clientName}}
+Email: {{clientEmail}}
+Date: {{receivedAt}}
+Sujet: {{subject}}
+
+{{#requirements}}
+⚠️ EXIGENCES CLIENT ⚠️
+----------------------
+{{#responseDeadline}}
+Délai de réponse exigé: {{responseDeadline}}
+{{/responseDeadline}}
+{{#replyToEmail}}
+Adresse de réponse: {{replyToEmail}}
+{{/replyToEmail}}
+{{#urgent}}
+⚡ DEMANDE URGENTE
+{{/urgent}}
+
+{{/requirements}}
+MESSAGE ORIGINAL
+----------------
+{{originalBody}}{{#truncated}}
+
+[...tronqué...]{{/truncated}}
+
+---
+Les pièces jointes originales sont incluses avec cette notification.
+Notification générée automatiquement par le système RFQ.`,
+  },
+  {
+    name: 'procurement_draft',
+    language: 'fr',
+    description: 'Brouillon interne de demande de prix à traiter (traitement automatique)',
+    variables: [
+      'rfqNumber', 'clientRfqNumber', 'clientName', 'clientEmail', 'brand', 'itemCount', 'technicalSheetCount',
+      'date', 'responseHours', 'deadline',
+    ],
+    subject: 'Demande de Prix N° {{rfqNumber}}{{#brand}} - {{brand}}{{/brand}}{{#clientRfqNumber}} - Réf. Client: {{clientRfqNumber}}{{/clientRfqNumber}}',
+    html: '',
+    text: `Bonjour,
+
+Veuillez trouver ci-joint une nouvelle demande de prix à traiter.
+
+═══════════════════════════════════════════════════════
+INFORMATIONS DEMANDE
+═══════════════════════════════════════════════════════
+N° Demande interne: {{rfqNumber}}
+Date: {{date}}
+Nombre d'articles: {{itemCount}}
+{{#technicalSheetCount}}
+Fiches techniques jointes: {{technicalSheetCount}}
+{{/technicalSheetCount}}
+Délai de réponse: {{responseHours}}h (avant le {{deadline}})
+
+═══════════════════════════════════════════════════════
+INFORMATIONS CLIENT
+═══════════════════════════════════════════════════════
+Client: {{#clientName}}{{clientName}}{{/clientName}}{{^clientName}}Non spécifié{{/clientName}}
+Réf. Client: {{#clientRfqNumber}}{{clientRfqNumber}}{{/clientRfqNumber}}{{^clientRfqNumber}}Non spécifié{{/clientRfqNumber}}
+Contact: {{clientEmail}}
+
+═══════════════════════════════════════════════════════
+INSTRUCTIONS
+═══════════════════════════════════════════════════════
+1. Ouvrir le fichier Excel joint
+2. Rechercher les prix fournisseurs
+3. Compléter les colonnes "Prix Unitaire HT"
+4. Retourner le fichier complété
+{{#technicalSheetCount}}
+5. Consulter les fiches techniques jointes pour les spécifications
+{{/technicalSheetCount}}
+
+---
+Ce message a été généré automatiquement par le système de gestion des demandes de prix.
+Ce brouillon sera envoyé automatiquement s'il n'est pas traité manuellement.`,
+  },
+  {
+    name: 'procurement_price_request',
+    language: 'fr',
+    description: 'Envoi automatique d\'un brouillon de demande de prix non traité manuellement',
+    variables: ['subject', 'rfqNumber', 'clientRfqNumber', 'clientName', 'clientEmail', 'date', 'responseHours', 'deadline'],
+    subject: '{{subject}}',
+    html: '',
+    text: `Bonjour,
+
+Veuillez trouver ci-joint une nouvelle demande de prix à traiter.
+
+═══════════════════════════════════════════════════════
+INFORMATIONS DEMANDE
+═══════════════════════════════════════════════════════
+N° Demande interne: {{rfqNumber}}
+Date: {{date}}
+Délai de réponse: {{responseHours}}h (avant le {{deadline}})
+
+═══════════════════════════════════════════════════════
+INFORMATIONS CLIENT
+═══════════════════════════════════════════════════════
+{{#clientName}}
+Client: {{clientName}}
+{{/clientName}}
+{{#clientRfqNumber}}
+Réf. Client: {{clientRfqNumber}}
+{{/clientRfqNumber}}
+{{#clientEmail}}
+Contact Client: {{clientEmail}}
+{{/clientEmail}}
+{{^clientName}}
+{{^clientRfqNumber}}
+{{^clientEmail}}
+Non spécifié
+{{/clientEmail}}
+{{/clientRfqNumber}}
+{{/clientName}}
+
+═══════════════════════════════════════════════════════
+INSTRUCTIONS
+═══════════════════════════════════════════════════════
+1. Ouvrir le fichier Excel joint
+2. Compléter les colonnes "Prix Unitaire HT"
+3. Retourner le fichier complété par email
+
+---
+Ce message a été envoyé automatiquement par le système de gestion des demandes de prix.
+Cet email a été généré car le brouillon n'a pas été traité manuellement.`,
+  },
+];
+
+// ============ CLIENTS ============
+
+const CLIENT_MESSAGES: TemplateDefinition[] = [
+  {
+    name: 'client_acknowledgment',
+    language: 'fr',
+    description: 'Accusé de réception envoyé au client (réponse dans le fil de sa demande)',
+    variables: ['subject', 'rfqNumber', 'firstName', 'itemCount', 'receivedAt', 'receivedDate', 'isUrgent', 'deadline', 'signatureHtml', 'signatureText'],
+    subject: 'Re: {{subject}}{{#rfqNumber}} [Réf: {{rfqNumber}}]{{/rfqNumber}}',
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 14px; color: #333; line-height: 1.6; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { border-bottom: 2px solid #2c5aa0; padding-bottom: 10px; margin-bottom: 20px; }
+    .content { margin-bottom: 20px; }
+    .highlight { background-color: #f5f5f5; padding: 15px; border-left: 4px solid #2c5aa0; margin: 15px 0; }
+    .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2 style="color: #2c5aa0; margin: 0;">Accusé de Réception</h2>
+    </div>
+
+    <div class="content">
+      <p>Bonjour{{#firstName}} {{firstName}}{{/firstName}},</p>
+
+      <p>Nous accusons bonne réception de votre demande de prix et vous en remercions.</p>
+
+      <div class="highlight">
+        <strong>📋 Détails de votre demande :</strong><br>
+        • Objet : {{subject}}<br>
+        {{#rfqNumber}}
+        • Référence : {{rfqNumber}}<br>
+        {{/rfqNumber}}
+        {{#itemCount}}
+        • Nombre d'articles : {{itemCount}}<br>
+        {{/itemCount}}
+        • Date de réception : {{receivedAt}}
+      </div>
+
+      {{#isUrgent}}
+      <p style="color: #d9534f; font-weight: bold;">⚠️ Nous avons bien noté le caractère urgent de votre demande et la traiterons en priorité.</p>
+      {{/isUrgent}}
+      {{#deadline}}
+      <p>Nous avons pris note de votre délai de réponse souhaité : <strong>{{deadline}}</strong>.</p>
+      {{/deadline}}
+
+      <p>Votre demande est actuellement en cours de traitement par notre équipe. Nous reviendrons vers vous dans les meilleurs délais avec notre offre.</p>
+
+      <p>Pour toute question concernant cette demande, n'hésitez pas à nous contacter en répondant à cet email.</p>
+
+      <p>Cordialement,</p>
+    </div>
+
+    <div class="signature">
+      {{{signatureHtml}}}
+    </div>
+  </div>
+</body>
+</html>`,
+    text: `
+ACCUSÉ DE RÉCEPTION
+
+Bonjour{{#firstName}} {{firstName}}{{/firstName}},
+
+Nous accusons bonne réception de votre demande de prix et vous en remercions.
+
+DÉTAILS DE VOTRE DEMANDE :
+- Objet : {{subject}}
+{{#rfqNumber}}
+- Référence : {{rfqNumber}}
+{{/rfqNumber}}
+{{#itemCount}}
+- Nombre d'articles : {{itemCount}}
+{{/itemCount}}
+- Date de réception : {{receivedDate}}
+
+{{#isUrgent}}
+⚠️ Nous avons bien noté le caractère urgent de votre demande et la traiterons en priorité.
+{{/isUrgent}}
+{{#deadline}}
+Nous avons pris note de votre délai de réponse souhaité : {{deadline}}.
+{{/deadline}}
+
+Votre demande est actuellement en cours de traitement par notre équipe. Nous reviendrons vers vous dans les meilleurs délais avec notre offre.
+
+Pour toute question concernant cette demande, n'hésitez pas à nous contacter en répondant à cet email.
+
+Cordialement,
+
+{{signatureText}}
+`,
+  },
+  {
+    name: 'customer_auto_ack',
+    language: 'fr',
+    description: 'Accusé de réception automatique (module de relances)',
+    variables: ['subject', 'cleanSubject', 'rfqNumber', 'clientRfqNumber'],
+    subject: 'Re: {{subject}}',
+    html: '',
+    text: `Bonjour,
+
+Nous accusons bonne réception de votre demande.
+
+Réf. interne : {{rfqNumber}}
+{{#clientRfqNumber}}
+Votre référence : {{clientRfqNumber}}
+{{/clientRfqNumber}}
+{{^clientRfqNumber}}
+{{#cleanSubject}}
+Objet : {{cleanSubject}}
+{{/cleanSubject}}
+{{/clientRfqNumber}}
+
+Votre demande est en cours de traitement par nos équipes.
+Nous revenons vers vous dans les meilleurs délais avec une proposition.
+
+Cordialement,
+{{company.fullName}} – {{company.contact.name}}`,
+  },
+  {
+    name: 'customer_chaser_reply',
+    language: 'fr',
+    description: 'Réponse automatique à une relance client',
+    variables: ['subject', 'rfqNumber', 'clientRfqNumber'],
+    subject: 'Re: {{subject}}',
+    html: '',
+    text: `Bonjour,
+
+Merci pour votre relance. Votre demande (Réf. {{rfqNumber}}{{#clientRfqNumber}} / Votre réf. : {{clientRfqNumber}}{{/clientRfqNumber}}) est toujours en cours de traitement par nos équipes.
+
+Nous revenons vers vous dès que possible avec une mise à jour.
+
+Cordialement,
+{{company.fullName}} – {{company.contact.name}}`,
+  },
+  {
+    name: 'client_reassurance',
+    language: 'fr',
+    description: 'Suivi envoyé au client pendant la consultation des fournisseurs',
+    variables: [
+      'rfqNumber', 'clientRfqNumber', 'clientName', 'receivedDate', 'itemCount',
+      'quotesReceived', 'pending', 'declined', 'noResponse', 'totalSuppliers', 'signatureHtml',
+    ],
+    subject: 'Suivi de votre demande - {{rfqNumber}}{{#clientRfqNumber}} (Réf: {{clientRfqNumber}}){{/clientRfqNumber}}',
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 14px; color: #333; line-height: 1.6; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { border-bottom: 2px solid #1a5276; padding-bottom: 10px; margin-bottom: 20px; }
+    .info-box { background: #e8f6f3; padding: 15px; border-left: 4px solid #1abc9c; margin: 15px 0; }
+    .status-table { width: 100%; border-collapse: collapse; margin: 15px 0; }
+    .status-table td, .status-table th { padding: 8px; border-bottom: 1px solid #ddd; }
+    .status-table th { text-align: left; background: #f8f9fa; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2 style="color: #1a5276; margin: 0;">📋 Suivi de votre demande de prix</h2>
+    </div>
+
+    <p>Bonjour{{#clientName}} {{clientName}}{{/clientName}},</p>
+
+    <p>Nous vous informons que votre demande de prix est en cours de traitement.</p>
+
+    <div class="info-box">
+      <strong>📋 Référence de la demande:</strong><br>
+      • N° Interne: {{rfqNumber}}<br>
+      {{#clientRfqNumber}}
+      • Votre référence: {{clientRfqNumber}}<br>
+      {{/clientRfqNumber}}
+      • Reçue le: {{receivedDate}}<br>
+      {{#itemCount}}
+      • Nombre d'articles: {{itemCount}}<br>
+      {{/itemCount}}
+    </div>
+
+    <p><strong>État d'avancement des consultations:</strong></p>
+
+    <table class="status-table">
+      <tr>
+        <th>Statut</th>
+        <th>Nombre</th>
+      </tr>
+      <tr>
+        <td>✅ Offres reçues</td>
+        <td>{{quotesReceived}}</td>
+      </tr>
+      <tr>
+        <td>⏳ En attente de réponse</td>
+        <td>{{pending}}</td>
+      </tr>
+      {{#declined}}
+      <tr><td>❌ Déclinées</td><td>{{declined}}</td></tr>
+      {{/declined}}
+      {{#noResponse}}
+      <tr><td>⚠️ Sans réponse (relances max)</td><td>{{noResponse}}</td></tr>
+      {{/noResponse}}
+      <tr style="font-weight: bold;">
+        <td>Total fournisseurs consultés</td>
+        <td>{{totalSuppliers}}</td>
+      </tr>
+    </table>
+
+    <p>Nous continuons à suivre activement cette demande et vous tiendrons informé(e) de l'évolution.</p>
+
+    <p>Pour toute question, n'hésitez pas à nous contacter.</p>
+
+    <p>Cordialement,</p>
+
+    {{{signatureHtml}}}
+  </div>
+</body>
+</html>`,
+    text: `
+SUIVI DE VOTRE DEMANDE DE PRIX
+==============================
+
+Bonjour{{#clientName}} {{clientName}}{{/clientName}},
+
+Nous vous informons que votre demande de prix est en cours de traitement.
+
+RÉFÉRENCE DE LA DEMANDE:
+- N° Interne: {{rfqNumber}}
+{{#clientRfqNumber}}
+- Votre référence: {{clientRfqNumber}}
+{{/clientRfqNumber}}
+- Reçue le: {{receivedDate}}
+{{#itemCount}}
+- Nombre d'articles: {{itemCount}}
+{{/itemCount}}
+
+ÉTAT D'AVANCEMENT DES CONSULTATIONS:
+- Offres reçues: {{quotesReceived}}
+- En attente de réponse: {{pending}}
+{{#declined}}
+- Déclinées: {{declined}}
+{{/declined}}
+{{#noResponse}}
+- Sans réponse (relances max): {{noResponse}}
+{{/noResponse}}
+- Total fournisseurs consultés: {{totalSuppliers}}
+
+Nous continuons à suivre activement cette demande et vous tiendrons informé(e) de l'évolution.
+
+Pour toute question, n'hésitez pas à nous contacter.
+
+Cordialement,
+
+--
+Service Approvisionnement
+{{company.name}}
+{{company.contact.primaryEmail}}
+`,
+  },
+];
+
+// ============ FOURNISSEURS ============
+
+const SUPPLIER_MESSAGES: TemplateDefinition[] = [
+  {
+    name: 'supplier_followup',
+    language: 'fr',
+    description: 'Relance fournisseur du cycle de vie RFQ (sans réponse après consultation)',
+    variables: [
+      'rfqNumber', 'clientRfqNumber', 'subject', 'itemCount', 'supplierEmail', 'supplierName', 'consultedDate', 'daysSince',
+      'deadline', 'isUrgent', 'firstReminder', 'reminderNumber', 'signatureHtml',
+    ],
+    subject: '{{#isUrgent}}⚠️ URGENT - {{/isUrgent}}Relance{{^firstReminder}} {{reminderNumber}}{{/firstReminder}}: {{subject}}',
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 14px; color: #333; line-height: 1.6; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { border-bottom: 2px solid #f0ad4e; padding-bottom: 10px; margin-bottom: 20px; }
+    .highlight { background-color: #fcf8e3; padding: 15px; border-left: 4px solid #f0ad4e; margin: 15px 0; }
+    .urgent { color: #d9534f; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2 style="color: #f0ad4e; margin: 0;">🔔 Relance - Demande de Prix</h2>
+    </div>
+
+    <p>Bonjour,</p>
+
+    <p>Nous nous permettons de vous relancer concernant notre demande de prix envoyée le <strong>{{consultedDate}}</strong> (il y a {{daysSince}} jours).</p>
+
+    <div class="highlight">
+      <strong>📋 Référence de la demande:</strong><br>
+      • N° Interne: {{rfqNumber}}<br>
+      {{#clientRfqNumber}}
+      • N° Client: {{clientRfqNumber}}<br>
+      {{/clientRfqNumber}}
+      • Objet: {{subject}}<br>
+      {{#itemCount}}
+      • Nombre d'articles: {{itemCount}}<br>
+      {{/itemCount}}
+    </div>
+
+    {{#isUrgent}}
+    <p style="color: #d9534f; font-weight: bold;">⚠️ Cette demande est urgente et nécessite une réponse rapide.</p>
+    {{/isUrgent}}
+    {{#deadline}}
+    <p style="color: #d9534f;"><strong>Date limite de réponse: {{deadline}}</strong></p>
+    {{/deadline}}
+
+    <p>Nous serions reconnaissants si vous pouviez nous faire parvenir votre offre dans les meilleurs délais, ou nous informer si vous n'êtes pas en mesure de répondre à cette demande.</p>
+
+    <p>En cas de difficulté ou pour toute question, n'hésitez pas à nous contacter.</p>
+
+    <p>Dans l'attente de votre retour, nous vous prions d'agréer nos salutations distinguées.</p>
+
+    {{{signatureHtml}}}
+  </div>
+</body>
+</html>`,
+    text: `
+RELANCE - DEMANDE DE PRIX
+
+Bonjour,
+
+Nous nous permettons de vous relancer concernant notre demande de prix envoyée le {{consultedDate}} (il y a {{daysSince}} jours).
+
+RÉFÉRENCE DE LA DEMANDE:
+- N° Interne: {{rfqNumber}}
+{{#clientRfqNumber}}
+- N° Client: {{clientRfqNumber}}
+{{/clientRfqNumber}}
+- Objet: {{subject}}
+{{#itemCount}}
+- Nombre d'articles: {{itemCount}}
+{{/itemCount}}
+
+{{#isUrgent}}
+⚠️ Cette demande est urgente et nécessite une réponse rapide.
+{{/isUrgent}}
+{{#deadline}}
+Date limite de réponse: {{deadline}}
+{{/deadline}}
+
+Nous serions reconnaissants si vous pouviez nous faire parvenir votre offre dans les meilleurs délais, ou nous informer si vous n'êtes pas en mesure de répondre à cette demande.
+
+En cas de difficulté ou pour toute question, n'hésitez pas à nous contacter.
+
+Dans l'attente de votre retour, nous vous prions d'agréer nos salutations distinguées.
+
+--
+Service Approvisionnement
+{{company.name}}
+{{company.contact.primaryEmail}}
+`,
+  },
+  {
+    name: 'supplier_reminder',
+    language: 'fr',
+    description: 'Relance fournisseur automatique (module de relances), selon le nombre de relances déjà envoyées',
+    variables: ['rfqNumber', 'subject', 'urgencyPrefix', 'reminderCount', 'reminderNumber', 'firstReminder', 'secondReminder', 'finalReminder'],
+    subject: '{{urgencyPrefix}}Relance: {{subject}}',
+    html: '',
+    text: `Bonjour,
+
+{{#firstReminder}}
+Nous vous relançons concernant notre demande de prix (Réf. {{rfqNumber}}).
+
+Nous restons dans l'attente de votre proposition.
+{{/firstReminder}}
+{{#secondReminder}}
+Ceci est notre {{reminderNumber}}ème relance concernant notre demande de prix (Réf. {{rfqNumber}}).
+
+Merci de nous faire parvenir votre meilleure offre dans les meilleurs délais.
+{{/secondReminder}}
+{{#finalReminder}}
+URGENT - {{reminderNumber}}ème relance concernant notre demande de prix (Réf. {{rfqNumber}}).
+
+Nous n'avons toujours pas reçu votre proposition. Merci de nous confirmer si vous êtes en mesure de répondre à cette demande.
+{{/finalReminder}}
+
+Cordialement,
+{{company.fullName}} – {{company.contact.name}}`,
+  },
+  {
+    name: 'purchase_order',
+    language: 'both',
+    description: 'Bon de commande envoyé au fournisseur retenu (brouillon)',
+    variables: ['poNumber', 'rfqNumber', 'supplierName', 'supplierEmail', 'quoteReference', 'incoterm', 'paymentTerms', 'deliveryTime'],
+    subject: 'Bon de commande / Purchase Order {{poNumber}}',
+    html: `<div style="font-family: Arial, sans-serif; font-size: 14px;">
+{{> company_header}}
+<p>Bonjour,</p>
+<p>Suite à votre offre{{#quoteReference}} <em>{{quoteReference}}</em>{{/quoteReference}}, veuillez trouver ci-joint notre bon de commande <strong>{{poNumber}}</strong> (demande {{rfqNumber}}).</p>
+<ul>
+  <li><strong>Incoterm:</strong> {{incoterm}}</li>
+  <li><strong>Conditions de paiement:</strong> {{paymentTerms}}</li>
+  <li><strong>Délai de livraison:</strong> {{deliveryTime}}</li>
+</ul>
+<p>Merci de nous confirmer la bonne réception de cette commande ainsi que le délai de livraison.</p>
+<hr>
+<p><em>Following your quotation, please find attached our purchase order <strong>{{poNumber}}</strong> (RFQ {{rfqNumber}}). Please acknowledge receipt and confirm the delivery time.</em></p>
+<p>Cordialement / Best regards,<br>{{company.contact.name}}<br>{{company.name}}</p>
+</div>`,
+    text: `Bonjour,
+
+Suite à votre offre{{#quoteReference}} "{{quoteReference}}"{{/quoteReference}}, veuillez trouver ci-joint notre bon de commande {{poNumber}} (demande {{rfqNumber}}).
+
+- Incoterm: {{incoterm}}
+- Conditions de paiement: {{paymentTerms}}
+- Délai de livraison: {{deliveryTime}}
+
+Merci de nous confirmer la bonne réception de cette commande ainsi que le délai de livraison.
+
+---
+
+Hello,
+
+Following your quotation, please find attached our purchase order {{poNumber}} (RFQ {{rfqNumber}}).
+Please acknowledge receipt and confirm the delivery time.
+
+Cordialement / Best regards,
+
+--
+{{company.contact.name}}
+{{company.name}}
+{{company.contact.primaryEmail}}
+`,
+  },
+  {
+    name: 'quotation_not_selected',
+    language: 'both',
+    description: 'Avis "offre non retenue" aux fournisseurs non attributaires (brouillon)',
+    variables: ['rfqNumber', 'supplierName', 'supplierEmail'],
+    subject: 'Demande {{rfqNumber}} - Offre non retenue / Quotation not selected',
+    html: `<div style="font-family: Arial, sans-serif; font-size: 14px;">
+<p>Bonjour{{#supplierName}} {{supplierName}}{{/supplierName}},</p>
+<p>Nous vous remercions pour votre offre concernant notre demande <strong>{{rfqNumber}}</strong>.
+Après étude des offres reçues, nous sommes au regret de vous informer qu'elle n'a pas été retenue cette fois-ci.
+Nous espérons avoir l'occasion de vous consulter à nouveau prochainement.</p>
+<hr>
+<p><em>Thank you for your quotation for our RFQ <strong>{{rfqNumber}}</strong>.
+After reviewing all offers, we regret to inform you that it has not been selected this time.
+We look forward to consulting you again on future requests.</em></p>
+<p>Cordialement / Best regards,<br>{{company.contact.name}}<br>{{company.name}}</p>
+</div>`,
+    text: `Bonjour{{#supplierName}} {{supplierName}}{{/supplierName}},
+
+Nous vous remercions pour votre offre concernant notre demande {{rfqNumber}}.
+Après étude des offres reçues, nous sommes au regret de vous informer qu'elle n'a pas été retenue cette fois-ci.
+Nous espérons avoir l'occasion de vous consulter à nouveau prochainement.
+
+---
+
+Hello,
+
+Thank you for your quotation for our RFQ {{rfqNumber}}.
+After reviewing all offers, we regret to inform you that it has not been selected this time.
+We look forward to consulting you again on future requests.
+
+Cordialement / Best regards,
+
+--
+{{company.contact.name}}
+{{company.name}}
+{{company.contact.primaryEmail}}
+`,
+  },
+];
+
+// ============ SYSTÈME ============
+
+const SYSTEM_MESSAGES: TemplateDefinition[] = [
+  {
+    name: 'llm_credit_alert',
+    language: 'fr',
+    description: 'Alerte interne: crédits API du fournisseur LLM insuffisants',
+    variables: ['providerLabel', 'providerLabelUpper', 'model', 'errorMessage', 'billingUrl', 'date'],
+    subject: '🚨 ALERTE: Crédits API {{providerLabel}} faibles',
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; }
+    .header { background: linear-gradient(135deg, #dc3545, #c82333); color: white; padding: 20px; text-align: center; }
+    .header h1 { margin: 0; font-size: 24px; }
+    .content { padding: 20px; }
+    .section { margin: 20px 0; padding: 15px; background: #f8f9fa; border-left: 4px solid #dc3545; }
+    .section h3 { margin-top: 0; color: #dc3545; }
+    .warning-box { background: #fff3cd; border: 1px solid #ffc107; padding: 15px; border-radius: 5px; margin: 20px 0; }
+    .action-btn { display: inline-block; background: #28a745; color: white; padding: 12px 25px; text-decoration: none; border-radius: 5px; margin-top: 10px; }
+    .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; border-top: 1px solid #ddd; }
+    ul { margin: 10px 0; padding-left: 20px; }
+    li { margin: 5px 0; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>🚨 Alerte Crédits API</h1>
+  </div>
+
+  <div class="content">
+    <div class="warning-box">
+      <strong>⚠️ Les crédits API {{providerLabel}} sont insuffisants</strong><br>
+      L'extraction LLM est temporairement désactivée.
+    </div>
+
+    <div class="section">
+      <h3>📋 Détails</h3>
+      <ul>
+        <li><strong>Date/Heure:</strong> {{date}}</li>
+        <li><strong>Fournisseur:</strong> {{providerLabel}}{{#model}} (modèle {{model}}){{/model}}</li>
+        <li><strong>Erreur:</strong> {{#errorMessage}}{{errorMessage}}{{/errorMessage}}{{^errorMessage}}Crédits insuffisants{{/errorMessage}}</li>
+      </ul>
+    </div>
+
+    <div class="section">
+      <h3>⚡ Impact</h3>
+      <ul>
+        <li>L'extraction LLM (intelligence artificielle) est désactivée</li>
+        <li>Le système continue avec l'extraction regex</li>
+        <li>Les demandes de prix sont toujours traitées</li>
+      </ul>
+    </div>
+
+    <div class="section">
+      <h3>✅ Action Requise</h3>
+      <p>Rechargez vos crédits API {{providerLabel}} pour restaurer l'extraction LLM.</p>
+      {{#billingUrl}}
+      <a href="{{billingUrl}}" class="action-btn">
+        Recharger les crédits →
+      </a>
+      {{/billingUrl}}
+    </div>
+  </div>
+
+  <div class="footer">
+    Ce message est envoyé automatiquement par le système de monitoring.<br>
+    Prochaine notification dans 6 heures si le problème persiste.
+  </div>
+</body>
+</html>`,
+    text: `⚠️ ALERTE SYSTÈME - CRÉDITS API {{providerLabelUpper}}
+
+Le système de traitement des demandes de prix a détecté un problème avec les crédits API {{providerLabel}}.
+
+═══════════════════════════════════════════════════════
+DÉTAILS
+═══════════════════════════════════════════════════════
+Date/Heure: {{date}}
+Fournisseur: {{providerLabel}}{{#model}} (modèle {{model}}){{/model}}
+Message d'erreur: {{#errorMessage}}{{errorMessage}}{{/errorMessage}}{{^errorMessage}}Non spécifié{{/errorMessage}}
+
+═══════════════════════════════════════════════════════
+IMPACT
+═══════════════════════════════════════════════════════
+- L'extraction LLM des articles est désactivée
+- Le système continue avec l'extraction regex (moins précise)
+- Les demandes de prix sont toujours traitées
+
+═══════════════════════════════════════════════════════
+ACTION REQUISE
+═══════════════════════════════════════════════════════
+1. Connectez-vous à {{#billingUrl}}{{billingUrl}}{{/billingUrl}}{{^billingUrl}}la console {{providerLabel}}{{/billingUrl}}
+2. Vérifiez votre solde de crédits
+3. Rechargez les crédits si nécessaire
+
+---
+Ce message est envoyé automatiquement par le système de monitoring.
+Prochaine notification dans 6 heures si le problème persiste.`,
+  },  {
+    name: 'deadline_alert',
+    language: 'fr',
+    description: 'Alerte interne: demandes dont l\'échéance client approche ou est dépassée',
+    variables: [
+      'date', 'approachingCount', 'passedCount', 'alerts[].rfqNumber', 'alerts[].clientRfqNumber', 'alerts[].clientName',
+      'alerts[].deadline', 'alerts[].remaining', 'alerts[].passed', 'alerts[].status', 'alerts[].quotesReceived', 'alerts[].supplierCount',
+    ],
+    subject: '⏰ Échéances RFQ: {{approachingCount}} proche(s), {{passedCount}} dépassée(s)',
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 700px; margin: 0 auto; }
+    .header { background: #e67e22; color: white; padding: 15px 20px; }
+    .header h1 { margin: 0; font-size: 20px; }
+    table { width: 100%; border-collapse: collapse; margin: 15px 0; font-size: 13px; }
+    th { background: #f4f6f7; text-align: left; padding: 6px; }
+    td { padding: 6px; border-bottom: 1px solid #ddd; }
+    .passed { color: #c0392b; font-weight: bold; }
+    .footer { color: #666; font-size: 12px; border-top: 1px solid #ddd; padding-top: 10px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>⏰ Demandes à risque ({{date}})</h1>
+  </div>
+  <table>
+    <tr>
+      <th>N° Demande</th>
+      <th>Client</th>
+      <th>Échéance</th>
+      <th>Restant</th>
+      <th>Offres</th>
+      <th>Statut</th>
+    </tr>
+{{#alerts}}
+    <tr>
+      <td>{{rfqNumber}}{{#clientRfqNumber}}<br><small>Réf. {{clientRfqNumber}}</small>{{/clientRfqNumber}}</td>
+      <td>{{clientName}}</td>
+      <td>{{deadline}}</td>
+      <td{{#passed}} class="passed"{{/passed}}>{{remaining}}</td>
+      <td>{{quotesReceived}}/{{supplierCount}}</td>
+      <td>{{status}}</td>
+    </tr>
+{{/alerts}}
+  </table>
+  <p class="footer">Ce message est envoyé automatiquement par la surveillance des échéances.</p>
+</body>
+</html>`,
+    text: `DEMANDES À RISQUE ({{date}})
+
+{{#alerts}}
+- {{rfqNumber}}{{#clientRfqNumber}} (Réf. {{clientRfqNumber}}){{/clientRfqNumber}}{{#clientName}} - {{clientName}}{{/clientName}}
+  Échéance: {{deadline}} ({{remaining}}) - Offres: {{quotesReceived}}/{{supplierCount}} - Statut: {{status}}
+{{/alerts}}
+
+---
+Ce message est envoyé automatiquement par la surveillance des échéances.`,
+  },
+];
+
+export const DEFAULT_TEMPLATES: TemplateDefinition[] = [
+  ...PARTIALS,
+  ...PRICE_REQUESTS,
+  ...CLIENT_MESSAGES,
+  ...SUPPLIER_MESSAGES,
+  ...SYSTEM_MESSAGES,
+];
@@ -0,0 +1,85 @@
+import { BadRequestException, Body, Controller, Get, Param, Post, Put } from '@nestjs/common';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import { AuthenticatedUser } from '../auth/auth.interfaces';
+import { EmailTemplateService } from './email-template.service';
+import { EmailTemplateInput, TemplateLanguage } from './email-template.interfaces';
+
+@Controller('templates')
+export class EmailTemplateController {
+  constructor(private readonly templateService: EmailTemplateService) {}
+
+  /**
+   * GET /templates
+   * Modèles d'email (version active et nombre de versions par langue)
+   */
+  @Get()
+  listTemplates() {
+    const templates = this.templateService.listTemplates();
+    return { success: true, count: templates.length, templates };
+  }
+
+  /**
+   * GET /templates/:name/:language
+   * Version active, historique et variables disponibles
+   */
+  @Get(':name/:language')
+  getTemplate(@Param('name') name: string, @Param('language') language: TemplateLanguage) {
+    const template = this.templateService.getTemplate(name, language);
+    const definition = this.templateService.getDefinition(name);
+    return {
+      success: true,
+      template,
+      variables: definition?.variables || [],
+      versions: this.templateService.getVersions(name, language),
+    };
+  }
+
+  /**
+   * PUT /templates/:name/:language
+   * Enregistrer une nouvelle version (subject, html, text, comment)
+   */
+  @Roles('admin')
+  @Put(':name/:language')
+  async saveTemplate(
+    @Param('name') name: string,
+    @Param('language') language: TemplateLanguage,
+    @Body() body: EmailTemplateInput,
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    const template = await this.templateService.saveTemplate(name, language, body || {}, user?.name);
+    return { success: true, template };
+  }
+
+  /**
+   * POST /templates/:name/:language/rollback
+   * Restaurer une version précédente
+   */
+  @Roles('admin')
+  @Post(':name/:language/rollback')
+  async rollbackTemplate(
+    @Param('name') name: string,
+    @Param('language') language: TemplateLanguage,
+    @Body() body: { version: number },
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    if (!body?.version) {
+      throw new BadRequestException('version requise');
+    }
+    const template = await this.templateService.rollback(name, language, body.version, user?.name);
+    return { success: true, template };
+  }
+
+  /**
+   * POST /templates/:name/:language/preview
+   * Rendu avec les données d'une RFQ (rfqNumber interne ou client) et/ou des variables fournies
+   */
+  @Post(':name/:language/preview')
+  async previewTemplate(
+    @Param('name') name: string,
+    @Param('language') language: TemplateLanguage,
+    @Body() body: { rfqNumber?: string; variables?: Record<string, any> },
+  ) {
+    const { rendered, variables } = await this.templateService.preview(name, language, body || {});
+    return { success: true, ...rendered, variables };
+  }
+}
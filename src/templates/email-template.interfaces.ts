@@ -0,0 +1,75 @@
+/**
+ * Langue d'un modèle ('both' = bilingue français / anglais)
+ */
+export type TemplateLanguage = 'fr' | 'en' | 'both';
+
+export const TEMPLATE_LANGUAGES: TemplateLanguage[] = ['fr', 'en', 'both'];
+
+/**
+ * Modèle intégré (version 1 enregistrée au premier démarrage)
+ * - partial: bloc réutilisable inclus via {{> nom}} (en-tête société, instructions RFQ...)
+ * - variables: variables fournies par le code d'envoi, affichées dans l'éditeur
+ */
+export interface TemplateDefinition {
+  name: string;
+  language: TemplateLanguage;
+  description: string;
+  partial?: boolean;
+  variables: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Version enregistrée d'un modèle (table email_templates)
+ */
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  language: TemplateLanguage;
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+  active: boolean;
+  comment?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface EmailTemplateSummary {
+  name: string;
+  language: TemplateLanguage;
+  description: string;
+  partial: boolean;
+  variables: string[];
+  activeVersion: number;
+  versionCount: number;
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+export interface EmailTemplateInput {
+  subject?: string;
+  html?: string;
+  text?: string;
+  comment?: string;
+}
+
+/**
+ * Email rendu; html vide = modèle texte seul (l'envoi convertit le texte)
+ */
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Fournit des variables tirées d'une vraie RFQ pour la prévisualisation
+ * (implémenté par le cycle de vie RFQ)
+ */
+export interface TemplatePreviewContributor {
+  getPreviewVariables(rfqNumber: string): Promise<Record<string, any> | undefined> | Record<string, any> | undefined;
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as initSqlJs from 'sql.js';
+import { EmailTemplateService } from './email-template.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('EmailTemplateService', () => {
+  let service: EmailTemplateService;
+  let databaseService: {
+    db: any;
+    saveToFile: jest.Mock;
+    addAuditEvent: jest.Mock;
+    getRfqMappingByInternalRfq: jest.Mock;
+    getRfqMappingByClientRfq: jest.Mock;
+    getLatestDraftForRfq: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    databaseService = {
+      db: new SQL.Database(),
+      saveToFile: jest.fn(),
+      addAuditEvent: jest.fn().mockResolvedValue(undefined),
+      getRfqMappingByInternalRfq: jest.fn().mockResolvedValue(null),
+      getRfqMappingByClientRfq: jest.fn().mockResolvedValue(null),
+      getLatestDraftForRfq: jest.fn().mockResolvedValue(null),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailTemplateService,
+        { provide: DatabaseService, useValue: databaseService },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<EmailTemplateService>(EmailTemplateService);
+  });
+
+  it('should seed every built-in template as version 1', () => {
+    const templates = service.listTemplates();
+
+    expect(templates.length).toBeGreaterThan(10);
+    expect(templates.find(t => t.name === 'supplier_rfq')).toMatchObject({
+      language: 'both',
+      activeVersion: 1,
+      versionCount: 1,
+      partial: false,
+    });
+    expect(templates.find(t => t.name === 'signature')?.partial).toBe(true);
+  });
+
+  it('should render partials and escape variables in HTML only', () => {
+    const rendered = service.render('supplier_rfq', {
+      rfqNumber: 'DDP-1',
+      clientName: 'Dupont & <Fils>',
+      hasClientInfo: true,
+      responseHours: 24,
+      deadline: '01/01/2027 10:00',
+    }, 'both');
+
+    expect(rendered.subject).toBe('Demande de Prix N° DDP-1');
+    expect(rendered.html).toContain('Dupont &amp; &lt;Fils&gt;');
+    expect(rendered.html).toContain('MULTIPARTS CI');
+    expect(rendered.text).toContain('Client: Dupont & <Fils>');
+    expect(rendered.html).not.toContain('{{');
+    expect(rendered.text).not.toContain('{{');
+  });
+
+  it('should fall back to another language when the requested one does not exist', () => {
+    const rendered = service.render('customer_auto_ack', { clientName: 'Endeavour' }, 'en');
+
+    expect(rendered.text).toContain('Bonjour');
+  });
+
+  it('should create a new active version on save and restore an older one on rollback', async () => {
+    const saved = await service.saveTemplate('rfq_notification', 'fr', {
+      subject: 'Nouvelle RFQ {{rfqNumber}}',
+      comment: 'Objet raccourci',
+    }, 'Admin');
+
+    expect(saved).toMatchObject({ version: 2, active: true, createdBy: 'Admin', comment: 'Objet raccourci' });
+    expect(service.render('rfq_notification', { rfqNumber: 'DDP-7' }).subject).toBe('Nouvelle RFQ DDP-7');
+    expect(service.getVersions('rfq_notification', 'fr').map(v => [v.version, v.active])).toEqual([[2, true], [1, false]]);
+    expect(databaseService.addAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+      actor: 'Admin',
+      entityType: 'email_template',
+      entityId: 'rfq_notification/fr',
+      action: 'template.updated',
+    }));
+
+    const restored = await service.rollback('rfq_notification', 'fr', 1, 'Admin');
+
+    expect(restored).toMatchObject({ version: 3, active: true, comment: 'Retour à la version 1' });
+    expect(service.render('rfq_notification', { rfqNumber: 'DDP-7' }).subject).not.toBe('Nouvelle RFQ DDP-7');
+    await expect(service.rollback('rfq_notification', 'fr', 3)).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('should reject invalid syntax, unknown partials and unchanged content', async () => {
+    await expect(service.saveTemplate('rfq_notification', 'fr', { html: '{{#items}}<p>' }))
+      .rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.saveTemplate('rfq_notification', 'fr', { html: '{{> inconnu}}' }))
+      .rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.saveTemplate('rfq_notification', 'fr', { comment: 'Sans changement' }))
+      .rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.saveTemplate('inexistant', 'fr', { text: 'x' }))
+      .rejects.toBeInstanceOf(NotFoundException);
+    expect(service.getVersions('rfq_notification', 'fr')).toHaveLength(1);
+  });
+
+  it('should preview a template with the data of an existing RFQ', async () => {
+    databaseService.getRfqMappingByClientRfq.mockResolvedValue({
+      internalRfqNumber: 'DDP-9',
+      clientRfqNumber: 'CLI-9',
+      emailSubject: 'RFQ pompes',
+      receivedAt: new Date('2026-10-01T08:00:00Z'),
+    });
+    databaseService.getLatestDraftForRfq.mockResolvedValue({
+      internalRfqNumber: 'DDP-9',
+      clientRfqNumber: 'CLI-9',
+      clientName: 'Endeavour Mining',
+      clientEmail: 'achats@endeavour.com',
+      itemsJson: JSON.stringify([{ description: 'Pompe', partNumber: 'P-1', quantity: 2 }]),
+    });
+    service.addPreviewContributor({ getPreviewVariables: jest.fn().mockResolvedValue({ supplierCount: 3 }) });
+
+    const { rendered, variables } = await service.preview('procurement_draft', 'fr', {
+      rfqNumber: 'CLI-9',
+      variables: { clientEmail: 'autre@endeavour.com' },
+    });
+
+    expect(databaseService.getLatestDraftForRfq).toHaveBeenCalledWith('DDP-9');
+    expect(variables).toMatchObject({ rfqNumber: 'DDP-9', itemCount: 1, supplierCount: 3, clientEmail: 'autre@endeavour.com' });
+    expect(rendered.subject).toBe('Demande de Prix N° DDP-9 - Réf. Client: CLI-9');
+    expect(rendered.text).toContain('Client: Endeavour Mining');
+    expect(rendered.text).toContain('Contact: autre@endeavour.com');
+  });
+
+  it('should reject a preview for an unknown RFQ', async () => {
+    await expect(service.preview('procurement_draft', 'fr', { rfqNumber: 'DDP-404' }))
+      .rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,417 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/database.service';
+import { COMPANY_INFO } from '../common/company-info';
+import { DEFAULT_TEMPLATES } from './default-templates';
+import { TemplateSyntaxError, listPartials, renderTemplate } from './template-renderer';
+import { formatDate, formatDateTime, responseDeadlineVariables, toTemplateItems } from './template-variables';
+import {
+  EmailTemplate,
+  EmailTemplateInput,
+  EmailTemplateSummary,
+  RenderedEmail,
+  TEMPLATE_LANGUAGES,
+  TemplateDefinition,
+  TemplateLanguage,
+  TemplatePreviewContributor,
+} from './email-template.interfaces';
+
+type TemplateContent = Pick<EmailTemplate, 'subject' | 'html' | 'text'>;
+
+/**
+ * Modèles d'email sortants (table email_templates).
+ *
+ * Chaque modèle est identifié par son nom et sa langue; chaque modification crée une nouvelle
+ * version active, les précédentes restent consultables et peuvent être restaurées.
+ * Sans version enregistrée (base indisponible), le modèle intégré est utilisé.
+ */
+@Injectable()
+export class EmailTemplateService implements OnModuleInit {
+  private readonly logger = new Logger(EmailTemplateService.name);
+  private readonly previewContributors: TemplatePreviewContributor[] = [];
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  async onModuleInit() {
+    this.createTables();
+    this.seedDefaults();
+  }
+
+  private get db(): any {
+    return (this.databaseService as any).db;
+  }
+
+  private createTables() {
+    const db = this.db;
+    if (!db) {
+      this.logger.warn('Database not initialized, skipping table creation');
+      return;
+    }
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS email_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        language TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        subject TEXT NOT NULL DEFAULT '',
+        body_html TEXT NOT NULL DEFAULT '',
+        body_text TEXT NOT NULL DEFAULT '',
+        active INTEGER NOT NULL DEFAULT 0,
+        comment TEXT,
+        created_by TEXT,
+        created_at TEXT NOT NULL,
+        UNIQUE(name, language, version)
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_email_templates_active ON email_templates(name, language, active)`);
+    this.databaseService.saveToFile();
+  }
+
+  /**
+   * Enregistrer les modèles intégrés absents (version 1)
+   */
+  private seedDefaults() {
+    if (!this.db) return;
+
+    let seeded = 0;
+    for (const definition of DEFAULT_TEMPLATES) {
+      if (this.getVersions(definition.name, definition.language).length === 0) {
+        this.insertVersion(definition.name, definition.language, definition, 'Modèle intégré', 'system');
+        seeded++;
+      }
+    }
+    if (seeded > 0) {
+      this.logger.log(`${seeded} modèle(s) d'email intégré(s) enregistré(s)`);
+    }
+  }
+
+  // ============ RENDU ============
+
+  /**
+   * Rendre un modèle: langue demandée, sinon bilingue, sinon français
+   */
+  render(name: string, variables: Record<string, any> = {}, language: TemplateLanguage = 'fr'): RenderedEmail {
+    const template = this.resolveTemplate(name, language);
+    if (!template) {
+      throw new Error(`Modèle d'email introuvable: ${name}`);
+    }
+
+    const context = this.buildContext(variables);
+    const partials = (mode: 'html' | 'text') => (partial: string) => this.resolveTemplate(partial, language)?.[mode];
+
+    return {
+      subject: renderTemplate(template.subject, context, { escape: false }).replace(/\s+/g, ' ').trim(),
+      html: renderTemplate(template.html, context, { escape: true, partials: partials('html') }),
+      text: renderTemplate(template.text, context, { escape: false, partials: partials('text') }),
+    };
+  }
+
+  /**
+   * Version active d'un modèle pour une langue, avec repli sur les autres langues
+   */
+  private resolveTemplate(name: string, language: TemplateLanguage): TemplateContent | undefined {
+    const languages = [...new Set<TemplateLanguage>([language, 'both', 'fr', 'en'])];
+    for (const candidate of languages) {
+      const template = this.findActive(name, candidate) || this.findDefinition(name, candidate);
+      if (template) return template;
+    }
+    return undefined;
+  }
+
+  private buildContext(variables: Record<string, any>): Record<string, any> {
+    return {
+      company: COMPANY_INFO,
+      today: formatDate(new Date()),
+      ...variables,
+    };
+  }
+
+  // ============ GESTION ============
+
+  listTemplates(): EmailTemplateSummary[] {
+    const result = this.db.exec(`
+      SELECT name, language, COUNT(*) AS version_count FROM email_templates GROUP BY name, language ORDER BY name, language
+    `);
+    if (result.length === 0) return [];
+
+    return result[0].values.map(([name, language, versionCount]: any[]) => {
+      const active = this.findActive(name, language);
+      const definition = this.findDefinition(name);
+      return {
+        name,
+        language,
+        description: definition?.description || '',
+        partial: definition?.partial || false,
+        variables: definition?.variables || [],
+        activeVersion: active?.version || 0,
+        versionCount,
+        updatedAt: active?.createdAt,
+        updatedBy: active?.createdBy,
+      };
+    });
+  }
+
+  getTemplate(name: string, language: TemplateLanguage): EmailTemplate {
+    const template = this.findActive(name, language);
+    if (!template) {
+      throw new NotFoundException(`Modèle ${name} (${language}) non trouvé`);
+    }
+    return template;
+  }
+
+  /**
+   * Historique des versions, la plus récente d'abord
+   */
+  getVersions(name: string, language: TemplateLanguage): EmailTemplate[] {
+    const result = this.db.exec(`
+      SELECT * FROM email_templates WHERE name = ? AND language = ? ORDER BY version DESC
+    `, [name, language]);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToTemplate(result[0].columns, row));
+  }
+
+  getDefinition(name: string): TemplateDefinition | undefined {
+    return this.findDefinition(name);
+  }
+
+  /**
+   * Enregistrer une nouvelle version active (les champs omis reprennent la version active)
+   */
+  async saveTemplate(
+    name: string,
+    language: TemplateLanguage,
+    input: EmailTemplateInput,
+    actor?: string,
+  ): Promise<EmailTemplate> {
+    if (!this.findDefinition(name)) {
+      throw new NotFoundException(`Modèle inconnu: ${name}`);
+    }
+    if (!TEMPLATE_LANGUAGES.includes(language)) {
+      throw new BadRequestException(`Langue invalide: ${language} (${TEMPLATE_LANGUAGES.join(', ')})`);
+    }
+
+    const current = this.findActive(name, language) || this.resolveTemplate(name, language);
+    const content: TemplateContent = {
+      subject: input.subject ?? current?.subject ?? '',
+      html: input.html ?? current?.html ?? '',
+      text: input.text ?? current?.text ?? '',
+    };
+    this.validateContent(name, content);
+
+    const previous = this.findActive(name, language);
+    if (previous && (['subject', 'html', 'text'] as const).every(field => previous[field] === content[field])) {
+      throw new BadRequestException('Aucune modification par rapport à la version active');
+    }
+
+    const template = this.insertVersion(name, language, content, input.comment, actor);
+    await this.databaseService.addAuditEvent({
+      actor,
+      entityType: 'email_template',
+      entityId: `${name}/${language}`,
+      action: 'template.updated',
+      before: previous ? { version: previous.version } : undefined,
+      after: { version: template.version, comment: input.comment },
+    });
+    this.logger.log(`Modèle ${name} (${language}) mis à jour: version ${template.version}`);
+    return template;
+  }
+
+  /**
+   * Restaurer une version précédente (enregistrée comme nouvelle version active)
+   */
+  async rollback(name: string, language: TemplateLanguage, version: number, actor?: string): Promise<EmailTemplate> {
+    const target = this.getVersions(name, language).find(t => t.version === Number(version));
+    if (!target) {
+      throw new NotFoundException(`Version ${version} du modèle ${name} (${language}) non trouvée`);
+    }
+    if (target.active) {
+      throw new BadRequestException(`La version ${version} est déjà active`);
+    }
+
+    const previous = this.findActive(name, language);
+    const template = this.insertVersion(name, language, target, `Retour à la version ${target.version}`, actor);
+    await this.databaseService.addAuditEvent({
+      actor,
+      entityType: 'email_template',
+      entityId: `${name}/${language}`,
+      action: 'template.rolled_back',
+      before: previous ? { version: previous.version } : undefined,
+      after: { version: template.version, restoredVersion: target.version },
+    });
+    this.logger.log(`Modèle ${name} (${language}): retour à la version ${target.version} (version ${template.version})`);
+    return template;
+  }
+
+  private validateContent(name: string, content: TemplateContent) {
+    for (const field of ['subject', 'html', 'text'] as const) {
+      try {
+        const unknown = listPartials(content[field]).filter(partial => !this.findDefinition(partial)?.partial);
+        if (unknown.length > 0) {
+          throw new BadRequestException(`Partiel inconnu dans ${field}: ${unknown.join(', ')}`);
+        }
+      } catch (error) {
+        if (error instanceof TemplateSyntaxError) {
+          throw new BadRequestException(`Modèle invalide (${field}): ${error.message}`);
+        }
+        throw error;
+      }
+    }
+
+    if (!this.findDefinition(name)?.partial && !content.html.trim() && !content.text.trim()) {
+      throw new BadRequestException('Le modèle doit avoir un corps HTML ou texte');
+    }
+  }
+
+  // ============ PRÉVISUALISATION ============
+
+  /**
+   * Brancher une source de variables de prévisualisation (cycle de vie RFQ)
+   */
+  addPreviewContributor(contributor: TemplatePreviewContributor): void {
+    this.previewContributors.push(contributor);
+  }
+
+  /**
+   * Rendre un modèle avec les données d'une vraie RFQ (les variables fournies sont prioritaires)
+   */
+  async preview(
+    name: string,
+    language: TemplateLanguage,
+    options: { rfqNumber?: string; variables?: Record<string, any> } = {},
+  ): Promise<{ rendered: RenderedEmail; variables: Record<string, any> }> {
+    if (!this.findDefinition(name)) {
+      throw new NotFoundException(`Modèle inconnu: ${name}`);
+    }
+
+    const variables = {
+      date: formatDate(new Date()),
+      ...responseDeadlineVariables(),
+      ...(options.rfqNumber ? await this.buildRfqVariables(options.rfqNumber) : {}),
+      ...(options.variables || {}),
+    };
+    return { rendered: this.render(name, variables, language), variables };
+  }
+
+  /**
+   * Variables tirées d'une RFQ (numéro interne ou client): correspondance, brouillon et articles,
+   * puis données du cycle de vie (fournisseurs consultés, échéance)
+   */
+  private async buildRfqVariables(rfqNumber: string): Promise<Record<string, any>> {
+    const mapping = await this.databaseService.getRfqMappingByInternalRfq(rfqNumber)
+      || await this.databaseService.getRfqMappingByClientRfq(rfqNumber);
+    const internalRfqNumber = mapping?.internalRfqNumber || rfqNumber;
+    const draft = await this.databaseService.getLatestDraftForRfq(internalRfqNumber);
+
+    let variables: Record<string, any> = {};
+    if (mapping) {
+      variables = {
+        rfqNumber: mapping.internalRfqNumber,
+        clientRfqNumber: mapping.clientRfqNumber,
+        subject: mapping.emailSubject,
+        receivedAt: mapping.receivedAt ? formatDateTime(mapping.receivedAt) : undefined,
+        receivedDate: mapping.receivedAt ? formatDate(mapping.receivedAt) : undefined,
+        clientReceivedAt: mapping.receivedAt ? formatDateTime(mapping.receivedAt) : undefined,
+      };
+    }
+    if (draft) {
+      let items: any[] = [];
+      try {
+        items = draft.itemsJson ? JSON.parse(draft.itemsJson) : [];
+      } catch (e) {
+        this.logger.warn(`Articles illisibles pour ${internalRfqNumber}: ${e.message}`);
+      }
+      variables = {
+        ...variables,
+        rfqNumber: draft.internalRfqNumber,
+        clientRfqNumber: draft.clientRfqNumber || variables.clientRfqNumber,
+        clientName: draft.clientName,
+        clientEmail: draft.clientEmail,
+        hasClientInfo: !!(draft.clientName || draft.clientRfqNumber || draft.clientEmail),
+        items: toTemplateItems(items),
+        itemCount: items.length,
+      };
+    }
+
+    let found = !!(mapping || draft);
+    for (const contributor of this.previewContributors) {
+      const contributed = await contributor.getPreviewVariables(internalRfqNumber);
+      if (contributed) {
+        variables = { ...variables, ...contributed };
+        found = true;
+      }
+    }
+
+    if (!found) {
+      throw new NotFoundException(`RFQ ${rfqNumber} non trouvée`);
+    }
+    return variables;
+  }
+
+  // ============ STOCKAGE ============
+
+  private insertVersion(
+    name: string,
+    language: TemplateLanguage,
+    content: TemplateContent,
+    comment?: string,
+    createdBy?: string,
+  ): EmailTemplate {
+    const result = this.db.exec(`
+      SELECT COALESCE(MAX(version), 0) FROM email_templates WHERE name = ? AND language = ?
+    `, [name, language]);
+    const version = Number(result[0]?.values[0][0] || 0) + 1;
+    const id = uuidv4();
+
+    this.db.run(`UPDATE email_templates SET active = 0 WHERE name = ? AND language = ?`, [name, language]);
+    this.db.run(`
+      INSERT INTO email_templates (id, name, language, version, subject, body_html, body_text, active, comment, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)
+    `, [
+      id,
+      name,
+      language,
+      version,
+      content.subject,
+      content.html,
+      content.text,
+      comment || null,
+      createdBy || null,
+      new Date().toISOString(),
+    ]);
+    this.databaseService.saveToFile();
+
+    return this.findActive(name, language)!;
+  }
+
+  private findActive(name: string, language: TemplateLanguage): EmailTemplate | undefined {
+    if (!this.db) return undefined;
+    const result = this.db.exec(`
+      SELECT * FROM email_templates WHERE name = ? AND language = ? AND active = 1 LIMIT 1
+    `, [name, language]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToTemplate(result[0].columns, result[0].values[0]);
+  }
+
+  private findDefinition(name: string, language?: TemplateLanguage): TemplateDefinition | undefined {
+    return DEFAULT_TEMPLATES.find(t => t.name === name && (!language || t.language === language));
+  }
+
+  private mapRowToTemplate(columns: string[], row: any[]): EmailTemplate {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      name: obj.name,
+      language: obj.language,
+      version: obj.version,
+      subject: obj.subject,
+      html: obj.body_html,
+      text: obj.body_text,
+      active: obj.active === 1,
+      comment: obj.comment || undefined,
+      createdBy: obj.created_by || undefined,
+      createdAt: new Date(obj.created_at),
+    };
+  }
+}
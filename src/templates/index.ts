@@ -0,0 +1,6 @@
+export * from './email-template.interfaces';
+export * from './template-renderer';
+export * from './template-variables';
+export * from './email-template.service';
+export * from './email-template.controller';
+export * from './templates.module';
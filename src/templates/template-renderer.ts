@@ -0,0 +1,223 @@
+/**
+ * Moteur de rendu des modèles d'email (sous-ensemble de la syntaxe Mustache)
+ *
+ * - {{chemin}}                 variable (échappée en HTML), chemins pointés acceptés: {{company.contact.name}}
+ * - {{{chemin}}}               variable brute (jamais échappée)
+ * - {{#chemin}}...{{/chemin}}  section: répétée pour chaque élément d'une liste, affichée une fois si la valeur est vraie
+ * - {{^chemin}}...{{/chemin}}  section inversée: affichée si la valeur est absente, fausse ou une liste vide
+ * - {{> nom}}                  modèle partiel (en-tête, instructions, signature...)
+ * - {{! commentaire }}
+ *
+ * Une ligne ne contenant qu'une balise de section ou un commentaire est retirée du rendu,
+ * pour que les modèles texte gardent une mise en page propre.
+ */
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; raw: boolean }
+  | { type: 'section'; path: string; inverted: boolean; children: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+export interface RenderOptions {
+  /** Échapper les variables {{x}} (corps HTML) */
+  escape: boolean;
+  /** Source d'un modèle partiel; undefined = partiel inconnu (rendu vide) */
+  partials?: (name: string) => string | undefined;
+}
+
+const TAG_PATTERN = /\{\{\{\s*([\w.-]+)\s*\}\}\}|\{\{!([\s\S]*?)\}\}|\{\{\s*([#^\/>&]?)\s*([\w.-]*)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+const parseCache = new Map<string, TemplateNode[]>();
+
+/**
+ * Analyser un modèle (lève TemplateSyntaxError si les sections sont mal fermées)
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  const root: TemplateNode[] = [];
+  const stack: Array<{ path: string; children: TemplateNode[] }> = [];
+  let current = root;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    const [tag, rawPath, comment, sigil, path] = match;
+    const isComment = comment !== undefined;
+    const isBlockTag = isComment || sigil === '#' || sigil === '^' || sigil === '/';
+
+    let textEnd = match.index;
+    let nextCursor = match.index + tag.length;
+
+    // Balise seule sur sa ligne: retirer la ligne entière
+    if (isBlockTag) {
+      const lineStart = source.lastIndexOf('\n', match.index - 1) + 1;
+      const newline = source.indexOf('\n', nextCursor);
+      const lineEnd = newline === -1 ? source.length : newline;
+      if (lineStart >= cursor
+        && /^[ \t]*$/.test(source.slice(lineStart, match.index))
+        && /^[ \t\r]*$/.test(source.slice(nextCursor, lineEnd))) {
+        textEnd = lineStart;
+        nextCursor = newline === -1 ? source.length : newline + 1;
+      }
+    }
+
+    if (textEnd > cursor) {
+      current.push({ type: 'text', value: source.slice(cursor, textEnd) });
+    }
+    cursor = nextCursor;
+    TAG_PATTERN.lastIndex = nextCursor;
+
+    if (isComment) continue;
+
+    if (rawPath !== undefined) {
+      current.push({ type: 'variable', path: rawPath, raw: true });
+      continue;
+    }
+
+    if (!path) {
+      throw new TemplateSyntaxError(`Balise vide: ${tag}`);
+    }
+
+    switch (sigil) {
+      case '#':
+      case '^': {
+        const section: TemplateNode = { type: 'section', path, inverted: sigil === '^', children: [] };
+        current.push(section);
+        stack.push({ path, children: current });
+        current = section.children;
+        break;
+      }
+      case '/': {
+        const open = stack.pop();
+        if (!open) {
+          throw new TemplateSyntaxError(`Fermeture sans ouverture: {{/${path}}}`);
+        }
+        if (open.path !== path) {
+          throw new TemplateSyntaxError(`Section {{#${open.path}}} fermée par {{/${path}}}`);
+        }
+        current = open.children;
+        break;
+      }
+      case '>':
+        current.push({ type: 'partial', name: path });
+        break;
+      default:
+        current.push({ type: 'variable', path, raw: sigil === '&' });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateSyntaxError(`Section non fermée: {{#${stack[stack.length - 1].path}}}`);
+  }
+  if (cursor < source.length) {
+    root.push({ type: 'text', value: source.slice(cursor) });
+  }
+
+  if (parseCache.size > 500) parseCache.clear();
+  parseCache.set(source, root);
+  return root;
+}
+
+/**
+ * Rendre un modèle avec les variables fournies
+ */
+export function renderTemplate(source: string, variables: Record<string, any>, options: RenderOptions): string {
+  return renderNodes(parseTemplate(source), [variables], options, 0);
+}
+
+/**
+ * Noms des modèles partiels référencés par un modèle
+ */
+export function listPartials(source: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]) => nodes.forEach(node => {
+    if (node.type === 'partial') names.add(node.name);
+    if (node.type === 'section') visit(node.children);
+  });
+  visit(parseTemplate(source));
+  return [...names];
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderNodes(nodes: TemplateNode[], stack: any[], options: RenderOptions, depth: number): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+
+      case 'variable': {
+        const value = lookup(node.path, stack);
+        if (value === undefined || value === null) break;
+        const text = String(value);
+        output += options.escape && !node.raw ? escapeHtml(text) : text;
+        break;
+      }
+
+      case 'section': {
+        const value = lookup(node.path, stack);
+        const empty = !value || (Array.isArray(value) && value.length === 0);
+        if (node.inverted) {
+          if (empty) output += renderNodes(node.children, stack, options, depth);
+        } else if (Array.isArray(value)) {
+          for (const item of value) {
+            output += renderNodes(node.children, [...stack, item], options, depth);
+          }
+        } else if (!empty) {
+          output += renderNodes(node.children, [...stack, value], options, depth);
+        }
+        break;
+      }
+
+      case 'partial': {
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateSyntaxError(`Inclusion de partiels trop profonde: {{> ${node.name}}}`);
+        }
+        const partial = options.partials?.(node.name);
+        if (partial) {
+          output += renderNodes(parseTemplate(partial), stack, options, depth + 1);
+        }
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Résoudre un chemin pointé en remontant les contextes de section
+ */
+function lookup(path: string, stack: any[]): any {
+  if (path === '.') return stack[stack.length - 1];
+
+  const [head, ...rest] = path.split('.');
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const context = stack[i];
+    if (context !== null && typeof context === 'object' && head in context) {
+      return rest.reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), context[head]);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,44 @@
+/**
+ * Aides à la construction des variables de modèles (formats de date, articles, délai de réponse)
+ */
+
+export function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('fr-FR');
+}
+
+export function formatDateTime(date: Date | string): string {
+  const value = new Date(date);
+  return `${value.toLocaleDateString('fr-FR')} ${value.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+/**
+ * Délai de réponse fournisseur: {{responseHours}} et {{deadline}} (date et heure limites)
+ */
+export function responseDeadlineVariables(responseHours = 24, from: Date = new Date()): { responseHours: number; deadline: string } {
+  const deadline = new Date(from);
+  deadline.setHours(deadline.getHours() + responseHours);
+  return { responseHours, deadline: formatDateTime(deadline) };
+}
+
+export interface TemplateItem {
+  index: number;
+  description: string;
+  partNumber: string;
+  brand: string;
+  quantity: number | string;
+  unit: string;
+}
+
+/**
+ * Articles d'une demande pour {{#items}} et le partiel items_table
+ */
+export function toTemplateItems(items: any[] = []): TemplateItem[] {
+  return items.map((item, i) => ({
+    index: i + 1,
+    description: item.description || '',
+    partNumber: item.supplierCode || item.partNumber || item.itemCode || '',
+    brand: item.brand || '',
+    quantity: item.quantity ?? '',
+    unit: item.unit || '',
+  }));
+}
@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { EmailTemplateService } from './email-template.service';
+import { EmailTemplateController } from './email-template.controller';
+
+@Global()
+@Module({
+  imports: [DatabaseModule],
+  providers: [EmailTemplateService],
+  controllers: [EmailTemplateController],
+  exports: [EmailTemplateService],
+})
+export class TemplatesModule {}
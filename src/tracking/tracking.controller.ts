@@ -2,6 +2,7 @@ import { Controller, Get, Post, Body, Res } from '@nestjs/common';
 import { Response } from 'express';
 import { TrackingService } from './tracking.service';
 import * as fs from 'fs';
+import { Roles } from '../auth/auth.decorators';
 
 @Controller('tracking')
 export class TrackingController {
@@ -49,6 +50,7 @@ export class TrackingController {
    * POST /tracking/reset
    * Réinitialise le fichier de suivi (MODE TEST)
    */
+  @Roles('admin')
   @Post('reset')
   resetTracking(@Body() body?: { confirm?: boolean }) {
     if (!body?.confirm) {
@@ -1,3 +1,4 @@
 export * from './webhook.service';
+export * from './webhook-database.service';
 export * from './webhook.module';
 export * from './webhook.controller';
@@ -0,0 +1,455 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/database.service';
+import {
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventRecord,
+  WebhookHistoryFilters,
+} from './webhook.interfaces';
+
+/**
+ * WebhookDatabaseService
+ *
+ * Persistance des webhooks sortants (outbox).
+ * Tables gérées:
+ * - webhook_endpoints
+ * - webhook_events (chaque événement est enregistré avant toute livraison)
+ * - webhook_deliveries (une livraison par événement et par endpoint)
+ * - webhook_delivery_attempts (append-only)
+ */
+@Injectable()
+export class WebhookDatabaseService {
+  private readonly logger = new Logger(WebhookDatabaseService.name);
+  private tablesReady = false;
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  private get db(): any {
+    // Tables créées au premier accès: WebhookModule est initialisé avant DatabaseModule
+    if (!this.tablesReady) {
+      this.ensureTables();
+    }
+    return (this.databaseService as any).db;
+  }
+
+  /**
+   * Crée les tables si nécessaire (idempotent)
+   */
+  ensureTables(): boolean {
+    if (this.tablesReady) return true;
+
+    const db = (this.databaseService as any).db;
+    if (!db) {
+      this.logger.warn('Database not initialized, skipping table creation');
+      return false;
+    }
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        secret TEXT,
+        events_json TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        max_attempts INTEGER,
+        headers_json TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        data_json TEXT NOT NULL,
+        metadata_json TEXT,
+        rfq_number TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        event_id TEXT NOT NULL,
+        endpoint_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        next_attempt_at TEXT,
+        last_attempt_at TEXT,
+        last_status_code INTEGER,
+        last_error TEXT,
+        delivered_at TEXT,
+        replay_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(event_id, endpoint_id)
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+        id TEXT PRIMARY KEY,
+        delivery_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        success INTEGER NOT NULL,
+        status_code INTEGER,
+        error TEXT,
+        duration_ms INTEGER NOT NULL,
+        attempted_at TEXT NOT NULL
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_events_created ON webhook_events(created_at)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_events_rfq ON webhook_events(rfq_number)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_attempts_delivery ON webhook_delivery_attempts(delivery_id)`);
+
+    this.databaseService.saveToFile();
+    this.tablesReady = true;
+    return true;
+  }
+
+  // ============ ENDPOINTS ============
+
+  getEndpoints(): WebhookEndpoint[] {
+    const result = this.db.exec(`SELECT * FROM webhook_endpoints ORDER BY created_at ASC`);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToEndpoint(result[0].columns, row));
+  }
+
+  getEndpoint(id: string): WebhookEndpoint | undefined {
+    const result = this.db.exec(`SELECT * FROM webhook_endpoints WHERE id = ?`, [id]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToEndpoint(result[0].columns, result[0].values[0]);
+  }
+
+  saveEndpoint(endpoint: WebhookEndpoint): void {
+    const now = new Date().toISOString();
+    this.db.run(`
+      INSERT INTO webhook_endpoints (id, url, secret, events_json, enabled, max_attempts, headers_json, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        url = excluded.url,
+        secret = excluded.secret,
+        events_json = excluded.events_json,
+        enabled = excluded.enabled,
+        max_attempts = excluded.max_attempts,
+        headers_json = excluded.headers_json,
+        updated_at = excluded.updated_at
+    `, [
+      endpoint.id,
+      endpoint.url,
+      endpoint.secret || null,
+      JSON.stringify(endpoint.events),
+      endpoint.enabled ? 1 : 0,
+      endpoint.maxAttempts || null,
+      endpoint.headers ? JSON.stringify(endpoint.headers) : null,
+      now,
+      now,
+    ]);
+    this.databaseService.saveToFile();
+  }
+
+  deleteEndpoint(id: string): boolean {
+    if (!this.getEndpoint(id)) return false;
+    this.db.run(`DELETE FROM webhook_endpoints WHERE id = ?`, [id]);
+    this.databaseService.saveToFile();
+    return true;
+  }
+
+  // ============ ÉVÉNEMENTS ============
+
+  insertEvent(event: WebhookEvent): void {
+    this.db.run(`
+      INSERT INTO webhook_events (id, type, data_json, metadata_json, rfq_number, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [
+      event.id,
+      event.type,
+      JSON.stringify(event.data),
+      event.metadata ? JSON.stringify(event.metadata) : null,
+      event.metadata?.rfqNumber || null,
+      event.timestamp.toISOString(),
+    ]);
+  }
+
+  getEvent(id: string): WebhookEvent | undefined {
+    const result = this.db.exec(`SELECT * FROM webhook_events WHERE id = ?`, [id]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToEvent(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * Événements d'une plage de dates (rejeu), du plus ancien au plus récent
+   */
+  findEvents(filters: { from?: Date; to?: Date; type?: string }): WebhookEvent[] {
+    let where = 'WHERE 1=1';
+    const params: any[] = [];
+    if (filters.from) { where += ` AND created_at >= ?`; params.push(filters.from.toISOString()); }
+    if (filters.to) { where += ` AND created_at <= ?`; params.push(filters.to.toISOString()); }
+    if (filters.type) { where += ` AND type = ?`; params.push(filters.type); }
+
+    const result = this.db.exec(`SELECT * FROM webhook_events ${where} ORDER BY created_at ASC`, params);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToEvent(result[0].columns, row));
+  }
+
+  /**
+   * Historique: événements les plus récents avec leurs livraisons.
+   * Les filtres endpoint/statut retiennent les événements ayant une livraison correspondante.
+   */
+  getEventHistory(filters: WebhookHistoryFilters = {}): WebhookEventRecord[] {
+    let where = 'WHERE 1=1';
+    const params: any[] = [];
+    if (filters.type) { where += ` AND e.type = ?`; params.push(filters.type); }
+    if (filters.rfqNumber) { where += ` AND e.rfq_number = ?`; params.push(filters.rfqNumber); }
+    if (filters.from) { where += ` AND e.created_at >= ?`; params.push(filters.from.toISOString()); }
+    if (filters.to) { where += ` AND e.created_at <= ?`; params.push(filters.to.toISOString()); }
+    if (filters.endpointId || filters.status) {
+      where += ` AND EXISTS (SELECT 1 FROM webhook_deliveries d WHERE d.event_id = e.id`;
+      if (filters.endpointId) { where += ` AND d.endpoint_id = ?`; params.push(filters.endpointId); }
+      if (filters.status) { where += ` AND d.status = ?`; params.push(filters.status); }
+      where += `)`;
+    }
+
+    const result = this.db.exec(
+      `SELECT e.* FROM webhook_events e ${where} ORDER BY e.created_at DESC LIMIT ?`,
+      [...params, filters.limit || 100],
+    );
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row: any[]) => {
+      const event = this.mapRowToEvent(result[0].columns, row);
+      return { ...event, deliveries: this.getDeliveriesForEvent(event.id) };
+    });
+  }
+
+  /**
+   * Supprimer les événements anciens entièrement livrés (les lettres mortes sont conservées)
+   */
+  pruneDeliveredEvents(before: Date): number {
+    const condition = `
+      created_at < ? AND NOT EXISTS (
+        SELECT 1 FROM webhook_deliveries d WHERE d.event_id = webhook_events.id AND d.status != 'delivered'
+      )
+    `;
+    const result = this.db.exec(`SELECT id FROM webhook_events WHERE ${condition}`, [before.toISOString()]);
+    if (result.length === 0 || result[0].values.length === 0) return 0;
+
+    const ids = result[0].values.map((row: any[]) => row[0]);
+    const placeholders = ids.map(() => '?').join(', ');
+    this.db.run(`
+      DELETE FROM webhook_delivery_attempts WHERE delivery_id IN (
+        SELECT id FROM webhook_deliveries WHERE event_id IN (${placeholders})
+      )
+    `, ids);
+    this.db.run(`DELETE FROM webhook_deliveries WHERE event_id IN (${placeholders})`, ids);
+    this.db.run(`DELETE FROM webhook_events WHERE id IN (${placeholders})`, ids);
+    this.databaseService.saveToFile();
+    return ids.length;
+  }
+
+  // ============ LIVRAISONS ============
+
+  /**
+   * Créer la livraison d'un événement à un endpoint, ou la remettre en file (rejeu)
+   */
+  queueDelivery(eventId: string, endpointId: string, maxAttempts: number, replay = false): WebhookDelivery {
+    const now = new Date().toISOString();
+    const existing = this.getDelivery(eventId, endpointId);
+
+    if (!existing) {
+      this.db.run(`
+        INSERT INTO webhook_deliveries (id, event_id, endpoint_id, status, attempts, max_attempts, next_attempt_at, created_at, updated_at)
+        VALUES (?, ?, ?, 'pending', 0, ?, ?, ?, ?)
+      `, [uuidv4(), eventId, endpointId, maxAttempts, now, now, now]);
+    } else if (replay) {
+      this.db.run(`
+        UPDATE webhook_deliveries
+        SET status = 'pending', attempts = 0, max_attempts = ?, next_attempt_at = ?, last_error = NULL,
+            replay_count = replay_count + 1, updated_at = ?
+        WHERE id = ?
+      `, [maxAttempts, now, now, existing.id]);
+    }
+    return this.getDelivery(eventId, endpointId)!;
+  }
+
+  getDelivery(eventId: string, endpointId: string): WebhookDelivery | undefined {
+    const result = this.db.exec(`SELECT * FROM webhook_deliveries WHERE event_id = ? AND endpoint_id = ?`, [eventId, endpointId]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToDelivery(result[0].columns, result[0].values[0]);
+  }
+
+  getDeliveryById(id: string): WebhookDelivery | undefined {
+    const result = this.db.exec(`SELECT * FROM webhook_deliveries WHERE id = ?`, [id]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return this.mapRowToDelivery(result[0].columns, result[0].values[0]);
+  }
+
+  getDeliveriesForEvent(eventId: string): WebhookDelivery[] {
+    const result = this.db.exec(`SELECT * FROM webhook_deliveries WHERE event_id = ? ORDER BY created_at ASC`, [eventId]);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToDelivery(result[0].columns, row));
+  }
+
+  /**
+   * Livraisons à tenter (en attente ou à retenter, échéance atteinte), les plus anciennes d'abord
+   */
+  getDueDeliveries(now: Date, limit = 50): WebhookDelivery[] {
+    const result = this.db.exec(`
+      SELECT * FROM webhook_deliveries
+      WHERE status IN ('pending', 'retrying') AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC LIMIT ?
+    `, [now.toISOString(), limit]);
+    if (result.length === 0) return [];
+    return result[0].values.map((row: any[]) => this.mapRowToDelivery(result[0].columns, row));
+  }
+
+  /**
+   * Réserver une livraison le temps de la tentative (évite un double envoi par la tâche de fond)
+   */
+  claimDelivery(id: string, until: Date): void {
+    this.db.run(`UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ?`, [until.toISOString(), id]);
+  }
+
+  /**
+   * Passer une livraison en lettre morte sans tentative (endpoint supprimé)
+   */
+  markDeliveryDead(id: string, reason: string): void {
+    const now = new Date().toISOString();
+    this.db.run(`
+      UPDATE webhook_deliveries SET status = 'dead', next_attempt_at = NULL, last_error = ?, updated_at = ? WHERE id = ?
+    `, [reason, now, id]);
+  }
+
+  /**
+   * Enregistrer une tentative et le nouvel état de la livraison
+   */
+  recordAttempt(
+    delivery: WebhookDelivery,
+    outcome: { success: boolean; statusCode?: number; error?: string; durationMs: number },
+    next: { status: WebhookDeliveryStatus; nextAttemptAt?: Date },
+  ): WebhookDelivery {
+    const now = new Date().toISOString();
+    const attempt = delivery.attempts + 1;
+
+    this.db.run(`
+      INSERT INTO webhook_delivery_attempts (id, delivery_id, attempt, success, status_code, error, duration_ms, attempted_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [uuidv4(), delivery.id, attempt, outcome.success ? 1 : 0, outcome.statusCode ?? null, outcome.error || null, outcome.durationMs, now]);
+
+    this.db.run(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, next_attempt_at = ?, last_attempt_at = ?, last_status_code = ?, last_error = ?,
+          delivered_at = ?, updated_at = ?
+      WHERE id = ?
+    `, [
+      next.status,
+      attempt,
+      next.nextAttemptAt ? next.nextAttemptAt.toISOString() : null,
+      now,
+      outcome.statusCode ?? null,
+      outcome.success ? null : outcome.error || null,
+      outcome.success ? now : null,
+      now,
+      delivery.id,
+    ]);
+    this.databaseService.saveToFile();
+
+    return this.getDeliveryById(delivery.id)!;
+  }
+
+  getAttempts(deliveryId: string): WebhookDeliveryAttempt[] {
+    const result = this.db.exec(`
+      SELECT * FROM webhook_delivery_attempts WHERE delivery_id = ? ORDER BY attempt ASC, attempted_at ASC
+    `, [deliveryId]);
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row: any[]) => {
+      const obj: any = {};
+      result[0].columns.forEach((col: string, i: number) => obj[col] = row[i]);
+      return {
+        id: obj.id,
+        deliveryId: obj.delivery_id,
+        attempt: obj.attempt,
+        success: obj.success === 1,
+        statusCode: obj.status_code ?? undefined,
+        error: obj.error || undefined,
+        durationMs: obj.duration_ms,
+        attemptedAt: new Date(obj.attempted_at),
+      };
+    });
+  }
+
+  countDeliveriesByStatus(): Record<WebhookDeliveryStatus, number> {
+    const counts: Record<WebhookDeliveryStatus, number> = { pending: 0, retrying: 0, delivered: 0, dead: 0 };
+    const result = this.db.exec(`SELECT status, COUNT(*) FROM webhook_deliveries GROUP BY status`);
+    if (result.length > 0) {
+      for (const [status, count] of result[0].values) {
+        counts[status as WebhookDeliveryStatus] = count;
+      }
+    }
+    return counts;
+  }
+
+  persist(): void {
+    this.databaseService.saveToFile();
+  }
+
+  // ============ MAPPERS ============
+
+  private mapRowToEndpoint(columns: string[], row: any[]): WebhookEndpoint {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      url: obj.url,
+      secret: obj.secret || undefined,
+      events: JSON.parse(obj.events_json),
+      enabled: obj.enabled === 1,
+      maxAttempts: obj.max_attempts || undefined,
+      headers: obj.headers_json ? JSON.parse(obj.headers_json) : undefined,
+    };
+  }
+
+  private mapRowToEvent(columns: string[], row: any[]): WebhookEvent {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      type: obj.type,
+      timestamp: new Date(obj.created_at),
+      data: JSON.parse(obj.data_json),
+      metadata: obj.metadata_json ? JSON.parse(obj.metadata_json) : undefined,
+    };
+  }
+
+  private mapRowToDelivery(columns: string[], row: any[]): WebhookDelivery {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    return {
+      id: obj.id,
+      eventId: obj.event_id,
+      endpointId: obj.endpoint_id,
+      status: obj.status,
+      attempts: obj.attempts,
+      maxAttempts: obj.max_attempts,
+      nextAttemptAt: obj.next_attempt_at ? new Date(obj.next_attempt_at) : undefined,
+      lastAttemptAt: obj.last_attempt_at ? new Date(obj.last_attempt_at) : undefined,
+      lastStatusCode: obj.last_status_code ?? undefined,
+      lastError: obj.last_error || undefined,
+      deliveredAt: obj.delivered_at ? new Date(obj.delivered_at) : undefined,
+      replayCount: obj.replay_count,
+      createdAt: new Date(obj.created_at),
+      updatedAt: new Date(obj.updated_at),
+    };
+  }
+}
@@ -1,6 +1,10 @@
-import { Controller, Get, Post, Delete, Body, Param, Query } from '@nestjs/common';
-import { WebhookService, WebhookEventType, WebhookEndpoint } from './webhook.service';
+import { Controller, Get, Post, Delete, Body, Param, Query, BadRequestException, NotFoundException } from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import { WEBHOOK_DELIVERY_STATUSES, WebhookDeliveryStatus, WebhookEventType } from './webhook.interfaces';
+import { Roles } from '../auth/auth.decorators';
 
+// Configuration des intégrations sortantes: réservé aux administrateurs
+@Roles('admin')
 @Controller('webhooks')
 export class WebhookController {
   constructor(private readonly webhookService: WebhookService) {}
@@ -32,6 +36,7 @@ export class WebhookController {
     secret?: string;
     events?: WebhookEventType[] | '*';
     enabled?: boolean;
+    maxAttempts?: number;
     headers?: Record<string, string>;
   }) {
     if (!body.url) {
@@ -44,7 +49,7 @@ export class WebhookController {
       events: body.events || '*',
       enabled: body.enabled !== false,
       headers: body.headers,
-      retryCount: 3,
+      maxAttempts: body.maxAttempts,
     });
 
     return {
@@ -100,21 +105,96 @@ export class WebhookController {
   }
 
   /**
-   * GET /webhooks/history
-   * Historique des événements envoyés
+   * GET /webhooks/history?endpoint=&status=&type=&rfqNumber=&from=&to=&limit=
+   * Historique des événements avec l'état de leurs livraisons
    */
   @Get('history')
-  getHistory(@Query('limit') limit?: string) {
-    const history = this.webhookService.getEventHistory(
-      limit ? parseInt(limit, 10) : 100
-    );
+  getHistory(
+    @Query('endpoint') endpointId?: string,
+    @Query('status') status?: string,
+    @Query('type') type?: string,
+    @Query('rfqNumber') rfqNumber?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+  ) {
+    this.validateFilters(status, type);
+
+    const history = this.webhookService.getEventHistory({
+      endpointId,
+      status: status as WebhookDeliveryStatus,
+      type: type as WebhookEventType,
+      rfqNumber,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      limit: limit ? parseInt(limit, 10) : 100,
+    });
     return {
       success: true,
+      deliveries: this.webhookService.getDeliveryStats(),
       count: history.length,
       data: history,
     };
   }
 
+  /**
+   * GET /webhooks/history/:eventId
+   * Détail d'un événement avec le journal des tentatives par endpoint
+   */
+  @Get('history/:eventId')
+  getEvent(@Param('eventId') eventId: string) {
+    const event = this.webhookService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundException(`Événement ${eventId} non trouvé`);
+    }
+    return { success: true, data: event };
+  }
+
+  /**
+   * GET /webhooks/dead-letter
+   * Événements dont une livraison a épuisé ses tentatives
+   */
+  @Get('dead-letter')
+  getDeadLetters(@Query('limit') limit?: string) {
+    const events = this.webhookService.getDeadLetters(limit ? parseInt(limit, 10) : 100);
+    return {
+      success: true,
+      count: events.length,
+      data: events,
+    };
+  }
+
+  /**
+   * POST /webhooks/replay
+   * Rejouer un événement (eventId) ou une plage de dates (from/to), éventuellement
+   * limité à un endpoint, un type ou un état de livraison (ex: dead)
+   */
+  @Post('replay')
+  replay(@Body() body: {
+    eventId?: string;
+    from?: string;
+    to?: string;
+    endpointId?: string;
+    type?: string;
+    status?: string;
+  }) {
+    this.validateFilters(body.status, body.type);
+
+    const result = this.webhookService.replay({
+      eventId: body.eventId,
+      from: body.from ? new Date(body.from) : undefined,
+      to: body.to ? new Date(body.to) : undefined,
+      endpointId: body.endpointId,
+      type: body.type as WebhookEventType,
+      status: body.status as WebhookDeliveryStatus,
+    });
+    return {
+      success: true,
+      message: `${result.deliveries} livraison(s) remise(s) en file pour ${result.events} événement(s)`,
+      data: result,
+    };
+  }
+
   /**
    * POST /webhooks/test
    * Envoyer un événement de test
@@ -147,6 +227,15 @@ export class WebhookController {
     };
   }
 
+  private validateFilters(status?: string, type?: string): void {
+    if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      throw new BadRequestException(`Statut invalide: ${status} (${WEBHOOK_DELIVERY_STATUSES.join(', ')})`);
+    }
+    if (type && !Object.values(WebhookEventType).includes(type as WebhookEventType)) {
+      throw new BadRequestException(`Type d'événement inconnu: ${type}`);
+    }
+  }
+
   /**
    * Description des événements
    */
@@ -165,11 +254,12 @@ export class WebhookController {
       [WebhookEventType.COMPARISON_CREATED]: 'Tableau comparatif créé',
       [WebhookEventType.COMPARISON_UPDATED]: 'Tableau comparatif mis à jour',
       [WebhookEventType.COMPARISON_COMPLETE]: 'Toutes les offres reçues',
+      [WebhookEventType.RFQ_AWARDED]: 'Demande attribuée, bons de commande générés',
       [WebhookEventType.REMINDER_SENT]: 'Relance envoyée au fournisseur',
       [WebhookEventType.REMINDER_FAILED]: 'Échec envoi relance',
       [WebhookEventType.REMINDER_MAX_REACHED]: 'Nombre maximum de relances atteint',
       [WebhookEventType.RFQ_STATUS_CHANGED]: 'Changement de statut de la demande',
-      [WebhookEventType.DEADLINE_APPROACHING]: 'Deadline proche (moins de 24h)',
+      [WebhookEventType.DEADLINE_APPROACHING]: 'Deadline proche (seuil d\'alerte franchi)',
       [WebhookEventType.DEADLINE_PASSED]: 'Deadline dépassée',
       [WebhookEventType.SYSTEM_ERROR]: 'Erreur système',
       [WebhookEventType.DAILY_SUMMARY]: 'Résumé quotidien',
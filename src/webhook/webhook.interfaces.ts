@@ -0,0 +1,154 @@
+/**
+ * Types d'événements webhook
+ */
+export enum WebhookEventType {
+  // Réception de demandes
+  RFQ_RECEIVED = 'rfq.received',                    // Nouvelle demande client reçue
+  RFQ_PROCESSED = 'rfq.processed',                  // Demande traitée avec succès
+  RFQ_PROCESSING_ERROR = 'rfq.processing_error',    // Erreur de traitement
+
+  // Accusés de réception
+  ACKNOWLEDGMENT_SENT = 'acknowledgment.sent',      // Accusé envoyé au client
+  ACKNOWLEDGMENT_FAILED = 'acknowledgment.failed',  // Échec envoi accusé
+
+  // Demandes aux fournisseurs
+  RFQ_SENT_TO_SUPPLIER = 'rfq.sent_to_supplier',    // Demande envoyée à un fournisseur
+  SUPPLIER_CONSULTED = 'supplier.consulted',        // Nouveau fournisseur consulté
+
+  // Réponses fournisseurs
+  QUOTE_RECEIVED = 'quote.received',                // Offre fournisseur reçue
+  QUOTE_DECLINED = 'quote.declined',                // Fournisseur a décliné
+  QUOTE_NEEDS_REVIEW = 'quote.needs_review',        // Offre nécessite révision manuelle
+
+  // Comparaison
+  COMPARISON_CREATED = 'comparison.created',        // Tableau comparatif créé
+  COMPARISON_UPDATED = 'comparison.updated',        // Tableau comparatif mis à jour
+  COMPARISON_COMPLETE = 'comparison.complete',      // Toutes les offres reçues
+
+  // Attribution
+  RFQ_AWARDED = 'rfq.awarded',                      // Fournisseur(s) retenu(s), bons de commande générés
+
+  // Relances
+  REMINDER_SENT = 'reminder.sent',                  // Relance envoyée
+  REMINDER_FAILED = 'reminder.failed',              // Échec envoi relance
+  REMINDER_MAX_REACHED = 'reminder.max_reached',    // Max relances atteint
+
+  // Suivi
+  RFQ_STATUS_CHANGED = 'rfq.status_changed',        // Changement de statut RFQ
+  DEADLINE_APPROACHING = 'deadline.approaching',    // Deadline proche (seuil franchi)
+  DEADLINE_PASSED = 'deadline.passed',              // Deadline dépassée
+
+  // Système
+  SYSTEM_ERROR = 'system.error',                    // Erreur système
+  DAILY_SUMMARY = 'daily.summary',                  // Résumé quotidien
+}
+
+/**
+ * Structure d'un événement webhook
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  timestamp: Date;
+  data: Record<string, any>;
+  metadata?: {
+    rfqNumber?: string;
+    clientEmail?: string;
+    supplierEmail?: string;
+    filePath?: string;
+  };
+}
+
+/**
+ * Configuration d'un endpoint webhook
+ */
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret?: string;
+  events: WebhookEventType[] | '*';  // '*' = tous les événements
+  enabled: boolean;
+  maxAttempts?: number;              // Tentatives avant lettre morte (défaut: webhook.maxAttempts)
+  headers?: Record<string, string>;
+}
+
+/**
+ * Résultat d'envoi webhook
+ */
+export interface WebhookDeliveryResult {
+  endpointId: string;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  duration?: number;
+}
+
+/**
+ * État d'une livraison: en attente, à retenter, livrée ou en lettre morte (tentatives épuisées)
+ */
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'dead';
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'retrying', 'delivered', 'dead'];
+
+/**
+ * Livraison d'un événement à un endpoint (outbox)
+ */
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  endpointId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  replayCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Journal des tentatives de livraison (append-only)
+ */
+export interface WebhookDeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  attempt: number;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  attemptedAt: Date;
+}
+
+/**
+ * Événement de l'historique avec ses livraisons
+ */
+export interface WebhookEventRecord extends WebhookEvent {
+  deliveries: WebhookDelivery[];
+}
+
+export interface WebhookHistoryFilters {
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+  type?: WebhookEventType;
+  rfqNumber?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Rejeu: un événement précis ou une plage de dates, vers un endpoint ou tous ceux abonnés
+ */
+export interface WebhookReplayRequest {
+  eventId?: string;
+  from?: Date;
+  to?: Date;
+  endpointId?: string;
+  type?: WebhookEventType;
+  status?: WebhookDeliveryStatus; // ne rejouer que les livraisons dans cet état (ex: dead)
+}
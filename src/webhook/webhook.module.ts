@@ -1,13 +1,15 @@
 import { Module, Global } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { DatabaseModule } from '../database/database.module';
 import { WebhookService } from './webhook.service';
+import { WebhookDatabaseService } from './webhook-database.service';
 import { WebhookController } from './webhook.controller';
 
 @Global() // Rendre le service disponible globalement
 @Module({
-  imports: [ConfigModule],
-  providers: [WebhookService],
+  imports: [ConfigModule, DatabaseModule],
+  providers: [WebhookService, WebhookDatabaseService],
   controllers: [WebhookController],
-  exports: [WebhookService],
+  exports: [WebhookService, WebhookDatabaseService],
 })
 export class WebhookModule {}
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as initSqlJs from 'sql.js';
+import axios from 'axios';
+import { WebhookService } from './webhook.service';
+import { WebhookDatabaseService } from './webhook-database.service';
+import { WebhookEventType } from './webhook.interfaces';
+import { DatabaseService } from '../database/database.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+
+jest.mock('axios');
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let webhookDb: WebhookDatabaseService;
+  let post: jest.Mock;
+
+  const MINUTE_MS = 60 * 1000;
+
+  const failing = (status = 503) => Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    const config: Record<string, any> = {
+      'app.outputDir': '/nonexistent',
+      'webhook.defaultUrl': 'https://n8n.example.com/hook',
+      'webhook.secret': 'top-secret',
+      'webhook.maxAttempts': 3,
+      'webhook.backoffSeconds': 60,
+      'webhook.maxBackoffMinutes': 360,
+    };
+    post = jest.fn().mockResolvedValue({ status: 200 });
+    (axios.create as jest.Mock).mockReturnValue({ post });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        WebhookDatabaseService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+          },
+        },
+        { provide: DatabaseService, useValue: { db: new SQL.Database(), saveToFile: jest.fn() } },
+        { provide: JobQueueService, useValue: { registerHandler: jest.fn(), schedule: jest.fn() } },
+      ],
+    }).compile();
+
+    await module.init();
+    service = module.get<WebhookService>(WebhookService);
+    webhookDb = module.get<WebhookDatabaseService>(WebhookDatabaseService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should store the event in the outbox and sign the delivery with and without timestamp', async () => {
+    const results = await service.emit(WebhookEventType.RFQ_RECEIVED, { rfqNumber: 'DDP-1' }, { rfqNumber: 'DDP-1' });
+
+    expect(results).toEqual([expect.objectContaining({ endpointId: 'default', success: true, statusCode: 200 })]);
+    const [url, payload, { headers }] = post.mock.calls[0];
+    expect(url).toBe('https://n8n.example.com/hook');
+    expect(headers['X-Webhook-Signature']).toBe(crypto.createHmac('sha256', 'top-secret').update(payload).digest('hex'));
+
+    const [, t, v1] = headers['X-Webhook-Signature-Timestamped'].match(/^t=(\d+),v1=([a-f0-9]+)$/);
+    expect(v1).toBe(crypto.createHmac('sha256', 'top-secret').update(`${t}.${payload}`).digest('hex'));
+    expect(headers['X-Webhook-Attempt']).toBe('1');
+
+    const [record] = service.getEventHistory({ rfqNumber: 'DDP-1' });
+    expect(record.id).toBe(JSON.parse(payload).id);
+    expect(record.deliveries).toEqual([expect.objectContaining({ status: 'delivered', attempts: 1 })]);
+  });
+
+  it('should retry failed deliveries with exponential backoff then move them to the dead letter queue', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T10:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    post.mockRejectedValue(failing());
+
+    await service.emit(WebhookEventType.QUOTE_RECEIVED, { rfqNumber: 'DDP-2' }, { rfqNumber: 'DDP-2' });
+    const [event] = service.getEventHistory();
+    expect(event.deliveries[0]).toMatchObject({ status: 'retrying', attempts: 1, lastStatusCode: 503 });
+    expect(event.deliveries[0].nextAttemptAt).toEqual(new Date(Date.now() + MINUTE_MS));
+
+    expect((await service.processDueDeliveries()).attempted).toBe(0);
+
+    jest.advanceTimersByTime(MINUTE_MS);
+    await service.processDueDeliveries();
+    expect(webhookDb.getDeliveriesForEvent(event.id)[0].nextAttemptAt).toEqual(new Date(Date.now() + 2 * MINUTE_MS));
+
+    jest.advanceTimersByTime(2 * MINUTE_MS);
+    const last = await service.processDueDeliveries();
+    expect(last).toMatchObject({ attempted: 1, dead: 1 });
+
+    const detail = service.getEvent(event.id)!;
+    expect(detail.deliveries[0]).toMatchObject({ status: 'dead', attempts: 3 });
+    expect(detail.deliveries[0].attemptLog.map(a => a.attempt)).toEqual([1, 2, 3]);
+    expect(service.getDeadLetters().map(e => e.id)).toEqual([event.id]);
+    expect(service.getEventHistory({ status: 'retrying' })).toHaveLength(0);
+  });
+
+  it('should cap the backoff delay', () => {
+    expect(service.backoffDelayMs(1)).toBe(MINUTE_MS);
+    expect(service.backoffDelayMs(4)).toBe(8 * MINUTE_MS);
+    expect(service.backoffDelayMs(12)).toBe(360 * MINUTE_MS);
+  });
+
+  it('should replay dead letters by event id or time range to subscribed endpoints', async () => {
+    post.mockRejectedValue(failing());
+    const endpointId = service.addEndpoint({ url: 'https://erp.example.com/hook', events: [WebhookEventType.RFQ_AWARDED], enabled: true, maxAttempts: 1 });
+    await service.emit(WebhookEventType.RFQ_AWARDED, { rfqNumber: 'DDP-3' }, { rfqNumber: 'DDP-3' });
+    await service.emit(WebhookEventType.RFQ_RECEIVED, { rfqNumber: 'DDP-4' }, { rfqNumber: 'DDP-4' });
+
+    const [awarded] = service.getEventHistory({ endpointId });
+    expect(awarded.deliveries.find(d => d.endpointId === endpointId)?.status).toBe('dead');
+    expect(service.getEventHistory({ endpointId, type: WebhookEventType.RFQ_RECEIVED })).toHaveLength(0);
+
+    post.mockResolvedValue({ status: 204 });
+    expect(service.replay({ eventId: awarded.id, endpointId, status: 'dead' })).toEqual({ events: 1, deliveries: 1 });
+    await service.processDueDeliveries();
+
+    const delivery = webhookDb.getDelivery(awarded.id, endpointId)!;
+    expect(delivery).toMatchObject({ status: 'delivered', replayCount: 1, attempts: 1 });
+
+    const range = service.replay({ from: new Date(Date.now() - MINUTE_MS), to: new Date(Date.now() + MINUTE_MS) });
+    expect(range).toEqual({ events: 2, deliveries: 3 });
+    expect(() => service.replay({ eventId: 'evt_inconnu' })).toThrow(NotFoundException);
+  });
+
+  it('should dead-letter deliveries of a removed endpoint and hold those of a disabled one', async () => {
+    post.mockRejectedValue(failing());
+    const removedId = service.addEndpoint({ url: 'https://old.example.com/hook', events: '*', enabled: true });
+    await service.emit(WebhookEventType.SYSTEM_ERROR, { error: 'boom' });
+    service.removeEndpoint(removedId);
+    service.toggleEndpoint('default', false);
+
+    const [event] = service.getEventHistory();
+    webhookDb.getDeliveriesForEvent(event.id).forEach(d => webhookDb.claimDelivery(d.id, new Date(0)));
+    const result = await service.processDueDeliveries();
+
+    expect(result).toMatchObject({ attempted: 0, dead: 1 });
+    expect(webhookDb.getDelivery(event.id, removedId)).toMatchObject({ status: 'dead', lastError: 'Endpoint supprimé' });
+    expect(webhookDb.getDelivery(event.id, 'default')).toMatchObject({ status: 'retrying', attempts: 1 });
+  });
+});
@@ -1,100 +1,59 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, NotFoundException, OnApplicationBootstrap, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance } from 'axios';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-
-/**
- * Types d'événements webhook
- */
-export enum WebhookEventType {
-  // Réception de demandes
-  RFQ_RECEIVED = 'rfq.received',                    // Nouvelle demande client reçue
-  RFQ_PROCESSED = 'rfq.processed',                  // Demande traitée avec succès
-  RFQ_PROCESSING_ERROR = 'rfq.processing_error',    // Erreur de traitement
-  
-  // Accusés de réception
-  ACKNOWLEDGMENT_SENT = 'acknowledgment.sent',      // Accusé envoyé au client
-  ACKNOWLEDGMENT_FAILED = 'acknowledgment.failed',  // Échec envoi accusé
-  
-  // Demandes aux fournisseurs
-  RFQ_SENT_TO_SUPPLIER = 'rfq.sent_to_supplier',    // Demande envoyée à un fournisseur
-  SUPPLIER_CONSULTED = 'supplier.consulted',        // Nouveau fournisseur consulté
-  
-  // Réponses fournisseurs
-  QUOTE_RECEIVED = 'quote.received',                // Offre fournisseur reçue
-  QUOTE_DECLINED = 'quote.declined',                // Fournisseur a décliné
-  QUOTE_NEEDS_REVIEW = 'quote.needs_review',        // Offre nécessite révision manuelle
-  
-  // Comparaison
-  COMPARISON_CREATED = 'comparison.created',        // Tableau comparatif créé
-  COMPARISON_UPDATED = 'comparison.updated',        // Tableau comparatif mis à jour
-  COMPARISON_COMPLETE = 'comparison.complete',      // Toutes les offres reçues
-  
-  // Relances
-  REMINDER_SENT = 'reminder.sent',                  // Relance envoyée
-  REMINDER_FAILED = 'reminder.failed',              // Échec envoi relance
-  REMINDER_MAX_REACHED = 'reminder.max_reached',    // Max relances atteint
-  
-  // Suivi
-  RFQ_STATUS_CHANGED = 'rfq.status_changed',        // Changement de statut RFQ
-  DEADLINE_APPROACHING = 'deadline.approaching',    // Deadline proche (24h)
-  DEADLINE_PASSED = 'deadline.passed',              // Deadline dépassée
-  
-  // Système
-  SYSTEM_ERROR = 'system.error',                    // Erreur système
-  DAILY_SUMMARY = 'daily.summary',                  // Résumé quotidien
-}
-
-/**
- * Structure d'un événement webhook
- */
-export interface WebhookEvent {
-  id: string;
-  type: WebhookEventType;
-  timestamp: Date;
-  data: Record<string, any>;
-  metadata?: {
-    rfqNumber?: string;
-    clientEmail?: string;
-    supplierEmail?: string;
-    filePath?: string;
-  };
-}
-
-/**
- * Configuration d'un endpoint webhook
- */
-export interface WebhookEndpoint {
-  id: string;
-  url: string;
-  secret?: string;
-  events: WebhookEventType[] | '*';  // '*' = tous les événements
-  enabled: boolean;
-  retryCount?: number;
-  headers?: Record<string, string>;
+import { WebhookDatabaseService } from './webhook-database.service';
+import { JobQueueService } from '../jobs/job-queue.service';
+import {
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryResult,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventRecord,
+  WebhookEventType,
+  WebhookHistoryFilters,
+  WebhookReplayRequest,
+} from './webhook.interfaces';
+
+export * from './webhook.interfaces';
+
+export const WEBHOOK_DELIVERY_JOB = 'webhook.deliveries';
+
+// Réservation d'une livraison pendant la tentative (timeout HTTP 10s par envoi)
+const CLAIM_MS = 10 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+export interface WebhookProcessingResult {
+  attempted: number;
+  delivered: number;
+  failed: number;
+  dead: number;
+  pruned: number;
 }
 
 /**
- * Résultat d'envoi webhook
+ * WebhookService
+ *
+ * Chaque événement est enregistré dans l'outbox (webhook_events) avant toute livraison,
+ * avec une livraison par endpoint abonné. Un premier envoi est tenté immédiatement; en cas
+ * d'échec la tâche webhook.deliveries retente avec un backoff exponentiel
+ * (backoffSeconds × 2^(essais - 1), plafonné à maxBackoffMinutes) jusqu'à maxAttempts,
+ * puis la livraison passe en lettre morte. Les livraisons peuvent être rejouées.
  */
-export interface WebhookDeliveryResult {
-  endpointId: string;
-  success: boolean;
-  statusCode?: number;
-  error?: string;
-  duration?: number;
-}
-
 @Injectable()
-export class WebhookService {
+export class WebhookService implements OnModuleInit, OnApplicationBootstrap {
   private readonly logger = new Logger(WebhookService.name);
-  private endpoints: WebhookEndpoint[] = [];
   private httpClient: AxiosInstance;
-  private readonly configFilePath: string;
-  private readonly logFilePath: string;
+  private processing: Promise<WebhookProcessingResult> | null = null;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly webhookDb: WebhookDatabaseService,
+    private readonly jobQueue: JobQueueService,
+  ) {
     this.httpClient = axios.create({
       timeout: 10000, // 10 secondes
       headers: {
@@ -102,103 +61,109 @@ export class WebhookService {
         'User-Agent': 'MultipartsCI-RFQ-Processor/1.0',
       },
     });
+  }
 
-    const dataDir = this.configService.get<string>('app.outputDir', './output');
-    this.configFilePath = path.join(dataDir, 'webhook-config.json');
-    this.logFilePath = path.join(dataDir, 'webhook-log.json');
-    
-    this.loadEndpoints();
+  onModuleInit() {
+    this.jobQueue.registerHandler(WEBHOOK_DELIVERY_JOB, () => this.processDueDeliveries());
+    this.jobQueue.schedule(WEBHOOK_DELIVERY_JOB, {
+      intervalMinutes: this.configService.get<number>('webhook.retryIntervalMinutes', 1),
+    });
   }
 
   /**
-   * Charger les endpoints depuis la configuration
+   * La base n'est ouverte qu'après l'initialisation de WebhookModule
+   */
+  onApplicationBootstrap() {
+    if (this.webhookDb.ensureTables()) {
+      this.loadEndpoints();
+    }
+  }
+
+  /**
+   * Charger les endpoints: import unique de l'ancien fichier webhook-config.json,
+   * puis endpoint par défaut depuis .env
    */
   private loadEndpoints(): void {
     try {
-      // Charger depuis le fichier de config
-      if (fs.existsSync(this.configFilePath)) {
-        const data = JSON.parse(fs.readFileSync(this.configFilePath, 'utf-8'));
-        this.endpoints = data.endpoints || [];
+      const dataDir = this.configService.get<string>('app.outputDir', './output');
+      const configFilePath = path.join(dataDir, 'webhook-config.json');
+
+      if (this.webhookDb.getEndpoints().length === 0 && fs.existsSync(configFilePath)) {
+        const data = JSON.parse(fs.readFileSync(configFilePath, 'utf-8'));
+        for (const endpoint of data.endpoints || []) {
+          this.webhookDb.saveEndpoint({
+            id: endpoint.id,
+            url: endpoint.url,
+            secret: endpoint.secret,
+            events: endpoint.events || '*',
+            enabled: endpoint.enabled !== false,
+            headers: endpoint.headers,
+          });
+        }
+        this.logger.log(`${(data.endpoints || []).length} endpoint(s) importé(s) depuis ${configFilePath}`);
       }
 
-      // Ajouter l'endpoint par défaut depuis .env si configuré
+      // Endpoint par défaut depuis .env (l'URL et le secret suivent la configuration)
       const defaultUrl = this.configService.get<string>('webhook.defaultUrl');
-      if (defaultUrl && !this.endpoints.find(e => e.url === defaultUrl)) {
-        this.endpoints.push({
-          id: 'default',
-          url: defaultUrl,
-          secret: this.configService.get<string>('webhook.secret'),
-          events: '*',
-          enabled: true,
-          retryCount: 3,
-        });
+      if (defaultUrl) {
+        const existing = this.webhookDb.getEndpoint('default');
+        const sameUrl = this.webhookDb.getEndpoints().find(e => e.url === defaultUrl && e.id !== 'default');
+        if (existing || !sameUrl) {
+          this.webhookDb.saveEndpoint({
+            events: '*',
+            enabled: true,
+            ...existing,
+            id: 'default',
+            url: defaultUrl,
+            secret: this.configService.get<string>('webhook.secret') || undefined,
+          });
+        }
       }
 
-      this.logger.log(`${this.endpoints.filter(e => e.enabled).length} endpoint(s) webhook configuré(s)`);
+      this.logger.log(`${this.listEndpoints().filter(e => e.enabled).length} endpoint(s) webhook configuré(s)`);
     } catch (error) {
       this.logger.warn(`Erreur chargement config webhook: ${error.message}`);
     }
   }
 
-  /**
-   * Sauvegarder la configuration des endpoints
-   */
-  private saveEndpoints(): void {
-    try {
-      const dir = path.dirname(this.configFilePath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      fs.writeFileSync(this.configFilePath, JSON.stringify({ endpoints: this.endpoints }, null, 2));
-    } catch (error) {
-      this.logger.error(`Erreur sauvegarde config webhook: ${error.message}`);
-    }
-  }
+  // ============ ENDPOINTS ============
 
   /**
    * Ajouter un endpoint webhook
    */
   addEndpoint(endpoint: Omit<WebhookEndpoint, 'id'>): string {
     const id = `webhook_${Date.now()}`;
-    this.endpoints.push({ ...endpoint, id });
-    this.saveEndpoints();
+    this.webhookDb.saveEndpoint({ ...endpoint, id });
     this.logger.log(`Endpoint webhook ajouté: ${id} → ${endpoint.url}`);
     return id;
   }
 
   /**
-   * Supprimer un endpoint webhook
+   * Supprimer un endpoint webhook (ses livraisons en attente passent en lettre morte au prochain passage)
    */
   removeEndpoint(id: string): boolean {
-    const index = this.endpoints.findIndex(e => e.id === id);
-    if (index >= 0) {
-      this.endpoints.splice(index, 1);
-      this.saveEndpoints();
-      return true;
-    }
-    return false;
+    return this.webhookDb.deleteEndpoint(id);
   }
 
   /**
-   * Activer/désactiver un endpoint
+   * Activer/désactiver un endpoint (les livraisons d'un endpoint désactivé sont suspendues)
    */
   toggleEndpoint(id: string, enabled: boolean): boolean {
-    const endpoint = this.endpoints.find(e => e.id === id);
-    if (endpoint) {
-      endpoint.enabled = enabled;
-      this.saveEndpoints();
-      return true;
-    }
-    return false;
+    const endpoint = this.webhookDb.getEndpoint(id);
+    if (!endpoint) return false;
+    this.webhookDb.saveEndpoint({ ...endpoint, enabled });
+    return true;
   }
 
   /**
    * Lister les endpoints
    */
   listEndpoints(): WebhookEndpoint[] {
-    return this.endpoints;
+    return this.webhookDb.getEndpoints();
   }
 
+  // ============ ÉMISSION ============
+
   /**
    * Générer un ID d'événement unique
    */
@@ -210,12 +175,36 @@ export class WebhookService {
    * Créer la signature HMAC pour la sécurité
    */
   private createSignature(payload: string, secret: string): string {
-    const crypto = require('crypto');
     return crypto.createHmac('sha256', secret).update(payload).digest('hex');
   }
 
   /**
-   * Envoyer un événement à tous les endpoints concernés
+   * Signature horodatée "t=<secondes unix>,v1=<hmac de t.payload>": le destinataire
+   * rejette les envois trop anciens (protection contre le rejeu)
+   */
+  createTimestampedSignature(payload: string, secret: string, timestamp: number): string {
+    return `t=${timestamp},v1=${this.createSignature(`${timestamp}.${payload}`, secret)}`;
+  }
+
+  private isSubscribed(endpoint: WebhookEndpoint, type: WebhookEventType): boolean {
+    return endpoint.events === '*' || endpoint.events.includes(type);
+  }
+
+  private maxAttemptsFor(endpoint: WebhookEndpoint): number {
+    return endpoint.maxAttempts || this.configService.get<number>('webhook.maxAttempts', 10);
+  }
+
+  /**
+   * Délai avant la prochaine tentative: backoffSeconds × 2^(essais - 1), plafonné
+   */
+  backoffDelayMs(attempts: number): number {
+    const backoffSeconds = this.configService.get<number>('webhook.backoffSeconds', 60);
+    const maxBackoffMinutes = this.configService.get<number>('webhook.maxBackoffMinutes', 360);
+    return Math.min(backoffSeconds * 1000 * Math.pow(2, Math.max(0, attempts - 1)), maxBackoffMinutes * 60 * 1000);
+  }
+
+  /**
+   * Enregistrer l'événement dans l'outbox puis tenter un premier envoi à chaque endpoint concerné
    */
   async emit(type: WebhookEventType, data: Record<string, any>, metadata?: WebhookEvent['metadata']): Promise<WebhookDeliveryResult[]> {
     const event: WebhookEvent = {
@@ -226,134 +215,252 @@ export class WebhookService {
       metadata,
     };
 
-    const results: WebhookDeliveryResult[] = [];
-
-    // Filtrer les endpoints concernés par cet événement
-    const targetEndpoints = this.endpoints.filter(ep => {
-      if (!ep.enabled) return false;
-      if (ep.events === '*') return true;
-      return ep.events.includes(type);
-    });
+    let targets: { endpoint: WebhookEndpoint; delivery: WebhookDelivery }[];
+    try {
+      this.webhookDb.insertEvent(event);
+
+      // Filtrer les endpoints concernés par cet événement
+      const claimedUntil = new Date(Date.now() + CLAIM_MS);
+      targets = this.listEndpoints()
+        .filter(ep => ep.enabled && this.isSubscribed(ep, type))
+        .map(endpoint => {
+          const delivery = this.webhookDb.queueDelivery(event.id, endpoint.id, this.maxAttemptsFor(endpoint));
+          this.webhookDb.claimDelivery(delivery.id, claimedUntil);
+          return { endpoint, delivery };
+        });
+      this.webhookDb.persist();
+    } catch (error) {
+      this.logger.error(`Erreur enregistrement webhook ${type}: ${error.message}`);
+      return [];
+    }
 
-    if (targetEndpoints.length === 0) {
+    if (targets.length === 0) {
       this.logger.debug(`Aucun endpoint pour l'événement ${type}`);
-      return results;
+      return [];
     }
 
-    // Envoyer à chaque endpoint
-    for (const endpoint of targetEndpoints) {
-      const result = await this.sendToEndpoint(endpoint, event);
-      results.push(result);
+    const results: WebhookDeliveryResult[] = [];
+    for (const { endpoint, delivery } of targets) {
+      results.push(await this.attemptDelivery(delivery, endpoint, event));
     }
-
-    // Logger l'événement
-    this.logEvent(event, results);
-
     return results;
   }
 
   /**
-   * Envoyer un événement à un endpoint spécifique
+   * Tenter une livraison et enregistrer le résultat (livrée, à retenter ou lettre morte)
    */
-  private async sendToEndpoint(endpoint: WebhookEndpoint, event: WebhookEvent): Promise<WebhookDeliveryResult> {
+  private async attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint, event: WebhookEvent): Promise<WebhookDeliveryResult> {
     const startTime = Date.now();
     const payload = JSON.stringify(event);
-    const maxRetries = endpoint.retryCount || 3;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const headers: Record<string, string> = {
-          ...endpoint.headers,
-          'X-Webhook-Event': event.type,
-          'X-Webhook-ID': event.id,
-          'X-Webhook-Timestamp': event.timestamp.toISOString(),
-        };
-
-        // Ajouter la signature si un secret est configuré
-        if (endpoint.secret) {
-          headers['X-Webhook-Signature'] = this.createSignature(payload, endpoint.secret);
-        }
+    const attempt = delivery.attempts + 1;
+    let outcome: { success: boolean; statusCode?: number; error?: string; durationMs: number };
 
-        const response = await this.httpClient.post(endpoint.url, event, { headers });
-
-        this.logger.log(`✅ Webhook envoyé: ${event.type} → ${endpoint.url} (${response.status})`);
+    try {
+      const headers: Record<string, string> = {
+        ...endpoint.headers,
+        'X-Webhook-Event': event.type,
+        'X-Webhook-ID': event.id,
+        'X-Webhook-Timestamp': event.timestamp.toISOString(),
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Attempt': String(attempt),
+      };
+
+      // Ajouter la signature si un secret est configuré
+      if (endpoint.secret) {
+        headers['X-Webhook-Signature'] = this.createSignature(payload, endpoint.secret);
+        headers['X-Webhook-Signature-Timestamped'] = this.createTimestampedSignature(
+          payload,
+          endpoint.secret,
+          Math.floor(Date.now() / 1000),
+        );
+      }
 
-        return {
-          endpointId: endpoint.id,
-          success: true,
-          statusCode: response.status,
-          duration: Date.now() - startTime,
-        };
+      const response = await this.httpClient.post(endpoint.url, payload, { headers });
+      outcome = { success: true, statusCode: response.status, durationMs: Date.now() - startTime };
+      this.logger.log(`✅ Webhook envoyé: ${event.type} → ${endpoint.url} (${response.status})`);
+    } catch (error: any) {
+      outcome = {
+        success: false,
+        statusCode: error.response?.status,
+        error: error.message,
+        durationMs: Date.now() - startTime,
+      };
+    }
 
-      } catch (error: any) {
-        const statusCode = error.response?.status;
-        const errorMessage = error.message;
+    let next: { status: WebhookDelivery['status']; nextAttemptAt?: Date };
+    if (outcome.success) {
+      next = { status: 'delivered' };
+    } else if (attempt >= delivery.maxAttempts) {
+      next = { status: 'dead' };
+      this.logger.error(`❌ Webhook en lettre morte après ${attempt} tentative(s): ${event.type} → ${endpoint.url} - ${outcome.error}`);
+    } else {
+      next = { status: 'retrying', nextAttemptAt: new Date(Date.now() + this.backoffDelayMs(attempt)) };
+      this.logger.warn(`Webhook tentative ${attempt}/${delivery.maxAttempts} échouée: ${endpoint.url} - ${outcome.error}, reprise à ${next.nextAttemptAt!.toISOString()}`);
+    }
 
-        if (attempt < maxRetries) {
-          this.logger.warn(`Webhook retry ${attempt}/${maxRetries}: ${endpoint.url} - ${errorMessage}`);
-          await new Promise(resolve => setTimeout(resolve, 1000 * attempt)); // Backoff exponentiel
-        } else {
-          this.logger.error(`❌ Webhook échoué après ${maxRetries} tentatives: ${endpoint.url}`);
-          return {
-            endpointId: endpoint.id,
-            success: false,
-            statusCode,
-            error: errorMessage,
-            duration: Date.now() - startTime,
-          };
-        }
-      }
+    try {
+      this.webhookDb.recordAttempt(delivery, outcome, next);
+    } catch (error) {
+      this.logger.error(`Erreur enregistrement tentative webhook ${delivery.id}: ${error.message}`);
     }
 
     return {
       endpointId: endpoint.id,
-      success: false,
-      error: 'Max retries exceeded',
-      duration: Date.now() - startTime,
+      success: outcome.success,
+      statusCode: outcome.statusCode,
+      error: outcome.error,
+      duration: outcome.durationMs,
     };
   }
 
+  // ============ RELIVRAISON ============
+
   /**
-   * Logger les événements pour historique
+   * Tâche webhook.deliveries: retenter les livraisons arrivées à échéance.
+   * Un seul passage à la fois; un appel concurrent attend le passage en cours.
    */
-  private logEvent(event: WebhookEvent, results: WebhookDeliveryResult[]): void {
-    try {
-      let logs: any[] = [];
-      
-      if (fs.existsSync(this.logFilePath)) {
-        logs = JSON.parse(fs.readFileSync(this.logFilePath, 'utf-8'));
-      }
+  processDueDeliveries(): Promise<WebhookProcessingResult> {
+    if (!this.processing) {
+      this.processing = this.runDueDeliveries().finally(() => {
+        this.processing = null;
+      });
+    }
+    return this.processing;
+  }
+
+  private async runDueDeliveries(): Promise<WebhookProcessingResult> {
+    const result: WebhookProcessingResult = { attempted: 0, delivered: 0, failed: 0, dead: 0, pruned: 0 };
+    const endpoints = new Map(this.listEndpoints().map(ep => [ep.id, ep]));
+    const suspendedUntil = () => new Date(Date.now() + this.backoffDelayMs(1));
+
+    let batch = this.webhookDb.getDueDeliveries(new Date(), BATCH_SIZE);
+    while (batch.length > 0) {
+      const claimedUntil = new Date(Date.now() + CLAIM_MS);
+      batch.forEach(delivery => this.webhookDb.claimDelivery(delivery.id, claimedUntil));
+
+      for (const delivery of batch) {
+        const endpoint = endpoints.get(delivery.endpointId);
+        const event = this.webhookDb.getEvent(delivery.eventId);
+
+        if (!endpoint || !event) {
+          this.webhookDb.markDeliveryDead(delivery.id, !endpoint ? 'Endpoint supprimé' : 'Événement introuvable');
+          result.dead++;
+          continue;
+        }
+        if (!endpoint.enabled) {
+          // Endpoint désactivé: livraison suspendue sans consommer de tentative
+          this.webhookDb.claimDelivery(delivery.id, suspendedUntil());
+          continue;
+        }
 
-      // Garder seulement les 1000 derniers événements
-      if (logs.length >= 1000) {
-        logs = logs.slice(-900);
+        const outcome = await this.attemptDelivery(delivery, endpoint, event);
+        result.attempted++;
+        if (outcome.success) {
+          result.delivered++;
+        } else if (delivery.attempts + 1 >= delivery.maxAttempts) {
+          result.dead++;
+        } else {
+          result.failed++;
+        }
       }
+      this.webhookDb.persist();
+      batch = this.webhookDb.getDueDeliveries(new Date(), BATCH_SIZE);
+    }
 
-      logs.push({
-        event,
-        results,
-        timestamp: new Date().toISOString(),
-      });
+    const retentionDays = this.configService.get<number>('webhook.retentionDays', 30);
+    if (retentionDays > 0) {
+      result.pruned = this.webhookDb.pruneDeliveredEvents(new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000));
+    }
 
-      fs.writeFileSync(this.logFilePath, JSON.stringify(logs, null, 2));
-    } catch (error) {
-      this.logger.debug(`Erreur log webhook: ${error.message}`);
+    if (result.attempted > 0 || result.dead > 0) {
+      this.logger.log(`Webhooks relivrés: ${result.delivered}/${result.attempted} (${result.dead} en lettre morte)`);
     }
+    return result;
   }
 
   /**
-   * Obtenir l'historique des événements
+   * Rejouer un événement précis ou les événements d'une plage de dates,
+   * vers un endpoint ou tous les endpoints abonnés
    */
-  getEventHistory(limit = 100): any[] {
-    try {
-      if (fs.existsSync(this.logFilePath)) {
-        const logs = JSON.parse(fs.readFileSync(this.logFilePath, 'utf-8'));
-        return logs.slice(-limit).reverse();
+  replay(request: WebhookReplayRequest): { events: number; deliveries: number } {
+    if (!request.eventId && !request.from && !request.to) {
+      throw new BadRequestException('eventId ou plage de dates (from/to) requis');
+    }
+
+    let events: WebhookEvent[];
+    if (request.eventId) {
+      const event = this.webhookDb.getEvent(request.eventId);
+      if (!event) throw new NotFoundException(`Événement ${request.eventId} introuvable`);
+      events = [event];
+    } else {
+      events = this.webhookDb.findEvents({ from: request.from, to: request.to, type: request.type });
+    }
+
+    // Sans endpoint précis, seuls les endpoints actifs sont visés
+    let endpoints = this.listEndpoints();
+    if (request.endpointId) {
+      endpoints = endpoints.filter(ep => ep.id === request.endpointId);
+      if (endpoints.length === 0) throw new NotFoundException(`Endpoint ${request.endpointId} introuvable`);
+    } else {
+      endpoints = endpoints.filter(ep => ep.enabled);
+    }
+
+    let replayedEvents = 0;
+    let deliveries = 0;
+    for (const event of events) {
+      let queued = 0;
+      for (const endpoint of endpoints) {
+        if (!this.isSubscribed(endpoint, event.type)) continue;
+        if (request.status && this.webhookDb.getDelivery(event.id, endpoint.id)?.status !== request.status) continue;
+
+        this.webhookDb.queueDelivery(event.id, endpoint.id, this.maxAttemptsFor(endpoint), true);
+        queued++;
       }
-    } catch (error) {
-      this.logger.debug(`Erreur lecture log webhook: ${error.message}`);
+      if (queued > 0) replayedEvents++;
+      deliveries += queued;
+    }
+
+    if (deliveries > 0) {
+      this.webhookDb.persist();
+      this.logger.log(`🔁 Rejeu webhook: ${deliveries} livraison(s) pour ${replayedEvents} événement(s)`);
+      this.processDueDeliveries().catch(error => this.logger.error(`Erreur rejeu webhook: ${error.message}`));
     }
-    return [];
+    return { events: replayedEvents, deliveries };
+  }
+
+  // ============ HISTORIQUE ============
+
+  /**
+   * Historique des événements avec leurs livraisons (plus récents d'abord)
+   */
+  getEventHistory(filters: WebhookHistoryFilters = {}): WebhookEventRecord[] {
+    return this.webhookDb.getEventHistory(filters);
+  }
+
+  /**
+   * Détail d'un événement: livraisons et journal des tentatives
+   */
+  getEvent(id: string): (WebhookEvent & { deliveries: (WebhookDelivery & { attemptLog: WebhookDeliveryAttempt[] })[] }) | undefined {
+    const event = this.webhookDb.getEvent(id);
+    if (!event) return undefined;
+    return {
+      ...event,
+      deliveries: this.webhookDb.getDeliveriesForEvent(id).map(delivery => ({
+        ...delivery,
+        attemptLog: this.webhookDb.getAttempts(delivery.id),
+      })),
+    };
+  }
+
+  /**
+   * Lettres mortes: événements dont au moins une livraison a épuisé ses tentatives
+   */
+  getDeadLetters(limit = 100): WebhookEventRecord[] {
+    return this.webhookDb.getEventHistory({ status: 'dead', limit });
+  }
+
+  getDeliveryStats() {
+    return this.webhookDb.countDeliveriesByStatus();
   }
 
   // ============================================
@@ -435,6 +542,19 @@ export class WebhookService {
     }, { rfqNumber, filePath });
   }
 
+  async emitRfqAwarded(
+    rfqNumber: string,
+    purchaseOrders: { poNumber: string; supplierEmail: string; totalAmount?: number; currency?: string }[],
+    notifiedSuppliers: string[],
+  ): Promise<void> {
+    await this.emit(WebhookEventType.RFQ_AWARDED, {
+      rfqNumber,
+      purchaseOrders,
+      notifiedSuppliers,
+      awardedAt: new Date().toISOString(),
+    }, { rfqNumber });
+  }
+
   async emitReminderSent(rfqNumber: string, supplierEmail: string, reminderCount: number): Promise<void> {
     await this.emit(WebhookEventType.REMINDER_SENT, {
       rfqNumber,
@@ -453,17 +573,37 @@ export class WebhookService {
     }, { rfqNumber });
   }
 
-  async emitDeadlineApproaching(rfqNumber: string, deadline: Date, hoursRemaining: number): Promise<void> {
+  async emitDeadlineApproaching(
+    rfqNumber: string,
+    deadline: Date,
+    hoursRemaining: number,
+    details: Record<string, any> = {},
+  ): Promise<void> {
     await this.emit(WebhookEventType.DEADLINE_APPROACHING, {
       rfqNumber,
       deadline: deadline.toISOString(),
       hoursRemaining,
-    }, { rfqNumber });
+      ...details,
+    }, { rfqNumber, clientEmail: details.clientEmail });
+  }
+
+  async emitDeadlinePassed(
+    rfqNumber: string,
+    deadline: Date,
+    hoursOverdue: number,
+    details: Record<string, any> = {},
+  ): Promise<void> {
+    await this.emit(WebhookEventType.DEADLINE_PASSED, {
+      rfqNumber,
+      deadline: deadline.toISOString(),
+      hoursOverdue,
+      ...details,
+    }, { rfqNumber, clientEmail: details.clientEmail });
   }
 
-  async emitDailySummary(stats: Record<string, any>): Promise<void> {
+  async emitDailySummary(stats: Record<string, any>, date: Date = new Date()): Promise<void> {
     await this.emit(WebhookEventType.DAILY_SUMMARY, {
-      date: new Date().toISOString().split('T')[0],
+      date: date.toISOString().split('T')[0],
       stats,
     });
   }